@@ -4,6 +4,7 @@ const nextConfig = {
   trailingSlash: true,
   skipTrailingSlashRedirect: true,
   distDir: 'build', // Azure Static Web Appsが期待するフォルダー名
+  serverExternalPackages: ['pdfjs-dist', '@napi-rs/canvas'], // プレビュー生成用（バンドルせずに読み込む）
   eslint: {
     ignoreDuringBuilds: true,
   },
@@ -0,0 +1,85 @@
+#!/usr/bin/env tsx
+
+/**
+ * 質問埋め込みベクターのバックフィルスクリプト
+ *
+ * contentVector が未設定の既存質問に埋め込みベクターを付与する
+ *
+ * 使用方法:
+ * npm run db:backfill-embeddings
+ * npm run db:backfill-embeddings -- --force   # 全質問を再生成
+ *
+ * 環境変数設定が必要:
+ * - COSMOS_DB_CONNECTION_STRING
+ * - COSMOS_DB_DATABASE_NAME
+ * - AZURE_OPENAI_ENDPOINT
+ * - AZURE_OPENAI_API_KEY
+ *
+ * 注意: ベクターインデックスはコンテナ作成時にしか設定できないため、
+ * questions コンテナが npm run db:init で作成されている必要がある
+ */
+
+// 環境変数の読み込み
+import { config } from 'dotenv'
+import { join } from 'path'
+
+// .env.local ファイルを読み込み
+config({ path: join(process.cwd(), '.env.local') })
+
+import { getCosmosService, QUESTION_VECTOR_FIELD } from '../src/lib/cosmos'
+import { embedQuestion } from '../src/lib/search'
+import { Question } from '../src/types/question'
+
+async function backfillEmbeddings(force: boolean) {
+  console.log('🚀 Backfilling question embeddings...')
+
+  const cosmosService = getCosmosService()
+
+  const query = force
+    ? 'SELECT * FROM c'
+    : `SELECT * FROM c WHERE NOT IS_DEFINED(c.${QUESTION_VECTOR_FIELD}) OR IS_NULL(c.${QUESTION_VECTOR_FIELD})`
+  const questions = await cosmosService.queryItems<Question>('questions', query)
+
+  console.log(`📦 ${questions.length} questions to process${force ? ' (force)' : ''}`)
+
+  let succeeded = 0
+  let failed = 0
+
+  for (const question of questions) {
+    try {
+      const contentVector = await embedQuestion(question)
+      await cosmosService.updateItem<Question>(
+        'questions',
+        question.id,
+        { ...question, contentVector },
+        question.groupId
+      )
+      succeeded++
+      console.log(`  ✅ Embedded: ${question.title}`)
+    } catch (error) {
+      failed++
+      console.error(`  ❌ Failed: ${question.id}`, error)
+    }
+  }
+
+  console.log('\n📊 Summary:')
+  console.log(`  - Embedded: ${succeeded}`)
+  console.log(`  - Failed: ${failed}`)
+
+  if (failed > 0) {
+    throw new Error(`${failed} questions could not be embedded`)
+  }
+}
+
+// スクリプト実行
+if (require.main === module) {
+  backfillEmbeddings(process.argv.includes('--force'))
+    .then(() => {
+      console.log('\n✅ Backfill script completed')
+      process.exit(0)
+    })
+    .catch((error) => {
+      console.error('💥 Script failed:', error)
+      process.exit(1)
+    })
+}
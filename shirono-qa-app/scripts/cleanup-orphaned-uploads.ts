@@ -0,0 +1,79 @@
+#!/usr/bin/env tsx
+
+/**
+ * 未参照ファイルのクリーンアップスクリプト
+ *
+ * 質問・回答・コメントのどこからも参照されていない古いファイルを Blob Storage から削除する
+ * （新規質問の作成を中断した場合などに一時パスへ残ったファイルが対象）
+ *
+ * 使用方法:
+ * npm run storage:cleanup
+ * npm run storage:cleanup -- --older-than-hours=48   # 48時間より古いファイルのみ対象
+ * npm run storage:cleanup -- --dry-run               # 削除せずに対象のみ表示
+ *
+ * 環境変数設定が必要:
+ * - COSMOS_DB_CONNECTION_STRING
+ * - COSMOS_DB_DATABASE_NAME
+ * - AZURE_STORAGE_CONNECTION_STRING
+ * - AZURE_STORAGE_CONTAINER_NAME
+ */
+
+// 環境変数の読み込み
+import { config } from 'dotenv'
+import { join } from 'path'
+
+// .env.local ファイルを読み込み
+config({ path: join(process.cwd(), '.env.local') })
+
+import { cleanupOrphanedUploads, DEFAULT_ORPHAN_MAX_AGE_HOURS } from '../src/lib/storage-maintenance'
+
+function parseOlderThanHours(args: string[]): number {
+  const arg = args.find(value => value.startsWith('--older-than-hours='))
+  if (!arg) {
+    return DEFAULT_ORPHAN_MAX_AGE_HOURS
+  }
+
+  const hours = Number(arg.split('=')[1])
+  if (!Number.isFinite(hours) || hours < 1) {
+    throw new Error(`Invalid --older-than-hours: ${arg}`)
+  }
+  return hours
+}
+
+async function cleanup(olderThanHours: number, dryRun: boolean) {
+  console.log(`🚀 Cleaning up unreferenced files older than ${olderThanHours} hours${dryRun ? ' (dry run)' : ''}...`)
+
+  const result = await cleanupOrphanedUploads({ olderThanHours, dryRun })
+
+  for (const fileName of result.deleted) {
+    console.log(`  🗑️  ${dryRun ? 'Would delete' : 'Deleted'}: ${fileName}`)
+  }
+  for (const fileName of result.failed) {
+    console.error(`  ❌ Failed: ${fileName}`)
+  }
+
+  console.log('\n📊 Summary:')
+  console.log(`  - Scanned: ${result.scanned}`)
+  console.log(`  - ${dryRun ? 'Would delete' : 'Deleted'}: ${result.deleted.length} (${result.freedBytes} bytes)`)
+  console.log(`  - Failed: ${result.failed.length}`)
+
+  if (result.failed.length > 0) {
+    throw new Error(`${result.failed.length} files could not be deleted`)
+  }
+}
+
+// スクリプト実行
+if (require.main === module) {
+  const args = process.argv.slice(2)
+
+  Promise.resolve()
+    .then(() => cleanup(parseOlderThanHours(args), args.includes('--dry-run')))
+    .then(() => {
+      console.log('\n✅ Cleanup script completed')
+      process.exit(0)
+    })
+    .catch((error) => {
+      console.error('💥 Script failed:', error)
+      process.exit(1)
+    })
+}
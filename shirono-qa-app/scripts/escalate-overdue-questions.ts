@@ -0,0 +1,49 @@
+#!/usr/bin/env tsx
+
+/**
+ * SLA期限超過のエスカレーションスクリプト
+ *
+ * 初回回答・解決の期限を超過した未回答・回答済みの質問を管理者にメールで通知する
+ * cron などで定期的に実行する（同じ期限の通知は一度だけ送信）
+ *
+ * 使用方法:
+ * npm run sla:escalate
+ *
+ * 環境変数設定が必要:
+ * - COSMOS_DB_CONNECTION_STRING
+ * - COSMOS_DB_DATABASE_NAME
+ * - SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD
+ */
+
+// 環境変数の読み込み
+import { config } from 'dotenv'
+import { join } from 'path'
+
+// .env.local ファイルを読み込み
+config({ path: join(process.cwd(), '.env.local') })
+
+import { escalateOverdueQuestions } from '../src/lib/sla-escalation'
+
+async function escalate() {
+  console.log('🚀 Checking overdue questions...')
+
+  const result = await escalateOverdueQuestions()
+
+  console.log('\n📊 Summary:')
+  console.log(`  - Checked: ${result.checked}`)
+  console.log(`  - Due dates backfilled: ${result.backfilled}`)
+  console.log(`  - Escalated: ${result.escalated}`)
+}
+
+// スクリプト実行
+if (require.main === module) {
+  escalate()
+    .then(() => {
+      console.log('\n✅ Escalation script completed')
+      process.exit(0)
+    })
+    .catch((error) => {
+      console.error('💥 Script failed:', error)
+      process.exit(1)
+    })
+}
@@ -0,0 +1,89 @@
+#!/usr/bin/env tsx
+
+/**
+ * 投稿本文の Markdown 変換スクリプト
+ *
+ * contentHtml が未設定の既存の質問・回答・コメントの本文を HTML に変換する
+ * 変換・無害化の規則を変更した場合は --force で全件を変換し直す
+ *
+ * 使用方法:
+ * npm run db:render-markdown
+ * npm run db:render-markdown -- --force   # 全件を再変換
+ *
+ * 環境変数設定が必要:
+ * - COSMOS_DB_CONNECTION_STRING
+ * - COSMOS_DB_DATABASE_NAME
+ */
+
+// 環境変数の読み込み
+import { config } from 'dotenv'
+import { join } from 'path'
+
+// .env.local ファイルを読み込み
+config({ path: join(process.cwd(), '.env.local') })
+
+import { getCosmosService } from '../src/lib/cosmos'
+import { renderMarkdown } from '../src/lib/markdown'
+
+// 投稿の種類ごとのパーティションキー
+const CONTAINERS = [
+  { id: 'questions', partitionKey: 'groupId' },
+  { id: 'answers', partitionKey: 'questionId' },
+  { id: 'comments', partitionKey: 'questionId' }
+] as const
+
+type Post = { id: string; content: string; contentHtml?: string } & Record<string, unknown>
+
+async function renderPosts(force: boolean) {
+  console.log('🚀 Rendering post markdown...')
+
+  const cosmosService = getCosmosService()
+
+  let succeeded = 0
+  let failed = 0
+
+  for (const container of CONTAINERS) {
+    const query = force
+      ? 'SELECT * FROM c'
+      : 'SELECT * FROM c WHERE NOT IS_DEFINED(c.contentHtml) OR IS_NULL(c.contentHtml)'
+    const posts = await cosmosService.queryItems<Post>(container.id, query)
+
+    console.log(`📦 ${posts.length} ${container.id} to process${force ? ' (force)' : ''}`)
+
+    for (const post of posts) {
+      try {
+        await cosmosService.updateItem<Post>(
+          container.id,
+          post.id,
+          { ...post, contentHtml: renderMarkdown(post.content) },
+          post[container.partitionKey] as string
+        )
+        succeeded++
+      } catch (error) {
+        failed++
+        console.error(`  ❌ Failed: ${container.id}/${post.id}`, error)
+      }
+    }
+  }
+
+  console.log('\n📊 Summary:')
+  console.log(`  - Rendered: ${succeeded}`)
+  console.log(`  - Failed: ${failed}`)
+
+  if (failed > 0) {
+    throw new Error(`${failed} posts could not be rendered`)
+  }
+}
+
+// スクリプト実行
+if (require.main === module) {
+  renderPosts(process.argv.includes('--force'))
+    .then(() => {
+      console.log('\n✅ Render script completed')
+      process.exit(0)
+    })
+    .catch((error) => {
+      console.error('💥 Script failed:', error)
+      process.exit(1)
+    })
+}
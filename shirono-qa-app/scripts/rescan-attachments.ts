@@ -0,0 +1,57 @@
+#!/usr/bin/env tsx
+
+/**
+ * 添付ファイルの再スキャンスクリプト
+ *
+ * スキャナーの障害などでスキャン待ちのまま残った添付ファイルをスキャンする
+ *
+ * 使用方法:
+ * npm run storage:rescan
+ * npm run storage:rescan -- --include-unscanned   # スキャン導入前の添付ファイルも対象
+ *
+ * 環境変数設定が必要:
+ * - COSMOS_DB_CONNECTION_STRING
+ * - COSMOS_DB_DATABASE_NAME
+ * - AZURE_STORAGE_CONNECTION_STRING
+ * - AZURE_STORAGE_CONTAINER_NAME
+ * - MALWARE_SCANNER=clamd, CLAMD_HOST, CLAMD_PORT（未設定時はスキャンせずに clean として記録）
+ */
+
+// 環境変数の読み込み
+import { config } from 'dotenv'
+import { join } from 'path'
+
+// .env.local ファイルを読み込み
+config({ path: join(process.cwd(), '.env.local') })
+
+import { rescanPendingAttachments } from '../src/lib/attachment-scan'
+import { getMalwareScanner } from '../src/lib/malware-scanner'
+
+async function rescan(includeUnscanned: boolean) {
+  console.log(`🚀 Rescanning attachments with "${getMalwareScanner().name}" scanner${includeUnscanned ? ' (including unscanned)' : ''}...`)
+
+  const result = await rescanPendingAttachments({ includeUnscanned })
+
+  console.log('\n📊 Summary:')
+  console.log(`  - Scanned: ${result.scanned}`)
+  console.log(`  - Clean: ${result.clean}`)
+  console.log(`  - Quarantined: ${result.quarantined}`)
+  console.log(`  - Still pending: ${result.pending}`)
+
+  if (result.pending > 0) {
+    throw new Error(`${result.pending} attachments could not be scanned`)
+  }
+}
+
+// スクリプト実行
+if (require.main === module) {
+  rescan(process.argv.includes('--include-unscanned'))
+    .then(() => {
+      console.log('\n✅ Rescan script completed')
+      process.exit(0)
+    })
+    .catch((error) => {
+      console.error('💥 Script failed:', error)
+      process.exit(1)
+    })
+}
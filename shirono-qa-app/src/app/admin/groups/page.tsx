@@ -18,17 +18,30 @@ import {
   CircularProgress,
   Grid,
   Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
 } from '@mui/material'
-import { Add as AddIcon, Group as GroupIcon } from '@mui/icons-material'
+import { Add as AddIcon, Group as GroupIcon, Timer as TimerIcon } from '@mui/icons-material'
 import { Group } from '@/types/group'
 import { User } from '@/types/auth'
+import { QuestionPriority, SlaPolicy } from '@/types/question'
 import { GroupCreateData } from '@/lib/admin'
+import { resolveSlaPolicy } from '@/lib/sla'
+
+const PRIORITY_LABELS: Record<QuestionPriority, string> = {
+  [QuestionPriority.HIGH]: '高',
+  [QuestionPriority.MEDIUM]: '中',
+  [QuestionPriority.LOW]: '低',
+}
 
 export default function GroupManagementPage() {
   const router = useRouter()
 
   const [_user, setUser] = useState<User | null>(null)
   const [groups, setGroups] = useState<Group[]>([])
+  const [admins, setAdmins] = useState<User[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [showCreateDialog, setShowCreateDialog] = useState(false)
@@ -38,6 +51,10 @@ export default function GroupManagementPage() {
     description: ''
   })
   const [formErrors, setFormErrors] = useState<{ [key: string]: string }>({})
+  const [slaGroup, setSlaGroup] = useState<Group | null>(null)
+  const [slaForm, setSlaForm] = useState<SlaPolicy>(resolveSlaPolicy())
+  const [savingSla, setSavingSla] = useState(false)
+  const [slaError, setSlaError] = useState<string | null>(null)
 
   const loadData = useCallback(async () => {
     try {
@@ -81,6 +98,15 @@ export default function GroupManagementPage() {
       }
 
       setGroups(groupsResult.groups || [])
+
+      // 既定の担当者の候補（取得できなくてもグループ一覧は表示する）
+      const adminsResponse = await fetch('/api/admin/users?isAdmin=true', {
+        credentials: 'include'
+      })
+      if (adminsResponse.ok) {
+        const adminsResult = await adminsResponse.json()
+        setAdmins(adminsResult.users || [])
+      }
     } catch (err) {
       console.error('Error loading data:', err)
       setError('Failed to load page data')
@@ -155,6 +181,77 @@ export default function GroupManagementPage() {
     }
   }
 
+  const handleDefaultAssigneeChange = async (groupId: string, defaultAssigneeId: string) => {
+    try {
+      setError(null)
+
+      const response = await fetch(`/api/admin/groups/${groupId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ defaultAssigneeId: defaultAssigneeId || null })
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        setError(result.error?.message || 'Failed to update default assignee')
+        return
+      }
+
+      setGroups(prev => prev.map(group => group.id === groupId ? result.group : group))
+    } catch (err) {
+      console.error('Error updating default assignee:', err)
+      setError('Failed to update default assignee')
+    }
+  }
+
+  const openSlaDialog = (group: Group) => {
+    setSlaGroup(group)
+    setSlaForm(resolveSlaPolicy(group.slaPolicy))
+    setSlaError(null)
+  }
+
+  const handleSlaChange = (priority: QuestionPriority, field: 'firstResponseHours' | 'resolutionHours', value: string) => {
+    setSlaForm(prev => ({
+      ...prev,
+      [priority]: { ...prev[priority], [field]: Number(value) }
+    }))
+  }
+
+  const handleSaveSla = async () => {
+    if (!slaGroup) return
+
+    try {
+      setSavingSla(true)
+      setSlaError(null)
+
+      const response = await fetch(`/api/admin/groups/${slaGroup.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ slaPolicy: slaForm })
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        setSlaError(result.error?.message || 'Failed to update SLA')
+        return
+      }
+
+      setGroups(prev => prev.map(group => group.id === slaGroup.id ? result.group : group))
+      setSlaGroup(null)
+    } catch (err) {
+      console.error('Error updating SLA:', err)
+      setSlaError('Failed to update SLA')
+    } finally {
+      setSavingSla(false)
+    }
+  }
+
   const handleCancelCreate = () => {
     setShowCreateDialog(false)
     setFormData({ name: '', description: '' })
@@ -245,6 +342,33 @@ export default function GroupManagementPage() {
                     variant="outlined"
                     color="default"
                   />
+
+                  {/* 新しい質問の既定の担当者（未設定は管理者のラウンドロビン） */}
+                  <FormControl fullWidth size="small" sx={{ mt: 2 }}>
+                    <InputLabel id={`default-assignee-${group.id}`}>既定の担当者</InputLabel>
+                    <Select
+                      labelId={`default-assignee-${group.id}`}
+                      label="既定の担当者"
+                      value={group.defaultAssigneeId || ''}
+                      onChange={(e) => handleDefaultAssigneeChange(group.id, e.target.value)}
+                    >
+                      <MenuItem value="">ラウンドロビン</MenuItem>
+                      {admins.map((admin) => (
+                        <MenuItem key={admin.id} value={admin.id}>
+                          {admin.username}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+
+                  <Button
+                    size="small"
+                    startIcon={<TimerIcon />}
+                    onClick={() => openSlaDialog(group)}
+                    sx={{ mt: 1 }}
+                  >
+                    SLA設定
+                  </Button>
                 </CardContent>
               </Card>
             </Grid>
@@ -325,6 +449,55 @@ export default function GroupManagementPage() {
             </Button>
           </DialogActions>
         </Dialog>
+
+        {/* SLA設定ダイアログ */}
+        <Dialog
+          open={slaGroup !== null}
+          onClose={() => setSlaGroup(null)}
+          maxWidth="sm"
+          fullWidth
+        >
+          <DialogTitle>SLA設定 - {slaGroup?.name}</DialogTitle>
+          <DialogContent>
+            {slaError && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {slaError}
+              </Alert>
+            )}
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              優先度ごとに、投稿から初回回答・解決までの目標時間（時間）を設定します。
+            </Typography>
+            {Object.values(QuestionPriority).map((priority) => (
+              <Box key={priority} display="flex" alignItems="center" gap={2} mb={2}>
+                <Typography sx={{ width: 80 }}>優先度: {PRIORITY_LABELS[priority]}</Typography>
+                <TextField
+                  label="初回回答（時間）"
+                  type="number"
+                  size="small"
+                  value={slaForm[priority].firstResponseHours}
+                  onChange={(e) => handleSlaChange(priority, 'firstResponseHours', e.target.value)}
+                  inputProps={{ min: 1 }}
+                />
+                <TextField
+                  label="解決（時間）"
+                  type="number"
+                  size="small"
+                  value={slaForm[priority].resolutionHours}
+                  onChange={(e) => handleSlaChange(priority, 'resolutionHours', e.target.value)}
+                  inputProps={{ min: 1 }}
+                />
+              </Box>
+            ))}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setSlaGroup(null)} disabled={savingSla}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSla} variant="contained" disabled={savingSla}>
+              {savingSla ? <CircularProgress size={20} /> : 'Save'}
+            </Button>
+          </DialogActions>
+        </Dialog>
       </Box>
     </div>
   )
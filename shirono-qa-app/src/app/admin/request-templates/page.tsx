@@ -0,0 +1,355 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import AppHeader from '@/components/AppHeader'
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Alert,
+  CircularProgress,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TextField,
+  Select,
+  MenuItem,
+  Checkbox,
+  IconButton,
+  Tabs,
+  Tab,
+  Stack,
+} from '@mui/material'
+import {
+  Assignment as AssignmentIcon,
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  ArrowUpward as ArrowUpwardIcon,
+  ArrowDownward as ArrowDownwardIcon,
+} from '@mui/icons-material'
+import { RequestType } from '@/types/question'
+import { RequestFieldType, RequestTemplate, RequestTemplateField } from '@/types/request-template'
+import { REQUEST_TYPE_LABELS, REQUEST_TEMPLATE_LIMITS } from '@/lib/request-types'
+
+const FIELD_TYPE_LABELS: Record<RequestFieldType, string> = {
+  text: '1行テキスト',
+  textarea: '複数行テキスト',
+  date: '日付'
+}
+
+export default function RequestTemplatesPage() {
+  const router = useRouter()
+
+  const [templates, setTemplates] = useState<RequestTemplate[]>([])
+  const [selectedType, setSelectedType] = useState<RequestType>(RequestType.QUESTION)
+  const [fields, setFields] = useState<RequestTemplateField[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      // 認証チェック - APIエンドポイントを使用
+      const authResponse = await fetch('/api/auth/me', {
+        credentials: 'include'
+      })
+
+      if (!authResponse.ok) {
+        router.push('/login')
+        return
+      }
+
+      const authResult = await authResponse.json()
+
+      // 管理者権限チェック
+      if (!authResult.user?.isAdmin) {
+        router.push('/questions')
+        return
+      }
+
+      const response = await fetch('/api/request-templates', {
+        credentials: 'include'
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        setError(result.error?.message || 'Failed to load request templates')
+        return
+      }
+
+      setTemplates(result.templates || [])
+    } catch (err) {
+      console.error('Error loading data:', err)
+      setError('Failed to load page data')
+    } finally {
+      setLoading(false)
+    }
+  }, [router])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  // 種別を切り替えたら編集中の項目を読み込み直す
+  useEffect(() => {
+    const template = templates.find(entry => entry.requestType === selectedType)
+    setFields(template?.fields ?? [])
+  }, [templates, selectedType])
+
+  const updateField = (index: number, changes: Partial<RequestTemplateField>) => {
+    setFields(prev => prev.map((field, i) => i === index ? { ...field, ...changes } : field))
+  }
+
+  const moveField = (index: number, offset: number) => {
+    setFields(prev => {
+      const next = [...prev]
+      const [field] = next.splice(index, 1)
+      next.splice(index + offset, 0, field)
+      return next
+    })
+  }
+
+  const addField = () => {
+    setFields(prev => [...prev, { key: `field${prev.length + 1}`, label: '', type: 'text', required: false }])
+  }
+
+  const applySavedTemplate = (template: RequestTemplate, successMessage: string) => {
+    setTemplates(prev => prev.map(entry => entry.requestType === template.requestType ? template : entry))
+    setMessage(successMessage)
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+      setMessage(null)
+
+      const response = await fetch(`/api/admin/request-templates/${selectedType}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ fields })
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        setError(result.error?.message || 'Failed to update request template')
+        return
+      }
+
+      applySavedTemplate(result.template, `${REQUEST_TYPE_LABELS[selectedType]}のテンプレートを保存しました`)
+    } catch (err) {
+      console.error('Error saving request template:', err)
+      setError('Failed to update request template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = async () => {
+    try {
+      setSaving(true)
+      setError(null)
+      setMessage(null)
+
+      const response = await fetch(`/api/admin/request-templates/${selectedType}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        setError(result.error?.message || 'Failed to reset request template')
+        return
+      }
+
+      applySavedTemplate(result.template, `${REQUEST_TYPE_LABELS[selectedType]}のテンプレートを既定に戻しました`)
+    } catch (err) {
+      console.error('Error resetting request template:', err)
+      setError('Failed to reset request template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+        <CircularProgress />
+        <Typography variant="body1" sx={{ ml: 2 }}>Loading...</Typography>
+      </Box>
+    )
+  }
+
+  const breadcrumbItems = [
+    { label: 'ホーム', href: '/questions' },
+    { label: '依頼テンプレート管理', current: true }
+  ]
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader breadcrumbItems={breadcrumbItems} />
+
+      <Box p={3}>
+        {/* ページヘッダー */}
+        <Box display="flex" alignItems="center" mb={3}>
+          <AssignmentIcon color="primary" sx={{ mr: 1 }} />
+          <Typography variant="h4" component="h1">
+            依頼テンプレート管理
+          </Typography>
+        </Box>
+
+        {/* エラー表示 */}
+        {error && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {error}
+          </Alert>
+        )}
+
+        {message && (
+          <Alert severity="success" sx={{ mb: 3 }} onClose={() => setMessage(null)}>
+            {message}
+          </Alert>
+        )}
+
+        <Card elevation={2}>
+          <Tabs
+            value={selectedType}
+            onChange={(_, value: RequestType) => {
+              setSelectedType(value)
+              setMessage(null)
+            }}
+            sx={{ borderBottom: 1, borderColor: 'divider' }}
+          >
+            {Object.values(RequestType).map((type) => (
+              <Tab key={type} value={type} label={REQUEST_TYPE_LABELS[type]} />
+            ))}
+          </Tabs>
+
+          <CardContent>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              投稿フォームに表示する入力項目です。変更前に投稿された内容は投稿時の項目名のまま表示されます。
+            </Typography>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>項目名</TableCell>
+                  <TableCell>キー</TableCell>
+                  <TableCell>形式</TableCell>
+                  <TableCell align="center">必須</TableCell>
+                  <TableCell>入力例</TableCell>
+                  <TableCell align="right">操作</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {fields.map((field, index) => (
+                  <TableRow key={index} data-testid={`template-field-${index}`}>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        value={field.label}
+                        onChange={(e) => updateField(index, { label: e.target.value })}
+                        inputProps={{ 'aria-label': '項目名', maxLength: REQUEST_TEMPLATE_LIMITS.LABEL_MAX_LENGTH }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        value={field.key}
+                        onChange={(e) => updateField(index, { key: e.target.value })}
+                        inputProps={{ 'aria-label': 'キー', maxLength: REQUEST_TEMPLATE_LIMITS.KEY_MAX_LENGTH }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        value={field.type}
+                        onChange={(e) => updateField(index, { type: e.target.value as RequestFieldType })}
+                        inputProps={{ 'aria-label': '形式' }}
+                      >
+                        {(Object.keys(FIELD_TYPE_LABELS) as RequestFieldType[]).map((type) => (
+                          <MenuItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                    <TableCell align="center">
+                      <Checkbox
+                        checked={field.required}
+                        onChange={(e) => updateField(index, { required: e.target.checked })}
+                        inputProps={{ 'aria-label': '必須' }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TextField
+                        size="small"
+                        fullWidth
+                        value={field.placeholder ?? ''}
+                        onChange={(e) => updateField(index, { placeholder: e.target.value })}
+                        inputProps={{ 'aria-label': '入力例', maxLength: REQUEST_TEMPLATE_LIMITS.PLACEHOLDER_MAX_LENGTH }}
+                      />
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <IconButton size="small" onClick={() => moveField(index, -1)} disabled={index === 0} aria-label="上へ">
+                        <ArrowUpwardIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton size="small" onClick={() => moveField(index, 1)} disabled={index === fields.length - 1} aria-label="下へ">
+                        <ArrowDownwardIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        onClick={() => setFields(prev => prev.filter((_, i) => i !== index))}
+                        aria-label="削除"
+                        sx={{ color: 'error.main' }}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {fields.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} align="center">
+                      <Typography variant="body2" color="text.secondary">
+                        入力項目はありません（タイトルと本文のみ）
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            <Stack direction="row" spacing={2} justifyContent="space-between" sx={{ mt: 3 }}>
+              <Button
+                startIcon={<AddIcon />}
+                onClick={addField}
+                disabled={fields.length >= REQUEST_TEMPLATE_LIMITS.MAX_FIELDS}
+              >
+                項目を追加
+              </Button>
+              <Stack direction="row" spacing={2}>
+                <Button variant="outlined" onClick={handleReset} disabled={saving}>
+                  既定に戻す
+                </Button>
+                <Button variant="contained" onClick={handleSave} disabled={saving}>
+                  {saving ? '保存中...' : '保存'}
+                </Button>
+              </Stack>
+            </Stack>
+          </CardContent>
+        </Card>
+      </Box>
+    </div>
+  )
+}
@@ -0,0 +1,262 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import AppHeader from '@/components/AppHeader'
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Alert,
+  CircularProgress,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TextField,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material'
+import { Storage as StorageIcon, DeleteSweep as DeleteSweepIcon } from '@mui/icons-material'
+import { GroupStorageUsage, StorageCleanupResult } from '@/types/upload'
+
+const DEFAULT_OLDER_THAN_HOURS = 24
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B'
+  const units = ['B', 'KB', 'MB', 'GB', 'TB']
+  const index = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), units.length - 1)
+  return `${(bytes / Math.pow(1024, index)).toFixed(index === 0 ? 0 : 1)} ${units[index]}`
+}
+
+export default function StorageManagementPage() {
+  const router = useRouter()
+
+  const [usage, setUsage] = useState<GroupStorageUsage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [olderThanHours, setOlderThanHours] = useState(DEFAULT_OLDER_THAN_HOURS)
+  const [dryRun, setDryRun] = useState(true)
+  const [cleaning, setCleaning] = useState(false)
+  const [cleanupResult, setCleanupResult] = useState<StorageCleanupResult | null>(null)
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      // 認証チェック - APIエンドポイントを使用
+      const authResponse = await fetch('/api/auth/me', {
+        credentials: 'include'
+      })
+
+      if (!authResponse.ok) {
+        router.push('/login')
+        return
+      }
+
+      const authResult = await authResponse.json()
+
+      // 管理者権限チェック
+      if (!authResult.user?.isAdmin) {
+        router.push('/questions')
+        return
+      }
+
+      // 使用量取得
+      const response = await fetch('/api/admin/storage', {
+        credentials: 'include'
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        setError(result.error?.message || 'Failed to load storage usage')
+        return
+      }
+
+      setUsage(result.usage || [])
+    } catch (err) {
+      console.error('Error loading data:', err)
+      setError('Failed to load page data')
+    } finally {
+      setLoading(false)
+    }
+  }, [router])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  const handleCleanup = async () => {
+    try {
+      setCleaning(true)
+      setError(null)
+      setCleanupResult(null)
+
+      const response = await fetch('/api/admin/storage/cleanup', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ olderThanHours, dryRun })
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        setError(result.error?.message || 'Failed to clean up storage')
+        return
+      }
+
+      setCleanupResult(result.result)
+
+      // 削除した場合は使用量を再読み込み
+      if (!dryRun) {
+        await loadData()
+      }
+    } catch (err) {
+      console.error('Error cleaning up storage:', err)
+      setError('Failed to clean up storage')
+    } finally {
+      setCleaning(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+        <CircularProgress />
+        <Typography variant="body1" sx={{ ml: 2 }}>Loading...</Typography>
+      </Box>
+    )
+  }
+
+  const breadcrumbItems = [
+    { label: 'ホーム', href: '/questions' },
+    { label: 'ストレージ管理', current: true }
+  ]
+
+  const totalBytes = usage.reduce((total, entry) => total + entry.totalBytes, 0)
+  const totalFiles = usage.reduce((total, entry) => total + entry.fileCount, 0)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader breadcrumbItems={breadcrumbItems} />
+
+      <Box p={3}>
+        {/* ページヘッダー */}
+        <Box display="flex" alignItems="center" mb={3}>
+          <StorageIcon color="primary" sx={{ mr: 1 }} />
+          <Typography variant="h4" component="h1">
+            ストレージ管理
+          </Typography>
+        </Box>
+
+        {/* エラー表示 */}
+        {error && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {error}
+          </Alert>
+        )}
+
+        {/* グループ別使用量 */}
+        <Card elevation={2} sx={{ mb: 3 }}>
+          <CardContent>
+            <Typography variant="h6" component="h2" gutterBottom>
+              グループ別使用量
+            </Typography>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>グループ</TableCell>
+                  <TableCell align="right">ファイル数</TableCell>
+                  <TableCell align="right">使用量</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {usage.map((entry) => (
+                  <TableRow key={entry.groupId ?? 'unassigned'} data-testid={`storage-usage-${entry.groupId ?? 'unassigned'}`}>
+                    <TableCell>{entry.groupName}</TableCell>
+                    <TableCell align="right">{entry.fileCount.toLocaleString()}</TableCell>
+                    <TableCell align="right">{formatBytes(entry.totalBytes)}</TableCell>
+                  </TableRow>
+                ))}
+                {usage.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} align="center">
+                      <Typography variant="body2" color="text.secondary">
+                        保存されているファイルはありません
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 'bold' }}>合計</TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 'bold' }}>{totalFiles.toLocaleString()}</TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 'bold' }}>{formatBytes(totalBytes)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {/* 未参照ファイルの削除 */}
+        <Card elevation={2}>
+          <CardContent>
+            <Typography variant="h6" component="h2" gutterBottom>
+              未参照ファイルの削除
+            </Typography>
+            <Typography variant="body2" color="text.secondary" mb={2}>
+              質問・回答・コメントのどこからも参照されていないファイルを削除します。
+              定期実行のほか、ここから手動で実行できます。
+            </Typography>
+
+            <Box display="flex" alignItems="center" gap={2} flexWrap="wrap">
+              <TextField
+                label="経過時間（時間）"
+                type="number"
+                size="small"
+                value={olderThanHours}
+                onChange={(e) => setOlderThanHours(Math.max(1, Number(e.target.value) || 1))}
+                inputProps={{ min: 1 }}
+                sx={{ width: 160 }}
+              />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={dryRun}
+                    onChange={(e) => setDryRun(e.target.checked)}
+                  />
+                }
+                label="削除せずに対象のみ確認"
+              />
+              <Button
+                variant="contained"
+                color={dryRun ? 'primary' : 'error'}
+                startIcon={cleaning ? <CircularProgress size={16} /> : <DeleteSweepIcon />}
+                onClick={handleCleanup}
+                disabled={cleaning}
+              >
+                {dryRun ? '対象を確認' : '削除を実行'}
+              </Button>
+            </Box>
+
+            {cleanupResult && (
+              <Alert severity={cleanupResult.failed.length > 0 ? 'warning' : 'success'} sx={{ mt: 2 }}>
+                {cleanupResult.scanned.toLocaleString()} 件中{' '}
+                {cleanupResult.deleted.length.toLocaleString()} 件
+                {cleanupResult.dryRun ? 'が削除対象です' : 'を削除しました'}
+                （{formatBytes(cleanupResult.freedBytes)}）
+                {cleanupResult.failed.length > 0 && `。${cleanupResult.failed.length} 件の削除に失敗しました`}
+              </Alert>
+            )}
+          </CardContent>
+        </Card>
+      </Box>
+    </div>
+  )
+}
@@ -0,0 +1,456 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import AppHeader from '@/components/AppHeader'
+import {
+  Box,
+  Typography,
+  Button,
+  Card,
+  CardContent,
+  Alert,
+  CircularProgress,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  IconButton,
+  Chip,
+  Stack,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Autocomplete,
+} from '@mui/material'
+import {
+  LocalOffer as TagIcon,
+  Add as AddIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  MergeType as MergeIcon,
+} from '@mui/icons-material'
+import { Tag, TagUsage } from '@/types/tag'
+import { buildTagIndex, getTagKey, TAG_LIMITS } from '@/lib/tag-names'
+
+interface TagFormData {
+  name: string
+  synonyms: string[]
+  description: string
+}
+
+const EMPTY_FORM: TagFormData = { name: '', synonyms: [], description: '' }
+
+export default function TagsPage() {
+  const router = useRouter()
+
+  const [tags, setTags] = useState<Tag[]>([])
+  const [usage, setUsage] = useState<TagUsage[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // 作成・編集ダイアログ（editingTag が null のときは新規作成）
+  const [formOpen, setFormOpen] = useState(false)
+  const [editingTag, setEditingTag] = useState<Tag | null>(null)
+  const [formData, setFormData] = useState<TagFormData>(EMPTY_FORM)
+
+  // 統合・削除ダイアログ
+  const [mergeSource, setMergeSource] = useState<Tag | null>(null)
+  const [mergeTargetId, setMergeTargetId] = useState('')
+  const [deleteTarget, setDeleteTarget] = useState<Tag | null>(null)
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      // 認証チェック - APIエンドポイントを使用
+      const authResponse = await fetch('/api/auth/me', {
+        credentials: 'include'
+      })
+
+      if (!authResponse.ok) {
+        router.push('/login')
+        return
+      }
+
+      const authResult = await authResponse.json()
+
+      // 管理者権限チェック
+      if (!authResult.user?.isAdmin) {
+        router.push('/questions')
+        return
+      }
+
+      const response = await fetch('/api/admin/tags', {
+        credentials: 'include'
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        setError(result.error?.message || 'Failed to load tags')
+        return
+      }
+
+      setTags(result.tags || [])
+      setUsage(result.usage || [])
+    } catch (err) {
+      console.error('Error loading data:', err)
+      setError('Failed to load page data')
+    } finally {
+      setLoading(false)
+    }
+  }, [router])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  // 質問での使用件数（カタログのタグは同義語で付けられた分も含める）
+  const tagIndex = buildTagIndex(tags)
+  const usageCounts = new Map<string, number>()
+  for (const entry of usage) {
+    const key = getTagKey(tagIndex.get(getTagKey(entry.name)) ?? entry.name)
+    usageCounts.set(key, (usageCounts.get(key) ?? 0) + entry.count)
+  }
+  const uncataloguedTags = usage.filter(entry => !tagIndex.has(getTagKey(entry.name)))
+
+  const openForm = (tag: Tag | null, name = '') => {
+    setEditingTag(tag)
+    setFormData(tag
+      ? { name: tag.name, synonyms: tag.synonyms, description: tag.description ?? '' }
+      : { ...EMPTY_FORM, name })
+    setFormOpen(true)
+  }
+
+  // 変更を送信して一覧を読み込み直す
+  const submitChange = async (url: string, method: string, body: unknown, successMessage: (updatedQuestions: number) => string) => {
+    try {
+      setSaving(true)
+      setError(null)
+      setMessage(null)
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        ...(body !== undefined && { body: JSON.stringify(body) })
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.success) {
+        setError(result.error?.message || 'Failed to update tags')
+        return false
+      }
+
+      setMessage(successMessage(result.updatedQuestions ?? 0))
+      await loadData()
+      return true
+    } catch (err) {
+      console.error('Error updating tags:', err)
+      setError('Failed to update tags')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSaveForm = async () => {
+    const saved = await submitChange(
+      editingTag ? `/api/admin/tags/${editingTag.id}` : '/api/admin/tags',
+      editingTag ? 'PUT' : 'POST',
+      formData,
+      (count) => `タグ「${formData.name.trim()}」を保存しました（${count}件の投稿のタグを更新）`
+    )
+    if (saved) {
+      setFormOpen(false)
+    }
+  }
+
+  const handleMerge = async () => {
+    if (!mergeSource) return
+    const target = tags.find(tag => tag.id === mergeTargetId)
+    const merged = await submitChange(
+      `/api/admin/tags/${mergeSource.id}/merge`,
+      'POST',
+      { targetId: mergeTargetId },
+      (count) => `タグ「${mergeSource.name}」を「${target?.name}」に統合しました（${count}件の投稿のタグを更新）`
+    )
+    if (merged) {
+      setMergeSource(null)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return
+    const deleted = await submitChange(
+      `/api/admin/tags/${deleteTarget.id}`,
+      'DELETE',
+      undefined,
+      () => `タグ「${deleteTarget.name}」をカタログから削除しました`
+    )
+    if (deleted) {
+      setDeleteTarget(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+        <CircularProgress />
+        <Typography variant="body1" sx={{ ml: 2 }}>Loading...</Typography>
+      </Box>
+    )
+  }
+
+  const breadcrumbItems = [
+    { label: 'ホーム', href: '/questions' },
+    { label: 'タグ管理', current: true }
+  ]
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader breadcrumbItems={breadcrumbItems} />
+
+      <Box p={3}>
+        {/* ページヘッダー */}
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+          <Box display="flex" alignItems="center">
+            <TagIcon color="primary" sx={{ mr: 1 }} />
+            <Typography variant="h4" component="h1">
+              タグ管理
+            </Typography>
+          </Box>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => openForm(null)}>
+            タグを追加
+          </Button>
+        </Box>
+
+        {/* エラー表示 */}
+        {error && !formOpen && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {error}
+          </Alert>
+        )}
+
+        {message && (
+          <Alert severity="success" sx={{ mb: 3 }} onClose={() => setMessage(null)}>
+            {message}
+          </Alert>
+        )}
+
+        <Card elevation={2} sx={{ mb: 3 }}>
+          <CardContent>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              投稿時・編集時に同義語は正式名に置き換えられます。名前の変更や統合を行うと、既存の投稿のタグも書き換わります。
+            </Typography>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>正式名</TableCell>
+                  <TableCell>同義語</TableCell>
+                  <TableCell>説明</TableCell>
+                  <TableCell align="right">投稿数</TableCell>
+                  <TableCell align="right">操作</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {tags.map((tag) => (
+                  <TableRow key={tag.id} data-testid={`tag-row-${tag.id}`}>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="medium">{tag.name}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                        {tag.synonyms.map((synonym) => (
+                          <Chip key={synonym} label={synonym} size="small" variant="outlined" />
+                        ))}
+                      </Stack>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color="text.secondary">{tag.description}</Typography>
+                    </TableCell>
+                    <TableCell align="right">{usageCounts.get(getTagKey(tag.name)) ?? 0}</TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <IconButton size="small" onClick={() => openForm(tag)} aria-label="編集">
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        onClick={() => {
+                          setMergeSource(tag)
+                          setMergeTargetId('')
+                        }}
+                        disabled={tags.length < 2}
+                        aria-label="統合"
+                      >
+                        <MergeIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        onClick={() => setDeleteTarget(tag)}
+                        aria-label="削除"
+                        sx={{ color: 'error.main' }}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {tags.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} align="center">
+                      <Typography variant="body2" color="text.secondary">
+                        カタログにタグがありません
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {/* カタログにないタグ */}
+        {uncataloguedTags.length > 0 && (
+          <Card elevation={2}>
+            <CardContent>
+              <Typography variant="h6" sx={{ mb: 1 }}>
+                カタログにないタグ
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                投稿に付いているがカタログに登録されていないタグです。クリックするとカタログに追加できます。
+              </Typography>
+              <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                {uncataloguedTags.map((entry) => (
+                  <Chip
+                    key={entry.name}
+                    label={`${entry.name} (${entry.count})`}
+                    size="small"
+                    onClick={() => openForm(null, entry.name)}
+                  />
+                ))}
+              </Stack>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* 作成・編集ダイアログ */}
+        <Dialog open={formOpen} onClose={() => !saving && setFormOpen(false)} maxWidth="sm" fullWidth>
+          <DialogTitle>{editingTag ? 'タグを編集' : 'タグを追加'}</DialogTitle>
+          <DialogContent>
+            {error && (
+              <Alert severity="error" sx={{ mb: 2 }}>
+                {error}
+              </Alert>
+            )}
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <TextField
+                label="正式名"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                inputProps={{ maxLength: TAG_LIMITS.NAME_MAX_LENGTH }}
+                required
+                fullWidth
+              />
+              <Autocomplete
+                multiple
+                freeSolo
+                options={[]}
+                value={formData.synonyms}
+                onChange={(_, value) => setFormData({ ...formData, synonyms: value })}
+                renderInput={(params) => (
+                  <TextField
+                    {...params}
+                    label="同義語"
+                    placeholder="同義語を入力して Enter"
+                    helperText={`最大${TAG_LIMITS.MAX_SYNONYMS}個まで（大文字・小文字の違いは自動で同一視されます）`}
+                  />
+                )}
+              />
+              <TextField
+                label="説明"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                inputProps={{ maxLength: TAG_LIMITS.DESCRIPTION_MAX_LENGTH }}
+                multiline
+                rows={3}
+                fullWidth
+              />
+            </Stack>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setFormOpen(false)} disabled={saving}>
+              キャンセル
+            </Button>
+            <Button variant="contained" onClick={handleSaveForm} disabled={saving || !formData.name.trim()}>
+              {saving ? '保存中...' : '保存'}
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* 統合ダイアログ */}
+        <Dialog open={!!mergeSource} onClose={() => !saving && setMergeSource(null)} maxWidth="xs" fullWidth>
+          <DialogTitle>タグを統合</DialogTitle>
+          <DialogContent>
+            <DialogContentText sx={{ mb: 2 }}>
+              「{mergeSource?.name}」とその同義語を統合先の同義語にし、投稿のタグを統合先に書き換えます。
+            </DialogContentText>
+            <FormControl fullWidth>
+              <InputLabel id="merge-target-label">統合先</InputLabel>
+              <Select
+                labelId="merge-target-label"
+                label="統合先"
+                value={mergeTargetId}
+                onChange={(e) => setMergeTargetId(e.target.value)}
+              >
+                {tags.filter(tag => tag.id !== mergeSource?.id).map((tag) => (
+                  <MenuItem key={tag.id} value={tag.id}>{tag.name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setMergeSource(null)} disabled={saving}>
+              キャンセル
+            </Button>
+            <Button variant="contained" onClick={handleMerge} disabled={saving || !mergeTargetId}>
+              統合
+            </Button>
+          </DialogActions>
+        </Dialog>
+
+        {/* 削除確認ダイアログ */}
+        <Dialog open={!!deleteTarget} onClose={() => !saving && setDeleteTarget(null)}>
+          <DialogTitle>タグを削除</DialogTitle>
+          <DialogContent>
+            <DialogContentText>
+              「{deleteTarget?.name}」をカタログから削除します。投稿に付いているタグはそのまま残ります。
+            </DialogContentText>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setDeleteTarget(null)} disabled={saving}>
+              キャンセル
+            </Button>
+            <Button color="error" variant="contained" onClick={handleDelete} disabled={saving}>
+              削除
+            </Button>
+          </DialogActions>
+        </Dialog>
+      </Box>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { updateGroup, GroupUpdateData } from '@/lib/admin'
+
+/**
+ * PUT /api/admin/groups/[id] - グループ更新（管理者のみ）
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Invalid session' } },
+        { status: 401 }
+      )
+    }
+
+    // 管理者権限チェック
+    if (!authResult.user.isAdmin) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+
+    const params = await context.params
+    const body = await request.json()
+    const { name, description, defaultAssigneeId, slaPolicy } = body
+
+    const updateData: GroupUpdateData = {
+      ...(name !== undefined && { name: name.trim() }),
+      ...(description !== undefined && { description: description.trim() }),
+      ...(defaultAssigneeId !== undefined && { defaultAssigneeId: defaultAssigneeId || null }),
+      ...(slaPolicy !== undefined && { slaPolicy })
+    }
+
+    const result = await updateGroup(params.id, updateData)
+
+    if (!result.success) {
+      const notFound = result.error === 'Group not found'
+      return NextResponse.json(
+        {
+          error: {
+            code: notFound ? 'NOT_FOUND' : 'VALIDATION_ERROR',
+            message: result.error || 'Failed to update group'
+          }
+        },
+        { status: notFound ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      group: result.group
+    })
+
+  } catch (error) {
+    console.error('Error in PUT /api/admin/groups/[id]:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server'
+import { PUT, DELETE } from '../route'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+import { DEFAULT_REQUEST_TEMPLATES } from '@/lib/request-types'
+import { RequestType } from '@/types/question'
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+import { validateSession } from '@/lib/auth'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+
+const admin = {
+  id: 'admin-1',
+  username: 'admin',
+  email: 'admin@example.com',
+  groupId: 'group-admin',
+  isAdmin: true,
+  createdAt: new Date(),
+  lastLoginAt: null,
+}
+
+const putTemplate = (type: string, body: unknown) => PUT(new NextRequest(`http://localhost:3000/api/admin/request-templates/${type}`, {
+  method: 'PUT',
+  body: JSON.stringify(body),
+  headers: {
+    'Content-Type': 'application/json',
+    Cookie: 'session=test-session-token'
+  }
+}), { params: Promise.resolve({ type }) })
+
+const deleteTemplate = (type: string) => DELETE(new NextRequest(`http://localhost:3000/api/admin/request-templates/${type}`, {
+  method: 'DELETE',
+  headers: {
+    Cookie: 'session=test-session-token'
+  }
+}), { params: Promise.resolve({ type }) })
+
+const fields = [
+  { key: 'environment', label: '検証環境', type: 'textarea', required: true },
+  { key: 'deadline', label: '希望期限', type: 'date', required: false }
+]
+
+describe('/api/admin/request-templates/[type]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+    mockValidateSession.mockResolvedValue({ valid: true, user: admin })
+  })
+
+  it('should save the template of the request type', async () => {
+    const response = await putTemplate(RequestType.VERIFICATION, { fields })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.template.fields).toEqual(fields)
+    expect(await testDataStore.getItem('requestTemplates', RequestType.VERIFICATION)).toEqual(
+      expect.objectContaining({ updatedBy: 'admin-1' })
+    )
+  })
+
+  it('should reject non-admin users, unknown types and invalid fields', async () => {
+    expect((await putTemplate('incident', { fields })).status).toBe(404)
+
+    const invalid = await putTemplate(RequestType.VERIFICATION, { fields: [{ ...fields[0], type: 'number' }] })
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json()).error.message).toBe('Field 1: invalid field type')
+
+    mockValidateSession.mockResolvedValue({ valid: true, user: { ...admin, isAdmin: false } })
+    expect((await putTemplate(RequestType.VERIFICATION, { fields })).status).toBe(403)
+  })
+
+  it('should reset the template to the default', async () => {
+    await putTemplate(RequestType.VERIFICATION, { fields })
+
+    const response = await deleteTemplate(RequestType.VERIFICATION)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.template.fields).toEqual(DEFAULT_REQUEST_TEMPLATES[RequestType.VERIFICATION])
+  })
+})
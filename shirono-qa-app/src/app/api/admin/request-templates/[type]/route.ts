@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { isRequestType } from '@/lib/request-types'
+import { resetRequestTemplate, updateRequestTemplate } from '@/lib/request-templates'
+import { User } from '@/types/auth'
+
+/**
+ * 認証・管理者権限チェック
+ */
+async function authorize(request: NextRequest): Promise<{ user?: User; response?: NextResponse }> {
+  const sessionToken = request.cookies.get('session')?.value
+  if (!sessionToken) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+  }
+
+  const authResult = await validateSession(sessionToken)
+  if (!authResult.valid || !authResult.user) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Invalid session' } },
+        { status: 401 }
+      )
+    }
+  }
+
+  if (!authResult.user.isAdmin) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+  }
+
+  return { user: authResult.user }
+}
+
+function invalidTypeResponse(): NextResponse {
+  return NextResponse.json(
+    { error: { code: 'NOT_FOUND', message: 'Request type not found' } },
+    { status: 404 }
+  )
+}
+
+/**
+ * PUT /api/admin/request-templates/[type] - 依頼種別のテンプレートを設定（管理者のみ）
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ type: string }> }
+) {
+  try {
+    const auth = await authorize(request)
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { type } = await context.params
+    if (!isRequestType(type)) {
+      return invalidTypeResponse()
+    }
+
+    const body = await request.json()
+    const result = await updateRequestTemplate(type, body.fields, auth.user!)
+
+    if (!result.success) {
+      const isValidationError = result.error !== 'Failed to update request template'
+      return NextResponse.json(
+        {
+          error: {
+            code: isValidationError ? 'VALIDATION_ERROR' : 'INTERNAL_ERROR',
+            message: result.error || 'Failed to update request template'
+          }
+        },
+        { status: isValidationError ? 400 : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      template: result.template
+    })
+
+  } catch (error) {
+    console.error('Error in PUT /api/admin/request-templates/[type]:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/request-templates/[type] - 依頼種別のテンプレートを既定に戻す（管理者のみ）
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ type: string }> }
+) {
+  try {
+    const auth = await authorize(request)
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { type } = await context.params
+    if (!isRequestType(type)) {
+      return invalidTypeResponse()
+    }
+
+    const result = await resetRequestTemplate(type)
+    if (!result.success) {
+      return NextResponse.json(
+        { error: { code: 'INTERNAL_ERROR', message: result.error || 'Failed to reset request template' } },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      template: result.template
+    })
+
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/request-templates/[type]:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
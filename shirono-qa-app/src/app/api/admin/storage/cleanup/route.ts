@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { cleanupOrphanedUploads } from '@/lib/storage-maintenance'
+
+/**
+ * POST /api/admin/storage/cleanup - 未参照ファイルの削除（管理者のみ）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Invalid session' } },
+        { status: 401 }
+      )
+    }
+
+    // 管理者権限チェック
+    if (!authResult.user.isAdmin) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { olderThanHours, dryRun } = body as { olderThanHours?: unknown; dryRun?: unknown }
+
+    if (olderThanHours !== undefined && (typeof olderThanHours !== 'number' || olderThanHours < 1)) {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_ERROR', message: 'olderThanHours must be at least 1' } },
+        { status: 400 }
+      )
+    }
+
+    const result = await cleanupOrphanedUploads({
+      olderThanHours: olderThanHours as number | undefined,
+      dryRun: dryRun === true
+    })
+
+    return NextResponse.json({
+      success: true,
+      result
+    })
+
+  } catch (error) {
+    console.error('Error in POST /api/admin/storage/cleanup:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to clean up storage' } },
+      { status: 500 }
+    )
+  }
+}
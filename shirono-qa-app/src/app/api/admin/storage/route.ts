@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getStorageUsageByGroup } from '@/lib/storage-maintenance'
+
+/**
+ * GET /api/admin/storage - グループごとのストレージ使用量取得（管理者のみ）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Invalid session' } },
+        { status: 401 }
+      )
+    }
+
+    // 管理者権限チェック
+    if (!authResult.user.isAdmin) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+
+    const usage = await getStorageUsageByGroup()
+
+    return NextResponse.json({
+      success: true,
+      usage
+    })
+
+  } catch (error) {
+    console.error('Error in GET /api/admin/storage:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve storage usage' } },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { mergeTags } from '@/lib/tags'
+
+/**
+ * POST /api/admin/tags/[id]/merge - タグを別のタグに統合（管理者のみ）
+ * 統合元のタグが付いた質問は統合先のタグに書き換える
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Invalid session' } },
+        { status: 401 }
+      )
+    }
+
+    // 管理者権限チェック
+    if (!authResult.user.isAdmin) {
+      return NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+
+    const { id } = await context.params
+    const body = await request.json()
+    if (!body.targetId || typeof body.targetId !== 'string') {
+      return NextResponse.json(
+        { error: { code: 'VALIDATION_ERROR', message: 'targetId is required' } },
+        { status: 400 }
+      )
+    }
+
+    const result = await mergeTags(id, body.targetId, authResult.user)
+    if (!result.success) {
+      const message = result.error || 'Failed to merge tags'
+      const status = message === 'Tag not found' ? 404 : message === 'Failed to merge tags' ? 500 : 400
+      return NextResponse.json(
+        {
+          error: {
+            code: status === 404 ? 'NOT_FOUND' : status === 500 ? 'INTERNAL_ERROR' : 'VALIDATION_ERROR',
+            message
+          }
+        },
+        { status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      tag: result.tag,
+      updatedQuestions: result.updatedQuestions
+    })
+
+  } catch (error) {
+    console.error('Error in POST /api/admin/tags/[id]/merge:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { deleteTag, updateTag } from '@/lib/tags'
+import { User } from '@/types/auth'
+
+/**
+ * 認証・管理者権限チェック
+ */
+async function authorize(request: NextRequest): Promise<{ user?: User; response?: NextResponse }> {
+  const sessionToken = request.cookies.get('session')?.value
+  if (!sessionToken) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+  }
+
+  const authResult = await validateSession(sessionToken)
+  if (!authResult.valid || !authResult.user) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Invalid session' } },
+        { status: 401 }
+      )
+    }
+  }
+
+  if (!authResult.user.isAdmin) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+  }
+
+  return { user: authResult.user }
+}
+
+function errorResponse(error: string | undefined, fallback: string): NextResponse {
+  const message = error || fallback
+  if (message === 'Tag not found') {
+    return NextResponse.json({ error: { code: 'NOT_FOUND', message } }, { status: 404 })
+  }
+  const isInternal = message.startsWith('Failed to')
+  return NextResponse.json(
+    { error: { code: isInternal ? 'INTERNAL_ERROR' : 'VALIDATION_ERROR', message } },
+    { status: isInternal ? 500 : 400 }
+  )
+}
+
+/**
+ * PUT /api/admin/tags/[id] - タグの名前・同義語・説明を変更（管理者のみ）
+ * 名前を変更した場合は質問のタグも書き換える
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize(request)
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { id } = await context.params
+    const body = await request.json()
+    const { name, synonyms, description } = body
+
+    const result = await updateTag(id, { name, synonyms, description }, auth.user!)
+    if (!result.success) {
+      return errorResponse(result.error, 'Failed to update tag')
+    }
+
+    return NextResponse.json({
+      success: true,
+      tag: result.tag,
+      updatedQuestions: result.updatedQuestions
+    })
+
+  } catch (error) {
+    console.error('Error in PUT /api/admin/tags/[id]:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/tags/[id] - カタログからタグを削除（管理者のみ、質問のタグは残す）
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const auth = await authorize(request)
+    if (auth.response) {
+      return auth.response
+    }
+
+    const { id } = await context.params
+    const result = await deleteTag(id)
+    if (!result.success) {
+      return errorResponse(result.error, 'Failed to delete tag')
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/tags/[id]:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest } from 'next/server'
+import { GET, POST } from '../route'
+import { POST as MERGE } from '../[id]/merge/route'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+import { validateSession } from '@/lib/auth'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+
+const admin = {
+  id: 'admin-1',
+  username: 'admin',
+  email: 'admin@example.com',
+  groupId: 'group-admin',
+  isAdmin: true,
+  createdAt: new Date(),
+  lastLoginAt: null,
+}
+
+const headers = {
+  'Content-Type': 'application/json',
+  Cookie: 'session=test-session-token'
+}
+
+const postTag = (body: unknown) => POST(new NextRequest('http://localhost:3000/api/admin/tags', {
+  method: 'POST',
+  body: JSON.stringify(body),
+  headers
+}))
+
+const mergeTag = (id: string, body: unknown) => MERGE(new NextRequest(`http://localhost:3000/api/admin/tags/${id}/merge`, {
+  method: 'POST',
+  body: JSON.stringify(body),
+  headers
+}), { params: Promise.resolve({ id }) })
+
+describe('/api/admin/tags', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+    mockValidateSession.mockResolvedValue({ valid: true, user: admin })
+  })
+
+  it('should create a tag and return the catalog with usage counts', async () => {
+    await testDataStore.createItem('questions', { id: 'q1', groupId: 'group-1', tags: ['vnet', 'DNS'] })
+
+    const response = await postTag({ name: 'Virtual Network', synonyms: ['vnet'] })
+    const data = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(data.tag.name).toBe('Virtual Network')
+    expect(data.updatedQuestions).toBe(1)
+
+    const listResponse = await GET(new NextRequest('http://localhost:3000/api/admin/tags', { headers }))
+    const list = await listResponse.json()
+
+    expect(list.tags.map((tag: { name: string }) => tag.name)).toEqual(['Virtual Network'])
+    expect(list.usage).toEqual([
+      { name: 'DNS', count: 1 },
+      { name: 'Virtual Network', count: 1 }
+    ])
+  })
+
+  it('should reject invalid tags and non-admin users', async () => {
+    const invalid = await postTag({ name: ' ' })
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json()).error.message).toBe('Tag name is required')
+
+    mockValidateSession.mockResolvedValue({ valid: true, user: { ...admin, isAdmin: false } })
+    expect((await postTag({ name: 'VNet' })).status).toBe(403)
+  })
+
+  it('should merge tags and return 404 for unknown tags', async () => {
+    const source = await (await postTag({ name: 'App Service' })).json()
+    const target = await (await postTag({ name: 'Web Apps' })).json()
+
+    const response = await mergeTag(source.tag.id, { targetId: target.tag.id })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.tag.synonyms).toEqual(['App Service'])
+
+    expect((await mergeTag(source.tag.id, { targetId: target.tag.id })).status).toBe(404)
+    expect((await mergeTag(target.tag.id, {})).status).toBe(400)
+  })
+})
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { createTag, getTags, getTagUsage } from '@/lib/tags'
+import { User } from '@/types/auth'
+
+/**
+ * 認証・管理者権限チェック
+ */
+async function authorize(request: NextRequest): Promise<{ user?: User; response?: NextResponse }> {
+  const sessionToken = request.cookies.get('session')?.value
+  if (!sessionToken) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+  }
+
+  const authResult = await validateSession(sessionToken)
+  if (!authResult.valid || !authResult.user) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Invalid session' } },
+        { status: 401 }
+      )
+    }
+  }
+
+  if (!authResult.user.isAdmin) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+        { status: 403 }
+      )
+    }
+  }
+
+  return { user: authResult.user }
+}
+
+/**
+ * GET /api/admin/tags - タグのカタログと質問での使用件数（管理者のみ）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize(request)
+    if (auth.response) {
+      return auth.response
+    }
+
+    const [tags, usage] = await Promise.all([getTags(), getTagUsage()])
+
+    return NextResponse.json({
+      success: true,
+      tags,
+      usage
+    })
+
+  } catch (error) {
+    console.error('Error in GET /api/admin/tags:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve tags' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/tags - カタログにタグを追加（管理者のみ）
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize(request)
+    if (auth.response) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const { name, synonyms, description } = body
+
+    const result = await createTag({ name, synonyms, description }, auth.user!)
+    if (!result.success) {
+      const isValidationError = result.error !== 'Failed to create tag'
+      return NextResponse.json(
+        {
+          error: {
+            code: isValidationError ? 'VALIDATION_ERROR' : 'INTERNAL_ERROR',
+            message: result.error || 'Failed to create tag'
+          }
+        },
+        { status: isValidationError ? 400 : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      tag: result.tag,
+      updatedQuestions: result.updatedQuestions
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Error in POST /api/admin/tags:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
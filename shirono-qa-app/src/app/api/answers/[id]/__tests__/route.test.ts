@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server'
+import { PUT } from '../route'
+import { getRevisions } from '@/lib/revisions'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+import { validateSession } from '@/lib/auth'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+
+const answerer = {
+  id: 'user-123',
+  username: 'answerer',
+  email: 'answerer@example.com',
+  groupId: 'group-ts-ai',
+  isAdmin: false,
+  createdAt: new Date(),
+  lastLoginAt: null,
+}
+
+const params = { params: Promise.resolve({ id: 'answer-123' }) }
+
+const putAnswer = (content: string) => PUT(new NextRequest('http://localhost:3000/api/answers/answer-123', {
+  method: 'PUT',
+  body: JSON.stringify({ content }),
+  headers: {
+    'Content-Type': 'application/json',
+    Cookie: 'session=test-session-token'
+  }
+}), params)
+
+describe('PUT /api/answers/[id]', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('answers', {
+      id: 'answer-123',
+      questionId: 'question-123',
+      content: 'Original answer',
+      authorId: 'user-123',
+      attachments: [],
+      createdAt: new Date('2024-01-15T10:00:00Z'),
+      updatedAt: new Date('2024-01-15T10:00:00Z'),
+    })
+  })
+
+  it('should let the author edit the answer and record a revision', async () => {
+    mockValidateSession.mockResolvedValue({ valid: true, user: answerer })
+
+    const response = await putAnswer('Edited answer')
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.answer.content).toBe('Edited answer')
+    expect(data.answer.editedAt).toBeDefined()
+    expect((await getRevisions('answer', 'answer-123')).revisions).toHaveLength(2)
+  })
+
+  it('should reject other users', async () => {
+    mockValidateSession.mockResolvedValue({ valid: true, user: { ...answerer, id: 'user-456' } })
+
+    const response = await putAnswer('Edited answer')
+
+    expect(response.status).toBe(403)
+  })
+
+  it('should reject empty content', async () => {
+    mockValidateSession.mockResolvedValue({ valid: true, user: answerer })
+
+    const response = await putAnswer('   ')
+
+    expect(response.status).toBe(400)
+  })
+})
@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server'
+import { POST, DELETE } from '../route'
+import { QuestionStatus, QuestionPriority } from '@/types/question'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+import { validateSession } from '@/lib/auth'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+
+const member = {
+  id: 'member-1',
+  username: 'member',
+  email: 'member@example.com',
+  groupId: 'group-ts-ai',
+  isAdmin: false,
+  createdAt: new Date(),
+  lastLoginAt: null,
+}
+
+const createRequest = (method: string) => new NextRequest('http://localhost:3000/api/answers/answer-123/helpful', {
+  method,
+  headers: {
+    Cookie: 'session=test-session-token'
+  }
+})
+const context = { params: Promise.resolve({ id: 'answer-123' }) }
+
+describe('/api/answers/[id]/helpful', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('questions', {
+      id: 'question-123',
+      title: 'Test Question',
+      content: 'Test content',
+      authorId: 'user-123',
+      groupId: 'group-ts-ai',
+      status: QuestionStatus.ANSWERED,
+      priority: QuestionPriority.MEDIUM,
+      tags: [],
+      attachments: [],
+      createdAt: new Date('2024-01-15T10:00:00Z'),
+      updatedAt: new Date('2024-01-15T10:00:00Z'),
+    })
+    await testDataStore.createItem('answers', {
+      id: 'answer-123',
+      questionId: 'question-123',
+      content: 'Answer',
+      authorId: 'admin-1',
+      attachments: [],
+      createdAt: new Date('2024-01-15T11:00:00Z'),
+      updatedAt: new Date('2024-01-15T11:00:00Z'),
+    })
+    mockValidateSession.mockResolvedValue({ valid: true, user: member })
+  })
+
+  it('should mark the answer as helpful once and undo it', async () => {
+    await POST(createRequest('POST'), context)
+    const voteResponse = await POST(createRequest('POST'), context)
+    expect(voteResponse.status).toBe(200)
+    const voted = (await voteResponse.json()).answer
+    expect(voted.helpfulCount).toBe(1)
+    expect(voted.helpfulVoterIds).toEqual(['member-1'])
+
+    const undoResponse = await DELETE(createRequest('DELETE'), context)
+    expect(undoResponse.status).toBe(200)
+    expect((await undoResponse.json()).answer.helpfulCount).toBe(0)
+  })
+
+  it('should reject votes on your own answer', async () => {
+    mockValidateSession.mockResolvedValue({ valid: true, user: { ...member, id: 'admin-1' } })
+
+    const response = await POST(createRequest('POST'), context)
+
+    expect(response.status).toBe(400)
+    expect(testDataStore.getContainer('answers').get('answer-123')?.helpfulCount).toBeUndefined()
+  })
+
+  it('should reject users who cannot access the question', async () => {
+    mockValidateSession.mockResolvedValue({ valid: true, user: { ...member, groupId: 'group-other' } })
+
+    const response = await POST(createRequest('POST'), context)
+
+    expect(response.status).toBe(403)
+    expect(testDataStore.getContainer('answers').get('answer-123')?.helpfulCount).toBeUndefined()
+  })
+})
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { rollbackAnswer } from '@/lib/answers'
+import { getRevisions } from '@/lib/revisions'
+import { authorizeRevisionAccess } from '@/lib/revision-access'
+import { getErrorStatus } from '@/lib/errors'
+
+// 回答の編集履歴（古い順）
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+
+    const auth = await authorizeRevisionAccess(request.cookies.get('session')?.value, 'answer', params.id)
+    if (!auth.success || !auth.user) {
+      return NextResponse.json({ error: auth.error }, { status: getErrorStatus(auth.error!.code) })
+    }
+
+    const result = await getRevisions('answer', params.id)
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: result.error || 'Failed to get revisions'
+          }
+        },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      revisions: result.revisions
+    })
+
+  } catch (error) {
+    console.error('GET /api/answers/[id]/revisions error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// 指定したリビジョンの内容に戻す（管理者のみ）
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+
+    const auth = await authorizeRevisionAccess(request.cookies.get('session')?.value, 'answer', params.id)
+    if (!auth.success || !auth.user) {
+      return NextResponse.json({ error: auth.error }, { status: getErrorStatus(auth.error!.code) })
+    }
+
+    if (!auth.user.isAdmin) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only admins can roll back revisions'
+          }
+        },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { revisionId } = body
+
+    if (!revisionId || typeof revisionId !== 'string') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'revisionId is required'
+          }
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await rollbackAnswer(params.id, revisionId, auth.user)
+    if (!result.success) {
+      const notFound = result.error === 'Revision not found'
+      return NextResponse.json(
+        {
+          error: {
+            code: notFound ? 'NOT_FOUND' : 'INTERNAL_ERROR',
+            message: result.error || 'Failed to roll back answer'
+          }
+        },
+        { status: notFound ? 404 : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      answer: result.answer
+    })
+
+  } catch (error) {
+    console.error('POST /api/answers/[id]/revisions error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
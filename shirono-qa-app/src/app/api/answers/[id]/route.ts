@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getAnswerById, updateAnswer, validateAnswerData } from '@/lib/answers'
+import { getQuestion } from '@/lib/questions'
+import { notifyMentionedUsers } from '@/lib/mentions'
+
+// 回答の本文を編集（回答作成者または管理者のみ、編集前の内容はリビジョンとして残る）
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    // 既存回答取得
+    const answerResult = await getAnswerById(params.id)
+    if (!answerResult.success || !answerResult.answer) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Answer not found'
+          }
+        },
+        { status: 404 }
+      )
+    }
+
+    // 権限チェック：回答作成者または管理者のみ
+    if (!authResult.user.isAdmin && answerResult.answer.authorId !== authResult.user.id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only the answer author or admin can edit this answer'
+          }
+        },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { content } = body
+
+    const validation = validateAnswerData({ content: typeof content === 'string' ? content.trim() : '' })
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: validation.errors.join(', ')
+          }
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateAnswer(params.id, { content }, authResult.user)
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: result.error || 'Failed to update answer'
+          }
+        },
+        { status: 500 }
+      )
+    }
+
+    // 編集で新たにメンションしたユーザーに通知
+    const questionResult = await getQuestion(answerResult.answer.questionId)
+    if (questionResult.success && questionResult.question && result.answer) {
+      await notifyMentionedUsers(
+        questionResult.question,
+        { answer: result.answer },
+        authResult.user,
+        answerResult.answer.mentions
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      answer: result.answer
+    })
+
+  } catch (error) {
+    console.error('PUT /api/answers/[id] error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest } from 'next/server'
+import { DELETE } from '../route'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+import { validateSession } from '@/lib/auth'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+
+const createUser = (id: string, isAdmin = false) => ({
+  id,
+  username: id,
+  email: `${id}@example.com`,
+  groupId: 'group-ts-ai',
+  isAdmin,
+  createdAt: new Date(),
+  lastLoginAt: null,
+})
+
+const createComment = (id: string, parentCommentId?: string) => testDataStore.createItem('comments', {
+  id,
+  questionId: 'question-123',
+  ...(parentCommentId && { parentCommentId }),
+  content: `Comment ${id}`,
+  contentHtml: `<p>Comment ${id}</p>`,
+  authorId: 'user-123',
+  attachments: [],
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+})
+
+const deleteComment = (id: string) => DELETE(new NextRequest(`http://localhost:3000/api/comments/${id}`, {
+  method: 'DELETE',
+  headers: {
+    Cookie: 'session=test-session-token'
+  }
+}), { params: Promise.resolve({ id }) })
+
+describe('DELETE /api/comments/[id]', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await createComment('comment-1')
+  })
+
+  it('should let the author delete a comment without replies', async () => {
+    mockValidateSession.mockResolvedValue({ valid: true, user: createUser('user-123') })
+
+    const response = await deleteComment('comment-1')
+
+    expect(response.status).toBe(200)
+    expect(await testDataStore.getItem('comments', 'comment-1')).toBeFalsy()
+  })
+
+  it('should leave a deleted placeholder when the comment has replies', async () => {
+    await createComment('comment-2', 'comment-1')
+    mockValidateSession.mockResolvedValue({ valid: true, user: createUser('admin-1', true) })
+
+    const response = await deleteComment('comment-1')
+
+    expect(response.status).toBe(200)
+    const placeholder = await testDataStore.getItem<{ content: string; deletedAt?: Date }>('comments', 'comment-1')
+    expect(placeholder?.content).toBe('')
+    expect(placeholder?.deletedAt).toBeDefined()
+    expect(await testDataStore.getItem('comments', 'comment-2')).toBeTruthy()
+  })
+
+  it('should reject other users', async () => {
+    mockValidateSession.mockResolvedValue({ valid: true, user: createUser('user-456') })
+
+    const response = await deleteComment('comment-1')
+    const data = await response.json()
+
+    expect(response.status).toBe(403)
+    expect(data.error.code).toBe('FORBIDDEN')
+    expect(await testDataStore.getItem('comments', 'comment-1')).toBeTruthy()
+  })
+
+  it('should return 404 for an already deleted placeholder', async () => {
+    await createComment('comment-2', 'comment-1')
+    mockValidateSession.mockResolvedValue({ valid: true, user: createUser('user-123') })
+    await deleteComment('comment-1')
+
+    const response = await deleteComment('comment-1')
+
+    expect(response.status).toBe(404)
+  })
+})
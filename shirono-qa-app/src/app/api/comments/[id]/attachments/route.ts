@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { validateSession } from '@/lib/auth'
 import { getCommentById, updateComment } from '@/lib/answers'
+import { scanStoredAttachment } from '@/lib/attachment-scan'
+import { createAttachmentId } from '@/lib/attachment-id'
+import { Attachment } from '@/types/question'
 
 interface AttachFileRequest {
   files: Array<{
@@ -91,13 +94,18 @@ export async function POST(
       )
     }
 
-    // 添付ファイル情報の準備
-    const attachments = files.map(file => ({
-      fileName: file.fileName,
-      fileSize: file.size,
-      blobUrl: file.blobUrl,
-      contentType: file.contentType || 'application/octet-stream'
-    }))
+    // 添付ファイル情報の準備（マルウェアスキャンの結果を記録）
+    const attachments: Attachment[] = []
+    for (const file of files) {
+      attachments.push({
+        id: createAttachmentId(),
+        fileName: file.fileName,
+        fileSize: file.size,
+        blobUrl: file.blobUrl,
+        contentType: file.contentType || 'application/octet-stream',
+        ...(await scanStoredAttachment(file.blobUrl))
+      })
+    }
     
 
     // 既存の添付ファイルと合わせる
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getCommentById, setCommentHelpful } from '@/lib/answers'
+import { getQuestion } from '@/lib/questions'
+import { canAccessQuestion } from '@/lib/access-control'
+import { User } from '@/types/auth'
+import { Comment } from '@/types/answer'
+
+/**
+ * 認証とコメントの質問の閲覧権限を確認
+ */
+async function authorize(
+  request: NextRequest,
+  commentId: string
+): Promise<{ user?: User; comment?: Comment; response?: NextResponse }> {
+  const sessionToken = request.cookies.get('session')?.value
+  if (!sessionToken) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+  }
+
+  const authResult = await validateSession(sessionToken)
+  if (!authResult.valid || !authResult.user) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+  }
+
+  const commentResult = await getCommentById(commentId)
+  if (!commentResult.success || !commentResult.comment || commentResult.comment.deletedAt) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Comment not found'
+          }
+        },
+        { status: 404 }
+      )
+    }
+  }
+
+  const questionResult = await getQuestion(commentResult.comment.questionId)
+  if (!questionResult.success || !questionResult.question || !canAccessQuestion(authResult.user, questionResult.question)) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Access denied'
+          }
+        },
+        { status: 403 }
+      )
+    }
+  }
+
+  return { user: authResult.user, comment: commentResult.comment }
+}
+
+async function updateHelpful(request: NextRequest, commentId: string, helpful: boolean) {
+  const auth = await authorize(request, commentId)
+  if (auth.response || !auth.user || !auth.comment) {
+    return auth.response!
+  }
+
+  // 自分の投稿には付けられない
+  if (auth.comment.authorId === auth.user.id) {
+    return NextResponse.json(
+      {
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'You cannot mark your own comment as helpful'
+        }
+      },
+      { status: 400 }
+    )
+  }
+
+  const result = await setCommentHelpful(commentId, auth.user.id, helpful)
+  if (!result.success || !result.comment) {
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: result.error || 'Failed to update helpful vote'
+        }
+      },
+      { status: 500 }
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    comment: result.comment
+  })
+}
+
+// コメントに「役に立った」を付ける
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    return await updateHelpful(request, params.id, true)
+  } catch (error) {
+    console.error('POST /api/comments/[id]/helpful error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// コメントの「役に立った」を取り消す
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    return await updateHelpful(request, params.id, false)
+  } catch (error) {
+    console.error('DELETE /api/comments/[id]/helpful error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest } from 'next/server'
+import { GET, POST } from '../route'
+import { QuestionStatus, QuestionPriority } from '@/types/question'
+import { createComment, deleteComment, updateComment } from '@/lib/answers'
+import { getRevisions } from '@/lib/revisions'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+jest.mock('@/lib/openai', () => ({
+  embedText: jest.fn(),
+}))
+
+import { validateSession } from '@/lib/auth'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+
+const admin = {
+  id: 'admin-1',
+  username: 'admin',
+  email: 'admin@example.com',
+  groupId: 'group-admin',
+  isAdmin: true,
+  createdAt: new Date(),
+  lastLoginAt: null,
+}
+
+const author = { ...admin, id: 'user-123', username: 'author', email: 'author@example.com', groupId: 'group-ts-ai', isAdmin: false }
+
+let commentId: string
+
+const params = () => ({ params: Promise.resolve({ id: commentId }) })
+
+const getHistory = () => GET(new NextRequest(`http://localhost:3000/api/comments/${commentId}/revisions`, {
+  headers: {
+    Cookie: 'session=test-session-token'
+  }
+}), params())
+
+const postRollback = (revisionId: string) => POST(new NextRequest(`http://localhost:3000/api/comments/${commentId}/revisions`, {
+  method: 'POST',
+  body: JSON.stringify({ revisionId }),
+  headers: {
+    'Content-Type': 'application/json',
+    Cookie: 'session=test-session-token'
+  }
+}), params())
+
+describe('/api/comments/[id]/revisions', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('questions', {
+      id: 'question-123',
+      title: 'Test Question',
+      content: 'Question content',
+      authorId: 'user-123',
+      groupId: 'group-ts-ai',
+      status: QuestionStatus.UNANSWERED,
+      priority: QuestionPriority.MEDIUM,
+      tags: [],
+      attachments: [],
+      createdAt: new Date('2024-01-15T10:00:00Z'),
+      updatedAt: new Date('2024-01-15T10:00:00Z'),
+    })
+
+    const created = await createComment({ content: 'Original comment' }, 'question-123', 'user-123')
+    commentId = created.comment!.id
+    await updateComment(commentId, { content: 'Edited comment' }, author)
+  })
+
+  describe('GET', () => {
+    it('should return revisions to group members', async () => {
+      mockValidateSession.mockResolvedValue({ valid: true, user: author })
+
+      const response = await getHistory()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.revisions.map((revision: { content: string }) => revision.content))
+        .toEqual(['Original comment', 'Edited comment'])
+    })
+
+    it('should return 404 for a comment kept as a deleted placeholder', async () => {
+      mockValidateSession.mockResolvedValue({ valid: true, user: author })
+      await createComment({ content: 'Reply', parentCommentId: commentId }, 'question-123', 'user-123')
+      await deleteComment(commentId)
+
+      const response = await getHistory()
+      const data = await response.json()
+
+      expect(response.status).toBe(404)
+      expect(data.error.code).toBe('NOT_FOUND')
+      expect((await getRevisions('comment', commentId)).revisions).toHaveLength(0)
+    })
+
+    it('should return 404 for a deleted comment', async () => {
+      mockValidateSession.mockResolvedValue({ valid: true, user: author })
+      await deleteComment(commentId)
+
+      const response = await getHistory()
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('POST', () => {
+    it('should not roll back a deleted comment', async () => {
+      mockValidateSession.mockResolvedValue({ valid: true, user: admin })
+      const original = (await getRevisions('comment', commentId)).revisions![0]
+      await createComment({ content: 'Reply', parentCommentId: commentId }, 'question-123', 'user-123')
+      await deleteComment(commentId)
+
+      const response = await postRollback(original.id)
+
+      expect(response.status).toBe(404)
+    })
+  })
+})
@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { deleteComment, getCommentById, updateComment, validateCommentData } from '@/lib/answers'
+import { getQuestion } from '@/lib/questions'
+import { notifyMentionedUsers } from '@/lib/mentions'
+
+// コメントの本文を編集（コメント作成者または管理者のみ、編集前の内容はリビジョンとして残る）
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    // 既存コメント取得
+    const commentResult = await getCommentById(params.id)
+    if (!commentResult.success || !commentResult.comment || commentResult.comment.deletedAt) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Comment not found'
+          }
+        },
+        { status: 404 }
+      )
+    }
+
+    // 権限チェック：コメント作成者または管理者のみ
+    if (!authResult.user.isAdmin && commentResult.comment.authorId !== authResult.user.id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only the comment author or admin can edit this comment'
+          }
+        },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { content } = body
+
+    const validation = validateCommentData({ content: typeof content === 'string' ? content.trim() : '' })
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: validation.errors.join(', ')
+          }
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateComment(params.id, { content }, authResult.user)
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: result.error || 'Failed to update comment'
+          }
+        },
+        { status: 500 }
+      )
+    }
+
+    // 編集で新たにメンションしたユーザーに通知
+    const questionResult = await getQuestion(commentResult.comment.questionId)
+    if (questionResult.success && questionResult.question && result.comment) {
+      await notifyMentionedUsers(
+        questionResult.question,
+        { comment: result.comment },
+        authResult.user,
+        commentResult.comment.mentions
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      comment: result.comment
+    })
+
+  } catch (error) {
+    console.error('PUT /api/comments/[id] error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// コメントを削除（コメント作成者または管理者のみ、返信がある場合は削除済みとして残る）
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const commentResult = await getCommentById(params.id)
+    if (!commentResult.success || !commentResult.comment || commentResult.comment.deletedAt) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Comment not found'
+          }
+        },
+        { status: 404 }
+      )
+    }
+
+    // 権限チェック：コメント作成者または管理者のみ
+    if (!authResult.user.isAdmin && commentResult.comment.authorId !== authResult.user.id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only the comment author or admin can delete this comment'
+          }
+        },
+        { status: 403 }
+      )
+    }
+
+    const result = await deleteComment(params.id)
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: result.error || 'Failed to delete comment'
+          }
+        },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('DELETE /api/comments/[id] error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
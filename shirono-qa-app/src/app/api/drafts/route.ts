@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { deleteDraft, getDraft, saveDraft } from '@/lib/drafts'
+import { User } from '@/types/auth'
+import { DraftKind } from '@/types/draft'
+
+/**
+ * 認証（下書きは本人のもののみ扱う）
+ */
+async function authenticate(request: NextRequest): Promise<{ user?: User; response?: NextResponse }> {
+  const sessionToken = request.cookies.get('session')?.value
+  if (!sessionToken) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+  }
+
+  const authResult = await validateSession(sessionToken)
+  if (!authResult.valid || !authResult.user) {
+    return {
+      response: NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Invalid session' } },
+        { status: 401 }
+      )
+    }
+  }
+
+  return { user: authResult.user }
+}
+
+/**
+ * 下書きの対象を確認（回答を投稿できるのは管理者のみのため、回答の下書きも管理者のみ）
+ */
+function validateTarget(user: User, kind: unknown, questionId: unknown): NextResponse | null {
+  if (kind !== 'question' && kind !== 'answer') {
+    return NextResponse.json(
+      { error: { code: 'VALIDATION_ERROR', message: 'kind must be question or answer' } },
+      { status: 400 }
+    )
+  }
+
+  if (kind === 'answer' && (!questionId || typeof questionId !== 'string')) {
+    return NextResponse.json(
+      { error: { code: 'VALIDATION_ERROR', message: 'questionId is required for answer drafts' } },
+      { status: 400 }
+    )
+  }
+
+  if (kind === 'answer' && !user.isAdmin) {
+    return NextResponse.json(
+      { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+      { status: 403 }
+    )
+  }
+
+  return null
+}
+
+function getTargetParams(request: NextRequest): { kind: DraftKind; questionId?: string } {
+  const kind = request.nextUrl.searchParams.get('kind') as DraftKind
+  const questionId = request.nextUrl.searchParams.get('questionId') || undefined
+  return { kind, questionId: kind === 'answer' ? questionId : undefined }
+}
+
+/**
+ * GET /api/drafts?kind=question|answer&questionId=... - 保存済みの下書き（ない場合は null）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request)
+    if (auth.response) {
+      return auth.response
+    }
+    const user = auth.user!
+
+    const { kind, questionId } = getTargetParams(request)
+    const invalid = validateTarget(user, kind, questionId)
+    if (invalid) {
+      return invalid
+    }
+
+    const result = await getDraft(user, kind, questionId)
+    if (!result.success) {
+      return NextResponse.json(
+        { error: { code: 'INTERNAL_ERROR', message: result.error || 'Failed to get draft' } },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      draft: result.draft
+    })
+
+  } catch (error) {
+    console.error('GET /api/drafts error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/drafts - 下書きを保存（自動保存）
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authenticate(request)
+    if (auth.response) {
+      return auth.response
+    }
+    const user = auth.user!
+
+    const body = await request.json()
+    const { kind, questionId, title, content, priority, requestType, requestFields, fileUrls } = body
+
+    const invalid = validateTarget(user, kind, questionId)
+    if (invalid) {
+      return invalid
+    }
+
+    const result = await saveDraft(user, {
+      kind,
+      ...(kind === 'answer' ? { questionId } : { title, priority, requestType, requestFields, fileUrls }),
+      content
+    })
+
+    if (!result.success) {
+      const isValidationError = result.error !== 'Failed to save draft'
+      return NextResponse.json(
+        {
+          error: {
+            code: isValidationError ? 'VALIDATION_ERROR' : 'INTERNAL_ERROR',
+            message: result.error || 'Failed to save draft'
+          }
+        },
+        { status: isValidationError ? 400 : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      draft: result.draft
+    })
+
+  } catch (error) {
+    console.error('PUT /api/drafts error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/drafts?kind=question|answer&questionId=... - 下書きを削除（投稿後・破棄時）
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authenticate(request)
+    if (auth.response) {
+      return auth.response
+    }
+    const user = auth.user!
+
+    const { kind, questionId } = getTargetParams(request)
+    const invalid = validateTarget(user, kind, questionId)
+    if (invalid) {
+      return invalid
+    }
+
+    const result = await deleteDraft(user, kind, questionId)
+    if (!result.success) {
+      return NextResponse.json(
+        { error: { code: 'INTERNAL_ERROR', message: result.error || 'Failed to delete draft' } },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('DELETE /api/drafts error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } },
+      { status: 500 }
+    )
+  }
+}
@@ -3,19 +3,145 @@
  */
 
 import { NextRequest } from 'next/server'
-import { POST } from '../route'
+import { POST, GET } from '../route'
 import { validateSession } from '@/lib/auth'
+import { encodeAttachmentId } from '@/lib/attachment-id'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+import { AttachmentScanStatus, Question } from '@/types/question'
 
 // validateSessionをモック化
 jest.mock('@/lib/auth', () => ({
   validateSession: jest.fn()
 }))
 
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/openai', () => ({
+  embedText: jest.fn()
+}))
+
+// Blob Storageはパス解析のみ実装し、存在するファイルを固定する
+jest.mock('@/lib/blob-storage', () => {
+  const existingFiles = [
+    'questions/question-1/question/test.txt',
+    'questions/question-1/question/special.txt',
+    'questions/question-1/answers/answer-1/answer.txt',
+    'questions/question-1/question/scanning.txt',
+    'questions/question-1/question/infected.txt',
+    'questions/question-1/question/legacy.txt',
+    'questions/question-2/question/secret.txt'
+  ]
+  const service = {
+    extractFileNameFromUrl: (blobUrl: string) => blobUrl.replace('mock://blob/', ''),
+    parseBlobPath: (blobPath: string) => {
+      const segments = blobPath.split('/')
+      if (segments.some(segment => segment === '' || segment === '..') || segments[0] !== 'questions') return null
+      if (segments[2] === 'question' && segments.length === 4) {
+        return { type: 'question', questionId: segments[1], fileName: segments[3] }
+      }
+      if (segments[2] === 'answers' && segments.length === 5) {
+        return { type: 'answer', questionId: segments[1], itemId: segments[3], fileName: segments[4] }
+      }
+      return null
+    },
+    getFileInfo: jest.fn(async (blobPath: string) => (
+      existingFiles.includes(blobPath)
+        ? { exists: true, size: 10, etag: '"0x8D1"', lastModified: new Date('2024-01-15T10:00:00Z') }
+        : { exists: false }
+    )),
+    downloadFileStream: jest.fn(async (_blobPath: string, options: { offset?: number; count?: number } = {}) => {
+      const offset = options.offset || 0
+      const content = Buffer.from('0123456789').subarray(offset, options.count ? offset + options.count : undefined)
+      return new ReadableStream({
+        start(controller) {
+          controller.enqueue(new Uint8Array(content))
+          controller.close()
+        }
+      })
+    })
+  }
+  return { getBlobStorageService: () => service }
+})
+
 const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
 
+// 共有リンク用の添付ファイルID
+const TEST_FILE_ID = '6f1c2a4e-8b3d-4f5a-9c7e-1d2b3a4c5e6f'
+const SECRET_FILE_ID = '0a9b8c7d-6e5f-4a3b-8c1d-0e9f8a7b6c5d'
+
+const attachment = (fileName: string, blobPath: string) => ({
+  fileName,
+  fileSize: 4,
+  blobUrl: `mock://blob/${blobPath}`,
+  contentType: 'text/plain',
+  scanStatus: AttachmentScanStatus.CLEAN
+})
+
+// ストリームのレスポンスボディを文字列として読み出す
+async function readText(body: ReadableStream<Uint8Array> | null): Promise<string> {
+  if (!body) return ''
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let text = ''
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    text += decoder.decode(value, { stream: true })
+  }
+  return text + decoder.decode()
+}
+
+const baseQuestion = {
+  title: 'Question',
+  content: 'Content',
+  authorId: 'user-2',
+  status: 'unanswered',
+  priority: 'medium',
+  tags: [],
+  createdAt: new Date(),
+  updatedAt: new Date()
+}
+
 describe('/api/files/download', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('questions', {
+      ...baseQuestion,
+      id: 'question-1',
+      groupId: 'group-1',
+      attachments: [
+        { ...attachment('test.txt', 'questions/question-1/question/test.txt'), id: TEST_FILE_ID },
+        attachment('special.txt', 'questions/question-1/question/special.txt'),
+        attachment('nonexistent.txt', 'questions/question-1/question/nonexistent.txt'),
+        { ...attachment('scanning.txt', 'questions/question-1/question/scanning.txt'), scanStatus: AttachmentScanStatus.PENDING },
+        {
+          ...attachment('infected.txt', 'questions/question-1/question/infected.txt'),
+          scanStatus: AttachmentScanStatus.QUARANTINED,
+          scanDetail: 'Eicar-Signature'
+        },
+        // スキャン導入前に添付されたファイル
+        { ...attachment('legacy.txt', 'questions/question-1/question/legacy.txt'), scanStatus: undefined }
+      ]
+    })
+    await testDataStore.createItem('questions', {
+      ...baseQuestion,
+      id: 'question-2',
+      groupId: 'group-2',
+      attachments: [{ ...attachment('secret.txt', 'questions/question-2/question/secret.txt'), id: SECRET_FILE_ID }]
+    })
+    await testDataStore.createItem('answers', {
+      id: 'answer-1',
+      questionId: 'question-1',
+      content: 'Answer',
+      authorId: 'user-2',
+      attachments: [attachment('answer.txt', 'questions/question-1/answers/answer-1/answer.txt')],
+      createdAt: new Date()
+    })
   })
 
   describe('認証テスト', () => {
@@ -23,7 +149,7 @@ describe('/api/files/download', () => {
       const request = new NextRequest('http://localhost:3000/api/files/download', {
         method: 'POST',
         body: JSON.stringify({
-          blobUrl: 'mock://blob/test.txt',
+          blobUrl: 'mock://blob/questions/question-1/question/test.txt',
           fileName: 'test.txt'
         }),
         headers: {
@@ -44,7 +170,7 @@ describe('/api/files/download', () => {
       const request = new NextRequest('http://localhost:3000/api/files/download', {
         method: 'POST',
         body: JSON.stringify({
-          blobUrl: 'mock://blob/test.txt',
+          blobUrl: 'mock://blob/questions/question-1/question/test.txt',
           fileName: 'test.txt'
         }),
         headers: {
@@ -101,7 +227,7 @@ describe('/api/files/download', () => {
       const request = new NextRequest('http://localhost:3000/api/files/download', {
         method: 'POST',
         body: JSON.stringify({
-          blobUrl: 'mock://blob/test.txt',
+          blobUrl: 'mock://blob/questions/question-1/question/test.txt',
           fileName: 'test.txt'
         }),
         headers: {
@@ -121,7 +247,7 @@ describe('/api/files/download', () => {
       const request = new NextRequest('http://localhost:3000/api/files/download', {
         method: 'POST',
         body: JSON.stringify({
-          blobUrl: 'mock://blob/nonexistent.txt',
+          blobUrl: 'mock://blob/questions/question-1/question/nonexistent.txt',
           fileName: 'nonexistent.txt'
         }),
         headers: {
@@ -142,7 +268,7 @@ describe('/api/files/download', () => {
       const request = new NextRequest('http://localhost:3000/api/files/download', {
         method: 'POST',
         body: JSON.stringify({
-          blobUrl: 'mock://blob/special.txt',
+          blobUrl: 'mock://blob/questions/question-1/question/special.txt',
           fileName
         }),
         headers: {
@@ -158,6 +284,253 @@ describe('/api/files/download', () => {
     })
   })
 
+  describe('アクセス制御テスト', () => {
+    beforeEach(() => {
+      mockValidateSession.mockResolvedValue({
+        valid: true,
+        user: {
+          id: 'user-1',
+          username: 'testuser',
+          email: 'test@example.com',
+          isAdmin: false,
+          groupId: 'group-1',
+          createdAt: new Date(),
+          lastLoginAt: null
+        }
+      })
+    })
+
+    const postDownload = (blobUrl: string, fileName = 'file.txt') => POST(new NextRequest('http://localhost:3000/api/files/download', {
+      method: 'POST',
+      body: JSON.stringify({ blobUrl, fileName }),
+      headers: {
+        'Content-Type': 'application/json',
+        Cookie: 'session=valid-token'
+      }
+    }))
+
+    it('他グループの質問の添付ファイルは403を返す', async () => {
+      const response = await postDownload('mock://blob/questions/question-2/question/secret.txt')
+
+      expect(response.status).toBe(403)
+    })
+
+    it('questions/{id}/ 以外のパスは400を返す', async () => {
+      const response = await postDownload('mock://blob/temp/other.txt')
+
+      expect(response.status).toBe(400)
+    })
+
+    it('相対パスを含むパスは400を返す', async () => {
+      const response = await postDownload('mock://blob/questions/question-1/question/../../question-2/question/secret.txt')
+
+      expect(response.status).toBe(400)
+    })
+
+    it('質問に登録されていないファイルは404を返す', async () => {
+      const response = await postDownload('mock://blob/questions/question-1/question/unregistered.txt')
+
+      expect(response.status).toBe(404)
+    })
+
+    it('回答の添付ファイルは親質問の権限でダウンロードできる', async () => {
+      const response = await postDownload('mock://blob/questions/question-1/answers/answer-1/answer.txt', 'answer.txt')
+
+      expect(response.status).toBe(200)
+    })
+
+    it('パス上の質問IDと回答の親質問が一致しない場合は404を返す', async () => {
+      const response = await postDownload('mock://blob/questions/question-2/answers/answer-1/answer.txt')
+
+      expect(response.status).toBe(404)
+    })
+
+    it('スキャン中のファイルは409を返す', async () => {
+      const response = await postDownload('mock://blob/questions/question-1/question/scanning.txt')
+
+      expect(response.status).toBe(409)
+    })
+
+    it('スキャン導入前のファイルは409を返し、スキャン待ちにする', async () => {
+      const response = await postDownload('mock://blob/questions/question-1/question/legacy.txt')
+
+      expect(response.status).toBe(409)
+      const question = await testDataStore.getItem<Question>('questions', 'question-1')
+      const legacy = question!.attachments.find(item => item.fileName === 'legacy.txt')
+      expect(legacy!.scanStatus).toBe(AttachmentScanStatus.PENDING)
+    })
+
+    it('隔離されたファイルは403を返す', async () => {
+      const response = await postDownload('mock://blob/questions/question-1/question/infected.txt')
+
+      expect(response.status).toBe(403)
+    })
+
+    it('管理者は他グループの添付ファイルもダウンロードできる', async () => {
+      mockValidateSession.mockResolvedValue({
+        valid: true,
+        user: {
+          id: 'admin-1',
+          username: 'admin',
+          email: 'admin@example.com',
+          isAdmin: true,
+          groupId: 'group-admin',
+          createdAt: new Date(),
+          lastLoginAt: null
+        }
+      })
+
+      const response = await postDownload('mock://blob/questions/question-2/question/secret.txt', 'secret.txt')
+
+      expect(response.status).toBe(200)
+    })
+  })
+
+  describe('共有リンク（GET）テスト', () => {
+    beforeEach(() => {
+      mockValidateSession.mockResolvedValue({
+        valid: true,
+        user: {
+          id: 'user-1',
+          username: 'testuser',
+          email: 'test@example.com',
+          isAdmin: false,
+          groupId: 'group-1',
+          createdAt: new Date(),
+          lastLoginAt: null
+        }
+      })
+    })
+
+    const getDownload = (id: string, withSession = true) => GET(new NextRequest(
+      `http://localhost:3000/api/files/download?id=${id}`,
+      { headers: withSession ? { Cookie: 'session=valid-token' } : {} }
+    ))
+
+    it('添付ファイルIDでダウンロードでき、登録時のファイル名が使われる', async () => {
+      const response = await getDownload(TEST_FILE_ID)
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="test.txt"')
+      expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff')
+    })
+
+    it('Blob URL から作ったIDではダウンロードできない', async () => {
+      const response = await getDownload(encodeAttachmentId('mock://blob/questions/question-1/question/test.txt'))
+
+      expect(response.status).toBe(400)
+    })
+
+    it('登録されていない添付ファイルIDは404を返す', async () => {
+      const response = await getDownload('9e8d7c6b-5a4f-4e3d-8c2b-1a0f9e8d7c6b')
+
+      expect(response.status).toBe(404)
+    })
+
+    it('セッションがない場合は401を返す', async () => {
+      const response = await getDownload(TEST_FILE_ID, false)
+
+      expect(response.status).toBe(401)
+    })
+
+    it('不正なIDの場合は400を返す', async () => {
+      const response = await getDownload('not*valid')
+
+      expect(response.status).toBe(400)
+    })
+
+    it('他グループの添付ファイルIDは403を返す', async () => {
+      const response = await getDownload(SECRET_FILE_ID)
+
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('Range・条件付きGETテスト', () => {
+    const id = TEST_FILE_ID
+
+    beforeEach(() => {
+      mockValidateSession.mockResolvedValue({
+        valid: true,
+        user: {
+          id: 'user-1',
+          username: 'testuser',
+          email: 'test@example.com',
+          isAdmin: false,
+          groupId: 'group-1',
+          createdAt: new Date(),
+          lastLoginAt: null
+        }
+      })
+    })
+
+    const getWithHeaders = (headers: Record<string, string>) => GET(new NextRequest(
+      `http://localhost:3000/api/files/download?id=${id}`,
+      { headers: { Cookie: 'session=valid-token', ...headers } }
+    ))
+
+    it('通常のGETはETag・Last-Modified・Accept-Rangesを返す', async () => {
+      const response = await getWithHeaders({})
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('ETag')).toBe('"0x8D1"')
+      expect(response.headers.get('Last-Modified')).toBe('Mon, 15 Jan 2024 10:00:00 GMT')
+      expect(response.headers.get('Accept-Ranges')).toBe('bytes')
+      expect(response.headers.get('Content-Length')).toBe('10')
+      expect(await readText(response.body)).toBe('0123456789')
+    })
+
+    it('Range指定で206と部分コンテンツを返す', async () => {
+      const response = await getWithHeaders({ range: 'bytes=2-5' })
+
+      expect(response.status).toBe(206)
+      expect(response.headers.get('Content-Range')).toBe('bytes 2-5/10')
+      expect(response.headers.get('Content-Length')).toBe('4')
+      expect(await readText(response.body)).toBe('2345')
+    })
+
+    it('末尾からのRange指定に対応する', async () => {
+      const response = await getWithHeaders({ range: 'bytes=-3' })
+
+      expect(response.status).toBe(206)
+      expect(response.headers.get('Content-Range')).toBe('bytes 7-9/10')
+      expect(await readText(response.body)).toBe('789')
+    })
+
+    it('範囲外のRange指定は416を返す', async () => {
+      const response = await getWithHeaders({ range: 'bytes=20-30' })
+
+      expect(response.status).toBe(416)
+      expect(response.headers.get('Content-Range')).toBe('bytes */10')
+    })
+
+    it('If-Rangeが一致しない場合は全体を返す', async () => {
+      const response = await getWithHeaders({ range: 'bytes=2-5', 'if-range': '"0x8D0"' })
+
+      expect(response.status).toBe(200)
+      expect(response.headers.has('Content-Range')).toBe(false)
+    })
+
+    it('If-None-MatchがETagと一致する場合は304を返す', async () => {
+      const response = await getWithHeaders({ 'if-none-match': '"0x8D1"' })
+
+      expect(response.status).toBe(304)
+      expect(response.headers.get('ETag')).toBe('"0x8D1"')
+    })
+
+    it('If-Modified-Since以降に更新がない場合は304を返す', async () => {
+      const response = await getWithHeaders({ 'if-modified-since': 'Mon, 15 Jan 2024 10:00:00 GMT' })
+
+      expect(response.status).toBe(304)
+    })
+
+    it('If-Modified-Since以降に更新がある場合は200を返す', async () => {
+      const response = await getWithHeaders({ 'if-modified-since': 'Sun, 14 Jan 2024 10:00:00 GMT' })
+
+      expect(response.status).toBe(200)
+    })
+  })
+
   describe('エラーハンドリング', () => {
     it('予期しないエラーの場合は500を返す', async () => {
       // validateSessionでエラーを発生させる
@@ -166,7 +539,7 @@ describe('/api/files/download', () => {
       const request = new NextRequest('http://localhost:3000/api/files/download', {
         method: 'POST',
         body: JSON.stringify({
-          blobUrl: 'mock://blob/test.txt',
+          blobUrl: 'mock://blob/questions/question-1/question/test.txt',
           fileName: 'test.txt'
         }),
         headers: {
@@ -1,31 +1,149 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { validateSession } from '@/lib/auth'
 import { getBlobStorageService } from '@/lib/blob-storage'
+import { authorizeAttachmentDownload, findAttachmentBlobUrl } from '@/lib/attachments'
+import { isAttachmentId } from '@/lib/attachment-id'
+import { parseRangeHeader, isNotModified, isRangeApplicable } from '@/lib/http-range'
+import { AppError, ErrorCodes, getErrorStatus } from '@/lib/errors'
+import { User } from '@/types/auth'
 
 interface DownloadRequest {
   blobUrl: string
   fileName: string
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    // セッション認証
-    const sessionToken = request.cookies.get('session')?.value
-    
-    if (!sessionToken) {
-      return NextResponse.json(
+/**
+ * セッションからユーザーを取得（失敗時はエラーレスポンスを返す）
+ */
+async function authenticate(request: NextRequest): Promise<{ user?: User; response?: NextResponse }> {
+  const sessionToken = request.cookies.get('session')?.value
+
+  if (!sessionToken) {
+    return {
+      response: NextResponse.json(
         { error: 'Not authenticated' },
         { status: 401 }
       )
     }
+  }
 
-    const validation = await validateSession(sessionToken)
-    if (!validation.valid || !validation.user) {
-      return NextResponse.json(
+  const validation = await validateSession(sessionToken)
+  if (!validation.valid || !validation.user) {
+    return {
+      response: NextResponse.json(
         { error: 'Invalid session' },
         { status: 401 }
       )
     }
+  }
+
+  return { user: validation.user }
+}
+
+/**
+ * アクセス権を確認した上で添付ファイルをストリーミングで返す
+ * Range（206）と条件付きリクエスト（304）に対応
+ */
+async function downloadAttachment(request: NextRequest, user: User, blobUrl: string, fileName?: string): Promise<Response> {
+  const access = await authorizeAttachmentDownload(user, blobUrl)
+  if (!access.success || !access.owner) {
+    const error = access.error as AppError
+    return NextResponse.json(
+      { error: error.code === ErrorCodes.NOT_FOUND ? 'File not found' : error.message },
+      { status: getErrorStatus(error.code) }
+    )
+  }
+
+  const { blobPath, attachment } = access.owner
+
+  // Azure Blob Storageからファイルを取得
+  try {
+    const blobService = getBlobStorageService()
+
+    // ファイル情報を取得
+    const fileInfo = await blobService.getFileInfo(blobPath)
+
+    if (!fileInfo.exists) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    const size = fileInfo.size ?? 0
+    const { etag, lastModified } = fileInfo
+
+    // キャッシュ検証用ヘッダー（認証済みコンテンツのため共有キャッシュには載せない）
+    const validatorHeaders: Record<string, string> = {
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, no-cache'
+    }
+    if (etag) {
+      validatorHeaders['ETag'] = etag
+    }
+    if (lastModified) {
+      validatorHeaders['Last-Modified'] = lastModified.toUTCString()
+    }
+
+    // 条件付きGET
+    if (isNotModified(request.headers, etag, lastModified)) {
+      return new Response(null, { status: 304, headers: validatorHeaders })
+    }
+
+    // Range 指定（If-Range が一致しない場合は全体を返す）
+    const range = isRangeApplicable(request.headers, etag, lastModified)
+      ? parseRangeHeader(request.headers.get('range'), size)
+      : null
+
+    if (range === 'unsatisfiable') {
+      return new Response(null, {
+        status: 416,
+        headers: { ...validatorHeaders, 'Content-Range': `bytes */${size}` }
+      })
+    }
+
+    const contentLength = range ? range.end - range.start + 1 : size
+
+    // ファイルをストリームで取得（情報取得後に更新された場合は失敗させる）
+    const stream = await blobService.downloadFileStream(blobPath, {
+      offset: range?.start,
+      count: range ? contentLength : undefined,
+      ifMatch: etag
+    })
+
+    const downloadName = fileName || attachment.fileName
+    const headers: Record<string, string> = {
+      ...validatorHeaders,
+      'Content-Type': fileInfo.contentType || 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${encodeURIComponent(downloadName)}"`,
+      'Content-Length': contentLength.toString(),
+      // ブラウザに Content-Type を推測させない（HTML として解釈されるのを防ぐ）
+      'X-Content-Type-Options': 'nosniff'
+    }
+    if (range) {
+      headers['Content-Range'] = `bytes ${range.start}-${range.end}/${size}`
+    }
+
+    return new Response(stream, {
+      status: range ? 206 : 200,
+      headers
+    })
+  } catch (error) {
+    console.error('File download from blob storage failed:', error)
+    return NextResponse.json(
+      { error: 'File download failed' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // セッション認証
+    const auth = await authenticate(request)
+    if (!auth.user) {
+      return auth.response!
+    }
 
     // リクエストボディをパース
     let body: DownloadRequest
@@ -49,50 +167,43 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Azure Blob Storageからファイルを取得
-    try {
-      const blobService = getBlobStorageService()
-      // Blob URLから完全なパス（questions/{id}/question/{filename}など）を抽出
-      const fullBlobPath = blobService.extractFileNameFromUrl(blobUrl)
-      
-
-      // ファイルをダウンロード
-      const fileBuffer = await blobService.downloadFile(fullBlobPath)
-
-      // ファイル情報を取得
-      const fileInfo = await blobService.getFileInfo(fullBlobPath)
-      
-      if (!fileInfo.exists) {
-        return NextResponse.json(
-          { error: 'File not found' },
-          { status: 404 }
-        )
-      }
-
-      // ReadableStreamを作成
-      const stream = new ReadableStream({
-        start(controller) {
-          controller.enqueue(fileBuffer)
-          controller.close()
-        }
-      })
+    return await downloadAttachment(request, auth.user, blobUrl, fileName)
+  } catch (error) {
+    console.error('File download error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error during file download' },
+      { status: 500 }
+    )
+  }
+}
 
-      return new Response(stream, {
-        status: 200,
-        headers: {
-          'Content-Type': fileInfo.contentType || 'application/octet-stream',
-          'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`,
-          'Content-Length': fileInfo.size?.toString() || fileBuffer.length.toString()
-        }
-      })
-    } catch (error) {
-      console.error('File download from blob storage failed:', error)
+// 共有リンク用：添付ファイルIDでダウンロード（/api/files/download?id=...）
+export async function GET(request: NextRequest) {
+  try {
+    // セッション認証
+    const auth = await authenticate(request)
+    if (!auth.user) {
+      return auth.response!
+    }
+
+    const attachmentId = request.nextUrl.searchParams.get('id')
+
+    if (!attachmentId || !isAttachmentId(attachmentId)) {
       return NextResponse.json(
-        { error: 'File download failed' },
-        { status: 500 }
+        { error: 'Valid attachment id is required' },
+        { status: 400 }
       )
     }
 
+    const blobUrl = await findAttachmentBlobUrl(attachmentId)
+    if (!blobUrl) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    return await downloadAttachment(request, auth.user, blobUrl)
   } catch (error) {
     console.error('File download error:', error)
     return NextResponse.json(
@@ -100,4 +211,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
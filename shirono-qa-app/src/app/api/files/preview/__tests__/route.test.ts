@@ -0,0 +1,304 @@
+/**
+ * @jest-environment node
+ */
+
+import { NextRequest } from 'next/server'
+import { GET } from '../route'
+import { validateSession } from '@/lib/auth'
+import { encodeAttachmentId } from '@/lib/attachment-id'
+import { createThumbnail } from '@/lib/thumbnail'
+import { PREVIEW_TEXT_MAX_BYTES } from '@/lib/attachment-preview'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+import { AttachmentScanStatus } from '@/types/question'
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn()
+}))
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/openai', () => ({
+  embedText: jest.fn()
+}))
+
+// サムネイル生成（sharp・pdf.js）はモック
+jest.mock('@/lib/thumbnail', () => ({
+  createThumbnail: jest.fn()
+}))
+
+// Blob Storageはパス解析とファイル内容のみ実装
+jest.mock('@/lib/blob-storage', () => {
+  const files: Record<string, string> = {
+    'questions/question-1/question/screenshot.png': 'png-bytes',
+    'questions/question-1/question/manual.pdf': 'pdf-bytes',
+    'questions/question-1/question/server.log': '2024-01-15 10:00:00 ERROR failed',
+    'questions/question-1/question/config.yaml': 'key: value',
+    'questions/question-1/question/archive.zip': 'zip-bytes',
+    'questions/question-1/question/scanning.png': 'png-bytes',
+    'questions/question-1/question/infected.png': 'png-bytes',
+    'questions/question-2/question/secret.log': 'secret',
+    'questions/temp/question/pasted.png': 'png-bytes'
+  }
+  const largeLog = 'questions/question-1/question/large.log'
+  const service = {
+    extractFileNameFromUrl: (blobUrl: string) => blobUrl.replace('mock://blob/', ''),
+    parseBlobPath: (blobPath: string) => {
+      const segments = blobPath.split('/')
+      if (segments[0] !== 'questions' || segments[2] !== 'question' || segments.length !== 4) return null
+      return { type: 'question', questionId: segments[1], fileName: segments[3] }
+    },
+    getFileInfo: jest.fn(async (blobPath: string) => {
+      if (blobPath === largeLog) {
+        return { exists: true, size: 1024 * 1024, etag: '"0x8D2"', lastModified: new Date('2024-01-15T10:00:00Z') }
+      }
+      return blobPath in files
+        ? { exists: true, size: files[blobPath].length, etag: '"0x8D1"', lastModified: new Date('2024-01-15T10:00:00Z') }
+        : { exists: false }
+    }),
+    downloadFileStream: jest.fn(async (blobPath: string, options: { count?: number } = {}) => {
+      const content = blobPath === largeLog
+        ? Buffer.alloc(options.count ?? 1024 * 1024, 'a')
+        : Buffer.from(files[blobPath])
+      return new ReadableStream({
+        start(controller) {
+          controller.enqueue(new Uint8Array(content))
+          controller.close()
+        }
+      })
+    })
+  }
+  return { getBlobStorageService: () => service }
+})
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+const mockCreateThumbnail = createThumbnail as jest.MockedFunction<typeof createThumbnail>
+
+const attachment = (fileName: string, questionId = 'question-1') => ({
+  fileName,
+  fileSize: 10,
+  blobUrl: `mock://blob/questions/${questionId}/question/${fileName}`,
+  contentType: 'application/octet-stream',
+  scanStatus: AttachmentScanStatus.CLEAN
+})
+
+const baseQuestion = {
+  title: 'Question',
+  content: 'Content',
+  authorId: 'user-2',
+  status: 'unanswered',
+  priority: 'medium',
+  tags: [],
+  createdAt: new Date(),
+  updatedAt: new Date()
+}
+
+const getPreview = (fileName: string, options: { size?: string; headers?: Record<string, string>; questionId?: string } = {}) => {
+  const id = encodeAttachmentId(attachment(fileName, options.questionId).blobUrl)
+  const query = options.size ? `&size=${options.size}` : ''
+  return GET(new NextRequest(`http://localhost:3000/api/files/preview?id=${id}${query}`, {
+    headers: { Cookie: 'session=valid-token', ...options.headers }
+  }))
+}
+
+describe('/api/files/preview', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    mockValidateSession.mockResolvedValue({
+      valid: true,
+      user: {
+        id: 'user-1',
+        username: 'testuser',
+        email: 'test@example.com',
+        isAdmin: false,
+        groupId: 'group-1',
+        createdAt: new Date(),
+        lastLoginAt: null
+      }
+    })
+    mockCreateThumbnail.mockResolvedValue({ success: true, data: Buffer.from('webp'), contentType: 'image/webp' })
+
+    await testDataStore.createItem('questions', {
+      ...baseQuestion,
+      id: 'question-1',
+      groupId: 'group-1',
+      attachments: [
+        attachment('screenshot.png'),
+        attachment('manual.pdf'),
+        attachment('server.log'),
+        attachment('config.yaml'),
+        attachment('large.log'),
+        attachment('archive.zip'),
+        { ...attachment('scanning.png'), scanStatus: AttachmentScanStatus.PENDING },
+        { ...attachment('infected.png'), scanStatus: AttachmentScanStatus.QUARANTINED }
+      ]
+    })
+    await testDataStore.createItem('questions', {
+      ...baseQuestion,
+      id: 'question-2',
+      groupId: 'group-2',
+      attachments: [attachment('secret.log', 'question-2')]
+    })
+  })
+
+  describe('認証・アクセス制御', () => {
+    it('セッションがない場合は401を返す', async () => {
+      const response = await GET(new NextRequest(
+        `http://localhost:3000/api/files/preview?id=${encodeAttachmentId(attachment('server.log').blobUrl)}`
+      ))
+
+      expect(response.status).toBe(401)
+    })
+
+    it('不正なIDの場合は400を返す', async () => {
+      const response = await GET(new NextRequest('http://localhost:3000/api/files/preview?id=not*valid', {
+        headers: { Cookie: 'session=valid-token' }
+      }))
+
+      expect(response.status).toBe(400)
+    })
+
+    it('他グループの添付ファイルは403を返す', async () => {
+      const response = await getPreview('secret.log', { questionId: 'question-2' })
+
+      expect(response.status).toBe(403)
+    })
+
+    it('スキャン中のファイルは409を返す', async () => {
+      const response = await getPreview('scanning.png')
+
+      expect(response.status).toBe(409)
+      expect(mockCreateThumbnail).not.toHaveBeenCalled()
+    })
+
+    it('隔離されたファイルは403を返す', async () => {
+      const response = await getPreview('infected.png')
+
+      expect(response.status).toBe(403)
+      expect(mockCreateThumbnail).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('サムネイル', () => {
+    it('画像のサムネイルをWebPで返す', async () => {
+      const response = await getPreview('screenshot.png', { size: 'small' })
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Content-Type')).toBe('image/webp')
+      expect(response.headers.get('ETag')).toBe('"0x8D1-small"')
+      expect(mockCreateThumbnail).toHaveBeenCalledWith(Buffer.from('png-bytes'), 'image', 240)
+    })
+
+    it('PDFは1ページ目のサムネイルを生成する', async () => {
+      const response = await getPreview('manual.pdf')
+
+      expect(response.status).toBe(200)
+      expect(mockCreateThumbnail).toHaveBeenCalledWith(Buffer.from('pdf-bytes'), 'pdf', 1200)
+    })
+
+    it('If-None-Matchが一致する場合は304を返し、生成しない', async () => {
+      const response = await getPreview('screenshot.png', { size: 'small', headers: { 'if-none-match': '"0x8D1-small"' } })
+
+      expect(response.status).toBe(304)
+      expect(mockCreateThumbnail).not.toHaveBeenCalled()
+    })
+
+    it('不正なサイズ指定は400を返す', async () => {
+      const response = await getPreview('screenshot.png', { size: 'huge' })
+
+      expect(response.status).toBe(400)
+    })
+
+    it('サムネイル生成に失敗した場合は422を返す', async () => {
+      mockCreateThumbnail.mockResolvedValue({ success: false, error: 'Failed to generate preview' })
+
+      const response = await getPreview('screenshot.png')
+
+      expect(response.status).toBe(422)
+    })
+  })
+
+  describe('テキスト', () => {
+    it('ログファイルの内容と言語を返す', async () => {
+      const response = await getPreview('server.log')
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data).toEqual({
+        kind: 'text',
+        language: 'log',
+        content: '2024-01-15 10:00:00 ERROR failed',
+        truncated: false,
+        size: 32
+      })
+    })
+
+    it('YAMLファイルはyamlとして返す', async () => {
+      const response = await getPreview('config.yaml')
+      const data = await response.json()
+
+      expect(data.language).toBe('yaml')
+      expect(data.content).toBe('key: value')
+    })
+
+    it('上限を超えるファイルは先頭のみ返す', async () => {
+      const response = await getPreview('large.log')
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.truncated).toBe(true)
+      expect(data.content).toHaveLength(PREVIEW_TEXT_MAX_BYTES)
+    })
+  })
+
+  describe('本文に貼り付けた画像', () => {
+    beforeEach(async () => {
+      await testDataStore.createItem('pendingUploads', {
+        id: 'pending-1',
+        userId: 'user-1',
+        blobPath: 'questions/temp/question/pasted.png',
+        fileName: 'pasted.png',
+        fileSize: 9,
+        contentType: 'image/png',
+        createdAt: new Date()
+      })
+    })
+
+    it('投稿前の画像はアップロードした本人のみプレビューできる', async () => {
+      const response = await getPreview('pasted.png', { questionId: 'temp' })
+
+      expect(response.status).toBe(200)
+      expect(mockCreateThumbnail).toHaveBeenCalledWith(Buffer.from('png-bytes'), 'image', 1200)
+    })
+
+    it('他のユーザーの投稿前の画像は404を返す', async () => {
+      mockValidateSession.mockResolvedValue({
+        valid: true,
+        user: {
+          id: 'user-3',
+          username: 'otheruser',
+          email: 'other@example.com',
+          isAdmin: false,
+          groupId: 'group-1',
+          createdAt: new Date(),
+          lastLoginAt: null
+        }
+      })
+
+      const response = await getPreview('pasted.png', { questionId: 'temp' })
+
+      expect(response.status).toBe(404)
+      expect(mockCreateThumbnail).not.toHaveBeenCalled()
+    })
+  })
+
+  it('プレビューできない形式は415を返す', async () => {
+    const response = await getPreview('archive.zip')
+
+    expect(response.status).toBe(415)
+  })
+})
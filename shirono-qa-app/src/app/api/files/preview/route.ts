@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getBlobStorageService } from '@/lib/blob-storage'
+import { authorizeAttachmentDownload } from '@/lib/attachments'
+import { findPendingUpload } from '@/lib/pending-uploads'
+import { decodeAttachmentId } from '@/lib/attachment-id'
+import {
+  getPreviewKind,
+  getPreviewLanguage,
+  PREVIEW_SOURCE_MAX_BYTES,
+  PREVIEW_TEXT_MAX_BYTES,
+  THUMBNAIL_SIZES,
+  ThumbnailSize
+} from '@/lib/attachment-preview'
+import { createThumbnail } from '@/lib/thumbnail'
+import { isNotModified } from '@/lib/http-range'
+import { AppError, ErrorCodes, getErrorStatus } from '@/lib/errors'
+
+/**
+ * ストリームを上限バイト数まで読み出す（上限を超えた分は読まずに打ち切る）
+ */
+async function readStream(stream: ReadableStream<Uint8Array>, maxBytes: number): Promise<Buffer> {
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  try {
+    while (total < maxBytes) {
+      const { done, value } = await reader.read()
+      if (done) break
+      chunks.push(value)
+      total += value.length
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined)
+  }
+
+  return Buffer.concat(chunks).subarray(0, maxBytes)
+}
+
+/**
+ * UTF-8 として表示（先頭だけ読んだ場合は途中で切れた文字を除く）
+ */
+function decodeText(buffer: Buffer, truncated: boolean): string {
+  const text = new TextDecoder('utf-8').decode(buffer)
+  return truncated ? text.replace(/�+$/, '') : text
+}
+
+// 添付ファイルのプレビュー（/api/files/preview?id=...&size=small|large）
+// 画像・PDF はサムネイル画像、テキストはハイライト表示用の JSON を返す
+export async function GET(request: NextRequest) {
+  try {
+    // セッション認証
+    const sessionToken = request.cookies.get('session')?.value
+
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const validation = await validateSession(sessionToken)
+    if (!validation.valid || !validation.user) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const attachmentId = request.nextUrl.searchParams.get('id')
+    const blobUrl = attachmentId ? decodeAttachmentId(attachmentId) : null
+
+    if (!blobUrl) {
+      return NextResponse.json(
+        { error: 'Valid attachment id is required' },
+        { status: 400 }
+      )
+    }
+
+    const sizeParam = request.nextUrl.searchParams.get('size') || 'large'
+    if (!(sizeParam in THUMBNAIL_SIZES)) {
+      return NextResponse.json(
+        { error: 'size must be small or large' },
+        { status: 400 }
+      )
+    }
+    const size = sizeParam as ThumbnailSize
+
+    // ダウンロードと同じアクセス権・スキャン状態の確認
+    const access = await authorizeAttachmentDownload(validation.user, blobUrl)
+    let target: { blobPath: string; fileName: string }
+
+    if (access.success && access.owner) {
+      target = { blobPath: access.owner.blobPath, fileName: access.owner.attachment.fileName }
+    } else {
+      const error = access.error as AppError
+
+      // 投稿前の本文に貼り付けた画像は、アップロードした本人のみプレビューできる
+      const pending = error.code === ErrorCodes.NOT_FOUND
+        ? await findPendingUpload(validation.user.id, blobUrl)
+        : null
+
+      if (!pending) {
+        return NextResponse.json(
+          { error: error.code === ErrorCodes.NOT_FOUND ? 'File not found' : error.message },
+          { status: getErrorStatus(error.code) }
+        )
+      }
+
+      target = { blobPath: pending.blobPath, fileName: pending.fileName }
+    }
+
+    const { blobPath, fileName } = target
+    const kind = getPreviewKind(fileName)
+
+    if (!kind) {
+      return NextResponse.json(
+        { error: 'Preview is not available for this file type' },
+        { status: 415 }
+      )
+    }
+
+    const blobService = getBlobStorageService()
+    const fileInfo = await blobService.getFileInfo(blobPath)
+
+    if (!fileInfo.exists) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    const fileSize = fileInfo.size ?? 0
+
+    // テキストは先頭から上限まで
+    if (kind === 'text') {
+      const stream = await blobService.downloadFileStream(blobPath, {
+        count: Math.min(fileSize, PREVIEW_TEXT_MAX_BYTES) || undefined,
+        ifMatch: fileInfo.etag
+      })
+      const truncated = fileSize > PREVIEW_TEXT_MAX_BYTES
+      const content = decodeText(await readStream(stream, PREVIEW_TEXT_MAX_BYTES), truncated)
+
+      return NextResponse.json(
+        {
+          kind,
+          language: getPreviewLanguage(fileName),
+          content,
+          truncated,
+          size: fileSize
+        },
+        { headers: { 'Cache-Control': 'private, no-cache' } }
+      )
+    }
+
+    if (fileSize > PREVIEW_SOURCE_MAX_BYTES) {
+      return NextResponse.json(
+        { error: 'File is too large to preview' },
+        { status: 413 }
+      )
+    }
+
+    // 元ファイルの ETag とサイズからサムネイルの ETag を決める
+    const etag = fileInfo.etag ? `"${fileInfo.etag.replace(/"/g, '')}-${size}"` : undefined
+    const validatorHeaders: Record<string, string> = {
+      'Cache-Control': 'private, no-cache'
+    }
+    if (etag) {
+      validatorHeaders['ETag'] = etag
+    }
+    if (fileInfo.lastModified) {
+      validatorHeaders['Last-Modified'] = fileInfo.lastModified.toUTCString()
+    }
+
+    if (isNotModified(request.headers, etag, fileInfo.lastModified)) {
+      return new Response(null, { status: 304, headers: validatorHeaders })
+    }
+
+    const stream = await blobService.downloadFileStream(blobPath, { ifMatch: fileInfo.etag })
+    const source = await readStream(stream, PREVIEW_SOURCE_MAX_BYTES)
+    const thumbnail = await createThumbnail(source, kind, THUMBNAIL_SIZES[size])
+
+    if (!thumbnail.success || !thumbnail.data) {
+      return NextResponse.json(
+        { error: thumbnail.error || 'Failed to generate preview' },
+        { status: 422 }
+      )
+    }
+
+    return new Response(new Uint8Array(thumbnail.data), {
+      status: 200,
+      headers: {
+        ...validatorHeaders,
+        'Content-Type': thumbnail.contentType || 'image/webp',
+        'Content-Length': thumbnail.data.length.toString(),
+        'X-Content-Type-Options': 'nosniff'
+      }
+    })
+  } catch (error) {
+    console.error('File preview error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error during file preview' },
+      { status: 500 }
+    )
+  }
+}
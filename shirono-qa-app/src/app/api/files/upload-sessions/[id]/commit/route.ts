@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse, after } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { commitUploadSession, scanCommittedUpload } from '@/lib/upload-sessions'
+import { getErrorStatus } from '@/lib/errors'
+
+// アップロード済みブロックを確定し、質問・回答・コメントに添付する
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+
+    // セッション認証
+    const sessionToken = request.cookies.get('session')?.value
+
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const validation = await validateSession(sessionToken)
+    if (!validation.valid || !validation.user) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const result = await commitUploadSession(validation.user, params.id)
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: result.error?.message || 'Failed to commit upload',
+          ...(result.error?.details && { details: result.error.details })
+        },
+        { status: result.error ? getErrorStatus(result.error.code) : 500 }
+      )
+    }
+
+    // マルウェアスキャンはレスポンスを返した後に実行
+    after(() => scanCommittedUpload(result))
+
+    return NextResponse.json({
+      success: true,
+      attachment: result.attachment,
+      question: result.question,
+      answer: result.answer,
+      comment: result.comment
+    })
+  } catch (error) {
+    console.error('Upload commit error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error during upload commit' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getUploadSessionPlan } from '@/lib/upload-sessions'
+import { getErrorStatus } from '@/lib/errors'
+
+// 中断したアップロードの再開用：アップロード済みブロックと新しい書き込み用URLを返す
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+
+    // セッション認証
+    const sessionToken = request.cookies.get('session')?.value
+
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const validation = await validateSession(sessionToken)
+    if (!validation.valid || !validation.user) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const result = await getUploadSessionPlan(validation.user, params.id)
+    if (!result.success || !result.plan) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to get upload session' },
+        { status: result.error ? getErrorStatus(result.error.code) : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result.plan
+    })
+  } catch (error) {
+    console.error('Upload session fetch error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error during upload session fetch' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { createUploadSession } from '@/lib/upload-sessions'
+import { getErrorStatus } from '@/lib/errors'
+import { CreateUploadSessionRequest } from '@/types/upload'
+
+// 直接アップロード用のセッションを作成し、ブロック計画と書き込み用URLを返す
+export async function POST(request: NextRequest) {
+  try {
+    // セッション認証
+    const sessionToken = request.cookies.get('session')?.value
+
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Not authenticated' },
+        { status: 401 }
+      )
+    }
+
+    const validation = await validateSession(sessionToken)
+    if (!validation.valid || !validation.user) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    // リクエストボディをパース
+    let body: CreateUploadSessionRequest
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const result = await createUploadSession(validation.user, body)
+    if (!result.success || !result.plan) {
+      return NextResponse.json(
+        { error: result.error?.message || 'Failed to create upload session' },
+        { status: result.error ? getErrorStatus(result.error.code) : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...result.plan
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Upload session creation error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error during upload session creation' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { validateSession } from '@/lib/auth'
 import { getBlobStorageService } from '@/lib/blob-storage'
+import { recordPendingUpload } from '@/lib/pending-uploads'
+import { verifyFileContent } from '@/lib/file-type'
 
 export async function POST(request: NextRequest) {
   try {
@@ -66,6 +68,15 @@ export async function POST(request: NextRequest) {
         // ファイルをBufferに変換
         const bytes = await file.arrayBuffer()
         const buffer = Buffer.from(bytes)
+
+        // 先頭バイトで形式を検証（保存時の Content-Type もブラウザ申告ではなく拡張子から決定）
+        const fileType = verifyFileContent(file.name, buffer, file.type)
+        if (!fileType.valid) {
+          return NextResponse.json(
+            { error: `File "${file.name}" was rejected: ${fileType.error}` },
+            { status: 400 }
+          )
+        }
         
         // メタデータを準備
         const metadata = {
@@ -84,10 +95,19 @@ export async function POST(request: NextRequest) {
           filePath,
           uniqueFileName,
           buffer,
-          file.type,
+          fileType.contentType,
           metadata
         )
         
+        // 質問に関連付けられるまでは添付前ファイルとして記録（未使用のまま残ったものは定期削除）
+        await recordPendingUpload({
+          userId: validation.user.id,
+          blobPath: uploadResult.fileName,
+          fileName: file.name,
+          fileSize: uploadResult.fileSize,
+          contentType: uploadResult.contentType
+        })
+        
         uploadResults.push({
           fileName: file.name, // 元のファイル名を保持
           blobUrl: uploadResult.blobUrl,
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { renderMarkdown } from '@/lib/markdown'
+import { VALIDATION_LIMITS } from '@/lib/validation'
+
+// 投稿フォームのプレビュー用に Markdown を HTML に変換（保存時と同じ変換・無害化）
+export async function POST(request: NextRequest) {
+  try {
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const { content } = body
+
+    if (typeof content !== 'string' || content.length > VALIDATION_LIMITS.QUESTION_CONTENT_MAX) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: `Content must be a string of at most ${VALIDATION_LIMITS.QUESTION_CONTENT_MAX} characters`
+          }
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      html: renderMarkdown(content)
+    })
+
+  } catch (error) {
+    console.error('POST /api/markdown/preview error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -12,7 +12,17 @@ jest.mock('@/lib/auth', () => ({
   validateSession: jest.fn(),
 }))
 
+jest.mock('@/lib/openai', () => ({
+  embedText: jest.fn().mockResolvedValue([0.1, 0.2, 0.3]),
+}))
+
+jest.mock('@/lib/email', () => ({
+  ...jest.requireActual('@/lib/email'),
+  sendNotificationEmail: jest.fn().mockResolvedValue({ success: true }),
+}))
+
 import { validateSession } from '@/lib/auth'
+import { sendNotificationEmail, EmailType } from '@/lib/email'
 
 const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
 
@@ -243,6 +253,104 @@ describe('/api/questions/[id]', () => {
       expect(data.error.code).toBe('FORBIDDEN')
     })
 
+    it('should record status changes in the history', async () => {
+      const request = new NextRequest('http://localhost:3000/api/questions/question-123', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Cookie': 'session=test-session-token'
+        },
+        body: JSON.stringify({ status: QuestionStatus.CLOSED, statusReason: '自己解決しました' })
+      })
+
+      const response = await PUT(request, { params: Promise.resolve({ id: 'question-123' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.question.status).toBe(QuestionStatus.CLOSED)
+      expect(data.question.statusHistory).toHaveLength(1)
+      expect(data.question.statusHistory[0]).toMatchObject({
+        from: QuestionStatus.UNANSWERED,
+        to: QuestionStatus.CLOSED,
+        changedBy: 'user-123',
+        reason: '自己解決しました'
+      })
+    })
+
+    it('should mail status changes to watchers except the user who changed it', async () => {
+      await testDataStore.updateItem('questions', 'question-123', {
+        ...mockQuestion,
+        status: QuestionStatus.ANSWERED,
+        watcherIds: ['user-123', 'user-456']
+      })
+      for (const [id, email] of [['user-123', 'test@example.com'], ['user-456', 'watcher@example.com']]) {
+        await testDataStore.createItem('users', {
+          id,
+          username: id,
+          email,
+          groupId: 'group-ts-ai',
+          isAdmin: false,
+          createdAt: new Date(),
+          lastLoginAt: null,
+        })
+      }
+
+      const request = new NextRequest('http://localhost:3000/api/questions/question-123', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Cookie': 'session=test-session-token'
+        },
+        body: JSON.stringify({ status: QuestionStatus.RESOLVED })
+      })
+
+      const response = await PUT(request, { params: Promise.resolve({ id: 'question-123' }) })
+
+      expect(response.status).toBe(200)
+      expect(sendNotificationEmail).toHaveBeenCalledTimes(1)
+      expect(sendNotificationEmail).toHaveBeenCalledWith(
+        EmailType.QUESTION_RESOLVED,
+        'watcher@example.com',
+        expect.objectContaining({ recipient: expect.objectContaining({ id: 'user-456' }) })
+      )
+    })
+
+    it('should return 403 for status transitions not allowed for the user', async () => {
+      const request = new NextRequest('http://localhost:3000/api/questions/question-123', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Cookie': 'session=test-session-token'
+        },
+        body: JSON.stringify({ status: QuestionStatus.REJECTED })
+      })
+
+      const response = await PUT(request, { params: Promise.resolve({ id: 'question-123' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(403)
+      expect(data.error.code).toBe('FORBIDDEN')
+    })
+
+    it('should return 409 for status transitions missing from the table', async () => {
+      await testDataStore.updateItem('questions', 'question-123', { ...mockQuestion, status: QuestionStatus.REJECTED })
+
+      const request = new NextRequest('http://localhost:3000/api/questions/question-123', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'Cookie': 'session=test-session-token'
+        },
+        body: JSON.stringify({ status: QuestionStatus.RESOLVED })
+      })
+
+      const response = await PUT(request, { params: Promise.resolve({ id: 'question-123' }) })
+      const data = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(data.error.code).toBe('CONFLICT')
+    })
+
     it('should validate update data', async () => {
       const invalidData = {
         title: 'A'.repeat(101), // Too long title
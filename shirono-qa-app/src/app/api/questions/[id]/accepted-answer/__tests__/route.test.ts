@@ -0,0 +1,176 @@
+import { NextRequest } from 'next/server'
+import { PUT, DELETE } from '../route'
+import { QuestionStatus, QuestionPriority } from '@/types/question'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+jest.mock('@/lib/openai', () => ({
+  embedText: jest.fn(),
+}))
+
+jest.mock('@/lib/email', () => ({
+  sendNotificationEmail: jest.fn().mockResolvedValue({ success: true }),
+  EmailType: { QUESTION_RESOLVED: 'QUESTION_RESOLVED' }
+}))
+
+jest.mock('@/lib/admin', () => ({
+  getUsers: jest.fn().mockResolvedValue({ success: true, users: [] })
+}))
+
+import { validateSession } from '@/lib/auth'
+import { sendNotificationEmail } from '@/lib/email'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+const mockSendNotificationEmail = sendNotificationEmail as jest.MockedFunction<typeof sendNotificationEmail>
+
+const author = {
+  id: 'user-123',
+  username: 'author',
+  email: 'author@example.com',
+  groupId: 'group-ts-ai',
+  isAdmin: false,
+  createdAt: new Date(),
+  lastLoginAt: null,
+}
+
+const params = { params: Promise.resolve({ id: 'question-123' }) }
+
+const putAccepted = (answerId?: string) => PUT(new NextRequest('http://localhost:3000/api/questions/question-123/accepted-answer', {
+  method: 'PUT',
+  body: JSON.stringify(answerId ? { answerId } : {}),
+  headers: {
+    'Content-Type': 'application/json',
+    Cookie: 'session=test-session-token'
+  }
+}), params)
+
+const deleteAccepted = () => DELETE(new NextRequest('http://localhost:3000/api/questions/question-123/accepted-answer', {
+  method: 'DELETE',
+  headers: {
+    Cookie: 'session=test-session-token'
+  }
+}), params)
+
+describe('/api/questions/[id]/accepted-answer', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('users', author)
+    await testDataStore.createItem('users', { ...author, id: 'user-456', username: 'answerer', email: 'answerer@example.com' })
+    await testDataStore.createItem('questions', {
+      id: 'question-123',
+      title: 'Test Question',
+      content: 'Test content',
+      authorId: 'user-123',
+      groupId: 'group-ts-ai',
+      status: QuestionStatus.ANSWERED,
+      priority: QuestionPriority.MEDIUM,
+      tags: [],
+      attachments: [],
+      createdAt: new Date('2024-01-15T10:00:00Z'),
+      updatedAt: new Date('2024-01-15T10:00:00Z'),
+    })
+    await testDataStore.createItem('answers', {
+      id: 'answer-1',
+      questionId: 'question-123',
+      content: 'This fixes it',
+      authorId: 'user-456',
+      attachments: [],
+      createdAt: new Date('2024-01-15T11:00:00Z'),
+      updatedAt: new Date('2024-01-15T11:00:00Z'),
+    })
+
+    mockValidateSession.mockResolvedValue({ valid: true, user: author })
+  })
+
+  describe('PUT', () => {
+    it('should accept the answer, resolve the question and notify with the answer', async () => {
+      const response = await putAccepted('answer-1')
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.question.acceptedAnswerId).toBe('answer-1')
+      expect(data.question.status).toBe(QuestionStatus.RESOLVED)
+      expect(data.question.resolvedAt).toBeDefined()
+      expect(mockSendNotificationEmail).toHaveBeenCalledWith(
+        'QUESTION_RESOLVED',
+        'author@example.com',
+        expect.objectContaining({
+          answer: expect.objectContaining({ id: 'answer-1', content: 'This fixes it' }),
+          answerer: expect.objectContaining({ username: 'answerer' })
+        })
+      )
+    })
+
+    it('should not notify again when the same answer is re-accepted', async () => {
+      await putAccepted('answer-1')
+      mockSendNotificationEmail.mockClear()
+
+      const response = await putAccepted('answer-1')
+
+      expect(response.status).toBe(200)
+      expect(mockSendNotificationEmail).not.toHaveBeenCalled()
+    })
+
+    it('should allow admins to accept answers', async () => {
+      mockValidateSession.mockResolvedValue({
+        valid: true,
+        user: { ...author, id: 'admin-1', groupId: 'other-group', isAdmin: true }
+      })
+
+      const response = await putAccepted('answer-1')
+
+      expect(response.status).toBe(200)
+    })
+
+    it('should return 403 for users other than the author', async () => {
+      mockValidateSession.mockResolvedValue({ valid: true, user: { ...author, id: 'user-456' } })
+
+      const response = await putAccepted('answer-1')
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should return 400 without answerId', async () => {
+      const response = await putAccepted()
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 404 for unknown answers', async () => {
+      const response = await putAccepted('missing-answer')
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should return 401 without session', async () => {
+      mockValidateSession.mockResolvedValue({ valid: false })
+
+      const response = await putAccepted('answer-1')
+
+      expect(response.status).toBe(401)
+    })
+  })
+
+  describe('DELETE', () => {
+    it('should clear the accepted answer', async () => {
+      await putAccepted('answer-1')
+
+      const response = await deleteAccepted()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.question.acceptedAnswerId).toBeUndefined()
+      expect(data.question.status).toBe(QuestionStatus.ANSWERED)
+    })
+  })
+})
@@ -0,0 +1,257 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getQuestion, setAcceptedAnswer } from '@/lib/questions'
+import { sendNotificationEmail, EmailType } from '@/lib/email'
+import { getWatcherRecipients } from '@/lib/watchers'
+import { getCosmosService } from '@/lib/cosmos'
+import { validateStatusTransition } from '@/lib/question-status'
+import { getErrorStatus } from '@/lib/errors'
+import { Question, QuestionStatus } from '@/types/question'
+import { Answer } from '@/types/answer'
+import { User } from '@/types/auth'
+
+/**
+ * 認証と「質問投稿者または管理者」の権限を確認
+ */
+async function authorize(
+  request: NextRequest,
+  questionId: string
+): Promise<{ user?: User; question?: Question; response?: NextResponse }> {
+  const sessionToken = request.cookies.get('session')?.value
+  if (!sessionToken) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+  }
+
+  const authResult = await validateSession(sessionToken)
+  if (!authResult.valid || !authResult.user) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+  }
+
+  const questionResult = await getQuestion(questionId)
+  if (!questionResult.success || !questionResult.question) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Question not found'
+          }
+        },
+        { status: 404 }
+      )
+    }
+  }
+
+  const question = questionResult.question
+
+  if (!authResult.user.isAdmin && question.authorId !== authResult.user.id) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only the question author or admin can accept an answer'
+          }
+        },
+        { status: 403 }
+      )
+    }
+  }
+
+  return { user: authResult.user, question }
+}
+
+/**
+ * 採用・取り消しに伴うステータス変更が遷移表で許可されているか確認
+ */
+function checkStatusTransition(question: Question, to: QuestionStatus, user: User): NextResponse | null {
+  const transition = validateStatusTransition(question, to, user)
+  if (transition.valid) {
+    return null
+  }
+
+  return NextResponse.json(
+    {
+      error: {
+        code: transition.error!.code,
+        message: transition.error!.message
+      }
+    },
+    { status: getErrorStatus(transition.error!.code) }
+  )
+}
+
+/**
+ * 質問投稿者と管理者へ解決済みの通知を送信（失敗しても採用は成功とする）
+ */
+async function notifyResolved(question: Question, answer: Answer, resolver: User) {
+  try {
+    const cosmosService = getCosmosService()
+    const questionAuthor = await cosmosService.getItem<User>('users', question.authorId)
+    const answerer = await cosmosService.getItem<User>('users', answer.authorId)
+
+    const recipients = await getWatcherRecipients(question)
+
+    for (const recipient of recipients) {
+      await sendNotificationEmail(
+        EmailType.QUESTION_RESOLVED,
+        recipient.email,
+        {
+          question,
+          author: questionAuthor ?? undefined,
+          resolver,
+          answer,
+          answerer: answerer ?? undefined,
+          recipient
+        }
+      )
+    }
+  } catch (emailError) {
+    console.error('Failed to send accepted answer notification email:', emailError)
+  }
+}
+
+// ベストアンサーの採用（質問は解決済みになる）
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // paramsを待機
+    const params = await context.params
+
+    const auth = await authorize(request, params.id)
+    if (!auth.user || !auth.question) {
+      return auth.response!
+    }
+
+    const body = await request.json()
+    const { answerId } = body
+
+    if (!answerId || typeof answerId !== 'string') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'answerId is required'
+          }
+        },
+        { status: 400 }
+      )
+    }
+
+    const transitionError = checkStatusTransition(auth.question, QuestionStatus.RESOLVED, auth.user)
+    if (transitionError) {
+      return transitionError
+    }
+
+    const result = await setAcceptedAnswer(params.id, answerId, auth.user)
+    if (!result.success || !result.question || !result.answer) {
+      const notFound = result.error === 'Answer not found'
+      return NextResponse.json(
+        {
+          error: {
+            code: notFound ? 'NOT_FOUND' : 'INTERNAL_ERROR',
+            message: result.error || 'Failed to accept answer'
+          }
+        },
+        { status: notFound ? 404 : 500 }
+      )
+    }
+
+    // 同じ回答を再度採用した場合は通知しない
+    if (auth.question.acceptedAnswerId !== answerId) {
+      await notifyResolved(result.question, result.answer, auth.user)
+    }
+
+    return NextResponse.json({
+      success: true,
+      question: result.question
+    })
+
+  } catch (error) {
+    console.error('PUT /api/questions/[id]/accepted-answer error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// ベストアンサーの取り消し
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // paramsを待機
+    const params = await context.params
+
+    const auth = await authorize(request, params.id)
+    if (!auth.user || !auth.question) {
+      return auth.response!
+    }
+
+    if (auth.question.status === QuestionStatus.RESOLVED) {
+      const transitionError = checkStatusTransition(auth.question, QuestionStatus.ANSWERED, auth.user)
+      if (transitionError) {
+        return transitionError
+      }
+    }
+
+    const result = await setAcceptedAnswer(params.id, null, auth.user)
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: result.error || 'Failed to unaccept answer'
+          }
+        },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      question: result.question
+    })
+
+  } catch (error) {
+    console.error('DELETE /api/questions/[id]/accepted-answer error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
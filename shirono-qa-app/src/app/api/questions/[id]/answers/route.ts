@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { validateSession } from '../../../../../lib/auth'
 import { createAnswer, getAnswersByQuestion, updateAnswer } from '../../../../../lib/answers'
-import { getQuestion, updateQuestionTimestamp } from '../../../../../lib/questions'
+import { getQuestion, setQuestionWatching, updateQuestionTimestamp } from '../../../../../lib/questions'
 import { sendNotificationEmail, EmailType } from '../../../../../lib/email'
+import { getWatcherRecipients } from '@/lib/watchers'
+import { notifyMentionedUsers } from '@/lib/mentions'
+import { verifyFileContent, FILE_SIGNATURE_LENGTH } from '@/lib/file-type'
+import { scanBuffer } from '@/lib/attachment-scan'
 import { User } from '@/types/auth'
 // import { getUsers } from '../../../../../lib/admin' // 未使用のため一時的にコメントアウト
 
@@ -143,6 +147,18 @@ export async function POST(
       )
     }
 
+    // 添付ファイルの形式を先頭バイトで検証（回答作成前に拒否する）
+    for (const file of attachmentFiles) {
+      const header = new Uint8Array(await file.slice(0, FILE_SIGNATURE_LENGTH).arrayBuffer())
+      const fileType = verifyFileContent(file.name, header, file.type)
+      if (!fileType.valid) {
+        return NextResponse.json(
+          { error: `File "${file.name}" was rejected: ${fileType.error}` },
+          { status: 400 }
+        )
+      }
+    }
+
     // 回答作成
     const answerResult = await createAnswer(body, questionId, validation.user.id)
     if (!answerResult.success) {
@@ -166,6 +182,7 @@ export async function POST(
         for (const file of attachmentFiles) {
           const bytes = await file.arrayBuffer()
           const buffer = Buffer.from(bytes)
+          const { contentType } = verifyFileContent(file.name, buffer, file.type)
           
           const metadata = {
             originalName: file.name,
@@ -183,7 +200,7 @@ export async function POST(
             filePath,
             uniqueFileName,
             buffer,
-            file.type,
+            contentType,
             metadata
           )
           
@@ -191,7 +208,8 @@ export async function POST(
             fileName: file.name, // 元のファイル名を保持
             blobUrl: uploadResult.blobUrl,
             size: uploadResult.fileSize,
-            contentType: file.type
+            contentType,
+            scan: await scanBuffer(buffer)
           })
         }
 
@@ -200,7 +218,8 @@ export async function POST(
           fileName: file.fileName,
           fileSize: file.size,
           blobUrl: file.blobUrl,
-          contentType: file.contentType || 'application/octet-stream'
+          contentType: file.contentType || 'application/octet-stream',
+          ...file.scan
         }))
 
         const currentAttachments = finalAnswer.attachments || []
@@ -223,32 +242,40 @@ export async function POST(
     // 質問の更新日時を更新
     await updateQuestionTimestamp(questionId)
 
-    // 投稿者にメール通知を送信（非同期、エラーが発生しても回答作成は成功とする）
+    // 回答者は自動でウォッチする
+    const watchResult = await setQuestionWatching(questionId, validation.user.id, true)
+    const question = watchResult.question ?? questionResult.question
+
+    // ウォッチャーにメール通知を送信（非同期、エラーが発生しても回答作成は成功とする）
     try {
-      // 投稿者を取得（IDで直接取得）
       const { getCosmosService } = await import('../../../../../lib/cosmos')
       const cosmosService = getCosmosService()
-      const questionAuthor = await cosmosService.getItem<User>('users', questionResult.question.authorId)
+      const questionAuthor = await cosmosService.getItem<User>('users', question.authorId)
+      // メンションされたユーザーにはメンションの通知のみ送る
+      const mentions = finalAnswer.mentions ?? []
+      const recipients = (await getWatcherRecipients(question, validation.user.id))
+        .filter(recipient => !mentions.includes(recipient.id))
 
-      if (questionAuthor) {
+      for (const recipient of recipients) {
         await sendNotificationEmail(
           EmailType.ANSWER_POSTED,
-          questionAuthor.email,
+          recipient.email,
           {
-            question: questionResult.question,
-            author: questionAuthor,
+            question,
+            author: questionAuthor ?? undefined,
             answerer: validation.user,
             answer: finalAnswer,
-            recipient: questionAuthor
+            recipient
           }
         )
-        // メール送信成功
       }
     } catch (emailError) {
       console.error('Failed to send answer notification email:', emailError)
       // メール送信エラーは回答作成の成功には影響しない
     }
 
+    await notifyMentionedUsers(question, { answer: finalAnswer }, validation.user)
+
     return NextResponse.json({
       success: true,
       answer: finalAnswer
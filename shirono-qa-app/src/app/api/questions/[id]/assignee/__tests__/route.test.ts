@@ -0,0 +1,156 @@
+import { NextRequest } from 'next/server'
+import { PUT, DELETE } from '../route'
+import { QuestionStatus, QuestionPriority } from '@/types/question'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+jest.mock('@/lib/openai', () => ({
+  embedText: jest.fn(),
+}))
+
+jest.mock('@/lib/email', () => ({
+  sendNotificationEmail: jest.fn().mockResolvedValue({ success: true }),
+  EmailType: { QUESTION_ASSIGNED: 'QUESTION_ASSIGNED' }
+}))
+
+import { validateSession } from '@/lib/auth'
+import { sendNotificationEmail } from '@/lib/email'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+const mockSendNotificationEmail = sendNotificationEmail as jest.MockedFunction<typeof sendNotificationEmail>
+
+const admin = {
+  id: 'admin-1',
+  username: 'admin',
+  email: 'admin@example.com',
+  groupId: 'group-admin',
+  isAdmin: true,
+  createdAt: new Date(),
+  lastLoginAt: null,
+}
+
+const author = { ...admin, id: 'user-123', username: 'author', email: 'author@example.com', groupId: 'group-ts-ai', isAdmin: false }
+
+const params = { params: Promise.resolve({ id: 'question-123' }) }
+
+const putAssignee = (assigneeId?: string) => PUT(new NextRequest('http://localhost:3000/api/questions/question-123/assignee', {
+  method: 'PUT',
+  body: JSON.stringify(assigneeId ? { assigneeId } : {}),
+  headers: {
+    'Content-Type': 'application/json',
+    Cookie: 'session=test-session-token'
+  }
+}), params)
+
+const deleteAssignee = () => DELETE(new NextRequest('http://localhost:3000/api/questions/question-123/assignee', {
+  method: 'DELETE',
+  headers: {
+    Cookie: 'session=test-session-token'
+  }
+}), params)
+
+describe('/api/questions/[id]/assignee', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('users', admin)
+    await testDataStore.createItem('users', { ...admin, id: 'admin-2', username: 'admin2', email: 'admin2@example.com' })
+    await testDataStore.createItem('users', author)
+    await testDataStore.createItem('questions', {
+      id: 'question-123',
+      title: 'Test Question',
+      content: 'Test content',
+      authorId: 'user-123',
+      groupId: 'group-ts-ai',
+      status: QuestionStatus.UNANSWERED,
+      priority: QuestionPriority.MEDIUM,
+      tags: [],
+      attachments: [],
+      createdAt: new Date('2024-01-15T10:00:00Z'),
+      updatedAt: new Date('2024-01-15T10:00:00Z'),
+    })
+
+    mockValidateSession.mockResolvedValue({ valid: true, user: admin })
+  })
+
+  describe('PUT', () => {
+    it('should assign the question and notify the new assignee', async () => {
+      const response = await putAssignee('admin-2')
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.question.assigneeId).toBe('admin-2')
+      expect(data.question.assignedAt).toBeDefined()
+      expect(mockSendNotificationEmail).toHaveBeenCalledWith(
+        'QUESTION_ASSIGNED',
+        'admin2@example.com',
+        expect.objectContaining({
+          assigner: expect.objectContaining({ id: 'admin-1' }),
+          author: expect.objectContaining({ username: 'author' })
+        })
+      )
+    })
+
+    it('should not notify when the assignee does not change or assigns themselves', async () => {
+      await putAssignee('admin-1')
+      await putAssignee('admin-2')
+      await putAssignee('admin-2')
+
+      expect(mockSendNotificationEmail).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject non-admin assignees', async () => {
+      const response = await putAssignee('user-123')
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error.code).toBe('VALIDATION_ERROR')
+    })
+
+    it('should require assigneeId', async () => {
+      const response = await putAssignee()
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should return 403 for non-admin users', async () => {
+      mockValidateSession.mockResolvedValue({ valid: true, user: author })
+
+      const response = await putAssignee('admin-1')
+      const data = await response.json()
+
+      expect(response.status).toBe(403)
+      expect(data.error.code).toBe('FORBIDDEN')
+    })
+
+    it('should return 404 for non-existent questions', async () => {
+      testDataStore.clear()
+
+      const response = await putAssignee('admin-1')
+
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('DELETE', () => {
+    it('should unassign the question', async () => {
+      await putAssignee('admin-2')
+
+      const response = await deleteAssignee()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.question.assigneeId).toBeUndefined()
+      expect(data.question.assignedAt).toBeUndefined()
+    })
+  })
+})
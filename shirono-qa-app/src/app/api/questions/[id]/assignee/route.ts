@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getQuestion, assignQuestion } from '@/lib/questions'
+import { sendNotificationEmail, EmailType } from '@/lib/email'
+import { getCosmosService } from '@/lib/cosmos'
+import { Question } from '@/types/question'
+import { User } from '@/types/auth'
+
+/**
+ * 認証と管理者権限を確認
+ */
+async function authorize(
+  request: NextRequest,
+  questionId: string
+): Promise<{ user?: User; question?: Question; response?: NextResponse }> {
+  const sessionToken = request.cookies.get('session')?.value
+  if (!sessionToken) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+  }
+
+  const authResult = await validateSession(sessionToken)
+  if (!authResult.valid || !authResult.user) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+  }
+
+  if (!authResult.user.isAdmin) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Admin access required'
+          }
+        },
+        { status: 403 }
+      )
+    }
+  }
+
+  const questionResult = await getQuestion(questionId)
+  if (!questionResult.success || !questionResult.question) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Question not found'
+          }
+        },
+        { status: 404 }
+      )
+    }
+  }
+
+  return { user: authResult.user, question: questionResult.question }
+}
+
+/**
+ * 新しい担当者へ割り当ての通知を送信（失敗しても割り当ては成功とする）
+ */
+async function notifyAssigned(question: Question, assignee: User, assigner: User) {
+  try {
+    const cosmosService = getCosmosService()
+    const questionAuthor = await cosmosService.getItem<User>('users', question.authorId)
+
+    await sendNotificationEmail(
+      EmailType.QUESTION_ASSIGNED,
+      assignee.email,
+      {
+        question,
+        author: questionAuthor ?? undefined,
+        assigner,
+        recipient: assignee
+      }
+    )
+  } catch (emailError) {
+    console.error('Failed to send assignment notification email:', emailError)
+  }
+}
+
+// 担当者の割り当て・変更（管理者のみ）
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // paramsを待機
+    const params = await context.params
+
+    const auth = await authorize(request, params.id)
+    if (!auth.user || !auth.question) {
+      return auth.response!
+    }
+
+    const body = await request.json()
+    const { assigneeId } = body
+
+    if (!assigneeId || typeof assigneeId !== 'string') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'assigneeId is required'
+          }
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await assignQuestion(params.id, assigneeId)
+    if (!result.success || !result.question || !result.assignee) {
+      const invalidAssignee = result.error === 'Assignee must be an admin user'
+      return NextResponse.json(
+        {
+          error: {
+            code: invalidAssignee ? 'VALIDATION_ERROR' : 'INTERNAL_ERROR',
+            message: result.error || 'Failed to assign question'
+          }
+        },
+        { status: invalidAssignee ? 400 : 500 }
+      )
+    }
+
+    // 担当者が変わった場合のみ通知（自分自身への割り当ては通知しない）
+    if (auth.question.assigneeId !== assigneeId && assigneeId !== auth.user.id) {
+      await notifyAssigned(result.question, result.assignee, auth.user)
+    }
+
+    return NextResponse.json({
+      success: true,
+      question: result.question
+    })
+
+  } catch (error) {
+    console.error('PUT /api/questions/[id]/assignee error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// 担当者の割り当て解除（管理者のみ）
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // paramsを待機
+    const params = await context.params
+
+    const auth = await authorize(request, params.id)
+    if (!auth.user || !auth.question) {
+      return auth.response!
+    }
+
+    const result = await assignQuestion(params.id, null)
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: result.error || 'Failed to unassign question'
+          }
+        },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      question: result.question
+    })
+
+  } catch (error) {
+    console.error('DELETE /api/questions/[id]/assignee error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { validateSession } from '@/lib/auth'
 import { getQuestion, updateQuestion } from '@/lib/questions'
+import { claimPendingUploads } from '@/lib/pending-uploads'
+import { scanStoredAttachment } from '@/lib/attachment-scan'
+import { createAttachmentId } from '@/lib/attachment-id'
+import { getErrorStatus } from '@/lib/errors'
+import { Attachment } from '@/types/question'
 
 interface AttachFileRequest {
   files: Array<{
@@ -91,13 +96,32 @@ export async function POST(
       )
     }
 
-    // 添付ファイル情報の準備
-    const attachments = files.map(file => ({
-      fileName: file.fileName,
-      fileSize: file.size,
-      blobUrl: file.blobUrl,
-      contentType: file.contentType || 'application/octet-stream'
-    }))
+    // 添付前ファイルを確定（一時パスのファイルは質問のパスへ移動）
+    const claimResult = await claimPendingUploads(authResult.user, params.id, files)
+    if (!claimResult.success || !claimResult.files) {
+      return NextResponse.json(
+        { 
+          error: { 
+            code: claimResult.error?.code || 'INTERNAL_ERROR', 
+            message: claimResult.error?.message || 'Failed to attach files' 
+          } 
+        },
+        { status: claimResult.error ? getErrorStatus(claimResult.error.code) : 500 }
+      )
+    }
+
+    // 添付ファイル情報の準備（マルウェアスキャンの結果を記録）
+    const attachments: Attachment[] = []
+    for (const file of claimResult.files) {
+      attachments.push({
+        id: createAttachmentId(),
+        fileName: file.fileName,
+        fileSize: file.size,
+        blobUrl: file.blobUrl,
+        contentType: file.contentType || 'application/octet-stream',
+        ...(await scanStoredAttachment(file.blobUrl))
+      })
+    }
     
 
     // 既存の添付ファイルと合わせる
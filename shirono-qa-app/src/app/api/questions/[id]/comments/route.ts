@@ -3,7 +3,10 @@ import { validateSession } from '../../../../../lib/auth'
 import { createComment, getCommentsByQuestion, updateComment } from '../../../../../lib/answers'
 import { getQuestion, updateQuestionTimestamp } from '../../../../../lib/questions'
 import { sendNotificationEmail, EmailType } from '../../../../../lib/email'
-import { getUsers } from '../../../../../lib/admin'
+import { getWatcherRecipients } from '@/lib/watchers'
+import { notifyMentionedUsers } from '@/lib/mentions'
+import { verifyFileContent, FILE_SIGNATURE_LENGTH } from '@/lib/file-type'
+import { scanBuffer } from '@/lib/attachment-scan'
 import { User } from '@/types/auth'
 
 export async function GET(
@@ -102,6 +105,7 @@ export async function POST(
     // FormDataを解析
     const formData = await request.formData()
     const content = formData.get('content') as string
+    const parentCommentId = formData.get('parentCommentId') as string | null
     const fileCount = parseInt(formData.get('fileCount') as string || '0')
     
     // ファイルを収集
@@ -115,6 +119,7 @@ export async function POST(
     
     const body = {
       content,
+      ...(parentCommentId && { parentCommentId }),
       attachments: attachmentFiles
     }
 
@@ -135,6 +140,18 @@ export async function POST(
       )
     }
 
+    // 添付ファイルの形式を先頭バイトで検証（コメント作成前に拒否する）
+    for (const file of attachmentFiles) {
+      const header = new Uint8Array(await file.slice(0, FILE_SIGNATURE_LENGTH).arrayBuffer())
+      const fileType = verifyFileContent(file.name, header, file.type)
+      if (!fileType.valid) {
+        return NextResponse.json(
+          { error: `File "${file.name}" was rejected: ${fileType.error}` },
+          { status: 400 }
+        )
+      }
+    }
+
     // コメント作成
     const commentResult = await createComment(body, questionId, validation.user.id)
     if (!commentResult.success) {
@@ -158,6 +175,7 @@ export async function POST(
         for (const file of attachmentFiles) {
           const bytes = await file.arrayBuffer()
           const buffer = Buffer.from(bytes)
+          const { contentType } = verifyFileContent(file.name, buffer, file.type)
           
           const metadata = {
             originalName: file.name,
@@ -175,7 +193,7 @@ export async function POST(
             filePath,
             uniqueFileName,
             buffer,
-            file.type,
+            contentType,
             metadata
           )
           
@@ -183,7 +201,8 @@ export async function POST(
             fileName: file.name, // 元のファイル名を保持
             blobUrl: uploadResult.blobUrl,
             size: uploadResult.fileSize,
-            contentType: file.type
+            contentType,
+            scan: await scanBuffer(buffer)
           })
         }
 
@@ -192,7 +211,8 @@ export async function POST(
           fileName: file.fileName,
           fileSize: file.size,
           blobUrl: file.blobUrl,
-          contentType: file.contentType || 'application/octet-stream'
+          contentType: file.contentType || 'application/octet-stream',
+          ...file.scan
         }))
 
         const currentAttachments = finalComment.attachments || []
@@ -215,50 +235,36 @@ export async function POST(
     // 質問の更新日時を更新
     await updateQuestionTimestamp(questionId)
 
-    // メール通知を送信（非同期、エラーが発生してもコメント作成は成功とする）
+    // ウォッチャーにメール通知を送信（非同期、エラーが発生してもコメント作成は成功とする）
     try {
-      // 通知対象者を特定
-      const notificationTargets: Array<{email: string, user: User}> = []
-      
-      // 1. 質問の投稿者を取得（コメント投稿者でない場合のみ）
       const { getCosmosService } = await import('../../../../../lib/cosmos')
       const cosmosService = getCosmosService()
       const questionAuthor = await cosmosService.getItem<User>('users', questionResult.question.authorId)
+      // メンションされたユーザーにはメンションの通知のみ送る
+      const mentions = finalComment.mentions ?? []
+      const recipients = (await getWatcherRecipients(questionResult.question, validation.user.id))
+        .filter(recipient => !mentions.includes(recipient.id))
 
-      if (questionAuthor && questionAuthor.id !== validation.user.id) {
-        notificationTargets.push({ email: questionAuthor.email, user: questionAuthor })
-      }
-      
-      // 2. 管理者を取得（コメント投稿者でない場合のみ）
-      const adminUsersResult = await getUsers({ isAdmin: true })
-      if (adminUsersResult.success && adminUsersResult.users) {
-        for (const admin of adminUsersResult.users) {
-          if (admin.id !== validation.user.id && !notificationTargets.some(target => target.user.id === admin.id)) {
-            notificationTargets.push({ email: admin.email, user: admin })
-          }
-        }
-      }
-      
-      // 各対象者に通知メールを送信
-      for (const target of notificationTargets) {
+      for (const recipient of recipients) {
         await sendNotificationEmail(
           EmailType.COMMENT_POSTED,
-          target.email,
+          recipient.email,
           {
             question: questionResult.question,
             author: questionAuthor ?? undefined,
             commenter: validation.user,
             comment: finalComment,
-            recipient: target.user
+            recipient
           }
         )
-        // コメント通知メール送信成功
       }
     } catch (emailError) {
       console.error('Failed to send comment notification email:', emailError)
       // メール送信エラーはコメント作成の成功には影響しない
     }
 
+    await notifyMentionedUsers(questionResult.question, { comment: finalComment }, validation.user)
+
     return NextResponse.json({
       success: true,
       comment: finalComment
@@ -0,0 +1,107 @@
+import { NextRequest } from 'next/server'
+import { POST } from '../route'
+import { QuestionStatus, QuestionPriority } from '@/types/question'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+jest.mock('@/lib/email', () => ({
+  sendNotificationEmail: jest.fn().mockResolvedValue({ success: true }),
+  EmailType: { QUESTION_DUPLICATE: 'QUESTION_DUPLICATE' }
+}))
+
+import { validateSession } from '@/lib/auth'
+import { sendNotificationEmail } from '@/lib/email'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+const mockSendNotificationEmail = sendNotificationEmail as jest.MockedFunction<typeof sendNotificationEmail>
+
+const admin = {
+  id: 'admin-1',
+  username: 'admin',
+  email: 'admin@example.com',
+  groupId: 'group-admin',
+  isAdmin: true,
+  createdAt: new Date(),
+  lastLoginAt: null,
+}
+
+const author = { ...admin, id: 'user-123', username: 'author', email: 'author@example.com', groupId: 'group-ts-ai', isAdmin: false }
+
+const question = (id: string, title: string, groupId = 'group-ts-ai') => ({
+  id,
+  title,
+  content: 'Test content',
+  authorId: 'user-123',
+  groupId,
+  status: QuestionStatus.UNANSWERED,
+  priority: QuestionPriority.MEDIUM,
+  tags: [],
+  attachments: [],
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+  updatedAt: new Date('2024-01-15T10:00:00Z'),
+})
+
+const postDuplicate = (body: unknown) => POST(new NextRequest('http://localhost:3000/api/questions/question-2/duplicate', {
+  method: 'POST',
+  body: JSON.stringify(body),
+  headers: {
+    'Content-Type': 'application/json',
+    Cookie: 'session=test-session-token'
+  }
+}), { params: Promise.resolve({ id: 'question-2' }) })
+
+describe('/api/questions/[id]/duplicate', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('users', admin)
+    await testDataStore.createItem('users', author)
+    await testDataStore.createItem('questions', question('question-1', 'Original Question'))
+    await testDataStore.createItem('questions', question('question-2', 'Duplicate Question'))
+    mockValidateSession.mockResolvedValue({ valid: true, user: admin })
+  })
+
+  it('should close the question as a duplicate and notify the author', async () => {
+    const response = await postDuplicate({ originalId: 'question-1' })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.question.status).toBe(QuestionStatus.CLOSED)
+    expect(data.question.duplicateOfId).toBe('question-1')
+    expect(mockSendNotificationEmail).toHaveBeenCalledWith(
+      'QUESTION_DUPLICATE',
+      'author@example.com',
+      expect.objectContaining({
+        original: expect.objectContaining({ id: 'question-1' }),
+        closer: admin
+      })
+    )
+  })
+
+  it('should reject originals the author cannot access', async () => {
+    await testDataStore.createItem('questions', { ...question('question-3', 'Other Group'), authorId: 'admin-1', groupId: 'group-other' })
+
+    const response = await postDuplicate({ originalId: 'question-3' })
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error.message).toBe('The author cannot access the original question')
+    expect(mockSendNotificationEmail).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 for unknown originals and 403 for non-admin users', async () => {
+    expect((await postDuplicate({ originalId: 'missing' })).status).toBe(404)
+    expect((await postDuplicate({})).status).toBe(400)
+
+    mockValidateSession.mockResolvedValue({ valid: true, user: author })
+    expect((await postDuplicate({ originalId: 'question-1' })).status).toBe(403)
+  })
+})
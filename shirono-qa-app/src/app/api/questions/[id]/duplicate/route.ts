@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { markQuestionAsDuplicate } from '@/lib/questions'
+import { sendNotificationEmail, EmailType } from '@/lib/email'
+import { getCosmosService } from '@/lib/cosmos'
+import { getWatcherRecipients } from '@/lib/watchers'
+import { Question } from '@/types/question'
+import { User } from '@/types/auth'
+
+/**
+ * ウォッチャーへ重複としてクローズしたことを通知（失敗してもクローズは成功とする）
+ */
+async function notifyDuplicate(question: Question, original: Question, closer: User) {
+  try {
+    const cosmosService = getCosmosService()
+    const questionAuthor = await cosmosService.getItem<User>('users', question.authorId)
+    const recipients = await getWatcherRecipients(question)
+
+    for (const recipient of recipients) {
+      await sendNotificationEmail(
+        EmailType.QUESTION_DUPLICATE,
+        recipient.email,
+        {
+          question,
+          original,
+          author: questionAuthor ?? undefined,
+          closer,
+          recipient
+        }
+      )
+    }
+  } catch (emailError) {
+    console.error('Failed to send duplicate notification email:', emailError)
+  }
+}
+
+// 重複としてクローズ（管理者のみ）
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // paramsを待機
+    const params = await context.params
+
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    if (!authResult.user.isAdmin) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Admin access required'
+          }
+        },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { originalId } = body
+
+    if (!originalId || typeof originalId !== 'string') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'originalId is required'
+          }
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await markQuestionAsDuplicate(params.id, originalId, authResult.user)
+    if (!result.success || !result.question || !result.original) {
+      const message = result.error || 'Failed to mark question as duplicate'
+      const notFound = message === 'Question not found' || message === 'Original question not found'
+      const internal = message === 'Failed to mark question as duplicate'
+      return NextResponse.json(
+        {
+          error: {
+            code: notFound ? 'NOT_FOUND' : internal ? 'INTERNAL_ERROR' : 'VALIDATION_ERROR',
+            message
+          }
+        },
+        { status: notFound ? 404 : internal ? 500 : 400 }
+      )
+    }
+
+    // 自分の質問を自分でクローズした場合は通知しない
+    if (result.question.authorId !== authResult.user.id) {
+      await notifyDuplicate(result.question, result.original, authResult.user)
+    }
+
+    return NextResponse.json({
+      success: true,
+      question: result.question,
+      original: result.original
+    })
+
+  } catch (error) {
+    console.error('POST /api/questions/[id]/duplicate error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server'
+import { PUT } from '../route'
+import { QuestionStatus, QuestionPriority } from '@/types/question'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+import { validateSession } from '@/lib/auth'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+
+const admin = {
+  id: 'admin-1',
+  username: 'admin',
+  email: 'admin@example.com',
+  groupId: 'group-admin',
+  isAdmin: true,
+  createdAt: new Date(),
+  lastLoginAt: null,
+}
+
+const putGroup = (body: unknown) => PUT(new NextRequest('http://localhost:3000/api/questions/question-123/group', {
+  method: 'PUT',
+  body: JSON.stringify(body),
+  headers: {
+    'Content-Type': 'application/json',
+    Cookie: 'session=test-session-token'
+  }
+}), { params: Promise.resolve({ id: 'question-123' }) })
+
+describe('/api/questions/[id]/group', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('groups', { id: 'group-new', name: 'New Group', description: '', createdAt: new Date() })
+    await testDataStore.createItem('questions', {
+      id: 'question-123',
+      title: 'Test Question',
+      content: 'Test content',
+      authorId: 'user-123',
+      groupId: 'group-ts-ai',
+      status: QuestionStatus.UNANSWERED,
+      priority: QuestionPriority.MEDIUM,
+      tags: [],
+      attachments: [],
+      createdAt: new Date('2024-01-15T10:00:00Z'),
+      updatedAt: new Date('2024-01-15T10:00:00Z'),
+    })
+    mockValidateSession.mockResolvedValue({ valid: true, user: admin })
+  })
+
+  it('should move the question to the group', async () => {
+    const deleteSpy = jest.spyOn(mockCosmosService, 'deleteItem').mockResolvedValueOnce(undefined)
+
+    const response = await putGroup({ groupId: 'group-new' })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.question).toEqual(expect.objectContaining({ id: 'question-123', groupId: 'group-new' }))
+    expect(deleteSpy).toHaveBeenCalledWith('questions', 'question-123', 'group-ts-ai')
+
+    deleteSpy.mockRestore()
+  })
+
+  it('should return 404 for unknown groups and 403 for non-admin users', async () => {
+    expect((await putGroup({ groupId: 'missing' })).status).toBe(404)
+    expect((await putGroup({})).status).toBe(400)
+
+    mockValidateSession.mockResolvedValue({ valid: true, user: { ...admin, isAdmin: false } })
+    expect((await putGroup({ groupId: 'group-new' })).status).toBe(403)
+  })
+})
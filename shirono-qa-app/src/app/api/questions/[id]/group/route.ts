@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { moveQuestionToGroup } from '@/lib/questions'
+
+// 質問を別のグループへ移動（管理者のみ）
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // paramsを待機
+    const params = await context.params
+
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    if (!authResult.user.isAdmin) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Admin access required'
+          }
+        },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { groupId } = body
+
+    if (!groupId || typeof groupId !== 'string') {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'groupId is required'
+          }
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await moveQuestionToGroup(params.id, groupId, authResult.user)
+    if (!result.success || !result.question) {
+      const message = result.error || 'Failed to move question'
+      const notFound = message === 'Question not found' || message === 'Group not found'
+      const invalid = message === 'Question is already in the group'
+      return NextResponse.json(
+        {
+          error: {
+            code: notFound ? 'NOT_FOUND' : invalid ? 'VALIDATION_ERROR' : 'INTERNAL_ERROR',
+            message
+          }
+        },
+        { status: notFound ? 404 : invalid ? 400 : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      question: result.question
+    })
+
+  } catch (error) {
+    console.error('PUT /api/questions/[id]/group error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
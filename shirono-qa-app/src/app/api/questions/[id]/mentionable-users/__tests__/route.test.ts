@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server'
+import { GET } from '../route'
+import { QuestionStatus, QuestionPriority } from '@/types/question'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+import { validateSession } from '@/lib/auth'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+
+const member = {
+  id: 'member-1',
+  username: 'member',
+  email: 'member@example.com',
+  groupId: 'group-ts-ai',
+  isAdmin: false,
+  createdAt: new Date(),
+  lastLoginAt: null,
+}
+
+const getUsers = (query: string) => GET(new NextRequest(`http://localhost:3000/api/questions/question-123/mentionable-users?q=${query}`, {
+  headers: {
+    Cookie: 'session=test-session-token'
+  }
+}), { params: Promise.resolve({ id: 'question-123' }) })
+
+describe('/api/questions/[id]/mentionable-users', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('questions', {
+      id: 'question-123',
+      title: 'Test Question',
+      content: 'Test content',
+      authorId: 'member-1',
+      groupId: 'group-ts-ai',
+      status: QuestionStatus.UNANSWERED,
+      priority: QuestionPriority.MEDIUM,
+      tags: [],
+      attachments: [],
+      createdAt: new Date('2024-01-15T10:00:00Z'),
+      updatedAt: new Date('2024-01-15T10:00:00Z'),
+    })
+    await testDataStore.createItem('users', member)
+    await testDataStore.createItem('users', { ...member, id: 'member-2', username: 'mentee', email: 'mentee@example.com' })
+    await testDataStore.createItem('users', { ...member, id: 'other-1', username: 'meteor', groupId: 'group-other' })
+    mockValidateSession.mockResolvedValue({ valid: true, user: member })
+  })
+
+  it('should return matching users who can access the question', async () => {
+    const response = await getUsers('me')
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.users).toEqual([
+      { id: 'member-1', username: 'member' },
+      { id: 'member-2', username: 'mentee' }
+    ])
+  })
+
+  it('should reject users who cannot access the question', async () => {
+    mockValidateSession.mockResolvedValue({ valid: true, user: { ...member, id: 'other-1', groupId: 'group-other' } })
+
+    expect((await getUsers('me')).status).toBe(403)
+  })
+})
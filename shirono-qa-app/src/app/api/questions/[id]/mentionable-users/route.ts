@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getQuestion } from '@/lib/questions'
+import { getMentionableUsers } from '@/lib/mentions'
+import { canAccessQuestion } from '@/lib/access-control'
+import { User } from '@/types/auth'
+import { Question } from '@/types/question'
+
+/**
+ * 認証と質問の閲覧権限を確認
+ */
+async function authorize(
+  request: NextRequest,
+  questionId: string
+): Promise<{ user?: User; question?: Question; response?: NextResponse }> {
+  const sessionToken = request.cookies.get('session')?.value
+  if (!sessionToken) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+  }
+
+  const authResult = await validateSession(sessionToken)
+  if (!authResult.valid || !authResult.user) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+  }
+
+  const questionResult = await getQuestion(questionId)
+  if (!questionResult.success || !questionResult.question) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Question not found'
+          }
+        },
+        { status: 404 }
+      )
+    }
+  }
+
+  if (!canAccessQuestion(authResult.user, questionResult.question)) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Access denied'
+          }
+        },
+        { status: 403 }
+      )
+    }
+  }
+
+  return { user: authResult.user, question: questionResult.question }
+}
+
+// メンションの入力補完の候補（質問を閲覧できるユーザーのみ）
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+
+    const auth = await authorize(request, params.id)
+    if (auth.response || !auth.question) {
+      return auth.response!
+    }
+
+    const search = request.nextUrl.searchParams.get('q')?.trim() || ''
+    const users = await getMentionableUsers(auth.question, search)
+
+    return NextResponse.json({
+      success: true,
+      users
+    })
+  } catch (error) {
+    console.error('GET /api/questions/[id]/mentionable-users error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest } from 'next/server'
+import { GET, POST } from '../route'
+import { QuestionStatus, QuestionPriority } from '@/types/question'
+import { updateQuestion } from '@/lib/questions'
+import { getRevisions } from '@/lib/revisions'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+jest.mock('@/lib/openai', () => ({
+  embedText: jest.fn(),
+}))
+
+import { validateSession } from '@/lib/auth'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+
+const admin = {
+  id: 'admin-1',
+  username: 'admin',
+  email: 'admin@example.com',
+  groupId: 'group-admin',
+  isAdmin: true,
+  createdAt: new Date(),
+  lastLoginAt: null,
+}
+
+const author = { ...admin, id: 'user-123', username: 'author', email: 'author@example.com', groupId: 'group-ts-ai', isAdmin: false }
+const outsider = { ...author, id: 'user-456', username: 'outsider', groupId: 'group-other' }
+
+const params = { params: Promise.resolve({ id: 'question-123' }) }
+
+const getHistory = () => GET(new NextRequest('http://localhost:3000/api/questions/question-123/revisions', {
+  headers: {
+    Cookie: 'session=test-session-token'
+  }
+}), params)
+
+const postRollback = (revisionId: string) => POST(new NextRequest('http://localhost:3000/api/questions/question-123/revisions', {
+  method: 'POST',
+  body: JSON.stringify({ revisionId }),
+  headers: {
+    'Content-Type': 'application/json',
+    Cookie: 'session=test-session-token'
+  }
+}), params)
+
+describe('/api/questions/[id]/revisions', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('questions', {
+      id: 'question-123',
+      title: 'Test Question',
+      content: 'Original content',
+      authorId: 'user-123',
+      groupId: 'group-ts-ai',
+      status: QuestionStatus.UNANSWERED,
+      priority: QuestionPriority.MEDIUM,
+      tags: [],
+      attachments: [],
+      createdAt: new Date('2024-01-15T10:00:00Z'),
+      updatedAt: new Date('2024-01-15T10:00:00Z'),
+    })
+    await updateQuestion('question-123', { content: 'Edited content' }, author)
+  })
+
+  describe('GET', () => {
+    it('should return revisions to group members', async () => {
+      mockValidateSession.mockResolvedValue({ valid: true, user: author })
+
+      const response = await getHistory()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.revisions.map((revision: { content: string }) => revision.content))
+        .toEqual(['Original content', 'Edited content'])
+    })
+
+    it('should reject users outside the question group', async () => {
+      mockValidateSession.mockResolvedValue({ valid: true, user: outsider })
+
+      const response = await getHistory()
+
+      expect(response.status).toBe(403)
+    })
+
+    it('should return revisions to the author of a question moved to another group', async () => {
+      mockValidateSession.mockResolvedValue({ valid: true, user: { ...author, groupId: 'group-other' } })
+
+      const response = await getHistory()
+
+      expect(response.status).toBe(200)
+    })
+  })
+
+  describe('POST', () => {
+    it('should only allow admins to roll back', async () => {
+      mockValidateSession.mockResolvedValue({ valid: true, user: author })
+      const original = (await getRevisions('question', 'question-123')).revisions![0]
+
+      const response = await postRollback(original.id)
+      const data = await response.json()
+
+      expect(response.status).toBe(403)
+      expect(data.error.code).toBe('FORBIDDEN')
+    })
+
+    it('should roll back to the selected revision', async () => {
+      mockValidateSession.mockResolvedValue({ valid: true, user: admin })
+      const original = (await getRevisions('question', 'question-123')).revisions![0]
+
+      const response = await postRollback(original.id)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.question.content).toBe('Original content')
+      expect((await getRevisions('question', 'question-123')).revisions).toHaveLength(3)
+    })
+
+    it('should return 404 for an unknown revision', async () => {
+      mockValidateSession.mockResolvedValue({ valid: true, user: admin })
+
+      const response = await postRollback('missing')
+
+      expect(response.status).toBe(404)
+    })
+  })
+})
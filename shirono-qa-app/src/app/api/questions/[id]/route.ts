@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { validateSession } from '@/lib/auth'
 import { getQuestion, updateQuestion, deleteQuestion, validateQuestionData } from '@/lib/questions'
+import { omitContentVector } from '@/lib/search'
 import { sendNotificationEmail, EmailType } from '@/lib/email'
-import { getUsers } from '@/lib/admin'
+import { getWatcherRecipients } from '@/lib/watchers'
+import { validateStatusTransition } from '@/lib/question-status'
+import { getErrorStatus } from '@/lib/errors'
 import { QuestionStatus } from '@/types/question'
 import { User } from '@/types/auth'
 
@@ -74,7 +77,7 @@ export async function GET(
 
     return NextResponse.json({
       success: true,
-      question
+      question: omitContentVector(question)
     })
 
   } catch (error) {
@@ -144,7 +147,7 @@ export async function PUT(
 
     // リクエストボディ取得
     const body = await request.json()
-    const { title, content, priority, status } = body
+    const { title, content, priority, requestType, requestFields, tags, status, statusReason } = body
 
     // 権限チェック
     const isAdmin = authResult.user.isAdmin
@@ -152,7 +155,8 @@ export async function PUT(
     const isGroupMember = existingQuestion.groupId === authResult.user.groupId
 
     // ステータス変更のみの場合は同じグループのユーザーも許可
-    const isStatusOnlyUpdate = status !== undefined && title === undefined && content === undefined && priority === undefined
+    const isStatusOnlyUpdate = status !== undefined && title === undefined && content === undefined && priority === undefined &&
+      requestType === undefined && requestFields === undefined && tags === undefined
 
     if (!isAdmin && !isAuthor && !(isGroupMember && isStatusOnlyUpdate)) {
       return NextResponse.json(
@@ -168,6 +172,22 @@ export async function PUT(
       )
     }
 
+    // ステータス遷移の検証（遷移表で許可された立場のみ変更できる）
+    if (status !== undefined) {
+      const transition = validateStatusTransition(existingQuestion, status, authResult.user)
+      if (!transition.valid) {
+        return NextResponse.json(
+          {
+            error: {
+              code: transition.error!.code,
+              message: transition.error!.message
+            }
+          },
+          { status: getErrorStatus(transition.error!.code) }
+        )
+      }
+    }
+
     // 更新データの検証
     if (title !== undefined || content !== undefined || priority !== undefined) {
       const validation = validateQuestionData({
@@ -194,18 +214,24 @@ export async function PUT(
     if (title !== undefined) updateData.title = title
     if (content !== undefined) updateData.content = content
     if (priority !== undefined) updateData.priority = priority
+    if (requestType !== undefined) updateData.requestType = requestType
+    if (requestFields !== undefined) updateData.requestFields = requestFields
+    if (tags !== undefined) updateData.tags = tags
     if (status !== undefined) updateData.status = status
+    if (statusReason !== undefined) updateData.statusReason = statusReason
 
-    const result = await updateQuestion(params.id, updateData)
+    const result = await updateQuestion(params.id, updateData, authResult.user)
     if (!result.success) {
+      // 種別ごとの入力項目・タグは updateQuestion で検証
+      const isValidationError = result.error?.startsWith('Invalid question data') ?? false
       return NextResponse.json(
         {
           error: {
-            code: 'INTERNAL_ERROR',
+            code: isValidationError ? 'VALIDATION_ERROR' : 'INTERNAL_ERROR',
             message: result.error || 'Failed to update question'
           }
         },
-        { status: 500 }
+        { status: isValidationError ? 400 : 500 }
       )
     }
 
@@ -221,41 +247,20 @@ export async function PUT(
           ? EmailType.QUESTION_RESOLVED 
           : EmailType.QUESTION_REJECTED
 
-        // 質問投稿者への通知
-        if (questionAuthor) {
+        // ウォッチャーへの通知（ステータスを変更した本人には送らない）
+        const recipients = await getWatcherRecipients(result.question!, authResult.user.id)
+        for (const recipient of recipients) {
           await sendNotificationEmail(
             emailType,
-            questionAuthor.email,
+            recipient.email,
             {
               question: result.question!,
-              author: questionAuthor,
+              author: questionAuthor ?? undefined,
               resolver: status === QuestionStatus.RESOLVED ? authResult.user : undefined,
               rejector: status === QuestionStatus.REJECTED ? authResult.user : undefined,
-              recipient: questionAuthor
+              recipient
             }
           )
-          // ステータス変更通知メール送信成功
-        }
-
-        // 管理者への通知（ステータス変更者が管理者でない場合のみ）
-        if (!authResult.user.isAdmin) {
-          const adminUsersResult = await getUsers({ isAdmin: true })
-          if (adminUsersResult.success && adminUsersResult.users) {
-            for (const admin of adminUsersResult.users) {
-              await sendNotificationEmail(
-                emailType,
-                admin.email,
-                {
-                  question: result.question!,
-                  author: questionAuthor ?? undefined,
-                  resolver: status === QuestionStatus.RESOLVED ? authResult.user : undefined,
-                  rejector: status === QuestionStatus.REJECTED ? authResult.user : undefined,
-                  recipient: admin
-                }
-              )
-              // 管理者への通知メール送信成功
-            }
-          }
         }
       } catch (emailError) {
         console.error('Failed to send status change notification email:', emailError)
@@ -0,0 +1,77 @@
+import { NextRequest } from 'next/server'
+import { POST, DELETE } from '../route'
+import { QuestionStatus, QuestionPriority } from '@/types/question'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+import { validateSession } from '@/lib/auth'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+
+const member = {
+  id: 'member-1',
+  username: 'member',
+  email: 'member@example.com',
+  groupId: 'group-ts-ai',
+  isAdmin: false,
+  createdAt: new Date(),
+  lastLoginAt: null,
+}
+
+const createRequest = (method: string) => new NextRequest('http://localhost:3000/api/questions/question-123/watch', {
+  method,
+  headers: {
+    Cookie: 'session=test-session-token'
+  }
+})
+const context = { params: Promise.resolve({ id: 'question-123' }) }
+
+describe('/api/questions/[id]/watch', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('questions', {
+      id: 'question-123',
+      title: 'Test Question',
+      content: 'Test content',
+      authorId: 'user-123',
+      groupId: 'group-ts-ai',
+      status: QuestionStatus.UNANSWERED,
+      priority: QuestionPriority.MEDIUM,
+      tags: [],
+      attachments: [],
+      watcherIds: ['user-123'],
+      createdAt: new Date('2024-01-15T10:00:00Z'),
+      updatedAt: new Date('2024-01-15T10:00:00Z'),
+    })
+    mockValidateSession.mockResolvedValue({ valid: true, user: member })
+  })
+
+  it('should watch and unwatch the question', async () => {
+    const watchResponse = await POST(createRequest('POST'), context)
+    expect(watchResponse.status).toBe(200)
+    expect((await watchResponse.json()).question.watcherIds).toEqual(['user-123', 'member-1'])
+
+    const unwatchResponse = await DELETE(createRequest('DELETE'), context)
+    expect(unwatchResponse.status).toBe(200)
+    expect((await unwatchResponse.json()).question.watcherIds).toEqual(['user-123'])
+  })
+
+  it('should reject users who cannot access the question', async () => {
+    mockValidateSession.mockResolvedValue({ valid: true, user: { ...member, groupId: 'group-other' } })
+
+    const response = await POST(createRequest('POST'), context)
+
+    expect(response.status).toBe(403)
+    expect(testDataStore.getContainer('questions').get('question-123')?.watcherIds).toEqual(['user-123'])
+  })
+})
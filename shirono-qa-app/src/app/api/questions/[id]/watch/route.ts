@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getQuestion, setQuestionWatching } from '@/lib/questions'
+import { canAccessQuestion } from '@/lib/access-control'
+import { User } from '@/types/auth'
+
+/**
+ * 認証と質問の閲覧権限を確認
+ */
+async function authorize(
+  request: NextRequest,
+  questionId: string
+): Promise<{ user?: User; response?: NextResponse }> {
+  const sessionToken = request.cookies.get('session')?.value
+  if (!sessionToken) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+  }
+
+  const authResult = await validateSession(sessionToken)
+  if (!authResult.valid || !authResult.user) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+  }
+
+  const questionResult = await getQuestion(questionId)
+  if (!questionResult.success || !questionResult.question) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Question not found'
+          }
+        },
+        { status: 404 }
+      )
+    }
+  }
+
+  if (!canAccessQuestion(authResult.user, questionResult.question)) {
+    return {
+      response: NextResponse.json(
+        {
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Access denied'
+          }
+        },
+        { status: 403 }
+      )
+    }
+  }
+
+  return { user: authResult.user }
+}
+
+async function updateWatching(request: NextRequest, questionId: string, watching: boolean) {
+  const auth = await authorize(request, questionId)
+  if (auth.response || !auth.user) {
+    return auth.response!
+  }
+
+  const result = await setQuestionWatching(questionId, auth.user.id, watching)
+  if (!result.success || !result.question) {
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: result.error || 'Failed to update question watchers'
+        }
+      },
+      { status: 500 }
+    )
+  }
+
+  return NextResponse.json({
+    success: true,
+    question: result.question
+  })
+}
+
+// 質問をウォッチ
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    return await updateWatching(request, params.id, true)
+  } catch (error) {
+    console.error('POST /api/questions/[id]/watch error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// 質問のウォッチを解除
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const params = await context.params
+    return await updateWatching(request, params.id, false)
+  } catch (error) {
+    console.error('DELETE /api/questions/[id]/watch error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -14,6 +14,7 @@ jest.mock('@/lib/auth', () => ({
 
 jest.mock('@/lib/openai', () => ({
   generateTags: jest.fn(),
+  embedText: jest.fn().mockResolvedValue([0.1, 0.2, 0.3]),
 }))
 
 import { validateSession } from '@/lib/auth'
@@ -2,9 +2,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { validateSession } from '@/lib/auth'
 import { getQuestions, createQuestion, validateQuestionData } from '@/lib/questions'
 import { generateTags } from '@/lib/openai'
-import { QuestionStatus, QuestionPriority } from '@/types/question'
+import { QuestionStatus, QuestionPriority, RequestType } from '@/types/question'
 import { sendNotificationEmail, EmailType } from '@/lib/email'
 import { getUsers } from '@/lib/admin'
+import { getAutoAssignee } from '@/lib/assignment'
+import { getUserByUsername } from '@/lib/database'
 
 export async function GET(request: NextRequest) {
   try {
@@ -42,6 +44,11 @@ export async function GET(request: NextRequest) {
     const statusParam = searchParams.get('status')
     const priorityParam = searchParams.get('priority')
     const search = searchParams.get('search')
+    const requestTypeParam = searchParams.get('requestType')
+    const tagParam = searchParams.get('tag')
+    const assigneeParam = searchParams.get('assignee')
+    const authorParam = searchParams.get('author')
+    const sortParam = searchParams.get('sort')
 
     // 型変換（複数ステータス対応）
     let statusArray: QuestionStatus[] | undefined
@@ -64,6 +71,20 @@ export async function GET(request: NextRequest) {
     const priority = priorityParam && Object.values(QuestionPriority).includes(priorityParam as QuestionPriority)
       ? (priorityParam as QuestionPriority)
       : undefined
+    const requestType = requestTypeParam && Object.values(RequestType).includes(requestTypeParam as RequestType)
+      ? (requestTypeParam as RequestType)
+      : undefined
+
+    // 投稿者（メンションのリンクから開いた場合）はユーザー名で指定する
+    const author = authorParam?.trim() ? await getUserByUsername(authorParam.trim()) : null
+    if (authorParam?.trim() && !author) {
+      return NextResponse.json({
+        success: true,
+        questions: [],
+        total: 0,
+        page
+      })
+    }
 
     // 質問データ取得
     const queryData = {
@@ -72,7 +93,14 @@ export async function GET(request: NextRequest) {
       groupId: authResult.user.isAdmin ? undefined : authResult.user.groupId,
       statusArray,
       priority,
-      search: search || undefined
+      requestType,
+      tag: tagParam?.trim() || undefined,
+      // 「自分の担当」は管理者のみ
+      assigneeId: assigneeParam === 'me' && authResult.user.isAdmin ? authResult.user.id : undefined,
+      authorId: author?.id,
+      search: search || undefined,
+      // 期限が近い順（対応中で期限のある質問のみ）
+      ...(sortParam === 'due' && { sortBy: 'slaDueAt', sortOrder: 'asc' as const })
     }
 
     const result = await getQuestions(queryData)
@@ -140,10 +168,10 @@ export async function POST(request: NextRequest) {
 
     // リクエストボディ取得
     const body = await request.json()
-    const { title, content, priority } = body
+    const { title, content, priority, requestType, requestFields } = body
 
-    // データ検証
-    const validation = validateQuestionData({ title, content, priority })
+    // データ検証（種別ごとの入力項目は createQuestion でテンプレートに沿って検証）
+    const validation = validateQuestionData({ title, content, priority, requestType })
     if (!validation.valid) {
       return NextResponse.json(
         {
@@ -168,35 +196,36 @@ export async function POST(request: NextRequest) {
       // タグ付けに失敗してもエラーにしない
     }
 
-    // 質問作成
+    // 担当者の自動割り当て（グループの既定担当者またはラウンドロビン）
+    const assignee = await getAutoAssignee(authResult.user.groupId)
+
+    // 質問作成（自動タグはカタログの正式名に揃えて保存）
     const result = await createQuestion(
-      { title, content, priority },
+      { title, content, priority, requestType, requestFields, tags, assigneeId: assignee?.id },
       authResult.user.id,
       authResult.user.groupId
     )
 
     if (!result.success) {
+      const isValidationError = result.error?.startsWith('Invalid question data') ?? false
       return NextResponse.json(
         {
           error: {
-            code: 'INTERNAL_ERROR',
+            code: isValidationError ? 'VALIDATION_ERROR' : 'INTERNAL_ERROR',
             message: result.error || 'Failed to create question'
           }
         },
-        { status: 500 }
+        { status: isValidationError ? 400 : 500 }
       )
     }
 
-    // タグを更新（別途処理）
-    if (tags.length > 0) {
-      result.question!.tags = tags
-    }
-
-    // 管理者にメール通知を送信（非同期、エラーが発生しても質問作成は成功とする）
+    // 担当者（未割り当ての場合は全管理者）にメール通知を送信（エラーが発生しても質問作成は成功とする）
     if (result.question) {
       try {
         // 管理者ユーザーを取得してメール送信
-        const adminResult = await getUsers({ isAdmin: true })
+        const adminResult = assignee
+          ? { success: true, users: [assignee] }
+          : await getUsers({ isAdmin: true })
         if (adminResult.success && adminResult.users) {
           for (const admin of adminResult.users) {
             try {
@@ -0,0 +1,117 @@
+import { NextRequest } from 'next/server'
+import { GET } from '../route'
+import { QuestionStatus, QuestionPriority } from '@/types/question'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+// モック設定
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+jest.mock('@/lib/openai', () => ({
+  embedText: jest.fn(),
+}))
+
+jest.mock('@/lib/rate-limit', () => ({
+  checkRateLimit: jest.fn().mockResolvedValue(false),
+  RATE_LIMITS: { SEARCH: { requests: 20, windowMs: 60000 } }
+}))
+
+import { validateSession } from '@/lib/auth'
+import { embedText } from '@/lib/openai'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+const mockEmbedText = embedText as jest.MockedFunction<typeof embedText>
+
+const vector = new Array(8).fill(0.1)
+
+const mockQuestion = {
+  id: 'question-123',
+  title: 'JWT authentication',
+  content: 'How to implement JWT authentication',
+  authorId: 'user-456',
+  groupId: 'group-ts-ai',
+  status: QuestionStatus.RESOLVED,
+  priority: QuestionPriority.MEDIUM,
+  tags: [],
+  attachments: [],
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+  updatedAt: new Date('2024-01-15T10:00:00Z'),
+  contentVector: vector
+}
+
+function createRequest(query: string, withSession = true) {
+  return new NextRequest(`http://localhost:3000/api/questions/similar?${query}`, {
+    method: 'GET',
+    headers: withSession ? { 'Cookie': 'session=test-session-token' } : {}
+  })
+}
+
+describe('/api/questions/similar', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('questions', mockQuestion)
+    await testDataStore.createItem('questions', {
+      ...mockQuestion,
+      id: 'question-other-group',
+      groupId: 'group-other'
+    })
+    await testDataStore.createItem('answers', { id: 'answer-1', questionId: 'question-123' })
+
+    mockEmbedText.mockResolvedValue(vector)
+    mockValidateSession.mockResolvedValue({
+      valid: true,
+      user: {
+        id: 'user-123',
+        username: 'testuser',
+        email: 'test@example.com',
+        groupId: 'group-ts-ai',
+        isAdmin: false,
+        createdAt: new Date(),
+        lastLoginAt: null,
+      }
+    })
+  })
+
+  it('should return 401 without session', async () => {
+    const response = await GET(createRequest('q=JWT', false))
+
+    expect(response.status).toBe(401)
+  })
+
+  it('should return group-scoped matches with status and answer counts', async () => {
+    const response = await GET(createRequest('q=JWT%20authentication'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.success).toBe(true)
+    expect(data.questions).toHaveLength(1)
+    expect(data.questions[0].id).toBe('question-123')
+    expect(data.questions[0].status).toBe(QuestionStatus.RESOLVED)
+    expect(data.questions[0].answersCount).toBe(1)
+  })
+
+  it('should exclude the given question', async () => {
+    const response = await GET(createRequest('q=JWT&excludeId=question-123'))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.questions).toEqual([])
+  })
+
+  it('should return empty list without embedding for empty query', async () => {
+    const response = await GET(createRequest('q='))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.questions).toEqual([])
+    expect(mockEmbedText).not.toHaveBeenCalled()
+  })
+})
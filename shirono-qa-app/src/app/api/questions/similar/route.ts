@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { findSimilarQuestions } from '@/lib/search'
+import { canAccessQuestion } from '@/lib/access-control'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+
+// 埋め込み生成に渡すテキストの最大長
+const MAX_QUERY_LENGTH = 2000
+
+export async function GET(request: NextRequest) {
+  try {
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const user = authResult.user
+
+    // レート制限チェック（入力中に呼ばれるため検索と同じ枠を使用）
+    const isRateLimited = await checkRateLimit(request, RATE_LIMITS.SEARCH, `similar:${user.id}`)
+    if (isRateLimited) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'RATE_LIMIT_EXCEEDED',
+            message: 'Too many search requests'
+          }
+        },
+        { status: 429 }
+      )
+    }
+
+    // クエリパラメータ取得
+    const { searchParams } = new URL(request.url)
+    const q = (searchParams.get('q') || '').trim().slice(0, MAX_QUERY_LENGTH)
+    const excludeId = searchParams.get('excludeId') || undefined
+    const limit = Math.min(10, Math.max(1, parseInt(searchParams.get('limit') || '5') || 5))
+
+    if (!q) {
+      return NextResponse.json({
+        success: true,
+        questions: []
+      })
+    }
+
+    // グループ制限（管理者以外は自分のグループのみ）
+    const groupId = user.isAdmin ? undefined : user.groupId
+
+    const result = await findSimilarQuestions(
+      q,
+      excludeId,
+      limit,
+      groupId,
+      question => canAccessQuestion(user, question)
+    )
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: result.error || 'Failed to find similar questions'
+          }
+        },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      questions: result.questions || []
+    })
+  } catch (error) {
+    console.error('GET /api/questions/similar error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getRequestTemplates } from '@/lib/request-templates'
+
+/**
+ * GET /api/request-templates - 依頼種別ごとの入力項目（投稿フォーム・管理画面用）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Invalid session' } },
+        { status: 401 }
+      )
+    }
+
+    const templates = await getRequestTemplates()
+
+    return NextResponse.json({
+      success: true,
+      templates
+    })
+
+  } catch (error) {
+    console.error('GET /api/request-templates error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve request templates' } },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,160 @@
+import { NextRequest } from 'next/server'
+import { GET } from '../route'
+import { GET as GET_SUGGESTIONS } from '../suggestions/route'
+import { QuestionStatus, QuestionPriority } from '@/types/question'
+import { testDataStore, mockCosmosService } from '@/lib/__tests__/test-helpers'
+
+// モック設定
+jest.mock('@/lib/cosmos', () => ({
+  getCosmosService: () => mockCosmosService
+}))
+
+jest.mock('@/lib/auth', () => ({
+  validateSession: jest.fn(),
+}))
+
+jest.mock('@/lib/rate-limit', () => ({
+  checkRateLimit: jest.fn(),
+  RATE_LIMITS: { SEARCH: { requests: 20, windowMs: 60000 } }
+}))
+
+import { validateSession } from '@/lib/auth'
+import { checkRateLimit } from '@/lib/rate-limit'
+
+const mockValidateSession = validateSession as jest.MockedFunction<typeof validateSession>
+const mockCheckRateLimit = checkRateLimit as jest.MockedFunction<typeof checkRateLimit>
+
+const mockQuestion = {
+  id: 'question-123',
+  title: 'Authentication question',
+  content: 'How do I configure authentication?',
+  authorId: 'user-123',
+  groupId: 'group-ts-ai',
+  status: QuestionStatus.UNANSWERED,
+  priority: QuestionPriority.MEDIUM,
+  tags: ['auth'],
+  attachments: [],
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+  updatedAt: new Date('2024-01-15T10:00:00Z'),
+}
+
+function createRequest(url: string, withSession = true) {
+  return new NextRequest(url, {
+    method: 'GET',
+    headers: withSession ? { 'Cookie': 'session=test-session-token' } : {}
+  })
+}
+
+describe('/api/search', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('questions', mockQuestion)
+    await testDataStore.createItem('questions', {
+      ...mockQuestion,
+      id: 'question-other-group',
+      title: 'Authentication in other group',
+      groupId: 'group-other'
+    })
+
+    mockCheckRateLimit.mockResolvedValue(false)
+    mockValidateSession.mockResolvedValue({
+      valid: true,
+      user: {
+        id: 'user-123',
+        username: 'testuser',
+        email: 'test@example.com',
+        groupId: 'group-ts-ai',
+        isAdmin: false,
+        createdAt: new Date(),
+        lastLoginAt: null,
+      }
+    })
+  })
+
+  describe('GET /api/search', () => {
+    it('should return 401 without session', async () => {
+      const response = await GET(createRequest('http://localhost:3000/api/search?q=auth', false))
+      const data = await response.json()
+
+      expect(response.status).toBe(401)
+      expect(data.error.code).toBe('UNAUTHORIZED')
+    })
+
+    it('should return 400 when query is empty', async () => {
+      const response = await GET(createRequest('http://localhost:3000/api/search?q='))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error.code).toBe('VALIDATION_ERROR')
+    })
+
+    it('should only return questions in the user group', async () => {
+      const response = await GET(createRequest('http://localhost:3000/api/search?q=authentication'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.success).toBe(true)
+      expect(data.results.map((r: { question: { id: string } }) => r.question.id)).toEqual(['question-123'])
+    })
+
+    it('should ignore groupId parameter for non-admin users', async () => {
+      const response = await GET(createRequest('http://localhost:3000/api/search?q=authentication&groupId=group-other'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.results.every((r: { question: { groupId: string } }) => r.question.groupId === 'group-ts-ai')).toBe(true)
+    })
+
+    it('should allow admin to search across groups', async () => {
+      mockValidateSession.mockResolvedValue({
+        valid: true,
+        user: {
+          id: 'admin-user',
+          username: 'admin',
+          email: 'admin@example.com',
+          groupId: 'group-admin',
+          isAdmin: true,
+          createdAt: new Date(),
+          lastLoginAt: null,
+        }
+      })
+
+      const response = await GET(createRequest('http://localhost:3000/api/search?q=authentication'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.total).toBe(2)
+    })
+
+    it('should return 429 when rate limit is exceeded', async () => {
+      mockCheckRateLimit.mockResolvedValue(true)
+
+      const response = await GET(createRequest('http://localhost:3000/api/search?q=authentication'))
+      const data = await response.json()
+
+      expect(response.status).toBe(429)
+      expect(data.error.code).toBe('RATE_LIMIT_EXCEEDED')
+    })
+  })
+
+  describe('GET /api/search/suggestions', () => {
+    it('should only suggest titles from the user group', async () => {
+      const response = await GET_SUGGESTIONS(createRequest('http://localhost:3000/api/search/suggestions?q=authentication'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.suggestions).toContain('Authentication question')
+      expect(data.suggestions).not.toContain('Authentication in other group')
+    })
+
+    it('should return 429 when rate limit is exceeded', async () => {
+      mockCheckRateLimit.mockResolvedValue(true)
+
+      const response = await GET_SUGGESTIONS(createRequest('http://localhost:3000/api/search/suggestions?q=auth'))
+
+      expect(response.status).toBe(429)
+    })
+  })
+})
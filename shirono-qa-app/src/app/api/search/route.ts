@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { searchQuestions } from '@/lib/search'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+import { SearchQuery, SearchSortField } from '@/types/search'
+import { QuestionStatus, QuestionPriority } from '@/types/question'
+
+export async function GET(request: NextRequest) {
+  try {
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const user = authResult.user
+
+    // レート制限チェック
+    const isRateLimited = await checkRateLimit(request, RATE_LIMITS.SEARCH, `search:${user.id}`)
+    if (isRateLimited) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'RATE_LIMIT_EXCEEDED',
+            message: 'Too many search requests'
+          }
+        },
+        { status: 429 }
+      )
+    }
+
+    // クエリパラメータ取得
+    const { searchParams } = new URL(request.url)
+    const q = searchParams.get('q')?.trim()
+    if (!q) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Search query is required'
+          }
+        },
+        { status: 400 }
+      )
+    }
+
+    const statusParam = searchParams.get('status')
+    const priorityParam = searchParams.get('priority')
+    const sortByParam = searchParams.get('sortBy')
+    const sortOrderParam = searchParams.get('sortOrder')
+    const tagsParam = searchParams.get('tags')
+
+    // グループ制限（管理者以外は自分のグループのみ）
+    const groupId = user.isAdmin
+      ? searchParams.get('groupId') || undefined
+      : user.groupId
+
+    const query: SearchQuery = {
+      q,
+      groupId,
+      page: Math.max(1, parseInt(searchParams.get('page') || '1') || 1),
+      limit: Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '20') || 20)),
+      status: statusParam && Object.values(QuestionStatus).includes(statusParam as QuestionStatus)
+        ? statusParam
+        : undefined,
+      priority: priorityParam && Object.values(QuestionPriority).includes(priorityParam as QuestionPriority)
+        ? priorityParam
+        : undefined,
+      tags: tagsParam ? tagsParam.split(',').map(tag => tag.trim()).filter(Boolean) : undefined,
+      sortBy: sortByParam && Object.values(SearchSortField).includes(sortByParam as SearchSortField)
+        ? (sortByParam as SearchSortField)
+        : undefined,
+      sortOrder: sortOrderParam === 'asc' ? 'asc' : 'desc'
+    }
+
+    const result = await searchQuestions(query)
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: result.error || 'Search failed'
+          }
+        },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('GET /api/search error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getSearchSuggestions } from '@/lib/search'
+import { checkRateLimit, RATE_LIMITS } from '@/lib/rate-limit'
+
+export async function GET(request: NextRequest) {
+  try {
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Invalid session'
+          }
+        },
+        { status: 401 }
+      )
+    }
+
+    const user = authResult.user
+
+    // レート制限チェック（入力中の候補取得は検索本体とは別枠でカウント）
+    const isRateLimited = await checkRateLimit(request, RATE_LIMITS.SEARCH, `search-suggestions:${user.id}`)
+    if (isRateLimited) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'RATE_LIMIT_EXCEEDED',
+            message: 'Too many search requests'
+          }
+        },
+        { status: 429 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const q = searchParams.get('q') || ''
+
+    // グループ制限（管理者以外は自分のグループのみ）
+    const groupId = user.isAdmin ? undefined : user.groupId
+
+    const result = await getSearchSuggestions(q, groupId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: 'INTERNAL_ERROR',
+            message: result.error || 'Failed to get suggestions'
+          }
+        },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      suggestions: result.suggestions || []
+    })
+  } catch (error) {
+    console.error('GET /api/search/suggestions error:', error)
+    return NextResponse.json(
+      {
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Internal server error'
+        }
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getTags } from '@/lib/tags'
+
+/**
+ * GET /api/tags - タグのカタログ（タグ編集の候補・タグページ用）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // 認証チェック
+    const sessionToken = request.cookies.get('session')?.value
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      )
+    }
+
+    const authResult = await validateSession(sessionToken)
+    if (!authResult.valid || !authResult.user) {
+      return NextResponse.json(
+        { error: { code: 'UNAUTHORIZED', message: 'Invalid session' } },
+        { status: 401 }
+      )
+    }
+
+    const tags = await getTags()
+
+    return NextResponse.json({
+      success: true,
+      tags
+    })
+
+  } catch (error) {
+    console.error('GET /api/tags error:', error)
+    return NextResponse.json(
+      { error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve tags' } },
+      { status: 500 }
+    )
+  }
+}
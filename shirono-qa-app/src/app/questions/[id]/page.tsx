@@ -1,15 +1,16 @@
 'use client'
 
-import { useState, useRef } from 'react'
+import { useState, useRef, useCallback } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import {
   Container,
   Grid,
 } from '@mui/material'
 import { Answer, Comment } from '@/types/answer'
+import { Question } from '@/types/question'
 import { User } from '@/types/auth'
 import AppHeader from '@/components/AppHeader'
-import QuestionDisplay from '@/components/QuestionDisplay'
+import QuestionDisplay, { QuestionDisplayRef } from '@/components/QuestionDisplay'
 import AnswersSection, { AnswersSectionRef } from '@/components/AnswersSection'
 import ReplyForm from '@/components/ReplyForm'
 
@@ -19,8 +20,10 @@ export default function QuestionDetailPage() {
   const questionId = params.id as string
 
   const [user, setUser] = useState<User | null>(null)
+  const [question, setQuestion] = useState<Question | null>(null)
   
   // 各コンポーネントとの連携用ref
+  const questionDisplayRef = useRef<QuestionDisplayRef>(null)
   const answersSectionRef = useRef<AnswersSectionRef>(null)
 
   // ユーザー情報を取得
@@ -30,6 +33,20 @@ export default function QuestionDetailPage() {
     }
   }
 
+  // 質問の読み込み・更新時の処理
+  const handleQuestionUpdate = useCallback((updatedQuestion: Question) => {
+    setQuestion(updatedQuestion)
+  }, [])
+
+  // ベストアンサーが変更された時の処理（質問のステータスも更新される）
+  const handleAcceptedAnswerChange = (updatedQuestion: Question) => {
+    setQuestion(updatedQuestion)
+    questionDisplayRef.current?.applyQuestionUpdate(updatedQuestion)
+  }
+
+  // 質問投稿者と管理者のみベストアンサーを選べる
+  const canAcceptAnswer = !!user && !!question && (user.isAdmin || user.id === question.authorId)
+
   // 質問削除時の処理
   const handleQuestionDelete = () => {
     // キャッシュを無効化
@@ -69,8 +86,10 @@ export default function QuestionDetailPage() {
           <Grid item xs={12}>
             {/* 質問表示コンポーネント */}
             <QuestionDisplay
+              ref={questionDisplayRef}
               questionId={questionId}
               user={user}
+              onQuestionUpdate={handleQuestionUpdate}
               onQuestionDelete={handleQuestionDelete}
             />
 
@@ -78,6 +97,10 @@ export default function QuestionDetailPage() {
             <AnswersSection
               ref={answersSectionRef}
               questionId={questionId}
+              currentUser={user}
+              acceptedAnswerId={question?.acceptedAnswerId}
+              canAcceptAnswer={canAcceptAnswer}
+              onAcceptedAnswerChange={handleAcceptedAnswerChange}
             />
 
             {/* 回答・コメント投稿フォーム */}
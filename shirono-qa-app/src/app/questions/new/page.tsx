@@ -1,20 +1,66 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
 import { Box, Typography, CircularProgress } from '@mui/material'
 import FileUpload from '@/components/FileUpload'
+import { useFileUpload } from '@/hooks/useFileUpload'
 import AppHeader from '@/components/AppHeader'
+import SimilarQuestions from '@/components/SimilarQuestions'
+import { SimilarQuestion } from '@/types/search'
+import MarkdownPreviewTabs from '@/components/MarkdownPreviewTabs'
+import { useInlineImageUpload } from '@/hooks/useInlineImageUpload'
+import { useDraftAutosave } from '@/hooks/useDraftAutosave'
+import { useRequestTemplates } from '@/hooks/useRequestTemplates'
+import RequestFieldsInput from '@/components/RequestFieldsInput'
+import { REQUEST_TYPE_LABELS } from '@/lib/request-types'
+import { QuestionPriority, RequestType } from '@/types/question'
+
+// 類似質問の検索を開始する最小文字数
+const SIMILAR_QUERY_MIN_LENGTH = 10
 
 export default function NewQuestionPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [title, setTitle] = useState('')
   const [content, setContent] = useState('')
   const [priority, setPriority] = useState('medium')
-  const [files, setFiles] = useState<File[]>([])
+  const [requestType, setRequestType] = useState<RequestType>(RequestType.QUESTION)
+  const [requestFieldValues, setRequestFieldValues] = useState<Record<string, string>>({})
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const requestTemplates = useRequestTemplates()
+  const templateFields = requestTemplates[requestType]
+  // 選択したファイルはすぐにアップロードし、下書きに残す
+  const fileUploader = useFileUpload({ stageOnAdd: true })
+  const { stagedFiles } = fileUploader
+  const attachedStagedFilesRef = useRef(false)
+  const [createdQuestionId, setCreatedQuestionId] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [errors, setErrors] = useState<{ [key: string]: string }>({})
   const router = useRouter()
+  const draft = useDraftAutosave({ kind: 'question', enabled: !isLoading })
+  const { scheduleSave } = draft
+
+  // 入力された後のみ自動保存する（開いただけで保存済みの下書きを上書きしない）
+  const editedRef = useRef(false)
+  const updateContent = useCallback((value: string) => {
+    editedRef.current = true
+    setContent(value)
+  }, [])
+  const inlineImages = useInlineImageUpload(content, updateContent)
+
+  // 種別を切り替えても入力は残し、送信・保存するのは選択中の種別の項目のみ
+  const requestFields = useMemo(
+    () => Object.fromEntries(templateFields.map(field => [field.key, requestFieldValues[field.key] ?? ''])),
+    [templateFields, requestFieldValues]
+  )
+
+  const fileUrls = useMemo(() => stagedFiles.map(file => file.blobUrl), [stagedFiles])
+
+  useEffect(() => {
+    if ((editedRef.current || fileUrls.length > 0) && !createdQuestionId) {
+      scheduleSave({ title, content, priority: priority as QuestionPriority, requestType, requestFields, fileUrls })
+    }
+  }, [title, content, priority, requestType, requestFields, fileUrls, createdQuestionId, scheduleSave])
 
   const checkAuth = useCallback(async () => {
     try {
@@ -48,41 +94,16 @@ export default function NewQuestionPage() {
       newErrors.content = '内容は必須です'
     }
 
-    setErrors(newErrors)
-    return Object.keys(newErrors).length === 0
-  }
-
-  const uploadFiles = async (questionId?: string) => {
-    if (files.length === 0) return []
-
-    const formData = new FormData()
-    files.forEach(file => {
-      formData.append('files', file)
-    })
-
-    // questionIdがある場合は追加
-    if (questionId) {
-      formData.append('questionId', questionId)
-    }
-
-    const response = await fetch('/api/files/upload', {
-      method: 'POST',
-      credentials: 'include',
-      body: formData
-    })
-
-    if (!response.ok) {
-      throw new Error('File upload failed')
-    }
-
-    const data = await response.json()
-
-    // アップロード成功時のレスポンス形式を確認
-    if (data.success && data.files) {
-      return data.files.map((file: { blobUrl: string }) => file.blobUrl)
+    const newFieldErrors: Record<string, string> = {}
+    for (const field of templateFields) {
+      if (field.required && !requestFields[field.key]?.trim()) {
+        newFieldErrors[field.key] = `${field.label}は必須です`
+      }
     }
 
-    return data.urls || []
+    setErrors(newErrors)
+    setFieldErrors(newFieldErrors)
+    return Object.keys(newErrors).length === 0 && Object.keys(newFieldErrors).length === 0
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -95,59 +116,61 @@ export default function NewQuestionPage() {
     setIsSubmitting(true)
 
     try {
-      // まず質問を作成
-      const questionResponse = await fetch('/api/questions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          title: title.trim(),
-          content: content.trim(),
-          priority
+      // まず質問を作成（ファイルの再試行時は作成済みの質問を使う）
+      let questionId = createdQuestionId
+      if (!questionId) {
+        const questionResponse = await fetch('/api/questions', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            title: title.trim(),
+            content: content.trim(),
+            priority,
+            requestType,
+            requestFields
+          })
         })
-      })
 
-      if (!questionResponse.ok) {
-        setErrors({ submit: '投稿に失敗しました' })
-        return
+        if (!questionResponse.ok) {
+          const errorData = await questionResponse.json().catch(() => null)
+          setErrors({
+            submit: errorData?.error?.code === 'VALIDATION_ERROR'
+              ? `入力内容を確認してください（${errorData.error.message}）`
+              : '投稿に失敗しました'
+          })
+          return
+        }
+
+        const questionData = await questionResponse.json()
+        questionId = questionData.question.id as string
+        setCreatedQuestionId(questionId)
+        await draft.clearDraft()
       }
 
-      const questionData = await questionResponse.json()
-      const questionId = questionData.question.id
-
-      // ファイルがある場合はアップロードして質問に関連付け
-      if (files.length > 0) {
-        try {
-          // ファイルをアップロード
-          const uploadedFiles = await uploadFiles(questionId)
-
-          // アップロードされたファイル情報を準備
-          const fileInfos = files.map((file, index) => ({
-            fileName: file.name, // 元のファイル名
-            blobUrl: uploadedFiles[index], // フルパス（Blob URL）
-            size: file.size,
-            contentType: file.type
-          }))
-
-
-          // 質問にファイルを関連付け
-          const attachResponse = await fetch(`/api/questions/${questionId}/attachments`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            credentials: 'include',
-            body: JSON.stringify({
-              files: fileInfos
-            })
-          })
+      // アップロード済みのファイルを質問に関連付け（再送信時は関連付け済みのため除く）
+      if (stagedFiles.length > 0 && !attachedStagedFilesRef.current) {
+        const attachResponse = await fetch(`/api/questions/${questionId}/attachments`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ files: stagedFiles })
+        })
+        if (!attachResponse.ok) {
+          setErrors({ submit: '質問は投稿されましたが、ファイルの添付に失敗しました' })
+          return
+        }
+        attachedStagedFilesRef.current = true
+      }
 
-          if (!attachResponse.ok) {
-            console.warn('Failed to attach files to question, but question was created')
-          }
-        } catch (fileError) {
-          console.warn('File upload failed, but question was created:', fileError)
+      // 未アップロードのファイルがある場合はストレージへ直接アップロードして質問に関連付け
+      if (fileUploader.files.length > 0) {
+        const { failedCount } = await fileUploader.uploadAll({ type: 'question', questionId })
+        if (failedCount > 0) {
+          setErrors({ submit: '質問は投稿されましたが、一部のファイルのアップロードに失敗しました。もう一度「投稿」を押すと失敗したファイルのみ再送信します' })
+          return
         }
       }
 
@@ -174,6 +197,35 @@ export default function NewQuestionPage() {
     router.back()
   }
 
+  const handleResumeDraft = () => {
+    const saved = draft.savedDraft
+    if (!saved) return
+
+    setTitle(saved.title ?? '')
+    setContent(saved.content)
+    if (saved.priority) {
+      setPriority(saved.priority)
+    }
+    if (saved.requestType) {
+      setRequestType(saved.requestType)
+    }
+    setRequestFieldValues(saved.requestFields ?? {})
+    fileUploader.restoreStagedFiles((saved.files ?? []).map(file => ({
+      fileName: file.fileName,
+      blobUrl: file.blobUrl,
+      size: file.fileSize,
+      contentType: file.contentType
+    })))
+    draft.dismissSavedDraft()
+  }
+
+  // 入力中の内容を失わないよう類似質問は別タブで開く
+  const handleSimilarQuestionClick = (question: SimilarQuestion) => {
+    window.open(`/questions/${question.id}`, '_blank', 'noopener')
+  }
+
+  const similarQuery = `${title.trim()}\n${content.trim()}`.trim()
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50">
@@ -208,12 +260,61 @@ export default function NewQuestionPage() {
         </div>
 
         <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6">
+          {draft.savedDraft && (
+            <div className="mb-4 p-3 bg-indigo-50 border border-indigo-200 rounded flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-indigo-800">
+                保存された下書きがあります（{new Date(draft.savedDraft.updatedAt).toLocaleString('ja-JP')}）
+              </p>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={handleResumeDraft}
+                  className="px-3 py-1 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+                >
+                  下書きを再開
+                </button>
+                <button
+                  type="button"
+                  onClick={draft.clearDraft}
+                  className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50"
+                >
+                  破棄
+                </button>
+              </div>
+            </div>
+          )}
+
           {errors.submit && (
             <div className="mb-4 p-3 bg-red-100 text-red-700 rounded">
               {errors.submit}
             </div>
           )}
 
+          <div className="mb-6">
+            <span className="block text-sm font-medium text-gray-700 mb-2">種別</span>
+            <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="種別">
+              {Object.values(RequestType).map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  role="radio"
+                  aria-checked={requestType === type}
+                  onClick={() => {
+                    editedRef.current = true
+                    setRequestType(type)
+                    setFieldErrors({})
+                  }}
+                  className={`px-4 py-2 rounded-md text-sm border ${requestType === type
+                    ? 'bg-indigo-600 text-white border-indigo-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                    }`}
+                >
+                  {REQUEST_TYPE_LABELS[type]}
+                </button>
+              ))}
+            </div>
+          </div>
+
           <div className="mb-6">
             <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
               タイトル *
@@ -222,7 +323,10 @@ export default function NewQuestionPage() {
               type="text"
               id="title"
               value={title}
-              onChange={(e) => setTitle(e.target.value)}
+              onChange={(e) => {
+                editedRef.current = true
+                setTitle(e.target.value)
+              }}
               className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 ${errors.title ? 'border-red-500' : 'border-gray-300'
                 }`}
               placeholder="例：○○について教えてください / ○○の検証をお願いします / ○○を調査してもらえますか"
@@ -245,20 +349,54 @@ export default function NewQuestionPage() {
                 <li>IT、AI、Azureに関する相談事項</li>
               </ul>
             </div>
-            <textarea
-              id="content"
-              rows={8}
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 ${errors.content ? 'border-red-500' : 'border-gray-300'
-                }`}
-              placeholder="詳細な内容を入力してください。背景、現在の状況、期待する結果なども併せてお書きください。"
-            />
+            <MarkdownPreviewTabs content={content}>
+              <textarea
+                id="content"
+                rows={8}
+                value={content}
+                onChange={(e) => updateContent(e.target.value)}
+                ref={inlineImages.inputRef}
+                {...inlineImages.handlers}
+                className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 ${errors.content ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                placeholder="詳細な内容を入力してください。背景、現在の状況、期待する結果なども併せてお書きください。"
+              />
+            </MarkdownPreviewTabs>
+            <p className="mt-1 text-xs text-gray-500">
+              {inlineImages.uploading ? '画像をアップロードしています...' : '画像は貼り付け・ドラッグ＆ドロップで本文に挿入できます'}
+            </p>
+            {inlineImages.error && (
+              <p className="mt-1 text-sm text-red-600">{inlineImages.error}</p>
+            )}
             {errors.content && (
               <p className="mt-1 text-sm text-red-600">{errors.content}</p>
             )}
           </div>
 
+          {templateFields.length > 0 && (
+            <div className="mb-6">
+              <h2 className="text-sm font-medium text-gray-700 mb-2">{REQUEST_TYPE_LABELS[requestType]}の詳細</h2>
+              <RequestFieldsInput
+                fields={templateFields}
+                values={requestFieldValues}
+                onChange={(values) => {
+                  editedRef.current = true
+                  setRequestFieldValues(values)
+                }}
+                errors={fieldErrors}
+              />
+            </div>
+          )}
+
+          {similarQuery.length >= SIMILAR_QUERY_MIN_LENGTH && (
+            <div className="mb-6">
+              <SimilarQuestions
+                query={similarQuery}
+                onQuestionClick={handleSimilarQuestionClick}
+              />
+            </div>
+          )}
+
           <div className="mb-6">
             <label htmlFor="priority" className="block text-sm font-medium text-gray-700 mb-2">
               優先度
@@ -266,7 +404,10 @@ export default function NewQuestionPage() {
             <select
               id="priority"
               value={priority}
-              onChange={(e) => setPriority(e.target.value)}
+              onChange={(e) => {
+                editedRef.current = true
+                setPriority(e.target.value)
+              }}
               className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
             >
               <option value="low">低</option>
@@ -279,10 +420,18 @@ export default function NewQuestionPage() {
             <label className="block text-sm font-medium text-gray-700 mb-2">
               添付ファイル
             </label>
-            <FileUpload onFilesChange={setFiles} />
+            <FileUpload uploader={fileUploader} />
+            <p className="mt-1 text-xs text-gray-500">
+              添付ファイルは投稿時にアップロードされます（下書きには本文に貼り付けた画像のみ保存されます）
+            </p>
           </div>
 
-          <div className="flex justify-end gap-4">
+          <div className="flex justify-end items-center gap-4">
+            <span className="text-xs text-gray-500" aria-live="polite">
+              {draft.status === 'saving' && '下書きを保存中...'}
+              {draft.status === 'saved' && draft.savedAt && `下書きを保存しました（${draft.savedAt.toLocaleTimeString('ja-JP')}）`}
+              {draft.status === 'error' && '下書きを保存できませんでした'}
+            </span>
             <button
               type="button"
               onClick={handleCancel}
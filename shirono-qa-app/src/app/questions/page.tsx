@@ -2,8 +2,16 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
+import Link from 'next/link'
 import { Box, Typography, CircularProgress } from '@mui/material'
 import AppHeader from '@/components/AppHeader'
+import SearchBox from '@/components/SearchBox'
+import SearchResults from '@/components/SearchResults'
+import { SearchResponse } from '@/types/search'
+import { QuestionStatus, RequestType } from '@/types/question'
+import { getSlaStatus, SlaStatus } from '@/lib/sla'
+import { getRequestTypeLabel, REQUEST_TYPE_LABELS } from '@/lib/request-types'
+import { getTagPath } from '@/lib/tag-names'
 
 interface Question {
   id: string
@@ -11,9 +19,12 @@ interface Question {
   authorId: string
   status: string
   priority: string
+  requestType?: RequestType
   tags: string[]
   createdAt: string
   updatedAt: string
+  firstResponseDueAt?: string
+  resolutionDueAt?: string
 }
 
 interface User {
@@ -26,10 +37,17 @@ export default function QuestionsPage() {
   const [questions, setQuestions] = useState<Question[]>([])
   const [user, setUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(true)
-  const [searchQuery, setSearchQuery] = useState('')
   const [statusFilter, setStatusFilter] = useState('未回答・回答済み')
+  const [myQueue, setMyQueue] = useState(false)
+  const [sortByDue, setSortByDue] = useState(false)
+  const [requestTypeFilter, setRequestTypeFilter] = useState<RequestType | ''>('')
   const router = useRouter()
   const searchParams = useSearchParams()
+  // 検索モード（nullのときは通常の一覧表示）
+  const [searchResults, setSearchResults] = useState<SearchResponse | null>(null)
+  const [searchSeed, setSearchSeed] = useState(() => searchParams.get('q') || '')
+  // 投稿者での絞り込み（メンションのリンクから開いた場合）
+  const authorFilter = searchParams.get('author') || ''
 
   const getStatusLabel = (status: string) => {
     switch (status) {
@@ -71,10 +89,20 @@ export default function QuestionsPage() {
     }
   }
 
+  const getSlaBadge = (sla: SlaStatus) => {
+    const label = sla.kind === 'firstResponse' ? '初回回答' : '解決'
+    const due = sla.dueAt.toLocaleString('ja-JP', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    switch (sla.state) {
+      case 'overdue': return { text: `${label}期限超過`, className: 'bg-red-600 text-white' }
+      case 'due_soon': return { text: `${label}期限間近 ${due}`, className: 'bg-amber-100 text-amber-800' }
+      default: return { text: `${label}期限 ${due}`, className: 'bg-gray-100 text-gray-600' }
+    }
+  }
+
   const loadQuestions = useCallback(async (forceRefresh = false) => {
     try {
       // キャッシュチェック
-      const cacheKey = `questions_${statusFilter}`
+      const cacheKey = `questions_${statusFilter}${myQueue ? '_mine' : ''}${sortByDue ? '_due' : ''}${requestTypeFilter ? `_${requestTypeFilter}` : ''}${authorFilter ? `_author_${authorFilter}` : ''}`
       const cachedData = sessionStorage.getItem(cacheKey)
       const cacheTime = sessionStorage.getItem(`${cacheKey}_time`)
       const now = new Date().getTime()
@@ -102,6 +130,26 @@ export default function QuestionsPage() {
         }
       }
       
+      // 自分の担当（管理者のみ）
+      if (myQueue) {
+        params.append('assignee', 'me')
+      }
+
+      // 種別
+      if (requestTypeFilter) {
+        params.append('requestType', requestTypeFilter)
+      }
+
+      // 投稿者
+      if (authorFilter) {
+        params.append('author', authorFilter)
+      }
+
+      // 期限が近い順（期限のない解決済みなどの質問は含まれない）
+      if (sortByDue) {
+        params.append('sort', 'due')
+      }
+
       const response = await fetch(`/api/questions?${params.toString()}`)
       if (response.ok) {
         const data = await response.json()
@@ -117,15 +165,15 @@ export default function QuestionsPage() {
     } finally {
       setIsLoading(false)
     }
-  }, [statusFilter])
+  }, [statusFilter, myQueue, sortByDue, requestTypeFilter, authorFilter])
 
-  // ステータスフィルター変更時とユーザー読み込み時にデータを再取得
+  // フィルター変更時とユーザー読み込み時にデータを再取得
   useEffect(() => {
     if (user) {
       setIsLoading(true)
       loadQuestions()
     }
-  }, [statusFilter, user, loadQuestions])
+  }, [statusFilter, myQueue, sortByDue, requestTypeFilter, authorFilter, user, loadQuestions])
 
   // refreshクエリパラメータを検知して強制更新
   useEffect(() => {
@@ -162,114 +210,180 @@ export default function QuestionsPage() {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
 
         <div className="mb-6 flex flex-col sm:flex-row gap-4">
-          <input
-            type="text"
-            placeholder="投稿を検索..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="flex-1 px-4 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
-          />
+          <div className="flex-1">
+            <SearchBox
+              key={searchSeed}
+              initialQuery={searchSeed}
+              placeholder="投稿を検索..."
+              onResults={setSearchResults}
+              enableFilters
+            />
+          </div>
 
           <button
-            className="px-6 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            className="self-start px-6 py-3 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
             onClick={() => router.push('/questions/new')}
           >
             新規投稿
           </button>
         </div>
 
-        <div className="mb-6">
-          <div className="flex flex-wrap gap-2 items-center">
-            <button
-              onClick={() => loadQuestions(true)}
-              className="px-3 py-1 rounded-md text-sm bg-blue-100 text-blue-700 hover:bg-blue-200 transition-colors"
-              title="最新データを取得"
-            >
-              🔄 更新
-            </button>
-            <div className="w-px h-6 bg-gray-300 mx-2"></div>
-            {['未回答・回答済み', '解決済み', 'すべて'].map((status) => (
-              <button
-                key={status}
-                onClick={() => setStatusFilter(status)}
-                className={`px-3 py-1 rounded-full text-sm ${statusFilter === status
-                    ? 'bg-indigo-600 text-white'
-                    : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
-                  }`}
-              >
-                {status}
-              </button>
-            ))}
+        {searchResults ? (
+          <div className="bg-white shadow rounded-lg p-6">
+            <SearchResults
+              results={searchResults}
+              onResultClick={(questionId) => router.push(`/questions/${questionId}`)}
+              onSuggestionClick={setSearchSeed}
+            />
           </div>
-        </div>
-
-        <div className="bg-white shadow rounded-lg">
-          {(() => {
-            // フィルター処理
-            let filteredQuestions = questions
-
-            // ステータスフィルター（サーバー側でフィルタリング済みなのでクライアント側では何もしない）
-            // API側で既にフィルタリングされているため、ここでの処理は不要
+        ) : (
+          <>
+            <div className="mb-6">
+              <div className="flex flex-wrap gap-2 items-center">
+                <button
+                  onClick={() => loadQuestions(true)}
+                  className="px-3 py-1 rounded-md text-sm bg-blue-100 text-blue-700 hover:bg-blue-200 transition-colors"
+                  title="最新データを取得"
+                >
+                  🔄 更新
+                </button>
+                <div className="w-px h-6 bg-gray-300 mx-2"></div>
+                {['未回答・回答済み', '解決済み', 'すべて'].map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => setStatusFilter(status)}
+                    className={`px-3 py-1 rounded-full text-sm ${statusFilter === status
+                        ? 'bg-indigo-600 text-white'
+                        : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                      }`}
+                  >
+                    {status}
+                  </button>
+                ))}
+                <div className="w-px h-6 bg-gray-300 mx-2"></div>
+                <select
+                  value={requestTypeFilter}
+                  onChange={(e) => setRequestTypeFilter(e.target.value as RequestType | '')}
+                  aria-label="種別"
+                  className="px-3 py-1 rounded-full text-sm bg-gray-200 text-gray-700 border-none focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">すべての種別</option>
+                  {Object.values(RequestType).map((type) => (
+                    <option key={type} value={type}>{REQUEST_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <div className="w-px h-6 bg-gray-300 mx-2"></div>
+                <button
+                  onClick={() => setSortByDue(!sortByDue)}
+                  aria-pressed={sortByDue}
+                  className={`px-3 py-1 rounded-full text-sm ${sortByDue
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                    }`}
+                >
+                  期限が近い順
+                </button>
+                {user?.isAdmin && (
+                  <>
+                    <div className="w-px h-6 bg-gray-300 mx-2"></div>
+                    <button
+                      onClick={() => setMyQueue(!myQueue)}
+                      aria-pressed={myQueue}
+                      className={`px-3 py-1 rounded-full text-sm ${myQueue
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                        }`}
+                    >
+                      自分の担当
+                    </button>
+                  </>
+                )}
+                {authorFilter && (
+                  <>
+                    <div className="w-px h-6 bg-gray-300 mx-2"></div>
+                    <button
+                      onClick={() => router.replace('/questions')}
+                      aria-label="投稿者の絞り込みを解除"
+                      className="px-3 py-1 rounded-full text-sm bg-indigo-600 text-white"
+                    >
+                      投稿者: @{authorFilter} ×
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
 
-            // 検索フィルター
-            if (searchQuery.trim()) {
-              const query = searchQuery.toLowerCase()
-              filteredQuestions = filteredQuestions.filter(q =>
-                q.title.toLowerCase().includes(query) ||
-                q.tags.some(tag => tag.toLowerCase().includes(query))
-              )
-            }
+            <div className="bg-white shadow rounded-lg">
+              {(() => {
+                // ステータスフィルターとキーワード検索はサーバー側で処理済み
+                const filteredQuestions = questions
 
-            if (filteredQuestions.length === 0) {
-              return (
-                <div className="p-8 text-center text-gray-500">
-                  {questions.length === 0 ? '投稿がありません' : '条件に一致する投稿が見つかりません'}
-                </div>
-              )
-            }
+                if (filteredQuestions.length === 0) {
+                  return (
+                    <div className="p-8 text-center text-gray-500">
+                      投稿がありません
+                    </div>
+                  )
+                }
 
-            return (
-              <div className="divide-y divide-gray-200">
-                {filteredQuestions.map((question) => (
-                  <div key={question.id} className="p-6 hover:bg-gray-50">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <h3
-                          className="text-lg font-medium text-gray-900 mb-2 cursor-pointer hover:text-indigo-600"
-                          onClick={() => router.push(`/questions/${question.id}`)}
-                        >
-                          {question.title}
-                        </h3>
-                        <div className="flex items-center gap-4 text-sm text-gray-500">
-                          <span>作成日: {new Date(question.createdAt).toLocaleDateString()}</span>
-                          <span>更新日: {new Date(question.updatedAt).toLocaleDateString()}</span>
+                return (
+                  <div className="divide-y divide-gray-200">
+                    {filteredQuestions.map((question) => (
+                      <div key={question.id} className="p-6 hover:bg-gray-50">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <h3
+                              className="text-lg font-medium text-gray-900 mb-2 cursor-pointer hover:text-indigo-600"
+                              onClick={() => router.push(`/questions/${question.id}`)}
+                            >
+                              {question.title}
+                            </h3>
+                            <div className="flex items-center gap-4 text-sm text-gray-500">
+                              <span>作成日: {new Date(question.createdAt).toLocaleDateString()}</span>
+                              <span>更新日: {new Date(question.updatedAt).toLocaleDateString()}</span>
+                            </div>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            {(() => {
+                              const sla = getSlaStatus({ ...question, status: question.status as QuestionStatus })
+                              if (!sla) return null
+                              const badge = getSlaBadge(sla)
+                              return (
+                                <span className={`px-2 py-1 rounded-full text-xs ${badge.className}`} data-testid="sla-badge">
+                                  {badge.text}
+                                </span>
+                              )
+                            })()}
+                            <span className="px-2 py-1 rounded-full text-xs bg-purple-100 text-purple-800">
+                              {getRequestTypeLabel(question.requestType)}
+                            </span>
+                            <span className={`px-2 py-1 rounded-full text-xs ${getStatusColorClass(question.status)}`}>
+                              {getStatusLabel(question.status)}
+                            </span>
+                            <span className={`px-2 py-1 rounded-full text-xs ${getPriorityColorClass(question.priority)}`}>
+                              {getPriorityLabel(question.priority)}
+                            </span>
+                          </div>
+                        </div>
+                        <div className="mt-2 flex flex-wrap gap-1">
+                          {question.tags.map((tag) => (
+                            <Link
+                              key={tag}
+                              href={getTagPath(tag)}
+                              className="px-2 py-1 bg-gray-100 text-gray-600 rounded text-xs hover:bg-gray-200"
+                            >
+                              {tag}
+                            </Link>
+                          ))}
                         </div>
                       </div>
-                      <div className="flex items-center gap-2">
-                        <span className={`px-2 py-1 rounded-full text-xs ${getStatusColorClass(question.status)}`}>
-                          {getStatusLabel(question.status)}
-                        </span>
-                        <span className={`px-2 py-1 rounded-full text-xs ${getPriorityColorClass(question.priority)}`}>
-                          {getPriorityLabel(question.priority)}
-                        </span>
-                      </div>
-                    </div>
-                    <div className="mt-2 flex flex-wrap gap-1">
-                      {question.tags.map((tag) => (
-                        <span
-                          key={tag}
-                          className="px-2 py-1 bg-gray-100 text-gray-600 rounded text-xs"
-                        >
-                          {tag}
-                        </span>
-                      ))}
-                    </div>
+                    ))}
                   </div>
-                ))}
-              </div>
-            )
-          })()}
-        </div>
+                )
+              })()}
+            </div>
+          </>
+        )}
       </div>
     </div>
   )
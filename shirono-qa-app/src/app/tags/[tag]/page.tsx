@@ -0,0 +1,189 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Box, Typography, CircularProgress } from '@mui/material'
+import AppHeader from '@/components/AppHeader'
+import { useTagCatalog } from '@/hooks/useTagCatalog'
+import { getTagKey, getTagPath } from '@/lib/tag-names'
+import { getRequestTypeLabel } from '@/lib/request-types'
+import { RequestType } from '@/types/question'
+
+interface Question {
+  id: string
+  title: string
+  status: string
+  requestType?: RequestType
+  tags: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+interface User {
+  id: string
+  username: string
+  isAdmin: boolean
+}
+
+const STATUS_FILTERS: { label: string; value: string }[] = [
+  { label: '未回答・回答済み', value: 'unanswered,answered' },
+  { label: '解決済み', value: 'resolved' },
+  { label: 'すべて', value: '' }
+]
+
+// ルートパラメータはエンコードされたまま渡されることがある
+function decodeTagParam(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+export default function TagPage() {
+  const params = useParams()
+  const router = useRouter()
+  const tagName = decodeTagParam(params.tag as string)
+
+  const [user, setUser] = useState<User | null>(null)
+  const [questions, setQuestions] = useState<Question[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState('')
+  const catalog = useTagCatalog(!!user)
+
+  // 同義語でアクセスされた場合も正式名のタグとして表示する
+  const catalogTag = catalog.find(tag =>
+    [tag.name, ...tag.synonyms].some(name => getTagKey(name) === getTagKey(tagName))
+  )
+  const canonicalName = catalogTag?.name ?? tagName
+
+  const getStatusLabel = (status: string) => {
+    switch (status) {
+      case 'unanswered': return '未回答'
+      case 'answered': return '回答済み'
+      case 'resolved': return '解決済み'
+      case 'rejected': return '却下'
+      case 'closed': return 'クローズ'
+      default: return status
+    }
+  }
+
+  const loadQuestions = useCallback(async () => {
+    try {
+      setIsLoading(true)
+
+      const params = new URLSearchParams({ tag: canonicalName })
+      if (statusFilter) {
+        params.append('status', statusFilter)
+      }
+
+      const response = await fetch(`/api/questions?${params.toString()}`)
+      if (response.ok) {
+        const data = await response.json()
+        setQuestions(data.questions || [])
+      }
+    } catch (error) {
+      console.error('Failed to load questions:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [canonicalName, statusFilter])
+
+  useEffect(() => {
+    if (user) {
+      loadQuestions()
+    }
+  }, [user, loadQuestions])
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title={`タグ: ${canonicalName}`} onUserLoaded={setUser} />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6 bg-white shadow rounded-lg p-6">
+          <h1 className="text-2xl font-bold text-gray-900">#{canonicalName}</h1>
+          {catalogTag?.description && (
+            <p className="mt-2 text-gray-700 whitespace-pre-wrap">{catalogTag.description}</p>
+          )}
+          {catalogTag && catalogTag.synonyms.length > 0 && (
+            <p className="mt-2 text-sm text-gray-500">
+              同義語: {catalogTag.synonyms.join(', ')}
+            </p>
+          )}
+        </div>
+
+        <div className="mb-6 flex flex-wrap gap-2 items-center">
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter.label}
+              onClick={() => setStatusFilter(filter.value)}
+              className={`px-3 py-1 rounded-full text-sm ${statusFilter === filter.value
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+                }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <Box display="flex" justifyContent="center" alignItems="center" minHeight="200px">
+            <CircularProgress />
+            <Typography variant="body1" sx={{ ml: 2 }}>Loading...</Typography>
+          </Box>
+        ) : (
+          <div className="bg-white shadow rounded-lg">
+            {questions.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                このタグの投稿はありません
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {questions.map((question) => (
+                  <div key={question.id} className="p-6 hover:bg-gray-50">
+                    <div className="flex items-start justify-between">
+                      <h3
+                        className="text-lg font-medium text-gray-900 mb-2 cursor-pointer hover:text-indigo-600"
+                        onClick={() => router.push(`/questions/${question.id}`)}
+                      >
+                        {question.title}
+                      </h3>
+                      <div className="flex items-center gap-2">
+                        <span className="px-2 py-1 rounded-full text-xs bg-purple-100 text-purple-800">
+                          {getRequestTypeLabel(question.requestType)}
+                        </span>
+                        <span className="px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-800">
+                          {getStatusLabel(question.status)}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-4 text-sm text-gray-500">
+                      <span>作成日: {new Date(question.createdAt).toLocaleDateString()}</span>
+                      <span>更新日: {new Date(question.updatedAt).toLocaleDateString()}</span>
+                    </div>
+                    <div className="mt-2 flex flex-wrap gap-1">
+                      {question.tags.map((tag) => (
+                        <Link
+                          key={tag}
+                          href={getTagPath(tag)}
+                          className={`px-2 py-1 rounded text-xs ${getTagKey(tag) === getTagKey(canonicalName)
+                              ? 'bg-indigo-100 text-indigo-700'
+                              : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                            }`}
+                        >
+                          {tag}
+                        </Link>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,11 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useRef } from 'react'
 import { Answer } from '../types/answer'
 import { updateAnswer } from '../lib/answers'
+import MarkdownPreviewTabs from './MarkdownPreviewTabs'
+import MentionSuggestionList from './MentionSuggestionList'
+import { useMentionSuggestions } from '../hooks/useMentionSuggestions'
 
 interface AnswerFormProps {
   mode: 'create' | 'edit'
@@ -12,8 +15,10 @@ interface AnswerFormProps {
   onCancel: () => void
 }
 
-export default function AnswerForm({ mode, answer, onSuccess, onCancel }: AnswerFormProps) {
+export default function AnswerForm({ mode, questionId, answer, onSuccess, onCancel }: AnswerFormProps) {
   const [content, setContent] = useState(answer?.content || '')
+  const contentRef = useRef<HTMLTextAreaElement | null>(null)
+  const mentions = useMentionSuggestions(questionId, content, setContent, contentRef)
   const [attachments, setAttachments] = useState<File[]>([])
   const [errors, setErrors] = useState<{ content?: string; general?: string }>({})
   const [isLoading, setIsLoading] = useState(false)
@@ -73,15 +78,28 @@ export default function AnswerForm({ mode, answer, onSuccess, onCancel }: Answer
         <label htmlFor="answer-content" className="block text-sm font-medium text-gray-700">
           Answer Content
         </label>
-        <textarea
-          id="answer-content"
-          value={content}
-          onChange={(e) => setContent(e.target.value)}
-          rows={6}
-          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-          maxLength={10000}
-          placeholder="Provide your answer here..."
-        />
+        <MarkdownPreviewTabs content={content}>
+          <div className="relative">
+            <textarea
+              id="answer-content"
+              ref={contentRef}
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value)
+                mentions.update(e.target.value, e.target.selectionStart)
+              }}
+              onKeyDown={mentions.handleKeyDown}
+              onBlur={mentions.close}
+              rows={6}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              maxLength={10000}
+              placeholder="Provide your answer here..."
+            />
+            {mentions.open && (
+              <MentionSuggestionList users={mentions.users} highlighted={mentions.highlighted} onSelect={mentions.select} />
+            )}
+          </div>
+        </MarkdownPreviewTabs>
         {errors.content && (
           <p className="mt-1 text-sm text-red-600">{errors.content}</p>
         )}
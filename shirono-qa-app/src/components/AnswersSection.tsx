@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react'
+import { useState, useEffect, useCallback, forwardRef, useImperativeHandle, ReactNode } from 'react'
 import {
   Box,
   Typography,
@@ -10,20 +10,43 @@ import {
   Paper,
   Stack,
   Avatar,
+  Button,
+  Chip,
+  Alert,
+  Link,
 } from '@mui/material'
 import {
   Reply as ReplyIcon,
   AdminPanelSettings as AdminIcon,
   Person as PersonIcon,
+  CheckCircle as AcceptedIcon,
+  CheckCircleOutline as AcceptIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  ExpandMore as ExpandIcon,
+  ExpandLess as CollapseIcon,
+  ThumbUp as HelpfulIcon,
+  ThumbUpOutlined as NotHelpfulIcon,
 } from '@mui/icons-material'
 import { Answer, Comment } from '@/types/answer'
+import { Question } from '@/types/question'
 import { User } from '@/types/auth'
 import AttachmentList from '@/components/AttachmentList'
+import RevisionHistoryDialog from '@/components/RevisionHistoryDialog'
+import MarkdownContent from '@/components/MarkdownContent'
+import MarkdownEditor from '@/components/MarkdownEditor'
+import { buildCommentThreads, countReplies, CommentThread, MAX_COMMENT_DEPTH } from '@/lib/comment-threads'
+
+type PostType = 'answer' | 'comment'
 
 interface AnswersSectionProps {
   questionId: string
+  currentUser?: User | null              // 投稿者・管理者は回答・コメントを編集できる
+  acceptedAnswerId?: string
+  canAcceptAnswer?: boolean              // 質問投稿者・管理者のみベストアンサーを選べる
   onAnswersUpdate?: (answers: Answer[]) => void
   onCommentsUpdate?: (comments: Comment[]) => void
+  onAcceptedAnswerChange?: (question: Question) => void
 }
 
 export interface AnswersSectionRef {
@@ -34,14 +57,31 @@ export interface AnswersSectionRef {
 
 const AnswersSection = forwardRef<AnswersSectionRef, AnswersSectionProps>(({ 
   questionId, 
+  currentUser,
+  acceptedAnswerId,
+  canAcceptAnswer = false,
   onAnswersUpdate,
-  onCommentsUpdate 
+  onCommentsUpdate,
+  onAcceptedAnswerChange
 }, ref) => {
   const [answers, setAnswers] = useState<Answer[]>([])
   const [comments, setComments] = useState<Comment[]>([])
   const [userCache, setUserCache] = useState<{ [key: string]: User }>({})
   const [loading, setLoading] = useState(true)
   const [loadingUsers, setLoadingUsers] = useState<Set<string>>(new Set())
+  const [accepting, setAccepting] = useState(false)
+  const [acceptError, setAcceptError] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ type: PostType; id: string; content: string } | null>(null)
+  const [savingEdit, setSavingEdit] = useState(false)
+  const [editError, setEditError] = useState<string | null>(null)
+  const [historyTarget, setHistoryTarget] = useState<{ type: PostType; id: string } | null>(null)
+  const [replying, setReplying] = useState<{ parentId: string; content: string } | null>(null)
+  const [postingReply, setPostingReply] = useState(false)
+  const [replyError, setReplyError] = useState<string | null>(null)
+  const [collapsedThreads, setCollapsedThreads] = useState<Set<string>>(new Set())
+  const [deletingCommentId, setDeletingCommentId] = useState<string | null>(null)
+  const [deleteError, setDeleteError] = useState<string | null>(null)
+  const [votingId, setVotingId] = useState<string | null>(null)
 
   const fetchUserInfo = useCallback(async (userId: string): Promise<User | null> => {
     if (userCache[userId]) {
@@ -179,6 +219,403 @@ const AnswersSection = forwardRef<AnswersSectionRef, AnswersSectionProps>(({
     reloadData
   }), [addAnswer, addComment, reloadData])
 
+  // ベストアンサーの採用・取り消し（answerId が null の場合は取り消し）
+  const handleAcceptAnswer = async (answerId: string | null) => {
+    try {
+      setAccepting(true)
+      setAcceptError(null)
+
+      const response = await fetch(`/api/questions/${questionId}/accepted-answer`, {
+        method: answerId ? 'PUT' : 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        ...(answerId && { body: JSON.stringify({ answerId }) })
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        setAcceptError(data.error?.message || 'ベストアンサーの更新に失敗しました')
+        return
+      }
+
+      onAcceptedAnswerChange?.(data.question)
+    } catch (err) {
+      console.error('Error updating accepted answer:', err)
+      setAcceptError('ベストアンサーの更新に失敗しました')
+    } finally {
+      setAccepting(false)
+    }
+  }
+
+  // 編集・ロールバック後の回答・コメントを反映
+  const applyPostUpdate = (type: PostType, updated: Answer | Comment) => {
+    if (type === 'answer') {
+      const next = answers.map(answer => answer.id === updated.id ? updated as Answer : answer)
+      setAnswers(next)
+      onAnswersUpdate?.(next)
+    } else {
+      const next = comments.map(comment => comment.id === updated.id ? updated as Comment : comment)
+      setComments(next)
+      onCommentsUpdate?.(next)
+    }
+  }
+
+  const handleSaveEdit = async () => {
+    if (!editing) return
+
+    try {
+      setSavingEdit(true)
+      setEditError(null)
+
+      const response = await fetch(`/api/${editing.type}s/${editing.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content: editing.content })
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        setEditError(data.error?.message || '更新に失敗しました')
+        return
+      }
+
+      applyPostUpdate(editing.type, data[editing.type])
+      setEditing(null)
+    } catch (err) {
+      console.error('Error saving edit:', err)
+      setEditError('更新に失敗しました')
+    } finally {
+      setSavingEdit(false)
+    }
+  }
+
+  // コメントへの返信を投稿
+  const handleSubmitReply = async () => {
+    if (!replying) return
+
+    try {
+      setPostingReply(true)
+      setReplyError(null)
+
+      const formData = new FormData()
+      formData.append('content', replying.content.trim())
+      formData.append('parentCommentId', replying.parentId)
+      formData.append('fileCount', '0')
+
+      const response = await fetch(`/api/questions/${questionId}/comments`, {
+        method: 'POST',
+        body: formData
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        setReplyError(data.error || '返信の投稿に失敗しました')
+        return
+      }
+
+      addComment(data.comment)
+      setCollapsedThreads(prev => {
+        const next = new Set(prev)
+        next.delete(replying.parentId)
+        return next
+      })
+      setReplying(null)
+    } catch (err) {
+      console.error('Error posting reply:', err)
+      setReplyError('返信の投稿に失敗しました')
+    } finally {
+      setPostingReply(false)
+    }
+  }
+
+  // コメントを削除（返信がある場合は削除済みとして残る）
+  const handleDeleteComment = async (commentId: string) => {
+    if (!confirm('このコメントを削除しますか？')) {
+      return
+    }
+
+    try {
+      setDeletingCommentId(commentId)
+      setDeleteError(null)
+
+      const response = await fetch(`/api/comments/${commentId}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        setDeleteError(data.error?.message || 'コメントの削除に失敗しました')
+        return
+      }
+
+      // スレッドの形は再取得して反映する
+      loadAnswersAndComments()
+    } catch (err) {
+      console.error('Error deleting comment:', err)
+      setDeleteError('コメントの削除に失敗しました')
+    } finally {
+      setDeletingCommentId(null)
+    }
+  }
+
+  const toggleThread = (commentId: string) => {
+    setCollapsedThreads(prev => {
+      const next = new Set(prev)
+      if (next.has(commentId)) {
+        next.delete(commentId)
+      } else {
+        next.add(commentId)
+      }
+      return next
+    })
+  }
+
+  // 「役に立った」を付ける・取り消す
+  const handleHelpfulToggle = async (type: PostType, item: Answer | Comment) => {
+    if (!currentUser) return
+
+    const voted = !!item.helpfulVoterIds?.includes(currentUser.id)
+    try {
+      setVotingId(item.id)
+
+      const response = await fetch(`/api/${type}s/${item.id}/helpful`, {
+        method: voted ? 'DELETE' : 'POST'
+      })
+
+      const data = await response.json()
+      if (response.ok && data.success) {
+        applyPostUpdate(type, data[type])
+      }
+    } catch (err) {
+      console.error('Error updating helpful vote:', err)
+    } finally {
+      setVotingId(null)
+    }
+  }
+
+  // 「役に立った」ボタン（自分の投稿には付けられない）
+  const renderHelpfulButton = (type: PostType, item: Answer | Comment) => {
+    const voted = !!currentUser && !!item.helpfulVoterIds?.includes(currentUser.id)
+    const count = item.helpfulCount || 0
+
+    return (
+      <Button
+        size="small"
+        color={voted ? 'primary' : 'inherit'}
+        startIcon={voted ? <HelpfulIcon /> : <NotHelpfulIcon />}
+        onClick={() => handleHelpfulToggle(type, item)}
+        disabled={!currentUser || currentUser.id === item.authorId || votingId === item.id}
+      >
+        役に立った{count > 0 && ` (${count})`}
+      </Button>
+    )
+  }
+
+  const canEdit = (authorId: string) => !!currentUser && (currentUser.isAdmin || currentUser.id === authorId)
+
+  // 本文（編集中は入力欄）と、編集・履歴表示のリンク
+  const renderPostBody = (type: PostType, item: Answer | Comment) => {
+    if (editing?.type === type && editing.id === item.id) {
+      return (
+        <Box>
+          <MarkdownEditor
+            rows={3}
+            value={editing.content}
+            onChange={(content) => setEditing({ ...editing, content })}
+            disabled={savingEdit}
+            mentionQuestionId={questionId}
+          />
+          {editError && (
+            <Alert severity="error" sx={{ mt: 1 }} onClose={() => setEditError(null)}>
+              {editError}
+            </Alert>
+          )}
+          <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+            <Button
+              size="small"
+              variant="contained"
+              onClick={handleSaveEdit}
+              disabled={savingEdit || !editing.content.trim()}
+            >
+              保存
+            </Button>
+            <Button size="small" onClick={() => setEditing(null)} disabled={savingEdit}>
+              キャンセル
+            </Button>
+          </Stack>
+        </Box>
+      )
+    }
+
+    return (
+      <>
+        <MarkdownContent
+          content={item.content}
+          html={item.contentHtml}
+          variant={type === 'answer' ? 'body1' : 'body2'}
+        />
+        {(item.editedAt || canEdit(item.authorId)) && (
+          <Stack direction="row" spacing={2} alignItems="center" sx={{ mt: 1 }}>
+            {canEdit(item.authorId) && (
+              <Button
+                size="small"
+                startIcon={<EditIcon />}
+                onClick={() => {
+                  setEditError(null)
+                  setEditing({ type, id: item.id, content: item.content })
+                }}
+              >
+                編集
+              </Button>
+            )}
+            {item.editedAt && (
+              <Link
+                component="button"
+                variant="caption"
+                onClick={() => setHistoryTarget({ type, id: item.id })}
+              >
+                編集済み · 履歴を表示
+              </Link>
+            )}
+          </Stack>
+        )}
+      </>
+    )
+  }
+
+  // コメントと返信（MAX_COMMENT_DEPTH より深い返信は字下げせずに並べる）
+  const renderCommentThread = (thread: CommentThread, depth: number): ReactNode => {
+    const comment = thread.comment
+    const collapsed = collapsedThreads.has(comment.id)
+    const replyCount = countReplies(thread)
+
+    const threadToggle = thread.replies.length > 0 && (
+      <Button
+        size="small"
+        startIcon={collapsed ? <ExpandIcon /> : <CollapseIcon />}
+        onClick={() => toggleThread(comment.id)}
+      >
+        {collapsed ? `返信を表示 (${replyCount})` : `返信を隠す (${replyCount})`}
+      </Button>
+    )
+
+    return (
+      <Box key={`comment-${comment.id}`} sx={{ ml: depth === 0 ? 4 : depth <= MAX_COMMENT_DEPTH ? 3 : 0 }}>
+        {comment.deletedAt ? (
+          <Paper elevation={0} sx={{ mb: 2, px: 2, py: 1, border: '1px dashed', borderColor: 'divider' }}>
+            <Typography variant="body2" color="text.secondary" sx={{ fontStyle: 'italic', py: 0.5 }}>
+              このコメントは削除されました
+            </Typography>
+            {threadToggle}
+          </Paper>
+        ) : (
+          <Paper elevation={0} sx={{ mb: 2, border: '1px solid', borderColor: 'divider' }}>
+            <CardHeader
+              avatar={
+                <Avatar sx={{
+                  bgcolor: userCache[comment.authorId]?.isAdmin ? 'success.main' : 'grey.400',
+                  width: 32,
+                  height: 32
+                }}>
+                  {userCache[comment.authorId]?.isAdmin ?
+                    <AdminIcon sx={{ fontSize: 18 }} /> :
+                    <PersonIcon sx={{ fontSize: 18 }} />
+                  }
+                </Avatar>
+              }
+              title={
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <Typography variant="subtitle2" color="text.secondary">
+                    {depth === 0 ? 'コメント' : '返信'}
+                  </Typography>
+                  {isUserLoaded(comment.authorId) && (
+                    <Typography variant="caption" color="text.primary">
+                      - {getUserDisplayName(comment.authorId)}
+                    </Typography>
+                  )}
+                </Stack>
+              }
+              subheader={
+                <Typography variant="caption" color="text.secondary">
+                  {new Date(comment.createdAt).toLocaleDateString('ja-JP')} {new Date(comment.createdAt).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}
+                </Typography>
+              }
+              sx={{ pb: 1 }}
+            />
+            <CardContent sx={{ pt: 0 }}>
+              {renderPostBody('comment', comment)}
+              {/* 添付ファイル */}
+              {comment.attachments && comment.attachments.length > 0 && (
+                <Box mt={1}>
+                  <AttachmentList attachments={comment.attachments} />
+                </Box>
+              )}
+              <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 1 }}>
+                {renderHelpfulButton('comment', comment)}
+                {currentUser && (
+                  <Button
+                    size="small"
+                    startIcon={<ReplyIcon />}
+                    onClick={() => {
+                      setReplyError(null)
+                      setReplying({ parentId: comment.id, content: '' })
+                    }}
+                    disabled={postingReply}
+                  >
+                    返信
+                  </Button>
+                )}
+                {canEdit(comment.authorId) && (
+                  <Button
+                    size="small"
+                    color="error"
+                    startIcon={<DeleteIcon />}
+                    onClick={() => handleDeleteComment(comment.id)}
+                    disabled={deletingCommentId === comment.id}
+                  >
+                    削除
+                  </Button>
+                )}
+                {threadToggle}
+              </Stack>
+              {replying?.parentId === comment.id && (
+                <Box sx={{ mt: 1 }}>
+                  <MarkdownEditor
+                    rows={3}
+                    value={replying.content}
+                    onChange={(content) => setReplying({ ...replying, content })}
+                    placeholder="返信を入力..."
+                    disabled={postingReply}
+                    mentionQuestionId={questionId}
+                  />
+                  {replyError && (
+                    <Alert severity="error" sx={{ mt: 1 }} onClose={() => setReplyError(null)}>
+                      {replyError}
+                    </Alert>
+                  )}
+                  <Stack direction="row" spacing={1} sx={{ mt: 1 }}>
+                    <Button
+                      size="small"
+                      variant="contained"
+                      onClick={handleSubmitReply}
+                      disabled={postingReply || !replying.content.trim()}
+                    >
+                      {postingReply ? '投稿中...' : '返信する'}
+                    </Button>
+                    <Button size="small" onClick={() => setReplying(null)} disabled={postingReply}>
+                      キャンセル
+                    </Button>
+                  </Stack>
+                </Box>
+              )}
+            </CardContent>
+          </Paper>
+        )}
+        {!collapsed && thread.replies.map(reply => renderCommentThread(reply, depth + 1))}
+      </Box>
+    )
+  }
+
   if (loading) {
     return (
       <Box>
@@ -194,19 +631,42 @@ const AnswersSection = forwardRef<AnswersSectionRef, AnswersSectionProps>(({
     )
   }
 
-  // 回答とコメントを統合して時系列順にソート
+  // 回答とコメントのスレッドを統合して「役に立った」の多い順、同数は時系列順にソート（ベストアンサーは先頭に固定）
   const allItems = [
     ...answers.map(answer => ({ ...answer, type: 'answer' as const })),
-    ...comments.map(comment => ({ ...comment, type: 'comment' as const }))
-  ].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+    ...buildCommentThreads(comments).map(thread => ({ ...thread.comment, type: 'comment' as const, thread }))
+  ].sort((a, b) => {
+    const aAccepted = a.type === 'answer' && a.id === acceptedAnswerId
+    const bAccepted = b.type === 'answer' && b.id === acceptedAnswerId
+    if (aAccepted !== bAccepted) {
+      return aAccepted ? -1 : 1
+    }
+    const helpfulDiff = (b.helpfulCount || 0) - (a.helpfulCount || 0)
+    if (helpfulDiff !== 0) {
+      return helpfulDiff
+    }
+    return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  })
 
   return (
     <Box>
       <Typography variant="h5" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
         <ReplyIcon />
-        回答・コメント ({answers.length + comments.length})
+        回答・コメント ({answers.length + comments.filter(comment => !comment.deletedAt).length})
       </Typography>
 
+      {acceptError && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setAcceptError(null)}>
+          {acceptError}
+        </Alert>
+      )}
+
+      {deleteError && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setDeleteError(null)}>
+          {deleteError}
+        </Alert>
+      )}
+
       {allItems.length === 0 ? (
         <Paper sx={{ p: 4, textAlign: 'center', mb: 3 }}>
           <Typography variant="body1" color="text.secondary">
@@ -216,8 +676,14 @@ const AnswersSection = forwardRef<AnswersSectionRef, AnswersSectionProps>(({
       ) : (
         allItems.map((item) => {
           if (item.type === 'answer') {
+            const isAccepted = item.id === acceptedAnswerId
             return (
-              <Paper key={`answer-${item.id}`} elevation={1} sx={{ mb: 2 }}>
+              <Paper
+                key={`answer-${item.id}`}
+                elevation={1}
+                data-testid={isAccepted ? 'accepted-answer' : undefined}
+                sx={{ mb: 2, ...(isAccepted && { border: 2, borderColor: 'success.main' }) }}
+              >
                 <CardHeader
                   avatar={
                     <Avatar sx={{
@@ -236,8 +702,27 @@ const AnswersSection = forwardRef<AnswersSectionRef, AnswersSectionProps>(({
                           - {getUserDisplayName(item.authorId)}
                         </Typography>
                       )}
+                      {isAccepted && (
+                        <Chip
+                          icon={<AcceptedIcon />}
+                          label="ベストアンサー"
+                          color="success"
+                          size="small"
+                        />
+                      )}
                     </Stack>
                   }
+                  action={canAcceptAnswer && (
+                    <Button
+                      size="small"
+                      color={isAccepted ? 'inherit' : 'success'}
+                      startIcon={isAccepted ? undefined : <AcceptIcon />}
+                      onClick={() => handleAcceptAnswer(isAccepted ? null : item.id)}
+                      disabled={accepting}
+                    >
+                      {isAccepted ? 'ベストアンサーを取り消す' : 'ベストアンサーにする'}
+                    </Button>
+                  )}
                   subheader={
                     <Typography variant="caption" color="text.secondary">
                       {new Date(item.createdAt).toLocaleDateString('ja-JP')} {new Date(item.createdAt).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}
@@ -246,69 +731,41 @@ const AnswersSection = forwardRef<AnswersSectionRef, AnswersSectionProps>(({
                   sx={{ pb: 1 }}
                 />
                 <CardContent sx={{ pt: 0 }}>
-                  <Typography variant="body1" sx={{ whiteSpace: 'pre-wrap', lineHeight: 1.7 }}>
-                    {item.content}
-                  </Typography>
+                  {renderPostBody('answer', item)}
                   {/* 添付ファイル */}
                   {item.attachments && item.attachments.length > 0 && (
                     <Box mt={2}>
                       <AttachmentList attachments={item.attachments} />
                     </Box>
                   )}
+                  <Box mt={1}>
+                    {renderHelpfulButton('answer', item)}
+                  </Box>
                 </CardContent>
               </Paper>
             )
           } else {
-            return (
-              <Paper key={`comment-${item.id}`} elevation={0} sx={{ mb: 2, ml: 4, border: '1px solid', borderColor: 'divider' }}>
-                <CardHeader
-                  avatar={
-                    <Avatar sx={{
-                      bgcolor: userCache[item.authorId]?.isAdmin ? 'success.main' : 'grey.400',
-                      width: 32,
-                      height: 32
-                    }}>
-                      {userCache[item.authorId]?.isAdmin ?
-                        <AdminIcon sx={{ fontSize: 18 }} /> :
-                        <PersonIcon sx={{ fontSize: 18 }} />
-                      }
-                    </Avatar>
-                  }
-                  title={
-                    <Stack direction="row" spacing={1} alignItems="center">
-                      <Typography variant="subtitle2" color="text.secondary">
-                        コメント
-                      </Typography>
-                      {isUserLoaded(item.authorId) && (
-                        <Typography variant="caption" color="text.primary">
-                          - {getUserDisplayName(item.authorId)}
-                        </Typography>
-                      )}
-                    </Stack>
-                  }
-                  subheader={
-                    <Typography variant="caption" color="text.secondary">
-                      {new Date(item.createdAt).toLocaleDateString('ja-JP')} {new Date(item.createdAt).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' })}
-                    </Typography>
-                  }
-                  sx={{ pb: 1 }}
-                />
-                <CardContent sx={{ pt: 0 }}>
-                  <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', lineHeight: 1.6 }}>
-                    {item.content}
-                  </Typography>
-                  {/* 添付ファイル */}
-                  {item.attachments && item.attachments.length > 0 && (
-                    <Box mt={1}>
-                      <AttachmentList attachments={item.attachments} />
-                    </Box>
-                  )}
-                </CardContent>
-              </Paper>
-            )
+            return renderCommentThread(item.thread, 0)
           }
         })
       )}
+
+      {/* 編集履歴ダイアログ */}
+      {historyTarget && (
+        <RevisionHistoryDialog
+          open
+          targetType={historyTarget.type}
+          targetId={historyTarget.id}
+          canRollback={!!currentUser?.isAdmin}
+          onClose={() => setHistoryTarget(null)}
+          onRolledBack={({ answer, comment }) => {
+            const updated = historyTarget.type === 'answer' ? answer : comment
+            if (updated) {
+              applyPostUpdate(historyTarget.type, updated)
+            }
+          }}
+        />
+      )}
     </Box>
   )
 })
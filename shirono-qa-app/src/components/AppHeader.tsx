@@ -68,6 +68,14 @@ export default function AppHeader({ title, breadcrumbItems = [], onUserLoaded }:
     } else if (pathname.startsWith('/admin/groups')) {
       items.push({ label: '管理', href: '/admin' })
       items.push({ label: 'グループ管理', current: true })
+    } else if (pathname.startsWith('/admin/request-templates')) {
+      items.push({ label: '管理', href: '/admin' })
+      items.push({ label: '依頼テンプレート管理', current: true })
+    } else if (pathname.startsWith('/admin/tags')) {
+      items.push({ label: '管理', href: '/admin' })
+      items.push({ label: 'タグ管理', current: true })
+    } else if (pathname.startsWith('/tags/')) {
+      items.push({ label: 'タグ', current: true })
     } else if (pathname === '/questions') {
       items[0].current = true
       delete items[0].href
@@ -11,6 +11,8 @@ import {
   IconButton,
   Alert,
   CircularProgress,
+  Tooltip,
+  Chip,
 } from '@mui/material'
 import {
   Download as DownloadIcon,
@@ -20,8 +22,14 @@ import {
   TableChart as SheetIcon,
   Slideshow as PresentationIcon,
   Code as CodeIcon,
+  Link as LinkIcon,
+  Block as BlockIcon,
+  Visibility as PreviewIcon,
 } from '@mui/icons-material'
-import { Attachment } from '@/types/question'
+import { Attachment, AttachmentScanStatus } from '@/types/question'
+import { getAttachmentShareUrl } from '@/lib/attachment-id'
+import { canPreviewAttachment, getAttachmentPreviewUrl, getPreviewKind } from '@/lib/attachment-preview'
+import AttachmentPreviewDialog from './AttachmentPreviewDialog'
 
 interface AttachmentListProps {
   attachments: Attachment[]
@@ -30,6 +38,9 @@ interface AttachmentListProps {
 export default function AttachmentList({ attachments }: AttachmentListProps) {
   const [downloadingFiles, setDownloadingFiles] = useState<Set<string>>(new Set())
   const [errors, setErrors] = useState<{ [key: string]: string }>({})
+  const [copiedFile, setCopiedFile] = useState<string | null>(null)
+  const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null)
+  const [failedThumbnails, setFailedThumbnails] = useState<Set<string>>(new Set())
 
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 B'
@@ -75,6 +86,26 @@ export default function AttachmentList({ attachments }: AttachmentListProps) {
     }
   }
 
+  // 画像・PDF はサムネイルを表示（取得できない場合はアイコン）
+  const renderThumbnail = (attachment: Attachment) => {
+    const kind = getPreviewKind(attachment.fileName)
+    if ((kind !== 'image' && kind !== 'pdf') || !canPreviewAttachment(attachment) || failedThumbnails.has(attachment.blobUrl)) {
+      return getFileIcon(attachment.fileName)
+    }
+
+    return (
+      <Box
+        component="img"
+        src={getAttachmentPreviewUrl(attachment.blobUrl, 'small')}
+        alt=""
+        loading="lazy"
+        onClick={() => setPreviewAttachment(attachment)}
+        onError={() => setFailedThumbnails(prev => new Set(prev).add(attachment.blobUrl))}
+        sx={{ width: 40, height: 40, objectFit: 'cover', borderRadius: 1, border: 1, borderColor: 'grey.300', cursor: 'pointer' }}
+      />
+    )
+  }
+
   const getFileTypeLabel = (fileName: string): string => {
     const extension = fileName.split('.').pop()?.toUpperCase()
     return extension || 'FILE'
@@ -139,29 +170,110 @@ export default function AttachmentList({ attachments }: AttachmentListProps) {
     }
   }
 
-  if (attachments.length === 0) {
+  // グループ内で共有するためのダウンロードリンクをコピー
+  const handleCopyLink = async (attachment: Attachment) => {
+    const shareUrl = getAttachmentShareUrl(attachment, window.location.origin)
+    if (!shareUrl) {
+      return
+    }
+
+    try {
+      await navigator.clipboard.writeText(shareUrl)
+      setCopiedFile(attachment.fileName)
+      setTimeout(() => setCopiedFile(null), 2000)
+    } catch (error) {
+      console.error('Copy link error:', error)
+      setErrors(prev => ({
+        ...prev,
+        [attachment.fileName]: 'リンクのコピーに失敗しました'
+      }))
+    }
+  }
+
+  // スキャン中・隔離中の状態表示（ダウンロードはサーバー側でも拒否される）
+  const renderScanStatus = (attachment: Attachment) => {
+    if (attachment.scanStatus === AttachmentScanStatus.PENDING) {
+      return (
+        <Chip
+          size="small"
+          label="スキャン中"
+          icon={<CircularProgress size={12} />}
+          sx={{ ml: 1 }}
+        />
+      )
+    }
+
+    if (attachment.scanStatus === AttachmentScanStatus.QUARANTINED) {
+      return (
+        <Tooltip title={attachment.scanDetail ? `検出: ${attachment.scanDetail}` : 'マルウェアが検出されました'}>
+          <Chip
+            size="small"
+            color="error"
+            label="ブロック"
+            icon={<BlockIcon />}
+            sx={{ ml: 1 }}
+          />
+        </Tooltip>
+      )
+    }
+
+    return null
+  }
+
+  const isDownloadable = (attachment: Attachment) =>
+    attachment.scanStatus !== AttachmentScanStatus.PENDING &&
+    attachment.scanStatus !== AttachmentScanStatus.QUARANTINED
+
+  // 本文に貼り付けた画像は本文中に表示されるため一覧には出さない
+  const listedAttachments = attachments.filter(attachment => !attachment.inline)
+
+  if (listedAttachments.length === 0) {
     return null
   }
 
   return (
     <Box sx={{ mt: 3 }}>
       <List>
-        {attachments.map((attachment, index) => (
+        {listedAttachments.map((attachment, index) => (
           <ListItem key={index} divider>
             <ListItemIcon>
-              {getFileIcon(attachment.fileName)}
+              {renderThumbnail(attachment)}
             </ListItemIcon>
 
             <ListItemText
-              primary={attachment.fileName}
+              primary={
+                <Box component="span" sx={{ display: 'inline-flex', alignItems: 'center' }}>
+                  {attachment.fileName}
+                  {renderScanStatus(attachment)}
+                </Box>
+              }
               secondary={`${getFileTypeLabel(attachment.fileName)} • ${formatFileSize(attachment.fileSize)}`}
             />
 
             <ListItemSecondaryAction>
+              {canPreviewAttachment(attachment) && (
+                <IconButton
+                  onClick={() => setPreviewAttachment(attachment)}
+                  aria-label="プレビュー"
+                >
+                  <PreviewIcon />
+                </IconButton>
+              )}
+              {/* 共有リンク導入前に添付されたファイルにはIDがないためリンクを出さない */}
+              {attachment.id && (
+                <Tooltip title={copiedFile === attachment.fileName ? 'リンクをコピーしました' : '共有リンクをコピー'}>
+                  <IconButton
+                    onClick={() => handleCopyLink(attachment)}
+                    aria-label="共有リンクをコピー"
+                  >
+                    <LinkIcon />
+                  </IconButton>
+                </Tooltip>
+              )}
               <IconButton
                 edge="end"
                 onClick={() => handleDownload(attachment)}
-                disabled={downloadingFiles.has(attachment.fileName)}
+                disabled={downloadingFiles.has(attachment.fileName) || !isDownloadable(attachment)}
                 aria-label="ダウンロード"
               >
                 {downloadingFiles.has(attachment.fileName) ? (
@@ -188,6 +300,11 @@ export default function AttachmentList({ attachments }: AttachmentListProps) {
           {fileName}: {error}
         </Alert>
       ))}
+
+      <AttachmentPreviewDialog
+        attachment={previewAttachment}
+        onClose={() => setPreviewAttachment(null)}
+      />
     </Box>
   )
 }
\ No newline at end of file
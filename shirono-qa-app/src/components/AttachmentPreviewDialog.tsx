@@ -0,0 +1,185 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  Box,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  IconButton,
+  Alert,
+  CircularProgress,
+  Typography,
+} from '@mui/material'
+import { Close as CloseIcon } from '@mui/icons-material'
+import { Attachment } from '@/types/question'
+import {
+  getAttachmentPreviewUrl,
+  getPreviewKind,
+  PreviewLanguage,
+  PREVIEW_TEXT_MAX_BYTES,
+} from '@/lib/attachment-preview'
+import { highlightCode } from '@/lib/code-highlight'
+
+interface AttachmentPreviewDialogProps {
+  attachment: Attachment | null
+  onClose: () => void
+}
+
+interface TextPreview {
+  language: PreviewLanguage
+  content: string
+  truncated: boolean
+  size: number
+}
+
+function TextViewer({ preview }: { preview: TextPreview }) {
+  // 投稿本文のコードブロックと同じ highlight.js でハイライト（未対応の言語はそのまま表示）
+  const html = useMemo(() => highlightCode(preview.content, preview.language), [preview])
+  const lineNumbers = useMemo(
+    () => preview.content.split(/\r?\n/).map((_, index) => index + 1).join('\n'),
+    [preview]
+  )
+
+  return (
+    <Box
+      component="pre"
+      data-testid="text-preview"
+      sx={{
+        display: 'flex',
+        m: 0,
+        p: 2,
+        bgcolor: 'grey.50',
+        border: 1,
+        borderColor: 'grey.200',
+        borderRadius: 1,
+        fontFamily: 'monospace',
+        fontSize: '0.8125rem',
+        lineHeight: 1.6,
+        overflow: 'auto',
+        maxHeight: '70vh',
+      }}
+    >
+      <Box
+        component="span"
+        aria-hidden="true"
+        sx={{ color: 'text.disabled', userSelect: 'none', minWidth: '3em', textAlign: 'right', pr: 2 }}
+      >
+        {lineNumbers}
+      </Box>
+      {html ? (
+        <Box component="code" sx={{ whiteSpace: 'pre' }} dangerouslySetInnerHTML={{ __html: html }} />
+      ) : (
+        <Box component="code" sx={{ whiteSpace: 'pre' }}>{preview.content}</Box>
+      )}
+    </Box>
+  )
+}
+
+export default function AttachmentPreviewDialog({ attachment, onClose }: AttachmentPreviewDialogProps) {
+  const [textPreview, setTextPreview] = useState<TextPreview | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const kind = attachment ? getPreviewKind(attachment.fileName) : null
+
+  // テキストは開いた時点で内容を取得
+  useEffect(() => {
+    setTextPreview(null)
+    setError(null)
+
+    if (!attachment || kind !== 'text') {
+      return
+    }
+
+    let cancelled = false
+
+    const loadText = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(getAttachmentPreviewUrl(attachment.blobUrl), {
+          credentials: 'include'
+        })
+
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.error || `Preview failed: ${response.status}`)
+        }
+
+        if (!cancelled) {
+          setTextPreview(result)
+        }
+      } catch (err) {
+        console.error('Preview error:', err)
+        if (!cancelled) {
+          setError('プレビューを読み込めませんでした')
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false)
+        }
+      }
+    }
+
+    loadText()
+
+    return () => {
+      cancelled = true
+    }
+  }, [attachment, kind])
+
+  return (
+    <Dialog open={attachment !== null} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle sx={{ pr: 6 }}>
+        {attachment?.fileName}
+        <IconButton
+          onClick={onClose}
+          aria-label="閉じる"
+          sx={{ position: 'absolute', right: 8, top: 8 }}
+        >
+          <CloseIcon />
+        </IconButton>
+      </DialogTitle>
+
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error">{error}</Alert>
+        )}
+
+        {attachment && (kind === 'image' || kind === 'pdf') && !error && (
+          <Box display="flex" flexDirection="column" alignItems="center">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              src={getAttachmentPreviewUrl(attachment.blobUrl, 'large')}
+              alt={attachment.fileName}
+              style={{ maxWidth: '100%', maxHeight: '70vh', objectFit: 'contain' }}
+              onError={() => setError('プレビューを読み込めませんでした')}
+            />
+            {kind === 'pdf' && (
+              <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
+                1ページ目のプレビューです。全体はダウンロードして確認してください。
+              </Typography>
+            )}
+          </Box>
+        )}
+
+        {loading && (
+          <Box display="flex" justifyContent="center" p={4}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {textPreview && (
+          <>
+            {textPreview.truncated && (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                ファイルが大きいため、先頭 {Math.round(PREVIEW_TEXT_MAX_BYTES / 1024)} KB のみ表示しています。
+              </Alert>
+            )}
+            <TextViewer preview={textPreview} />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
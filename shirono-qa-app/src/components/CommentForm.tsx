@@ -1,6 +1,9 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useRef } from 'react'
+import MarkdownPreviewTabs from '@/components/MarkdownPreviewTabs'
+import MentionSuggestionList from '@/components/MentionSuggestionList'
+import { useMentionSuggestions } from '@/hooks/useMentionSuggestions'
 
 interface CommentFormProps {
   questionId: string
@@ -9,8 +12,10 @@ interface CommentFormProps {
   onCancel: () => void
 }
 
-export default function CommentForm({ answerId, onSuccess, onCancel }: CommentFormProps) {
+export default function CommentForm({ questionId, answerId, onSuccess, onCancel }: CommentFormProps) {
   const [content, setContent] = useState('')
+  const contentRef = useRef<HTMLTextAreaElement | null>(null)
+  const mentions = useMentionSuggestions(questionId, content, setContent, contentRef)
   const [attachments, setAttachments] = useState<File[]>([])
   const [errors, setErrors] = useState<{ content?: string; general?: string }>({})
   const [isLoading, setIsLoading] = useState(false)
@@ -63,16 +68,29 @@ export default function CommentForm({ answerId, onSuccess, onCancel }: CommentFo
         <label htmlFor="comment-content" className="block text-sm font-medium text-gray-700">
           {answerId ? 'Reply to this answer' : 'Comment on this question'}
         </label>
-        <textarea
-          id="comment-content"
-          value={content}
-          onChange={(e) => setContent(e.target.value)}
-          rows={3}
-          className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 ${isOverLimit ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
-            }`}
-          maxLength={maxLength + 100} // Allow typing a bit over limit for better UX
-          placeholder="Add your comment..."
-        />
+        <MarkdownPreviewTabs content={content}>
+          <div className="relative">
+            <textarea
+              id="comment-content"
+              ref={contentRef}
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value)
+                mentions.update(e.target.value, e.target.selectionStart)
+              }}
+              onKeyDown={mentions.handleKeyDown}
+              onBlur={mentions.close}
+              rows={3}
+              className={`mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 ${isOverLimit ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : ''
+                }`}
+              maxLength={maxLength + 100} // Allow typing a bit over limit for better UX
+              placeholder="Add your comment..."
+            />
+            {mentions.open && (
+              <MentionSuggestionList users={mentions.users} highlighted={mentions.highlighted} onSelect={mentions.select} />
+            )}
+          </div>
+        </MarkdownPreviewTabs>
         {errors.content && (
           <p className="mt-1 text-sm text-red-600">{errors.content}</p>
         )}
@@ -0,0 +1,138 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  Button,
+  TextField,
+  Autocomplete,
+  Alert,
+} from '@mui/material'
+import { Question } from '@/types/question'
+
+interface DuplicateQuestionDialogProps {
+  open: boolean
+  question: Question
+  onClose: () => void
+  onMarked: (question: Question) => void
+}
+
+// 検索結果として表示する件数
+const SEARCH_LIMIT = 10
+
+/**
+ * 質問を既存の質問の重複としてクローズするダイアログ（管理者用）
+ */
+export default function DuplicateQuestionDialog({ open, question, onClose, onMarked }: DuplicateQuestionDialogProps) {
+  const [searchText, setSearchText] = useState('')
+  const [options, setOptions] = useState<Question[]>([])
+  const [original, setOriginal] = useState<Question | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open) {
+      setSearchText('')
+      setOptions([])
+      setOriginal(null)
+      setError(null)
+    }
+  }, [open])
+
+  // 入力が止まってから元の質問の候補を検索
+  useEffect(() => {
+    if (!open || !searchText.trim()) {
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ search: searchText.trim(), limit: String(SEARCH_LIMIT) })
+        const response = await fetch(`/api/questions?${params.toString()}`)
+        const data = await response.json()
+        if (!cancelled && response.ok) {
+          setOptions((data.questions || []).filter((candidate: Question) => candidate.id !== question.id))
+        }
+      } catch (err) {
+        console.error('Error searching questions:', err)
+      }
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [open, searchText, question.id])
+
+  const handleSubmit = async () => {
+    if (!original) return
+
+    try {
+      setSubmitting(true)
+      setError(null)
+
+      const response = await fetch(`/api/questions/${question.id}/duplicate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ originalId: original.id })
+      })
+
+      const data = await response.json().catch(() => null)
+      if (response.ok && data?.success) {
+        onMarked(data.question)
+      } else {
+        setError(data?.error?.message || '重複としてクローズできませんでした')
+      }
+    } catch (err) {
+      console.error('Error marking question as duplicate:', err)
+      setError('重複としてクローズできませんでした')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={() => !submitting && onClose()} maxWidth="sm" fullWidth>
+      <DialogTitle>重複としてクローズ</DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ mb: 2 }}>
+          同じ内容の既存の投稿を選択してください。この投稿はクローズされ、投稿者に元の投稿へのリンクが通知されます。
+        </DialogContentText>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Autocomplete
+          options={options}
+          value={original}
+          onChange={(_, value) => setOriginal(value)}
+          inputValue={searchText}
+          onInputChange={(_, value) => setSearchText(value)}
+          getOptionLabel={(option) => option.title}
+          isOptionEqualToValue={(option, value) => option.id === value.id}
+          filterOptions={(x) => x}
+          noOptionsText={searchText.trim() ? '該当する投稿がありません' : 'タイトルや本文で検索'}
+          renderInput={(params) => (
+            <TextField {...params} label="元の投稿" placeholder="タイトルや本文で検索" autoFocus />
+          )}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={submitting}>
+          キャンセル
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={submitting || !original}>
+          {submitting ? '処理中...' : 'クローズ'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
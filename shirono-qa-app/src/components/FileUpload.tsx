@@ -18,35 +18,44 @@ import {
   Delete as DeleteIcon,
   InsertDriveFile as FileIcon,
   Image as ImageIcon,
+  Refresh as RefreshIcon,
+  CheckCircle as CheckCircleIcon,
 } from '@mui/icons-material'
-import { useFileUpload } from '@/hooks/useFileUpload'
+import { useFileUpload, FileUploader } from '@/hooks/useFileUpload'
 import Image from 'next/image'
 
 interface FileUploadProps {
-  onFilesChange: (files: File[]) => void
+  onFilesChange?: (files: File[]) => void
   maxFiles?: number
   accept?: string
+  uploader?: FileUploader    // アップロードを親から実行する場合に指定
 }
 
 export default function FileUpload({
   onFilesChange,
   maxFiles = 5,
-  accept = '.pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt,.jpg,.jpeg,.png,.gif'
+  accept = '.pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt,.jpg,.jpeg,.png,.gif',
+  uploader
 }: FileUploadProps) {
+  const ownUploader = useFileUpload()
   const {
     files,
+    stagedFiles,
     previews,
     errors,
     isUploading,
+    uploadStates,
     addFile,
     removeFile,
-  } = useFileUpload()
+    removeStagedFile,
+    retryFile,
+  } = uploader ?? ownUploader
 
   const [isDragOver, setIsDragOver] = useState(false)
 
   // Notify parent component when files change
   useEffect(() => {
-    onFilesChange(files.map(f => f.file))
+    onFilesChange?.(files.map(f => f.file))
   }, [files, onFilesChange])
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -94,7 +103,8 @@ export default function FileUpload({
     return <FileIcon color="action" />
   }
 
-  const isMaxFilesReached = files.length >= maxFiles
+  const fileCount = files.length + stagedFiles.length
+  const isMaxFilesReached = fileCount >= maxFiles
 
   return (
     <Box>
@@ -170,12 +180,38 @@ export default function FileUpload({
       )}
 
       {/* File List */}
-      {files.length > 0 && (
+      {fileCount > 0 && (
         <Box sx={{ mt: 2 }}>
           <Typography variant="subtitle2" gutterBottom>
-            選択されたファイル ({files.length})
+            選択されたファイル ({fileCount})
           </Typography>
           <List>
+            {/* アップロード済みのファイル（下書きから再開したものを含む） */}
+            {stagedFiles.map((stagedFile) => (
+              <ListItem key={stagedFile.blobUrl} divider>
+                <Box sx={{ display: 'flex', alignItems: 'center', mr: 2 }}>
+                  {stagedFile.contentType.startsWith('image/') ? <ImageIcon color="primary" /> : <FileIcon color="action" />}
+                </Box>
+
+                <ListItemText
+                  primary={stagedFile.fileName}
+                  secondary={`${stagedFile.contentType} • ${formatFileSize(stagedFile.size)} • アップロード済み`}
+                  sx={{ mr: 6 }}
+                />
+
+                <ListItemSecondaryAction>
+                  <CheckCircleIcon color="success" fontSize="small" sx={{ verticalAlign: 'middle' }} />
+                  <IconButton
+                    edge="end"
+                    aria-label="削除"
+                    onClick={() => removeStagedFile(stagedFile.blobUrl)}
+                    size="small"
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                </ListItemSecondaryAction>
+              </ListItem>
+            ))}
             {files.map((fileData) => (
               <ListItem key={fileData.id} divider>
                 <Box sx={{ display: 'flex', alignItems: 'center', mr: 2 }}>
@@ -200,18 +236,53 @@ export default function FileUpload({
 
                 <ListItemText
                   primary={fileData.file.name}
-                  secondary={`${fileData.file.type || 'unknown'} • ${formatFileSize(fileData.file.size)}`}
+                  secondary={
+                    <>
+                      {`${fileData.file.type || 'unknown'} • ${formatFileSize(fileData.file.size)}`}
+                      {uploadStates[fileData.id]?.status === 'error' && ` • ${uploadStates[fileData.id].error}`}
+                    </>
+                  }
+                  sx={{ mr: 6 }}
                 />
 
+                {/* Per-file Upload Progress */}
+                {uploadStates[fileData.id] && uploadStates[fileData.id].status !== 'done' && (
+                  <Box sx={{ width: 120, mr: 6 }}>
+                    <LinearProgress
+                      variant="determinate"
+                      value={uploadStates[fileData.id].progress}
+                      color={uploadStates[fileData.id].status === 'error' ? 'error' : 'primary'}
+                      aria-label={`${fileData.file.name} のアップロード進捗`}
+                    />
+                    <Typography variant="caption" color="text.secondary">
+                      {uploadStates[fileData.id].progress}%
+                    </Typography>
+                  </Box>
+                )}
+
                 <ListItemSecondaryAction>
-                  <IconButton
-                    edge="end"
-                    aria-label="削除"
-                    onClick={() => removeFile(fileData.id)}
-                    size="small"
-                  >
-                    <DeleteIcon />
-                  </IconButton>
+                  {uploadStates[fileData.id]?.status === 'done' && (
+                    <CheckCircleIcon color="success" fontSize="small" sx={{ verticalAlign: 'middle' }} />
+                  )}
+                  {uploadStates[fileData.id]?.status === 'error' && (
+                    <IconButton
+                      aria-label="再試行"
+                      onClick={() => retryFile(fileData.id)}
+                      size="small"
+                    >
+                      <RefreshIcon />
+                    </IconButton>
+                  )}
+                  {uploadStates[fileData.id]?.status !== 'uploading' && uploadStates[fileData.id]?.status !== 'done' && (
+                    <IconButton
+                      edge="end"
+                      aria-label="削除"
+                      onClick={() => removeFile(fileData.id)}
+                      size="small"
+                    >
+                      <DeleteIcon />
+                    </IconButton>
+                  )}
                 </ListItemSecondaryAction>
               </ListItem>
             ))}
@@ -0,0 +1,32 @@
+'use client'
+
+import { Typography } from '@mui/material'
+
+interface MarkdownContentProps {
+  content: string
+  html?: string                  // サーバー側で変換・無害化済みの HTML
+  variant?: 'body1' | 'body2'
+}
+
+/**
+ * 投稿本文の表示（Markdown 変換前の古い投稿はそのままのテキストで表示）
+ */
+export default function MarkdownContent({ content, html, variant = 'body1' }: MarkdownContentProps) {
+  if (html === undefined) {
+    return (
+      <Typography variant={variant} sx={{ whiteSpace: 'pre-wrap', lineHeight: variant === 'body1' ? 1.7 : 1.6 }}>
+        {content}
+      </Typography>
+    )
+  }
+
+  return (
+    <Typography
+      variant={variant}
+      component="div"
+      className="markdown-body"
+      sx={{ lineHeight: variant === 'body1' ? 1.7 : 1.6 }}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  )
+}
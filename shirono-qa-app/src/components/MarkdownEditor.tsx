@@ -0,0 +1,119 @@
+'use client'
+
+import { Box, Tabs, Tab, TextField, Typography, CircularProgress, Alert } from '@mui/material'
+import { useMarkdownPreview } from '@/hooks/useMarkdownPreview'
+import { useInlineImageUpload } from '@/hooks/useInlineImageUpload'
+import { useMentionSuggestions } from '@/hooks/useMentionSuggestions'
+import MentionSuggestionList from '@/components/MentionSuggestionList'
+
+interface MarkdownEditorProps {
+  value: string
+  onChange: (value: string) => void
+  label?: string
+  placeholder?: string
+  rows?: number
+  maxLength?: number
+  required?: boolean
+  disabled?: boolean
+  error?: boolean
+  helperText?: React.ReactNode
+  mentionQuestionId?: string   // 指定すると @ユーザー名 を入力補完する（質問を閲覧できるユーザーのみ）
+}
+
+/**
+ * Markdown 対応の本文入力欄（書く／プレビューの切り替え付き）
+ * 画像は貼り付け・ドラッグ＆ドロップで本文に挿入できる
+ */
+export default function MarkdownEditor({
+  value,
+  onChange,
+  label,
+  placeholder,
+  rows = 4,
+  maxLength,
+  required,
+  disabled,
+  error,
+  helperText,
+  mentionQuestionId,
+}: MarkdownEditorProps) {
+  const preview = useMarkdownPreview()
+  const inlineImages = useInlineImageUpload(value, onChange)
+  const mentions = useMentionSuggestions(mentionQuestionId, value, onChange, inlineImages.inputRef)
+
+  return (
+    <Box>
+      <Tabs
+        value={preview.mode}
+        onChange={(_, mode) => (mode === 'preview' ? preview.showPreview(value) : preview.showEditor())}
+        sx={{ minHeight: 36, mb: 1 }}
+      >
+        <Tab value="write" label="書く" sx={{ minHeight: 36, py: 0 }} />
+        <Tab value="preview" label="プレビュー" sx={{ minHeight: 36, py: 0 }} />
+      </Tabs>
+
+      {preview.mode === 'write' ? (
+        <Box sx={{ position: 'relative' }}>
+          <TextField
+            fullWidth
+            multiline
+            rows={rows}
+            label={label}
+            placeholder={placeholder}
+            value={value}
+            onChange={(e) => {
+              onChange(e.target.value)
+              mentions.update(e.target.value, (e.target as HTMLTextAreaElement).selectionStart)
+            }}
+            required={required}
+            disabled={disabled}
+            error={error}
+            helperText={
+              inlineImages.uploading
+                ? '画像をアップロードしています...'
+                : helperText ?? `Markdown（コードブロック・表・タスクリスト）が使えます。画像は貼り付け・ドラッグ＆ドロップで挿入できます${mentionQuestionId ? '。@ユーザー名でメンションできます' : ''}`
+            }
+            inputRef={inlineImages.inputRef}
+            inputProps={{
+              ...(maxLength && { maxLength }),
+              ...inlineImages.handlers,
+              onKeyDown: mentions.handleKeyDown,
+              onBlur: mentions.close
+            }}
+          />
+          {mentions.open && (
+            <MentionSuggestionList users={mentions.users} highlighted={mentions.highlighted} onSelect={mentions.select} />
+          )}
+          {inlineImages.error && (
+            <Alert severity="error" sx={{ mt: 1 }} onClose={inlineImages.clearError}>
+              {inlineImages.error}
+            </Alert>
+          )}
+        </Box>
+      ) : (
+        <Box
+          sx={{
+            border: 1,
+            borderColor: 'divider',
+            borderRadius: 1,
+            p: 2,
+            minHeight: rows * 24,
+          }}
+          data-testid="markdown-preview"
+        >
+          {preview.loading ? (
+            <CircularProgress size={20} />
+          ) : preview.error ? (
+            <Alert severity="error">{preview.error}</Alert>
+          ) : preview.html ? (
+            <Box className="markdown-body" dangerouslySetInnerHTML={{ __html: preview.html }} />
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              プレビューする内容がありません
+            </Typography>
+          )}
+        </Box>
+      )}
+    </Box>
+  )
+}
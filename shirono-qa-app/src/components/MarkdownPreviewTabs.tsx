@@ -0,0 +1,59 @@
+'use client'
+
+import { useMarkdownPreview } from '@/hooks/useMarkdownPreview'
+
+interface MarkdownPreviewTabsProps {
+  content: string
+  children: React.ReactNode     // 「書く」タブで表示する入力欄
+}
+
+/**
+ * 入力欄（textarea）に書く／プレビューの切り替えを付ける
+ */
+export default function MarkdownPreviewTabs({ content, children }: MarkdownPreviewTabsProps) {
+  const preview = useMarkdownPreview()
+
+  const tabClassName = (active: boolean) =>
+    `px-3 py-1 text-sm border-b-2 ${active ? 'border-indigo-500 text-indigo-600 font-medium' : 'border-transparent text-gray-500 hover:text-gray-700'}`
+
+  return (
+    <div>
+      <div className="mb-1 flex space-x-2" role="tablist">
+        <button
+          type="button"
+          role="tab"
+          aria-selected={preview.mode === 'write'}
+          onClick={preview.showEditor}
+          className={tabClassName(preview.mode === 'write')}
+        >
+          Write
+        </button>
+        <button
+          type="button"
+          role="tab"
+          aria-selected={preview.mode === 'preview'}
+          onClick={() => preview.showPreview(content)}
+          className={tabClassName(preview.mode === 'preview')}
+        >
+          Preview
+        </button>
+      </div>
+
+      {preview.mode === 'write' ? (
+        children
+      ) : (
+        <div className="mt-1 min-h-[6rem] rounded-md border border-gray-300 px-3 py-2" data-testid="markdown-preview">
+          {preview.loading ? (
+            <p className="text-sm text-gray-500">Loading preview...</p>
+          ) : preview.error ? (
+            <p className="text-sm text-red-600">{preview.error}</p>
+          ) : preview.html ? (
+            <div className="markdown-body" dangerouslySetInnerHTML={{ __html: preview.html }} />
+          ) : (
+            <p className="text-sm text-gray-500">Nothing to preview</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
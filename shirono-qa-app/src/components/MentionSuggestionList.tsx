@@ -0,0 +1,41 @@
+'use client'
+
+import { Paper, List, ListItemButton, ListItemText } from '@mui/material'
+import { MentionableUser } from '@/types/auth'
+
+interface MentionSuggestionListProps {
+  users: MentionableUser[]
+  highlighted: number
+  onSelect: (user: MentionableUser) => void
+}
+
+/**
+ * @メンションの入力補完の候補（入力欄の直下に表示）
+ */
+export default function MentionSuggestionList({ users, highlighted, onSelect }: MentionSuggestionListProps) {
+  return (
+    <Paper
+      elevation={4}
+      sx={{ position: 'absolute', zIndex: 10, mt: 0.5, minWidth: 200, maxHeight: 240, overflowY: 'auto' }}
+      data-testid="mention-suggestions"
+    >
+      <List dense disablePadding role="listbox" aria-label="メンションするユーザー">
+        {users.map((user, index) => (
+          <ListItemButton
+            key={user.id}
+            selected={index === highlighted}
+            role="option"
+            aria-selected={index === highlighted}
+            // 入力欄のフォーカスが外れて候補が閉じる前に選択する
+            onMouseDown={(e) => {
+              e.preventDefault()
+              onSelect(user)
+            }}
+          >
+            <ListItemText primary={`@${user.username}`} />
+          </ListItemButton>
+        ))}
+      </List>
+    </Paper>
+  )
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Box, FormControl, InputLabel, Select, MenuItem, Alert, CircularProgress } from '@mui/material'
+import { Question } from '@/types/question'
+import { User } from '@/types/auth'
+
+interface QuestionAssigneeSelectProps {
+  question: Question
+  onAssigned: (question: Question) => void
+}
+
+/**
+ * 質問の担当者の割り当て・解除（管理者向け）
+ */
+export default function QuestionAssigneeSelect({ question, onAssigned }: QuestionAssigneeSelectProps) {
+  const [admins, setAdmins] = useState<User[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadAdmins = async () => {
+      try {
+        const response = await fetch('/api/admin/users?isAdmin=true', {
+          credentials: 'include'
+        })
+        if (response.ok) {
+          const data = await response.json()
+          setAdmins(data.users || [])
+        }
+      } catch (err) {
+        console.error('Failed to load admins:', err)
+      }
+    }
+
+    loadAdmins()
+  }, [])
+
+  const handleChange = async (assigneeId: string) => {
+    try {
+      setSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/questions/${question.id}/assignee`, {
+        method: assigneeId ? 'PUT' : 'DELETE',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        ...(assigneeId && { body: JSON.stringify({ assigneeId }) })
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        setError(data.error?.message || '担当者の変更に失敗しました')
+        return
+      }
+
+      onAssigned(data.question)
+    } catch (err) {
+      console.error('Failed to change assignee:', err)
+      setError('担当者の変更に失敗しました')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Box mt={2}>
+      <Box display="flex" alignItems="center" gap={1}>
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel id="question-assignee">担当者</InputLabel>
+          <Select
+            labelId="question-assignee"
+            label="担当者"
+            value={admins.some(admin => admin.id === question.assigneeId) ? question.assigneeId : ''}
+            onChange={(e) => handleChange(e.target.value as string)}
+            disabled={saving}
+          >
+            <MenuItem value="">未割り当て</MenuItem>
+            {admins.map((admin) => (
+              <MenuItem key={admin.id} value={admin.id}>
+                {admin.username}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {saving && <CircularProgress size={20} />}
+      </Box>
+      {error && (
+        <Alert severity="error" sx={{ mt: 1 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+    </Box>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react'
 import {
   Box,
   Typography,
@@ -25,6 +25,8 @@ import {
   DialogContent,
   DialogActions,
   DialogContentText,
+  Link,
+  Autocomplete,
 } from '@mui/material'
 import {
   Edit as EditIcon,
@@ -37,10 +39,28 @@ import {
   Delete as DeleteIcon,
   Warning as WarningIcon,
   QuestionAnswer as QuestionAnswerIcon,
+  SwapHoriz as StatusChangeIcon,
+  LocalOffer as TagIcon,
+  FileCopy as DuplicateIcon,
+  Visibility as WatchIcon,
+  VisibilityOff as UnwatchIcon,
 } from '@mui/icons-material'
+import NextLink from 'next/link'
 import { Question, QuestionStatus, QuestionPriority } from '@/types/question'
 import { User } from '@/types/auth'
+import { getAllowedStatusTransitions } from '@/lib/question-status'
+import { getRequestTypeLabel } from '@/lib/request-types'
+import { getTagPath, TAG_LIMITS } from '@/lib/tag-names'
+import { getWatcherIds } from '@/lib/watcher-ids'
+import { useTagCatalog } from '@/hooks/useTagCatalog'
 import AttachmentList from '@/components/AttachmentList'
+import StatusHistoryTimeline from '@/components/StatusHistoryTimeline'
+import QuestionAssigneeSelect from '@/components/QuestionAssigneeSelect'
+import QuestionGroupSelect from '@/components/QuestionGroupSelect'
+import RevisionHistoryDialog from '@/components/RevisionHistoryDialog'
+import DuplicateQuestionDialog from '@/components/DuplicateQuestionDialog'
+import MarkdownContent from '@/components/MarkdownContent'
+import MarkdownEditor from '@/components/MarkdownEditor'
 
 interface QuestionDisplayProps {
   questionId: string
@@ -49,12 +69,16 @@ interface QuestionDisplayProps {
   onQuestionDelete?: () => void
 }
 
-export default function QuestionDisplay({ 
+export interface QuestionDisplayRef {
+  applyQuestionUpdate: (question: Question) => void
+}
+
+const QuestionDisplay = forwardRef<QuestionDisplayRef, QuestionDisplayProps>(({ 
   questionId, 
   user, 
   onQuestionUpdate,
   onQuestionDelete 
-}: QuestionDisplayProps) {
+}, ref) => {
   const [question, setQuestion] = useState<Question | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -66,6 +90,15 @@ export default function QuestionDisplay({
   })
   const [submitting, setSubmitting] = useState(false)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [statusDialogOpen, setStatusDialogOpen] = useState(false)
+  const [statusChange, setStatusChange] = useState<{ status: QuestionStatus | ''; reason: string }>({ status: '', reason: '' })
+  const [revisionDialogOpen, setRevisionDialogOpen] = useState(false)
+  const [duplicateDialogOpen, setDuplicateDialogOpen] = useState(false)
+  const [duplicateOriginal, setDuplicateOriginal] = useState<Pick<Question, 'id' | 'title'> | null>(null)
+  const [isEditingTags, setIsEditingTags] = useState(false)
+  const [editTags, setEditTags] = useState<string[]>([])
+  // タグ編集を開いたときだけカタログを読み込む
+  const tagCatalog = useTagCatalog(isEditingTags)
 
   const loadQuestion = useCallback(async () => {
     try {
@@ -105,6 +138,38 @@ export default function QuestionDisplay({
     loadQuestion()
   }, [loadQuestion])
 
+  // 重複としてクローズされた質問は元の質問のタイトルを読み込む
+  const duplicateOfId = question?.duplicateOfId
+  useEffect(() => {
+    if (!duplicateOfId) {
+      setDuplicateOriginal(null)
+      return
+    }
+
+    let cancelled = false
+    const loadOriginal = async () => {
+      try {
+        const response = await fetch(`/api/questions/${duplicateOfId}`)
+        const data = await response.json()
+        if (!cancelled && response.ok && data.success) {
+          setDuplicateOriginal({ id: data.question.id, title: data.question.title })
+        }
+      } catch (err) {
+        console.error('Error loading original question:', err)
+      }
+    }
+
+    loadOriginal()
+    return () => {
+      cancelled = true
+    }
+  }, [duplicateOfId])
+
+  // ベストアンサーの採用など、外部で更新された質問を反映
+  useImperativeHandle(ref, () => ({
+    applyQuestionUpdate: (updatedQuestion: Question) => setQuestion(updatedQuestion)
+  }), [])
+
   const handleEditToggle = () => {
     setIsEditing(!isEditing)
     if (!isEditing && question) {
@@ -150,7 +215,71 @@ export default function QuestionDisplay({
     }
   }
 
-  const handleStatusChange = async (newStatus: QuestionStatus) => {
+  const handleEditTagsToggle = () => {
+    setIsEditingTags(!isEditingTags)
+    if (!isEditingTags && question) {
+      setEditTags(question.tags)
+    }
+  }
+
+  const handleSaveTags = async () => {
+    if (!question || !user) return
+
+    try {
+      setSubmitting(true)
+
+      const response = await fetch(`/api/questions/${questionId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ tags: editTags })
+      })
+
+      const data = await response.json().catch(() => null)
+      if (response.ok && data?.success) {
+        setQuestion(data.question)
+        setIsEditingTags(false)
+        onQuestionUpdate?.(data.question)
+      } else {
+        setError(data?.error?.message || 'タグの更新に失敗しました')
+      }
+    } catch (err) {
+      console.error('Error saving tags:', err)
+      setError('タグの更新に失敗しました')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleWatchToggle = async () => {
+    if (!question || !user) return
+
+    const watching = getWatcherIds(question).includes(user.id)
+
+    try {
+      setSubmitting(true)
+
+      const response = await fetch(`/api/questions/${questionId}/watch`, {
+        method: watching ? 'DELETE' : 'POST',
+      })
+
+      const data = await response.json().catch(() => null)
+      if (response.ok && data?.success) {
+        setQuestion(data.question)
+        onQuestionUpdate?.(data.question)
+      } else {
+        setError(data?.error?.message || 'ウォッチの更新に失敗しました')
+      }
+    } catch (err) {
+      console.error('Error updating watch:', err)
+      setError('ウォッチの更新に失敗しました')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleStatusChange = async (newStatus: QuestionStatus, reason?: string) => {
     if (!question || !user) return
 
     try {
@@ -161,7 +290,7 @@ export default function QuestionDisplay({
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ status: newStatus })
+        body: JSON.stringify({ status: newStatus, ...(reason && { statusReason: reason }) })
       })
 
       if (response.ok) {
@@ -173,11 +302,13 @@ export default function QuestionDisplay({
           }
           setQuestion(updatedQuestion)
           onQuestionUpdate?.(updatedQuestion)
+          setStatusDialogOpen(false)
         } else {
           setError(data.error?.message || 'ステータスの更新に失敗しました')
         }
       } else {
-        setError('ステータスの更新に失敗しました')
+        const data = await response.json().catch(() => null)
+        setError(data?.error?.message || 'ステータスの更新に失敗しました')
       }
     } catch (err) {
       console.error('Error updating status:', err)
@@ -284,6 +415,14 @@ export default function QuestionDisplay({
   }
 
   const canEdit = user && question && (user.id === question.authorId || user.isAdmin)
+  const isWatching = !!user && getWatcherIds(question).includes(user.id)
+  // 遷移表でこのユーザーに許可されたステータス変更
+  const allowedTransitions = getAllowedStatusTransitions(question, user)
+
+  const openStatusDialog = () => {
+    setStatusChange({ status: '', reason: '' })
+    setStatusDialogOpen(true)
+  }
 
   return (
     <>
@@ -296,7 +435,13 @@ export default function QuestionDisplay({
           }
           action={
             <Stack direction="row" spacing={1} alignItems="center">
-              {/* ステータス・優先度チップ */}
+              {/* 種別・ステータス・優先度チップ */}
+              <Chip
+                label={getRequestTypeLabel(question.requestType)}
+                color="secondary"
+                variant="outlined"
+                size="small"
+              />
               <Chip
                 label={getStatusLabel(question.status)}
                 color={getStatusColor(question.status)}
@@ -312,6 +457,21 @@ export default function QuestionDisplay({
                 icon={<FlagIcon />}
               />
 
+              {/* ウォッチ（回答・コメント・ステータス変更をメールで受け取る） */}
+              {user && (
+                <Tooltip title={isWatching ? 'ウォッチを解除' : '回答・コメント・ステータス変更をメールで受け取る'}>
+                  <Button
+                    variant={isWatching ? 'contained' : 'outlined'}
+                    size="small"
+                    startIcon={isWatching ? <UnwatchIcon /> : <WatchIcon />}
+                    onClick={handleWatchToggle}
+                    disabled={submitting}
+                  >
+                    {isWatching ? 'ウォッチ中' : 'ウォッチ'}
+                  </Button>
+                </Tooltip>
+              )}
+
               {/* 編集・削除ボタン */}
               {canEdit && (
                 <>
@@ -389,16 +549,71 @@ export default function QuestionDisplay({
               <Typography variant="caption" color="text.secondary">
                 最終更新: {new Date(question.updatedAt).toLocaleDateString('ja-JP')}
               </Typography>
+              {question.editedAt && (
+                <Link
+                  component="button"
+                  variant="caption"
+                  onClick={() => setRevisionDialogOpen(true)}
+                >
+                  編集済み · 履歴を表示
+                </Link>
+              )}
             </Stack>
           }
           sx={{ pb: 1 }}
         />
 
         <CardContent sx={{ pt: 0 }}>
+          {/* 重複としてクローズされた場合は元の質問へ案内 */}
+          {question.duplicateOfId && (
+            <Alert severity="info" sx={{ mb: 2 }} data-testid="duplicate-banner">
+              この投稿は重複としてクローズされました。回答は元の投稿をご確認ください:{' '}
+              <Link component={NextLink} href={`/questions/${question.duplicateOfId}`} fontWeight="bold">
+                {duplicateOriginal?.title ?? '元の投稿'}
+              </Link>
+            </Alert>
+          )}
+
           {/* タグ */}
-          {question.tags.length > 0 && (
+          {isEditingTags ? (
+            <Box mb={2}>
+              <Stack direction="row" spacing={1} alignItems="flex-start">
+                <Autocomplete
+                  multiple
+                  freeSolo
+                  fullWidth
+                  size="small"
+                  options={tagCatalog.map(tag => tag.name)}
+                  value={editTags}
+                  onChange={(_, value) => setEditTags(value.slice(0, TAG_LIMITS.MAX_TAGS_PER_QUESTION))}
+                  renderInput={(params) => (
+                    <TextField
+                      {...params}
+                      label="タグ"
+                      placeholder="タグを入力して Enter"
+                      helperText={`最大${TAG_LIMITS.MAX_TAGS_PER_QUESTION}個まで。同義語は正式名に置き換えられます`}
+                    />
+                  )}
+                />
+                <Tooltip title="タグを保存">
+                  <span>
+                    <IconButton color="primary" onClick={handleSaveTags} disabled={submitting} size="small">
+                      <SaveIcon />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+                <Tooltip title="キャンセル">
+                  <span>
+                    <IconButton onClick={handleEditTagsToggle} disabled={submitting} size="small">
+                      <CancelIcon />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </Stack>
+            </Box>
+          ) : (question.tags.length > 0 || canEdit) && (
             <Box mb={2}>
-              <Stack direction="row" spacing={1} flexWrap="wrap">
+              <Stack direction="row" spacing={1} flexWrap="wrap" alignItems="center">
                 {question.tags.map((tag) => (
                   <Chip
                     key={tag}
@@ -406,8 +621,43 @@ export default function QuestionDisplay({
                     size="small"
                     variant="outlined"
                     color="default"
+                    component={NextLink}
+                    href={getTagPath(tag)}
+                    clickable
                   />
                 ))}
+                {canEdit && (
+                  <Button
+                    size="small"
+                    startIcon={<TagIcon />}
+                    onClick={handleEditTagsToggle}
+                  >
+                    タグを編集
+                  </Button>
+                )}
+              </Stack>
+            </Box>
+          )}
+
+          {/* 種別のテンプレートで入力された項目 */}
+          {question.requestFields && question.requestFields.length > 0 && (
+            <Box
+              mb={2}
+              p={2}
+              sx={{ bgcolor: 'grey.50', border: '1px solid', borderColor: 'grey.200', borderRadius: 1 }}
+              data-testid="request-fields"
+            >
+              <Stack spacing={1}>
+                {question.requestFields.map((field) => (
+                  <Box key={field.key}>
+                    <Typography variant="caption" color="text.secondary" sx={{ fontWeight: 'bold' }}>
+                      {field.label}
+                    </Typography>
+                    <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+                      {field.value}
+                    </Typography>
+                  </Box>
+                ))}
               </Stack>
             </Box>
           )}
@@ -415,14 +665,11 @@ export default function QuestionDisplay({
           {/* 質問内容 */}
           {isEditing ? (
             <Stack spacing={2}>
-              <TextField
-                fullWidth
-                multiline
+              <MarkdownEditor
                 rows={6}
                 label="投稿内容"
                 value={editData.content}
-                onChange={(e) => setEditData({ ...editData, content: e.target.value })}
-                variant="outlined"
+                onChange={(content) => setEditData({ ...editData, content })}
               />
               <FormControl sx={{ minWidth: 200 }}>
                 <InputLabel>優先度</InputLabel>
@@ -439,9 +686,7 @@ export default function QuestionDisplay({
               </FormControl>
             </Stack>
           ) : (
-            <Typography variant="body1" sx={{ whiteSpace: 'pre-wrap', lineHeight: 1.7 }}>
-              {question.content}
-            </Typography>
+            <MarkdownContent content={question.content} html={question.contentHtml} />
           )}
 
           {/* 添付ファイル */}
@@ -453,12 +698,9 @@ export default function QuestionDisplay({
 
           {/* 解決済みボタン - 質問直下の目立つ位置に配置 */}
           {(() => {
-            const isAdmin = user?.isAdmin
-            const isGroupMember = user?.groupId === question.groupId
-            const canResolve = isAdmin || isGroupMember
-            const isResolved = question.status === QuestionStatus.RESOLVED
+            const canResolve = allowedTransitions.includes(QuestionStatus.RESOLVED)
 
-            if (canResolve && !isResolved) {
+            if (canResolve) {
               return (
                 <Paper
                   elevation={2}
@@ -510,10 +752,9 @@ export default function QuestionDisplay({
 
           {/* 管理者専用: 回答済みステータス変更ボタン */}
           {(() => {
-            const isAdmin = user?.isAdmin
             const isUnanswered = question.status === QuestionStatus.UNANSWERED
 
-            if (isAdmin && isUnanswered) {
+            if (isUnanswered && allowedTransitions.includes(QuestionStatus.ANSWERED)) {
               return (
                 <Paper
                   elevation={1}
@@ -557,9 +798,134 @@ export default function QuestionDisplay({
 
             return null
           })()}
+
+          {/* 担当者・グループ（管理者のみ） */}
+          {user?.isAdmin && (
+            <Stack direction="row" spacing={2} flexWrap="wrap">
+              <QuestionAssigneeSelect
+                question={question}
+                onAssigned={(updatedQuestion) => {
+                  setQuestion(updatedQuestion)
+                  onQuestionUpdate?.(updatedQuestion)
+                }}
+              />
+              <QuestionGroupSelect
+                question={question}
+                onMoved={(updatedQuestion) => {
+                  setQuestion(updatedQuestion)
+                  onQuestionUpdate?.(updatedQuestion)
+                }}
+              />
+            </Stack>
+          )}
+
+          {/* その他のステータス変更（却下・クローズ・再オープンなど） */}
+          {allowedTransitions.length > 0 && (
+            <Box mt={2} display="flex" justifyContent="flex-end" gap={1}>
+              {user?.isAdmin && allowedTransitions.includes(QuestionStatus.CLOSED) && (
+                <Button
+                  size="small"
+                  startIcon={<DuplicateIcon />}
+                  onClick={() => setDuplicateDialogOpen(true)}
+                  disabled={submitting}
+                >
+                  重複としてクローズ
+                </Button>
+              )}
+              <Button
+                size="small"
+                startIcon={<StatusChangeIcon />}
+                onClick={openStatusDialog}
+                disabled={submitting}
+              >
+                ステータスを変更
+              </Button>
+            </Box>
+          )}
+
+          {/* ステータス履歴 */}
+          <StatusHistoryTimeline history={question.statusHistory || []} />
         </CardContent>
       </Paper>
 
+      {/* 編集履歴ダイアログ */}
+      <RevisionHistoryDialog
+        open={revisionDialogOpen}
+        targetType="question"
+        targetId={question.id}
+        canRollback={!!user?.isAdmin}
+        onClose={() => setRevisionDialogOpen(false)}
+        onRolledBack={({ question: rolledBack }) => {
+          if (rolledBack) {
+            setQuestion(rolledBack)
+            onQuestionUpdate?.(rolledBack)
+          }
+        }}
+      />
+
+      {/* 重複としてクローズするダイアログ（管理者のみ） */}
+      {user?.isAdmin && (
+        <DuplicateQuestionDialog
+          open={duplicateDialogOpen}
+          question={question}
+          onClose={() => setDuplicateDialogOpen(false)}
+          onMarked={(updatedQuestion) => {
+            setQuestion(updatedQuestion)
+            onQuestionUpdate?.(updatedQuestion)
+            setDuplicateDialogOpen(false)
+          }}
+        />
+      )}
+
+      {/* ステータス変更ダイアログ */}
+      <Dialog
+        open={statusDialogOpen}
+        onClose={() => setStatusDialogOpen(false)}
+        maxWidth="xs"
+        fullWidth
+      >
+        <DialogTitle>ステータスを変更</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel>新しいステータス</InputLabel>
+              <Select
+                value={statusChange.status}
+                onChange={(e) => setStatusChange({ ...statusChange, status: e.target.value as QuestionStatus })}
+                label="新しいステータス"
+              >
+                {allowedTransitions.map((status) => (
+                  <MenuItem key={status} value={status}>
+                    {getStatusLabel(status)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <TextField
+              label="理由（任意）"
+              value={statusChange.reason}
+              onChange={(e) => setStatusChange({ ...statusChange, reason: e.target.value })}
+              multiline
+              minRows={2}
+              size="small"
+              inputProps={{ maxLength: 500 }}
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setStatusDialogOpen(false)} disabled={submitting}>
+            キャンセル
+          </Button>
+          <Button
+            variant="contained"
+            onClick={() => statusChange.status && handleStatusChange(statusChange.status, statusChange.reason.trim() || undefined)}
+            disabled={submitting || !statusChange.status}
+          >
+            変更する
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* 削除確認ダイアログ */}
       <Dialog
         open={deleteDialogOpen}
@@ -605,4 +971,8 @@ export default function QuestionDisplay({
       </Dialog>
     </>
   )
-}
\ No newline at end of file
+})
+
+QuestionDisplay.displayName = 'QuestionDisplay'
+
+export default QuestionDisplay
\ No newline at end of file
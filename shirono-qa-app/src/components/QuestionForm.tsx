@@ -1,8 +1,12 @@
 'use client'
 
 import { useState } from 'react'
-import { Question, QuestionPriority } from '../types/question'
+import { Question, QuestionPriority, RequestType } from '../types/question'
 import { updateQuestion } from '../lib/questions'
+import { REQUEST_TYPE_LABELS, toRequestFieldValues } from '../lib/request-types'
+import { useRequestTemplates } from '../hooks/useRequestTemplates'
+import MarkdownPreviewTabs from './MarkdownPreviewTabs'
+import RequestFieldsInput from './RequestFieldsInput'
 
 interface QuestionFormProps {
   mode: 'create' | 'edit'
@@ -15,6 +19,11 @@ export default function QuestionForm({ mode, question, onSuccess, onCancel }: Qu
   const [title, setTitle] = useState(question?.title || '')
   const [content, setContent] = useState(question?.content || '')
   const [priority, setPriority] = useState(question?.priority || QuestionPriority.MEDIUM)
+  const [requestType, setRequestType] = useState(question?.requestType || RequestType.QUESTION)
+  const [requestFieldValues, setRequestFieldValues] = useState(() => toRequestFieldValues(question?.requestFields))
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const requestTemplates = useRequestTemplates()
+  const templateFields = requestTemplates[requestType]
   const [attachments, setAttachments] = useState<File[]>([])
   const [errors, setErrors] = useState<{ title?: string; content?: string; general?: string }>({})
   const [isLoading, setIsLoading] = useState(false)
@@ -29,6 +38,7 @@ export default function QuestionForm({ mode, question, onSuccess, onCancel }: Qu
 
     // Reset errors
     setErrors({})
+    setFieldErrors({})
 
     // Validation
     const newErrors: { title?: string; content?: string } = {}
@@ -39,8 +49,16 @@ export default function QuestionForm({ mode, question, onSuccess, onCancel }: Qu
       newErrors.content = 'Content is required'
     }
 
-    if (Object.keys(newErrors).length > 0) {
+    const newFieldErrors: Record<string, string> = {}
+    for (const field of templateFields) {
+      if (field.required && !requestFieldValues[field.key]?.trim()) {
+        newFieldErrors[field.key] = `${field.label} is required`
+      }
+    }
+
+    if (Object.keys(newErrors).length > 0 || Object.keys(newFieldErrors).length > 0) {
       setErrors(newErrors)
+      setFieldErrors(newFieldErrors)
       return
     }
 
@@ -55,7 +73,10 @@ export default function QuestionForm({ mode, question, onSuccess, onCancel }: Qu
         const updateData = {
           title,
           content,
-          priority
+          priority,
+          requestType,
+          // 選択中の種別の項目のみ送信
+          requestFields: Object.fromEntries(templateFields.map(field => [field.key, requestFieldValues[field.key] ?? '']))
         }
 
         const result = await updateQuestion(question!.id, updateData)
@@ -75,6 +96,25 @@ export default function QuestionForm({ mode, question, onSuccess, onCancel }: Qu
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      <div>
+        <label htmlFor="requestType" className="block text-sm font-medium text-gray-700">
+          Request Type
+        </label>
+        <select
+          id="requestType"
+          value={requestType}
+          onChange={(e) => {
+            setRequestType(e.target.value as RequestType)
+            setFieldErrors({})
+          }}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        >
+          {Object.values(RequestType).map((type) => (
+            <option key={type} value={type}>{REQUEST_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
       <div>
         <label htmlFor="title" className="block text-sm font-medium text-gray-700">
           Title
@@ -96,19 +136,28 @@ export default function QuestionForm({ mode, question, onSuccess, onCancel }: Qu
         <label htmlFor="content" className="block text-sm font-medium text-gray-700">
           Content
         </label>
-        <textarea
-          id="content"
-          value={content}
-          onChange={(e) => setContent(e.target.value)}
-          rows={8}
-          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-          maxLength={10000}
-        />
+        <MarkdownPreviewTabs content={content}>
+          <textarea
+            id="content"
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            rows={8}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            maxLength={10000}
+          />
+        </MarkdownPreviewTabs>
         {errors.content && (
           <p className="mt-1 text-sm text-red-600">{errors.content}</p>
         )}
       </div>
 
+      <RequestFieldsInput
+        fields={templateFields}
+        values={requestFieldValues}
+        onChange={setRequestFieldValues}
+        errors={fieldErrors}
+      />
+
       <div>
         <label htmlFor="priority" className="block text-sm font-medium text-gray-700">
           Priority
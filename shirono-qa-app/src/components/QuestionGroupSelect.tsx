@@ -0,0 +1,101 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Box, FormControl, InputLabel, Select, MenuItem, Alert, CircularProgress } from '@mui/material'
+import { Question } from '@/types/question'
+import { Group } from '@/types/group'
+
+interface QuestionGroupSelectProps {
+  question: Question
+  onMoved: (question: Question) => void
+}
+
+/**
+ * 質問のグループの移動（管理者向け）
+ */
+export default function QuestionGroupSelect({ question, onMoved }: QuestionGroupSelectProps) {
+  const [groups, setGroups] = useState<Group[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadGroups = async () => {
+      try {
+        const response = await fetch('/api/admin/groups', {
+          credentials: 'include'
+        })
+        if (response.ok) {
+          const data = await response.json()
+          setGroups(data.groups || [])
+        }
+      } catch (err) {
+        console.error('Failed to load groups:', err)
+      }
+    }
+
+    loadGroups()
+  }, [])
+
+  const handleChange = async (groupId: string) => {
+    const group = groups.find(entry => entry.id === groupId)
+    if (!group || !confirm(`この投稿を「${group.name}」へ移動しますか？現在のグループのメンバーは閲覧できなくなります。`)) {
+      return
+    }
+
+    try {
+      setSaving(true)
+      setError(null)
+
+      const response = await fetch(`/api/questions/${question.id}/group`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ groupId })
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        setError(data.error?.message || 'グループの移動に失敗しました')
+        return
+      }
+
+      onMoved(data.question)
+    } catch (err) {
+      console.error('Failed to move question:', err)
+      setError('グループの移動に失敗しました')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Box mt={2}>
+      <Box display="flex" alignItems="center" gap={1}>
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel id="question-group">グループ</InputLabel>
+          <Select
+            labelId="question-group"
+            label="グループ"
+            value={groups.some(group => group.id === question.groupId) ? question.groupId : ''}
+            onChange={(e) => handleChange(e.target.value as string)}
+            disabled={saving}
+          >
+            {groups.map((group) => (
+              <MenuItem key={group.id} value={group.id}>
+                {group.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {saving && <CircularProgress size={20} />}
+      </Box>
+      {error && (
+        <Alert severity="error" sx={{ mt: 1 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+    </Box>
+  )
+}
@@ -1,17 +1,17 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import {
   Box,
   Typography,
   CardContent,
   CardHeader,
-  TextField,
   Button,
   Paper,
   Stack,
   Avatar,
   CircularProgress,
+  Alert,
 } from '@mui/material'
 import {
   Reply as ReplyIcon,
@@ -25,6 +25,11 @@ import { User } from '@/types/auth'
 import { Answer, Comment } from '@/types/answer'
 import { Question } from '@/types/question'
 import FileUpload from '@/components/FileUpload'
+import MarkdownEditor from '@/components/MarkdownEditor'
+import { useFileUpload } from '@/hooks/useFileUpload'
+import { useDraftAutosave } from '@/hooks/useDraftAutosave'
+import { Attachment } from '@/types/question'
+import { UploadTarget } from '@/types/upload'
 
 interface ReplyFormProps {
   questionId: string
@@ -43,10 +48,50 @@ export default function ReplyForm({
 }: ReplyFormProps) {
   const [content, setContent] = useState('')
   const [submitting, setSubmitting] = useState(false)
-  const [attachmentFiles, setAttachmentFiles] = useState<File[]>([])
+  const fileUploader = useFileUpload()
+  const attachmentFiles = fileUploader.files
   const [showFileUpload, setShowFileUpload] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
+  // 長い回答を失わないよう、管理者の回答は下書きを自動保存する
+  const draft = useDraftAutosave({ kind: 'answer', questionId, enabled: !!user?.isAdmin })
+  const { scheduleSave } = draft
+  const editedRef = useRef(false)
+  const updateContent = useCallback((value: string) => {
+    editedRef.current = true
+    setContent(value)
+  }, [])
+
+  useEffect(() => {
+    if (editedRef.current) {
+      scheduleSave({ content })
+    }
+  }, [content, scheduleSave])
+
+  const handleResumeDraft = () => {
+    if (!draft.savedDraft) return
+
+    setContent(draft.savedDraft.content)
+    draft.dismissSavedDraft()
+  }
+
+  // 投稿後に添付ファイルをストレージへ直接アップロードし、添付できたファイルを返す
+  const uploadAttachments = async (target: UploadTarget): Promise<{ attachments: Attachment[]; failed: boolean }> => {
+    if (attachmentFiles.length === 0) {
+      return { attachments: [], failed: false }
+    }
+
+    const { results, failedCount } = await fileUploader.uploadAll(target)
+    if (failedCount === 0) {
+      fileUploader.clearFiles()
+      setShowFileUpload(false)
+    } else {
+      setShowFileUpload(true)
+    }
+
+    return { attachments: results.map(result => result.attachment), failed: failedCount > 0 }
+  }
+
   const handleSubmitAnswer = async () => {
     if (!content.trim() || !user) return
 
@@ -54,15 +99,10 @@ export default function ReplyForm({
       setSubmitting(true)
       setError(null)
 
-      // FormDataを使用してファイルを送信
+      // 本文を先に投稿し、添付ファイルは投稿後に直接アップロードする
       const formData = new FormData()
       formData.append('content', content.trim())
-
-      // ファイルを個別に追加
-      attachmentFiles.forEach((file, index) => {
-        formData.append(`file_${index}`, file)
-      })
-      formData.append('fileCount', attachmentFiles.length.toString())
+      formData.append('fileCount', '0')
 
       const response = await fetch(`/api/questions/${questionId}/answers`, {
         method: 'POST',
@@ -72,10 +112,16 @@ export default function ReplyForm({
       if (response.ok) {
         const data = await response.json()
         if (data.success) {
+          editedRef.current = false
           setContent('')
-          setAttachmentFiles([])
-          setShowFileUpload(false)
-          
+          await draft.clearDraft()
+
+          const upload = await uploadAttachments({ type: 'answer', questionId, itemId: data.answer.id })
+          data.answer.attachments = [...(data.answer.attachments || []), ...upload.attachments]
+          if (upload.failed) {
+            setError('回答は投稿されましたが、一部のファイルのアップロードに失敗しました。再試行ボタンから再送信できます')
+          }
+
           // 新しい回答を親コンポーネントに通知
           onAnswerSubmitted?.(data.answer)
           
@@ -106,15 +152,10 @@ export default function ReplyForm({
       setSubmitting(true)
       setError(null)
 
-      // FormDataを使用してファイルを送信
+      // 本文を先に投稿し、添付ファイルは投稿後に直接アップロードする
       const formData = new FormData()
       formData.append('content', content.trim())
-
-      // ファイルを個別に追加
-      attachmentFiles.forEach((file, index) => {
-        formData.append(`file_${index}`, file)
-      })
-      formData.append('fileCount', attachmentFiles.length.toString())
+      formData.append('fileCount', '0')
 
       const response = await fetch(`/api/questions/${questionId}/comments`, {
         method: 'POST',
@@ -125,9 +166,13 @@ export default function ReplyForm({
         const data = await response.json()
         if (data.success) {
           setContent('')
-          setAttachmentFiles([])
-          setShowFileUpload(false)
-          
+
+          const upload = await uploadAttachments({ type: 'comment', questionId, itemId: data.comment.id })
+          data.comment.attachments = [...(data.comment.attachments || []), ...upload.attachments]
+          if (upload.failed) {
+            setError('コメントは投稿されましたが、一部のファイルのアップロードに失敗しました。再試行ボタンから再送信できます')
+          }
+
           // 新しいコメントを親コンポーネントに通知
           onCommentSubmitted?.(data.comment)
           
@@ -186,6 +231,25 @@ export default function ReplyForm({
       )}
 
       <CardContent>
+        {draft.savedDraft && (
+          <Alert
+            severity="info"
+            sx={{ mb: 2 }}
+            action={
+              <Stack direction="row" spacing={1}>
+                <Button color="inherit" size="small" onClick={handleResumeDraft}>
+                  下書きを再開
+                </Button>
+                <Button color="inherit" size="small" onClick={draft.clearDraft}>
+                  破棄
+                </Button>
+              </Stack>
+            }
+          >
+            保存された回答の下書きがあります（{new Date(draft.savedDraft.updatedAt).toLocaleString('ja-JP')}）
+          </Alert>
+        )}
+
         {error && (
           <Box sx={{ mb: 2 }}>
             <Typography variant="body2" color="error">
@@ -194,17 +258,16 @@ export default function ReplyForm({
           </Box>
         )}
 
-        <TextField
-          fullWidth
-          multiline
-          rows={user?.isAdmin ? 4 : 3}
-          placeholder={user?.isAdmin ? "回答を入力してください..." : "コメントを入力してください..."}
-          value={content}
-          onChange={(e) => setContent(e.target.value)}
-          variant="outlined"
-          sx={{ mb: 2 }}
-          disabled={submitting}
-        />
+        <Box sx={{ mb: 2 }}>
+          <MarkdownEditor
+            rows={user?.isAdmin ? 4 : 3}
+            placeholder={user?.isAdmin ? "回答を入力してください..." : "コメントを入力してください..."}
+            value={content}
+            onChange={updateContent}
+            disabled={submitting}
+            mentionQuestionId={questionId}
+          />
+        </Box>
 
         {/* ファイル添付トグル */}
         <Box sx={{ mb: 2 }}>
@@ -224,7 +287,7 @@ export default function ReplyForm({
         {showFileUpload && (
           <Box sx={{ mb: 3 }}>
             <FileUpload
-              onFilesChange={setAttachmentFiles}
+              uploader={fileUploader}
               maxFiles={5}
             />
           </Box>
@@ -233,6 +296,10 @@ export default function ReplyForm({
         <Stack direction="row" justifyContent="space-between" alignItems="center">
           <Typography variant="caption" color="text.secondary">
             {attachmentFiles.length > 0 && `${attachmentFiles.length}個のファイルが添付されています`}
+            {attachmentFiles.length > 0 && draft.status !== 'idle' && ' ・ '}
+            {draft.status === 'saving' && '下書きを保存中...'}
+            {draft.status === 'saved' && draft.savedAt && `下書きを保存しました（${draft.savedAt.toLocaleTimeString('ja-JP')}）`}
+            {draft.status === 'error' && '下書きを保存できませんでした'}
           </Typography>
           <Stack direction="row" spacing={2} alignItems="center">
             {submitting && (
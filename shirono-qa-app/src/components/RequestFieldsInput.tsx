@@ -0,0 +1,66 @@
+'use client'
+
+import { RequestTemplateField } from '@/types/request-template'
+import { REQUEST_TEMPLATE_LIMITS } from '@/lib/request-types'
+
+interface RequestFieldsInputProps {
+  fields: RequestTemplateField[]
+  values: Record<string, string>
+  onChange: (values: Record<string, string>) => void
+  errors?: Record<string, string>   // 項目キーごとのエラー
+}
+
+/**
+ * 依頼種別のテンプレートの入力項目
+ */
+export default function RequestFieldsInput({ fields, values, onChange, errors = {} }: RequestFieldsInputProps) {
+  if (fields.length === 0) {
+    return null
+  }
+
+  const inputClassName = (key: string) =>
+    `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 ${errors[key] ? 'border-red-500' : 'border-gray-300'}`
+
+  return (
+    <div className="space-y-4">
+      {fields.map((field) => {
+        const id = `request-field-${field.key}`
+        const value = values[field.key] ?? ''
+        const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+          onChange({ ...values, [field.key]: e.target.value })
+
+        return (
+          <div key={field.key}>
+            <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+              {field.label}{field.required && ' *'}
+            </label>
+            {field.type === 'textarea' ? (
+              <textarea
+                id={id}
+                rows={3}
+                value={value}
+                onChange={handleChange}
+                placeholder={field.placeholder}
+                maxLength={REQUEST_TEMPLATE_LIMITS.VALUE_MAX_LENGTH}
+                className={inputClassName(field.key)}
+              />
+            ) : (
+              <input
+                id={id}
+                type={field.type === 'date' ? 'date' : 'text'}
+                value={value}
+                onChange={handleChange}
+                placeholder={field.placeholder}
+                maxLength={REQUEST_TEMPLATE_LIMITS.VALUE_MAX_LENGTH}
+                className={inputClassName(field.key)}
+              />
+            )}
+            {errors[field.key] && (
+              <p className="mt-1 text-sm text-red-600">{errors[field.key]}</p>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,289 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Box,
+  Typography,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  List,
+  ListItemButton,
+  ListItemText,
+  Alert,
+  CircularProgress,
+  Chip,
+} from '@mui/material'
+import { History as HistoryIcon, Restore as RestoreIcon } from '@mui/icons-material'
+import { Revision, RevisionTargetType } from '@/types/revision'
+import { Question } from '@/types/question'
+import { Answer, Comment } from '@/types/answer'
+import { diffLines, DiffRow, DiffCell } from '@/lib/text-diff'
+
+interface RevisionHistoryDialogProps {
+  open: boolean
+  targetType: RevisionTargetType
+  targetId: string
+  canRollback: boolean
+  onClose: () => void
+  onRolledBack?: (result: RollbackResponse) => void
+}
+
+// ロールバック後の投稿（対象の種類に応じていずれかが返る）
+export interface RollbackResponse {
+  question?: Question
+  answer?: Answer
+  comment?: Comment
+}
+
+const TARGET_PATHS: Record<RevisionTargetType, string> = {
+  question: 'questions',
+  answer: 'answers',
+  comment: 'comments',
+}
+
+const ROW_COLORS: Record<DiffRow['type'], { left?: string; right?: string }> = {
+  equal: {},
+  removed: { left: 'rgba(244, 67, 54, 0.12)' },
+  added: { right: 'rgba(76, 175, 80, 0.12)' },
+  changed: { left: 'rgba(244, 67, 54, 0.12)', right: 'rgba(76, 175, 80, 0.12)' },
+}
+
+function DiffCellView({ cell, background }: { cell?: DiffCell; background?: string }) {
+  return (
+    <Box sx={{ display: 'flex', bgcolor: background, minHeight: '1.5em' }}>
+      <Box
+        component="span"
+        sx={{ width: 40, flexShrink: 0, textAlign: 'right', pr: 1, color: 'text.disabled', userSelect: 'none' }}
+      >
+        {cell?.lineNumber}
+      </Box>
+      <Box component="span" sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word', flex: 1 }}>
+        {cell?.text}
+      </Box>
+    </Box>
+  )
+}
+
+/**
+ * 変更前後を左右に並べた差分
+ */
+function SideBySideDiff({ before, after }: { before: string; after: string }) {
+  const rows = diffLines(before, after)
+
+  return (
+    <Box
+      sx={{
+        display: 'grid',
+        gridTemplateColumns: '1fr 1fr',
+        columnGap: 1,
+        fontFamily: 'monospace',
+        fontSize: '0.8rem',
+        border: 1,
+        borderColor: 'divider',
+        borderRadius: 1,
+        overflowX: 'auto',
+      }}
+      data-testid="revision-diff"
+    >
+      {rows.map((row, index) => (
+        <Box key={index} sx={{ display: 'contents' }}>
+          <DiffCellView cell={row.left} background={ROW_COLORS[row.type].left} />
+          <DiffCellView cell={row.right} background={ROW_COLORS[row.type].right} />
+        </Box>
+      ))}
+    </Box>
+  )
+}
+
+/**
+ * 投稿の編集履歴と前の版との差分（管理者はロールバック可能）
+ */
+export default function RevisionHistoryDialog({
+  open,
+  targetType,
+  targetId,
+  canRollback,
+  onClose,
+  onRolledBack,
+}: RevisionHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [rollingBack, setRollingBack] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const basePath = `/api/${TARGET_PATHS[targetType]}/${targetId}/revisions`
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(basePath, { credentials: 'include' })
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        setError(data.error?.message || '編集履歴の読み込みに失敗しました')
+        return
+      }
+
+      const loaded: Revision[] = data.revisions || []
+      setRevisions(loaded)
+      setSelectedIndex(Math.max(loaded.length - 1, 0))
+    } catch (err) {
+      console.error('Failed to load revisions:', err)
+      setError('編集履歴の読み込みに失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [basePath])
+
+  useEffect(() => {
+    if (open) {
+      loadRevisions()
+    }
+  }, [open, loadRevisions])
+
+  const handleRollback = async (revision: Revision) => {
+    if (!confirm('この版の内容に戻しますか？')) {
+      return
+    }
+
+    try {
+      setRollingBack(true)
+      setError(null)
+
+      const response = await fetch(basePath, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ revisionId: revision.id })
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        setError(data.error?.message || 'ロールバックに失敗しました')
+        return
+      }
+
+      onRolledBack?.(data)
+      await loadRevisions()
+    } catch (err) {
+      console.error('Failed to roll back revision:', err)
+      setError('ロールバックに失敗しました')
+    } finally {
+      setRollingBack(false)
+    }
+  }
+
+  const selected = revisions[selectedIndex]
+  const previous = selectedIndex > 0 ? revisions[selectedIndex - 1] : undefined
+  const isLatest = selectedIndex === revisions.length - 1
+
+  const editorLabel = (revision: Revision, index: number) =>
+    revision.editedBy === 'system'
+      ? 'システム'
+      : revision.editedByName || (index === 0 ? '元の投稿' : revision.editedBy)
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <HistoryIcon />
+        編集履歴
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <Box display="flex" justifyContent="center" py={4}>
+            <CircularProgress />
+          </Box>
+        ) : revisions.length === 0 ? (
+          <Typography color="text.secondary">編集履歴はありません</Typography>
+        ) : (
+          <Box display="flex" gap={2} sx={{ flexDirection: { xs: 'column', md: 'row' } }}>
+            {/* 版の一覧（新しい順） */}
+            <List dense sx={{ width: { md: 240 }, flexShrink: 0, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+              {revisions.map((revision, index) => ({ revision, index })).reverse().map(({ revision, index }) => (
+                <ListItemButton
+                  key={revision.id}
+                  selected={index === selectedIndex}
+                  onClick={() => setSelectedIndex(index)}
+                >
+                  <ListItemText
+                    primary={
+                      <Box display="flex" alignItems="center" gap={1}>
+                        版 {index + 1}
+                        {index === revisions.length - 1 && <Chip label="現在" size="small" color="primary" />}
+                        {revision.rollbackOf && <Chip label="ロールバック" size="small" variant="outlined" />}
+                      </Box>
+                    }
+                    secondary={`${editorLabel(revision, index)} ・ ${new Date(revision.createdAt).toLocaleString('ja-JP')}`}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+
+            {/* 前の版との差分 */}
+            {selected && (
+              <Box flex={1} minWidth={0}>
+                {previous ? (
+                  <>
+                    <Box display="grid" gridTemplateColumns="1fr 1fr" columnGap={1} mb={1}>
+                      <Typography variant="caption" color="text.secondary">版 {selectedIndex}</Typography>
+                      <Typography variant="caption" color="text.secondary">版 {selectedIndex + 1}</Typography>
+                    </Box>
+                    {targetType === 'question' && (previous.title ?? '') !== (selected.title ?? '') && (
+                      <Box mb={2}>
+                        <Typography variant="subtitle2" gutterBottom>タイトル</Typography>
+                        <SideBySideDiff before={previous.title ?? ''} after={selected.title ?? ''} />
+                      </Box>
+                    )}
+                    <Typography variant="subtitle2" gutterBottom>本文</Typography>
+                    <SideBySideDiff before={previous.content} after={selected.content} />
+                  </>
+                ) : (
+                  <>
+                    <Typography variant="caption" color="text.secondary">最初の版</Typography>
+                    {selected.title && (
+                      <Typography variant="subtitle1" sx={{ fontWeight: 'bold', mt: 1 }}>
+                        {selected.title}
+                      </Typography>
+                    )}
+                    <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', mt: 1 }}>
+                      {selected.content}
+                    </Typography>
+                  </>
+                )}
+
+                {canRollback && !isLatest && (
+                  <Box mt={2}>
+                    <Button
+                      variant="outlined"
+                      startIcon={rollingBack ? <CircularProgress size={16} /> : <RestoreIcon />}
+                      onClick={() => handleRollback(selected)}
+                      disabled={rollingBack}
+                    >
+                      この版に戻す
+                    </Button>
+                  </Box>
+                )}
+              </Box>
+            )}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>閉じる</Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
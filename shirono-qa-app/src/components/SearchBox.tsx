@@ -1,7 +1,6 @@
 'use client'
 
 import { useState, useEffect, useRef, useCallback } from 'react'
-import { searchQuestions, getSearchSuggestions } from '../lib/search'
 import { SearchQuery, SearchResponse, SearchSortField } from '../types/search'
 
 interface SearchBoxProps {
@@ -47,7 +46,12 @@ export default function SearchBox({
 
     const timeoutId = setTimeout(async () => {
       try {
-        const result = await getSearchSuggestions(query)
+        const response = await fetch(`/api/search/suggestions?q=${encodeURIComponent(query)}`)
+        if (!response.ok) {
+          return
+        }
+
+        const result = await response.json()
         if (result.success) {
           setSuggestions(result.suggestions || [])
           setShowSuggestions((result.suggestions?.length ?? 0) > 0)
@@ -83,22 +87,23 @@ export default function SearchBox({
     setError(null)
 
     try {
-      const searchParams: SearchQuery = {
-        q: searchQuery,
-        ...filters,
-        page: 1,
-        limit: 20
-      }
+      const params = new URLSearchParams({ q: searchQuery, page: '1', limit: '20' })
+      if (filters.status) params.append('status', filters.status)
+      if (filters.priority) params.append('priority', filters.priority)
+      if (filters.sortBy) params.append('sortBy', filters.sortBy)
+      if (filters.sortOrder) params.append('sortOrder', filters.sortOrder)
 
-      const result = await searchQuestions(searchParams)
+      const response = await fetch(`/api/search?${params.toString()}`)
+      const result = await response.json()
 
-      if (result.success) {
-        onResults(result)
+      if (response.ok && result.success) {
+        onResults(result as SearchResponse)
       } else {
-        setError(result.error || 'Search failed')
+        const message = result.error?.message || 'Search failed'
+        setError(message)
         onResults({
           success: false,
-          error: result.error
+          error: message
         })
       }
     } catch {
@@ -112,6 +117,16 @@ export default function SearchBox({
     }
   }, [filters, onResults])
 
+  // 初期クエリが渡された場合はマウント時に一度だけ検索する
+  const initialSearchDone = useRef(false)
+  useEffect(() => {
+    if (initialSearchDone.current || !initialQuery.trim()) {
+      return
+    }
+    initialSearchDone.current = true
+    performSearch(initialQuery)
+  }, [initialQuery, performSearch])
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     setShowSuggestions(false)
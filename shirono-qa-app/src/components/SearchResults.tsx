@@ -5,9 +5,16 @@ import { SearchResult, SearchResponse } from '../types/search'
 interface SearchResultsProps {
   results: SearchResponse | null
   loading?: boolean
+  onResultClick?: (questionId: string) => void
+  onSuggestionClick?: (suggestion: string) => void
 }
 
-export default function SearchResults({ results, loading = false }: SearchResultsProps) {
+export default function SearchResults({
+  results,
+  loading = false,
+  onResultClick,
+  onSuggestionClick
+}: SearchResultsProps) {
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -52,6 +59,7 @@ export default function SearchResults({ results, loading = false }: SearchResult
               {results.suggestions.map((suggestion, index) => (
                 <span
                   key={index}
+                  onClick={() => onSuggestionClick?.(suggestion)}
                   className="px-3 py-1 bg-indigo-100 text-indigo-800 rounded-full text-sm cursor-pointer hover:bg-indigo-200"
                 >
                   {suggestion}
@@ -120,6 +128,7 @@ export default function SearchResults({ results, loading = false }: SearchResult
         {results.results.map((result: SearchResult) => (
           <div
             key={result.question.id}
+            onClick={() => onResultClick?.(result.question.id)}
             className="border border-gray-200 rounded-lg p-6 hover:shadow-md transition-shadow cursor-pointer"
           >
             <div className="flex items-start justify-between mb-3">
@@ -181,7 +190,7 @@ export default function SearchResults({ results, loading = false }: SearchResult
               </div>
 
               <div className="text-xs text-gray-500">
-                {result.question.createdAt.toLocaleDateString()}
+                {new Date(result.question.createdAt).toLocaleDateString()}
               </div>
             </div>
           </div>
@@ -1,7 +1,6 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
-import { findSimilarQuestions } from '../lib/search'
 import { SimilarQuestion } from '../types/search'
 
 interface SimilarQuestionsProps {
@@ -31,12 +30,18 @@ export default function SimilarQuestions({
     setError(null)
 
     try {
-      const result = await findSimilarQuestions(searchQuery, excludeQuestionId, limit)
-      
-      if (result.success) {
+      const params = new URLSearchParams({ q: searchQuery, limit: String(limit) })
+      if (excludeQuestionId) {
+        params.append('excludeId', excludeQuestionId)
+      }
+
+      const response = await fetch(`/api/questions/similar?${params.toString()}`)
+      const result = await response.json()
+
+      if (response.ok && result.success) {
         setQuestions(result.questions || [])
       } else {
-        setError(result.error || 'Failed to load similar questions')
+        setError(result.error?.message || 'Failed to load similar questions')
       }
     } catch {
       setError('Failed to load similar questions')
@@ -162,10 +167,16 @@ export default function SimilarQuestions({
                   <span className="text-xs text-gray-500">
                     {question.answersCount} {question.answersCount === 1 ? 'answer' : 'answers'}
                   </span>
+
+                  {question.topAnswerHelpfulCount > 0 && (
+                    <span className="text-xs text-green-700">
+                      {question.topAnswerHelpfulCount} helpful
+                    </span>
+                  )}
                 </div>
 
                 <span className="text-xs text-gray-400">
-                  {question.createdAt.toLocaleDateString()}
+                  {new Date(question.createdAt).toLocaleDateString()}
                 </span>
               </div>
             </div>
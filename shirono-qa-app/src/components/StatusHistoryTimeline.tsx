@@ -0,0 +1,90 @@
+'use client'
+
+import { Box, Typography, Stack } from '@mui/material'
+import { History as HistoryIcon } from '@mui/icons-material'
+import { StatusHistoryEntry, QuestionStatus } from '@/types/question'
+
+interface StatusHistoryTimelineProps {
+  history: StatusHistoryEntry[]
+}
+
+const STATUS_LABELS: Record<QuestionStatus, string> = {
+  [QuestionStatus.UNANSWERED]: '未回答',
+  [QuestionStatus.ANSWERED]: '回答済み',
+  [QuestionStatus.RESOLVED]: '解決済み',
+  [QuestionStatus.REJECTED]: '却下',
+  [QuestionStatus.CLOSED]: 'クローズ',
+}
+
+const STATUS_DOT_COLORS: Record<QuestionStatus, string> = {
+  [QuestionStatus.UNANSWERED]: 'warning.main',
+  [QuestionStatus.ANSWERED]: 'info.main',
+  [QuestionStatus.RESOLVED]: 'success.main',
+  [QuestionStatus.REJECTED]: 'error.main',
+  [QuestionStatus.CLOSED]: 'grey.500',
+}
+
+/**
+ * ステータス変更履歴のタイムライン（新しい順）
+ */
+export default function StatusHistoryTimeline({ history }: StatusHistoryTimelineProps) {
+  if (history.length === 0) {
+    return null
+  }
+
+  const entries = [...history].sort((a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime())
+
+  return (
+    <Box mt={3}>
+      <Typography variant="subtitle2" color="text.secondary" sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mb: 1 }}>
+        <HistoryIcon fontSize="small" />
+        ステータス履歴
+      </Typography>
+
+      <Box component="ol" sx={{ listStyle: 'none', m: 0, p: 0 }} data-testid="status-history">
+        {entries.map((entry, index) => (
+          <Box
+            component="li"
+            key={`${entry.changedAt}-${index}`}
+            sx={{
+              position: 'relative',
+              pl: 3,
+              pb: index === entries.length - 1 ? 0 : 2,
+              borderLeft: index === entries.length - 1 ? 'none' : '2px solid',
+              borderColor: 'divider',
+              ml: '5px',
+            }}
+          >
+            {/* タイムラインの点 */}
+            <Box
+              sx={{
+                position: 'absolute',
+                left: index === entries.length - 1 ? -4 : -6,
+                top: 4,
+                width: 10,
+                height: 10,
+                borderRadius: '50%',
+                bgcolor: STATUS_DOT_COLORS[entry.to] || 'grey.500',
+              }}
+            />
+            <Stack direction="row" spacing={1} alignItems="baseline" flexWrap="wrap">
+              <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                {STATUS_LABELS[entry.from] || entry.from} → {STATUS_LABELS[entry.to] || entry.to}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {entry.changedBy === 'system' ? 'システム' : entry.changedByName || entry.changedBy}
+                {' ・ '}
+                {new Date(entry.changedAt).toLocaleString('ja-JP')}
+              </Typography>
+            </Stack>
+            {entry.reason && (
+              <Typography variant="body2" color="text.secondary" sx={{ whiteSpace: 'pre-wrap', mt: 0.5 }}>
+                {entry.reason}
+              </Typography>
+            )}
+          </Box>
+        ))}
+      </Box>
+    </Box>
+  )
+}
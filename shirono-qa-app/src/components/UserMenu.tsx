@@ -6,7 +6,10 @@ import {
   UserCircleIcon, 
   ArrowRightOnRectangleIcon,
   Cog6ToothIcon,
-  UserGroupIcon 
+  UserGroupIcon,
+  CircleStackIcon,
+  ClipboardDocumentListIcon,
+  TagIcon
 } from '@heroicons/react/24/outline'
 
 interface User {
@@ -66,6 +69,21 @@ export default function UserMenu({ user }: UserMenuProps) {
         label: 'グループ管理', 
         icon: Cog6ToothIcon,
         href: '/admin/groups'
+      },
+      {
+        label: 'ストレージ管理',
+        icon: CircleStackIcon,
+        href: '/admin/storage'
+      },
+      {
+        label: '依頼テンプレート管理',
+        icon: ClipboardDocumentListIcon,
+        href: '/admin/request-templates'
+      },
+      {
+        label: 'タグ管理',
+        icon: TagIcon,
+        href: '/admin/tags'
       }
     ] : []),
     {
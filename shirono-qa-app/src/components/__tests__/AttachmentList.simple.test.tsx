@@ -3,6 +3,7 @@
  */
 import { render, screen } from '@testing-library/react'
 import AttachmentList from '../AttachmentList'
+import { AttachmentScanStatus } from '@/types/question'
 
 describe('AttachmentList Component - Simple Tests', () => {
   const mockAttachments = [
@@ -24,4 +25,38 @@ describe('AttachmentList Component - Simple Tests', () => {
     render(<AttachmentList attachments={[]} />)
     expect(screen.queryByText(/添付ファイル/i)).not.toBeInTheDocument()
   })
-})
\ No newline at end of file
+
+  it('should not list images pasted into the post body', () => {
+    render(<AttachmentList attachments={[{ ...mockAttachments[0], fileName: 'pasted.png', inline: true }]} />)
+    expect(screen.queryByText('pasted.png')).not.toBeInTheDocument()
+  })
+
+  it('should show scanning and blocked states and disable their downloads', () => {
+    render(
+      <AttachmentList
+        attachments={[
+          { ...mockAttachments[0], fileName: 'scanning.pdf', scanStatus: AttachmentScanStatus.PENDING },
+          { ...mockAttachments[0], fileName: 'infected.pdf', scanStatus: AttachmentScanStatus.QUARANTINED }
+        ]}
+      />
+    )
+
+    expect(screen.getByText('スキャン中')).toBeInTheDocument()
+    expect(screen.getByText('ブロック')).toBeInTheDocument()
+    screen.getAllByLabelText('ダウンロード').forEach(button => expect(button).toBeDisabled())
+  })
+
+  it('should offer previews only for supported files that passed scanning', () => {
+    render(
+      <AttachmentList
+        attachments={[
+          { ...mockAttachments[0], fileName: 'server.log' },
+          { ...mockAttachments[0], fileName: 'archive.zip' },
+          { ...mockAttachments[0], fileName: 'scanning.log', scanStatus: AttachmentScanStatus.PENDING }
+        ]}
+      />
+    )
+
+    expect(screen.getAllByLabelText('プレビュー')).toHaveLength(1)
+  })
+})
@@ -17,12 +17,18 @@ describe('FileUpload Component', () => {
   
   const mockFileUploadReturn = {
     files: [],
+    stagedFiles: [],
     previews: {},
     errors: {},
     isUploading: false,
     setIsUploading: jest.fn(),
+    uploadStates: {},
+    uploadAll: jest.fn(),
+    retryFile: jest.fn(),
     addFile: jest.fn(),
     removeFile: jest.fn(),
+    removeStagedFile: jest.fn(),
+    restoreStagedFiles: jest.fn(),
     clearFiles: jest.fn(),
     formatFileSize: jest.fn((bytes: number) => `${bytes} Bytes`),
     isValid: true,
@@ -116,6 +122,29 @@ describe('FileUpload Component', () => {
     expect(mockFileUploadReturn.removeFile).toHaveBeenCalledWith('file-1')
   })
 
+  it('should list uploaded files and remove them', async () => {
+    const user = userEvent.setup()
+    mockUseFileUpload.mockReturnValue({
+      ...mockFileUploadReturn,
+      stagedFiles: [{
+        fileName: 'restored.pdf',
+        blobUrl: 'https://storage.example/qa-attachments/questions/temp/question/restored.pdf',
+        size: 1024,
+        contentType: 'application/pdf'
+      }]
+    })
+
+    render(<FileUpload onFilesChange={jest.fn()} />)
+
+    expect(screen.getByText('restored.pdf')).toBeInTheDocument()
+    expect(screen.getByText('選択されたファイル (1)')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: /削除/i }))
+
+    expect(mockFileUploadReturn.removeStagedFile)
+      .toHaveBeenCalledWith('https://storage.example/qa-attachments/questions/temp/question/restored.pdf')
+  })
+
   it('should display image previews', () => {
     const mockFiles = [
       {
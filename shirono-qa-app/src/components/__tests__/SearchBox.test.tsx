@@ -3,16 +3,22 @@ import userEvent from '@testing-library/user-event'
 import SearchBox from '../SearchBox'
 import { QuestionStatus, QuestionPriority } from '../../types/question'
 
-// Mock the search module
-jest.mock('../../lib/search', () => ({
-  searchQuestions: jest.fn(),
-  getSearchSuggestions: jest.fn(),
-}))
-
-import { searchQuestions, getSearchSuggestions } from '../../lib/search'
-
-const mockSearchQuestions = searchQuestions as jest.MockedFunction<typeof searchQuestions>
-const mockGetSearchSuggestions = getSearchSuggestions as jest.MockedFunction<typeof getSearchSuggestions>
+// Mock the search API endpoints
+const mockSearchQuestions = jest.fn()
+const mockGetSearchSuggestions = jest.fn()
+
+const mockFetch = jest.fn((url: string) => {
+  const { pathname, searchParams } = new URL(url, 'http://localhost')
+  const payload = pathname === '/api/search/suggestions'
+    ? mockGetSearchSuggestions(searchParams.get('q'))
+    : mockSearchQuestions(Object.fromEntries(searchParams))
+
+  return Promise.resolve(payload).then(result => ({
+    ok: !result?.error,
+    json: async () => result
+  }))
+})
+global.fetch = mockFetch as unknown as typeof fetch
 
 const mockSearchResults = {
   success: true,
@@ -48,8 +54,9 @@ const mockSearchResults = {
 
 describe('SearchBox Component', () => {
   beforeEach(() => {
-    mockSearchQuestions.mockClear()
-    mockGetSearchSuggestions.mockClear()
+    mockFetch.mockClear()
+    mockSearchQuestions.mockReset()
+    mockGetSearchSuggestions.mockReset()
   })
 
   it('should render search input with placeholder', () => {
@@ -94,10 +101,8 @@ describe('SearchBox Component', () => {
     await waitFor(() => {
       expect(mockSearchQuestions).toHaveBeenCalledWith({
         q: 'JWT authentication',
-        page: 1,
-        limit: 20,
-        status: undefined,
-        priority: undefined,
+        page: '1',
+        limit: '20',
         sortBy: 'relevance',
         sortOrder: 'desc'
       })
@@ -118,10 +123,8 @@ describe('SearchBox Component', () => {
     await waitFor(() => {
       expect(mockSearchQuestions).toHaveBeenCalledWith({
         q: 'Next.js setup',
-        page: 1,
-        limit: 20,
-        status: undefined,
-        priority: undefined,
+        page: '1',
+        limit: '20',
         sortBy: 'relevance',
         sortOrder: 'desc'
       })
@@ -152,10 +155,8 @@ describe('SearchBox Component', () => {
     await waitFor(() => {
       expect(mockSearchQuestions).toHaveBeenCalledWith({
         q: 'authentication guide',
-        page: 1,
-        limit: 20,
-        status: undefined,
-        priority: undefined,
+        page: '1',
+        limit: '20',
         sortBy: 'relevance',
         sortOrder: 'desc'
       })
@@ -195,8 +196,10 @@ describe('SearchBox Component', () => {
     const user = userEvent.setup()
     const onResults = jest.fn()
     mockSearchQuestions.mockResolvedValue({
-      success: false,
-      error: 'Search service unavailable'
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Search service unavailable'
+      }
     })
 
     render(<SearchBox onResults={onResults} />)
@@ -234,8 +237,8 @@ describe('SearchBox Component', () => {
         q: 'JWT',
         status: QuestionStatus.ANSWERED,
         priority: QuestionPriority.HIGH,
-        page: 1,
-        limit: 20,
+        page: '1',
+        limit: '20',
         sortBy: 'relevance',
         sortOrder: 'desc'
       })
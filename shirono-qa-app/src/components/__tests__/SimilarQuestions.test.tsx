@@ -2,14 +2,23 @@ import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import SimilarQuestions from '../SimilarQuestions'
 
-// Mock the search module
-jest.mock('../../lib/search', () => ({
-  findSimilarQuestions: jest.fn(),
-}))
-
-import { findSimilarQuestions } from '../../lib/search'
-
-const mockFindSimilarQuestions = findSimilarQuestions as jest.MockedFunction<typeof findSimilarQuestions>
+// Mock the similar questions API endpoint
+const mockFindSimilarQuestions = jest.fn()
+
+const mockFetch = jest.fn((url: string) => {
+  const { searchParams } = new URL(url, 'http://localhost')
+  const payload = mockFindSimilarQuestions(
+    searchParams.get('q'),
+    searchParams.get('excludeId') || undefined,
+    Number(searchParams.get('limit'))
+  )
+
+  return Promise.resolve(payload).then(result => ({
+    ok: result?.success !== false,
+    json: async () => result
+  }))
+})
+global.fetch = mockFetch as unknown as typeof fetch
 
 const mockSimilarQuestions = [
   {
@@ -20,6 +29,7 @@ const mockSimilarQuestions = [
     snippet: 'I need help with JWT implementation and storing tokens securely...',
     status: 'answered',
     answersCount: 3,
+    topAnswerHelpfulCount: 0,
     createdAt: new Date('2024-01-01')
   },
   {
@@ -30,13 +40,15 @@ const mockSimilarQuestions = [
     snippet: 'What are the best practices for authentication in Next.js applications...',
     status: 'resolved',
     answersCount: 5,
+    topAnswerHelpfulCount: 0,
     createdAt: new Date('2024-01-02')
   }
 ]
 
 describe('SimilarQuestions Component', () => {
   beforeEach(() => {
-    mockFindSimilarQuestions.mockClear()
+    mockFetch.mockClear()
+    mockFindSimilarQuestions.mockReset()
   })
 
   it('should render loading state initially', async () => {
@@ -0,0 +1,132 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { Draft, DraftKind, SaveDraftRequest } from '@/types/draft'
+
+// 入力が止まってから保存するまでの時間
+export const DRAFT_AUTOSAVE_DELAY_MS = 2000
+
+export type DraftFields = Omit<SaveDraftRequest, 'kind' | 'questionId'>
+
+export type DraftSaveStatus = 'idle' | 'saving' | 'saved' | 'error'
+
+interface UseDraftAutosaveOptions {
+  kind: DraftKind
+  questionId?: string
+  enabled?: boolean
+}
+
+/**
+ * 投稿フォームの下書きをサーバーに自動保存
+ * 保存済みの下書きがあれば savedDraft で返し、フォーム側で「下書きを再開」を確認する
+ */
+export function useDraftAutosave({ kind, questionId, enabled = true }: UseDraftAutosaveOptions) {
+  const [savedDraft, setSavedDraft] = useState<Draft | null>(null)
+  const [status, setStatus] = useState<DraftSaveStatus>('idle')
+  const [savedAt, setSavedAt] = useState<Date | null>(null)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const query = `kind=${kind}${questionId ? `&questionId=${encodeURIComponent(questionId)}` : ''}`
+
+  const cancelScheduledSave = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current)
+      timerRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    let cancelled = false
+    const loadDraft = async () => {
+      try {
+        const response = await fetch(`/api/drafts?${query}`, { credentials: 'include' })
+        const data = await response.json()
+        if (!cancelled && response.ok && data.success && data.draft) {
+          setSavedDraft(data.draft)
+        }
+      } catch (err) {
+        console.error('Failed to load draft:', err)
+      }
+    }
+
+    loadDraft()
+    return () => {
+      cancelled = true
+    }
+  }, [enabled, query])
+
+  useEffect(() => cancelScheduledSave, [cancelScheduledSave])
+
+  const saveNow = useCallback(async (fields: DraftFields) => {
+    try {
+      setStatus('saving')
+
+      // 空のフォームは下書きとして残さない
+      const isEmpty = !fields.content.trim() && !fields.title?.trim() && !fields.fileUrls?.length
+      const response = isEmpty
+        ? await fetch(`/api/drafts?${query}`, { method: 'DELETE', credentials: 'include' })
+        : await fetch('/api/drafts', {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          credentials: 'include',
+          body: JSON.stringify({ kind, ...(questionId && { questionId }), ...fields })
+        })
+
+      if (!response.ok) {
+        setStatus('error')
+        return
+      }
+
+      setStatus(isEmpty ? 'idle' : 'saved')
+      setSavedAt(isEmpty ? null : new Date())
+    } catch (err) {
+      console.error('Failed to save draft:', err)
+      setStatus('error')
+    }
+  }, [kind, questionId, query])
+
+  // 入力のたびに呼び出し、入力が止まったら保存する
+  const scheduleSave = useCallback((fields: DraftFields) => {
+    if (!enabled) {
+      return
+    }
+
+    cancelScheduledSave()
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null
+      saveNow(fields)
+    }, DRAFT_AUTOSAVE_DELAY_MS)
+  }, [enabled, cancelScheduledSave, saveNow])
+
+  // 再開の確認を閉じる（下書きを再開した場合・新しく書き始める場合）
+  const dismissSavedDraft = useCallback(() => {
+    setSavedDraft(null)
+  }, [])
+
+  // 投稿後・破棄時に下書きを削除
+  const clearDraft = useCallback(async () => {
+    cancelScheduledSave()
+    setSavedDraft(null)
+    setStatus('idle')
+    setSavedAt(null)
+
+    try {
+      await fetch(`/api/drafts?${query}`, { method: 'DELETE', credentials: 'include' })
+    } catch (err) {
+      console.error('Failed to delete draft:', err)
+    }
+  }, [cancelScheduledSave, query])
+
+  return {
+    savedDraft,
+    status,
+    savedAt,
+    scheduleSave,
+    dismissSavedDraft,
+    clearDraft
+  }
+}
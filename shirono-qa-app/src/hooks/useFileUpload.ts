@@ -1,11 +1,14 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef } from 'react'
 import { validateFiles, VALIDATION_LIMITS, ALLOWED_FILE_TYPES } from '../lib/validation'
+import { uploadFileResumable, ResumableUploadResult } from '../lib/resumable-upload'
+import { UploadTarget } from '../types/upload'
 
 interface UseFileUploadProps {
   maxFiles?: number
   maxFileSize?: number
   allowedTypes?: string[]
   onFilesChange?: (files: File[]) => void
+  stageOnAdd?: boolean         // 選択時に添付前ファイルとしてアップロードする（投稿前の下書きに残すため）
 }
 
 interface FileData {
@@ -13,24 +16,101 @@ interface FileData {
   file: File
 }
 
+export type FileUploadStatus = 'uploading' | 'done' | 'error'
+
+// 添付前ファイルとしてアップロード済みのファイル（投稿後に質問へ関連付ける）
+export interface StagedFile {
+  fileName: string
+  blobUrl: string
+  size: number
+  contentType: string
+}
+
+export interface FileUploadState {
+  status: FileUploadStatus
+  progress: number             // 0-100
+  sessionId?: string           // 再開用のアップロードセッションID
+  error?: string
+}
+
 export function useFileUpload({
   maxFiles = VALIDATION_LIMITS.MAX_ATTACHMENTS,
   maxFileSize = VALIDATION_LIMITS.MAX_FILE_SIZE,
   allowedTypes = [...ALLOWED_FILE_TYPES],
-  onFilesChange
+  onFilesChange,
+  stageOnAdd = false
 }: UseFileUploadProps = {}) {
   const [files, setFiles] = useState<FileData[]>([])
+  const [stagedFiles, setStagedFiles] = useState<StagedFile[]>([])
   const [previews, setPreviews] = useState<Record<string, string>>({})
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [isUploading, setIsUploading] = useState(false)
+  const [uploadStates, setUploadStates] = useState<Record<string, FileUploadState>>({})
+  // 再試行時に同じアップロード先を使うため保持
+  const uploadTargetRef = useRef<UploadTarget | null>(null)
 
   const generateFileId = useCallback(() => {
     return `file-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
   }, [])
 
+  const updateUploadState = useCallback((fileId: string, state: Partial<FileUploadState>) => {
+    setUploadStates(prev => ({
+      ...prev,
+      [fileId]: { ...(prev[fileId] || { status: 'uploading', progress: 0 }), ...state }
+    }))
+  }, [])
+
+  // 添付前ファイルとしてアップロードし、成功したらアップロード済みの一覧へ移す
+  // （失敗したファイルは一覧に残り、投稿時に通常どおりアップロードする）
+  const stageFile = useCallback(async (fileData: FileData): Promise<StagedFile | null> => {
+    updateUploadState(fileData.id, { status: 'uploading', progress: 0, error: undefined })
+
+    try {
+      const formData = new FormData()
+      formData.append('files', fileData.file)
+
+      const response = await fetch('/api/files/upload', {
+        method: 'POST',
+        credentials: 'include',
+        body: formData
+      })
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        updateUploadState(fileData.id, { status: 'error', error: data.error || 'アップロードに失敗しました' })
+        return null
+      }
+
+      const staged = (data.files as StagedFile[])[0]
+      setStagedFiles(prev => [...prev, staged])
+      setFiles(prev => {
+        const newFiles = prev.filter(f => f.id !== fileData.id)
+        onFilesChange?.(newFiles.map(f => f.file))
+        return newFiles
+      })
+      setPreviews(prev => {
+        const newPreviews = { ...prev }
+        if (newPreviews[fileData.id]) {
+          URL.revokeObjectURL(newPreviews[fileData.id])
+          delete newPreviews[fileData.id]
+        }
+        return newPreviews
+      })
+      setUploadStates(prev => {
+        const newStates = { ...prev }
+        delete newStates[fileData.id]
+        return newStates
+      })
+      return staged
+    } catch (error) {
+      console.error('File staging error:', error)
+      updateUploadState(fileData.id, { status: 'error', error: 'アップロードに失敗しました' })
+      return null
+    }
+  }, [updateUploadState, onFilesChange])
+
   const addFile = useCallback((file: File) => {
     // Check if we're at max files
-    if (files.length >= maxFiles) {
+    if (files.length + stagedFiles.length >= maxFiles) {
       const errorId = generateFileId()
       setErrors(prev => ({
         ...prev,
@@ -83,7 +163,11 @@ export function useFileUpload({
       onFilesChange?.(newFiles.map(f => f.file))
       return newFiles
     })
-  }, [files.length, maxFiles, maxFileSize, allowedTypes, onFilesChange, generateFileId])
+
+    if (stageOnAdd) {
+      stageFile(fileData)
+    }
+  }, [files.length, stagedFiles.length, maxFiles, maxFileSize, allowedTypes, onFilesChange, generateFileId, stageOnAdd, stageFile])
 
   const removeFile = useCallback((fileId: string) => {
     setFiles(prev => {
@@ -108,8 +192,24 @@ export function useFileUpload({
       delete newErrors[fileId]
       return newErrors
     })
+
+    setUploadStates(prev => {
+      const newStates = { ...prev }
+      delete newStates[fileId]
+      return newStates
+    })
   }, [onFilesChange])
 
+  // アップロード済みのファイルを外す（添付前ファイルは未使用のまま定期削除される）
+  const removeStagedFile = useCallback((blobUrl: string) => {
+    setStagedFiles(prev => prev.filter(file => file.blobUrl !== blobUrl))
+  }, [])
+
+  // 下書きを再開した場合にアップロード済みのファイルを戻す
+  const restoreStagedFiles = useCallback((restored: StagedFile[]) => {
+    setStagedFiles(restored)
+  }, [])
+
   const clearFiles = useCallback(() => {
     // Clean up all preview URLs
     Object.values(previews).forEach(url => {
@@ -117,11 +217,82 @@ export function useFileUpload({
     })
 
     setFiles([])
+    setStagedFiles([])
     setPreviews({})
     setErrors({})
+    setUploadStates({})
     onFilesChange?.([])
   }, [previews, onFilesChange])
 
+  // 1ファイルをアップロード（セッションIDがあれば中断箇所から再開）
+  const uploadFile = useCallback(async (
+    fileData: FileData,
+    target: UploadTarget,
+    sessionId?: string
+  ): Promise<ResumableUploadResult | null> => {
+    updateUploadState(fileData.id, { status: 'uploading', error: undefined })
+
+    try {
+      const result = await uploadFileResumable(fileData.file, target, {
+        sessionId,
+        onSessionCreated: createdSessionId => updateUploadState(fileData.id, { sessionId: createdSessionId }),
+        onProgress: (uploadedBytes, totalBytes) => updateUploadState(fileData.id, {
+          progress: totalBytes > 0 ? Math.round((uploadedBytes / totalBytes) * 100) : 100
+        })
+      })
+      updateUploadState(fileData.id, { status: 'done', progress: 100 })
+      return result
+    } catch (error) {
+      console.error('File upload error:', error)
+      updateUploadState(fileData.id, { status: 'error', error: 'アップロードに失敗しました' })
+      return null
+    }
+  }, [updateUploadState])
+
+  // 未完了のファイルを全てアップロード（失敗したファイルは再開）
+  const uploadAll = useCallback(async (target: UploadTarget) => {
+    uploadTargetRef.current = target
+    setIsUploading(true)
+
+    const results: ResumableUploadResult[] = []
+    let failedCount = 0
+
+    try {
+      for (const fileData of files) {
+        const state = uploadStates[fileData.id]
+        if (state?.status === 'done') {
+          continue
+        }
+
+        const result = await uploadFile(fileData, target, state?.sessionId)
+        if (result) {
+          results.push(result)
+        } else {
+          failedCount++
+        }
+      }
+    } finally {
+      setIsUploading(false)
+    }
+
+    return { results, failedCount }
+  }, [files, uploadStates, uploadFile])
+
+  // 失敗したファイルを再試行（投稿前は添付前ファイルとしてアップロードし直す）
+  const retryFile = useCallback(async (fileId: string) => {
+    const fileData = files.find(f => f.id === fileId)
+    const target = uploadTargetRef.current
+    if (fileData && !target && stageOnAdd) {
+      await stageFile(fileData)
+      return null
+    }
+    if (!fileData || !target) {
+      return null
+    }
+
+    return uploadFile(fileData, target, uploadStates[fileId]?.sessionId)
+  }, [files, uploadStates, uploadFile, stageOnAdd, stageFile])
+
   const formatFileSize = useCallback((bytes: number): string => {
     if (bytes === 0) return '0 Bytes'
     
@@ -134,15 +305,23 @@ export function useFileUpload({
 
   return {
     files,
+    stagedFiles,
     previews,
     errors,
     isUploading,
     setIsUploading,
+    uploadStates,
+    uploadAll,
+    retryFile,
     addFile,
     removeFile,
+    removeStagedFile,
+    restoreStagedFiles,
     clearFiles,
     formatFileSize,
     isValid: Object.keys(errors).length === 0,
-    totalSize: files.reduce((total, file) => total + file.file.size, 0)
+    totalSize: files.reduce((total, file) => total + file.file.size, 0) + stagedFiles.reduce((total, file) => total + file.size, 0)
   }
-}
\ No newline at end of file
+}
+
+export type FileUploader = ReturnType<typeof useFileUpload>
@@ -0,0 +1,97 @@
+import { useState, useCallback, useRef, useEffect } from 'react'
+import { getAttachmentPreviewUrl, getPreviewKind } from '@/lib/attachment-preview'
+
+/**
+ * 本文入力欄への画像の貼り付け・ドラッグ＆ドロップ
+ * 添付ファイルと同じAPIでアップロードし、カーソル位置に Markdown の画像参照を挿入する
+ * （画像は投稿の保存時に投稿の添付ファイルとして確定される）
+ */
+export function useInlineImageUpload(value: string, onChange: (value: string) => void) {
+  const inputRef = useRef<HTMLTextAreaElement | null>(null)
+  const valueRef = useRef(value)
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // アップロード中に入力された内容も残すため、挿入時は最新の本文を使う
+  useEffect(() => {
+    valueRef.current = value
+  }, [value])
+
+  const uploadImages = useCallback(async (files: File[]) => {
+    const input = inputRef.current
+    const selectionStart = input?.selectionStart ?? valueRef.current.length
+    const selectionEnd = input?.selectionEnd ?? selectionStart
+
+    try {
+      setUploading(true)
+      setError(null)
+
+      const formData = new FormData()
+      files.forEach(file => formData.append('files', file))
+
+      const response = await fetch('/api/files/upload', {
+        method: 'POST',
+        credentials: 'include',
+        body: formData
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        setError(data.error || '画像のアップロードに失敗しました')
+        return
+      }
+
+      const markdown = (data.files as { fileName: string; blobUrl: string }[])
+        .map(file => `![${file.fileName.replace(/[[\]]/g, '')}](${getAttachmentPreviewUrl(file.blobUrl)})`)
+        .join('\n')
+
+      const current = valueRef.current
+      const start = Math.min(selectionStart, current.length)
+      const end = Math.min(selectionEnd, current.length)
+      onChange(current.slice(0, start) + markdown + current.slice(end))
+    } catch (err) {
+      console.error('Failed to upload inline images:', err)
+      setError('画像のアップロードに失敗しました')
+    } finally {
+      setUploading(false)
+    }
+  }, [onChange])
+
+  // 画像以外のファイルは通常の入力として扱う
+  const takeImages = (fileList: FileList) =>
+    Array.from(fileList).filter(file => getPreviewKind(file.name) === 'image')
+
+  const handlePaste = useCallback((event: React.ClipboardEvent) => {
+    const images = takeImages(event.clipboardData.files)
+    if (images.length > 0) {
+      event.preventDefault()
+      uploadImages(images)
+    }
+  }, [uploadImages])
+
+  const handleDrop = useCallback((event: React.DragEvent) => {
+    const images = takeImages(event.dataTransfer.files)
+    if (images.length > 0) {
+      event.preventDefault()
+      uploadImages(images)
+    }
+  }, [uploadImages])
+
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    if (event.dataTransfer.types.includes('Files')) {
+      event.preventDefault()
+    }
+  }, [])
+
+  return {
+    inputRef,
+    uploading,
+    error,
+    clearError: () => setError(null),
+    handlers: {
+      onPaste: handlePaste,
+      onDrop: handleDrop,
+      onDragOver: handleDragOver
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { useState, useCallback } from 'react'
+
+/**
+ * 投稿フォームの書く／プレビュー切り替え
+ * プレビューは保存時と同じくサーバー側で変換・無害化した HTML を表示する
+ */
+export function useMarkdownPreview() {
+  const [mode, setMode] = useState<'write' | 'preview'>('write')
+  const [html, setHtml] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const showPreview = useCallback(async (content: string) => {
+    setMode('preview')
+    setError(null)
+
+    if (!content.trim()) {
+      setHtml('')
+      return
+    }
+
+    try {
+      setLoading(true)
+
+      const response = await fetch('/api/markdown/preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        credentials: 'include',
+        body: JSON.stringify({ content })
+      })
+
+      const data = await response.json()
+      if (!response.ok || !data.success) {
+        setError(data.error?.message || 'プレビューの表示に失敗しました')
+        return
+      }
+
+      setHtml(data.html)
+    } catch (err) {
+      console.error('Failed to render markdown preview:', err)
+      setError('プレビューの表示に失敗しました')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  const showEditor = useCallback(() => {
+    setMode('write')
+  }, [])
+
+  return {
+    mode,
+    html,
+    loading,
+    error,
+    showPreview,
+    showEditor
+  }
+}
@@ -0,0 +1,121 @@
+import { useState, useCallback, useRef, useEffect } from 'react'
+import { getActiveMention } from '@/lib/mention-names'
+import { MentionableUser } from '@/types/auth'
+
+/**
+ * 本文入力欄の @ユーザー名 の入力補完
+ * 候補は質問を閲覧できるユーザーのみ（questionId を指定しない場合は無効）
+ */
+export function useMentionSuggestions(
+  questionId: string | undefined,
+  value: string,
+  onChange: (value: string) => void,
+  inputRef: React.RefObject<HTMLTextAreaElement | null>
+) {
+  const valueRef = useRef(value)
+  const [active, setActive] = useState<{ query: string; start: number } | null>(null)
+  const [users, setUsers] = useState<MentionableUser[]>([])
+  const [highlighted, setHighlighted] = useState(0)
+
+  useEffect(() => {
+    valueRef.current = value
+  }, [value])
+
+  // 入力が止まってから候補を検索
+  const query = active?.query
+  useEffect(() => {
+    if (!questionId || query === undefined) {
+      setUsers([])
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: query })
+        const response = await fetch(`/api/questions/${questionId}/mentionable-users?${params.toString()}`, {
+          credentials: 'include'
+        })
+        const data = await response.json()
+        if (!cancelled && response.ok && data.success) {
+          setUsers(data.users)
+          setHighlighted(0)
+        }
+      } catch (err) {
+        console.error('Failed to load mention suggestions:', err)
+      }
+    }, 200)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [questionId, query])
+
+  // 入力のたびにカーソル直前の @ を確認
+  const update = useCallback((text: string, caret: number | null) => {
+    if (!questionId) {
+      return
+    }
+    setActive(caret === null ? null : getActiveMention(text, caret))
+  }, [questionId])
+
+  const close = useCallback(() => setActive(null), [])
+
+  const select = useCallback((user: MentionableUser) => {
+    if (!active) {
+      return
+    }
+
+    const current = valueRef.current
+    const end = active.start + 1 + active.query.length
+    const mention = `@${user.username} `
+    onChange(current.slice(0, active.start) + mention + current.slice(end))
+    setActive(null)
+
+    // 挿入したメンションの後ろにカーソルを移す
+    const caret = active.start + mention.length
+    requestAnimationFrame(() => {
+      inputRef.current?.focus()
+      inputRef.current?.setSelectionRange(caret, caret)
+    })
+  }, [active, onChange, inputRef])
+
+  const open = active !== null && users.length > 0
+
+  const handleKeyDown = useCallback((event: React.KeyboardEvent) => {
+    if (!open) {
+      return
+    }
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault()
+        setHighlighted(index => (index + 1) % users.length)
+        break
+      case 'ArrowUp':
+        event.preventDefault()
+        setHighlighted(index => (index - 1 + users.length) % users.length)
+        break
+      case 'Enter':
+      case 'Tab':
+        event.preventDefault()
+        select(users[Math.min(highlighted, users.length - 1)])
+        break
+      case 'Escape':
+        event.preventDefault()
+        close()
+        break
+    }
+  }, [open, users, highlighted, select, close])
+
+  return {
+    open,
+    users,
+    highlighted,
+    update,
+    select,
+    close,
+    handleKeyDown
+  }
+}
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react'
+import { DEFAULT_REQUEST_TEMPLATES } from '@/lib/request-types'
+import { RequestType } from '@/types/question'
+import { RequestTemplate, RequestTemplateField } from '@/types/request-template'
+
+/**
+ * 依頼種別ごとの入力項目（管理者の設定を読み込むまでは既定のテンプレート）
+ */
+export function useRequestTemplates() {
+  const [templates, setTemplates] = useState<Record<RequestType, RequestTemplateField[]>>(DEFAULT_REQUEST_TEMPLATES)
+
+  useEffect(() => {
+    let cancelled = false
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch('/api/request-templates', { credentials: 'include' })
+        const data = await response.json()
+        if (!cancelled && response.ok && data.success) {
+          setTemplates(Object.fromEntries(
+            (data.templates as RequestTemplate[]).map(template => [template.requestType, template.fields])
+          ) as Record<RequestType, RequestTemplateField[]>)
+        }
+      } catch (err) {
+        console.error('Failed to load request templates:', err)
+      }
+    }
+
+    loadTemplates()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return templates
+}
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react'
+import { Tag } from '@/types/tag'
+
+/**
+ * 管理者が整備したタグのカタログ（読み込みに失敗した場合は空）
+ */
+export function useTagCatalog(enabled = true) {
+  const [tags, setTags] = useState<Tag[]>([])
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    let cancelled = false
+    const loadTags = async () => {
+      try {
+        const response = await fetch('/api/tags', { credentials: 'include' })
+        const data = await response.json()
+        if (!cancelled && response.ok && data.success) {
+          setTags(data.tags)
+        }
+      } catch (err) {
+        console.error('Failed to load tags:', err)
+      }
+    }
+
+    loadTags()
+    return () => {
+      cancelled = true
+    }
+  }, [enabled])
+
+  return tags
+}
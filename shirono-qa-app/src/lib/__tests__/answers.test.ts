@@ -8,8 +8,11 @@ import {
   deleteComment,
   getCommentsByQuestion,
   getCommentsByAnswer,
-  validateCommentData
+  validateCommentData,
+  setAnswerHelpful,
+  setCommentHelpful
 } from '../answers'
+import { Answer, Comment } from '@/types/answer'
 import { testDataStore, mockCosmosService } from './test-helpers'
 
 // CosmosServiceをモック
@@ -93,6 +96,24 @@ describe('Answers and Comments Library', () => {
       expect(result.answer?.attachments).toEqual([])
     })
 
+    it('should store the rendered markdown of the content', async () => {
+      const result = await createAnswer({ content: '**Use** `az login`' }, 'question123', 'user456')
+
+      expect(result.answer?.contentHtml).toBe('<p><strong>Use</strong> <code>az login</code></p>\n')
+    })
+
+    it('should record mentions of users who can access the question', async () => {
+      await testDataStore.createItem('questions', { id: 'question123', authorId: 'user456', groupId: 'group-1' })
+      await testDataStore.createItem('users', { id: 'user789', username: 'tanaka', groupId: 'group-1', isAdmin: false })
+      await testDataStore.createItem('users', { id: 'user999', username: 'outsider', groupId: 'group-2', isAdmin: false })
+
+      const result = await createAnswer({ content: '@tanaka @outsider 確認お願いします' }, 'question123', 'user456')
+
+      expect(result.answer?.mentions).toEqual(['user789'])
+      expect(result.answer?.contentHtml).toContain('class="mention"')
+      expect(result.answer?.contentHtml).not.toContain('author=outsider')
+    })
+
     it('should reject invalid answer data', async () => {
       const answerData = {
         content: ''
@@ -159,6 +180,36 @@ describe('Answers and Comments Library', () => {
       expect(result.success).toBe(true)
     })
 
+    it('should delete the revisions of the deleted answer', async () => {
+      await testDataStore.createItem('answers', {
+        id: 'answer123',
+        questionId: 'question123',
+        content: 'Answer',
+        authorId: 'user123',
+        attachments: [],
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+      for (const targetId of ['answer123', 'answer-other']) {
+        await testDataStore.createItem('revisions', {
+          id: `revision-${targetId}`,
+          targetType: 'answer',
+          targetId,
+          questionId: 'question123',
+          content: 'Old content',
+          editedBy: 'user123',
+          createdAt: new Date()
+        })
+      }
+
+      const result = await deleteAnswer('answer123')
+
+      expect(result.success).toBe(true)
+      expect(await testDataStore.getItem('answers', 'answer123')).toBeFalsy()
+      expect(await testDataStore.getItem('revisions', 'revision-answer123')).toBeFalsy()
+      expect(await testDataStore.getItem('revisions', 'revision-answer-other')).toBeTruthy()
+    })
+
     it('should return error for non-existent answer', async () => {
       const answerId = 'nonexistent'
 
@@ -262,6 +313,33 @@ describe('Answers and Comments Library', () => {
       expect(result.success).toBe(false)
       expect(result.error).toContain('Invalid comment data')
     })
+
+    it('should create a reply in the same thread as its parent', async () => {
+      const parent = await createComment({ content: 'Parent comment', answerId: 'answer123' }, 'question123', 'user456')
+
+      const result = await createComment(
+        { content: 'Reply', parentCommentId: parent.comment!.id },
+        'question123',
+        'user789'
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.comment?.parentCommentId).toBe(parent.comment!.id)
+      expect(result.comment?.answerId).toBe('answer123')
+    })
+
+    it('should reject a reply to a comment on another question', async () => {
+      const parent = await createComment({ content: 'Parent comment' }, 'question999', 'user456')
+
+      const result = await createComment(
+        { content: 'Reply', parentCommentId: parent.comment!.id },
+        'question123',
+        'user789'
+      )
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Parent comment not found')
+    })
   })
 
   describe('getCommentsByQuestion', () => {
@@ -303,5 +381,132 @@ describe('Answers and Comments Library', () => {
       expect(result.success).toBe(false)
       expect(result.error).toBe('Comment not found')
     })
+
+    it('should keep a deleted placeholder while the comment has replies', async () => {
+      const parent = await createComment({ content: 'Parent comment' }, 'question123', 'user456')
+      const reply = await createComment({ content: 'Reply', parentCommentId: parent.comment!.id }, 'question123', 'user789')
+
+      const result = await deleteComment(parent.comment!.id)
+
+      expect(result.success).toBe(true)
+      const placeholder = await testDataStore.getItem<Comment>('comments', parent.comment!.id)
+      expect(placeholder?.deletedAt).toBeDefined()
+      expect(placeholder?.content).toBe('')
+      expect(placeholder?.contentHtml).toBe('')
+      expect(await testDataStore.getItem<Comment>('comments', reply.comment!.id)).toBeTruthy()
+    })
+
+    it('should remove a deleted placeholder once its last reply is deleted', async () => {
+      const parent = await createComment({ content: 'Parent comment' }, 'question123', 'user456')
+      const reply = await createComment({ content: 'Reply', parentCommentId: parent.comment!.id }, 'question123', 'user789')
+      await deleteComment(parent.comment!.id)
+
+      const result = await deleteComment(reply.comment!.id)
+
+      expect(result.success).toBe(true)
+      expect(await testDataStore.getItem<Comment>('comments', reply.comment!.id)).toBeFalsy()
+      expect(await testDataStore.getItem<Comment>('comments', parent.comment!.id)).toBeFalsy()
+    })
+
+    it('should delete the revisions of a deleted comment', async () => {
+      const parent = await createComment({ content: 'Parent comment' }, 'question123', 'user456')
+      const reply = await createComment({ content: 'Reply', parentCommentId: parent.comment!.id }, 'question123', 'user789')
+      for (const comment of [parent.comment!, reply.comment!]) {
+        await testDataStore.createItem('revisions', {
+          id: `revision-${comment.id}`,
+          targetType: 'comment',
+          targetId: comment.id,
+          questionId: 'question123',
+          content: 'Old content',
+          editedBy: comment.authorId,
+          createdAt: new Date()
+        })
+      }
+
+      // 返信が残っているため「削除されました」として残る場合も履歴は削除する
+      await deleteComment(parent.comment!.id)
+      expect(await testDataStore.getItem('revisions', `revision-${parent.comment!.id}`)).toBeFalsy()
+      expect(await testDataStore.getItem('revisions', `revision-${reply.comment!.id}`)).toBeTruthy()
+
+      await deleteComment(reply.comment!.id)
+      expect(await testDataStore.getItem('revisions', `revision-${reply.comment!.id}`)).toBeFalsy()
+    })
+
+    it('should not allow replies to a deleted comment', async () => {
+      const parent = await createComment({ content: 'Parent comment' }, 'question123', 'user456')
+      await createComment({ content: 'Reply', parentCommentId: parent.comment!.id }, 'question123', 'user789')
+      await deleteComment(parent.comment!.id)
+
+      const result = await createComment({ content: 'Late reply', parentCommentId: parent.comment!.id }, 'question123', 'user789')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Parent comment not found')
+    })
+  })
+
+  describe('helpful votes', () => {
+    const createdAt = new Date('2024-01-15T10:00:00Z')
+
+    beforeEach(async () => {
+      await testDataStore.createItem('answers', {
+        id: 'answer-helpful',
+        questionId: 'question123',
+        content: 'Answer',
+        authorId: 'user456',
+        attachments: [],
+        createdAt,
+        updatedAt: createdAt
+      })
+    })
+
+    it('should count each user once and keep the update time', async () => {
+      await setAnswerHelpful('answer-helpful', 'user1', true)
+      await setAnswerHelpful('answer-helpful', 'user1', true)
+      const result = await setAnswerHelpful('answer-helpful', 'user2', true)
+
+      expect(result.success).toBe(true)
+      expect(result.answer?.helpfulCount).toBe(2)
+      expect(result.answer?.helpfulVoterIds).toEqual(['user1', 'user2'])
+      expect(result.answer?.updatedAt).toEqual(createdAt)
+    })
+
+    it('should apply the vote to the latest answer when another update lands first', async () => {
+      // 読み込み後に別のユーザーの投票と本文の編集が先に保存された場合
+      const modifyItem = jest.spyOn(mockCosmosService, 'modifyItem').mockImplementationOnce(async (containerId, id, partitionKey, modify) => {
+        const latest = await testDataStore.getItem<Answer>('answers', 'answer-helpful')
+        await testDataStore.updateItem('answers', 'answer-helpful', { ...latest!, content: 'Edited answer', helpfulVoterIds: ['user2'], helpfulCount: 1 })
+        return testDataStore.modifyItem(containerId, id, partitionKey, modify)
+      })
+
+      const result = await setAnswerHelpful('answer-helpful', 'user1', true)
+
+      expect(result.success).toBe(true)
+      expect(result.answer?.content).toBe('Edited answer')
+      expect(result.answer?.helpfulVoterIds).toEqual(['user2', 'user1'])
+      expect(result.answer?.helpfulCount).toBe(2)
+      modifyItem.mockRestore()
+    })
+
+    it('should undo a helpful vote', async () => {
+      await setAnswerHelpful('answer-helpful', 'user1', true)
+
+      const result = await setAnswerHelpful('answer-helpful', 'user1', false)
+
+      expect(result.success).toBe(true)
+      expect(result.answer?.helpfulCount).toBe(0)
+      const stored = await testDataStore.getItem<Answer>('answers', 'answer-helpful')
+      expect(stored?.helpfulVoterIds).toEqual([])
+    })
+
+    it('should not count votes on deleted comments', async () => {
+      const parent = await createComment({ content: 'Parent comment' }, 'question123', 'user456')
+      await createComment({ content: 'Reply', parentCommentId: parent.comment!.id }, 'question123', 'user789')
+      await deleteComment(parent.comment!.id)
+
+      const result = await setCommentHelpful(parent.comment!.id, 'user1', true)
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Comment not found')
+    })
   })
-})
\ No newline at end of file
+})
@@ -0,0 +1,76 @@
+import { getAutoAssignee } from '../assignment'
+import { testDataStore, mockCosmosService } from './test-helpers'
+
+jest.mock('../cosmos', () => ({
+  getCosmosService: () => mockCosmosService
+}))
+
+const createAdmin = (id: string, createdAt: string, isAdmin = true) => testDataStore.createItem('users', {
+  id,
+  username: id,
+  email: `${id}@example.com`,
+  groupId: 'group-admin',
+  isAdmin,
+  createdAt: new Date(createdAt),
+  lastLoginAt: null,
+})
+
+const createAssignedQuestion = (id: string, assigneeId: string, assignedAt: string) => testDataStore.createItem('questions', {
+  id,
+  groupId: 'group-1',
+  assigneeId,
+  assignedAt: new Date(assignedAt),
+})
+
+describe('assignment', () => {
+  beforeEach(async () => {
+    testDataStore.clear()
+
+    await createAdmin('admin-a', '2024-01-01T00:00:00Z')
+    await createAdmin('admin-b', '2024-01-02T00:00:00Z')
+    await createAdmin('admin-c', '2024-01-03T00:00:00Z')
+    await createAdmin('member', '2024-01-04T00:00:00Z', false)
+    await testDataStore.createItem('groups', { id: 'group-1', name: 'Group 1', description: 'desc', createdAt: new Date() })
+  })
+
+  describe('getAutoAssignee', () => {
+    it('should start the rotation with the oldest admin', async () => {
+      const assignee = await getAutoAssignee('group-1')
+
+      expect(assignee?.id).toBe('admin-a')
+    })
+
+    it('should pick the admin after the most recently assigned one', async () => {
+      await createAssignedQuestion('q1', 'admin-a', '2024-02-01T00:00:00Z')
+      await createAssignedQuestion('q2', 'admin-b', '2024-02-02T00:00:00Z')
+
+      expect((await getAutoAssignee('group-1'))?.id).toBe('admin-c')
+
+      await createAssignedQuestion('q3', 'admin-c', '2024-02-03T00:00:00Z')
+
+      expect((await getAutoAssignee('group-1'))?.id).toBe('admin-a')
+    })
+
+    it('should prefer the group default assignee', async () => {
+      await testDataStore.updateItem('groups', 'group-1', {
+        id: 'group-1', name: 'Group 1', description: 'desc', defaultAssigneeId: 'admin-c', createdAt: new Date()
+      })
+
+      expect((await getAutoAssignee('group-1'))?.id).toBe('admin-c')
+    })
+
+    it('should fall back to the rotation when the default assignee is no longer an admin', async () => {
+      await testDataStore.updateItem('groups', 'group-1', {
+        id: 'group-1', name: 'Group 1', description: 'desc', defaultAssigneeId: 'member', createdAt: new Date()
+      })
+
+      expect((await getAutoAssignee('group-1'))?.id).toBe('admin-a')
+    })
+
+    it('should return null when there are no admins', async () => {
+      testDataStore.clear()
+
+      expect(await getAutoAssignee('group-1')).toBeNull()
+    })
+  })
+})
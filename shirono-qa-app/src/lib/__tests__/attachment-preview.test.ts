@@ -0,0 +1,67 @@
+import {
+  getPreviewKind,
+  getPreviewLanguage,
+  canPreviewAttachment,
+  getAttachmentPreviewUrl,
+  PREVIEW_SOURCE_MAX_BYTES
+} from '../attachment-preview'
+import { decodeAttachmentId } from '../attachment-id'
+import { AttachmentScanStatus } from '@/types/question'
+
+const attachment = (fileName: string, fileSize = 1024) => ({
+  fileName,
+  fileSize,
+  blobUrl: `https://storage.example.com/files/questions/q1/question/${fileName}`,
+  contentType: 'application/octet-stream'
+})
+
+describe('attachment-preview', () => {
+  describe('getPreviewKind', () => {
+    it('should classify images, PDFs and text files', () => {
+      expect(getPreviewKind('screenshot.PNG')).toBe('image')
+      expect(getPreviewKind('photo.jpeg')).toBe('image')
+      expect(getPreviewKind('manual.pdf')).toBe('pdf')
+      expect(getPreviewKind('server.log')).toBe('text')
+      expect(getPreviewKind('config.yml')).toBe('text')
+    })
+
+    it('should return null for files that cannot be previewed', () => {
+      expect(getPreviewKind('archive.zip')).toBeNull()
+      expect(getPreviewKind('report.docx')).toBeNull()
+      expect(getPreviewKind('README')).toBeNull()
+    })
+  })
+
+  describe('getPreviewLanguage', () => {
+    it('should pick the highlight language from the extension', () => {
+      expect(getPreviewLanguage('data.json')).toBe('json')
+      expect(getPreviewLanguage('config.yaml')).toBe('yaml')
+      expect(getPreviewLanguage('config.yml')).toBe('yaml')
+      expect(getPreviewLanguage('app.log')).toBe('log')
+      expect(getPreviewLanguage('notes.txt')).toBe('plaintext')
+    })
+  })
+
+  describe('canPreviewAttachment', () => {
+    it('should not preview files that are being scanned or quarantined', () => {
+      expect(canPreviewAttachment(attachment('shot.png'))).toBe(true)
+      expect(canPreviewAttachment({ ...attachment('shot.png'), scanStatus: AttachmentScanStatus.CLEAN })).toBe(true)
+      expect(canPreviewAttachment({ ...attachment('shot.png'), scanStatus: AttachmentScanStatus.PENDING })).toBe(false)
+      expect(canPreviewAttachment({ ...attachment('shot.png'), scanStatus: AttachmentScanStatus.QUARANTINED })).toBe(false)
+    })
+
+    it('should skip thumbnails for large images but still preview large text files', () => {
+      expect(canPreviewAttachment(attachment('huge.png', PREVIEW_SOURCE_MAX_BYTES + 1))).toBe(false)
+      expect(canPreviewAttachment(attachment('huge.log', PREVIEW_SOURCE_MAX_BYTES + 1))).toBe(true)
+    })
+  })
+
+  it('should build the preview URL from the attachment id', () => {
+    const blobUrl = attachment('shot.png').blobUrl
+    const url = new URL(getAttachmentPreviewUrl(blobUrl, 'small'), 'http://localhost')
+
+    expect(url.pathname).toBe('/api/files/preview')
+    expect(url.searchParams.get('size')).toBe('small')
+    expect(decodeAttachmentId(url.searchParams.get('id')!)).toBe(blobUrl)
+  })
+})
@@ -0,0 +1,30 @@
+import { highlightCode } from '../code-highlight'
+
+describe('code-highlight', () => {
+  describe('highlightCode', () => {
+    it('should highlight JSON previews', () => {
+      const html = highlightCode('{"name": "app", "replicas": 2}', 'json')
+
+      expect(html).toContain('<span class="hljs-attr">&quot;name&quot;</span>')
+      expect(html).toContain('<span class="hljs-number">2</span>')
+    })
+
+    it('should highlight YAML previews', () => {
+      const html = highlightCode('metadata:\n  name: app # comment', 'yaml')
+
+      expect(html).toContain('<span class="hljs-attr">metadata:</span>')
+      expect(html).toContain('<span class="hljs-comment"># comment</span>')
+    })
+
+    it('should escape log files shown as plain text', () => {
+      const html = highlightCode('2024-01-15 10:00:00 ERROR <script>alert(1)</script>', 'log')
+
+      expect(html).toBe('2024-01-15 10:00:00 ERROR &lt;script&gt;alert(1)&lt;/script&gt;')
+    })
+
+    it('should return an empty string for unknown languages', () => {
+      expect(highlightCode('code', 'unknown-language')).toBe('')
+      expect(highlightCode('code', '')).toBe('')
+    })
+  })
+})
@@ -0,0 +1,46 @@
+import { buildCommentThreads, countReplies } from '../comment-threads'
+import { Comment } from '../../types/answer'
+
+const createComment = (id: string, parentCommentId?: string, deleted = false): Comment => ({
+  id,
+  questionId: 'question-1',
+  ...(parentCommentId && { parentCommentId }),
+  content: deleted ? '' : `Comment ${id}`,
+  authorId: 'user-1',
+  attachments: [],
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+  ...(deleted && { deletedAt: new Date('2024-01-16T10:00:00Z') })
+})
+
+describe('Comment threads', () => {
+  it('should nest replies under their parents in the given order', () => {
+    const threads = buildCommentThreads([
+      createComment('c1'),
+      createComment('c2'),
+      createComment('c3', 'c1'),
+      createComment('c4', 'c3'),
+      createComment('c5', 'c1')
+    ])
+
+    expect(threads.map(thread => thread.comment.id)).toEqual(['c1', 'c2'])
+    expect(threads[0].replies.map(thread => thread.comment.id)).toEqual(['c3', 'c5'])
+    expect(threads[0].replies[0].replies.map(thread => thread.comment.id)).toEqual(['c4'])
+  })
+
+  it('should treat replies to missing comments as thread roots', () => {
+    const threads = buildCommentThreads([createComment('c2', 'removed')])
+
+    expect(threads.map(thread => thread.comment.id)).toEqual(['c2'])
+  })
+
+  it('should count nested replies except deleted placeholders', () => {
+    const [thread] = buildCommentThreads([
+      createComment('c1'),
+      createComment('c2', 'c1', true),
+      createComment('c3', 'c2'),
+      createComment('c4', 'c1')
+    ])
+
+    expect(countReplies(thread)).toBe(2)
+  })
+})
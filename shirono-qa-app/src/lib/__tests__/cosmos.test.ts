@@ -0,0 +1,145 @@
+import CosmosService from '../cosmos'
+
+// Cosmos DB SDK をモック（コンテナのアイテム操作のみ）
+const mockRead = jest.fn()
+const mockReplace = jest.fn()
+const mockQuery = jest.fn()
+
+jest.mock('@azure/cosmos', () => ({
+  CosmosClient: jest.fn().mockImplementation(() => ({
+    database: (id: string) => ({
+      id,
+      containers: {
+        createIfNotExists: async () => ({
+          container: {
+            item: () => ({ read: mockRead, replace: mockReplace }),
+            items: { query: mockQuery }
+          }
+        })
+      }
+    })
+  })),
+  VectorEmbeddingDataType: {},
+  VectorEmbeddingDistanceFunction: {},
+  VectorIndexType: {}
+}))
+
+interface Votable {
+  id: string
+  content: string
+  helpfulVoterIds: string[]
+  _etag: string
+}
+
+const conflict = () => Object.assign(new Error('Precondition failed'), { code: 412 })
+
+describe('CosmosService', () => {
+  let service: CosmosService
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    service = new CosmosService({ connectionString: 'AccountEndpoint=https://dummy/;AccountKey=dummy==', databaseName: 'test' })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('modifyItem', () => {
+    const vote = (item: Votable) => ({ ...item, helpfulVoterIds: [...item.helpfulVoterIds, 'user1'] })
+
+    it('should replace the item only if it has not changed since it was read', async () => {
+      mockRead.mockResolvedValueOnce({ resource: { id: 'answer-1', content: 'Answer', helpfulVoterIds: [], _etag: '"1"' } })
+      mockReplace.mockImplementationOnce(async (item: Votable) => ({ resource: item }))
+
+      const result = await service.modifyItem<Votable>('answers', 'answer-1', 'question-1', vote)
+
+      expect(result?.helpfulVoterIds).toEqual(['user1'])
+      expect(mockReplace).toHaveBeenCalledWith(expect.any(Object), {
+        accessCondition: { type: 'IfMatch', condition: '"1"' }
+      })
+    })
+
+    it('should re-read and apply the change again after a conflict', async () => {
+      mockRead
+        .mockResolvedValueOnce({ resource: { id: 'answer-1', content: 'Answer', helpfulVoterIds: [], _etag: '"1"' } })
+        .mockResolvedValueOnce({ resource: { id: 'answer-1', content: 'Edited', helpfulVoterIds: ['user2'], _etag: '"2"' } })
+      mockReplace
+        .mockRejectedValueOnce(conflict())
+        .mockImplementationOnce(async (item: Votable) => ({ resource: item }))
+
+      const result = await service.modifyItem<Votable>('answers', 'answer-1', 'question-1', vote)
+
+      expect(mockReplace).toHaveBeenCalledTimes(2)
+      expect(mockReplace).toHaveBeenLastCalledWith(expect.any(Object), {
+        accessCondition: { type: 'IfMatch', condition: '"2"' }
+      })
+      expect(result?.content).toBe('Edited')
+      expect(result?.helpfulVoterIds).toEqual(['user2', 'user1'])
+    })
+
+    it('should give up after too many conflicts', async () => {
+      mockRead.mockResolvedValue({ resource: { id: 'answer-1', content: 'Answer', helpfulVoterIds: [], _etag: '"1"' } })
+      mockReplace.mockRejectedValue(conflict())
+
+      await expect(service.modifyItem<Votable>('answers', 'answer-1', 'question-1', vote, 3)).rejects.toMatchObject({ code: 412 })
+      expect(mockReplace).toHaveBeenCalledTimes(3)
+    })
+
+    it('should return null for a missing item and skip unchanged items', async () => {
+      mockRead.mockRejectedValueOnce(Object.assign(new Error('Not found'), { code: 404 }))
+      expect(await service.modifyItem<Votable>('answers', 'missing', 'question-1', vote)).toBeNull()
+
+      mockRead.mockResolvedValueOnce({ resource: { id: 'answer-1', content: 'Answer', helpfulVoterIds: [], _etag: '"1"' } })
+      const result = await service.modifyItem<Votable>('answers', 'answer-1', 'question-1', () => null)
+      expect(result?.content).toBe('Answer')
+      expect(mockReplace).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('vectorQuery', () => {
+    interface Candidate {
+      id: string
+      title: string
+    }
+
+    beforeEach(() => {
+      mockQuery.mockReturnValue({
+        fetchAll: async () => ({
+          resources: [
+            { id: 'question-1', title: 'Close', similarity: 0.9 },
+            { id: 'question-2', title: 'Far', similarity: 0.4 }
+          ]
+        })
+      })
+    })
+
+    it('should order by vector distance without filtering on it', async () => {
+      await service.vectorQuery<Candidate>('questions', 'contentVector', {
+        vector: [0.1, 0.2],
+        threshold: 0.7,
+        limit: 10,
+        excludeIds: ['question-3'],
+        groupId: 'group-1'
+      }, ['id', 'title'])
+
+      const { query, parameters } = mockQuery.mock.calls[0][0]
+      const normalized = query.replace(/\s+/g, ' ')
+      expect(normalized).toContain('SELECT TOP @limit c.id, c.title, VectorDistance(c.contentVector, @queryVector) AS similarity')
+      expect(normalized).toContain('WHERE NOT ARRAY_CONTAINS(@excludeIds, c.id) AND c.groupId = @groupId')
+      expect(normalized).toContain('ORDER BY VectorDistance(c.contentVector, @queryVector)')
+      expect(normalized).not.toContain('@threshold')
+      expect(parameters).toContainEqual({ name: '@limit', value: 10 })
+    })
+
+    it('should drop results below the similarity threshold', async () => {
+      const results = await service.vectorQuery<Candidate>('questions', 'contentVector', {
+        vector: [0.1, 0.2],
+        threshold: 0.7
+      }, ['id', 'title'])
+
+      expect(results).toEqual([{ item: { id: 'question-1', title: 'Close' }, similarity: 0.9 }])
+    })
+  })
+})
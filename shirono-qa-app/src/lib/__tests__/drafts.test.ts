@@ -0,0 +1,133 @@
+import { saveDraft, getDraft, deleteDraft, isDraftExpired, validateDraftData, DRAFT_RETENTION_DAYS } from '../drafts'
+import { getAttachmentPreviewUrl } from '../attachment-preview'
+import { testDataStore, mockCosmosService } from './test-helpers'
+import { User } from '@/types/auth'
+import { QuestionPriority } from '@/types/question'
+
+// モック設定
+jest.mock('../cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('../blob-storage', () => ({
+  getBlobStorageService: () => ({
+    extractFileNameFromUrl: (url: string) => url.replace('https://storage.example/qa-attachments/', '')
+  })
+}))
+
+const DAY = 24 * 60 * 60 * 1000
+
+const user: User = {
+  id: 'user-1',
+  username: 'author',
+  email: 'author@example.com',
+  groupId: 'group-1',
+  isAdmin: false,
+  createdAt: new Date(),
+  lastLoginAt: null
+}
+
+describe('drafts', () => {
+  beforeEach(() => {
+    testDataStore.clear()
+  })
+
+  describe('validateDraftData', () => {
+    it('should require a question for answer drafts and a valid priority', () => {
+      expect(validateDraftData({ kind: 'question', title: 'Title', content: 'Body', priority: QuestionPriority.HIGH }).valid).toBe(true)
+      expect(validateDraftData({ kind: 'answer', content: 'Body' }).errors).toContain('Question ID is required for answer drafts')
+      expect(validateDraftData({ kind: 'question', content: 'Body', priority: 'urgent' as QuestionPriority }).errors).toContain('Invalid priority')
+    })
+  })
+
+  describe('saveDraft', () => {
+    it('should keep one draft per user and target and overwrite it', async () => {
+      const first = await saveDraft(user, { kind: 'question', title: 'VM', content: 'first', priority: QuestionPriority.LOW })
+      const second = await saveDraft(user, { kind: 'question', title: 'VM の検証', content: 'second' })
+
+      expect(second.success).toBe(true)
+      expect(second.draft!.id).toBe(first.draft!.id)
+      expect(second.draft!.createdAt).toEqual(first.draft!.createdAt)
+
+      const result = await getDraft(user, 'question')
+      expect(result.draft).toEqual(expect.objectContaining({ title: 'VM の検証', content: 'second', userId: 'user-1' }))
+      expect((await getDraft({ ...user, id: 'user-2' }, 'question')).draft).toBeNull()
+    })
+
+    it("should record the user's pasted images referenced from the content", async () => {
+      await testDataStore.createItem('pendingUploads', {
+        id: 'pending-1',
+        userId: 'user-1',
+        blobPath: 'questions/temp/question/error.png',
+        fileName: 'error.png',
+        fileSize: 2048,
+        contentType: 'image/png',
+        createdAt: new Date()
+      })
+      const imageUrl = getAttachmentPreviewUrl('https://storage.example/qa-attachments/questions/temp/question/error.png')
+
+      const result = await saveDraft(user, { kind: 'answer', questionId: 'question-1', content: `手順\n![error.png](${imageUrl})` })
+
+      expect(result.draft!.questionId).toBe('question-1')
+      expect(result.draft!.attachments).toEqual([
+        { blobPath: 'questions/temp/question/error.png', fileName: 'error.png', fileSize: 2048, contentType: 'image/png' }
+      ])
+    })
+
+    it("should keep only the user's uploaded files from the attachment field", async () => {
+      for (const [id, userId, fileName] of [['pending-1', 'user-1', 'log.txt'], ['pending-2', 'user-2', 'other.txt']]) {
+        await testDataStore.createItem('pendingUploads', {
+          id,
+          userId,
+          blobPath: `questions/temp/question/${fileName}`,
+          fileName,
+          fileSize: 512,
+          contentType: 'text/plain',
+          createdAt: new Date()
+        })
+      }
+      const fileUrl = (fileName: string) => `https://storage.example/qa-attachments/questions/temp/question/${fileName}`
+
+      const result = await saveDraft(user, {
+        kind: 'question',
+        title: 'VM',
+        content: '',
+        fileUrls: [fileUrl('log.txt'), fileUrl('other.txt'), fileUrl('missing.txt')]
+      })
+
+      expect(result.draft!.files).toEqual([{
+        blobPath: 'questions/temp/question/log.txt',
+        blobUrl: fileUrl('log.txt'),
+        fileName: 'log.txt',
+        fileSize: 512,
+        contentType: 'text/plain'
+      }])
+      expect(validateDraftData({ kind: 'question', content: '', fileUrls: Array(6).fill(fileUrl('log.txt')) }).errors)
+        .toContain('Maximum 5 attachments allowed')
+    })
+  })
+
+  describe('getDraft', () => {
+    it('should ignore drafts past the retention period', async () => {
+      const saved = await saveDraft(user, { kind: 'question', title: 'Old', content: 'old' })
+      await testDataStore.updateItem('drafts', saved.draft!.id, {
+        ...saved.draft!,
+        updatedAt: new Date(Date.now() - (DRAFT_RETENTION_DAYS + 1) * DAY)
+      })
+
+      expect((await getDraft(user, 'question')).draft).toBeNull()
+      expect(isDraftExpired({ updatedAt: new Date() })).toBe(false)
+    })
+  })
+
+  describe('deleteDraft', () => {
+    it('should delete the draft and succeed when there is none', async () => {
+      await saveDraft(user, { kind: 'answer', questionId: 'question-1', content: 'draft' })
+
+      expect((await deleteDraft(user, 'answer', 'question-1')).success).toBe(true)
+      expect((await getDraft(user, 'answer', 'question-1')).draft).toBeNull()
+      expect((await deleteDraft(user, 'answer', 'question-1')).success).toBe(true)
+    })
+  })
+})
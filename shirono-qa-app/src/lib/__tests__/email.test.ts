@@ -1,5 +1,5 @@
 import { sendNotificationEmail, EmailType } from '../email'
-import { QuestionStatus, QuestionPriority } from '@/types/question'
+import { QuestionStatus, QuestionPriority, RequestType } from '@/types/question'
 
 // nodemailerをモック
 jest.mock('nodemailer', () => ({
@@ -160,6 +160,48 @@ describe('Email Notification Service', () => {
         text: expect.stringContaining('添付ファイル: error.log, screenshot.png')
       })
     })
+
+    it('検証依頼の種別とテンプレートの入力項目を含めて送信する', async () => {
+      const mockQuestion = {
+        id: 'question-3',
+        title: 'Private Endpoint の検証',
+        content: 'VNet 経由で接続できるか検証してください',
+        authorId: 'user-1',
+        groupId: 'group-1',
+        priority: QuestionPriority.MEDIUM,
+        requestType: RequestType.VERIFICATION,
+        requestFields: [
+          { key: 'environment', label: '検証環境', value: 'Japan East' },
+          { key: 'deadline', label: '希望期限', value: '2024-02-01' }
+        ],
+        status: QuestionStatus.UNANSWERED,
+        tags: [],
+        attachments: [],
+        createdAt: new Date('2024-01-15'),
+        updatedAt: new Date('2024-01-15')
+      }
+
+      mockSendMail.mockResolvedValue({ messageId: 'test-message-id' })
+
+      await sendNotificationEmail(EmailType.QUESTION_POSTED, 'admin@example.com', {
+        question: mockQuestion,
+        recipient: {
+          id: 'admin-1',
+          username: 'admin',
+          email: 'admin@example.com',
+          groupId: 'group-admin',
+          isAdmin: true,
+          createdAt: new Date(),
+          lastLoginAt: null
+        }
+      })
+
+      const mail = mockSendMail.mock.calls[0][0]
+      expect(mail.subject).toBe('[QAサイト] 新しい検証依頼が投稿されました')
+      expect(mail.html).toContain('<strong>種別:</strong> 検証依頼')
+      expect(mail.html).toContain('<strong>検証環境:</strong><br><span style="white-space: pre-wrap;">Japan East</span>')
+      expect(mail.text).toContain('検証依頼の内容:\n検証環境: Japan East\n希望期限: 2024-02-01')
+    })
   })
 
   describe('回答投稿通知', () => {
@@ -417,6 +459,105 @@ describe('Email Notification Service', () => {
         text: expect.stringContaining('却下されました')
       })
     })
+    it('重複としてクローズされた時に元の質問へのリンクを含めて送信する', async () => {
+      const mockQuestion = {
+        id: 'question-2',
+        title: 'Blob のアクセス権について',
+        content: 'SAS の有効期限を教えてください',
+        authorId: 'user-1',
+        groupId: 'group-1',
+        priority: QuestionPriority.MEDIUM,
+        status: QuestionStatus.CLOSED,
+        duplicateOfId: 'question-1',
+        tags: [],
+        attachments: [],
+        createdAt: new Date('2024-01-15'),
+        updatedAt: new Date('2024-01-16')
+      }
+
+      const mockQuestioner = {
+        id: 'user-1',
+        username: 'testuser',
+        email: 'test@example.com',
+        groupId: 'group-1',
+        isAdmin: false,
+        createdAt: new Date(),
+        lastLoginAt: null
+      }
+
+      mockSendMail.mockResolvedValue({ messageId: 'test-message-id' })
+
+      const result = await sendNotificationEmail(
+        EmailType.QUESTION_DUPLICATE,
+        mockQuestioner.email,
+        {
+          question: mockQuestion,
+          original: { ...mockQuestion, id: 'question-1', title: 'SAS トークンの有効期限', status: QuestionStatus.RESOLVED, duplicateOfId: undefined },
+          closer: { ...mockQuestioner, id: 'admin-1', username: 'admin', isAdmin: true },
+          recipient: mockQuestioner
+        }
+      )
+
+      expect(result.success).toBe(true)
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'test@example.com',
+        subject: '[QAサイト] 質問が重複としてクローズされました',
+        html: expect.stringContaining('/questions/question-1'),
+        text: expect.stringContaining('元の質問: SAS トークンの有効期限')
+      }))
+    })
+
+    it('メンションされた時にメンションしたユーザーと投稿の抜粋を含めて送信する', async () => {
+      const mockUser = {
+        id: 'user-2',
+        username: 'tanaka',
+        email: 'tanaka@example.com',
+        groupId: 'group-1',
+        isAdmin: false,
+        createdAt: new Date(),
+        lastLoginAt: null
+      }
+
+      mockSendMail.mockResolvedValue({ messageId: 'test-message-id' })
+
+      const result = await sendNotificationEmail(
+        EmailType.MENTIONED,
+        mockUser.email,
+        {
+          question: {
+            id: 'question-1',
+            title: 'Blob のアクセス権について',
+            content: 'SAS の有効期限を教えてください',
+            authorId: 'user-1',
+            groupId: 'group-1',
+            priority: QuestionPriority.MEDIUM,
+            status: QuestionStatus.ANSWERED,
+            tags: [],
+            attachments: [],
+            createdAt: new Date('2024-01-15'),
+            updatedAt: new Date('2024-01-16')
+          },
+          mentioner: { ...mockUser, id: 'admin-1', username: 'admin', isAdmin: true },
+          comment: {
+            id: 'comment-1',
+            questionId: 'question-1',
+            content: '@tanaka 設定を確認してください',
+            authorId: 'admin-1',
+            attachments: [],
+            createdAt: new Date('2024-01-16')
+          },
+          recipient: mockUser
+        }
+      )
+
+      expect(result.success).toBe(true)
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'tanaka@example.com',
+        subject: '[QAサイト] adminさんがあなたをメンションしました',
+        html: expect.stringContaining('コメントでメンションされました'),
+        text: expect.stringContaining('@tanaka 設定を確認してください')
+      }))
+    })
   })
 
   describe('エラーハンドリング', () => {
@@ -0,0 +1,77 @@
+import { verifyFileContent, detectFileFamily, getContentTypeForFileName, isAllowedFileType } from '../file-type'
+
+const bytes = (...values: number[]) => new Uint8Array(values)
+const text = (value: string) => new TextEncoder().encode(value)
+
+const PNG = bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00)
+const PDF = text('%PDF-1.7\n')
+const ZIP = bytes(0x50, 0x4b, 0x03, 0x04, 0x14, 0x00)
+const EXE = bytes(0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00)
+
+describe('file-type', () => {
+  describe('detectFileFamily', () => {
+    it('should detect formats from magic bytes', () => {
+      expect(detectFileFamily(PNG)).toBe('png')
+      expect(detectFileFamily(PDF)).toBe('pdf')
+      expect(detectFileFamily(ZIP)).toBe('zip')
+      expect(detectFileFamily(EXE)).toBe('executable')
+      expect(detectFileFamily(text('hello'))).toBeNull()
+    })
+
+    it('should detect tar archives by the ustar marker', () => {
+      const tar = new Uint8Array(512)
+      tar.set(text('ustar'), 257)
+
+      expect(detectFileFamily(tar)).toBe('tar')
+    })
+  })
+
+  describe('verifyFileContent', () => {
+    it('should accept files whose content matches the extension', () => {
+      expect(verifyFileContent('screenshot.png', PNG, 'image/png')).toEqual({ valid: true, contentType: 'image/png' })
+      expect(verifyFileContent('report.docx', ZIP).valid).toBe(true)
+      expect(verifyFileContent('notes.txt', text('メモ')).valid).toBe(true)
+    })
+
+    it('should reject content that does not match the extension', () => {
+      const result = verifyFileContent('screenshot.png', PDF, 'image/png')
+
+      expect(result.valid).toBe(false)
+      expect(result.error).toContain('.png')
+    })
+
+    it('should reject binary content with a text extension', () => {
+      expect(verifyFileContent('notes.txt', PNG).valid).toBe(false)
+    })
+
+    it('should reject executables regardless of the extension', () => {
+      const result = verifyFileContent('manual.pdf', EXE, 'application/pdf')
+
+      expect(result.valid).toBe(false)
+      expect(result.error).toBe('Executable files are not allowed')
+    })
+
+    it('should accept text that happens to start with a short signature', () => {
+      expect(verifyFileContent('memo.txt', text('MZ notes')).valid).toBe(true)
+    })
+
+    it('should reject a declared type that contradicts the content', () => {
+      expect(verifyFileContent('archive.zip', ZIP, 'application/pdf').valid).toBe(false)
+      // Windows のブラウザによる csv の申告は許可
+      expect(verifyFileContent('data.csv', text('a,b\n1,2'), 'application/vnd.ms-excel').valid).toBe(true)
+    })
+
+    it('should reject disallowed extensions', () => {
+      expect(verifyFileContent('setup.exe', EXE).valid).toBe(false)
+      expect(isAllowedFileType('setup.exe')).toBe(false)
+      expect(isAllowedFileType('Report.PDF')).toBe(true)
+    })
+  })
+
+  describe('getContentTypeForFileName', () => {
+    it('should derive the content type from the extension', () => {
+      expect(getContentTypeForFileName('photo.JPG')).toBe('image/jpeg')
+      expect(getContentTypeForFileName('unknown.bin')).toBe('application/octet-stream')
+    })
+  })
+})
@@ -0,0 +1,72 @@
+import { parseRangeHeader, isNotModified, isRangeApplicable } from '../http-range'
+
+describe('http-range', () => {
+  describe('parseRangeHeader', () => {
+    it('should return null when header is missing or unsupported', () => {
+      expect(parseRangeHeader(null, 100)).toBeNull()
+      expect(parseRangeHeader('items=0-1', 100)).toBeNull()
+      expect(parseRangeHeader('bytes=0-1,5-6', 100)).toBeNull()
+      expect(parseRangeHeader('bytes=-', 100)).toBeNull()
+    })
+
+    it('should parse explicit, open-ended and suffix ranges', () => {
+      expect(parseRangeHeader('bytes=0-9', 100)).toEqual({ start: 0, end: 9 })
+      expect(parseRangeHeader('bytes=90-', 100)).toEqual({ start: 90, end: 99 })
+      expect(parseRangeHeader('bytes=-10', 100)).toEqual({ start: 90, end: 99 })
+    })
+
+    it('should clamp end and suffix length to the file size', () => {
+      expect(parseRangeHeader('bytes=50-500', 100)).toEqual({ start: 50, end: 99 })
+      expect(parseRangeHeader('bytes=-500', 100)).toEqual({ start: 0, end: 99 })
+    })
+
+    it('should report unsatisfiable ranges', () => {
+      expect(parseRangeHeader('bytes=100-', 100)).toBe('unsatisfiable')
+      expect(parseRangeHeader('bytes=5-2', 100)).toBe('unsatisfiable')
+      expect(parseRangeHeader('bytes=-0', 100)).toBe('unsatisfiable')
+      expect(parseRangeHeader('bytes=0-', 0)).toBe('unsatisfiable')
+    })
+  })
+
+  describe('isNotModified', () => {
+    const etag = '"0x8D1"'
+    const lastModified = new Date('2024-01-15T10:00:00Z')
+
+    it('should match If-None-Match against the ETag', () => {
+      expect(isNotModified(new Headers({ 'If-None-Match': '"0x8D0", "0x8D1"' }), etag, lastModified)).toBe(true)
+      expect(isNotModified(new Headers({ 'If-None-Match': 'W/"0x8D1"' }), etag, lastModified)).toBe(true)
+      expect(isNotModified(new Headers({ 'If-None-Match': '"0x8D0"' }), etag, lastModified)).toBe(false)
+    })
+
+    it('should ignore If-Modified-Since when If-None-Match is present', () => {
+      const headers = new Headers({
+        'If-None-Match': '"0x8D0"',
+        'If-Modified-Since': 'Tue, 16 Jan 2024 10:00:00 GMT'
+      })
+      expect(isNotModified(headers, etag, lastModified)).toBe(false)
+    })
+
+    it('should compare If-Modified-Since at second precision', () => {
+      expect(isNotModified(new Headers({ 'If-Modified-Since': 'Mon, 15 Jan 2024 10:00:00 GMT' }), etag, lastModified)).toBe(true)
+      expect(isNotModified(new Headers({ 'If-Modified-Since': 'Mon, 15 Jan 2024 09:59:59 GMT' }), etag, lastModified)).toBe(false)
+      expect(isNotModified(new Headers({ 'If-Modified-Since': 'invalid' }), etag, lastModified)).toBe(false)
+    })
+  })
+
+  describe('isRangeApplicable', () => {
+    const etag = '"0x8D1"'
+    const lastModified = new Date('2024-01-15T10:00:00Z')
+
+    it('should apply range when If-Range is absent or matches', () => {
+      expect(isRangeApplicable(new Headers(), etag, lastModified)).toBe(true)
+      expect(isRangeApplicable(new Headers({ 'If-Range': '"0x8D1"' }), etag, lastModified)).toBe(true)
+      expect(isRangeApplicable(new Headers({ 'If-Range': 'Mon, 15 Jan 2024 10:00:00 GMT' }), etag, lastModified)).toBe(true)
+    })
+
+    it('should not apply range for stale or weak validators', () => {
+      expect(isRangeApplicable(new Headers({ 'If-Range': '"0x8D0"' }), etag, lastModified)).toBe(false)
+      expect(isRangeApplicable(new Headers({ 'If-Range': 'W/"0x8D1"' }), etag, lastModified)).toBe(false)
+      expect(isRangeApplicable(new Headers({ 'If-Range': 'Sun, 14 Jan 2024 10:00:00 GMT' }), etag, lastModified)).toBe(false)
+    })
+  })
+})
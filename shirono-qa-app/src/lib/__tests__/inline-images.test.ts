@@ -0,0 +1,131 @@
+import { claimInlineImages, extractInlineImageUrls, getInlineImageUrls } from '../inline-images'
+import { getAttachmentPreviewUrl } from '../attachment-preview'
+import { testDataStore, mockCosmosService } from './test-helpers'
+import { AttachmentScanStatus } from '@/types/question'
+
+// モック設定
+jest.mock('../cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('../attachment-scan', () => ({
+  scanStoredAttachment: jest.fn(async () => ({ scanStatus: 'clean', scannedAt: new Date('2024-01-15T10:00:00Z') }))
+}))
+
+const blobUrl = (blobPath: string) => `https://storage.example/qa-attachments/${blobPath}`
+
+const mockBlobService = {
+  extractFileNameFromUrl: jest.fn((url: string) => url.replace('https://storage.example/qa-attachments/', '')),
+  generateBlobPath: jest.fn((type: string, questionId: string, itemId?: string) =>
+    type === 'question' ? `questions/${questionId}/question` : `questions/${questionId}/${type}s/${itemId}`
+  ),
+  generateUniqueFileNameInPath: jest.fn(async (_filePath: string, fileName: string) => fileName),
+  moveFile: jest.fn(async (_source: string, dest: string) => ({ fileName: dest, blobUrl: blobUrl(dest) }))
+}
+
+jest.mock('../blob-storage', () => ({
+  getBlobStorageService: () => mockBlobService
+}))
+
+const pastedUrl = blobUrl('questions/temp/question/screenshot.png')
+const imageMarkdown = (url: string) => `![screenshot.png](${getAttachmentPreviewUrl(url)})`
+
+describe('inline images', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('pendingUploads', {
+      id: 'pending-1',
+      userId: 'user-1',
+      blobPath: 'questions/temp/question/screenshot.png',
+      fileName: 'screenshot.png',
+      fileSize: 2048,
+      contentType: 'image/png',
+      createdAt: new Date()
+    })
+  })
+
+  describe('extractInlineImageUrls', () => {
+    it('should decode preview references without duplicates', () => {
+      const content = `${imageMarkdown(pastedUrl)}\n\n${imageMarkdown(pastedUrl)}\n[link](/api/files/download?id=abc)`
+
+      expect(extractInlineImageUrls(content)).toEqual([pastedUrl])
+    })
+  })
+
+  describe('claimInlineImages', () => {
+    it('should move pasted images under the post and register them as inline attachments', async () => {
+      const result = await claimInlineImages(
+        'user-1',
+        { type: 'answer', questionId: 'question-1', itemId: 'answer-1' },
+        `エラー画面です\n${imageMarkdown(pastedUrl)}`
+      )
+
+      const claimedUrl = blobUrl('questions/question-1/answers/answer-1/screenshot.png')
+      expect(mockBlobService.moveFile).toHaveBeenCalledWith(
+        'questions/temp/question/screenshot.png',
+        'questions/question-1/answers/answer-1/screenshot.png'
+      )
+      expect(result.content).toBe(`エラー画面です\n${imageMarkdown(claimedUrl)}`)
+      expect(result.attachments).toEqual([
+        expect.objectContaining({
+          fileName: 'screenshot.png',
+          fileSize: 2048,
+          blobUrl: claimedUrl,
+          contentType: 'image/png',
+          inline: true,
+          scanStatus: AttachmentScanStatus.CLEAN
+        })
+      ])
+      expect(await testDataStore.getItem('pendingUploads', 'pending-1')).toBeNull()
+    })
+
+    it("should leave other users' uploads and registered images untouched", async () => {
+      const registered = {
+        fileName: 'old.png',
+        fileSize: 100,
+        blobUrl: blobUrl('questions/question-1/question/old.png'),
+        contentType: 'image/png',
+        inline: true
+      }
+      const content = `${imageMarkdown(pastedUrl)}\n${imageMarkdown(registered.blobUrl)}`
+
+      const result = await claimInlineImages('user-2', { type: 'question', questionId: 'question-1' }, content, [registered])
+
+      expect(result).toEqual({ content, attachments: [registered] })
+      expect(mockBlobService.moveFile).not.toHaveBeenCalled()
+      expect(await testDataStore.getItem('pendingUploads', 'pending-1')).not.toBeNull()
+    })
+
+    it('should not claim non-image uploads', async () => {
+      await testDataStore.createItem('pendingUploads', {
+        id: 'pending-2',
+        userId: 'user-1',
+        blobPath: 'questions/temp/question/spec.pdf',
+        fileName: 'spec.pdf',
+        fileSize: 100,
+        contentType: 'application/pdf',
+        createdAt: new Date()
+      })
+      const content = imageMarkdown(blobUrl('questions/temp/question/spec.pdf'))
+
+      const result = await claimInlineImages('user-1', { type: 'question', questionId: 'question-1' }, content)
+
+      expect(result.attachments).toEqual([])
+      expect(mockBlobService.moveFile).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('getInlineImageUrls', () => {
+    it('should return only inline attachments', () => {
+      const attachments = [
+        { fileName: 'a.png', fileSize: 1, blobUrl: 'a', contentType: 'image/png', inline: true },
+        { fileName: 'b.pdf', fileSize: 1, blobUrl: 'b', contentType: 'application/pdf' }
+      ]
+
+      expect(getInlineImageUrls(attachments)).toEqual(['a'])
+    })
+  })
+})
@@ -0,0 +1,78 @@
+import { createServer, AddressInfo, Server, Socket } from 'net'
+import { ClamdScanner, NoopScanner } from '../malware-scanner'
+
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*'
+
+async function* chunksOf(...values: string[]): AsyncGenerator<Uint8Array> {
+  for (const value of values) {
+    yield new TextEncoder().encode(value)
+  }
+}
+
+/**
+ * INSTREAM を受け取り、EICAR を含む場合は検出として応答する clamd の代替
+ */
+function startFakeClamd(): Promise<Server> {
+  const server = createServer((socket: Socket) => {
+    let buffer = Buffer.alloc(0)
+    socket.on('data', data => {
+      buffer = Buffer.concat([buffer, data])
+
+      const command = 'zINSTREAM\0'
+      if (buffer.length < command.length) return
+
+      // 長さ付きチャンクを読み進め、長さ 0 の終端で応答
+      let offset = command.length
+      const received: Buffer[] = []
+      while (offset + 4 <= buffer.length) {
+        const length = buffer.readUInt32BE(offset)
+        if (length === 0) {
+          const content = Buffer.concat(received).toString()
+          socket.end(content.includes('EICAR') ? 'stream: Eicar-Test-Signature FOUND\0' : 'stream: OK\0')
+          return
+        }
+        if (offset + 4 + length > buffer.length) return
+        received.push(buffer.subarray(offset + 4, offset + 4 + length))
+        offset += 4 + length
+      }
+    })
+  })
+
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)))
+}
+
+describe('malware-scanner', () => {
+  describe('NoopScanner', () => {
+    it('should treat every file as clean', async () => {
+      await expect(new NoopScanner().scan()).resolves.toEqual({ clean: true })
+    })
+  })
+
+  describe('ClamdScanner', () => {
+    let server: Server
+    let scanner: ClamdScanner
+
+    beforeAll(async () => {
+      server = await startFakeClamd()
+      scanner = new ClamdScanner({ host: '127.0.0.1', port: (server.address() as AddressInfo).port })
+    })
+
+    afterAll(done => {
+      server.close(done)
+    })
+
+    it('should report clean files', async () => {
+      await expect(scanner.scan(chunksOf('hello ', 'world'))).resolves.toEqual({ clean: true })
+    })
+
+    it('should report the detected signature', async () => {
+      await expect(scanner.scan(chunksOf(EICAR))).resolves.toEqual({ clean: false, signature: 'Eicar-Test-Signature' })
+    })
+
+    it('should throw when the daemon is unreachable', async () => {
+      const unreachable = new ClamdScanner({ host: '127.0.0.1', port: 1 })
+
+      await expect(unreachable.scan(chunksOf('hello'))).rejects.toThrow()
+    })
+  })
+})
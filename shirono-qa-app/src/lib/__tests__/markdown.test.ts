@@ -0,0 +1,91 @@
+import { renderMarkdown, extractMentionUsernames } from '../markdown'
+import { sanitizeHtml } from '../validation'
+
+describe('markdown', () => {
+  describe('renderMarkdown', () => {
+    it('should highlight fenced code blocks by language', () => {
+      const html = renderMarkdown('```yaml\nmetadata:\n  name: app\n```')
+
+      expect(html).toContain('<pre><code class="language-yaml">')
+      expect(html).toContain('<span class="hljs-attr">metadata:</span>')
+    })
+
+    it('should highlight Bicep snippets', () => {
+      const html = renderMarkdown("```bicep\nparam location string = 'japaneast'\n```")
+
+      expect(html).toContain('<span class="hljs-keyword">param</span>')
+      expect(html).toContain('<span class="hljs-string">\'japaneast\'</span>')
+    })
+
+    it('should escape code in unknown languages', () => {
+      const html = renderMarkdown('```unknown\n<b>x</b>\n```')
+
+      expect(html).toContain('&lt;b&gt;x&lt;/b&gt;')
+    })
+
+    it('should render tables with column alignment', () => {
+      const html = renderMarkdown('| a | b |\n|:-|-:|\n| 1 | 2 |')
+
+      expect(html).toContain('<table>')
+      expect(html).toContain('<td style="text-align:right">2</td>')
+    })
+
+    it('should render task lists as disabled checkboxes', () => {
+      const html = renderMarkdown('- [ ] todo\n- [x] done')
+
+      expect(html).toContain('<ul class="contains-task-list">')
+      expect(html).toMatch(/<li class="task-list-item"><input type="checkbox" class="task-list-item-checkbox" disabled="disabled" \/> todo<\/li>/)
+      expect(html).toMatch(/disabled="disabled" checked \/> done/)
+    })
+
+    it('should keep line breaks and open links in a new tab', () => {
+      const html = renderMarkdown('line1\nline2 https://example.com')
+
+      expect(html).toContain('line1<br />')
+      expect(html).toContain('<a href="https://example.com" target="_blank" rel="noopener noreferrer nofollow">')
+    })
+
+    it('should not allow raw HTML or script links', () => {
+      const html = renderMarkdown('<script>alert(1)</script>\n\n<img src=x onerror=alert(1)>\n\n[x](javascript:alert(1))')
+
+      expect(html).not.toContain('<script')
+      expect(html).not.toContain('<img')
+      expect(html).not.toContain('href="javascript:')
+    })
+
+    it('should link mentions of the given users only', () => {
+      const html = renderMarkdown('@Tanaka と @unknown、`@tanaka` と mail@example.com', ['tanaka'])
+
+      expect(html).toContain('<a href="/questions?author=tanaka" class="mention" target="_blank" rel="noopener noreferrer nofollow">@Tanaka</a>')
+      expect(html).not.toContain('author=unknown')
+      expect(html).toContain('<code>@tanaka</code>')
+    })
+  })
+
+  describe('extractMentionUsernames', () => {
+    it('should find mentions outside code and links', () => {
+      expect(extractMentionUsernames('@Tanaka @sato_1 @Tanaka\n\n```\n@inside\n```\n`@code` [@link](https://example.com) mail@example.com'))
+        .toEqual(['tanaka', 'sato_1'])
+    })
+  })
+
+  describe('sanitizeHtml', () => {
+    it('should remove disallowed tags, attributes and URL schemes', () => {
+      const html = sanitizeHtml(
+        '<p onclick="x()">ok</p><script>alert(1)</script><iframe src="https://example.com"></iframe>' +
+        '<a href="javascript:alert(1)">a</a><img src="data:image/png;base64,AAAA">'
+      )
+
+      expect(html).toBe('<p>ok</p><a target="_blank" rel="noopener noreferrer nofollow">a</a><img />')
+    })
+
+    it('should keep text that mentions data: or javascript:', () => {
+      expect(sanitizeHtml('<code>data: value</code>')).toBe('<code>data: value</code>')
+    })
+
+    it('should only keep checkbox inputs', () => {
+      expect(sanitizeHtml('<input type="text" value="x"><input type="checkbox" checked>'))
+        .toBe('<input type="checkbox" checked disabled="disabled" />')
+    })
+  })
+})
@@ -0,0 +1,109 @@
+import { resolveMentions, getMentionableUsers, notifyMentionedUsers } from '../mentions'
+import { getActiveMention } from '../mention-names'
+import { Question, QuestionStatus, QuestionPriority } from '../../types/question'
+import { testDataStore, mockCosmosService } from './test-helpers'
+
+// CosmosServiceをモック
+jest.mock('../cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('../email', () => ({
+  sendNotificationEmail: jest.fn().mockResolvedValue({ success: true }),
+  EmailType: { MENTIONED: 'MENTIONED' }
+}))
+
+import { sendNotificationEmail } from '../email'
+
+const mockSendNotificationEmail = sendNotificationEmail as jest.MockedFunction<typeof sendNotificationEmail>
+
+const question: Question = {
+  id: 'question-1',
+  title: 'Question',
+  content: 'Content',
+  authorId: 'author-1',
+  groupId: 'group-1',
+  status: QuestionStatus.UNANSWERED,
+  priority: QuestionPriority.MEDIUM,
+  tags: [],
+  attachments: [],
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+  updatedAt: new Date('2024-01-15T10:00:00Z')
+}
+
+const createUser = (id: string, username: string, groupId: string, isAdmin = false) => testDataStore.createItem('users', {
+  id,
+  username,
+  email: `${username}@example.com`,
+  groupId,
+  isAdmin,
+  createdAt: new Date(),
+  lastLoginAt: null
+})
+
+describe('Mentions', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('questions', question)
+    await createUser('author-1', 'author', 'group-1')
+    await createUser('member-1', 'Tanaka', 'group-1')
+    await createUser('admin-1', 'admin', 'group-admin', true)
+    await createUser('outsider-1', 'outsider', 'group-2')
+  })
+
+  describe('getActiveMention', () => {
+    it('should detect the mention being typed before the caret', () => {
+      expect(getActiveMention('確認お願いします @tan', 14)).toEqual({ query: 'tan', start: 9 })
+      expect(getActiveMention('@', 1)).toEqual({ query: '', start: 0 })
+      expect(getActiveMention('mail@exa', 8)).toBeNull()
+      expect(getActiveMention('@tanaka さん', 11)).toBeNull()
+    })
+  })
+
+  describe('resolveMentions', () => {
+    it('should return mentioned users who can access the question', async () => {
+      const users = await resolveMentions('@tanaka @ADMIN @outsider @nobody', 'question-1')
+
+      expect(users.map(user => user.id).sort()).toEqual(['admin-1', 'member-1'])
+      expect(await resolveMentions('@tanaka', 'missing')).toEqual([])
+    })
+  })
+
+  describe('getMentionableUsers', () => {
+    it('should suggest only users who can access the question', async () => {
+      expect(await getMentionableUsers(question, '')).toEqual([
+        { id: 'admin-1', username: 'admin' },
+        { id: 'author-1', username: 'author' },
+        { id: 'member-1', username: 'Tanaka' }
+      ])
+      expect(await getMentionableUsers(question, 'tan')).toEqual([{ id: 'member-1', username: 'Tanaka' }])
+    })
+  })
+
+  describe('notifyMentionedUsers', () => {
+    it('should notify newly mentioned users except the mentioner', async () => {
+      const mentioner = { id: 'author-1', username: 'author', email: 'author@example.com', groupId: 'group-1', isAdmin: false, createdAt: new Date(), lastLoginAt: null }
+      const comment = {
+        id: 'comment-1',
+        questionId: 'question-1',
+        content: '@Tanaka @admin @author',
+        mentions: ['member-1', 'admin-1', 'author-1'],
+        authorId: 'author-1',
+        attachments: [],
+        createdAt: new Date()
+      }
+
+      await notifyMentionedUsers(question, { comment }, mentioner, ['admin-1'])
+
+      expect(mockSendNotificationEmail).toHaveBeenCalledTimes(1)
+      expect(mockSendNotificationEmail).toHaveBeenCalledWith('MENTIONED', 'Tanaka@example.com', expect.objectContaining({
+        mentioner,
+        comment,
+        recipient: expect.objectContaining({ id: 'member-1' })
+      }))
+    })
+  })
+})
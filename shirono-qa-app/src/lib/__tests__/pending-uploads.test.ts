@@ -0,0 +1,98 @@
+import { claimPendingUploads } from '../pending-uploads'
+import { testDataStore, mockCosmosService } from './test-helpers'
+import { User } from '@/types/auth'
+import { ErrorCodes } from '../errors'
+
+// モック設定
+jest.mock('../cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('../openai', () => ({
+  embedText: jest.fn()
+}))
+
+const blobUrl = (blobPath: string) => `https://storage.example/qa-attachments/${blobPath}`
+
+const mockBlobService = {
+  extractFileNameFromUrl: jest.fn((url: string) => url.replace('https://storage.example/qa-attachments/', '')),
+  parseBlobPath: jest.fn((blobPath: string) => {
+    const [, questionId, type] = blobPath.split('/')
+    return { type, questionId, fileName: blobPath.split('/').pop() }
+  }),
+  generateBlobPath: jest.fn((_type: string, questionId: string) => `questions/${questionId}/question`),
+  generateUniqueFileNameInPath: jest.fn(async (_filePath: string, fileName: string) => fileName),
+  moveFile: jest.fn(async (_source: string, dest: string) => ({ fileName: dest, blobUrl: blobUrl(dest) })),
+  getFileInfo: jest.fn(async () => ({ exists: true, size: 2048, contentType: 'image/png' }))
+}
+
+jest.mock('../blob-storage', () => ({
+  getBlobStorageService: () => mockBlobService
+}))
+
+const user: User = {
+  id: 'user-1',
+  username: 'author',
+  email: 'author@example.com',
+  groupId: 'group-1',
+  isAdmin: false,
+  createdAt: new Date(),
+  lastLoginAt: null
+}
+
+function attachFile(blobPath: string) {
+  return { fileName: blobPath.split('/').pop()!, blobUrl: blobUrl(blobPath), size: 100, contentType: 'application/pdf' }
+}
+
+describe('claimPendingUploads', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('pendingUploads', {
+      id: 'pending-1',
+      userId: 'user-1',
+      blobPath: 'questions/temp/question/spec.pdf',
+      fileName: 'spec.pdf',
+      fileSize: 100,
+      contentType: 'application/pdf',
+      createdAt: new Date()
+    })
+  })
+
+  it('should move pending uploads to the question path and remove the record', async () => {
+    const result = await claimPendingUploads(user, 'question-1', [attachFile('questions/temp/question/spec.pdf')])
+
+    expect(result.success).toBe(true)
+    expect(mockBlobService.moveFile).toHaveBeenCalledWith(
+      'questions/temp/question/spec.pdf',
+      'questions/question-1/question/spec.pdf'
+    )
+    expect(result.files![0].blobUrl).toBe(blobUrl('questions/question-1/question/spec.pdf'))
+    expect(result.files![0].contentType).toBe('application/pdf')
+    expect(await testDataStore.getItem('pendingUploads', 'pending-1')).toBeNull()
+  })
+
+  it('should keep files already stored under the question', async () => {
+    const result = await claimPendingUploads(user, 'question-1', [attachFile('questions/question-1/question/a.pdf')])
+
+    expect(result.success).toBe(true)
+    expect(mockBlobService.moveFile).not.toHaveBeenCalled()
+    expect(result.files![0].blobUrl).toBe(blobUrl('questions/question-1/question/a.pdf'))
+    // 申告値ではなく保存済みファイルの情報を使う
+    expect(result.files![0].size).toBe(2048)
+    expect(result.files![0].contentType).toBe('image/png')
+  })
+
+  it("should reject other users' uploads and other questions' files", async () => {
+    const otherUser = { ...user, id: 'user-2' }
+    const othersUpload = await claimPendingUploads(otherUser, 'question-1', [attachFile('questions/temp/question/spec.pdf')])
+    const otherQuestion = await claimPendingUploads(user, 'question-1', [attachFile('questions/question-2/question/a.pdf')])
+
+    expect(othersUpload.success).toBe(false)
+    expect(othersUpload.error?.code).toBe(ErrorCodes.VALIDATION_ERROR)
+    expect(otherQuestion.success).toBe(false)
+    expect(mockBlobService.moveFile).not.toHaveBeenCalled()
+  })
+})
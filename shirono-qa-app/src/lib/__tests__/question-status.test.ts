@@ -0,0 +1,151 @@
+import {
+  getStatusRoles,
+  getAllowedStatusTransitions,
+  validateStatusTransition,
+  applyStatusTransition
+} from '../question-status'
+import { ErrorCodes } from '../errors'
+import { Question, QuestionStatus, QuestionPriority } from '@/types/question'
+
+const question = (status: QuestionStatus, overrides: Partial<Question> = {}): Question => ({
+  id: 'question-1',
+  title: 'Test Question',
+  content: 'Test content',
+  authorId: 'author',
+  groupId: 'group-1',
+  status,
+  priority: QuestionPriority.MEDIUM,
+  tags: [],
+  attachments: [],
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+  updatedAt: new Date('2024-01-15T10:00:00Z'),
+  ...overrides
+})
+
+const admin = { id: 'admin', username: 'admin', isAdmin: true, groupId: 'group-admin' }
+const author = { id: 'author', username: 'author', isAdmin: false, groupId: 'group-1' }
+const member = { id: 'member', username: 'member', isAdmin: false, groupId: 'group-1' }
+
+describe('question-status', () => {
+  describe('getStatusRoles', () => {
+    it('should combine admin, author and member roles', () => {
+      expect(getStatusRoles(admin, question(QuestionStatus.UNANSWERED))).toEqual(['admin'])
+      expect(getStatusRoles(author, question(QuestionStatus.UNANSWERED))).toEqual(['author', 'member'])
+      expect(getStatusRoles(member, question(QuestionStatus.UNANSWERED))).toEqual(['member'])
+    })
+  })
+
+  describe('getAllowedStatusTransitions', () => {
+    it('should list only the transitions allowed for the user', () => {
+      expect(getAllowedStatusTransitions(question(QuestionStatus.UNANSWERED), member)).toEqual([QuestionStatus.RESOLVED])
+      expect(getAllowedStatusTransitions(question(QuestionStatus.UNANSWERED), author)).toEqual([
+        QuestionStatus.RESOLVED,
+        QuestionStatus.CLOSED
+      ])
+      expect(getAllowedStatusTransitions(question(QuestionStatus.REJECTED), admin)).toEqual([QuestionStatus.UNANSWERED])
+      expect(getAllowedStatusTransitions(question(QuestionStatus.REJECTED), author)).toEqual([])
+    })
+
+    it('should return nothing without a user', () => {
+      expect(getAllowedStatusTransitions(question(QuestionStatus.UNANSWERED), null)).toEqual([])
+    })
+  })
+
+  describe('validateStatusTransition', () => {
+    it('should allow transitions in the table for permitted roles', () => {
+      expect(validateStatusTransition(question(QuestionStatus.RESOLVED), QuestionStatus.ANSWERED, member).valid).toBe(true)
+      expect(validateStatusTransition(question(QuestionStatus.CLOSED), QuestionStatus.UNANSWERED, admin).valid).toBe(true)
+    })
+
+    it('should treat keeping the same status as valid', () => {
+      expect(validateStatusTransition(question(QuestionStatus.REJECTED), QuestionStatus.REJECTED, member).valid).toBe(true)
+    })
+
+    it('should reject transitions missing from the table with CONFLICT', () => {
+      const result = validateStatusTransition(question(QuestionStatus.REJECTED), QuestionStatus.RESOLVED, admin)
+
+      expect(result.valid).toBe(false)
+      expect(result.error?.code).toBe(ErrorCodes.CONFLICT)
+    })
+
+    it('should reject roles that are not allowed with FORBIDDEN', () => {
+      const result = validateStatusTransition(question(QuestionStatus.UNANSWERED), QuestionStatus.REJECTED, author)
+
+      expect(result.valid).toBe(false)
+      expect(result.error?.code).toBe(ErrorCodes.FORBIDDEN)
+    })
+
+    it('should reject unknown statuses', () => {
+      const result = validateStatusTransition(question(QuestionStatus.UNANSWERED), 'archived' as QuestionStatus, admin)
+
+      expect(result.valid).toBe(false)
+      expect(result.error?.code).toBe(ErrorCodes.VALIDATION_ERROR)
+    })
+
+    it('should only check the table for system changes', () => {
+      expect(validateStatusTransition(question(QuestionStatus.UNANSWERED), QuestionStatus.REJECTED).valid).toBe(true)
+      expect(validateStatusTransition(question(QuestionStatus.REJECTED), QuestionStatus.CLOSED).valid).toBe(false)
+    })
+  })
+
+  describe('applyStatusTransition', () => {
+    it('should append a history entry with the user and trimmed reason', () => {
+      const updated = applyStatusTransition(question(QuestionStatus.UNANSWERED), QuestionStatus.REJECTED, admin, '  対象外の質問  ')
+
+      expect(updated.status).toBe(QuestionStatus.REJECTED)
+      expect(updated.statusHistory).toHaveLength(1)
+      expect(updated.statusHistory![0]).toMatchObject({
+        from: QuestionStatus.UNANSWERED,
+        to: QuestionStatus.REJECTED,
+        changedBy: 'admin',
+        changedByName: 'admin',
+        reason: '対象外の質問'
+      })
+    })
+
+    it('should record system changes and keep earlier history', () => {
+      const first = applyStatusTransition(question(QuestionStatus.UNANSWERED), QuestionStatus.ANSWERED)
+      const second = applyStatusTransition(first, QuestionStatus.RESOLVED, author)
+
+      expect(second.statusHistory!.map(entry => entry.changedBy)).toEqual(['system', 'author'])
+      expect(second.statusHistory![0].changedByName).toBeUndefined()
+    })
+
+    it('should not change anything when the status is the same', () => {
+      const original = question(QuestionStatus.ANSWERED)
+
+      expect(applyStatusTransition(original, QuestionStatus.ANSWERED, admin)).toBe(original)
+    })
+
+    it('should set, keep and clear resolvedAt depending on the target status', () => {
+      const resolved = applyStatusTransition(question(QuestionStatus.ANSWERED), QuestionStatus.RESOLVED, author)
+      expect(resolved.resolvedAt).toBeInstanceOf(Date)
+
+      const closed = applyStatusTransition(resolved, QuestionStatus.CLOSED, author)
+      expect(closed.resolvedAt).toBe(resolved.resolvedAt)
+
+      const reopened = applyStatusTransition(closed, QuestionStatus.ANSWERED, admin)
+      expect(reopened.resolvedAt).toBeUndefined()
+    })
+
+    it('should clear the accepted answer when a resolved question is reopened', () => {
+      const reopened = applyStatusTransition(
+        question(QuestionStatus.RESOLVED, { acceptedAnswerId: 'answer-1', resolvedAt: new Date() }),
+        QuestionStatus.ANSWERED,
+        member
+      )
+
+      expect(reopened.acceptedAnswerId).toBeUndefined()
+    })
+
+    it('should clear the duplicate link when a closed question is reopened', () => {
+      const reopened = applyStatusTransition(
+        question(QuestionStatus.CLOSED, { duplicateOfId: 'question-0' }),
+        QuestionStatus.UNANSWERED,
+        admin
+      )
+
+      expect(reopened.duplicateOfId).toBeUndefined()
+    })
+  })
+})
@@ -4,16 +4,33 @@ import {
   deleteQuestion,
   getQuestion,
   getQuestions,
-  validateQuestionData
+  validateQuestionData,
+  setAcceptedAnswer,
+  markQuestionAsDuplicate,
+  moveQuestionToGroup,
+  setQuestionWatching
 } from '../questions'
-import { QuestionStatus, QuestionPriority } from '../../types/question'
+import { canAccessQuestion } from '../access-control'
+import { Question, QuestionStatus, QuestionPriority, RequestType } from '../../types/question'
 import { testDataStore, mockCosmosService } from './test-helpers'
 
 // CosmosServiceをモック
 jest.mock('../cosmos', () => ({
-  getCosmosService: () => mockCosmosService
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
 }))
 
+// Azure OpenAIをモック
+jest.mock('../openai', () => ({
+  embedText: jest.fn().mockResolvedValue([0.1, 0.2, 0.3]),
+  generateTags: jest.fn(),
+  chatCompletion: jest.fn()
+}))
+
+import { embedText } from '../openai'
+
+const mockEmbedText = embedText as jest.MockedFunction<typeof embedText>
+
 describe('Questions Library', () => {
   beforeEach(() => {
     // テストデータをクリア
@@ -100,6 +117,56 @@ describe('Questions Library', () => {
       expect(result.question?.tags).toBeInstanceOf(Array)
     })
 
+    it('should set SLA due dates from the group policy', async () => {
+      await testDataStore.createItem('groups', {
+        id: 'group456',
+        name: 'Group',
+        description: 'desc',
+        slaPolicy: { [QuestionPriority.HIGH]: { firstResponseHours: 2, resolutionHours: 6 } },
+        createdAt: new Date()
+      })
+
+      const result = await createQuestion({
+        title: 'SLA title',
+        content: 'SLA content',
+        priority: QuestionPriority.HIGH
+      }, 'user123', 'group456')
+
+      const createdAt = new Date(result.question!.createdAt).getTime()
+      expect(new Date(result.question!.firstResponseDueAt!).getTime() - createdAt).toBe(2 * 60 * 60 * 1000)
+      expect(new Date(result.question!.resolutionDueAt!).getTime() - createdAt).toBe(6 * 60 * 60 * 1000)
+      expect(result.question!.slaDueAt).toEqual(result.question!.firstResponseDueAt)
+    })
+
+    it('should store embedding without returning it', async () => {
+      const result = await createQuestion({
+        title: 'Embedding title',
+        content: 'Embedding content',
+        priority: QuestionPriority.MEDIUM
+      }, 'user123', 'group456')
+
+      expect(result.success).toBe(true)
+      expect(result.question).not.toHaveProperty('contentVector')
+
+      const stored = await testDataStore.getItem<{ contentVector?: number[] }>('questions', result.question!.id)
+      expect(stored?.contentVector).toEqual([0.1, 0.2, 0.3])
+      expect(mockEmbedText).toHaveBeenCalledWith('Embedding title\nEmbedding content')
+    })
+
+    it('should create question even if embedding fails', async () => {
+      mockEmbedText.mockRejectedValueOnce(new Error('OpenAI API error'))
+
+      const result = await createQuestion({
+        title: 'Embedding title',
+        content: 'Embedding content',
+        priority: QuestionPriority.MEDIUM
+      }, 'user123', 'group456')
+
+      expect(result.success).toBe(true)
+      const stored = await testDataStore.getItem<{ contentVector?: number[] }>('questions', result.question!.id)
+      expect(stored?.contentVector).toBeUndefined()
+    })
+
     it('should reject invalid question data', async () => {
       const questionData = {
         title: '',
@@ -116,6 +183,55 @@ describe('Questions Library', () => {
       expect(result.error).toContain('Title is required')
       expect(result.question).toBeUndefined()
     })
+
+    it('should store the request type and the template fields with their labels', async () => {
+      const result = await createQuestion({
+        title: 'Private Endpoint の検証',
+        content: 'VNet 経由で接続できるか検証してください',
+        priority: QuestionPriority.MEDIUM,
+        requestType: RequestType.VERIFICATION,
+        requestFields: { environment: 'Japan East', expectedResult: 'VNet 内から接続できる', deadline: '' }
+      }, 'user123', 'group456')
+
+      expect(result.success).toBe(true)
+      expect(result.question?.requestType).toBe(RequestType.VERIFICATION)
+      expect(result.question?.requestFields).toEqual([
+        { key: 'environment', label: '検証環境', value: 'Japan East' },
+        { key: 'expectedResult', label: '期待する結果', value: 'VNet 内から接続できる' }
+      ])
+    })
+
+    it('should reject requests missing required template fields', async () => {
+      await testDataStore.createItem('requestTemplates', {
+        id: RequestType.INVESTIGATION,
+        requestType: RequestType.INVESTIGATION,
+        fields: [{ key: 'subscription', label: 'サブスクリプション', type: 'text', required: true }]
+      })
+
+      const result = await createQuestion({
+        title: '課金の調査',
+        content: '先月の課金が増えた理由を調べてください',
+        priority: QuestionPriority.HIGH,
+        requestType: RequestType.INVESTIGATION,
+        requestFields: { scope: '課金' }
+      }, 'user123', 'group456')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Invalid question data: サブスクリプション is required')
+    })
+    it('should store the tags with synonyms replaced by the catalog names', async () => {
+      await testDataStore.createItem('tags', { id: 'tag-1', name: 'Azure Functions', synonyms: ['functions', 'az func'] })
+
+      const result = await createQuestion({
+        title: 'Functions のタイムアウト',
+        content: '処理が途中で止まります',
+        priority: QuestionPriority.MEDIUM,
+        tags: ['Functions', ' timeout ', 'AZ FUNC', '']
+      }, 'user123', 'group456')
+
+      expect(result.success).toBe(true)
+      expect(result.question?.tags).toEqual(['Azure Functions', 'timeout'])
+    })
   })
 
   describe('updateQuestion', () => {
@@ -161,6 +277,65 @@ describe('Questions Library', () => {
       expect(result.question?.status).toBe(updateData.status)
     })
 
+    it('should refresh embedding only when title or content changes', async () => {
+      const createResult = await createQuestion({
+        title: 'Original title',
+        content: 'Original content',
+        priority: QuestionPriority.MEDIUM
+      }, 'user123', 'group456')
+      const questionId = createResult.question!.id
+      mockEmbedText.mockClear()
+
+      await updateQuestion(questionId, { priority: QuestionPriority.HIGH })
+      expect(mockEmbedText).not.toHaveBeenCalled()
+
+      mockEmbedText.mockResolvedValueOnce([0.9, 0.8, 0.7])
+      await updateQuestion(questionId, { content: 'Updated content' })
+
+      expect(mockEmbedText).toHaveBeenCalledWith('Original title\nUpdated content')
+      const stored = await testDataStore.getItem<{ contentVector?: number[] }>('questions', questionId)
+      expect(stored?.contentVector).toEqual([0.9, 0.8, 0.7])
+    })
+
+    it('should validate changed request fields against the template of the new type', async () => {
+      const createResult = await createQuestion({
+        title: 'Original title',
+        content: 'Original content',
+        priority: QuestionPriority.MEDIUM,
+        requestFields: { environment: 'Windows 11' }
+      }, 'user123', 'group456')
+      const questionId = createResult.question!.id
+
+      const invalid = await updateQuestion(questionId, { requestType: RequestType.VERIFICATION })
+      expect(invalid.success).toBe(false)
+      expect(invalid.error).toBe('Invalid question data: 期待する結果 is required')
+
+      const result = await updateQuestion(questionId, {
+        requestType: RequestType.VERIFICATION,
+        requestFields: { environment: 'Windows 11', expectedResult: '起動できる' }
+      })
+      expect(result.question?.requestType).toBe(RequestType.VERIFICATION)
+      expect(result.question?.requestFields?.map(field => field.label)).toEqual(['検証環境', '期待する結果'])
+    })
+
+    it('should validate and normalize edited tags', async () => {
+      await testDataStore.createItem('tags', { id: 'tag-1', name: 'Cosmos DB', synonyms: ['cosmosdb'] })
+      const createResult = await createQuestion({
+        title: 'Original title',
+        content: 'Original content',
+        priority: QuestionPriority.MEDIUM
+      }, 'user123', 'group456')
+      const questionId = createResult.question!.id
+
+      const invalid = await updateQuestion(questionId, { tags: ['a'.repeat(31)] })
+      expect(invalid.success).toBe(false)
+      expect(invalid.error).toBe(`Invalid question data: Tag name must be 30 characters or less: ${'a'.repeat(31)}`)
+
+      const result = await updateQuestion(questionId, { tags: ['CosmosDB', 'RU', 'cosmos db'] })
+      expect(result.success).toBe(true)
+      expect(result.question?.tags).toEqual(['Cosmos DB', 'RU'])
+    })
+
     it('should return error for non-existent question', async () => {
       const questionId = 'nonexistent'
       const updateData = {
@@ -174,6 +349,263 @@ describe('Questions Library', () => {
     })
   })
 
+  describe('setQuestionWatching', () => {
+    it('should add the author and assignee as watchers on creation', async () => {
+      const result = await createQuestion({
+        title: 'Question',
+        content: 'Content',
+        priority: QuestionPriority.MEDIUM,
+        assigneeId: 'assignee-1'
+      }, 'user123', 'group456')
+
+      expect(result.question?.watcherIds).toEqual(['user123', 'assignee-1'])
+    })
+
+    it('should watch and unwatch without changing the update time', async () => {
+      const createResult = await createQuestion({
+        title: 'Question',
+        content: 'Content',
+        priority: QuestionPriority.MEDIUM
+      }, 'user123', 'group456')
+      const question = createResult.question!
+
+      const watched = await setQuestionWatching(question.id, 'user-colleague', true)
+      expect(watched.question?.watcherIds).toEqual(['user123', 'user-colleague'])
+      expect(watched.question?.updatedAt).toEqual(question.updatedAt)
+
+      // 既にウォッチしている場合はそのまま
+      expect((await setQuestionWatching(question.id, 'user-colleague', true)).question?.watcherIds).toEqual(['user123', 'user-colleague'])
+
+      const unwatched = await setQuestionWatching(question.id, 'user123', false)
+      expect(unwatched.question?.watcherIds).toEqual(['user-colleague'])
+      expect((await setQuestionWatching('missing', 'user123', true)).error).toBe('Question not found')
+    })
+
+    it('should keep edits saved after the question was read', async () => {
+      const createResult = await createQuestion({
+        title: 'Question',
+        content: 'Content',
+        priority: QuestionPriority.MEDIUM
+      }, 'user123', 'group456')
+      const question = createResult.question!
+
+      // 読み込み後に質問の編集と別のユーザーのウォッチが先に保存された場合
+      const modifyItem = jest.spyOn(mockCosmosService, 'modifyItem').mockImplementationOnce(async (containerId, id, partitionKey, modify) => {
+        const latest = await testDataStore.getItem<Question>('questions', question.id)
+        await testDataStore.updateItem('questions', question.id, { ...latest!, title: 'Edited title', watcherIds: ['user123', 'user-other'] })
+        return testDataStore.modifyItem(containerId, id, partitionKey, modify)
+      })
+
+      const result = await setQuestionWatching(question.id, 'user-colleague', true)
+
+      expect(result.question?.title).toBe('Edited title')
+      expect(result.question?.watcherIds).toEqual(['user123', 'user-other', 'user-colleague'])
+      modifyItem.mockRestore()
+    })
+  })
+
+  describe('moveQuestionToGroup', () => {
+    const admin = {
+      id: 'admin-1',
+      username: 'admin',
+      email: 'admin@example.com',
+      groupId: 'group-admin',
+      isAdmin: true,
+      createdAt: new Date(),
+      lastLoginAt: null
+    }
+
+    beforeEach(async () => {
+      await testDataStore.createItem('groups', { id: 'group-new', name: 'New Group', description: '', createdAt: new Date() })
+    })
+
+    it('should re-create the question in the new partition with the same id and record an audit log', async () => {
+      const createResult = await createQuestion({
+        title: 'Misfiled question',
+        content: 'Filed under the wrong group',
+        priority: QuestionPriority.MEDIUM
+      }, 'user123', 'group456')
+      const questionId = createResult.question!.id
+      // テスト用のデータストアはパーティションを区別しないため、元の文書の削除は呼び出しのみ確認する
+      const deleteSpy = jest.spyOn(mockCosmosService, 'deleteItem').mockResolvedValueOnce(undefined)
+
+      const result = await moveQuestionToGroup(questionId, 'group-new', admin)
+
+      expect(result.success).toBe(true)
+      expect(result.question?.id).toBe(questionId)
+      expect(result.question?.groupId).toBe('group-new')
+      expect(deleteSpy).toHaveBeenCalledWith('questions', questionId, 'group456')
+      expect(Array.from(testDataStore.getContainer('auditLogs').values())).toEqual([
+        expect.objectContaining({
+          action: 'question.moved',
+          targetId: questionId,
+          actorId: 'admin-1',
+          details: { fromGroupId: 'group456', toGroupId: 'group-new' }
+        })
+      ])
+
+      // 移動元グループのメンバーは閲覧できなくなる
+      const oldMember = { ...admin, id: 'member-1', groupId: 'group456', isAdmin: false }
+      expect(canAccessQuestion(oldMember, result.question!)).toBe(false)
+      expect(canAccessQuestion({ ...oldMember, groupId: 'group-new' }, result.question!)).toBe(true)
+
+      deleteSpy.mockRestore()
+    })
+
+    it('should reject unknown groups and the current group', async () => {
+      const createResult = await createQuestion({
+        title: 'Question',
+        content: 'Content',
+        priority: QuestionPriority.MEDIUM
+      }, 'user123', 'group456')
+      const questionId = createResult.question!.id
+
+      expect((await moveQuestionToGroup(questionId, 'missing', admin)).error).toBe('Group not found')
+      expect((await moveQuestionToGroup(questionId, 'group456', admin)).error).toBe('Question is already in the group')
+      expect((await moveQuestionToGroup('missing', 'group-new', admin)).error).toBe('Question not found')
+    })
+  })
+
+  describe('markQuestionAsDuplicate', () => {
+    const admin = {
+      id: 'admin-1',
+      username: 'admin',
+      email: 'admin@example.com',
+      groupId: 'group-admin',
+      isAdmin: true,
+      createdAt: new Date(),
+      lastLoginAt: null
+    }
+
+    beforeEach(async () => {
+      await testDataStore.createItem('users', { ...admin, id: 'user123', username: 'author', groupId: 'group456', isAdmin: false })
+    })
+
+    const createTestQuestion = async (title: string, groupId = 'group456') => {
+      const result = await createQuestion({
+        title,
+        content: 'Storage のアクセス権について',
+        priority: QuestionPriority.MEDIUM
+      }, groupId === 'group456' ? 'user123' : 'other-user', groupId)
+      return result.question!
+    }
+
+    it('should close the question and link it to the original', async () => {
+      const original = await createTestQuestion('Original question')
+      const duplicate = await createTestQuestion('Duplicate question')
+
+      const result = await markQuestionAsDuplicate(duplicate.id, original.id, admin)
+
+      expect(result.success).toBe(true)
+      expect(result.question?.status).toBe(QuestionStatus.CLOSED)
+      expect(result.question?.duplicateOfId).toBe(original.id)
+      expect(result.question?.statusHistory?.[0]).toMatchObject({
+        to: QuestionStatus.CLOSED,
+        changedBy: 'admin-1',
+        reason: '重複: Original question'
+      })
+    })
+
+    it('should follow the chain to the original question', async () => {
+      const original = await createTestQuestion('Original question')
+      const first = await createTestQuestion('First duplicate')
+      const second = await createTestQuestion('Second duplicate')
+      await markQuestionAsDuplicate(first.id, original.id, admin)
+
+      const result = await markQuestionAsDuplicate(second.id, first.id, admin)
+      expect(result.question?.duplicateOfId).toBe(original.id)
+
+      const cycle = await markQuestionAsDuplicate(original.id, first.id, admin)
+      expect(cycle.success).toBe(false)
+      expect(cycle.error).toBe('Cannot mark a question as a duplicate of itself')
+    })
+
+    it('should reject originals the author cannot access', async () => {
+      const original = await createTestQuestion('Other group question', 'group-other')
+      const duplicate = await createTestQuestion('Duplicate question')
+
+      const result = await markQuestionAsDuplicate(duplicate.id, original.id, admin)
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('The author cannot access the original question')
+      expect((await markQuestionAsDuplicate(duplicate.id, 'missing', admin)).error).toBe('Original question not found')
+    })
+
+    it('should carry the watchers over to the original question', async () => {
+      const original = await createTestQuestion('Original question')
+      const duplicate = await createTestQuestion('Duplicate question')
+      await setQuestionWatching(duplicate.id, 'user-colleague', true)
+
+      const result = await markQuestionAsDuplicate(duplicate.id, original.id, admin)
+
+      expect(result.original?.watcherIds).toEqual(['user123', 'user-colleague'])
+      expect((await getQuestion(original.id)).question?.watcherIds).toEqual(['user123', 'user-colleague'])
+    })
+  })
+
+  describe('setAcceptedAnswer', () => {
+    const createQuestionWithAnswer = async () => {
+      const createResult = await createQuestion({
+        title: 'Original title',
+        content: 'Original content',
+        priority: QuestionPriority.MEDIUM
+      }, 'user123', 'group456')
+      const questionId = createResult.question!.id
+      await testDataStore.createItem('answers', {
+        id: 'answer-1',
+        questionId,
+        content: 'Answer content',
+        authorId: 'user789',
+        attachments: [],
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+      return questionId
+    }
+
+    it('should accept an answer and resolve the question', async () => {
+      const questionId = await createQuestionWithAnswer()
+
+      const result = await setAcceptedAnswer(questionId, 'answer-1')
+
+      expect(result.success).toBe(true)
+      expect(result.question?.acceptedAnswerId).toBe('answer-1')
+      expect(result.question?.status).toBe(QuestionStatus.RESOLVED)
+      expect(result.question?.resolvedAt).toBeInstanceOf(Date)
+      expect(result.answer?.content).toBe('Answer content')
+    })
+
+    it('should reject answers of other questions', async () => {
+      const questionId = await createQuestionWithAnswer()
+      await testDataStore.createItem('answers', {
+        id: 'answer-other',
+        questionId: 'other-question',
+        content: 'Other',
+        authorId: 'user789',
+        attachments: [],
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+
+      const result = await setAcceptedAnswer(questionId, 'answer-other')
+
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('Answer not found')
+    })
+
+    it('should clear the accepted answer and reopen a resolved question', async () => {
+      const questionId = await createQuestionWithAnswer()
+      await setAcceptedAnswer(questionId, 'answer-1')
+
+      const result = await setAcceptedAnswer(questionId, null)
+
+      expect(result.success).toBe(true)
+      expect(result.question?.acceptedAnswerId).toBeUndefined()
+      expect(result.question?.status).toBe(QuestionStatus.ANSWERED)
+      expect(result.question?.resolvedAt).toBeUndefined()
+    })
+  })
+
   describe('getQuestion', () => {
     it('should return question by id', async () => {
       // 事前に質問を作成
@@ -231,6 +663,57 @@ describe('Questions Library', () => {
       expect(result.questions?.every(q => q.status === QuestionStatus.UNANSWERED)).toBe(true)
     })
 
+    it('should filter by request type and treat untyped questions as questions', async () => {
+      const querySpy = jest.spyOn(mockCosmosService, 'queryItemsWithPagination')
+
+      await getQuestions({ requestType: RequestType.VERIFICATION })
+      expect(querySpy.mock.calls[0][1]).toContain('AND c.requestType = @requestType')
+      expect(querySpy.mock.calls[0][2]).toContainEqual({ name: '@requestType', value: RequestType.VERIFICATION })
+
+      await getQuestions({ requestType: RequestType.QUESTION })
+      expect(querySpy.mock.calls[1][1]).toContain('(NOT IS_DEFINED(c.requestType) OR c.requestType = @requestType)')
+
+      querySpy.mockRestore()
+    })
+
+    it('should sort by due date only the open questions with an SLA', async () => {
+      const question = (id: string, status: QuestionStatus, slaDueAt?: Date) => testDataStore.createItem('questions', {
+        id,
+        title: id,
+        content: 'Content',
+        authorId: 'user123',
+        groupId: 'group456',
+        status,
+        priority: QuestionPriority.MEDIUM,
+        tags: [],
+        attachments: [],
+        ...(slaDueAt && { slaDueAt }),
+        createdAt: new Date('2024-01-01T00:00:00Z'),
+        updatedAt: new Date('2024-01-01T00:00:00Z')
+      })
+      await question('due-later', QuestionStatus.ANSWERED, new Date('2024-01-05T00:00:00Z'))
+      await question('legacy', QuestionStatus.UNANSWERED)
+      await question('due-first', QuestionStatus.UNANSWERED, new Date('2024-01-02T00:00:00Z'))
+      await question('resolved', QuestionStatus.RESOLVED)
+      // 期限を残したまま解決された質問も対象外
+      await question('stale', QuestionStatus.CLOSED, new Date('2024-01-01T00:00:00Z'))
+
+      const result = await getQuestions({ groupId: 'group456', sortBy: 'slaDueAt', sortOrder: 'asc' })
+
+      expect(result.success).toBe(true)
+      expect(result.questions?.map(q => q.id)).toEqual(['due-first', 'due-later'])
+    })
+
+    it('should filter by tag', async () => {
+      const querySpy = jest.spyOn(mockCosmosService, 'queryItemsWithPagination')
+
+      await getQuestions({ tag: 'Azure Functions' })
+      expect(querySpy.mock.calls[0][1]).toContain('AND ARRAY_CONTAINS(c.tags, @tag)')
+      expect(querySpy.mock.calls[0][2]).toContainEqual({ name: '@tag', value: 'Azure Functions' })
+
+      querySpy.mockRestore()
+    })
+
     it('should search by keyword', async () => {
       const query = {
         search: 'authentication',
@@ -261,6 +744,42 @@ describe('Questions Library', () => {
       expect(result.success).toBe(true)
     })
 
+    it('should delete revisions of the question, its answers and its comments', async () => {
+      const createResult = await createQuestion({
+        title: 'To be deleted',
+        content: 'This will be deleted',
+        priority: QuestionPriority.MEDIUM
+      }, 'user123', 'group456')
+      const questionId = createResult.question!.id
+
+      for (const [targetType, targetId] of [['question', questionId], ['answer', 'answer-1'], ['comment', 'comment-1']]) {
+        await testDataStore.createItem('revisions', {
+          id: `revision-${targetId}`,
+          targetType,
+          targetId,
+          questionId,
+          content: 'Old content',
+          editedBy: 'user123',
+          createdAt: new Date()
+        })
+      }
+      await testDataStore.createItem('revisions', {
+        id: 'revision-other',
+        targetType: 'question',
+        targetId: 'other-question',
+        questionId: 'other-question',
+        content: 'Other content',
+        editedBy: 'user123',
+        createdAt: new Date()
+      })
+
+      const result = await deleteQuestion(questionId)
+
+      expect(result.success).toBe(true)
+      const remaining = await testDataStore.queryItems<{ id: string }>('revisions', 'SELECT * FROM c')
+      expect(remaining.map(revision => revision.id)).toEqual(['revision-other'])
+    })
+
     it('should return error for non-existent question', async () => {
       const questionId = 'nonexistent'
 
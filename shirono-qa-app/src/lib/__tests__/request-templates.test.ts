@@ -0,0 +1,62 @@
+import { getRequestTemplate, getRequestTemplates, resetRequestTemplate, updateRequestTemplate } from '../request-templates'
+import { DEFAULT_REQUEST_TEMPLATES } from '../request-types'
+import { testDataStore, mockCosmosService } from './test-helpers'
+import { User } from '@/types/auth'
+import { RequestType } from '@/types/question'
+
+// モック設定
+jest.mock('../cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+const admin: User = {
+  id: 'admin-1',
+  username: 'admin',
+  email: 'admin@example.com',
+  groupId: 'group-admin',
+  isAdmin: true,
+  createdAt: new Date(),
+  lastLoginAt: null
+}
+
+describe('request-templates', () => {
+  beforeEach(() => {
+    testDataStore.clear()
+  })
+
+  it('should return the default template for types the admin has not configured', async () => {
+    const templates = await getRequestTemplates()
+
+    expect(templates.map(template => template.requestType)).toEqual([
+      RequestType.QUESTION,
+      RequestType.VERIFICATION,
+      RequestType.INVESTIGATION
+    ])
+    expect(templates[1].fields).toEqual(DEFAULT_REQUEST_TEMPLATES[RequestType.VERIFICATION])
+  })
+
+  it('should save the configured template and reset it to the default', async () => {
+    const result = await updateRequestTemplate(RequestType.INVESTIGATION, [
+      { key: 'subscription', label: ' サブスクリプション ', type: 'text', required: true, placeholder: '  ' }
+    ], admin)
+
+    expect(result.success).toBe(true)
+    expect((await getRequestTemplate(RequestType.INVESTIGATION)).fields).toEqual([
+      { key: 'subscription', label: 'サブスクリプション', type: 'text', required: true }
+    ])
+    expect(result.template!.updatedBy).toBe('admin-1')
+
+    const reset = await resetRequestTemplate(RequestType.INVESTIGATION)
+    expect(reset.template!.fields).toEqual(DEFAULT_REQUEST_TEMPLATES[RequestType.INVESTIGATION])
+  })
+
+  it('should reject invalid template fields', async () => {
+    const result = await updateRequestTemplate(RequestType.QUESTION, [
+      { key: 'os', label: '', type: 'text', required: false }
+    ], admin)
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Field 1: label is required')
+  })
+})
@@ -0,0 +1,73 @@
+import {
+  buildRequestFields,
+  DEFAULT_REQUEST_TEMPLATES,
+  getRequestTypeLabel,
+  toRequestFieldValues,
+  validateRequestFields,
+  validateTemplateFields
+} from '../request-types'
+import { RequestType } from '../../types/question'
+
+describe('request-types', () => {
+  const verificationFields = DEFAULT_REQUEST_TEMPLATES[RequestType.VERIFICATION]
+
+  describe('getRequestTypeLabel', () => {
+    it('should treat questions without a type as questions', () => {
+      expect(getRequestTypeLabel(RequestType.VERIFICATION)).toBe('検証依頼')
+      expect(getRequestTypeLabel(undefined)).toBe('質問')
+    })
+  })
+
+  describe('validateRequestFields', () => {
+    it('should require the required fields of the template', () => {
+      const result = validateRequestFields(verificationFields, { environment: '  ', actualResult: 'エラー' })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toEqual(['検証環境 is required', '期待する結果 is required'])
+    })
+
+    it('should validate dates and reject values that are not strings', () => {
+      const values = { environment: 'Windows 11', expectedResult: '接続できる', deadline: '2024-02-30' }
+
+      expect(validateRequestFields(verificationFields, values).errors).toEqual(['希望期限 must be a date (YYYY-MM-DD)'])
+      expect(validateRequestFields(verificationFields, { ...values, deadline: '2024-02-29' }).valid).toBe(true)
+      expect(validateRequestFields(verificationFields, { ...values, deadline: 20240229 }).valid).toBe(false)
+    })
+  })
+
+  describe('validateTemplateFields', () => {
+    it('should reject invalid and duplicate keys, empty labels and unknown types', () => {
+      const result = validateTemplateFields([
+        { key: 'environment', label: '環境', type: 'text', required: true },
+        { key: 'environment', label: '環境2', type: 'text', required: false },
+        { key: '1st', label: '', type: 'number', required: 'yes' }
+      ])
+
+      expect(result.errors).toEqual([
+        'Field 2: duplicate key environment',
+        'Field 3: key must start with a letter and contain only letters, digits and underscores',
+        'Field 3: label is required',
+        'Field 3: invalid field type',
+        'Field 3: required must be a boolean'
+      ])
+      expect(validateTemplateFields(DEFAULT_REQUEST_TEMPLATES[RequestType.INVESTIGATION]).valid).toBe(true)
+    })
+  })
+
+  describe('buildRequestFields', () => {
+    it('should keep the template order and labels and drop empty or unknown fields', () => {
+      const fields = buildRequestFields(verificationFields, {
+        deadline: '2024-03-01',
+        unknown: 'ignored',
+        environment: ' Windows 11 ',
+        actualResult: ''
+      })
+
+      expect(fields).toEqual([
+        { key: 'environment', label: '検証環境', value: 'Windows 11' },
+        { key: 'deadline', label: '希望期限', value: '2024-03-01' }
+      ])
+      expect(toRequestFieldValues(fields)).toEqual({ environment: 'Windows 11', deadline: '2024-03-01' })
+    })
+  })
+})
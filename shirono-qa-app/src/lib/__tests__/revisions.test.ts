@@ -0,0 +1,125 @@
+import { getRevisions } from '../revisions'
+import { updateQuestion, rollbackQuestion } from '../questions'
+import { updateAnswer, rollbackAnswer, updateComment } from '../answers'
+import { QuestionPriority, QuestionStatus } from '@/types/question'
+import { User } from '@/types/auth'
+import { testDataStore, mockCosmosService } from './test-helpers'
+
+jest.mock('../cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('../openai', () => ({
+  embedText: jest.fn().mockResolvedValue([0.1, 0.2, 0.3])
+}))
+
+const admin: User = {
+  id: 'admin-1',
+  username: 'admin',
+  email: 'admin@example.com',
+  groupId: 'group-admin',
+  isAdmin: true,
+  createdAt: new Date(),
+  lastLoginAt: null
+}
+
+const author: User = { ...admin, id: 'user-1', username: 'author', groupId: 'group-1', isAdmin: false }
+
+describe('revisions', () => {
+  beforeEach(async () => {
+    testDataStore.clear()
+
+    await testDataStore.createItem('questions', {
+      id: 'question-1',
+      title: 'Original title',
+      content: 'Original content',
+      authorId: author.id,
+      groupId: 'group-1',
+      status: QuestionStatus.UNANSWERED,
+      priority: QuestionPriority.MEDIUM,
+      tags: [],
+      attachments: [],
+      createdAt: new Date('2024-01-15T00:00:00Z'),
+      updatedAt: new Date('2024-01-15T00:00:00Z')
+    })
+    await testDataStore.createItem('answers', {
+      id: 'answer-1',
+      questionId: 'question-1',
+      content: 'Original answer',
+      authorId: admin.id,
+      attachments: [],
+      createdAt: new Date('2024-01-15T01:00:00Z'),
+      updatedAt: new Date('2024-01-15T01:00:00Z')
+    })
+    await testDataStore.createItem('comments', {
+      id: 'comment-1',
+      questionId: 'question-1',
+      content: 'Original comment',
+      authorId: author.id,
+      attachments: [],
+      createdAt: new Date('2024-01-15T02:00:00Z'),
+      updatedAt: new Date('2024-01-15T02:00:00Z')
+    })
+  })
+
+  it('should record the original and edited question on the first edit', async () => {
+    const result = await updateQuestion('question-1', { content: 'Edited content' }, author)
+
+    expect(result.success).toBe(true)
+    expect(result.question?.editedAt).toBeDefined()
+
+    const revisions = (await getRevisions('question', 'question-1')).revisions!
+    expect(revisions).toHaveLength(2)
+    expect(revisions[0]).toMatchObject({ title: 'Original title', content: 'Original content', editedBy: author.id })
+    expect(revisions[1]).toMatchObject({ title: 'Original title', content: 'Edited content', editedByName: 'author' })
+  })
+
+  it('should not record a revision when only the priority changes', async () => {
+    const result = await updateQuestion('question-1', { priority: QuestionPriority.HIGH }, author)
+
+    expect(result.question?.editedAt).toBeUndefined()
+    expect((await getRevisions('question', 'question-1')).revisions).toHaveLength(0)
+  })
+
+  it('should roll back a question as a new revision', async () => {
+    await updateQuestion('question-1', { title: 'Edited title', content: 'Edited content' }, author)
+    const original = (await getRevisions('question', 'question-1')).revisions![0]
+
+    const result = await rollbackQuestion('question-1', original.id, admin)
+
+    expect(result.success).toBe(true)
+    expect(result.question).toMatchObject({ title: 'Original title', content: 'Original content' })
+
+    const revisions = (await getRevisions('question', 'question-1')).revisions!
+    expect(revisions).toHaveLength(3)
+    expect(revisions[2]).toMatchObject({ rollbackOf: original.id, editedBy: admin.id })
+  })
+
+  it('should return an error for an unknown revision', async () => {
+    const result = await rollbackQuestion('question-1', 'missing', admin)
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Revision not found')
+  })
+
+  it('should record and roll back answer edits', async () => {
+    await updateAnswer('answer-1', { content: 'Edited answer' }, admin)
+    await updateAnswer('answer-1', { content: 'Edited again' }, admin)
+
+    const revisions = (await getRevisions('answer', 'answer-1')).revisions!
+    expect(revisions.map(revision => revision.content)).toEqual(['Original answer', 'Edited answer', 'Edited again'])
+
+    const result = await rollbackAnswer('answer-1', revisions[1].id, admin)
+    expect(result.success).toBe(true)
+    expect(result.answer?.content).toBe('Edited answer')
+  })
+
+  it('should not record a revision when only comment attachments change', async () => {
+    const result = await updateComment('comment-1', { attachments: [] }, author)
+
+    expect(result.success).toBe(true)
+    expect(result.comment?.editedAt).toBeUndefined()
+    expect((await getRevisions('comment', 'comment-1')).revisions).toHaveLength(0)
+  })
+})
@@ -19,7 +19,8 @@ jest.mock('../openai', () => ({
 
 // CosmosServiceをモック
 jest.mock('../cosmos', () => ({
-  getCosmosService: () => mockCosmosService
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
 }))
 
 import { embedText as mockEmbedText, generateTags as mockGenerateTags } from '../openai'
@@ -107,6 +108,30 @@ describe('Search and AI Library', () => {
       }
     })
 
+    it('should escape markup in titles and snippets before highlighting', async () => {
+      await testDataStore.createItem('questions', {
+        id: 'question-xss',
+        title: '<img src=x onerror=alert(1)> JWT error',
+        content: 'JWT fails with <script>alert(1)</script>',
+        authorId: 'user-1',
+        groupId: 'group-1',
+        status: 'unanswered',
+        priority: 'medium',
+        tags: [],
+        attachments: [],
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+
+      const result = await searchQuestions({ q: 'JWT' })
+
+      const highlights = result.results![0].highlights
+      const title = highlights.find(highlight => highlight.field === 'title')!.fragments[0]
+      const content = highlights.find(highlight => highlight.field === 'content')!.fragments[0]
+      expect(title).toBe('&lt;img src=x onerror=alert(1)&gt; <mark>JWT</mark> error')
+      expect(content).toBe('<mark>JWT</mark> fails with &lt;script&gt;alert(1)&lt;/script&gt;')
+    })
+
     it('should handle empty search gracefully', async () => {
       const query = {
         q: ''
@@ -164,6 +189,89 @@ describe('Search and AI Library', () => {
       expect(result.questions).toEqual([])
     })
 
+    it('should use stored embeddings without re-embedding questions', async () => {
+      await testDataStore.createItem('questions', {
+        id: 'question-similar',
+        title: 'JWT authentication',
+        content: 'How to implement JWT authentication',
+        groupId: 'group123',
+        status: 'answered',
+        tags: [],
+        createdAt: new Date(),
+        contentVector: new Array(3072).fill(0.1)
+      })
+      await testDataStore.createItem('questions', {
+        id: 'question-unrelated',
+        title: 'Unrelated',
+        content: 'Unrelated content',
+        groupId: 'group123',
+        status: 'unanswered',
+        tags: [],
+        createdAt: new Date(),
+        contentVector: new Array(3072).fill(0).map((_, i) => (i % 2 === 0 ? 1 : -1))
+      })
+      await testDataStore.createItem('answers', { id: 'answer-1', questionId: 'question-similar' })
+      await testDataStore.createItem('answers', { id: 'answer-2', questionId: 'question-similar' })
+
+      const result = await findSimilarQuestions('JWT authentication')
+
+      expect(result.success).toBe(true)
+      expect(result.questions?.map(q => q.id)).toEqual(['question-similar'])
+      expect(result.questions?.[0].answersCount).toBe(2)
+      expect(mockEmbedTextFn).toHaveBeenCalledTimes(1)
+    })
+
+    it('should prefer questions with highly voted answers', async () => {
+      const vector = new Array(3072).fill(0.1)
+      await testDataStore.createItem('questions', {
+        id: 'question-closest',
+        title: 'JWT authentication',
+        content: 'How to implement JWT authentication',
+        groupId: 'group123',
+        status: 'answered',
+        tags: [],
+        createdAt: new Date(),
+        contentVector: vector
+      })
+      await testDataStore.createItem('questions', {
+        id: 'question-helpful',
+        title: 'JWT authentication in Next.js',
+        content: 'JWT authentication with Next.js',
+        groupId: 'group123',
+        status: 'resolved',
+        tags: [],
+        createdAt: new Date(),
+        contentVector: vector.map((value, i) => (i === 0 ? 0.15 : value))
+      })
+      await testDataStore.createItem('answers', { id: 'answer-1', questionId: 'question-closest' })
+      await testDataStore.createItem('answers', { id: 'answer-2', questionId: 'question-helpful', helpfulCount: 4 })
+
+      const result = await findSimilarQuestions('JWT authentication')
+
+      expect(result.success).toBe(true)
+      expect(result.questions?.map(q => q.id)).toEqual(['question-helpful', 'question-closest'])
+      expect(result.questions?.[0].similarity).toBeLessThan(result.questions![1].similarity)
+      expect(result.questions?.[0].topAnswerHelpfulCount).toBe(4)
+    })
+
+    it('should restrict results to the given group', async () => {
+      await testDataStore.createItem('questions', {
+        id: 'question-other-group',
+        title: 'JWT authentication',
+        content: 'How to implement JWT authentication',
+        groupId: 'group-other',
+        status: 'answered',
+        tags: [],
+        createdAt: new Date(),
+        contentVector: new Array(3072).fill(0.1)
+      })
+
+      const result = await findSimilarQuestions('JWT authentication', undefined, 5, 'group123')
+
+      expect(result.success).toBe(true)
+      expect(result.questions).toEqual([])
+    })
+
     it('should handle embedding API failure', async () => {
       mockEmbedTextFn.mockRejectedValue(new Error('OpenAI API error'))
 
@@ -290,6 +398,18 @@ describe('Search and AI Library', () => {
         expect(highlighted).toContain('<mark>Authentication</mark>')
       })
 
+      it('should highlight terms inside Japanese text', () => {
+        const highlighted = highlightSearchTerms('ログイン時に認証エラーが発生する', ['認証エラー'])
+
+        expect(highlighted).toBe('ログイン時に<mark>認証エラー</mark>が発生する')
+      })
+
+      it('should escape HTML outside and inside highlights', () => {
+        const highlighted = highlightSearchTerms('<b>JWT</b> & "auth"', ['jwt'])
+
+        expect(highlighted).toBe('&lt;b&gt;<mark>JWT</mark>&lt;/b&gt; &amp; &quot;auth&quot;')
+      })
+
       it('should handle overlapping terms', () => {
         const text = 'authentication and authorize'
         const terms = ['auth', 'authentication']
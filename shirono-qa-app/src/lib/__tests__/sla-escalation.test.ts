@@ -0,0 +1,134 @@
+import { escalateOverdueQuestions } from '../sla-escalation'
+import { testDataStore, mockCosmosService } from './test-helpers'
+import { QuestionPriority, QuestionStatus } from '@/types/question'
+
+jest.mock('../cosmos', () => ({
+  getCosmosService: () => mockCosmosService
+}))
+
+jest.mock('../email', () => ({
+  sendNotificationEmail: jest.fn().mockResolvedValue({ success: true }),
+  EmailType: { SLA_ESCALATION: 'SLA_ESCALATION' }
+}))
+
+import { sendNotificationEmail } from '../email'
+
+const mockSendNotificationEmail = sendNotificationEmail as jest.MockedFunction<typeof sendNotificationEmail>
+
+const now = new Date('2024-01-16T12:00:00Z')
+
+const createQuestion = (id: string, overrides: Record<string, unknown> = {}) => testDataStore.createItem('questions', {
+  id,
+  title: `Question ${id}`,
+  content: 'content',
+  authorId: 'user-1',
+  groupId: 'group-1',
+  status: QuestionStatus.UNANSWERED,
+  priority: QuestionPriority.HIGH,
+  tags: [],
+  attachments: [],
+  createdAt: new Date('2024-01-16T00:00:00Z'),
+  updatedAt: new Date('2024-01-16T00:00:00Z'),
+  firstResponseDueAt: new Date('2024-01-16T04:00:00Z'),
+  resolutionDueAt: new Date('2024-01-17T00:00:00Z'),
+  ...overrides
+})
+
+describe('sla-escalation', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    for (const id of ['admin-1', 'admin-2']) {
+      await testDataStore.createItem('users', {
+        id,
+        username: id,
+        email: `${id}@example.com`,
+        groupId: 'group-admin',
+        isAdmin: true,
+        createdAt: new Date(),
+        lastLoginAt: null,
+      })
+    }
+    await testDataStore.createItem('users', {
+      id: 'user-1',
+      username: 'author',
+      email: 'author@example.com',
+      groupId: 'group-1',
+      isAdmin: false,
+      createdAt: new Date(),
+      lastLoginAt: null,
+    })
+    await testDataStore.createItem('groups', { id: 'group-1', name: 'Group 1', description: 'desc', createdAt: new Date() })
+  })
+
+  describe('escalateOverdueQuestions', () => {
+    it('should escalate overdue first responses to every admin once', async () => {
+      await createQuestion('overdue', { assigneeId: 'admin-2' })
+
+      const result = await escalateOverdueQuestions(now)
+
+      expect(result).toEqual({ checked: 1, backfilled: 0, escalated: 1 })
+      expect(mockSendNotificationEmail).toHaveBeenCalledTimes(2)
+      expect(mockSendNotificationEmail).toHaveBeenCalledWith(
+        'SLA_ESCALATION',
+        'admin-1@example.com',
+        expect.objectContaining({
+          escalation: { kind: 'firstResponse', dueAt: new Date('2024-01-16T04:00:00Z') },
+          assignee: expect.objectContaining({ id: 'admin-2' }),
+          author: expect.objectContaining({ username: 'author' })
+        })
+      )
+
+      const stored = await testDataStore.getItem<{ slaEscalations: Record<string, Date>; updatedAt: Date }>('questions', 'overdue')
+      expect(stored?.slaEscalations.firstResponse).toEqual(now)
+      expect(stored?.updatedAt).toEqual(new Date('2024-01-16T00:00:00Z'))
+
+      // 二回目は送信しない
+      mockSendNotificationEmail.mockClear()
+      await escalateOverdueQuestions(now)
+      expect(mockSendNotificationEmail).not.toHaveBeenCalled()
+    })
+
+    it('should escalate overdue resolutions for answered questions', async () => {
+      await createQuestion('answered', { status: QuestionStatus.ANSWERED })
+
+      const result = await escalateOverdueQuestions(new Date('2024-01-17T01:00:00Z'))
+
+      expect(result.escalated).toBe(1)
+      expect(mockSendNotificationEmail).toHaveBeenCalledWith(
+        'SLA_ESCALATION',
+        expect.any(String),
+        expect.objectContaining({ escalation: expect.objectContaining({ kind: 'resolution' }) })
+      )
+    })
+
+    it('should skip questions that are on track or no longer active', async () => {
+      await createQuestion('on-track', { status: QuestionStatus.ANSWERED })
+      await createQuestion('resolved', { status: QuestionStatus.RESOLVED })
+
+      const result = await escalateOverdueQuestions(now)
+
+      expect(result).toEqual({ checked: 1, backfilled: 0, escalated: 0 })
+      expect(mockSendNotificationEmail).not.toHaveBeenCalled()
+    })
+
+    it('should backfill due dates for questions created before SLAs using the group policy', async () => {
+      await testDataStore.updateItem('groups', 'group-1', {
+        id: 'group-1',
+        name: 'Group 1',
+        description: 'desc',
+        slaPolicy: { [QuestionPriority.HIGH]: { firstResponseHours: 24, resolutionHours: 48 } },
+        createdAt: new Date()
+      })
+      await createQuestion('legacy', { firstResponseDueAt: undefined, resolutionDueAt: undefined })
+
+      const result = await escalateOverdueQuestions(now)
+
+      expect(result).toEqual({ checked: 1, backfilled: 1, escalated: 0 })
+      const stored = await testDataStore.getItem<{ firstResponseDueAt: Date; slaDueAt: Date }>('questions', 'legacy')
+      expect(stored?.firstResponseDueAt).toEqual(new Date('2024-01-17T00:00:00Z'))
+      expect(stored?.slaDueAt).toEqual(new Date('2024-01-17T00:00:00Z'))
+    })
+  })
+})
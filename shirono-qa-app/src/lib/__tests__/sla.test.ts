@@ -0,0 +1,90 @@
+import {
+  computeSlaDueDates,
+  getActiveSlaDueAt,
+  getSlaStatus,
+  resolveSlaPolicy,
+  validateSlaPolicy,
+  DEFAULT_SLA_POLICY
+} from '../sla'
+import { QuestionPriority, QuestionStatus } from '@/types/question'
+
+const createdAt = new Date('2024-01-15T00:00:00Z')
+
+describe('sla', () => {
+  describe('resolveSlaPolicy', () => {
+    it('should fill priorities missing from the group policy with defaults', () => {
+      const policy = resolveSlaPolicy({ [QuestionPriority.HIGH]: { firstResponseHours: 1, resolutionHours: 8 } })
+
+      expect(policy[QuestionPriority.HIGH]).toEqual({ firstResponseHours: 1, resolutionHours: 8 })
+      expect(policy[QuestionPriority.LOW]).toEqual(DEFAULT_SLA_POLICY[QuestionPriority.LOW])
+    })
+  })
+
+  describe('validateSlaPolicy', () => {
+    it('should accept positive hours within the limit', () => {
+      expect(validateSlaPolicy({ [QuestionPriority.MEDIUM]: { firstResponseHours: 2, resolutionHours: 10 } }).valid).toBe(true)
+    })
+
+    it('should reject unknown priorities, invalid hours and inverted targets', () => {
+      expect(validateSlaPolicy({ urgent: { firstResponseHours: 1, resolutionHours: 2 } }).valid).toBe(false)
+      expect(validateSlaPolicy({ [QuestionPriority.LOW]: { firstResponseHours: 0, resolutionHours: 2 } }).valid).toBe(false)
+      expect(validateSlaPolicy({ [QuestionPriority.LOW]: { firstResponseHours: '4', resolutionHours: 8 } }).valid).toBe(false)
+      expect(validateSlaPolicy({ [QuestionPriority.LOW]: { firstResponseHours: 10, resolutionHours: 5 } }).valid).toBe(false)
+      expect(validateSlaPolicy(null).valid).toBe(false)
+    })
+  })
+
+  describe('computeSlaDueDates', () => {
+    it('should add the priority targets to the creation time', () => {
+      const dueDates = computeSlaDueDates(createdAt, QuestionPriority.HIGH)
+
+      expect(dueDates.firstResponseDueAt).toEqual(new Date('2024-01-15T04:00:00Z'))
+      expect(dueDates.resolutionDueAt).toEqual(new Date('2024-01-16T00:00:00Z'))
+    })
+
+    it('should use the group policy when set', () => {
+      const dueDates = computeSlaDueDates(createdAt, QuestionPriority.LOW, {
+        [QuestionPriority.LOW]: { firstResponseHours: 1, resolutionHours: 2 }
+      })
+
+      expect(dueDates.firstResponseDueAt).toEqual(new Date('2024-01-15T01:00:00Z'))
+      expect(dueDates.resolutionDueAt).toEqual(new Date('2024-01-15T02:00:00Z'))
+    })
+  })
+
+  describe('getActiveSlaDueAt', () => {
+    const dueDates = computeSlaDueDates(createdAt, QuestionPriority.MEDIUM)
+
+    it('should follow the status', () => {
+      expect(getActiveSlaDueAt({ status: QuestionStatus.UNANSWERED, ...dueDates })).toBe(dueDates.firstResponseDueAt)
+      expect(getActiveSlaDueAt({ status: QuestionStatus.ANSWERED, ...dueDates })).toBe(dueDates.resolutionDueAt)
+      expect(getActiveSlaDueAt({ status: QuestionStatus.RESOLVED, ...dueDates })).toBeUndefined()
+    })
+  })
+
+  describe('getSlaStatus', () => {
+    const question = {
+      status: QuestionStatus.UNANSWERED,
+      createdAt: createdAt.toISOString(),
+      firstResponseDueAt: '2024-01-15T04:00:00Z',
+      resolutionDueAt: '2024-01-16T00:00:00Z'
+    }
+
+    it('should report on track, due soon and overdue states', () => {
+      expect(getSlaStatus(question, new Date('2024-01-15T01:00:00Z'))?.state).toBe('on_track')
+      expect(getSlaStatus(question, new Date('2024-01-15T03:30:00Z'))?.state).toBe('due_soon')
+      expect(getSlaStatus(question, new Date('2024-01-15T04:00:00Z'))?.state).toBe('overdue')
+    })
+
+    it('should use the resolution target once answered', () => {
+      const sla = getSlaStatus({ ...question, status: QuestionStatus.ANSWERED }, new Date('2024-01-15T05:00:00Z'))
+
+      expect(sla).toEqual({ kind: 'resolution', dueAt: new Date('2024-01-16T00:00:00Z'), state: 'on_track' })
+    })
+
+    it('should return null for closed questions or questions without due dates', () => {
+      expect(getSlaStatus({ ...question, status: QuestionStatus.RESOLVED })).toBeNull()
+      expect(getSlaStatus({ status: QuestionStatus.UNANSWERED, createdAt })).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,179 @@
+import { cleanupOrphanedUploads, getStorageUsageByGroup } from '../storage-maintenance'
+import { testDataStore, mockCosmosService } from './test-helpers'
+import { UploadSessionStatus } from '@/types/upload'
+
+// モック設定
+jest.mock('../cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('../openai', () => ({
+  embedText: jest.fn()
+}))
+
+const HOUR = 60 * 60 * 1000
+const blobUrl = (blobPath: string) => `https://storage.example/qa-attachments/${blobPath}`
+
+const mockBlobService = {
+  listFiles: jest.fn(),
+  deleteFile: jest.fn(async () => true),
+  extractFileNameFromUrl: jest.fn((url: string) => url.replace('https://storage.example/qa-attachments/', '')),
+  parseBlobPath: jest.fn((blobPath: string) => {
+    const [, questionId] = blobPath.split('/')
+    return questionId ? { type: 'question', questionId, fileName: blobPath.split('/').pop() } : null
+  })
+}
+
+jest.mock('../blob-storage', () => ({
+  getBlobStorageService: () => mockBlobService
+}))
+
+function file(name: string, size: number, ageHours: number) {
+  return { name, size, lastModified: new Date(Date.now() - ageHours * HOUR), contentType: 'application/pdf' }
+}
+
+describe('storage-maintenance', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('groups', { id: 'group-1', name: 'TS/AI', description: '', createdAt: new Date() })
+    await testDataStore.createItem('questions', {
+      id: 'question-1',
+      groupId: 'group-1',
+      attachments: [{ fileName: 'a.pdf', fileSize: 100, blobUrl: blobUrl('questions/question-1/question/a.pdf'), contentType: 'application/pdf' }]
+    })
+    await testDataStore.createItem('answers', {
+      id: 'answer-1',
+      questionId: 'question-1',
+      attachments: [{ fileName: 'b.pdf', fileSize: 200, blobUrl: blobUrl('questions/question-1/answers/answer-1/b.pdf'), contentType: 'application/pdf' }]
+    })
+    await testDataStore.createItem('uploadSessions', {
+      id: 'upload-1',
+      userId: 'user-1',
+      blobPath: 'questions/question-1/question/uploading.pdf',
+      status: UploadSessionStatus.PENDING,
+      expiresAt: new Date(Date.now() + HOUR)
+    })
+    await testDataStore.createItem('pendingUploads', {
+      id: 'pending-1',
+      userId: 'user-1',
+      blobPath: 'questions/temp/question/old.pdf',
+      createdAt: new Date(Date.now() - 48 * HOUR)
+    })
+
+    mockBlobService.listFiles.mockResolvedValue([
+      file('questions/question-1/question/a.pdf', 100, 72),
+      file('questions/question-1/answers/answer-1/b.pdf', 200, 72),
+      file('questions/question-1/question/uploading.pdf', 300, 72),
+      file('questions/temp/question/old.pdf', 400, 48),
+      file('questions/temp/question/recent.pdf', 500, 1)
+    ])
+  })
+
+  describe('cleanupOrphanedUploads', () => {
+    it('should delete only unreferenced files older than the threshold', async () => {
+      const result = await cleanupOrphanedUploads({ olderThanHours: 24 })
+
+      expect(result.scanned).toBe(5)
+      expect(result.deleted).toEqual(['questions/temp/question/old.pdf'])
+      expect(result.freedBytes).toBe(400)
+      expect(mockBlobService.deleteFile).toHaveBeenCalledTimes(1)
+      expect(mockBlobService.deleteFile).toHaveBeenCalledWith('questions/temp/question/old.pdf')
+
+      // 古い添付前ファイルの記録も削除される
+      expect(await testDataStore.getItem('pendingUploads', 'pending-1')).toBeNull()
+      expect(await testDataStore.getItem('uploadSessions', 'upload-1')).not.toBeNull()
+    })
+
+    it('should not delete anything on dry run', async () => {
+      const result = await cleanupOrphanedUploads({ olderThanHours: 24, dryRun: true })
+
+      expect(result.dryRun).toBe(true)
+      expect(result.deleted).toEqual(['questions/temp/question/old.pdf'])
+      expect(mockBlobService.deleteFile).not.toHaveBeenCalled()
+      expect(await testDataStore.getItem('pendingUploads', 'pending-1')).not.toBeNull()
+    })
+
+    it('should keep images referenced by drafts and purge expired drafts', async () => {
+      await testDataStore.createItem('pendingUploads', {
+        id: 'pending-2',
+        userId: 'user-1',
+        blobPath: 'questions/temp/question/pasted.png',
+        createdAt: new Date(Date.now() - 48 * HOUR)
+      })
+      await testDataStore.createItem('drafts', {
+        id: 'draft_user-1_question_new',
+        userId: 'user-1',
+        kind: 'question',
+        content: '',
+        attachments: [{ blobPath: 'questions/temp/question/pasted.png', fileName: 'pasted.png', fileSize: 600, contentType: 'image/png' }],
+        createdAt: new Date(Date.now() - 48 * HOUR),
+        updatedAt: new Date(Date.now() - 48 * HOUR)
+      })
+      await testDataStore.createItem('drafts', {
+        id: 'draft_user-2_question_new',
+        userId: 'user-2',
+        kind: 'question',
+        content: '',
+        attachments: [],
+        createdAt: new Date(Date.now() - 60 * 24 * HOUR),
+        updatedAt: new Date(Date.now() - 60 * 24 * HOUR)
+      })
+      mockBlobService.listFiles.mockResolvedValue([file('questions/temp/question/pasted.png', 600, 48)])
+
+      const result = await cleanupOrphanedUploads({ olderThanHours: 24 })
+
+      expect(result.deleted).toEqual([])
+      expect(await testDataStore.getItem('pendingUploads', 'pending-2')).not.toBeNull()
+      expect(await testDataStore.getItem('drafts', 'draft_user-1_question_new')).not.toBeNull()
+      expect(await testDataStore.getItem('drafts', 'draft_user-2_question_new')).toBeNull()
+    })
+
+    it('should keep files uploaded from the attachment field of drafts', async () => {
+      await testDataStore.createItem('drafts', {
+        id: 'draft_user-1_question_new',
+        userId: 'user-1',
+        kind: 'question',
+        content: '',
+        attachments: [],
+        files: [{
+          blobPath: 'questions/temp/question/log.txt',
+          blobUrl: 'https://storage.example/qa-attachments/questions/temp/question/log.txt',
+          fileName: 'log.txt',
+          fileSize: 300,
+          contentType: 'text/plain'
+        }],
+        createdAt: new Date(Date.now() - 48 * HOUR),
+        updatedAt: new Date(Date.now() - 48 * HOUR)
+      })
+      mockBlobService.listFiles.mockResolvedValue([file('questions/temp/question/log.txt', 300, 48)])
+
+      const result = await cleanupOrphanedUploads({ olderThanHours: 24 })
+
+      expect(result.deleted).toEqual([])
+    })
+
+    it('should report files that could not be deleted', async () => {
+      mockBlobService.deleteFile.mockResolvedValueOnce(false)
+
+      const result = await cleanupOrphanedUploads({ olderThanHours: 24 })
+
+      expect(result.deleted).toEqual([])
+      expect(result.failed).toEqual(['questions/temp/question/old.pdf'])
+      expect(result.freedBytes).toBe(0)
+    })
+  })
+
+  describe('getStorageUsageByGroup', () => {
+    it('should sum file sizes per group', async () => {
+      const usage = await getStorageUsageByGroup()
+
+      expect(usage).toEqual([
+        { groupId: null, groupName: '未割り当て', fileCount: 2, totalBytes: 900 },
+        { groupId: 'group-1', groupName: 'TS/AI', fileCount: 3, totalBytes: 600 }
+      ])
+    })
+  })
+})
@@ -0,0 +1,30 @@
+import { getTagPath, resolveTagNames, validateQuestionTags, validateTagName } from '../tag-names'
+
+const catalog = [
+  { name: 'Azure Functions', synonyms: ['functions', 'Az Func'] },
+  { name: 'Cosmos DB', synonyms: ['cosmosdb'] }
+]
+
+describe('tag-names', () => {
+  it('should validate tag names and the tags of a question', () => {
+    expect(validateTagName('  ')).toBe('Tag name is required')
+    expect(validateTagName('a'.repeat(31))).toBe('Tag name must be 30 characters or less')
+    expect(validateTagName('Azure Functions')).toBeNull()
+
+    expect(validateQuestionTags('azure')).toEqual(['Tags must be an array'])
+    expect(validateQuestionTags(Array.from({ length: 11 }, (_, i) => `tag${i}`))).toEqual(['Maximum 10 tags allowed'])
+    expect(validateQuestionTags(['azure', 1])).toEqual(['Tag name is required: 1'])
+  })
+
+  it('should replace synonyms with the catalog names and remove duplicates ignoring case', () => {
+    expect(resolveTagNames(['FUNCTIONS', ' az   func ', 'cosmosdb', 'Cosmos DB', 'RU', 'ru', ''], catalog)).toEqual([
+      'Azure Functions',
+      'Cosmos DB',
+      'RU'
+    ])
+  })
+
+  it('should encode tag names in the tag page path', () => {
+    expect(getTagPath('C# / .NET')).toBe('/tags/C%23%20%2F%20.NET')
+  })
+})
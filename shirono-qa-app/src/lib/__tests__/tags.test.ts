@@ -0,0 +1,149 @@
+import { createTag, deleteTag, getTagUsage, mergeTags, updateTag } from '../tags'
+import { testDataStore, mockCosmosService } from './test-helpers'
+import { User } from '@/types/auth'
+import { Question } from '@/types/question'
+import { Tag } from '@/types/tag'
+
+// モック設定
+jest.mock('../cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+const admin: User = {
+  id: 'admin-1',
+  username: 'admin',
+  email: 'admin@example.com',
+  groupId: 'group-admin',
+  isAdmin: true,
+  createdAt: new Date(),
+  lastLoginAt: null
+}
+
+const updatedAt = new Date('2024-01-01T00:00:00Z')
+
+const createQuestionWithTags = (id: string, tags: string[]) => testDataStore.createItem('questions', {
+  id,
+  title: id,
+  groupId: 'group-1',
+  tags,
+  updatedAt
+})
+
+const getQuestionTags = async (id: string) => (await testDataStore.getItem<Question>('questions', id))!.tags
+
+describe('tags', () => {
+  beforeEach(() => {
+    testDataStore.clear()
+  })
+
+  it('should replace synonyms on existing questions when a tag is created', async () => {
+    await createQuestionWithTags('q1', ['functions', 'timeout'])
+    await createQuestionWithTags('q2', ['Azure Functions', 'AZ FUNC'])
+    await createQuestionWithTags('q3', ['Cosmos DB'])
+
+    const result = await createTag({ name: ' Azure Functions ', synonyms: ['functions', 'az func', 'Functions'] }, admin)
+
+    expect(result.success).toBe(true)
+    expect(result.tag).toEqual(expect.objectContaining({
+      name: 'Azure Functions',
+      synonyms: ['functions', 'az func'],
+      updatedBy: 'admin-1'
+    }))
+    expect(result.updatedQuestions).toBe(2)
+    expect(await getQuestionTags('q1')).toEqual(['Azure Functions', 'timeout'])
+    expect(await getQuestionTags('q2')).toEqual(['Azure Functions'])
+    expect(await getQuestionTags('q3')).toEqual(['Cosmos DB'])
+    // タグの整理では更新日時を変えない
+    expect((await testDataStore.getItem<Question>('questions', 'q1'))!.updatedAt).toEqual(updatedAt)
+  })
+
+  it('should reject names and synonyms already used by another tag', async () => {
+    await createTag({ name: 'Cosmos DB', synonyms: ['cosmosdb'] }, admin)
+
+    const result = await createTag({ name: 'CosmosDB', synonyms: ['documentdb'] }, admin)
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('CosmosDB is already used by tag Cosmos DB')
+  })
+
+  it('should rename the tag on questions when the tag is updated', async () => {
+    const created = await createTag({ name: 'AKS', synonyms: [] }, admin)
+    await createQuestionWithTags('q1', ['AKS', 'network'])
+
+    const result = await updateTag(created.tag!.id, { name: 'Azure Kubernetes Service', synonyms: ['AKS'], description: ' マネージド Kubernetes ' }, admin)
+
+    expect(result.success).toBe(true)
+    expect(result.tag?.description).toBe('マネージド Kubernetes')
+    expect(result.updatedQuestions).toBe(1)
+    expect(await getQuestionTags('q1')).toEqual(['Azure Kubernetes Service', 'network'])
+
+    expect((await updateTag('missing', { name: 'x' }, admin)).error).toBe('Tag not found')
+  })
+
+  it('should merge a tag into another and rewrite the questions', async () => {
+    const source = await createTag({ name: 'SQL Database', synonyms: ['sqldb'] }, admin)
+    const target = await createTag({ name: 'Azure SQL', synonyms: ['azure sql database'] }, admin)
+    await createQuestionWithTags('q1', ['sqldb', 'Azure SQL', 'backup'])
+    await createQuestionWithTags('q2', ['SQL Database'])
+
+    expect((await mergeTags(source.tag!.id, source.tag!.id, admin)).error).toBe('Cannot merge a tag into itself')
+
+    const result = await mergeTags(source.tag!.id, target.tag!.id, admin)
+
+    expect(result.success).toBe(true)
+    expect(result.tag?.synonyms).toEqual(['azure sql database', 'SQL Database', 'sqldb'])
+    expect(result.updatedQuestions).toBe(2)
+    expect(await testDataStore.getItem<Tag>('tags', source.tag!.id)).toBeNull()
+    expect(await getQuestionTags('q1')).toEqual(['Azure SQL', 'backup'])
+    expect(await getQuestionTags('q2')).toEqual(['Azure SQL'])
+  })
+
+  it('should keep edits made to a question while the tags are merged', async () => {
+    const source = await createTag({ name: 'SQL Database' }, admin)
+    const target = await createTag({ name: 'Azure SQL' }, admin)
+    await createQuestionWithTags('q1', ['SQL Database'])
+
+    const modifySpy = jest.spyOn(mockCosmosService, 'modifyItem').mockImplementationOnce(async (containerId, id, partitionKey, modify) => {
+      // 統合中に質問が編集された場合
+      const question = await testDataStore.getItem<Question>('questions', 'q1')
+      await testDataStore.updateItem('questions', 'q1', { ...question!, title: 'Edited title' })
+      return testDataStore.modifyItem(containerId, id, partitionKey, modify)
+    })
+
+    const result = await mergeTags(source.tag!.id, target.tag!.id, admin)
+    modifySpy.mockRestore()
+
+    expect(result.updatedQuestions).toBe(1)
+    const question = await testDataStore.getItem<Question>('questions', 'q1')
+    expect(question!.title).toBe('Edited title')
+    expect(question!.tags).toEqual(['Azure SQL'])
+  })
+
+  it('should keep the source tag when rewriting the questions fails', async () => {
+    const source = await createTag({ name: 'SQL Database' }, admin)
+    const target = await createTag({ name: 'Azure SQL' }, admin)
+    await createQuestionWithTags('q1', ['SQL Database'])
+
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    const modifySpy = jest.spyOn(mockCosmosService, 'modifyItem').mockRejectedValueOnce(new Error('Service unavailable'))
+
+    const result = await mergeTags(source.tag!.id, target.tag!.id, admin)
+    modifySpy.mockRestore()
+    consoleSpy.mockRestore()
+
+    expect(result.success).toBe(false)
+    expect(await testDataStore.getItem<Tag>('tags', source.tag!.id)).not.toBeNull()
+    expect((await testDataStore.getItem<Tag>('tags', target.tag!.id))!.synonyms).toEqual(['SQL Database'])
+  })
+
+  it('should delete a tag from the catalog without touching questions', async () => {
+    const created = await createTag({ name: 'Bicep' }, admin)
+    await createQuestionWithTags('q1', ['Bicep'])
+
+    expect((await deleteTag(created.tag!.id)).success).toBe(true)
+    expect(await getQuestionTags('q1')).toEqual(['Bicep'])
+    expect(await getTagUsage()).toEqual([{ name: 'Bicep', count: 1 }])
+    expect((await deleteTag(created.tag!.id)).error).toBe('Tag not found')
+  })
+})
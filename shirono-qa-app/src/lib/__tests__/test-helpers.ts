@@ -37,6 +37,11 @@ export class InMemoryDataStore {
     
     // 各フィルタ条件をチェック
     
+    // id の完全一致検索
+    if (query.includes('c.id = @id') && paramMap['@id']) {
+      filteredItems = filteredItems.filter(item => item.id === paramMap['@id'])
+    }
+    
     // username の完全一致検索
     if (query.includes('c.username = @username') && paramMap['@username']) {
       filteredItems = filteredItems.filter(item => item.username === paramMap['@username'])
@@ -52,6 +57,11 @@ export class InMemoryDataStore {
       filteredItems = filteredItems.filter(item => item.groupId === paramMap['@groupId'])
     }
     
+    // userId によるフィルタリング
+    if (query.includes('c.userId = @userId') && paramMap['@userId']) {
+      filteredItems = filteredItems.filter(item => item.userId === paramMap['@userId'])
+    }
+    
     // isAdmin によるフィルタリング
     if (query.includes('c.isAdmin = @isAdmin') && paramMap['@isAdmin'] !== undefined) {
       filteredItems = filteredItems.filter(item => item.isAdmin === paramMap['@isAdmin'])
@@ -87,8 +97,57 @@ export class InMemoryDataStore {
       )
     }
     
+    // 質問IDによる絞り込み
+    if (query.includes('c.questionId = @questionId') && paramMap['@questionId']) {
+      filteredItems = filteredItems.filter(item => item.questionId === paramMap['@questionId'])
+    }
+    
+    // 質問IDリストによる絞り込み（ARRAY_CONTAINS）
+    if (query.includes('ARRAY_CONTAINS(@questionIds, c.questionId)') && paramMap['@questionIds']) {
+      filteredItems = filteredItems.filter(item => paramMap['@questionIds'].includes(item.questionId))
+    }
+    
+    // リビジョンの対象による絞り込み
+    if (query.includes('c.targetType = @targetType') && paramMap['@targetType']) {
+      filteredItems = filteredItems.filter(item => item.targetType === paramMap['@targetType'])
+    }
+    if (query.includes('c.targetId = @targetId') && paramMap['@targetId']) {
+      filteredItems = filteredItems.filter(item => item.targetId === paramMap['@targetId'])
+    }
+    
+    // ステータスリストによる絞り込み（ARRAY_CONTAINS）
+    if (query.includes('ARRAY_CONTAINS(@statuses, c.status)') && paramMap['@statuses']) {
+      filteredItems = filteredItems.filter(item => paramMap['@statuses'].includes(item.status))
+    }
+    
+    // 添付ファイルIDによる絞り込み（ARRAY_CONTAINS の部分一致）
+    if (query.includes('ARRAY_CONTAINS(c.attachments, { "id": @attachmentId }, true)') && paramMap['@attachmentId']) {
+      filteredItems = filteredItems.filter(item =>
+        (item.attachments || []).some((attachment: { id?: string }) => attachment.id === paramMap['@attachmentId'])
+      )
+    }
+    
+    // 担当者によるフィルタリング
+    if (query.includes('c.assigneeId = @assigneeId') && paramMap['@assigneeId']) {
+      filteredItems = filteredItems.filter(item => item.assigneeId === paramMap['@assigneeId'])
+    }
+    
+    // 割り当て済みの質問（IS_DEFINED）
+    if (query.includes('IS_DEFINED(c.assignedAt)')) {
+      filteredItems = filteredItems.filter(item => item.assignedAt !== undefined)
+    }
+    
+    // 期限が設定された質問（IS_DEFINED）
+    if (query.includes('IS_DEFINED(c.slaDueAt)')) {
+      filteredItems = filteredItems.filter(item => item.slaDueAt !== undefined)
+    }
+    
     // ソート処理（ORDER BY）
-    if (query.includes('ORDER BY c.createdAt DESC')) {
+    if (query.includes('ORDER BY c.slaDueAt ASC')) {
+      filteredItems.sort((a, b) => new Date(a.slaDueAt).getTime() - new Date(b.slaDueAt).getTime())
+    } else if (query.includes('ORDER BY c.assignedAt DESC')) {
+      filteredItems.sort((a, b) => new Date(b.assignedAt).getTime() - new Date(a.assignedAt).getTime())
+    } else if (query.includes('ORDER BY c.createdAt DESC')) {
       filteredItems.sort((a, b) => {
         const dateA = new Date(a.createdAt).getTime()
         const dateB = new Date(b.createdAt).getTime()
@@ -105,12 +164,55 @@ export class InMemoryDataStore {
     return filteredItems
   }
   
+  async vectorQuery<T>(
+    containerId: string,
+    vectorField: string,
+    searchQuery: { vector: number[]; threshold?: number; limit?: number; excludeIds?: string[]; groupId?: string },
+    _fields?: string[]
+  ): Promise<{ item: T; similarity: number }[]> {
+    const container = this.getContainer(containerId)
+    
+    // コサイン類似度を計算
+    const cosine = (a: number[], b: number[]) => {
+      let dot = 0, normA = 0, normB = 0
+      for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i]
+        normA += a[i] * a[i]
+        normB += b[i] * b[i]
+      }
+      return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0
+    }
+    
+    return Array.from(container.values())
+      .filter(item => Array.isArray(item[vectorField]))
+      .filter(item => !searchQuery.excludeIds?.includes(item.id))
+      .filter(item => !searchQuery.groupId || item.groupId === searchQuery.groupId)
+      .map(item => ({ item, similarity: cosine(item[vectorField], searchQuery.vector) }))
+      .filter(result => result.similarity >= (searchQuery.threshold ?? 0.7))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, searchQuery.limit ?? 5)
+  }
+  
   async updateItem<T>(containerId: string, id: string, item: T): Promise<T> {
     const container = this.getContainer(containerId)
     container.set(id, item)
     return item
   }
 
+  async modifyItem<T>(containerId: string, id: string, _partitionKey: string, modify: (item: T) => T | null): Promise<T | null> {
+    const container = this.getContainer(containerId)
+    const item = container.get(id)
+    if (!item) {
+      return null
+    }
+    const modified = modify(item)
+    if (modified === null) {
+      return item
+    }
+    container.set(id, modified)
+    return modified
+  }
+
   async replaceItem<T>(containerId: string, id: string, item: T): Promise<T> {
     const container = this.getContainer(containerId)
     container.set(id, item)
@@ -129,8 +231,7 @@ export class InMemoryDataStore {
     page: number = 1, 
     limit: number = 10
   ): Promise<{ items: T[], totalCount: number }> {
-    const container = this.getContainer(containerId)
-    const allItems = Array.from(container.values()) as T[]
+    const allItems = await this.queryItems<T>(containerId, query, parameters)
     
     // 簡単なページネーション
     const startIndex = (page - 1) * limit
@@ -155,7 +256,9 @@ export const mockCosmosService = {
   queryItemsWithPagination: testDataStore.queryItemsWithPagination.bind(testDataStore),
   updateItem: testDataStore.updateItem.bind(testDataStore),
   replaceItem: testDataStore.replaceItem.bind(testDataStore),
+  modifyItem: testDataStore.modifyItem.bind(testDataStore),
   deleteItem: testDataStore.deleteItem.bind(testDataStore),
+  vectorQuery: testDataStore.vectorQuery.bind(testDataStore),
   initializeDatabase: jest.fn().mockResolvedValue(undefined),
   testConnection: jest.fn().mockResolvedValue(true),
   dispose: jest.fn()
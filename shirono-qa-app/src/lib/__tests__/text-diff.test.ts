@@ -0,0 +1,40 @@
+import { diffLines } from '../text-diff'
+
+describe('text-diff', () => {
+  describe('diffLines', () => {
+    it('should mark all lines equal when the text is unchanged', () => {
+      const rows = diffLines('a\nb', 'a\nb')
+
+      expect(rows.map(row => row.type)).toEqual(['equal', 'equal'])
+      expect(rows[1]).toEqual({
+        type: 'equal',
+        left: { lineNumber: 2, text: 'b' },
+        right: { lineNumber: 2, text: 'b' }
+      })
+    })
+
+    it('should pair a replaced line as a change', () => {
+      const rows = diffLines('a\nb\nc', 'a\nB\nc')
+
+      expect(rows.map(row => row.type)).toEqual(['equal', 'changed', 'equal'])
+      expect(rows[1].left).toEqual({ lineNumber: 2, text: 'b' })
+      expect(rows[1].right).toEqual({ lineNumber: 2, text: 'B' })
+    })
+
+    it('should keep line numbers of each side for added and removed lines', () => {
+      const rows = diffLines('a\nb\nc', 'a\nc\nd')
+
+      expect(rows.map(row => row.type)).toEqual(['equal', 'removed', 'equal', 'added'])
+      expect(rows[1]).toEqual({ type: 'removed', left: { lineNumber: 2, text: 'b' } })
+      expect(rows[2].left?.lineNumber).toBe(3)
+      expect(rows[2].right?.lineNumber).toBe(2)
+      expect(rows[3]).toEqual({ type: 'added', right: { lineNumber: 3, text: 'd' } })
+    })
+
+    it('should show extra lines of a larger replacement as additions', () => {
+      const rows = diffLines('x', 'y\nz')
+
+      expect(rows.map(row => row.type)).toEqual(['changed', 'added'])
+    })
+  })
+})
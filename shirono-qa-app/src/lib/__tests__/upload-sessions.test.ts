@@ -0,0 +1,349 @@
+import { createUploadSession, getUploadSessionPlan, commitUploadSession, scanCommittedUpload, createBlockIds, UPLOAD_BLOCK_SIZE } from '../upload-sessions'
+import { isAttachmentId } from '../attachment-id'
+import { testDataStore, mockCosmosService } from './test-helpers'
+import { User } from '@/types/auth'
+import { UploadSession, UploadSessionStatus } from '@/types/upload'
+import { AttachmentScanStatus, Question } from '@/types/question'
+
+// モック設定
+jest.mock('../cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+jest.mock('../openai', () => ({
+  embedText: jest.fn()
+}))
+
+const mockBlobService = {
+  generateBlobPath: jest.fn((type: string, questionId: string, itemId?: string) =>
+    type === 'question' ? `questions/${questionId}/question` : `questions/${questionId}/${type}s/${itemId}`
+  ),
+  generateUniqueFileNameInPath: jest.fn(async (_filePath: string, fileName: string) => fileName),
+  generateUploadUrl: jest.fn(async (blobPath: string) => `https://storage.example/qa-attachments/${blobPath}?sig=write`),
+  getUncommittedBlockIds: jest.fn(async (): Promise<string[]> => []),
+  commitBlocks: jest.fn(),
+  moveFile: jest.fn(async (_source: string, dest: string) => ({ fileName: dest, blobUrl: `https://storage.example/qa-attachments/${dest}` })),
+  getFileInfo: jest.fn(async () => ({ exists: true, size: 100 })),
+  deleteFile: jest.fn(),
+  extractFileNameFromUrl: jest.fn((url: string) => url.replace('https://storage.example/qa-attachments/', '')),
+  downloadFileStream: jest.fn(async () => streamOf(ZIP_HEADER))
+}
+
+const mockScan = jest.fn(async () => ({ clean: true }))
+
+jest.mock('../malware-scanner', () => ({
+  getMalwareScanner: () => ({ name: 'test', scan: mockScan })
+}))
+
+const ZIP_HEADER = [0x50, 0x4b, 0x03, 0x04, 0x14, 0x00]
+
+function streamOf(bytes: number[]): ReadableStream<Uint8Array> {
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(new Uint8Array(bytes))
+      controller.close()
+    }
+  })
+}
+
+jest.mock('../blob-storage', () => ({
+  getBlobStorageService: () => mockBlobService
+}))
+
+const author: User = {
+  id: 'user-1',
+  username: 'author',
+  email: 'author@example.com',
+  groupId: 'group-1',
+  isAdmin: false,
+  createdAt: new Date(),
+  lastLoginAt: null
+}
+
+const otherUser: User = { ...author, id: 'user-2', username: 'other' }
+
+describe('upload-sessions', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    testDataStore.clear()
+
+    await testDataStore.createItem('questions', {
+      id: 'question-1',
+      title: 'Question',
+      content: 'Content',
+      authorId: 'user-1',
+      groupId: 'group-1',
+      status: 'unanswered',
+      priority: 'medium',
+      tags: [],
+      attachments: [],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    })
+    await testDataStore.createItem('comments', {
+      id: 'comment-1',
+      questionId: 'question-1',
+      content: 'Comment',
+      authorId: 'user-2',
+      attachments: [],
+      createdAt: new Date()
+    })
+  })
+
+  describe('createBlockIds', () => {
+    it('should create fixed-length block ids covering the file', () => {
+      const blockIds = createBlockIds(UPLOAD_BLOCK_SIZE * 2 + 1)
+
+      expect(blockIds).toHaveLength(3)
+      expect(new Set(blockIds.map(id => id.length)).size).toBe(1)
+      expect(createBlockIds(1)).toHaveLength(1)
+    })
+  })
+
+  describe('createUploadSession', () => {
+    it('should create a session with a write URL and block plan', async () => {
+      const result = await createUploadSession(author, {
+        fileName: 'logs.zip',
+        fileSize: 100,
+        contentType: 'application/zip',
+        target: { type: 'question', questionId: 'question-1' }
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.plan!.blockIds).toHaveLength(1)
+      expect(result.plan!.uploadedBlockIds).toEqual([])
+
+      const session = await testDataStore.getItem<UploadSession>('uploadSessions', result.plan!.sessionId)
+      expect(session!.status).toBe(UploadSessionStatus.PENDING)
+      expect(session!.blobPath).toBe('questions/question-1/question/logs.zip')
+
+      // 書き込み用URLは保存先ではなく一時パスに発行する
+      expect(session!.stagingPath).toBe(`questions/question-1/uploads/${session!.id}`)
+      expect(result.plan!.uploadUrl).toContain(session!.stagingPath)
+      expect(result.plan!.uploadUrl).not.toContain(session!.blobPath)
+    })
+
+    it('should reject files larger than 1GB', async () => {
+      const result = await createUploadSession(author, {
+        fileName: 'vm.vhd',
+        fileSize: 1024 * 1024 * 1024 + 1,
+        target: { type: 'question', questionId: 'question-1' }
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error!.code).toBe('FILE_TOO_LARGE')
+    })
+
+    it('should reject uploads to questions the user did not author', async () => {
+      const result = await createUploadSession(otherUser, {
+        fileName: 'logs.zip',
+        fileSize: 100,
+        target: { type: 'question', questionId: 'question-1' }
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error!.code).toBe('FORBIDDEN')
+    })
+
+    it('should allow the comment author to upload to the comment', async () => {
+      const result = await createUploadSession(otherUser, {
+        fileName: 'screenshot.png',
+        fileSize: 100,
+        target: { type: 'comment', questionId: 'question-1', itemId: 'comment-1' }
+      })
+
+      expect(result.success).toBe(true)
+      const session = await testDataStore.getItem<UploadSession>('uploadSessions', result.plan!.sessionId)
+      expect(session!.blobPath).toBe('questions/question-1/comments/comment-1/screenshot.png')
+    })
+  })
+
+  describe('getUploadSessionPlan', () => {
+    it('should report uploaded blocks for resuming', async () => {
+      const created = await createUploadSession(author, {
+        fileName: 'logs.zip',
+        fileSize: UPLOAD_BLOCK_SIZE + 1,
+        target: { type: 'question', questionId: 'question-1' }
+      })
+      const [firstBlockId] = created.plan!.blockIds
+      mockBlobService.getUncommittedBlockIds.mockResolvedValueOnce([firstBlockId, 'unknown-block'])
+
+      const result = await getUploadSessionPlan(author, created.plan!.sessionId)
+
+      expect(result.success).toBe(true)
+      expect(result.plan!.uploadedBlockIds).toEqual([firstBlockId])
+    })
+
+    it('should not expose sessions of other users', async () => {
+      const created = await createUploadSession(author, {
+        fileName: 'logs.zip',
+        fileSize: 100,
+        target: { type: 'question', questionId: 'question-1' }
+      })
+
+      const result = await getUploadSessionPlan(otherUser, created.plan!.sessionId)
+
+      expect(result.success).toBe(false)
+      expect(result.error!.code).toBe('NOT_FOUND')
+    })
+  })
+
+  describe('commitUploadSession', () => {
+    it('should reject incomplete uploads', async () => {
+      const created = await createUploadSession(author, {
+        fileName: 'logs.zip',
+        fileSize: 100,
+        target: { type: 'question', questionId: 'question-1' }
+      })
+
+      const result = await commitUploadSession(author, created.plan!.sessionId)
+
+      expect(result.success).toBe(false)
+      expect(result.error!.code).toBe('VALIDATION_ERROR')
+      expect(mockBlobService.commitBlocks).not.toHaveBeenCalled()
+    })
+
+    it('should commit blocks and attach the file to the question', async () => {
+      const created = await createUploadSession(author, {
+        fileName: 'logs.zip',
+        fileSize: 100,
+        contentType: 'application/zip',
+        target: { type: 'question', questionId: 'question-1' }
+      })
+      mockBlobService.getUncommittedBlockIds.mockResolvedValueOnce(created.plan!.blockIds)
+      const stagingPath = `questions/question-1/uploads/${created.plan!.sessionId}`
+
+      const result = await commitUploadSession(author, created.plan!.sessionId)
+
+      expect(result.success).toBe(true)
+      // 一時パスでブロックを確定し、保存先へコピーしたファイルを検証する
+      expect(mockBlobService.commitBlocks).toHaveBeenCalledWith(stagingPath, created.plan!.blockIds, 'application/zip', expect.any(Object))
+      expect(mockBlobService.moveFile).toHaveBeenCalledWith(stagingPath, 'questions/question-1/question/logs.zip')
+      expect(mockBlobService.downloadFileStream).toHaveBeenCalledWith('questions/question-1/question/logs.zip', expect.any(Object))
+      // スキャンはコミット後に行うため、この時点ではスキャン待ち
+      expect(result.attachment).toEqual({
+        id: expect.any(String),
+        fileName: 'logs.zip',
+        fileSize: 100,
+        blobUrl: 'https://storage.example/qa-attachments/questions/question-1/question/logs.zip',
+        contentType: 'application/zip',
+        scanStatus: AttachmentScanStatus.PENDING
+      })
+      expect(isAttachmentId(result.attachment!.id!)).toBe(true)
+      expect(mockScan).not.toHaveBeenCalled()
+      expect(result.question!.attachments).toHaveLength(1)
+
+      const session = await testDataStore.getItem<UploadSession>('uploadSessions', created.plan!.sessionId)
+      expect(session!.status).toBe(UploadSessionStatus.COMMITTED)
+
+      // コミット済みのセッションは再利用できない
+      const again = await commitUploadSession(author, created.plan!.sessionId)
+      expect(again.success).toBe(false)
+    })
+
+    it('should discard files whose content does not match the extension', async () => {
+      const created = await createUploadSession(author, {
+        fileName: 'logs.zip',
+        fileSize: 100,
+        target: { type: 'question', questionId: 'question-1' }
+      })
+      mockBlobService.getUncommittedBlockIds.mockResolvedValueOnce(created.plan!.blockIds)
+      mockBlobService.downloadFileStream.mockResolvedValueOnce(streamOf([0x4d, 0x5a, 0x90, 0x00]))
+
+      const result = await commitUploadSession(author, created.plan!.sessionId)
+
+      expect(result.success).toBe(false)
+      expect(result.error!.code).toBe('INVALID_FILE_TYPE')
+      expect(mockBlobService.deleteFile).toHaveBeenCalledWith('questions/question-1/question/logs.zip')
+    })
+
+    it('should keep attachments committed by other uploads', async () => {
+      const first = await createUploadSession(author, {
+        fileName: 'first.zip',
+        fileSize: 100,
+        target: { type: 'question', questionId: 'question-1' }
+      })
+      const second = await createUploadSession(author, {
+        fileName: 'second.zip',
+        fileSize: 100,
+        target: { type: 'question', questionId: 'question-1' }
+      })
+      mockBlobService.getUncommittedBlockIds.mockResolvedValue(first.plan!.blockIds)
+
+      await commitUploadSession(author, first.plan!.sessionId)
+      const result = await commitUploadSession(author, second.plan!.sessionId)
+
+      expect(result.question!.attachments.map(attachment => attachment.fileName)).toEqual(['first.zip', 'second.zip'])
+    })
+
+    it('should reject the upload once the question has the maximum number of attachments', async () => {
+      const attachment = (fileName: string, inline?: boolean) => ({
+        fileName,
+        fileSize: 100,
+        blobUrl: `https://storage.example/qa-attachments/questions/question-1/question/${fileName}`,
+        contentType: 'application/zip',
+        ...(inline && { inline })
+      })
+      const question = await testDataStore.getItem<Question>('questions', 'question-1')
+      // 本文に貼り付けた画像は上限に数えない
+      await testDataStore.updateItem('questions', 'question-1', {
+        ...question!,
+        attachments: [1, 2, 3, 4].map(i => attachment(`file-${i}.zip`)).concat(attachment('pasted.png', true))
+      })
+
+      const created = await createUploadSession(author, {
+        fileName: 'logs.zip',
+        fileSize: 100,
+        target: { type: 'question', questionId: 'question-1' }
+      })
+      expect(created.success).toBe(true)
+
+      // セッション作成後に他のアップロードで上限に達した場合
+      const filled = await testDataStore.getItem<Question>('questions', 'question-1')
+      await testDataStore.updateItem('questions', 'question-1', {
+        ...filled!,
+        attachments: [...filled!.attachments, attachment('file-5.zip')]
+      })
+      mockBlobService.getUncommittedBlockIds.mockResolvedValueOnce(created.plan!.blockIds)
+
+      const result = await commitUploadSession(author, created.plan!.sessionId)
+
+      expect(result.success).toBe(false)
+      expect(result.error).toEqual({ code: 'VALIDATION_ERROR', message: 'Maximum 5 attachments allowed' })
+      expect(mockBlobService.deleteFile).toHaveBeenCalledWith('questions/question-1/question/logs.zip')
+      const saved = await testDataStore.getItem<Question>('questions', 'question-1')
+      expect(saved!.attachments).toHaveLength(6)
+
+      const rejected = await createUploadSession(author, {
+        fileName: 'more.zip',
+        fileSize: 100,
+        target: { type: 'question', questionId: 'question-1' }
+      })
+      expect(rejected.success).toBe(false)
+      expect(rejected.error!.message).toBe('Maximum 5 attachments allowed')
+    })
+
+    it('should record the scan result without overwriting later edits', async () => {
+      const created = await createUploadSession(author, {
+        fileName: 'logs.zip',
+        fileSize: 100,
+        target: { type: 'question', questionId: 'question-1' }
+      })
+      mockBlobService.getUncommittedBlockIds.mockResolvedValueOnce(created.plan!.blockIds)
+      mockScan.mockResolvedValueOnce({ clean: false, signature: 'Eicar-Signature' } as never)
+      const result = await commitUploadSession(author, created.plan!.sessionId)
+
+      // スキャン中に質問が編集された場合
+      const edited = await testDataStore.getItem<Question>('questions', 'question-1')
+      await testDataStore.updateItem('questions', 'question-1', { ...edited!, title: 'Edited title' })
+
+      await scanCommittedUpload(result)
+
+      const question = await testDataStore.getItem<Question>('questions', 'question-1')
+      expect(question!.title).toBe('Edited title')
+      expect(question!.attachments[0].scanStatus).toBe(AttachmentScanStatus.QUARANTINED)
+      expect(question!.attachments[0].scanDetail).toBe('Eicar-Signature')
+    })
+  })
+})
@@ -0,0 +1,65 @@
+import { getWatcherRecipients } from '../watchers'
+import { addWatcherIds, getWatcherIds } from '../watcher-ids'
+import { Question, QuestionStatus, QuestionPriority } from '../../types/question'
+import { testDataStore, mockCosmosService } from './test-helpers'
+
+// CosmosServiceをモック
+jest.mock('../cosmos', () => ({
+  getCosmosService: () => mockCosmosService,
+  QUESTION_VECTOR_FIELD: 'contentVector'
+}))
+
+const question: Question = {
+  id: 'question-1',
+  title: 'Question',
+  content: 'Content',
+  authorId: 'author-1',
+  groupId: 'group-1',
+  status: QuestionStatus.UNANSWERED,
+  priority: QuestionPriority.MEDIUM,
+  tags: [],
+  attachments: [],
+  createdAt: new Date('2024-01-15T10:00:00Z'),
+  updatedAt: new Date('2024-01-15T10:00:00Z')
+}
+
+const createUser = (id: string, groupId: string, isAdmin = false) => testDataStore.createItem('users', {
+  id,
+  username: id,
+  email: `${id}@example.com`,
+  groupId,
+  isAdmin,
+  createdAt: new Date(),
+  lastLoginAt: null
+})
+
+describe('Watchers', () => {
+  beforeEach(() => {
+    testDataStore.clear()
+  })
+
+  describe('getWatcherIds / addWatcherIds', () => {
+    it('should treat questions without watchers as watched by the author only', () => {
+      expect(getWatcherIds(question)).toEqual(['author-1'])
+      expect(addWatcherIds(question, ['user-2', 'author-1', 'user-2'])).toEqual(['author-1', 'user-2'])
+      expect(addWatcherIds({ ...question, watcherIds: ['user-2'] }, ['user-3'])).toEqual(['user-2', 'user-3'])
+    })
+  })
+
+  describe('getWatcherRecipients', () => {
+    it('should return watchers who can access the question, excluding the actor', async () => {
+      await createUser('author-1', 'group-1')
+      await createUser('member-1', 'group-1')
+      await createUser('admin-1', 'group-admin', true)
+      // 質問が別グループへ移動した後などで閲覧できなくなったユーザー
+      await createUser('former-member', 'group-2')
+
+      const recipients = await getWatcherRecipients({
+        ...question,
+        watcherIds: ['author-1', 'member-1', 'admin-1', 'former-member', 'deleted-user']
+      }, 'member-1')
+
+      expect(recipients.map(user => user.id)).toEqual(['author-1', 'admin-1'])
+    })
+  })
+})
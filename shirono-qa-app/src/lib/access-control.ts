@@ -10,7 +10,7 @@ export interface GroupPermission {
 /**
  * 質問にアクセスできるかチェック
  */
-export function canAccessQuestion(user: User, question: Question): boolean {
+export function canAccessQuestion(user: User, question: Pick<Question, 'authorId' | 'groupId'>): boolean {
   if (!user || !question) {
     return false
   }
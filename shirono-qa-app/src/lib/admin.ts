@@ -1,7 +1,9 @@
 import crypto from 'crypto'
 import { getCosmosService } from './cosmos'
 import { hashPassword, validatePassword } from './auth'
+import { validateSlaPolicy } from './sla'
 import { User, Group } from '@/types/auth'
+import { SlaPolicy } from '@/types/question'
 
 export interface UserCreateData {
   username: string
@@ -26,6 +28,8 @@ export interface GroupCreateData {
 export interface GroupUpdateData {
   name?: string
   description?: string
+  defaultAssigneeId?: string | null   // null で既定の担当者を解除
+  slaPolicy?: Partial<SlaPolicy>
 }
 
 export interface ValidationResult {
@@ -458,10 +462,33 @@ export async function updateGroup(groupId: string, updateData: GroupUpdateData):
       }
     }
 
+    if (updateData.slaPolicy !== undefined) {
+      const slaValidation = validateSlaPolicy(updateData.slaPolicy)
+      if (!slaValidation.valid) {
+        return {
+          success: false,
+          error: slaValidation.errors.join(', ')
+        }
+      }
+    }
+
+    // 既定の担当者は管理者のみ
+    if (updateData.defaultAssigneeId) {
+      const assignee = await cosmosService.getItem<User>('users', updateData.defaultAssigneeId)
+      if (!assignee?.isAdmin) {
+        return {
+          success: false,
+          error: 'Default assignee must be an admin user'
+        }
+      }
+    }
+
     // グループ更新
+    const { defaultAssigneeId, ...rest } = updateData
     const updatedGroup: Group = {
       ...existingGroup,
-      ...updateData
+      ...rest,
+      ...(defaultAssigneeId !== undefined && { defaultAssigneeId: defaultAssigneeId ?? undefined })
     }
 
     const result = await cosmosService.updateItem<Group>('groups', groupId, updatedGroup)
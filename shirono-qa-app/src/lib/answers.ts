@@ -5,6 +5,7 @@ import {
   CreateAnswerResult,
   UpdateAnswerRequest,
   UpdateAnswerResult,
+  UpdateCommentResult,
   CreateCommentRequest,
   CreateCommentResult,
   GetAnswersResult,
@@ -20,6 +21,23 @@ import {
 } from './validation'
 import { getCosmosService } from './cosmos'
 import { isAppError } from './errors'
+import { deleteRevisions, getRevision, hasContentChanged, recordRevision } from './revisions'
+import { renderMarkdown } from './markdown'
+import { resolveMentions } from './mentions'
+import { claimInlineImages, getInlineImageUrls } from './inline-images'
+import { getBlobStorageService } from './blob-storage'
+import { User } from '../types/auth'
+
+/**
+ * 本文の Markdown を変換し、メンションしたユーザー（質問を閲覧できるユーザーのみ）を解析
+ */
+async function renderPostContent(content: string, questionId: string): Promise<{ contentHtml: string; mentions: string[] }> {
+  const mentioned = await resolveMentions(content, questionId)
+  return {
+    contentHtml: renderMarkdown(content, mentioned.map(user => user.username)),
+    mentions: mentioned.map(user => user.id)
+  }
+}
 
 export function validateAnswerData(data: CreateAnswerRequest) {
   const contentValidation = createValidator<string>()
@@ -71,6 +89,25 @@ export function validateCommentData(data: CreateCommentRequest) {
   return { valid: true, errors: [] }
 }
 
+/**
+ * 投稿に貼り付けた画像の Blob を削除（非同期で実行）
+ */
+async function deleteInlineImages(attachments: Answer['attachments']): Promise<void> {
+  const blobUrls = getInlineImageUrls(attachments)
+  if (blobUrls.length === 0) {
+    return
+  }
+
+  try {
+    const result = await getBlobStorageService().deleteFilesByUrls(blobUrls)
+    if (result.failed.length > 0) {
+      console.warn('Failed to delete some inline images:', result.failed)
+    }
+  } catch (error) {
+    console.error('Error deleting inline images:', error)
+  }
+}
+
 export async function createAnswer(
   data: CreateAnswerRequest,
   questionId: string,
@@ -102,13 +139,19 @@ export async function createAnswer(
 
     const cosmosService = getCosmosService()
 
+    const answerId = `answer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+    // 本文に貼り付けた画像を回答の添付ファイルとして確定
+    const inline = await claimInlineImages(authorId, { type: 'answer', questionId, itemId: answerId }, data.content.trim())
+
     // Create new answer
     const answer: Answer = {
-      id: `answer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: answerId,
       questionId,
-      content: data.content.trim(),
+      content: inline.content,
+      ...await renderPostContent(inline.content, questionId),
       authorId,
-      attachments: [], // ファイルアップロードは別途専用APIで処理
+      attachments: inline.attachments, // ファイルアップロードは別途専用APIで処理
       createdAt: new Date(),
       updatedAt: new Date()
     }
@@ -162,9 +205,13 @@ export async function getAnswerById(answerId: string): Promise<{ success: boolea
   }
 }
 
+/**
+ * 回答を更新（本文の編集はリビジョンとして記録）
+ */
 export async function updateAnswer(
   answerId: string,
-  data: UpdateAnswerRequest
+  data: UpdateAnswerRequest,
+  editedBy?: User
 ): Promise<UpdateAnswerResult> {
   try {
     const cosmosService = getCosmosService()
@@ -186,11 +233,39 @@ export async function updateAnswer(
     // Update answer
     const updatedAnswer: Answer = {
       ...existingAnswer,
-      content: data.content || existingAnswer.content,
+      content: data.content?.trim() || existingAnswer.content,
       ...(data.attachments !== undefined && { attachments: data.attachments }),
       updatedAt: new Date()
     }
 
+    // 本文に新しく貼り付けた画像を添付ファイルとして確定
+    if (editedBy && updatedAnswer.content !== existingAnswer.content) {
+      const inline = await claimInlineImages(
+        editedBy.id,
+        { type: 'answer', questionId: existingAnswer.questionId, itemId: answerId },
+        updatedAnswer.content,
+        updatedAnswer.attachments
+      )
+      updatedAnswer.content = inline.content
+      updatedAnswer.attachments = inline.attachments
+    }
+
+    // 本文が変わった場合（または未変換の古い回答）は Markdown とメンションを解析し直す
+    if (updatedAnswer.content !== existingAnswer.content || existingAnswer.contentHtml === undefined) {
+      Object.assign(updatedAnswer, await renderPostContent(updatedAnswer.content, existingAnswer.questionId))
+    }
+
+    if (hasContentChanged(existingAnswer, updatedAnswer)) {
+      await recordRevision(
+        { targetType: 'answer', targetId: answerId, questionId: existingAnswer.questionId },
+        existingAnswer,
+        updatedAnswer,
+        editedBy,
+        data.rollbackOf
+      )
+      updatedAnswer.editedAt = updatedAnswer.updatedAt
+    }
+
     const result = await cosmosService.updateItem('answers', answerId, updatedAnswer, existingAnswer.questionId)
 
     return {
@@ -212,6 +287,21 @@ export async function updateAnswer(
   }
 }
 
+/**
+ * 回答の本文を指定したリビジョンの内容に戻す
+ */
+export async function rollbackAnswer(answerId: string, revisionId: string, editedBy: User): Promise<UpdateAnswerResult> {
+  const revision = await getRevision('answer', answerId, revisionId)
+  if (!revision) {
+    return {
+      success: false,
+      error: 'Revision not found'
+    }
+  }
+
+  return updateAnswer(answerId, { content: revision.content, rollbackOf: revision.id }, editedBy)
+}
+
 export async function deleteAnswer(answerId: string): Promise<DeleteAnswerResult> {
   try {
     const cosmosService = getCosmosService()
@@ -233,6 +323,12 @@ export async function deleteAnswer(answerId: string): Promise<DeleteAnswerResult
     // Delete answer from Cosmos DB
     await cosmosService.deleteItem('answers', answerId, existingAnswer.questionId)
 
+    // 削除した回答の編集履歴も残さない
+    await deleteRevisions({ targetType: 'answer', targetId: answerId, questionId: existingAnswer.questionId })
+
+    // 本文に貼り付けた画像を削除（失敗しても回答の削除は成功とする）
+    deleteInlineImages(existingAnswer.attachments)
+
     return {
       success: true
     }
@@ -312,14 +408,39 @@ export async function createComment(
 
     const cosmosService = getCosmosService()
 
+    // 返信は返信先と同じ質問・回答のスレッドに入れる
+    let answerId = data.answerId
+    if (data.parentCommentId) {
+      const parents = await cosmosService.queryItems<Comment>(
+        'comments',
+        'SELECT * FROM c WHERE c.id = @id',
+        [{ name: '@id', value: data.parentCommentId }]
+      )
+      const parent = parents[0]
+      if (!parent || parent.questionId !== questionId || parent.deletedAt) {
+        return {
+          success: false,
+          error: 'Parent comment not found'
+        }
+      }
+      answerId = parent.answerId
+    }
+
+    const commentId = `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+    // 本文に貼り付けた画像をコメントの添付ファイルとして確定
+    const inline = await claimInlineImages(authorId, { type: 'comment', questionId, itemId: commentId }, data.content.trim())
+
     // Create new comment
     const comment: Comment = {
-      id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: commentId,
       questionId,
-      answerId: data.answerId,
-      content: data.content.trim(),
+      answerId,
+      ...(data.parentCommentId && { parentCommentId: data.parentCommentId }),
+      content: inline.content,
+      ...await renderPostContent(inline.content, questionId),
       authorId,
-      attachments: [], // ファイルアップロードは別途専用APIで処理
+      attachments: inline.attachments, // ファイルアップロードは別途専用APIで処理
       createdAt: new Date()
     }
 
@@ -366,10 +487,14 @@ export async function getCommentById(commentId: string): Promise<{ success: bool
   }
 }
 
+/**
+ * コメントを更新（本文の編集はリビジョンとして記録）
+ */
 export async function updateComment(
   commentId: string,
-  data: { content?: string; attachments?: Comment['attachments'] }
-): Promise<{ success: boolean; comment?: Comment; error?: string }> {
+  data: { content?: string; attachments?: Comment['attachments']; rollbackOf?: string },
+  editedBy?: User
+): Promise<UpdateCommentResult> {
   try {
     const cosmosService = getCosmosService()
 
@@ -386,15 +511,49 @@ export async function updateComment(
     }
 
     const existingComment = existingComments[0]
+    if (existingComment.deletedAt) {
+      return {
+        success: false,
+        error: 'Comment has been deleted'
+      }
+    }
 
     // Update comment
     const updatedComment: Comment = {
       ...existingComment,
-      content: data.content || existingComment.content,
+      content: data.content?.trim() || existingComment.content,
       ...(data.attachments !== undefined && { attachments: data.attachments }),
       updatedAt: new Date()
     }
 
+    // 本文に新しく貼り付けた画像を添付ファイルとして確定
+    if (editedBy && updatedComment.content !== existingComment.content) {
+      const inline = await claimInlineImages(
+        editedBy.id,
+        { type: 'comment', questionId: existingComment.questionId, itemId: commentId },
+        updatedComment.content,
+        updatedComment.attachments
+      )
+      updatedComment.content = inline.content
+      updatedComment.attachments = inline.attachments
+    }
+
+    // 本文が変わった場合（または未変換の古いコメント）は Markdown とメンションを解析し直す
+    if (updatedComment.content !== existingComment.content || existingComment.contentHtml === undefined) {
+      Object.assign(updatedComment, await renderPostContent(updatedComment.content, existingComment.questionId))
+    }
+
+    if (hasContentChanged(existingComment, updatedComment)) {
+      await recordRevision(
+        { targetType: 'comment', targetId: commentId, questionId: existingComment.questionId },
+        existingComment,
+        updatedComment,
+        editedBy,
+        data.rollbackOf
+      )
+      updatedComment.editedAt = updatedComment.updatedAt
+    }
+
     const result = await cosmosService.updateItem('comments', commentId, updatedComment, existingComment.questionId)
 
     return {
@@ -416,6 +575,149 @@ export async function updateComment(
   }
 }
 
+/**
+ * コメントの本文を指定したリビジョンの内容に戻す
+ */
+export async function rollbackComment(commentId: string, revisionId: string, editedBy: User): Promise<UpdateCommentResult> {
+  const revision = await getRevision('comment', commentId, revisionId)
+  if (!revision) {
+    return {
+      success: false,
+      error: 'Revision not found'
+    }
+  }
+
+  return updateComment(commentId, { content: revision.content, rollbackOf: revision.id }, editedBy)
+}
+
+/**
+ * 「役に立った」を付けた・取り消した後の投稿（1ユーザー1票）
+ */
+function applyHelpfulVote<T extends Answer | Comment>(post: T, userId: string, helpful: boolean): T {
+  const voterIds = (post.helpfulVoterIds ?? []).filter(id => id !== userId)
+  if (helpful) {
+    voterIds.push(userId)
+  }
+  return { ...post, helpfulVoterIds: voterIds, helpfulCount: voterIds.length }
+}
+
+/**
+ * 回答に「役に立った」を付ける・取り消す
+ * 利用者の編集ではないため更新日時は変えない（同時の投票・編集と競合した場合は読み直して付け直す）
+ */
+export async function setAnswerHelpful(answerId: string, userId: string, helpful: boolean): Promise<UpdateAnswerResult> {
+  try {
+    const answerResult = await getAnswerById(answerId)
+    if (!answerResult.success || !answerResult.answer) {
+      return {
+        success: false,
+        error: 'Answer not found'
+      }
+    }
+
+    const updated = await getCosmosService().modifyItem<Answer>(
+      'answers',
+      answerId,
+      answerResult.answer.questionId,
+      answer => applyHelpfulVote(answer, userId, helpful)
+    )
+    if (!updated) {
+      return {
+        success: false,
+        error: 'Answer not found'
+      }
+    }
+
+    return {
+      success: true,
+      answer: updated
+    }
+  } catch (error) {
+    console.error('Error updating answer helpful vote:', error)
+    return {
+      success: false,
+      error: 'Failed to update helpful vote'
+    }
+  }
+}
+
+/**
+ * コメントに「役に立った」を付ける・取り消す（削除済みのコメントは不可）
+ * 利用者の編集ではないため更新日時は変えない（同時の投票・編集と競合した場合は読み直して付け直す）
+ */
+export async function setCommentHelpful(commentId: string, userId: string, helpful: boolean): Promise<UpdateCommentResult> {
+  try {
+    const commentResult = await getCommentById(commentId)
+    if (!commentResult.success || !commentResult.comment || commentResult.comment.deletedAt) {
+      return {
+        success: false,
+        error: 'Comment not found'
+      }
+    }
+
+    const updated = await getCosmosService().modifyItem<Comment>(
+      'comments',
+      commentId,
+      commentResult.comment.questionId,
+      comment => comment.deletedAt ? null : applyHelpfulVote(comment, userId, helpful)
+    )
+    if (!updated || updated.deletedAt) {
+      return {
+        success: false,
+        error: 'Comment not found'
+      }
+    }
+
+    return {
+      success: true,
+      comment: updated
+    }
+  } catch (error) {
+    console.error('Error updating comment helpful vote:', error)
+    return {
+      success: false,
+      error: 'Failed to update helpful vote'
+    }
+  }
+}
+
+/**
+ * コメントへの直接の返信
+ */
+async function findReplies(commentId: string): Promise<Comment[]> {
+  const replies = await getCosmosService().queryItems<Comment>(
+    'comments',
+    'SELECT * FROM c WHERE c.parentCommentId = @parentCommentId',
+    [{ name: '@parentCommentId', value: commentId }]
+  )
+  return replies.filter(reply => reply.parentCommentId === commentId)
+}
+
+/**
+ * 返信がなくなった削除済みコメントをスレッドの上に向かって取り除く
+ */
+async function removeDeletedAncestors(parentCommentId: string | undefined): Promise<void> {
+  const cosmosService = getCosmosService()
+  let currentId = parentCommentId
+  while (currentId) {
+    const parents = await cosmosService.queryItems<Comment>(
+      'comments',
+      'SELECT * FROM c WHERE c.id = @id',
+      [{ name: '@id', value: currentId }]
+    )
+    const parent = parents[0]
+    if (!parent || !parent.deletedAt || (await findReplies(parent.id)).length > 0) {
+      return
+    }
+
+    await cosmosService.deleteItem('comments', parent.id, parent.questionId)
+    currentId = parent.parentCommentId
+  }
+}
+
+/**
+ * コメントを削除（返信がある場合は「削除されました」として残し、返信はそのまま表示する）
+ */
 export async function deleteComment(commentId: string): Promise<DeleteCommentResult> {
   try {
     const cosmosService = getCosmosService()
@@ -434,8 +736,28 @@ export async function deleteComment(commentId: string): Promise<DeleteCommentRes
 
     const existingComment = existingComments[0]
 
-    // Delete comment from Cosmos DB
-    await cosmosService.deleteItem('comments', commentId, existingComment.questionId)
+    const replies = await findReplies(commentId)
+    if (replies.length > 0) {
+      // 返信が残っているため本文だけ消し、スレッドの位置を残す
+      await cosmosService.updateItem<Comment>('comments', commentId, {
+        ...existingComment,
+        content: '',
+        contentHtml: '',
+        mentions: [],
+        attachments: [],
+        deletedAt: new Date()
+      }, existingComment.questionId)
+    } else {
+      // Delete comment from Cosmos DB
+      await cosmosService.deleteItem('comments', commentId, existingComment.questionId)
+      await removeDeletedAncestors(existingComment.parentCommentId)
+    }
+
+    // 削除したコメントの編集履歴も残さない
+    await deleteRevisions({ targetType: 'comment', targetId: commentId, questionId: existingComment.questionId })
+
+    // 本文に貼り付けた画像を削除（失敗してもコメントの削除は成功とする）
+    deleteInlineImages(existingComment.attachments)
 
     return {
       success: true
@@ -0,0 +1,60 @@
+import { getCosmosService } from './cosmos'
+import { getUsers } from './admin'
+import { User } from '@/types/auth'
+import { Group } from '@/types/group'
+import { Question } from '@/types/question'
+
+/**
+ * 質問の担当者割り当て
+ * グループに既定の担当者が設定されていればその管理者、未設定なら管理者のラウンドロビン
+ */
+
+/**
+ * 担当者に割り当て可能な管理者か確認
+ */
+export async function getAssignableAdmin(userId: string): Promise<User | null> {
+  const cosmosService = getCosmosService()
+  const user = await cosmosService.getItem<User>('users', userId)
+  return user?.isAdmin ? user : null
+}
+
+/**
+ * 新しい質問の担当者を決定（管理者がいない場合は null）
+ */
+export async function getAutoAssignee(groupId: string): Promise<User | null> {
+  try {
+    const cosmosService = getCosmosService()
+
+    // グループの既定担当者（管理者権限を外された場合はラウンドロビンにフォールバック）
+    const group = await cosmosService.getItem<Group>('groups', groupId)
+    if (group?.defaultAssigneeId) {
+      const defaultAssignee = await getAssignableAdmin(group.defaultAssigneeId)
+      if (defaultAssignee) {
+        return defaultAssignee
+      }
+    }
+
+    const adminsResult = await getUsers({ isAdmin: true })
+    if (!adminsResult.success || !adminsResult.users || adminsResult.users.length === 0) {
+      return null
+    }
+
+    // 登録順に並べ、直近に割り当てられた管理者の次の管理者を選ぶ
+    const admins = [...adminsResult.users].sort((a, b) =>
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id.localeCompare(b.id)
+    )
+
+    const lastAssigned = await cosmosService.queryItems<Pick<Question, 'assigneeId'>>(
+      'questions',
+      'SELECT TOP 1 c.assigneeId FROM c WHERE IS_DEFINED(c.assignedAt) ORDER BY c.assignedAt DESC',
+      []
+    )
+
+    const lastIndex = admins.findIndex(admin => admin.id === lastAssigned[0]?.assigneeId)
+    return admins[(lastIndex + 1) % admins.length]
+  } catch (error) {
+    // 割り当てに失敗しても質問の投稿は継続する
+    console.error('Error selecting auto assignee:', error)
+    return null
+  }
+}
@@ -0,0 +1,62 @@
+import { Attachment } from '@/types/question'
+
+// 共有リンク用の添付ファイルID（ランダムな UUID）
+const ATTACHMENT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+/**
+ * 共有リンク用の添付ファイルIDを生成（添付ファイルに保存し、リンクから Blob URL を推測できないようにする）
+ */
+export function createAttachmentId(): string {
+  return crypto.randomUUID()
+}
+
+/**
+ * 共有リンク用の添付ファイルIDの形式か
+ */
+export function isAttachmentId(value: string): boolean {
+  return ATTACHMENT_ID_PATTERN.test(value)
+}
+
+/**
+ * 本文中のプレビューURL用のID
+ * Blob URL を URL セーフな Base64 に変換する（元に戻せるため秘匿性はなく、表示時にアクセス権を確認する。クライアント・サーバー共用）
+ */
+export function encodeAttachmentId(blobUrl: string): string {
+  const bytes = new TextEncoder().encode(blobUrl)
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+/**
+ * プレビューURL用のIDを Blob URL に戻す（不正なIDの場合は null）
+ */
+export function decodeAttachmentId(attachmentId: string): string | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(attachmentId)) {
+    return null
+  }
+
+  try {
+    const base64 = attachmentId.replace(/-/g, '+').replace(/_/g, '/')
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4)
+    const binary = atob(padded)
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0))
+
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 添付ファイルの共有リンクURLを生成（IDのない添付ファイルは null）
+ */
+export function getAttachmentShareUrl(attachment: Pick<Attachment, 'id'>, origin: string): string | null {
+  return attachment.id ? `${origin}/api/files/download?id=${attachment.id}` : null
+}
@@ -0,0 +1,84 @@
+import { Attachment, AttachmentScanStatus } from '@/types/question'
+import { encodeAttachmentId } from './attachment-id'
+
+/**
+ * 添付ファイルのプレビュー種別の判定（クライアント・サーバー共用）
+ */
+
+export type PreviewKind = 'image' | 'pdf' | 'text'
+export type PreviewLanguage = 'json' | 'yaml' | 'log' | 'plaintext'
+export type ThumbnailSize = 'small' | 'large'
+
+// サムネイルの最大幅・高さ（px）
+export const THUMBNAIL_SIZES: Record<ThumbnailSize, number> = {
+  small: 240,
+  large: 1200
+}
+
+// サムネイルを生成する元ファイルの上限（これより大きい画像・PDFはプレビューしない）
+export const PREVIEW_SOURCE_MAX_BYTES = 20 * 1024 * 1024
+// テキストプレビューで返す上限（超える場合は先頭のみ）
+export const PREVIEW_TEXT_MAX_BYTES = 256 * 1024
+
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif']
+const TEXT_EXTENSIONS = [
+  'txt', 'log', 'md', 'csv', 'json', 'yaml', 'yml', 'xml', 'ini', 'conf', 'toml',
+  'js', 'ts', 'html', 'css', 'py', 'java', 'cs', 'cpp', 'c'
+]
+
+function getExtension(fileName: string): string {
+  const parts = fileName.toLowerCase().split('.')
+  return parts.length > 1 ? parts.pop()! : ''
+}
+
+/**
+ * ファイル名からプレビュー種別を判定（プレビュー不可は null）
+ */
+export function getPreviewKind(fileName: string): PreviewKind | null {
+  const extension = getExtension(fileName)
+
+  if (IMAGE_EXTENSIONS.includes(extension)) return 'image'
+  if (extension === 'pdf') return 'pdf'
+  if (TEXT_EXTENSIONS.includes(extension)) return 'text'
+  return null
+}
+
+/**
+ * テキストプレビューのハイライト言語
+ */
+export function getPreviewLanguage(fileName: string): PreviewLanguage {
+  switch (getExtension(fileName)) {
+    case 'json':
+      return 'json'
+    case 'yaml':
+    case 'yml':
+      return 'yaml'
+    case 'log':
+      return 'log'
+    default:
+      return 'plaintext'
+  }
+}
+
+/**
+ * プレビューできる添付ファイルか（スキャン中・隔離中、サイズ超過の画像・PDFは不可）
+ */
+export function canPreviewAttachment(attachment: Attachment): boolean {
+  const kind = getPreviewKind(attachment.fileName)
+  if (!kind) {
+    return false
+  }
+
+  if (attachment.scanStatus === AttachmentScanStatus.PENDING || attachment.scanStatus === AttachmentScanStatus.QUARANTINED) {
+    return false
+  }
+
+  return kind === 'text' || attachment.fileSize <= PREVIEW_SOURCE_MAX_BYTES
+}
+
+/**
+ * プレビューAPIのURLを生成
+ */
+export function getAttachmentPreviewUrl(blobUrl: string, size: ThumbnailSize = 'large'): string {
+  return `/api/files/preview?id=${encodeAttachmentId(blobUrl)}&size=${size}`
+}
@@ -0,0 +1,172 @@
+import { getCosmosService } from './cosmos'
+import { getBlobStorageService } from './blob-storage'
+import { getMalwareScanner } from './malware-scanner'
+import { ErrorHandler } from './errors'
+import { Attachment, AttachmentScanStatus } from '@/types/question'
+
+export type AttachmentScanFields = Pick<Attachment, 'scanStatus' | 'scanDetail' | 'scannedAt'>
+
+export interface RescanResult {
+  scanned: number
+  clean: number
+  quarantined: number
+  pending: number
+}
+
+// 添付ファイルを保持するコンテナとパーティションキー
+const ATTACHMENT_CONTAINERS = [
+  { containerId: 'questions', partitionKey: 'groupId' },
+  { containerId: 'answers', partitionKey: 'questionId' },
+  { containerId: 'comments', partitionKey: 'questionId' }
+] as const
+
+async function* streamChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader()
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) return
+      yield value
+    }
+  } finally {
+    // 途中で読み出しを止めた場合もダウンロードを打ち切る
+    await reader.cancel().catch(() => undefined)
+  }
+}
+
+async function* bufferChunks(buffer: Uint8Array): AsyncGenerator<Uint8Array> {
+  yield buffer
+}
+
+// 読み出しはスキャナーが読み始めた時点で開始する（スキャンしない設定ではダウンロードしない）
+async function* storedChunks(blobUrl: string): AsyncGenerator<Uint8Array> {
+  const blobService = getBlobStorageService()
+  yield* streamChunks(await blobService.downloadFileStream(blobService.extractFileNameFromUrl(blobUrl)))
+}
+
+/**
+ * スキャンを実行し、添付ファイルに記録する状態を返す
+ * スキャナーの障害時はスキャン待ちのまま残す（ダウンロード不可のまま定期実行で再スキャン）
+ */
+async function runScan(chunks: AsyncIterable<Uint8Array>, context: string): Promise<AttachmentScanFields> {
+  try {
+    const result = await getMalwareScanner().scan(chunks)
+
+    if (!result.clean) {
+      console.warn(`Malware detected (${context}): ${result.signature}`)
+      return { scanStatus: AttachmentScanStatus.QUARANTINED, scanDetail: result.signature, scannedAt: new Date() }
+    }
+
+    return { scanStatus: AttachmentScanStatus.CLEAN, scannedAt: new Date() }
+  } catch (error) {
+    ErrorHandler.logError(error, context)
+    return { scanStatus: AttachmentScanStatus.PENDING }
+  }
+}
+
+/**
+ * アップロードされたファイルの内容をスキャン
+ */
+export function scanBuffer(buffer: Uint8Array): Promise<AttachmentScanFields> {
+  return runScan(bufferChunks(buffer), 'scanBuffer')
+}
+
+/**
+ * 保存済みの添付ファイルをストレージから読み出してスキャン
+ */
+export function scanStoredAttachment(blobUrl: string): Promise<AttachmentScanFields> {
+  return runScan(storedChunks(blobUrl), 'scanStoredAttachment')
+}
+
+/**
+ * 添付ファイルを保持する質問・回答・コメント
+ */
+export interface AttachmentHolder {
+  containerId: typeof ATTACHMENT_CONTAINERS[number]['containerId']
+  id: string
+  partitionKey: string
+}
+
+/**
+ * 添付ファイルのスキャン状態だけを書き換える（更新日時や他のフィールドは変えない）
+ * 添付ファイルが外されていた場合、または shouldUpdate が false を返した場合は書き込まない
+ */
+async function updateAttachmentScan(
+  holder: AttachmentHolder,
+  blobUrl: string,
+  scan: AttachmentScanFields,
+  shouldUpdate: (attachment: Attachment) => boolean = () => true
+): Promise<void> {
+  await getCosmosService().modifyItem<{ attachments?: Attachment[] }>(
+    holder.containerId,
+    holder.id,
+    holder.partitionKey,
+    item => {
+      const attachments = item.attachments || []
+      const target = attachments.find(attachment => attachment.blobUrl === blobUrl)
+      if (!target || !shouldUpdate(target)) {
+        return null
+      }
+      return {
+        ...item,
+        attachments: attachments.map(attachment => attachment === target ? { ...attachment, ...scan } : attachment)
+      }
+    }
+  )
+}
+
+/**
+ * 添付ファイルをスキャンし、その添付ファイルのスキャン結果だけを書き込む
+ * （スキャン中に行われた投稿の編集などを上書きしない）
+ */
+export async function scanAttachment(holder: AttachmentHolder, blobUrl: string): Promise<AttachmentScanFields> {
+  const scan = await scanStoredAttachment(blobUrl)
+  await updateAttachmentScan(holder, blobUrl, scan)
+  return scan
+}
+
+/**
+ * スキャン導入前の添付ファイルをスキャン待ちにする（定期実行の再スキャン対象に入れる）
+ */
+export async function queueAttachmentScan(holder: AttachmentHolder, blobUrl: string): Promise<void> {
+  await updateAttachmentScan(
+    holder,
+    blobUrl,
+    { scanStatus: AttachmentScanStatus.PENDING },
+    attachment => attachment.scanStatus === undefined
+  )
+}
+
+/**
+ * スキャン待ちの添付ファイルを再スキャン（定期実行用）
+ * includeUnscanned を指定した場合はスキャン導入前の添付ファイルも対象にする
+ */
+export async function rescanPendingAttachments(options: { includeUnscanned?: boolean } = {}): Promise<RescanResult> {
+  const cosmosService = getCosmosService()
+  const result: RescanResult = { scanned: 0, clean: 0, quarantined: 0, pending: 0 }
+
+  const needsScan = (attachment: Attachment) =>
+    attachment.scanStatus === AttachmentScanStatus.PENDING ||
+    (options.includeUnscanned && attachment.scanStatus === undefined)
+
+  for (const { containerId, partitionKey } of ATTACHMENT_CONTAINERS) {
+    const items = await cosmosService.queryItems<{ id: string; attachments?: Attachment[] } & Record<string, unknown>>(
+      containerId,
+      'SELECT * FROM c'
+    )
+
+    for (const item of items) {
+      const holder: AttachmentHolder = { containerId, id: item.id, partitionKey: item[partitionKey] as string }
+
+      for (const attachment of (item.attachments || []).filter(needsScan)) {
+        const scan = await scanAttachment(holder, attachment.blobUrl)
+        result.scanned++
+        if (scan.scanStatus === AttachmentScanStatus.CLEAN) result.clean++
+        else if (scan.scanStatus === AttachmentScanStatus.QUARANTINED) result.quarantined++
+        else result.pending++
+      }
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,184 @@
+import { getCosmosService } from './cosmos'
+import { getBlobStorageService, ParsedBlobPath } from './blob-storage'
+import { getQuestion } from './questions'
+import { canAccessQuestion } from './access-control'
+import { queueAttachmentScan, AttachmentHolder } from './attachment-scan'
+import { AppError, ErrorCodes, ErrorHandler } from './errors'
+import { User } from '@/types/auth'
+import { Question, Answer, Comment, Attachment, AttachmentScanStatus } from '@/types/question'
+
+export interface AttachmentOwner {
+  type: ParsedBlobPath['type']
+  question: Question
+  answer?: Answer
+  comment?: Comment
+  attachment: Attachment
+  blobPath: string
+}
+
+export interface ResolveAttachmentResult {
+  success: boolean
+  owner?: AttachmentOwner
+  error?: AppError
+}
+
+/**
+ * Blob URL から添付ファイルの所有者（質問・回答・コメント）を解決
+ */
+export async function resolveAttachmentOwner(blobUrl: string): Promise<ResolveAttachmentResult> {
+  const blobService = getBlobStorageService()
+
+  let blobPath: string
+  try {
+    blobPath = blobService.extractFileNameFromUrl(blobUrl)
+  } catch {
+    return { success: false, error: ErrorHandler.createValidationError('Invalid blob URL') }
+  }
+
+  // questions/{id}/… 以外のパスは拒否
+  const parsed = blobService.parseBlobPath(blobPath)
+  if (!parsed) {
+    return { success: false, error: ErrorHandler.createValidationError('Invalid attachment path') }
+  }
+
+  try {
+    const questionResult = await getQuestion(parsed.questionId)
+    if (!questionResult.success || !questionResult.question) {
+      return { success: false, error: ErrorHandler.createNotFoundError('Attachment') }
+    }
+
+    const question = questionResult.question
+    const owner: Omit<AttachmentOwner, 'attachment'> = { type: parsed.type, question, blobPath }
+    let attachments: Attachment[] = question.attachments || []
+
+    if (parsed.type === 'answer' || parsed.type === 'comment') {
+      const containerId = parsed.type === 'answer' ? 'answers' : 'comments'
+      const item = await getCosmosService().getItem<Answer | Comment>(containerId, parsed.itemId!, parsed.questionId)
+
+      // パス上の質問IDと実際の親質問が一致しない場合は存在しないものとして扱う
+      if (!item || item.questionId !== parsed.questionId) {
+        return { success: false, error: ErrorHandler.createNotFoundError('Attachment') }
+      }
+
+      if (parsed.type === 'answer') {
+        owner.answer = item as Answer
+      } else {
+        owner.comment = item as Comment
+      }
+      attachments = item.attachments || []
+    }
+
+    // 所有者に登録済みの添付ファイルのみ許可
+    const attachment = attachments.find(candidate => {
+      try {
+        return blobService.extractFileNameFromUrl(candidate.blobUrl) === blobPath
+      } catch {
+        return false
+      }
+    })
+
+    if (!attachment) {
+      return { success: false, error: ErrorHandler.createNotFoundError('Attachment') }
+    }
+
+    return { success: true, owner: { ...owner, attachment } }
+  } catch (error) {
+    ErrorHandler.logError(error, 'resolveAttachmentOwner')
+    return { success: false, error: ErrorHandler.createInternalError('Failed to resolve attachment') }
+  }
+}
+
+// 添付ファイルを保持するコンテナ
+const ATTACHMENT_CONTAINERS = ['questions', 'answers', 'comments'] as const
+
+/**
+ * 共有リンクの添付ファイルIDから Blob URL を取得（見つからない場合は null）
+ */
+export async function findAttachmentBlobUrl(attachmentId: string): Promise<string | null> {
+  const cosmosService = getCosmosService()
+
+  for (const containerId of ATTACHMENT_CONTAINERS) {
+    const items = await cosmosService.queryItems<{ attachments?: Attachment[] }>(
+      containerId,
+      'SELECT c.attachments FROM c WHERE ARRAY_CONTAINS(c.attachments, { "id": @attachmentId }, true)',
+      [{ name: '@attachmentId', value: attachmentId }]
+    )
+
+    const attachment = items
+      .flatMap(item => item.attachments || [])
+      .find(candidate => candidate.id === attachmentId)
+    if (attachment) {
+      return attachment.blobUrl
+    }
+  }
+
+  return null
+}
+
+/**
+ * ユーザーが添付ファイルをダウンロードできるか確認し、所有者情報を返す
+ */
+export async function authorizeAttachmentAccess(user: User, blobUrl: string): Promise<ResolveAttachmentResult> {
+  const result = await resolveAttachmentOwner(blobUrl)
+  if (!result.success || !result.owner) {
+    return result
+  }
+
+  if (!canAccessQuestion(user, result.owner.question)) {
+    return {
+      success: false,
+      error: {
+        code: ErrorCodes.FORBIDDEN,
+        message: 'Access denied to this attachment'
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * 添付ファイルを保持する投稿（スキャン状態の書き込み先）
+ */
+function getAttachmentHolder(owner: AttachmentOwner): AttachmentHolder {
+  if (owner.answer) {
+    return { containerId: 'answers', id: owner.answer.id, partitionKey: owner.question.id }
+  }
+  if (owner.comment) {
+    return { containerId: 'comments', id: owner.comment.id, partitionKey: owner.question.id }
+  }
+  return { containerId: 'questions', id: owner.question.id, partitionKey: owner.question.groupId }
+}
+
+/**
+ * 添付ファイルの内容（ダウンロード・プレビュー）を返せるか確認
+ * アクセス権に加え、スキャン済みでないファイルを拒否する
+ * スキャン導入前のファイル（未設定）はスキャン待ちにして、定期実行の再スキャンに回す
+ */
+export async function authorizeAttachmentDownload(user: User, blobUrl: string): Promise<ResolveAttachmentResult> {
+  const result = await authorizeAttachmentAccess(user, blobUrl)
+  if (!result.success || !result.owner) {
+    return result
+  }
+
+  const { scanStatus } = result.owner.attachment
+
+  if (scanStatus === undefined) {
+    try {
+      await queueAttachmentScan(getAttachmentHolder(result.owner), result.owner.attachment.blobUrl)
+    } catch (error) {
+      ErrorHandler.logError(error, 'authorizeAttachmentDownload')
+    }
+    return { success: false, error: { code: ErrorCodes.CONFLICT, message: 'File is being scanned' } }
+  }
+
+  if (scanStatus === AttachmentScanStatus.PENDING) {
+    return { success: false, error: { code: ErrorCodes.CONFLICT, message: 'File is being scanned' } }
+  }
+
+  if (scanStatus === AttachmentScanStatus.QUARANTINED) {
+    return { success: false, error: { code: ErrorCodes.FORBIDDEN, message: 'File is quarantined' } }
+  }
+
+  return result
+}
@@ -0,0 +1,21 @@
+import crypto from 'crypto'
+import { getCosmosService } from './cosmos'
+import { User } from '@/types/auth'
+import { AuditLog } from '@/types/audit'
+
+/**
+ * 管理者の操作を監査ログに記録
+ */
+export async function recordAuditLog(
+  entry: Pick<AuditLog, 'action' | 'targetType' | 'targetId' | 'details'>,
+  actor: Pick<User, 'id' | 'username'>
+): Promise<AuditLog> {
+  return getCosmosService().createItem<AuditLog>('auditLogs', {
+    id: crypto.randomUUID(),
+    ...entry,
+    actorId: actor.id,
+    actorName: actor.username,
+    createdAt: new Date()
+  })
+}
+
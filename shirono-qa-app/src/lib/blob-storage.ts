@@ -22,6 +22,19 @@ interface FileMetadata {
   commentId?: string
 }
 
+interface DownloadStreamOptions {
+  offset?: number
+  count?: number
+  ifMatch?: string
+}
+
+export interface ParsedBlobPath {
+  type: 'question' | 'answer' | 'comment'
+  questionId: string
+  itemId?: string
+  fileName: string
+}
+
 class BlobStorageService {
   private blobServiceClient: BlobServiceClient
   private containerClient: ContainerClient
@@ -65,22 +78,12 @@ class BlobStorageService {
       const blobClient = this.containerClient.getBlobClient(fullBlobName)
       const blockBlobClient = blobClient.getBlockBlobClient()
 
-      // メタデータを設定（ASCII文字のみ許可されるためBase64エンコード）
-      const blobMetadata = {
-        originalName: this.encodeMetadataValue(metadata.originalName),
-        uploadedBy: this.sanitizeMetadataValue(metadata.uploadedBy),
-        uploadedAt: this.sanitizeMetadataValue(metadata.uploadedAt),
-        questionId: this.sanitizeMetadataValue(metadata.questionId || ''),
-        answerId: this.sanitizeMetadataValue(metadata.answerId || ''),
-        commentId: this.sanitizeMetadataValue(metadata.commentId || '')
-      }
-
       // ファイルをアップロード
       await blockBlobClient.upload(fileBuffer, fileBuffer.length, {
         blobHTTPHeaders: {
           blobContentType: contentType
         },
-        metadata: blobMetadata
+        metadata: this.buildBlobMetadata(metadata)
       })
 
       return {
@@ -95,6 +98,99 @@ class BlobStorageService {
     }
   }
 
+  /**
+   * クライアントから直接ブロックをアップロードするための書き込み専用URL生成（SAS Token）
+   */
+  async generateUploadUrl(blobName: string, expiresInMinutes = 15): Promise<string> {
+    try {
+      const blobClient = this.containerClient.getBlobClient(blobName)
+
+      return await blobClient.generateSasUrl({
+        permissions: BlobSASPermissions.parse('cw'), // 作成・書き込みのみ
+        expiresOn: new Date(Date.now() + expiresInMinutes * 60 * 1000)
+      })
+    } catch (error) {
+      console.error('Failed to generate upload URL:', error)
+      throw error
+    }
+  }
+
+  /**
+   * アップロード済み（未コミット）のブロックID一覧を取得（再開用）
+   */
+  async getUncommittedBlockIds(blobName: string): Promise<string[]> {
+    try {
+      const blockBlobClient = this.containerClient.getBlockBlobClient(blobName)
+      const blockList = await blockBlobClient.getBlockList('uncommitted')
+
+      return (blockList.uncommittedBlocks || []).map(block => block.name)
+    } catch (error) {
+      // ブロックが1つもアップロードされていない場合は404になる
+      if ((error as { statusCode?: number }).statusCode === 404) {
+        return []
+      }
+      console.error('Failed to get block list:', error)
+      throw error
+    }
+  }
+
+  /**
+   * アップロード済みブロックをコミットしてファイルを確定
+   */
+  async commitBlocks(
+    blobName: string,
+    blockIds: string[],
+    contentType: string,
+    metadata: FileMetadata
+  ): Promise<UploadResult> {
+    try {
+      const blobClient = this.containerClient.getBlobClient(blobName)
+      const blockBlobClient = blobClient.getBlockBlobClient()
+
+      await blockBlobClient.commitBlockList(blockIds, {
+        blobHTTPHeaders: {
+          blobContentType: contentType
+        },
+        metadata: this.buildBlobMetadata(metadata)
+      })
+
+      const properties = await blobClient.getProperties()
+
+      return {
+        fileName: blobName,
+        blobUrl: blobClient.url,
+        fileSize: properties.contentLength || 0,
+        contentType
+      }
+    } catch (error) {
+      console.error('Failed to commit blocks:', error)
+      throw error
+    }
+  }
+
+  /**
+   * ファイルを別パスへ移動（サーバー側コピー後に元ファイルを削除）
+   */
+  async moveFile(sourceBlobName: string, destinationBlobName: string): Promise<{ fileName: string; blobUrl: string }> {
+    try {
+      const sourceUrl = await this.generateDownloadUrl(sourceBlobName, 60)
+      const destinationClient = this.containerClient.getBlobClient(destinationBlobName)
+
+      const poller = await destinationClient.beginCopyFromURL(sourceUrl)
+      await poller.pollUntilDone()
+
+      await this.containerClient.getBlobClient(sourceBlobName).delete()
+
+      return {
+        fileName: destinationBlobName,
+        blobUrl: destinationClient.url
+      }
+    } catch (error) {
+      console.error('Failed to move file:', error)
+      throw error
+    }
+  }
+
   /**
    * ファイルアップロード（Buffer形式）- 後方互換性のため残す
    */
@@ -110,22 +206,12 @@ class BlobStorageService {
       const blobClient = this.containerClient.getBlobClient(uniqueFileName)
       const blockBlobClient = blobClient.getBlockBlobClient()
 
-      // メタデータを設定（ASCII文字のみ許可されるためBase64エンコード）
-      const blobMetadata = {
-        originalName: this.encodeMetadataValue(metadata.originalName),
-        uploadedBy: this.sanitizeMetadataValue(metadata.uploadedBy),
-        uploadedAt: this.sanitizeMetadataValue(metadata.uploadedAt),
-        questionId: this.sanitizeMetadataValue(metadata.questionId || ''),
-        answerId: this.sanitizeMetadataValue(metadata.answerId || ''),
-        commentId: this.sanitizeMetadataValue(metadata.commentId || '')
-      }
-
       // ファイルをアップロード
       await blockBlobClient.upload(fileBuffer, fileBuffer.length, {
         blobHTTPHeaders: {
           blobContentType: contentType
         },
-        metadata: blobMetadata
+        metadata: this.buildBlobMetadata(metadata)
       })
 
       return {
@@ -207,6 +293,29 @@ class BlobStorageService {
     }
   }
 
+  /**
+   * ファイルをストリームでダウンロード（範囲指定可）
+   * ifMatch を指定すると、情報取得後にファイルが更新されていた場合は失敗する
+   */
+  async downloadFileStream(fileName: string, options: DownloadStreamOptions = {}): Promise<ReadableStream<Uint8Array>> {
+    try {
+      const blobClient = this.containerClient.getBlobClient(fileName)
+      const downloadResponse = await blobClient.download(options.offset || 0, options.count, {
+        conditions: options.ifMatch ? { ifMatch: options.ifMatch } : undefined
+      })
+
+      if (!downloadResponse.readableStreamBody) {
+        throw new Error('Failed to get file stream')
+      }
+
+      // Node.js のストリームを Web ストリームに変換（バッファリングせずに転送）
+      return Readable.toWeb(downloadResponse.readableStreamBody as Readable) as unknown as ReadableStream<Uint8Array>
+    } catch (error) {
+      console.error('Failed to download file stream:', error)
+      throw error
+    }
+  }
+
   /**
    * ファイル情報取得
    */
@@ -216,6 +325,7 @@ class BlobStorageService {
     contentType?: string
     metadata?: Record<string, string>
     lastModified?: Date
+    etag?: string
   }> {
     try {
       const blobClient = this.containerClient.getBlobClient(fileName)
@@ -234,7 +344,8 @@ class BlobStorageService {
         size: properties.contentLength,
         contentType: properties.contentType,
         metadata: decodedMetadata,
-        lastModified: properties.lastModified
+        lastModified: properties.lastModified,
+        etag: properties.etag
       }
     } catch (error) {
       if ((error as { statusCode?: number }).statusCode === 404) {
@@ -437,6 +548,39 @@ class BlobStorageService {
     }
   }
 
+  /**
+   * generateBlobPath で生成されたパスを解析し、所有者情報を取得
+   * questions/{id}/… 以外のパスや不正なパスの場合は null を返す
+   */
+  parseBlobPath(blobPath: string): ParsedBlobPath | null {
+    const segments = blobPath.split('/')
+
+    // 空セグメントや相対パス指定を含むものは拒否
+    if (segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+      return null
+    }
+
+    const [root, questionId, kind, ...rest] = segments
+    if (root !== 'questions' || !questionId) {
+      return null
+    }
+
+    if (kind === 'question' && rest.length === 1) {
+      return { type: 'question', questionId, fileName: rest[0] }
+    }
+
+    if ((kind === 'answers' || kind === 'comments') && rest.length === 2) {
+      return {
+        type: kind === 'answers' ? 'answer' : 'comment',
+        questionId,
+        itemId: rest[0],
+        fileName: rest[1]
+      }
+    }
+
+    return null
+  }
+
   /**
    * ファイル名の重複を避けるため、必要に応じて番号を付与
    */
@@ -468,6 +612,20 @@ class BlobStorageService {
     }
   }
 
+  /**
+   * Blobメタデータを作成（ASCII文字のみ許可されるためBase64エンコード）
+   */
+  private buildBlobMetadata(metadata: FileMetadata): Record<string, string> {
+    return {
+      originalName: this.encodeMetadataValue(metadata.originalName),
+      uploadedBy: this.sanitizeMetadataValue(metadata.uploadedBy),
+      uploadedAt: this.sanitizeMetadataValue(metadata.uploadedAt),
+      questionId: this.sanitizeMetadataValue(metadata.questionId || ''),
+      answerId: this.sanitizeMetadataValue(metadata.answerId || ''),
+      commentId: this.sanitizeMetadataValue(metadata.commentId || '')
+    }
+  }
+
   /**
    * メタデータ値をBase64エンコード（非ASCII文字対応）
    */
@@ -598,13 +756,7 @@ export const isBlobStorageEnabled = (): boolean => {
   return connectionString !== undefined && !connectionString.startsWith('mock://')
 }
 
-// 許可されるファイル形式
-export const ALLOWED_FILE_EXTENSIONS = [
-  'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx',
-  'jpg', 'jpeg', 'png', 'gif', 'bmp', 'svg',
-  'txt', 'md', 'json', 'xml', 'csv',
-  'js', 'ts', 'html', 'css', 'py', 'java', 'cs', 'cpp', 'c',
-  'zip', 'rar', '7z', 'tar', 'gz'
-]
+// 許可されるファイル形式（拡張子ごとの内容検証と合わせて file-type で定義）
+export { ALLOWED_FILE_EXTENSIONS } from './file-type'
 
 export default BlobStorageService
\ No newline at end of file
@@ -0,0 +1,87 @@
+import hljs from 'highlight.js/lib/core'
+import bash from 'highlight.js/lib/languages/bash'
+import csharp from 'highlight.js/lib/languages/csharp'
+import dockerfile from 'highlight.js/lib/languages/dockerfile'
+import ini from 'highlight.js/lib/languages/ini'
+import javascript from 'highlight.js/lib/languages/javascript'
+import json from 'highlight.js/lib/languages/json'
+import plaintext from 'highlight.js/lib/languages/plaintext'
+import powershell from 'highlight.js/lib/languages/powershell'
+import python from 'highlight.js/lib/languages/python'
+import sql from 'highlight.js/lib/languages/sql'
+import typescript from 'highlight.js/lib/languages/typescript'
+import xml from 'highlight.js/lib/languages/xml'
+import yaml from 'highlight.js/lib/languages/yaml'
+import type { HLJSApi, Language } from 'highlight.js'
+
+/**
+ * highlight.js によるシンタックスハイライト（投稿本文のコードブロックと添付ファイルのテキストプレビューで共用）
+ * 対応する言語のみ登録した core を使い、ブラウザでも読み込めるようにする
+ */
+
+// Azure の IaC でよく使われる Bicep は highlight.js に含まれないため簡易定義を追加
+function bicep(hljsApi: HLJSApi): Language {
+  return {
+    name: 'Bicep',
+    keywords: {
+      keyword: 'targetScope param var resource module output existing if for in import using metadata type func with as',
+      literal: 'true false null',
+      built_in: 'resourceGroup subscription tenant managementGroup deployment environment concat format uniqueString resourceId reference listKeys'
+    },
+    contains: [
+      hljsApi.C_LINE_COMMENT_MODE,
+      hljsApi.C_BLOCK_COMMENT_MODE,
+      {
+        className: 'string',
+        begin: "'''",
+        end: "'''"
+      },
+      {
+        className: 'string',
+        begin: "'",
+        end: "'",
+        contains: [
+          hljsApi.BACKSLASH_ESCAPE,
+          { className: 'subst', begin: /\$\{/, end: /\}/ }
+        ]
+      },
+      { className: 'meta', begin: /@\w+/ },
+      hljsApi.NUMBER_MODE
+    ]
+  }
+}
+
+const LANGUAGES: Record<string, (hljsApi: HLJSApi) => Language> = {
+  bash, csharp, dockerfile, ini, javascript, json, plaintext, powershell, python, sql, typescript, xml, yaml, bicep
+}
+
+for (const [name, language] of Object.entries(LANGUAGES)) {
+  hljs.registerLanguage(name, language)
+}
+hljs.registerAliases(['sh', 'shell', 'zsh'], { languageName: 'bash' })
+hljs.registerAliases(['ps1', 'pwsh'], { languageName: 'powershell' })
+hljs.registerAliases(['cs', 'c#'], { languageName: 'csharp' })
+hljs.registerAliases(['js'], { languageName: 'javascript' })
+hljs.registerAliases(['ts'], { languageName: 'typescript' })
+hljs.registerAliases(['py'], { languageName: 'python' })
+hljs.registerAliases(['yml'], { languageName: 'yaml' })
+hljs.registerAliases(['html', 'svg'], { languageName: 'xml' })
+hljs.registerAliases(['toml'], { languageName: 'ini' })
+hljs.registerAliases(['text', 'txt', 'log'], { languageName: 'plaintext' })
+
+/**
+ * コードを highlight.js のクラス付き HTML に変換（テキストはエスケープ済み）
+ * 未対応の言語・変換に失敗した場合は空文字を返す
+ */
+export function highlightCode(code: string, language: string): string {
+  const name = language.toLowerCase()
+  if (!name || !hljs.getLanguage(name)) {
+    return ''
+  }
+
+  try {
+    return hljs.highlight(code, { language: name, ignoreIllegals: true }).value
+  } catch {
+    return ''
+  }
+}
@@ -0,0 +1,42 @@
+import { Comment } from '@/types/answer'
+
+// 返信を字下げして表示する深さ（これより深い返信は同じ字下げで並べる）
+export const MAX_COMMENT_DEPTH = 3
+
+export interface CommentThread {
+  comment: Comment
+  replies: CommentThread[]
+}
+
+/**
+ * コメントを返信のツリーにまとめる（並び順は渡された順、返信先が見つからないコメントはスレッドの先頭になる）
+ */
+export function buildCommentThreads(comments: Comment[]): CommentThread[] {
+  const threads = new Map<string, CommentThread>()
+  for (const comment of comments) {
+    threads.set(comment.id, { comment, replies: [] })
+  }
+
+  const roots: CommentThread[] = []
+  for (const comment of comments) {
+    const thread = threads.get(comment.id)!
+    const parent = comment.parentCommentId ? threads.get(comment.parentCommentId) : undefined
+    if (parent && parent !== thread) {
+      parent.replies.push(thread)
+    } else {
+      roots.push(thread)
+    }
+  }
+
+  return roots
+}
+
+/**
+ * スレッド内の返信の件数（返信への返信も含む、削除済みのコメントは数えない）
+ */
+export function countReplies(thread: CommentThread): number {
+  return thread.replies.reduce(
+    (count, reply) => count + (reply.comment.deletedAt ? 0 : 1) + countReplies(reply),
+    0
+  )
+}
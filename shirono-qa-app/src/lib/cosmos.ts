@@ -1,4 +1,18 @@
-import { CosmosClient, Database, Container } from '@azure/cosmos'
+import {
+  CosmosClient,
+  Database,
+  Container,
+  ContainerDefinition,
+  VectorEmbeddingDataType,
+  VectorEmbeddingDistanceFunction,
+  VectorIndexType
+} from '@azure/cosmos'
+import { VectorSearchQuery } from '../types/search'
+
+/** 質問の埋め込みベクターを保持するフィールド */
+export const QUESTION_VECTOR_FIELD = 'contentVector'
+/** text-embedding-3-large の次元数 */
+export const QUESTION_VECTOR_DIMENSIONS = 3072
 
 interface CosmosConfig {
   connectionString: string
@@ -18,7 +32,11 @@ class CosmosService {
   /**
    * コンテナを取得または作成
    */
-  async getContainer(containerId: string, partitionKey?: string): Promise<Container> {
+  async getContainer(
+    containerId: string,
+    partitionKey?: string,
+    options: Partial<ContainerDefinition> = {}
+  ): Promise<Container> {
     if (this.containers.has(containerId)) {
       return this.containers.get(containerId)!
     }
@@ -26,6 +44,7 @@ class CosmosService {
     try {
       // コンテナの存在確認
       const { container } = await this.database.containers.createIfNotExists({
+        ...options,
         id: containerId,
         partitionKey: partitionKey || '/id'
       })
@@ -48,18 +67,47 @@ class CosmosService {
         id: this.database.id
       })
 
+      // questions コンテナのベクターインデックス設定
+      const questionVectorOptions: Partial<ContainerDefinition> = {
+        vectorEmbeddingPolicy: {
+          vectorEmbeddings: [
+            {
+              path: `/${QUESTION_VECTOR_FIELD}`,
+              dataType: VectorEmbeddingDataType.Float32,
+              dimensions: QUESTION_VECTOR_DIMENSIONS,
+              distanceFunction: VectorEmbeddingDistanceFunction.Cosine
+            }
+          ]
+        },
+        indexingPolicy: {
+          // ベクターは通常のインデックス対象から除外
+          excludedPaths: [{ path: `/${QUESTION_VECTOR_FIELD}/*` }],
+          vectorIndexes: [
+            { path: `/${QUESTION_VECTOR_FIELD}`, type: VectorIndexType.DiskANN }
+          ]
+        }
+      }
+
       // 必要なコンテナを作成
-      const containers = [
+      const containers: { id: string; partitionKey: string; options?: Partial<ContainerDefinition> }[] = [
         { id: 'users', partitionKey: '/id' },
         { id: 'groups', partitionKey: '/id' },
-        { id: 'questions', partitionKey: '/groupId' },
+        { id: 'questions', partitionKey: '/groupId', options: questionVectorOptions },
         { id: 'answers', partitionKey: '/questionId' },
         { id: 'comments', partitionKey: '/questionId' },
-        { id: 'sessions', partitionKey: '/userId' }
+        { id: 'sessions', partitionKey: '/userId' },
+        { id: 'uploadSessions', partitionKey: '/userId' },
+        { id: 'pendingUploads', partitionKey: '/userId' },
+        { id: 'revisions', partitionKey: '/questionId' },
+        // 保存期間（DRAFT_RETENTION_DAYS）を過ぎた下書きは自動で削除（最後の保存から30日）
+        { id: 'drafts', partitionKey: '/userId', options: { defaultTtl: 30 * 24 * 60 * 60 } },
+        { id: 'requestTemplates', partitionKey: '/id' },
+        { id: 'tags', partitionKey: '/id' },
+        { id: 'auditLogs', partitionKey: '/targetId' }
       ]
 
       for (const containerConfig of containers) {
-        await this.getContainer(containerConfig.id, containerConfig.partitionKey)
+        await this.getContainer(containerConfig.id, containerConfig.partitionKey, containerConfig.options)
       }
 
     } catch (error) {
@@ -116,6 +164,53 @@ class CosmosService {
     }
   }
 
+  /**
+   * アイテムを読み直して書き換え（ETag で競合を検出し、他の更新と衝突した場合は読み直して再試行）
+   * modify が null を返した場合は更新しない。アイテムが存在しない場合は null を返す
+   */
+  async modifyItem<T>(
+    containerId: string,
+    id: string,
+    partitionKey: string,
+    modify: (item: T) => T | null,
+    maxAttempts = 5
+  ): Promise<T | null> {
+    const container = await this.getContainer(containerId)
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { resource } = await container.item(id, partitionKey).read() as any
+        if (!resource) {
+          return null
+        }
+
+        const modified = modify(resource as T)
+        if (modified === null) {
+          return resource as T
+        }
+
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { resource: replaced } = await container.item(id, partitionKey).replace(modified as any, {
+          accessCondition: { type: 'IfMatch', condition: resource._etag }
+        })
+        return replaced as T
+      } catch (error) {
+        const code = (error as { code?: number }).code
+        if (code === 404) {
+          return null
+        }
+        if (code === 412 && attempt < maxAttempts) {
+          continue
+        }
+        console.error(`Failed to modify item ${id} in ${containerId}:`, error)
+        throw error
+      }
+    }
+
+    throw new Error(`Failed to modify item ${id} in ${containerId}: too many conflicts`)
+  }
+
   /**
    * アイテム削除
    */
@@ -187,35 +282,54 @@ class CosmosService {
 
   /**
    * ベクタークエリ（類似度検索）
+   * 類似度の高い順に上位 limit 件を取得し、閾値以上のドキュメント（fields のみ）と類似度スコアを返す
    */
   async vectorQuery<T>(
     containerId: string,
     vectorField: string,
-    queryVector: number[],
-    limit = 10,
-    similarityThreshold = 0.7
-  ): Promise<T[]> {
+    searchQuery: VectorSearchQuery,
+    fields: (keyof T & string)[]
+  ): Promise<{ item: T; similarity: number }[]> {
     try {
       const container = await this.getContainer(containerId)
+      const limit = Math.max(1, Math.floor(searchQuery.limit ?? 5))
+      const threshold = searchQuery.threshold ?? 0.7
+
+      const whereConditions: string[] = []
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const parameters: { name: string; value: any }[] = [
+        { name: '@limit', value: limit },
+        { name: '@queryVector', value: searchQuery.vector }
+      ]
+
+      if (searchQuery.excludeIds && searchQuery.excludeIds.length > 0) {
+        whereConditions.push('NOT ARRAY_CONTAINS(@excludeIds, c.id)')
+        parameters.push({ name: '@excludeIds', value: searchQuery.excludeIds })
+      }
+
+      if (searchQuery.groupId) {
+        whereConditions.push('c.groupId = @groupId')
+        parameters.push({ name: '@groupId', value: searchQuery.groupId })
+      }
 
-      // Cosmos DBのベクター検索クエリ
+      // VectorDistance を WHERE に書くとベクターインデックスを使わない全件スキャンになるため、
+      // 並べ替えのみに使い、閾値は取得した上位の結果に対して適用する
       const query = `
-        SELECT TOP ${limit} c.*, 
+        SELECT TOP @limit ${fields.map(field => `c.${field}`).join(', ')},
                VectorDistance(c.${vectorField}, @queryVector) AS similarity
-        FROM c 
-        WHERE VectorDistance(c.${vectorField}, @queryVector) > @threshold
-        ORDER BY VectorDistance(c.${vectorField}, @queryVector) DESC
+        FROM c
+        ${whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : ''}
+        ORDER BY VectorDistance(c.${vectorField}, @queryVector)
       `
 
-      const { resources } = await container.items.query<T>({
+      const { resources } = await container.items.query<T & { similarity: number }>({
         query,
-        parameters: [
-          { name: '@queryVector', value: queryVector },
-          { name: '@threshold', value: similarityThreshold }
-        ]
+        parameters
       }).fetchAll()
 
       return resources
+        .filter(({ similarity }) => similarity >= threshold)
+        .map(({ similarity, ...item }) => ({ item: item as T, similarity }))
     } catch (error) {
       console.error(`Failed to execute vector query in ${containerId}:`, error)
       throw error
@@ -0,0 +1,214 @@
+import { getCosmosService } from './cosmos'
+import { getBlobStorageService } from './blob-storage'
+import { getPendingUploadsByPath } from './pending-uploads'
+import { extractInlineImageUrls } from './inline-images'
+import { VALIDATION_LIMITS } from './validation'
+import { isRequestFieldValues, isRequestType } from './request-types'
+import { User } from '@/types/auth'
+import { QuestionPriority } from '@/types/question'
+import { Draft, DraftAttachment, DraftFile, DraftKind, DraftResult, SaveDraftRequest } from '@/types/draft'
+
+// 最後の保存からこの日数を過ぎた下書きは破棄する（定期削除の対象）
+export const DRAFT_RETENTION_DAYS = 30
+
+const DRAFT_KINDS: DraftKind[] = ['question', 'answer']
+
+/**
+ * 下書きのID（ユーザー・種類・対象の質問ごとに1件）
+ */
+function getDraftId(userId: string, kind: DraftKind, questionId?: string): string {
+  return `draft_${userId}_${kind}_${questionId ?? 'new'}`
+}
+
+/**
+ * 保存期間を過ぎた下書きか
+ */
+export function isDraftExpired(draft: Pick<Draft, 'updatedAt'>, now: Date = new Date()): boolean {
+  return new Date(draft.updatedAt).getTime() < now.getTime() - DRAFT_RETENTION_DAYS * 24 * 60 * 60 * 1000
+}
+
+export function validateDraftData(data: SaveDraftRequest): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!DRAFT_KINDS.includes(data.kind)) {
+    errors.push('Invalid draft kind')
+  }
+
+  if (data.kind === 'answer' && !data.questionId) {
+    errors.push('Question ID is required for answer drafts')
+  }
+
+  if (typeof data.content !== 'string') {
+    errors.push('Content must be a string')
+  } else if (data.content.length > VALIDATION_LIMITS.QUESTION_CONTENT_MAX) {
+    errors.push(`Content must be ${VALIDATION_LIMITS.QUESTION_CONTENT_MAX} characters or less`)
+  }
+
+  if (data.title !== undefined && (typeof data.title !== 'string' || data.title.length > VALIDATION_LIMITS.QUESTION_TITLE_MAX)) {
+    errors.push(`Title must be ${VALIDATION_LIMITS.QUESTION_TITLE_MAX} characters or less`)
+  }
+
+  if (data.priority !== undefined && !Object.values(QuestionPriority).includes(data.priority)) {
+    errors.push('Invalid priority')
+  }
+
+  if (data.requestType !== undefined && !isRequestType(data.requestType)) {
+    errors.push('Invalid request type')
+  }
+
+  if (data.requestFields !== undefined && !isRequestFieldValues(data.requestFields)) {
+    errors.push('Invalid request fields')
+  }
+
+  if (data.fileUrls !== undefined) {
+    if (!Array.isArray(data.fileUrls) || !data.fileUrls.every(url => typeof url === 'string')) {
+      errors.push('Invalid file URLs')
+    } else if (data.fileUrls.length > VALIDATION_LIMITS.MAX_ATTACHMENTS) {
+      errors.push(`Maximum ${VALIDATION_LIMITS.MAX_ATTACHMENTS} attachments allowed`)
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Blob URL に対応する本人の添付前ファイル（他人のファイル・添付済みのファイルは除く）
+ */
+async function collectPendingFiles(userId: string, blobUrls: string[]): Promise<DraftFile[]> {
+  if (blobUrls.length === 0) {
+    return []
+  }
+
+  const blobService = getBlobStorageService()
+  const pendingByPath = await getPendingUploadsByPath(userId)
+  const files: DraftFile[] = []
+
+  for (const blobUrl of new Set(blobUrls)) {
+    let blobPath: string
+    try {
+      blobPath = blobService.extractFileNameFromUrl(blobUrl)
+    } catch {
+      continue
+    }
+
+    const pending = pendingByPath.get(blobPath)
+    if (pending) {
+      files.push({
+        blobPath: pending.blobPath,
+        blobUrl,
+        fileName: pending.fileName,
+        fileSize: pending.fileSize,
+        contentType: pending.contentType
+      })
+    }
+  }
+
+  return files
+}
+
+/**
+ * 本文から参照している本人の添付前ファイル
+ */
+async function collectDraftAttachments(userId: string, content: string): Promise<DraftAttachment[]> {
+  const files = await collectPendingFiles(userId, extractInlineImageUrls(content))
+  return files.map(({ blobUrl: _blobUrl, ...attachment }) => attachment)
+}
+
+/**
+ * 下書きを保存（既存の下書きは上書き）
+ */
+export async function saveDraft(user: User, data: SaveDraftRequest): Promise<DraftResult> {
+  try {
+    const validation = validateDraftData(data)
+    if (!validation.valid) {
+      return {
+        success: false,
+        error: validation.errors.join(', ')
+      }
+    }
+
+    const cosmosService = getCosmosService()
+    const id = getDraftId(user.id, data.kind, data.questionId)
+    const existing = await cosmosService.getItem<Draft>('drafts', id, user.id)
+    const now = new Date()
+
+    const draft: Draft = {
+      id,
+      userId: user.id,
+      kind: data.kind,
+      ...(data.kind === 'answer' && { questionId: data.questionId }),
+      ...(data.kind === 'question' && {
+        title: data.title ?? '',
+        ...(data.priority && { priority: data.priority }),
+        ...(data.requestType && { requestType: data.requestType }),
+        ...(data.requestFields && { requestFields: data.requestFields }),
+        files: await collectPendingFiles(user.id, data.fileUrls ?? [])
+      }),
+      content: data.content,
+      attachments: await collectDraftAttachments(user.id, data.content),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    }
+
+    const saved = existing
+      ? await cosmosService.updateItem<Draft>('drafts', id, draft, user.id)
+      : await cosmosService.createItem<Draft>('drafts', draft)
+
+    return {
+      success: true,
+      draft: saved
+    }
+  } catch (error) {
+    console.error('Error saving draft:', error)
+    return {
+      success: false,
+      error: 'Failed to save draft'
+    }
+  }
+}
+
+/**
+ * 保存済みの下書き（ない場合・保存期間を過ぎた場合は null）
+ */
+export async function getDraft(user: User, kind: DraftKind, questionId?: string): Promise<DraftResult> {
+  try {
+    const draft = await getCosmosService().getItem<Draft>('drafts', getDraftId(user.id, kind, questionId), user.id)
+
+    return {
+      success: true,
+      draft: draft && !isDraftExpired(draft) ? draft : null
+    }
+  } catch (error) {
+    console.error('Error getting draft:', error)
+    return {
+      success: false,
+      error: 'Failed to get draft'
+    }
+  }
+}
+
+/**
+ * 下書きを削除（投稿後・破棄時。下書きがなくても成功とする）
+ */
+export async function deleteDraft(
+  user: User,
+  kind: DraftKind,
+  questionId?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const cosmosService = getCosmosService()
+    const id = getDraftId(user.id, kind, questionId)
+
+    if (await cosmosService.getItem<Draft>('drafts', id, user.id)) {
+      await cosmosService.deleteItem('drafts', id, user.id)
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting draft:', error)
+    return {
+      success: false,
+      error: 'Failed to delete draft'
+    }
+  }
+}
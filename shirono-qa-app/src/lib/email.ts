@@ -1,8 +1,9 @@
 import nodemailer from 'nodemailer'
-import { Question, QuestionStatus } from '@/types/question'
+import { Question, QuestionStatus, SlaKind } from '@/types/question'
 import { Answer } from '@/types/answer'
 import { Comment } from '@/types/answer'
 import { User } from '@/types/auth'
+import { getRequestTypeLabel } from './request-types'
 
 export interface EmailConfig {
   host: string
@@ -31,7 +32,11 @@ export enum EmailType {
   ANSWER_POSTED = 'ANSWER_POSTED',
   COMMENT_POSTED = 'COMMENT_POSTED',
   QUESTION_RESOLVED = 'QUESTION_RESOLVED',
-  QUESTION_REJECTED = 'QUESTION_REJECTED'
+  QUESTION_REJECTED = 'QUESTION_REJECTED',
+  QUESTION_ASSIGNED = 'QUESTION_ASSIGNED',
+  QUESTION_DUPLICATE = 'QUESTION_DUPLICATE',
+  MENTIONED = 'MENTIONED',
+  SLA_ESCALATION = 'SLA_ESCALATION'
 }
 
 export interface EmailNotificationData {
@@ -41,6 +46,12 @@ export interface EmailNotificationData {
   commenter?: User
   resolver?: User
   rejector?: User
+  assigner?: User     // 未設定は自動割り当て
+  assignee?: User
+  closer?: User       // 重複としてクローズした管理者
+  original?: Question // 重複の元の質問
+  mentioner?: User    // 回答・コメントでメンションしたユーザー
+  escalation?: { kind: SlaKind; dueAt: Date }
   answer?: Answer
   comment?: Comment
   recipient: User
@@ -529,7 +540,7 @@ function generateEmailContent(type: EmailType, data: EmailNotificationData): { s
   switch (type) {
     case EmailType.QUESTION_POSTED:
       return {
-        subject: '[QAサイト] 新しい質問が投稿されました',
+        subject: `[QAサイト] 新しい${getRequestTypeLabel(data.question.requestType)}が投稿されました`,
         html: generateQuestionPostedHTML(data, questionUrl),
         text: generateQuestionPostedText(data, questionUrl)
       }
@@ -562,11 +573,74 @@ function generateEmailContent(type: EmailType, data: EmailNotificationData): { s
         text: generateQuestionRejectedText(data, questionUrl)
       }
 
+    case EmailType.QUESTION_ASSIGNED:
+      return {
+        subject: '[QAサイト] 質問の担当者に割り当てられました',
+        html: generateQuestionAssignedHTML(data, questionUrl),
+        text: generateQuestionAssignedText(data, questionUrl)
+      }
+
+    case EmailType.QUESTION_DUPLICATE:
+      return {
+        subject: '[QAサイト] 質問が重複としてクローズされました',
+        html: generateQuestionDuplicateHTML(data, questionUrl, `${baseUrl}/questions/${data.original?.id}`),
+        text: generateQuestionDuplicateText(data, questionUrl, `${baseUrl}/questions/${data.original?.id}`)
+      }
+
+    case EmailType.MENTIONED:
+      return {
+        subject: `[QAサイト] ${data.mentioner?.username || 'Unknown'}さんがあなたをメンションしました`,
+        html: generateMentionedHTML(data, questionUrl),
+        text: generateMentionedText(data, questionUrl)
+      }
+
+    case EmailType.SLA_ESCALATION:
+      return {
+        subject: `[QAサイト] ${getSlaKindLabel(data.escalation?.kind)}の期限を超過しています`,
+        html: generateSlaEscalationHTML(data, questionUrl),
+        text: generateSlaEscalationText(data, questionUrl)
+      }
+
     default:
       throw new Error(`Unknown email type: ${type}`)
   }
 }
 
+// 本文の抜粋（長い回答は先頭のみ）
+const EXCERPT_MAX_LENGTH = 200
+
+function getExcerpt(content: string): string {
+  const trimmed = content.trim()
+  return trimmed.length > EXCERPT_MAX_LENGTH ? `${trimmed.slice(0, EXCERPT_MAX_LENGTH)}…` : trimmed
+}
+
+function getSlaKindLabel(kind?: SlaKind): string {
+  return kind === 'firstResponse' ? '初回回答' : '解決'
+}
+
+// 依頼種別のテンプレートで入力された項目
+function generateRequestFieldsHTML(question: Question): string {
+  const fields = question.requestFields ?? []
+  if (fields.length === 0) {
+    return ''
+  }
+
+  return `
+          <div style="background-color: #ffffff; border: 1px solid #e2e8f0; border-radius: 6px; padding: 15px; margin: 20px 0;">
+            <h4>${getRequestTypeLabel(question.requestType)}の内容:</h4>
+            ${fields.map(field => `<p><strong>${field.label}:</strong><br><span style="white-space: pre-wrap;">${field.value}</span></p>`).join('')}
+          </div>`
+}
+
+function generateRequestFieldsText(question: Question): string {
+  const fields = question.requestFields ?? []
+  if (fields.length === 0) {
+    return ''
+  }
+
+  return `\n${getRequestTypeLabel(question.requestType)}の内容:\n${fields.map(field => `${field.label}: ${field.value}`).join('\n')}\n`
+}
+
 // HTMLテンプレート生成関数
 function generateQuestionPostedHTML(data: EmailNotificationData, questionUrl: string): string {
   const attachmentsList = data.question.attachments.length > 0
@@ -578,11 +652,12 @@ function generateQuestionPostedHTML(data: EmailNotificationData, questionUrl: st
     <html>
       <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
         <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
-          <h2 style="color: #2563eb;">新しい質問が投稿されました</h2>
+          <h2 style="color: #2563eb;">新しい${getRequestTypeLabel(data.question.requestType)}が投稿されました</h2>
           
           <div style="background-color: #f8fafc; border-left: 4px solid #2563eb; padding: 15px; margin: 20px 0;">
             <h3 style="margin-top: 0;">${data.question.title}</h3>
             <p><strong>投稿者:</strong> ${data.author?.username || 'Unknown'}</p>
+            <p><strong>種別:</strong> ${getRequestTypeLabel(data.question.requestType)}</p>
             <p><strong>優先度:</strong> ${data.question.priority}</p>
             <p><strong>タグ:</strong> ${data.question.tags.join(', ')}</p>
             <p><strong>投稿日時:</strong> ${data.question.createdAt.toLocaleString('ja-JP')}</p>
@@ -593,6 +668,7 @@ function generateQuestionPostedHTML(data: EmailNotificationData, questionUrl: st
             <p style="white-space: pre-wrap;">${data.question.content}</p>
             ${attachmentsList}
           </div>
+          ${generateRequestFieldsHTML(data.question)}
           
           <div style="text-align: center; margin: 30px 0;">
             <a href="${questionUrl}" style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">質問を確認する</a>
@@ -686,7 +762,12 @@ function generateQuestionResolvedHTML(data: EmailNotificationData, questionUrl:
           </div>
           
           <p>上記の質問が解決済みとしてマークされました。</p>
-          
+          ${data.answer ? `
+          <div style="background-color: #ffffff; border: 1px solid #e2e8f0; border-radius: 6px; padding: 15px; margin: 20px 0;">
+            <h4>ベストアンサー（回答者: ${data.answerer?.username || 'Unknown'}）:</h4>
+            <p style="white-space: pre-wrap;">${getExcerpt(data.answer.content)}</p>
+          </div>
+          ` : ''}
           <div style="text-align: center; margin: 30px 0;">
             <a href="${questionUrl}" style="background-color: #059669; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">質問を確認する</a>
           </div>
@@ -731,23 +812,149 @@ function generateQuestionRejectedHTML(data: EmailNotificationData, questionUrl:
 }
 
 // テキスト形式テンプレート生成関数
+function generateQuestionAssignedHTML(data: EmailNotificationData, questionUrl: string): string {
+  return `
+    <html>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #7c3aed;">質問の担当者に割り当てられました</h2>
+          
+          <div style="background-color: #f5f3ff; border-left: 4px solid #7c3aed; padding: 15px; margin: 20px 0;">
+            <h3 style="margin-top: 0;">${data.question.title}</h3>
+            <p><strong>投稿者:</strong> ${data.author?.username || 'Unknown'}</p>
+            <p><strong>優先度:</strong> ${data.question.priority}</p>
+            <p><strong>割り当て者:</strong> ${data.assigner?.username || '自動割り当て'}</p>
+          </div>
+          
+          <div style="background-color: #ffffff; border: 1px solid #e2e8f0; border-radius: 6px; padding: 15px; margin: 20px 0;">
+            <h4>質問内容:</h4>
+            <p style="white-space: pre-wrap;">${getExcerpt(data.question.content)}</p>
+          </div>
+          
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${questionUrl}" style="background-color: #7c3aed; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">質問を確認する</a>
+          </div>
+          
+          <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 30px 0;">
+          <p style="font-size: 12px; color: #64748b; text-align: center;">
+            このメールはQAサイトシステムから自動送信されています。
+          </p>
+        </div>
+      </body>
+    </html>
+  `
+}
+
+function generateQuestionDuplicateHTML(data: EmailNotificationData, questionUrl: string, originalUrl: string): string {
+  return `
+    <html>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #6b7280;">質問が重複としてクローズされました</h2>
+          
+          <div style="background-color: #f9fafb; border-left: 4px solid #6b7280; padding: 15px; margin: 20px 0;">
+            <h3 style="margin-top: 0;">${data.question.title}</h3>
+            <p><strong>クローズした管理者:</strong> ${data.closer?.username || 'Unknown'}</p>
+            <p><strong>元の質問:</strong> ${data.original?.title || 'Unknown'}</p>
+          </div>
+          
+          <p>この質問は既存の質問と同じ内容のため、重複としてクローズされました。回答は元の質問をご確認ください。</p>
+          
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${originalUrl}" style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">元の質問を確認する</a>
+          </div>
+          <p style="text-align: center;"><a href="${questionUrl}">クローズされた質問</a></p>
+          
+          <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 30px 0;">
+          <p style="font-size: 12px; color: #64748b; text-align: center;">
+            このメールはQAサイトシステムから自動送信されています。
+          </p>
+        </div>
+      </body>
+    </html>
+  `
+}
+
+function generateMentionedHTML(data: EmailNotificationData, questionUrl: string): string {
+  const post = data.answer ?? data.comment
+  return `
+    <html>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #2563eb;">${data.answer ? '回答' : 'コメント'}でメンションされました</h2>
+          
+          <div style="background-color: #eff6ff; border-left: 4px solid #2563eb; padding: 15px; margin: 20px 0;">
+            <h3 style="margin-top: 0;">${data.question.title}</h3>
+            <p><strong>メンションしたユーザー:</strong> ${data.mentioner?.username || 'Unknown'}</p>
+          </div>
+          
+          <div style="background-color: #ffffff; border: 1px solid #e2e8f0; border-radius: 6px; padding: 15px; margin: 20px 0;">
+            <p style="white-space: pre-wrap;">${getExcerpt(post?.content ?? '')}</p>
+          </div>
+          
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${questionUrl}" style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">投稿を確認する</a>
+          </div>
+          
+          <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 30px 0;">
+          <p style="font-size: 12px; color: #64748b; text-align: center;">
+            このメールはQAサイトシステムから自動送信されています。
+          </p>
+        </div>
+      </body>
+    </html>
+  `
+}
+
+function generateSlaEscalationHTML(data: EmailNotificationData, questionUrl: string): string {
+  return `
+    <html>
+      <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+        <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #dc2626;">${getSlaKindLabel(data.escalation?.kind)}の期限を超過しています</h2>
+          
+          <div style="background-color: #fef2f2; border-left: 4px solid #dc2626; padding: 15px; margin: 20px 0;">
+            <h3 style="margin-top: 0;">${data.question.title}</h3>
+            <p><strong>投稿者:</strong> ${data.author?.username || 'Unknown'}</p>
+            <p><strong>優先度:</strong> ${data.question.priority}</p>
+            <p><strong>担当者:</strong> ${data.assignee?.username || '未割り当て'}</p>
+            <p><strong>期限:</strong> ${data.escalation?.dueAt.toLocaleString('ja-JP') || '-'}</p>
+          </div>
+          
+          <p>至急対応状況を確認してください。</p>
+          
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${questionUrl}" style="background-color: #dc2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">質問を確認する</a>
+          </div>
+          
+          <hr style="border: none; border-top: 1px solid #e2e8f0; margin: 30px 0;">
+          <p style="font-size: 12px; color: #64748b; text-align: center;">
+            このメールはQAサイトシステムから自動送信されています。
+          </p>
+        </div>
+      </body>
+    </html>
+  `
+}
+
 function generateQuestionPostedText(data: EmailNotificationData, questionUrl: string): string {
   const attachmentsList = data.question.attachments.length > 0
     ? `\n添付ファイル: ${data.question.attachments.map(att => att.fileName).join(', ')}\n`
     : ''
 
   return `
-新しい質問が投稿されました
+新しい${getRequestTypeLabel(data.question.requestType)}が投稿されました
 
 質問タイトル: ${data.question.title}
 投稿者: ${data.author?.username || 'Unknown'}
+種別: ${getRequestTypeLabel(data.question.requestType)}
 優先度: ${data.question.priority}
 タグ: ${data.question.tags.join(', ')}
 投稿日時: ${data.question.createdAt.toLocaleString('ja-JP')}
 
 質問内容:
 ${data.question.content}
-${attachmentsList}
+${attachmentsList}${generateRequestFieldsText(data.question)}
 
 質問を確認するには以下のリンクをクリックしてください:
 ${questionUrl}
@@ -804,7 +1011,10 @@ function generateQuestionResolvedText(data: EmailNotificationData, questionUrl:
 解決日時: ${data.question.resolvedAt?.toLocaleString('ja-JP') || data.question.updatedAt.toLocaleString('ja-JP')}
 
 上記の質問が解決済みとしてマークされました。
-
+${data.answer ? `
+ベストアンサー（回答者: ${data.answerer?.username || 'Unknown'}）:
+${getExcerpt(data.answer.content)}
+` : ''}
 質問を確認するには以下のリンクをクリックしてください:
 ${questionUrl}
 
@@ -831,6 +1041,85 @@ ${questionUrl}
   `.trim()
 }
 
+function generateQuestionAssignedText(data: EmailNotificationData, questionUrl: string): string {
+  return `
+質問の担当者に割り当てられました
+
+質問タイトル: ${data.question.title}
+投稿者: ${data.author?.username || 'Unknown'}
+優先度: ${data.question.priority}
+割り当て者: ${data.assigner?.username || '自動割り当て'}
+
+質問内容:
+${getExcerpt(data.question.content)}
+
+質問を確認するには以下のリンクをクリックしてください:
+${questionUrl}
+
+---
+このメールはQAサイトシステムから自動送信されています。
+  `.trim()
+}
+
+function generateQuestionDuplicateText(data: EmailNotificationData, questionUrl: string, originalUrl: string): string {
+  return `
+質問が重複としてクローズされました
+
+質問タイトル: ${data.question.title}
+クローズした管理者: ${data.closer?.username || 'Unknown'}
+元の質問: ${data.original?.title || 'Unknown'}
+
+この質問は既存の質問と同じ内容のため、重複としてクローズされました。回答は元の質問をご確認ください。
+
+元の質問を確認するには以下のリンクをクリックしてください:
+${originalUrl}
+
+クローズされた質問:
+${questionUrl}
+
+---
+このメールはQAサイトシステムから自動送信されています。
+  `.trim()
+}
+
+function generateMentionedText(data: EmailNotificationData, questionUrl: string): string {
+  const post = data.answer ?? data.comment
+  return `
+${data.answer ? '回答' : 'コメント'}でメンションされました
+
+質問タイトル: ${data.question.title}
+メンションしたユーザー: ${data.mentioner?.username || 'Unknown'}
+
+${getExcerpt(post?.content ?? '')}
+
+投稿を確認するには以下のリンクをクリックしてください:
+${questionUrl}
+
+---
+このメールはQAサイトシステムから自動送信されています。
+  `.trim()
+}
+
+function generateSlaEscalationText(data: EmailNotificationData, questionUrl: string): string {
+  return `
+${getSlaKindLabel(data.escalation?.kind)}の期限を超過しています
+
+質問タイトル: ${data.question.title}
+投稿者: ${data.author?.username || 'Unknown'}
+優先度: ${data.question.priority}
+担当者: ${data.assignee?.username || '未割り当て'}
+期限: ${data.escalation?.dueAt.toLocaleString('ja-JP') || '-'}
+
+至急対応状況を確認してください。
+
+質問を確認するには以下のリンクをクリックしてください:
+${questionUrl}
+
+---
+このメールはQAサイトシステムから自動送信されています。
+  `.trim()
+}
+
 // メール送信のメイン関数
 export async function sendNotificationEmail(
   type: EmailType,
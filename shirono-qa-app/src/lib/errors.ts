@@ -6,7 +6,8 @@ export enum ErrorCodes {
   INTERNAL_ERROR = 'INTERNAL_ERROR',
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
   FILE_TOO_LARGE = 'FILE_TOO_LARGE',
-  INVALID_FILE_TYPE = 'INVALID_FILE_TYPE'
+  INVALID_FILE_TYPE = 'INVALID_FILE_TYPE',
+  CONFLICT = 'CONFLICT'
 }
 
 export interface AppError {
@@ -78,4 +79,27 @@ export function createSuccessResult<T>(data: T): { success: true; data: T } {
 
 export function createErrorResult(error: AppError): { success: false; error: AppError } {
   return { success: false, error }
-}
\ No newline at end of file
+}
+/**
+ * エラーコードに対応するHTTPステータスを取得
+ */
+export function getErrorStatus(code: ErrorCodes): number {
+  switch (code) {
+    case ErrorCodes.VALIDATION_ERROR:
+    case ErrorCodes.FILE_TOO_LARGE:
+    case ErrorCodes.INVALID_FILE_TYPE:
+      return 400
+    case ErrorCodes.UNAUTHORIZED:
+      return 401
+    case ErrorCodes.FORBIDDEN:
+      return 403
+    case ErrorCodes.NOT_FOUND:
+      return 404
+    case ErrorCodes.CONFLICT:
+      return 409
+    case ErrorCodes.RATE_LIMIT_EXCEEDED:
+      return 429
+    default:
+      return 500
+  }
+}
@@ -0,0 +1,160 @@
+// 判定に使う先頭バイト数（tar は 257 バイト目に識別子がある）
+export const FILE_SIGNATURE_LENGTH = 512
+
+type FileFamily = 'pdf' | 'png' | 'jpeg' | 'gif' | 'bmp' | 'zip' | 'ole' | 'rar' | '7z' | 'gzip' | 'tar' | 'text'
+
+interface FileTypeDefinition {
+  family: FileFamily
+  contentType: string
+}
+
+// 拡張子ごとの形式と保存時の Content-Type（ここにある拡張子のみ添付できる）
+const FILE_TYPES: Record<string, FileTypeDefinition> = {
+  pdf: { family: 'pdf', contentType: 'application/pdf' },
+  doc: { family: 'ole', contentType: 'application/msword' },
+  docx: { family: 'zip', contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  xls: { family: 'ole', contentType: 'application/vnd.ms-excel' },
+  xlsx: { family: 'zip', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  ppt: { family: 'ole', contentType: 'application/vnd.ms-powerpoint' },
+  pptx: { family: 'zip', contentType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' },
+  jpg: { family: 'jpeg', contentType: 'image/jpeg' },
+  jpeg: { family: 'jpeg', contentType: 'image/jpeg' },
+  png: { family: 'png', contentType: 'image/png' },
+  gif: { family: 'gif', contentType: 'image/gif' },
+  bmp: { family: 'bmp', contentType: 'image/bmp' },
+  svg: { family: 'text', contentType: 'image/svg+xml' },
+  txt: { family: 'text', contentType: 'text/plain' },
+  md: { family: 'text', contentType: 'text/markdown' },
+  json: { family: 'text', contentType: 'application/json' },
+  yaml: { family: 'text', contentType: 'application/yaml' },
+  yml: { family: 'text', contentType: 'application/yaml' },
+  log: { family: 'text', contentType: 'text/plain' },
+  ini: { family: 'text', contentType: 'text/plain' },
+  conf: { family: 'text', contentType: 'text/plain' },
+  toml: { family: 'text', contentType: 'application/toml' },
+  xml: { family: 'text', contentType: 'application/xml' },
+  csv: { family: 'text', contentType: 'text/csv' },
+  js: { family: 'text', contentType: 'text/javascript' },
+  ts: { family: 'text', contentType: 'text/typescript' },
+  html: { family: 'text', contentType: 'text/html' },
+  css: { family: 'text', contentType: 'text/css' },
+  py: { family: 'text', contentType: 'text/x-python' },
+  java: { family: 'text', contentType: 'text/x-java' },
+  cs: { family: 'text', contentType: 'text/x-csharp' },
+  cpp: { family: 'text', contentType: 'text/x-c++src' },
+  c: { family: 'text', contentType: 'text/x-csrc' },
+  zip: { family: 'zip', contentType: 'application/zip' },
+  rar: { family: 'rar', contentType: 'application/x-rar-compressed' },
+  '7z': { family: '7z', contentType: 'application/x-7z-compressed' },
+  tar: { family: 'tar', contentType: 'application/x-tar' },
+  gz: { family: 'gzip', contentType: 'application/gzip' }
+}
+
+// 先頭バイトによる形式判定（offset 位置から一致するか）
+const SIGNATURES: { family: FileFamily | 'executable'; bytes: number[]; offset?: number }[] = [
+  { family: 'pdf', bytes: [0x25, 0x50, 0x44, 0x46] },                         // %PDF
+  { family: 'png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { family: 'jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { family: 'gif', bytes: [0x47, 0x49, 0x46, 0x38] },                         // GIF8
+  { family: 'bmp', bytes: [0x42, 0x4d] },                                     // BM
+  { family: 'zip', bytes: [0x50, 0x4b, 0x03, 0x04] },                         // PK（docx/xlsx/pptx も zip）
+  { family: 'zip', bytes: [0x50, 0x4b, 0x05, 0x06] },                         // 空の zip
+  { family: 'ole', bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] }, // doc/xls/ppt
+  { family: 'rar', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },             // Rar!
+  { family: '7z', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { family: 'gzip', bytes: [0x1f, 0x8b] },
+  { family: 'tar', bytes: [0x75, 0x73, 0x74, 0x61, 0x72], offset: 257 },      // ustar
+  // 実行形式は拡張子に関わらず拒否
+  { family: 'executable', bytes: [0x4d, 0x5a] },                              // MZ（Windows）
+  { family: 'executable', bytes: [0x7f, 0x45, 0x4c, 0x46] },                  // ELF
+  { family: 'executable', bytes: [0xfe, 0xed, 0xfa, 0xce] },                  // Mach-O
+  { family: 'executable', bytes: [0xfe, 0xed, 0xfa, 0xcf] },
+  { family: 'executable', bytes: [0xce, 0xfa, 0xed, 0xfe] },
+  { family: 'executable', bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+  { family: 'executable', bytes: [0xca, 0xfe, 0xba, 0xbe] }                   // Mach-O Universal / Java class
+]
+
+export interface FileTypeVerification {
+  valid: boolean
+  contentType: string
+  error?: string
+}
+
+function getExtension(fileName: string): string {
+  const parts = fileName.toLowerCase().split('.')
+  return parts.length > 1 ? parts.pop()! : ''
+}
+
+/**
+ * 拡張子から保存時の Content-Type を決定（ブラウザ申告の値は使わない）
+ */
+export function getContentTypeForFileName(fileName: string): string {
+  return FILE_TYPES[getExtension(fileName)]?.contentType || 'application/octet-stream'
+}
+
+// 許可されるファイル形式
+export const ALLOWED_FILE_EXTENSIONS = Object.keys(FILE_TYPES)
+
+/**
+ * 添付できる拡張子か
+ */
+export function isAllowedFileType(fileName: string): boolean {
+  const extension = getExtension(fileName)
+  return ALLOWED_FILE_EXTENSIONS.includes(extension)
+}
+
+/**
+ * 先頭バイトから形式を判定（該当なしは null）
+ */
+export function detectFileFamily(header: Uint8Array): FileFamily | 'executable' | null {
+  const match = SIGNATURES.find(({ bytes, offset = 0 }) =>
+    header.length >= offset + bytes.length && bytes.every((byte, index) => header[offset + index] === byte)
+  )
+  return match ? match.family : null
+}
+
+/**
+ * テキストとして扱えるか（NUL を含まない。UTF-16 の BOM 付きは許可）
+ */
+function looksLikeText(header: Uint8Array): boolean {
+  const hasUtf16Bom = header.length >= 2 &&
+    ((header[0] === 0xff && header[1] === 0xfe) || (header[0] === 0xfe && header[1] === 0xff))
+  return hasUtf16Bom || !header.includes(0)
+}
+
+/**
+ * ファイルの先頭バイトが拡張子・申告された Content-Type と一致するか検証
+ */
+export function verifyFileContent(fileName: string, header: Uint8Array, declaredType?: string): FileTypeVerification {
+  const extension = getExtension(fileName)
+  const contentType = getContentTypeForFileName(fileName)
+
+  if (!isAllowedFileType(fileName)) {
+    return { valid: false, contentType, error: `File type ".${extension}" is not allowed` }
+  }
+
+  const definition = FILE_TYPES[extension]
+
+  const detected = detectFileFamily(header)
+  const isText = looksLikeText(header)
+
+  // MZ・BM のような短い識別子は文章の書き出しとも一致するため、テキストとして読めるものは対象外
+  if (detected === 'executable' && !isText) {
+    return { valid: false, contentType, error: 'Executable files are not allowed' }
+  }
+
+  const matches = definition.family === 'text' ? isText : detected === definition.family
+
+  if (!matches) {
+    return { valid: false, contentType, error: `File content does not match its extension ".${extension}"` }
+  }
+
+  // 申告された Content-Type がバイナリ形式を示していて内容と異なる場合も拒否
+  // （Windows のブラウザは csv を application/vnd.ms-excel と申告するため、テキストの内容は対象外）
+  const declared = Object.values(FILE_TYPES).find(type => type.contentType === declaredType)
+  if (declared && declared.family !== 'text' && detected !== null && declared.family !== detected) {
+    return { valid: false, contentType, error: `File content does not match declared type "${declaredType}"` }
+  }
+
+  return { valid: true, contentType }
+}
@@ -0,0 +1,92 @@
+export interface ByteRange {
+  start: number
+  end: number    // 末尾を含む
+}
+
+/**
+ * Range ヘッダーを解析（単一範囲のみ対応）
+ * 範囲指定なし・未対応形式の場合は null（全体を返す）、範囲外の場合は 'unsatisfiable'
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) {
+    return null
+  }
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null
+  }
+
+  // 末尾からの指定（bytes=-500）
+  if (match[1] === '') {
+    const suffixLength = parseInt(match[2], 10)
+    if (suffixLength === 0 || size === 0) {
+      return 'unsatisfiable'
+    }
+    return { start: Math.max(0, size - suffixLength), end: size - 1 }
+  }
+
+  const start = parseInt(match[1], 10)
+  const end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1)
+
+  if (start >= size || start > end) {
+    return 'unsatisfiable'
+  }
+
+  return { start, end }
+}
+
+/**
+ * ETag を比較用に正規化（弱いバリデーター W/ を除去）
+ */
+function normalizeEtag(etag: string): string {
+  return etag.trim().replace(/^W\//, '')
+}
+
+/**
+ * HTTP日付の比較は秒単位で行う
+ */
+function toHttpSeconds(date: Date | number): number {
+  return Math.floor(new Date(date).getTime() / 1000)
+}
+
+/**
+ * 条件付きリクエスト（If-None-Match / If-Modified-Since）で 304 を返すべきか判定
+ */
+export function isNotModified(headers: Headers, etag?: string, lastModified?: Date): boolean {
+  const ifNoneMatch = headers.get('if-none-match')
+  if (ifNoneMatch) {
+    // If-None-Match がある場合は If-Modified-Since を無視する
+    if (!etag) {
+      return false
+    }
+    return ifNoneMatch.trim() === '*' ||
+      ifNoneMatch.split(',').some(candidate => normalizeEtag(candidate) === normalizeEtag(etag))
+  }
+
+  const ifModifiedSince = headers.get('if-modified-since')
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince)
+    return !isNaN(since) && toHttpSeconds(lastModified) <= toHttpSeconds(since)
+  }
+
+  return false
+}
+
+/**
+ * If-Range 条件を満たすか判定（満たさない場合は Range を無視して全体を返す）
+ */
+export function isRangeApplicable(headers: Headers, etag?: string, lastModified?: Date): boolean {
+  const ifRange = headers.get('if-range')
+  if (!ifRange) {
+    return true
+  }
+
+  // ETag 指定は強い比較のみ許可
+  if (ifRange.startsWith('"') || ifRange.startsWith('W/')) {
+    return !!etag && !etag.startsWith('W/') && ifRange.trim() === etag
+  }
+
+  const date = Date.parse(ifRange)
+  return !isNaN(date) && !!lastModified && toHttpSeconds(lastModified) === toHttpSeconds(date)
+}
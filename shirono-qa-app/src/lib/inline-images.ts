@@ -0,0 +1,119 @@
+import { getCosmosService } from './cosmos'
+import { getBlobStorageService } from './blob-storage'
+import { getPendingUploadsByPath } from './pending-uploads'
+import { scanStoredAttachment } from './attachment-scan'
+import { getAttachmentPreviewUrl, getPreviewKind } from './attachment-preview'
+import { createAttachmentId, decodeAttachmentId } from './attachment-id'
+import { Attachment } from '@/types/question'
+import { UploadTarget } from '@/types/upload'
+
+/**
+ * 投稿本文に貼り付けた画像
+ * 貼り付け時は通常の添付と同じく添付前ファイルとしてアップロードし、本文にはプレビューAPIの URL を埋め込む。
+ * 投稿の保存時に投稿の添付ファイル（inline）として確定するため、表示時のアクセス権・スキャン状態の確認は添付ファイルと共通になる
+ */
+
+// 本文中のプレビューAPIへの参照（/api/files/preview?id=...&size=...）
+const INLINE_IMAGE_PATTERN = /\/api\/files\/preview\?id=([A-Za-z0-9_-]+)(?:&size=(?:small|large))?/g
+
+export interface InlineImageResult {
+  content: string
+  attachments: Attachment[]
+}
+
+/**
+ * 本文から参照している画像の Blob URL を抽出（重複は除く）
+ */
+export function extractInlineImageUrls(content: string): string[] {
+  const blobUrls = new Set<string>()
+
+  for (const match of content.matchAll(INLINE_IMAGE_PATTERN)) {
+    const blobUrl = decodeAttachmentId(match[1])
+    if (blobUrl) {
+      blobUrls.add(blobUrl)
+    }
+  }
+
+  return Array.from(blobUrls)
+}
+
+/**
+ * 本文に新しく貼り付けた画像を投稿の添付ファイルとして確定
+ * 本人の添付前ファイルのみ投稿のパスへ移動・スキャンし、本文の参照を移動後の URL に置き換える
+ * （登録済みの画像や他人のファイルへの参照はそのまま残す）
+ */
+export async function claimInlineImages(
+  userId: string,
+  target: UploadTarget,
+  content: string,
+  attachments: Attachment[] = []
+): Promise<InlineImageResult> {
+  const blobUrls = extractInlineImageUrls(content)
+  if (blobUrls.length === 0) {
+    return { content, attachments }
+  }
+
+  const cosmosService = getCosmosService()
+  const blobService = getBlobStorageService()
+
+  const toBlobPath = (blobUrl: string) => {
+    try {
+      return blobService.extractFileNameFromUrl(blobUrl)
+    } catch {
+      return null
+    }
+  }
+
+  const registered = new Set(attachments.map(attachment => toBlobPath(attachment.blobUrl)))
+  const pendingByPath = await getPendingUploadsByPath(userId)
+  const targetPath = blobService.generateBlobPath(target.type, target.questionId, target.itemId)
+
+  const claimed: Attachment[] = []
+  const replacements = new Map<string, string>()
+
+  for (const blobUrl of blobUrls) {
+    const blobPath = toBlobPath(blobUrl)
+    const pending = blobPath ? pendingByPath.get(blobPath) : undefined
+    if (!blobPath || registered.has(blobPath) || !pending || getPreviewKind(pending.fileName) !== 'image') {
+      continue
+    }
+
+    let claimedUrl = blobUrl
+    if (blobPath.substring(0, blobPath.lastIndexOf('/')) !== targetPath) {
+      const uniqueFileName = await blobService.generateUniqueFileNameInPath(targetPath, blobPath.split('/').pop()!)
+      const moved = await blobService.moveFile(blobPath, `${targetPath}/${uniqueFileName}`)
+      claimedUrl = moved.blobUrl
+    }
+
+    await cosmosService.deleteItem('pendingUploads', pending.id, pending.userId)
+
+    claimed.push({
+      id: createAttachmentId(),
+      fileName: pending.fileName,
+      fileSize: pending.fileSize,
+      blobUrl: claimedUrl,
+      contentType: pending.contentType,
+      inline: true,
+      ...(await scanStoredAttachment(claimedUrl))
+    })
+    replacements.set(blobUrl, getAttachmentPreviewUrl(claimedUrl))
+  }
+
+  if (claimed.length === 0) {
+    return { content, attachments }
+  }
+
+  return {
+    content: content.replace(INLINE_IMAGE_PATTERN, (reference, attachmentId: string) =>
+      replacements.get(decodeAttachmentId(attachmentId) ?? '') ?? reference
+    ),
+    attachments: [...attachments, ...claimed]
+  }
+}
+
+/**
+ * 投稿に登録済みの貼り付け画像の Blob URL（投稿の削除時に Blob を削除するため）
+ */
+export function getInlineImageUrls(attachments: Attachment[] = []): string[] {
+  return attachments.filter(attachment => attachment.inline).map(attachment => attachment.blobUrl)
+}
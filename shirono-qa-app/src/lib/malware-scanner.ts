@@ -0,0 +1,146 @@
+import { Socket } from 'net'
+
+export interface ScanResult {
+  clean: boolean
+  signature?: string          // 検出されたマルウェア名
+}
+
+/**
+ * マルウェアスキャナーの共通インターフェース
+ * スキャナー自体の障害（接続失敗など）は例外として通知する
+ */
+export interface MalwareScanner {
+  readonly name: string
+  scan(chunks: AsyncIterable<Uint8Array>): Promise<ScanResult>
+}
+
+/**
+ * スキャンを行わないスキャナー（スキャナー未設定時の既定）
+ */
+export class NoopScanner implements MalwareScanner {
+  readonly name = 'noop'
+
+  async scan(): Promise<ScanResult> {
+    return { clean: true }
+  }
+}
+
+export interface ClamdScannerConfig {
+  host: string
+  port: number
+  timeoutMs?: number
+}
+
+// clamd へ送るチャンクの最大サイズ
+const CLAMD_CHUNK_SIZE = 64 * 1024
+
+/**
+ * 書き込みバッファが溜まった場合は捌けるまで待つ（大きなファイルをメモリに溜めない）
+ */
+async function writeChunk(socket: Socket, data: Uint8Array | string): Promise<void> {
+  if (socket.destroyed) {
+    throw new Error('clamd connection closed')
+  }
+  if (!socket.write(data)) {
+    await new Promise<void>((resolve, reject) => {
+      const onClose = () => reject(new Error('clamd connection closed'))
+      socket.once('close', onClose)
+      socket.once('drain', () => {
+        socket.off('close', onClose)
+        resolve()
+      })
+    })
+  }
+}
+
+/**
+ * ClamAV デーモン（clamd）の INSTREAM コマンドでスキャン
+ */
+export class ClamdScanner implements MalwareScanner {
+  readonly name = 'clamd'
+  private config: Required<ClamdScannerConfig>
+
+  constructor(config: ClamdScannerConfig) {
+    this.config = { timeoutMs: 5 * 60 * 1000, ...config }
+  }
+
+  async scan(chunks: AsyncIterable<Uint8Array>): Promise<ScanResult> {
+    const socket = new Socket()
+    const response: Buffer[] = []
+
+    const finished = new Promise<string>((resolve, reject) => {
+      socket.setTimeout(this.config.timeoutMs, () => socket.destroy(new Error('clamd connection timed out')))
+      socket.on('data', data => response.push(data))
+      socket.on('end', () => resolve(Buffer.concat(response).toString('utf8').replace(/\0/g, '').trim()))
+      socket.on('error', reject)
+    })
+    // 送信中に切断された場合も、応答の待機時にまとめてエラーとして扱う
+    finished.catch(() => undefined)
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        socket.once('error', reject)
+        socket.connect(this.config.port, this.config.host, () => {
+          socket.off('error', reject)
+          resolve()
+        })
+      })
+
+      await writeChunk(socket, 'zINSTREAM\0')
+
+      // 各チャンクは 4 バイトのビッグエンディアン長を前置して送信し、長さ 0 で終端
+      for await (const chunk of chunks) {
+        for (let offset = 0; offset < chunk.length; offset += CLAMD_CHUNK_SIZE) {
+          const part = chunk.subarray(offset, offset + CLAMD_CHUNK_SIZE)
+          const length = Buffer.alloc(4)
+          length.writeUInt32BE(part.length)
+          await writeChunk(socket, length)
+          await writeChunk(socket, part)
+        }
+      }
+      socket.end(Buffer.alloc(4))
+
+      const reply = await finished
+
+      // 例: "stream: OK" / "stream: Eicar-Signature FOUND" / "INSTREAM size limit exceeded. ERROR"
+      if (reply.endsWith('OK')) {
+        return { clean: true }
+      }
+
+      const found = reply.match(/^stream: (.+) FOUND$/)
+      if (found) {
+        return { clean: false, signature: found[1] }
+      }
+
+      throw new Error(`Unexpected clamd response: ${reply}`)
+    } finally {
+      socket.destroy()
+    }
+  }
+}
+
+// シングルトンインスタンス
+let malwareScannerInstance: MalwareScanner | null = null
+
+/**
+ * 設定に応じたスキャナーを取得
+ * MALWARE_SCANNER=clamd の場合は CLAMD_HOST / CLAMD_PORT の clamd を使用し、未設定時はスキャンしない
+ */
+export function getMalwareScanner(): MalwareScanner {
+  if (!malwareScannerInstance) {
+    if (process.env.MALWARE_SCANNER === 'clamd') {
+      malwareScannerInstance = new ClamdScanner({
+        host: process.env.CLAMD_HOST || '127.0.0.1',
+        port: parseInt(process.env.CLAMD_PORT || '3310')
+      })
+    } else {
+      // 本番環境でスキャナーが未設定の場合は警告
+      if (process.env.NODE_ENV === 'production' && process.env.VERCEL_ENV !== 'preview') {
+        console.warn('Malware scanner is not configured in production. Attachments will not be scanned.')
+      }
+      malwareScannerInstance = new NoopScanner()
+    }
+  }
+
+  return malwareScannerInstance
+}
@@ -0,0 +1,144 @@
+import MarkdownIt, { type StateCore, type Token } from 'markdown-it'
+import { sanitizeHtml } from './validation'
+import { highlightCode } from './code-highlight'
+import { findMentions, getMentionPath } from './mention-names'
+
+/**
+ * 投稿本文の Markdown（GitHub 形式）を HTML に変換（サーバー側のみ）
+ * 生の HTML は受け付けず、変換結果は sanitizeHtml で許可リストに沿って無害化する
+ */
+
+const TASK_PATTERN = /^\[([ xX])\]\s+/
+
+/**
+ * タスクリスト（- [ ] / - [x]）をチェックボックスに変換
+ */
+function taskLists(state: StateCore) {
+  const tokens = state.tokens
+
+  for (let i = 2; i < tokens.length; i++) {
+    const inline = tokens[i]
+    if (inline.type !== 'inline' || tokens[i - 1].type !== 'paragraph_open' || tokens[i - 2].type !== 'list_item_open') {
+      continue
+    }
+
+    const match = inline.content.match(TASK_PATTERN)
+    const first = inline.children?.[0]
+    if (!match || !first || first.type !== 'text' || !TASK_PATTERN.test(first.content)) {
+      continue
+    }
+
+    first.content = first.content.replace(TASK_PATTERN, '')
+    const checkbox = new state.Token('html_inline', '', 0)
+    checkbox.content = `<input type="checkbox" class="task-list-item-checkbox" disabled${match[1] === ' ' ? '' : ' checked'}> `
+    inline.children!.unshift(checkbox)
+
+    tokens[i - 2].attrJoin('class', 'task-list-item')
+
+    // 親のリストにもクラスを付ける
+    for (let j = i - 3; j >= 0; j--) {
+      if ((tokens[j].type === 'bullet_list_open' || tokens[j].type === 'ordered_list_open') && tokens[j].level === tokens[i - 2].level - 1) {
+        if (!tokens[j].attrGet('class')) {
+          tokens[j].attrJoin('class', 'contains-task-list')
+        }
+        break
+      }
+    }
+  }
+}
+
+/**
+ * リンク・コード以外の本文テキストを順に処理
+ */
+function forEachPlainText(tokens: Token[], callback: (token: Token, children: Token[], index: number) => void) {
+  for (const token of tokens) {
+    if (token.type !== 'inline' || !token.children) {
+      continue
+    }
+
+    let linkDepth = 0
+    token.children.forEach((child, index) => {
+      if (child.type === 'link_open') linkDepth++
+      if (child.type === 'link_close') linkDepth--
+      if (child.type === 'text' && linkDepth === 0) {
+        callback(child, token.children!, index)
+      }
+    })
+  }
+}
+
+/**
+ * メンション（env.mentionUsernames に含まれる @ユーザー名）をリンクに変換
+ */
+function mentionLinks(state: StateCore) {
+  const usernames = state.env?.mentionUsernames as Map<string, string> | undefined
+  if (!usernames || usernames.size === 0) {
+    return
+  }
+
+  const replacements: { children: Token[]; index: number; tokens: Token[] }[] = []
+  forEachPlainText(state.tokens, (text, children, index) => {
+    const mentions = findMentions(text.content).filter(mention => usernames.has(mention.username.toLowerCase()))
+    if (mentions.length === 0) {
+      return
+    }
+
+    const tokens: Token[] = []
+    const pushText = (content: string) => {
+      if (content) {
+        const token = new state.Token('text', '', 0)
+        token.content = content
+        tokens.push(token)
+      }
+    }
+
+    let last = 0
+    for (const mention of mentions) {
+      pushText(text.content.slice(last, mention.start))
+      const open = new state.Token('link_open', 'a', 1)
+      open.attrs = [['href', getMentionPath(usernames.get(mention.username.toLowerCase())!)], ['class', 'mention']]
+      tokens.push(open)
+      pushText(`@${mention.username}`)
+      tokens.push(new state.Token('link_close', 'a', -1))
+      last = mention.end
+    }
+    pushText(text.content.slice(last))
+    replacements.push({ children, index, tokens })
+  })
+
+  // 後ろから置き換えて位置がずれないようにする
+  for (const { children, index, tokens } of replacements.reverse()) {
+    children.splice(index, 1, ...tokens)
+  }
+}
+
+const markdown = new MarkdownIt({
+  html: false,
+  linkify: true,
+  breaks: true,
+  highlight: (code, language) => highlightCode(code, language)
+})
+markdown.core.ruler.after('inline', 'task_lists', taskLists)
+markdown.core.ruler.push('mention_links', mentionLinks)
+
+/**
+ * Markdown を無害化済みの HTML に変換
+ * mentionUsernames に含まれるユーザーへの @メンションはリンクにする
+ */
+export function renderMarkdown(content: string, mentionUsernames: string[] = []): string {
+  const env = { mentionUsernames: new Map(mentionUsernames.map(username => [username.toLowerCase(), username])) }
+  return sanitizeHtml(markdown.render(content, env))
+}
+
+/**
+ * 本文中の @ユーザー名（コードブロック・リンク内は除く、小文字に揃えて重複を除く）
+ */
+export function extractMentionUsernames(content: string): string[] {
+  const usernames = new Set<string>()
+  forEachPlainText(markdown.parse(content, {}), (text) => {
+    for (const mention of findMentions(text.content)) {
+      usernames.add(mention.username.toLowerCase())
+    }
+  })
+  return Array.from(usernames)
+}
@@ -0,0 +1,48 @@
+/**
+ * @メンションの検出（クライアント・サーバー共用）
+ * ユーザー名は英数字・アンダースコア・ハイフン（validateUsername と同じ）
+ */
+
+// メールアドレスなど、英数字の直後の @ はメンションとみなさない
+const MENTION_PATTERN = /(^|[^\w@./-])@([a-zA-Z0-9_-]{3,50})(?![\w-])/g
+
+// 入力中のメンション（カーソル直前の @ から始まる語）
+const ACTIVE_MENTION_PATTERN = /(^|[^\w@./-])@([a-zA-Z0-9_-]{0,50})$/
+
+export interface MentionMatch {
+  username: string
+  start: number   // @ の位置
+  end: number
+}
+
+export function findMentions(text: string): MentionMatch[] {
+  return Array.from(text.matchAll(MENTION_PATTERN), match => {
+    const start = match.index! + match[1].length
+    return {
+      username: match[2],
+      start,
+      end: start + 1 + match[2].length
+    }
+  })
+}
+
+/**
+ * カーソル位置で入力中のメンション（入力補完用）
+ */
+export function getActiveMention(text: string, caret: number): { query: string; start: number } | null {
+  const match = text.slice(0, caret).match(ACTIVE_MENTION_PATTERN)
+  if (!match) {
+    return null
+  }
+  return {
+    query: match[2],
+    start: match.index! + match[1].length
+  }
+}
+
+/**
+ * メンションのリンク先（そのユーザーの投稿一覧）
+ */
+export function getMentionPath(username: string): string {
+  return `/questions?author=${encodeURIComponent(username)}`
+}
@@ -0,0 +1,98 @@
+import { getCosmosService } from './cosmos'
+import { getUsers } from './admin'
+import { canAccessQuestion } from './access-control'
+import { extractMentionUsernames } from './markdown'
+import { sendNotificationEmail, EmailType } from './email'
+import { MentionableUser, User } from '@/types/auth'
+import { Question } from '@/types/question'
+import { Answer, Comment } from '@/types/answer'
+
+// 1つの投稿でメンションできる人数
+export const MAX_MENTIONS_PER_POST = 20
+
+// 入力補完の候補数
+const MENTION_SUGGESTION_LIMIT = 10
+
+async function findQuestion(questionId: string): Promise<Question | null> {
+  const questions = await getCosmosService().queryItems<Question>(
+    'questions',
+    'SELECT * FROM c WHERE c.id = @id',
+    [{ name: '@id', value: questionId }]
+  )
+  return questions[0] ?? null
+}
+
+/**
+ * 本文の @ユーザー名 から質問を閲覧できるユーザーを引く（存在しない・閲覧できないユーザーは無視）
+ */
+export async function resolveMentions(content: string, questionId: string): Promise<User[]> {
+  const usernames = extractMentionUsernames(content).slice(0, MAX_MENTIONS_PER_POST)
+  if (usernames.length === 0) {
+    return []
+  }
+
+  const question = await findQuestion(questionId)
+  if (!question) {
+    return []
+  }
+
+  const users = await getCosmosService().queryItems<User>(
+    'users',
+    'SELECT * FROM c WHERE ARRAY_CONTAINS(@usernames, LOWER(c.username))',
+    [{ name: '@usernames', value: usernames }]
+  )
+
+  return users.filter(user => usernames.includes(user.username.toLowerCase()) && canAccessQuestion(user, question))
+}
+
+/**
+ * メンションの入力補完の候補（質問を閲覧できるユーザーのみ）
+ */
+export async function getMentionableUsers(question: Question, search: string): Promise<MentionableUser[]> {
+  const result = await getUsers(search ? { search } : undefined)
+  if (!result.success || !result.users) {
+    return []
+  }
+
+  return result.users
+    .filter(user => canAccessQuestion(user, question))
+    .sort((a, b) => a.username.localeCompare(b.username))
+    .slice(0, MENTION_SUGGESTION_LIMIT)
+    .map(user => ({ id: user.id, username: user.username }))
+}
+
+/**
+ * 新たにメンションされたユーザーに通知（編集前からメンションされていたユーザーと本人は除く）
+ * 失敗しても投稿は成功とする
+ */
+export async function notifyMentionedUsers(
+  question: Question,
+  post: { answer: Answer } | { comment: Comment },
+  mentioner: User,
+  previousMentionIds: string[] = []
+): Promise<void> {
+  const mentionIds = ('answer' in post ? post.answer.mentions : post.comment.mentions) ?? []
+
+  try {
+    const cosmosService = getCosmosService()
+    for (const userId of mentionIds) {
+      if (userId === mentioner.id || previousMentionIds.includes(userId)) {
+        continue
+      }
+
+      const recipient = await cosmosService.getItem<User>('users', userId)
+      if (!recipient || !canAccessQuestion(recipient, question)) {
+        continue
+      }
+
+      await sendNotificationEmail(EmailType.MENTIONED, recipient.email, {
+        question,
+        mentioner,
+        ...post,
+        recipient
+      })
+    }
+  } catch (emailError) {
+    console.error('Failed to send mention notification email:', emailError)
+  }
+}
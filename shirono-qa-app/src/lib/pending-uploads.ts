@@ -0,0 +1,129 @@
+import { getCosmosService } from './cosmos'
+import { getBlobStorageService } from './blob-storage'
+import { AppError, ErrorHandler } from './errors'
+import { User } from '@/types/auth'
+import { PendingUpload } from '@/types/upload'
+
+export interface AttachFileInfo {
+  fileName: string
+  blobUrl: string
+  size: number
+  contentType: string
+}
+
+/**
+ * アップロード直後のファイルを添付前のファイルとして記録
+ */
+export async function recordPendingUpload(data: Omit<PendingUpload, 'id' | 'createdAt'>): Promise<PendingUpload> {
+  const pendingUpload: PendingUpload = {
+    id: `pending-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    ...data,
+    createdAt: new Date()
+  }
+
+  return await getCosmosService().createItem<PendingUpload>('pendingUploads', pendingUpload)
+}
+
+/**
+ * ユーザーの添付前ファイル（Blob パスをキーとする）
+ */
+export async function getPendingUploadsByPath(userId: string): Promise<Map<string, PendingUpload>> {
+  const pendingUploads = await getCosmosService().queryItems<PendingUpload>(
+    'pendingUploads',
+    'SELECT * FROM c WHERE c.userId = @userId',
+    [{ name: '@userId', value: userId }]
+  )
+
+  return new Map(pendingUploads.map(upload => [upload.blobPath, upload]))
+}
+
+/**
+ * Blob URL に対応する本人の添付前ファイル（投稿前の本文に貼り付けた画像のプレビュー用）
+ */
+export async function findPendingUpload(userId: string, blobUrl: string): Promise<PendingUpload | null> {
+  let blobPath: string
+  try {
+    blobPath = getBlobStorageService().extractFileNameFromUrl(blobUrl)
+  } catch {
+    return null
+  }
+
+  return (await getPendingUploadsByPath(userId)).get(blobPath) ?? null
+}
+
+/**
+ * 質問に添付するファイルを確定
+ * 一時パス（questions/temp/…）など他の場所にあるファイルは、本人の添付前ファイルであれば質問のパスへ移動する
+ */
+export async function claimPendingUploads(
+  user: User,
+  questionId: string,
+  files: AttachFileInfo[]
+): Promise<{ success: boolean; files?: AttachFileInfo[]; error?: AppError }> {
+  try {
+    const cosmosService = getCosmosService()
+    const blobService = getBlobStorageService()
+
+    const pendingByPath = await getPendingUploadsByPath(user.id)
+
+    // 先に全ファイルを検証してから移動する
+    const claims: { file: AttachFileInfo; blobPath: string; pending?: PendingUpload; inPlace: boolean }[] = []
+    for (const file of files) {
+      let blobPath: string
+      try {
+        blobPath = blobService.extractFileNameFromUrl(file.blobUrl)
+      } catch {
+        return { success: false, error: ErrorHandler.createValidationError('Invalid blob URL') }
+      }
+
+      const parsed = blobService.parseBlobPath(blobPath)
+      const inPlace = !!parsed && parsed.type === 'question' && parsed.questionId === questionId
+      const pending = pendingByPath.get(blobPath)
+
+      // 他の質問のファイルを関連付けられないよう、この質問配下か本人の添付前ファイルのみ許可
+      if (!inPlace && !pending) {
+        return { success: false, error: ErrorHandler.createValidationError('Files must be uploaded for this question') }
+      }
+
+      // サイズと形式はクライアントの申告ではなく、アップロード時に検証・記録した値を使う
+      if (pending) {
+        claims.push({ file: { ...file, size: pending.fileSize, contentType: pending.contentType }, blobPath, pending, inPlace })
+        continue
+      }
+
+      const fileInfo = await blobService.getFileInfo(blobPath)
+      if (!fileInfo.exists) {
+        return { success: false, error: ErrorHandler.createValidationError(`File "${file.fileName}" was not found`) }
+      }
+
+      claims.push({
+        file: { ...file, size: fileInfo.size ?? 0, contentType: fileInfo.contentType || 'application/octet-stream' },
+        blobPath,
+        inPlace
+      })
+    }
+
+    const claimedFiles: AttachFileInfo[] = []
+    for (const { file, blobPath, pending, inPlace } of claims) {
+      let blobUrl = file.blobUrl
+
+      if (!inPlace) {
+        const filePath = blobService.generateBlobPath('question', questionId)
+        const uniqueFileName = await blobService.generateUniqueFileNameInPath(filePath, blobPath.split('/').pop()!)
+        const moved = await blobService.moveFile(blobPath, `${filePath}/${uniqueFileName}`)
+        blobUrl = moved.blobUrl
+      }
+
+      if (pending) {
+        await cosmosService.deleteItem('pendingUploads', pending.id, pending.userId)
+      }
+
+      claimedFiles.push({ ...file, blobUrl })
+    }
+
+    return { success: true, files: claimedFiles }
+  } catch (error) {
+    ErrorHandler.logError(error, 'claimPendingUploads')
+    return { success: false, error: ErrorHandler.createInternalError('Failed to attach uploaded files') }
+  }
+}
@@ -0,0 +1,141 @@
+import { Question, QuestionStatus, StatusHistoryEntry } from '@/types/question'
+import { User } from '@/types/auth'
+import { AppError, ErrorCodes } from './errors'
+import { getActiveSlaDueAt } from './sla'
+
+/**
+ * 質問ステータスの遷移表（クライアント・サーバー共用）
+ */
+
+// ステータスを変更する人の立場（質問投稿者は通常グループメンバーも兼ねる）
+export type StatusRole = 'admin' | 'author' | 'member'
+
+type StatusActor = Pick<User, 'id' | 'username' | 'isAdmin' | 'groupId'>
+
+// 遷移元 → 遷移先 → 変更できる立場
+export const STATUS_TRANSITIONS: Record<QuestionStatus, Partial<Record<QuestionStatus, StatusRole[]>>> = {
+  [QuestionStatus.UNANSWERED]: {
+    [QuestionStatus.ANSWERED]: ['admin'],
+    [QuestionStatus.RESOLVED]: ['admin', 'author', 'member'],
+    [QuestionStatus.REJECTED]: ['admin'],
+    [QuestionStatus.CLOSED]: ['admin', 'author']
+  },
+  [QuestionStatus.ANSWERED]: {
+    [QuestionStatus.UNANSWERED]: ['admin'],
+    [QuestionStatus.RESOLVED]: ['admin', 'author', 'member'],
+    [QuestionStatus.REJECTED]: ['admin'],
+    [QuestionStatus.CLOSED]: ['admin', 'author']
+  },
+  [QuestionStatus.RESOLVED]: {
+    [QuestionStatus.ANSWERED]: ['admin', 'author', 'member'],  // 再オープン
+    [QuestionStatus.CLOSED]: ['admin', 'author']
+  },
+  [QuestionStatus.REJECTED]: {
+    [QuestionStatus.UNANSWERED]: ['admin']
+  },
+  [QuestionStatus.CLOSED]: {
+    [QuestionStatus.UNANSWERED]: ['admin'],
+    [QuestionStatus.ANSWERED]: ['admin']
+  }
+}
+
+/**
+ * 質問に対するユーザーの立場
+ */
+export function getStatusRoles(user: StatusActor, question: Pick<Question, 'authorId' | 'groupId'>): StatusRole[] {
+  const roles: StatusRole[] = []
+  if (user.isAdmin) roles.push('admin')
+  if (user.id === question.authorId) roles.push('author')
+  if (user.groupId === question.groupId) roles.push('member')
+  return roles
+}
+
+/**
+ * ユーザーが変更できる遷移先のステータス
+ */
+export function getAllowedStatusTransitions(question: Question, user: StatusActor | null): QuestionStatus[] {
+  if (!user) {
+    return []
+  }
+
+  const roles = getStatusRoles(user, question)
+  return Object.entries(STATUS_TRANSITIONS[question.status] || {})
+    .filter(([, allowedRoles]) => allowedRoles!.some(role => roles.includes(role)))
+    .map(([status]) => status as QuestionStatus)
+}
+
+/**
+ * ステータス変更が遷移表で許可されているか検証
+ * user を省略した場合はシステムによる変更として、遷移の有無のみ確認する
+ */
+export function validateStatusTransition(
+  question: Question,
+  to: QuestionStatus,
+  user?: StatusActor
+): { valid: boolean; error?: AppError } {
+  if (!Object.values(QuestionStatus).includes(to)) {
+    return {
+      valid: false,
+      error: { code: ErrorCodes.VALIDATION_ERROR, message: `Invalid status: ${to}` }
+    }
+  }
+
+  if (question.status === to) {
+    return { valid: true }
+  }
+
+  const allowedRoles = STATUS_TRANSITIONS[question.status]?.[to]
+  if (!allowedRoles) {
+    return {
+      valid: false,
+      error: { code: ErrorCodes.CONFLICT, message: `Cannot change status from ${question.status} to ${to}` }
+    }
+  }
+
+  if (user && !allowedRoles.some(role => getStatusRoles(user, question).includes(role))) {
+    return {
+      valid: false,
+      error: { code: ErrorCodes.FORBIDDEN, message: `You are not allowed to change status from ${question.status} to ${to}` }
+    }
+  }
+
+  return { valid: true }
+}
+
+/**
+ * ステータスを変更した質問を返す（履歴の追加と解決日時・有効な期限の更新を含む）
+ * 遷移の検証は validateStatusTransition で事前に行うこと
+ */
+export function applyStatusTransition(
+  question: Question,
+  to: QuestionStatus,
+  changedBy?: Pick<User, 'id' | 'username'>,
+  reason?: string
+): Question {
+  if (question.status === to) {
+    return question
+  }
+
+  const now = new Date()
+  const entry: StatusHistoryEntry = {
+    from: question.status,
+    to,
+    changedBy: changedBy?.id ?? 'system',
+    ...(changedBy && { changedByName: changedBy.username }),
+    changedAt: now,
+    ...(reason?.trim() && { reason: reason.trim() })
+  }
+
+  return {
+    ...question,
+    status: to,
+    statusHistory: [...(question.statusHistory || []), entry],
+    // 解決日時はクローズ時のみ引き継ぐ
+    resolvedAt: to === QuestionStatus.RESOLVED ? now : to === QuestionStatus.CLOSED ? question.resolvedAt : undefined,
+    slaDueAt: getActiveSlaDueAt({ ...question, status: to }),
+    // 再オープン時はベストアンサーの採用も取り消す
+    ...(question.status === QuestionStatus.RESOLVED && to === QuestionStatus.ANSWERED && { acceptedAnswerId: undefined }),
+    // クローズ以外に変更した場合は重複の指定も解除する
+    ...(to !== QuestionStatus.CLOSED && { duplicateOfId: undefined })
+  }
+}
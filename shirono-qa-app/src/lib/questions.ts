@@ -4,15 +4,37 @@ import {
   CreateQuestionResult,
   UpdateQuestionRequest,
   UpdateQuestionResult,
+  AssignQuestionResult,
+  MarkDuplicateResult,
+  MoveQuestionResult,
   GetQuestionsQuery,
   GetQuestionsResult,
   QuestionStatus,
-  QuestionPriority
+  QuestionPriority,
+  RequestType
 } from '../types/question'
+import { AcceptAnswerResult } from '../types/answer'
 import { getCosmosService } from './cosmos'
 import { isAppError } from './errors'
-import { getAnswersByQuestion, getCommentsByQuestion } from './answers'
+import { getAnswerById, getAnswersByQuestion, getCommentsByQuestion } from './answers'
 import { getBlobStorageService /* , isBlobStorageEnabled */ } from './blob-storage'
+import { embedQuestion, omitContentVector } from './search'
+import { applyStatusTransition, validateStatusTransition } from './question-status'
+import { getAssignableAdmin } from './assignment'
+import { canAccessQuestion } from './access-control'
+import { recordAuditLog } from './audit'
+import { addWatcherIds, getWatcherIds } from './watcher-ids'
+import { computeSlaDueDates, getActiveSlaDueAt } from './sla'
+import { getGroupSlaPolicy } from './sla-escalation'
+import { deleteRevisionsByQuestion, getRevision, hasContentChanged, recordRevision } from './revisions'
+import { renderMarkdown } from './markdown'
+import { claimInlineImages } from './inline-images'
+import { buildRequestFields, isRequestType, toRequestFieldValues, validateRequestFields } from './request-types'
+import { getRequestTemplate } from './request-templates'
+import { validateQuestionTags } from './tag-names'
+import { normalizeQuestionTags } from './tags'
+import { User } from '../types/auth'
+import { Group } from '../types/group'
 
 interface ValidationResult {
   valid: boolean
@@ -48,6 +70,11 @@ export function validateQuestionData(data: CreateQuestionRequest): ValidationRes
     errors.push('Invalid priority value')
   }
 
+  // Request type validation（項目はテンプレートを読み込んで createQuestion で検証）
+  if (data.requestType !== undefined && !isRequestType(data.requestType)) {
+    errors.push('Invalid request type')
+  }
+
   // Attachments validation
   if (data.attachments) {
     if (data.attachments.length > QUESTION_LIMITS.MAX_ATTACHMENTS) {
@@ -96,28 +123,57 @@ export async function createQuestion(
       }
     }
 
+    // 種別のテンプレートに沿って入力項目を検証
+    const requestType = data.requestType ?? RequestType.QUESTION
+    const template = await getRequestTemplate(requestType)
+    const fieldsValidation = validateRequestFields(template.fields, data.requestFields)
+    if (!fieldsValidation.valid) {
+      return {
+        success: false,
+        error: `Invalid question data: ${fieldsValidation.errors.join(', ')}`
+      }
+    }
+
     const cosmosService = getCosmosService()
 
+    // 優先度別のSLAから期限を計算
+    const createdAt = new Date()
+    const slaDueDates = computeSlaDueDates(createdAt, data.priority, await getGroupSlaPolicy(groupId))
+
+    const questionId = `question-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+
+    // 本文に貼り付けた画像を質問の添付ファイルとして確定
+    const inline = await claimInlineImages(authorId, { type: 'question', questionId }, data.content.trim())
+
     // Create a new question
     const question: Question = {
-      id: `question-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      id: questionId,
       title: data.title.trim(),
-      content: data.content.trim(),
+      content: inline.content,
+      contentHtml: renderMarkdown(inline.content),
       authorId,
       groupId,
       status: QuestionStatus.UNANSWERED,
       priority: data.priority,
-      tags: [], // TODO: AI auto-tagging
-      attachments: [], // ファイルアップロードは別途専用APIで処理
-      createdAt: new Date(),
-      updatedAt: new Date()
+      requestType,
+      requestFields: buildRequestFields(template.fields, data.requestFields),
+      ...(data.assigneeId && { assigneeId: data.assigneeId, assignedAt: createdAt }),
+      ...slaDueDates,
+      slaDueAt: slaDueDates.firstResponseDueAt,
+      tags: await normalizeQuestionTags(data.tags ?? []),
+      // 投稿者と担当者は自動でウォッチする
+      watcherIds: data.assigneeId && data.assigneeId !== authorId ? [authorId, data.assigneeId] : [authorId],
+      attachments: inline.attachments, // ファイルアップロードは別途専用APIで処理
+      createdAt,
+      updatedAt: createdAt,
+      contentVector: await tryEmbedQuestion(data.title.trim(), inline.content)
     }
 
     const createdQuestion = await cosmosService.createItem<Question>('questions', question)
 
     return {
       success: true,
-      question: createdQuestion
+      question: omitContentVector(createdQuestion)
     }
   } catch (error) {
     console.error('Error creating question:', error)
@@ -134,9 +190,14 @@ export async function createQuestion(
   }
 }
 
+/**
+ * 質問を更新
+ * ステータスは遷移表に従って変更し、変更者（省略時はシステム）を履歴に記録する
+ */
 export async function updateQuestion(
   questionId: string,
-  data: UpdateQuestionRequest
+  data: UpdateQuestionRequest,
+  changedBy?: User
 ): Promise<UpdateQuestionResult> {
   try {
     const cosmosService = getCosmosService()
@@ -152,23 +213,117 @@ export async function updateQuestion(
 
     const existingQuestion = getResult.question
 
+    if (data.status) {
+      const transition = validateStatusTransition(existingQuestion, data.status, changedBy)
+      if (!transition.valid) {
+        return {
+          success: false,
+          error: transition.error!.message
+        }
+      }
+    }
+
+    // 種別・入力項目を変更する場合は変更後の種別のテンプレートで検証
+    let requestUpdate: Pick<Question, 'requestType' | 'requestFields'> | undefined
+    if (data.requestType !== undefined || data.requestFields !== undefined) {
+      if (data.requestType !== undefined && !isRequestType(data.requestType)) {
+        return {
+          success: false,
+          error: 'Invalid question data: Invalid request type'
+        }
+      }
+
+      const requestType = data.requestType ?? existingQuestion.requestType ?? RequestType.QUESTION
+      const values = data.requestFields ?? toRequestFieldValues(existingQuestion.requestFields)
+      const template = await getRequestTemplate(requestType)
+      const fieldsValidation = validateRequestFields(template.fields, values)
+      if (!fieldsValidation.valid) {
+        return {
+          success: false,
+          error: `Invalid question data: ${fieldsValidation.errors.join(', ')}`
+        }
+      }
+
+      requestUpdate = { requestType, requestFields: buildRequestFields(template.fields, values) }
+    }
+
+    // 手動で編集したタグは同義語を正式名に揃える
+    let tags: string[] | undefined
+    if (data.tags !== undefined) {
+      const tagErrors = validateQuestionTags(data.tags)
+      if (tagErrors.length > 0) {
+        return {
+          success: false,
+          error: `Invalid question data: ${tagErrors.join(', ')}`
+        }
+      }
+      tags = await normalizeQuestionTags(data.tags)
+    }
+
     // Update question
     const updatedQuestion: Question = {
-      ...existingQuestion,
+      ...(data.status
+        ? applyStatusTransition(existingQuestion, data.status, changedBy, data.statusReason)
+        : existingQuestion),
       ...(data.title && { title: data.title.trim() }),
       ...(data.content && { content: data.content.trim() }),
-      ...(data.status && { status: data.status }),
       ...(data.priority && { priority: data.priority }),
+      ...requestUpdate,
+      ...(tags && { tags }),
       ...(data.attachments !== undefined && { attachments: data.attachments }),
-      updatedAt: new Date(),
-      ...(data.status === QuestionStatus.RESOLVED && { resolvedAt: new Date() })
+      updatedAt: new Date()
+    }
+
+    // 優先度が変わった場合は投稿日時から期限を再計算
+    if (updatedQuestion.priority !== existingQuestion.priority) {
+      Object.assign(updatedQuestion, computeSlaDueDates(
+        updatedQuestion.createdAt,
+        updatedQuestion.priority,
+        await getGroupSlaPolicy(updatedQuestion.groupId)
+      ))
+      updatedQuestion.slaDueAt = getActiveSlaDueAt(updatedQuestion)
+      updatedQuestion.slaEscalations = undefined
+    }
+
+    // 本文に新しく貼り付けた画像を添付ファイルとして確定
+    if (changedBy && updatedQuestion.content !== existingQuestion.content) {
+      const inline = await claimInlineImages(
+        changedBy.id,
+        { type: 'question', questionId },
+        updatedQuestion.content,
+        updatedQuestion.attachments
+      )
+      updatedQuestion.content = inline.content
+      updatedQuestion.attachments = inline.attachments
+    }
+
+    // 本文が変わった場合（または未変換の古い質問）は Markdown を変換し直す
+    if (updatedQuestion.content !== existingQuestion.content || existingQuestion.contentHtml === undefined) {
+      updatedQuestion.contentHtml = renderMarkdown(updatedQuestion.content)
+    }
+
+    // タイトル・本文の編集はリビジョンとして記録
+    if (hasContentChanged(existingQuestion, updatedQuestion)) {
+      await recordRevision(
+        { targetType: 'question', targetId: questionId, questionId },
+        existingQuestion,
+        updatedQuestion,
+        changedBy,
+        data.rollbackOf
+      )
+      updatedQuestion.editedAt = updatedQuestion.updatedAt
+    }
+
+    // タイトル・本文が変わった場合は埋め込みベクターを再生成
+    if (updatedQuestion.title !== existingQuestion.title || updatedQuestion.content !== existingQuestion.content) {
+      updatedQuestion.contentVector = await tryEmbedQuestion(updatedQuestion.title, updatedQuestion.content)
     }
 
     const result = await cosmosService.updateItem('questions', questionId, updatedQuestion, existingQuestion.groupId)
 
     return {
       success: true,
-      question: result
+      question: omitContentVector(result)
     }
   } catch (error) {
     console.error('Error updating question:', error)
@@ -185,6 +340,428 @@ export async function updateQuestion(
   }
 }
 
+/**
+ * 質問のタイトル・本文を指定したリビジョンの内容に戻す（ロールバックも新しいリビジョンとして記録）
+ */
+export async function rollbackQuestion(
+  questionId: string,
+  revisionId: string,
+  changedBy: User
+): Promise<UpdateQuestionResult> {
+  const revision = await getRevision('question', questionId, revisionId)
+  if (!revision) {
+    return {
+      success: false,
+      error: 'Revision not found'
+    }
+  }
+
+  return updateQuestion(
+    questionId,
+    { title: revision.title, content: revision.content, rollbackOf: revision.id },
+    changedBy
+  )
+}
+
+/**
+ * 回答をベストアンサーとして採用し、質問を解決済みにする
+ * answerId に null を指定した場合は採用を取り消し、解決済みの質問は回答済みに戻す
+ */
+export async function setAcceptedAnswer(
+  questionId: string,
+  answerId: string | null,
+  changedBy?: User
+): Promise<AcceptAnswerResult> {
+  try {
+    const cosmosService = getCosmosService()
+
+    const getResult = await getQuestion(questionId)
+    if (!getResult.success || !getResult.question) {
+      return {
+        success: false,
+        error: 'Question not found'
+      }
+    }
+
+    const existingQuestion = getResult.question
+
+    // 採用時は解決済みに、解決済みの質問で採用を取り消した場合は回答済みに戻す
+    let nextStatus = existingQuestion.status
+    if (answerId !== null) {
+      nextStatus = QuestionStatus.RESOLVED
+    } else if (existingQuestion.status === QuestionStatus.RESOLVED) {
+      nextStatus = QuestionStatus.ANSWERED
+    }
+
+    const transition = validateStatusTransition(existingQuestion, nextStatus, changedBy)
+    if (!transition.valid) {
+      return {
+        success: false,
+        error: transition.error!.message
+      }
+    }
+
+    if (answerId === null) {
+      const updatedQuestion: Question = {
+        ...applyStatusTransition(existingQuestion, nextStatus, changedBy),
+        acceptedAnswerId: undefined,
+        updatedAt: new Date()
+      }
+
+      const result = await cosmosService.updateItem('questions', questionId, updatedQuestion, existingQuestion.groupId)
+
+      return {
+        success: true,
+        question: omitContentVector(result)
+      }
+    }
+
+    // 他の質問の回答は採用できない
+    const answerResult = await getAnswerById(answerId)
+    if (!answerResult.success || !answerResult.answer || answerResult.answer.questionId !== questionId) {
+      return {
+        success: false,
+        error: 'Answer not found'
+      }
+    }
+
+    const updatedQuestion: Question = {
+      ...applyStatusTransition(existingQuestion, nextStatus, changedBy),
+      acceptedAnswerId: answerId,
+      updatedAt: new Date()
+    }
+
+    const result = await cosmosService.updateItem('questions', questionId, updatedQuestion, existingQuestion.groupId)
+
+    return {
+      success: true,
+      question: omitContentVector(result),
+      answer: answerResult.answer
+    }
+  } catch (error) {
+    console.error('Error setting accepted answer:', error)
+    if (isAppError(error)) {
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+    return {
+      success: false,
+      error: 'Failed to update accepted answer'
+    }
+  }
+}
+
+/**
+ * 質問の担当者を設定（assigneeId に null を指定した場合は割り当てを解除）
+ * 担当者は管理者のみ
+ */
+export async function assignQuestion(
+  questionId: string,
+  assigneeId: string | null
+): Promise<AssignQuestionResult> {
+  try {
+    const cosmosService = getCosmosService()
+
+    const getResult = await getQuestion(questionId)
+    if (!getResult.success || !getResult.question) {
+      return {
+        success: false,
+        error: 'Question not found'
+      }
+    }
+
+    const existingQuestion = getResult.question
+
+    let assignee: User | null = null
+    if (assigneeId !== null) {
+      assignee = await getAssignableAdmin(assigneeId)
+      if (!assignee) {
+        return {
+          success: false,
+          error: 'Assignee must be an admin user'
+        }
+      }
+    }
+
+    const updatedQuestion: Question = {
+      ...existingQuestion,
+      assigneeId: assignee?.id,
+      // 担当者は自動でウォッチする（割り当てを解除してもウォッチは残す）
+      ...(assignee && { watcherIds: addWatcherIds(existingQuestion, [assignee.id]) }),
+      // 同じ担当者の再割り当てでは割り当て日時を変えない
+      assignedAt: !assignee
+        ? undefined
+        : assignee.id === existingQuestion.assigneeId ? existingQuestion.assignedAt : new Date(),
+      updatedAt: new Date()
+    }
+
+    const result = await cosmosService.updateItem('questions', questionId, updatedQuestion, existingQuestion.groupId)
+
+    return {
+      success: true,
+      question: omitContentVector(result),
+      ...(assignee && { assignee })
+    }
+  } catch (error) {
+    console.error('Error assigning question:', error)
+    if (isAppError(error)) {
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+    return {
+      success: false,
+      error: 'Failed to assign question'
+    }
+  }
+}
+
+/**
+ * 質問をウォッチ・ウォッチ解除（閲覧できるかの確認は呼び出し側で行う）
+ * 利用者の編集ではないため更新日時は変えない
+ */
+export async function setQuestionWatching(
+  questionId: string,
+  userId: string,
+  watching: boolean
+): Promise<UpdateQuestionResult> {
+  try {
+    const cosmosService = getCosmosService()
+
+    const getResult = await getQuestion(questionId)
+    if (!getResult.success || !getResult.question) {
+      return {
+        success: false,
+        error: 'Question not found'
+      }
+    }
+
+    // 同時の編集やウォッチと競合した場合は読み直して watcherIds のみ付け直す
+    const result = await cosmosService.modifyItem<Question>(
+      'questions',
+      questionId,
+      getResult.question.groupId,
+      question => {
+        const watcherIds = watching
+          ? addWatcherIds(question, [userId])
+          : getWatcherIds(question).filter(id => id !== userId)
+        return question.watcherIds && watcherIds.length === question.watcherIds.length
+          ? null
+          : { ...question, watcherIds }
+      }
+    )
+    if (!result) {
+      return {
+        success: false,
+        error: 'Question not found'
+      }
+    }
+
+    return {
+      success: true,
+      question: omitContentVector(result)
+    }
+  } catch (error) {
+    console.error('Error updating question watchers:', error)
+    if (isAppError(error)) {
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+    return {
+      success: false,
+      error: 'Failed to update question watchers'
+    }
+  }
+}
+
+/**
+ * 質問を別のグループへ移動（管理者のみ）
+ * groupId はパーティションキーのため、同じIDで移動先のパーティションに作り直してから元の文書を削除する
+ * 回答・コメントは questionId で紐づくためそのまま残る
+ */
+export async function moveQuestionToGroup(
+  questionId: string,
+  groupId: string,
+  movedBy: User
+): Promise<MoveQuestionResult> {
+  try {
+    const cosmosService = getCosmosService()
+
+    const getResult = await getQuestion(questionId)
+    if (!getResult.success || !getResult.question) {
+      return {
+        success: false,
+        error: 'Question not found'
+      }
+    }
+
+    const existingQuestion = getResult.question
+    if (existingQuestion.groupId === groupId) {
+      return {
+        success: false,
+        error: 'Question is already in the group'
+      }
+    }
+
+    const group = await cosmosService.getItem<Group>('groups', groupId)
+    if (!group) {
+      return {
+        success: false,
+        error: 'Group not found'
+      }
+    }
+
+    // 期限は移動先グループのSLAで投稿日時から再計算
+    const movedQuestion: Question = {
+      ...existingQuestion,
+      groupId,
+      ...computeSlaDueDates(existingQuestion.createdAt, existingQuestion.priority, await getGroupSlaPolicy(groupId)),
+      updatedAt: new Date()
+    }
+    movedQuestion.slaDueAt = getActiveSlaDueAt(movedQuestion)
+
+    const created = await cosmosService.createItem<Question>('questions', movedQuestion)
+    try {
+      await cosmosService.deleteItem('questions', questionId, existingQuestion.groupId)
+    } catch (deleteError) {
+      // 元の文書を削除できなかった場合は移動先の文書を取り消して重複を残さない
+      await cosmosService.deleteItem('questions', questionId, groupId)
+      throw deleteError
+    }
+
+    await recordAuditLog({
+      action: 'question.moved',
+      targetType: 'question',
+      targetId: questionId,
+      details: { fromGroupId: existingQuestion.groupId, toGroupId: groupId }
+    }, movedBy)
+
+    return {
+      success: true,
+      question: omitContentVector(created)
+    }
+  } catch (error) {
+    console.error('Error moving question:', error)
+    if (isAppError(error)) {
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+    return {
+      success: false,
+      error: 'Failed to move question'
+    }
+  }
+}
+
+// 重複先をたどる上限（指定の連鎖が循環している場合の保護）
+const DUPLICATE_CHAIN_MAX_DEPTH = 10
+
+/**
+ * 質問を別の質問の重複としてクローズ
+ * 重複先自体が重複の場合は元の質問までたどり、投稿者が閲覧できる質問のみ指定できる
+ */
+export async function markQuestionAsDuplicate(
+  questionId: string,
+  originalId: string,
+  markedBy: User
+): Promise<MarkDuplicateResult> {
+  try {
+    const cosmosService = getCosmosService()
+
+    const getResult = await getQuestion(questionId)
+    if (!getResult.success || !getResult.question) {
+      return {
+        success: false,
+        error: 'Question not found'
+      }
+    }
+
+    const existingQuestion = getResult.question
+
+    let original: Question | undefined
+    let nextId: string | undefined = originalId
+    for (let depth = 0; nextId && depth < DUPLICATE_CHAIN_MAX_DEPTH; depth++) {
+      const originalResult = await getQuestion(nextId)
+      if (!originalResult.success || !originalResult.question) {
+        return {
+          success: false,
+          error: 'Original question not found'
+        }
+      }
+      original = originalResult.question
+      nextId = original.id === questionId ? undefined : original.duplicateOfId
+    }
+
+    if (!original || original.id === questionId) {
+      return {
+        success: false,
+        error: 'Cannot mark a question as a duplicate of itself'
+      }
+    }
+
+    const author = await cosmosService.getItem<User>('users', existingQuestion.authorId)
+    if (!author || !canAccessQuestion(author, original)) {
+      return {
+        success: false,
+        error: 'The author cannot access the original question'
+      }
+    }
+
+    const transition = validateStatusTransition(existingQuestion, QuestionStatus.CLOSED, markedBy)
+    if (!transition.valid) {
+      return {
+        success: false,
+        error: transition.error!.message
+      }
+    }
+
+    const updatedQuestion: Question = {
+      ...applyStatusTransition(existingQuestion, QuestionStatus.CLOSED, markedBy, `重複: ${original.title}`),
+      duplicateOfId: original.id,
+      updatedAt: new Date()
+    }
+
+    const result = await cosmosService.updateItem('questions', questionId, updatedQuestion, existingQuestion.groupId)
+
+    // 重複した質問のウォッチャーは元の質問に引き継ぐ（元の質問の他の項目は読み直した最新の内容を保つ）
+    const carriedWatcherIds = getWatcherIds(existingQuestion)
+    const updatedOriginal = await cosmosService.modifyItem<Question>(
+      'questions',
+      original.id,
+      original.groupId,
+      question => {
+        const watcherIds = addWatcherIds(question, carriedWatcherIds)
+        return watcherIds.length === getWatcherIds(question).length ? null : { ...question, watcherIds }
+      }
+    ) ?? original
+
+    return {
+      success: true,
+      question: omitContentVector(result),
+      original: omitContentVector(updatedOriginal)
+    }
+  } catch (error) {
+    console.error('Error marking question as duplicate:', error)
+    if (isAppError(error)) {
+      return {
+        success: false,
+        error: error.message
+      }
+    }
+    return {
+      success: false,
+      error: 'Failed to mark question as duplicate'
+    }
+  }
+}
+
 export async function getQuestion(questionId: string): Promise<{ success: boolean; question?: Question; error?: string }> {
   try {
     const cosmosService = getCosmosService()
@@ -261,6 +838,27 @@ export async function getQuestions(query: GetQuestionsQuery): Promise<GetQuestio
       parameters.push({ name: '@priority', value: query.priority })
     }
 
+    // Add request type filter（種別導入前の質問は「質問」として扱う）
+    if (query.requestType === RequestType.QUESTION) {
+      sqlQuery += ' AND (NOT IS_DEFINED(c.requestType) OR c.requestType = @requestType)'
+      parameters.push({ name: '@requestType', value: query.requestType })
+    } else if (query.requestType) {
+      sqlQuery += ' AND c.requestType = @requestType'
+      parameters.push({ name: '@requestType', value: query.requestType })
+    }
+
+    // Add tag filter
+    if (query.tag) {
+      sqlQuery += ' AND ARRAY_CONTAINS(c.tags, @tag)'
+      parameters.push({ name: '@tag', value: query.tag })
+    }
+
+    // Add assignee filter
+    if (query.assigneeId) {
+      sqlQuery += ' AND c.assigneeId = @assigneeId'
+      parameters.push({ name: '@assigneeId', value: query.assigneeId })
+    }
+
     // Add author filter
     if (query.authorId) {
       sqlQuery += ' AND c.authorId = @authorId'
@@ -269,7 +867,7 @@ export async function getQuestions(query: GetQuestionsQuery): Promise<GetQuestio
 
     // Add search filter
     if (query.search) {
-      sqlQuery += ' AND (CONTAINS(LOWER(c.title), LOWER(@search)) OR CONTAINS(LOWER(c.content), LOWER(@search)) OR ARRAY_CONTAINS(c.tags, @search, true))'
+      sqlQuery += ' AND (CONTAINS(LOWER(c.title), LOWER(@search)) OR CONTAINS(LOWER(c.content), LOWER(@search)) OR ARRAY_CONTAINS(c.tags, @search, true) OR EXISTS(SELECT VALUE f FROM f IN c.requestFields WHERE CONTAINS(LOWER(f.value), LOWER(@search))))'
       parameters.push({ name: '@search', value: query.search })
     }
 
@@ -284,6 +882,12 @@ export async function getQuestions(query: GetQuestionsQuery): Promise<GetQuestio
       parameters.push({ name: '@endDate', value: query.endDate.toISOString() })
     }
 
+    // 期限順は期限が有効な対応中（未回答・回答済み）の質問のみ
+    if (query.sortBy === 'slaDueAt') {
+      sqlQuery += ' AND IS_DEFINED(c.slaDueAt) AND ARRAY_CONTAINS(@statuses, c.status)'
+      parameters.push({ name: '@statuses', value: [QuestionStatus.UNANSWERED, QuestionStatus.ANSWERED] })
+    }
+
     // Add sorting
     const sortField = query.sortBy || 'createdAt'
     const sortOrder = query.sortOrder || 'desc'
@@ -304,7 +908,7 @@ export async function getQuestions(query: GetQuestionsQuery): Promise<GetQuestio
 
       return {
         success: true,
-        questions: result.items || [],
+        questions: (result.items || []).map(omitContentVector),
         total: result.items?.length || 0, // Note: Cosmos DB doesn't provide total count easily
         page,
         continuationToken: result.continuationToken
@@ -315,7 +919,7 @@ export async function getQuestions(query: GetQuestionsQuery): Promise<GetQuestio
 
       return {
         success: true,
-        questions,
+        questions: questions.map(omitContentVector),
         total: questions.length,
         page: 1
       }
@@ -335,6 +939,18 @@ export async function getQuestions(query: GetQuestionsQuery): Promise<GetQuestio
   }
 }
 
+/**
+ * 埋め込みベクターを生成（失敗時は未設定のまま保存し、バックフィルで補完する）
+ */
+async function tryEmbedQuestion(title: string, content: string): Promise<number[] | undefined> {
+  try {
+    return await embedQuestion({ title, content })
+  } catch (error) {
+    console.error('Error generating question embedding:', error)
+    return undefined
+  }
+}
+
 export async function updateQuestionTimestamp(questionId: string): Promise<{ success: boolean; error?: string }> {
   try {
     const cosmosService = getCosmosService()
@@ -498,10 +1114,18 @@ export async function deleteQuestionWithRelatedData(questionId: string): Promise
       // 回答削除に失敗しても処理続行
     }
 
-    // 4. 質問本体を削除
+    // 4. 質問・回答・コメントの編集履歴を削除
+    try {
+      await deleteRevisionsByQuestion(questionId)
+    } catch (error) {
+      console.error('Error deleting revisions:', error)
+      // 履歴削除に失敗しても処理続行
+    }
+
+    // 5. 質問本体を削除
     await cosmosService.deleteItem('questions', questionId, existingQuestion.groupId)
 
-    // 5. 添付ファイルを削除（非同期で実行、エラーが発生しても全体の削除処理は成功とする）
+    // 6. 添付ファイルを削除（非同期で実行、エラーが発生しても全体の削除処理は成功とする）
     if (attachmentUrls.length > 0) {
       deleteBlobFiles(attachmentUrls).catch(error => {
         console.error('Failed to delete some blob files:', error)
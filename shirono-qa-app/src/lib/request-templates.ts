@@ -0,0 +1,98 @@
+import { getCosmosService } from './cosmos'
+import { DEFAULT_REQUEST_TEMPLATES, validateTemplateFields } from './request-types'
+import { User } from '@/types/auth'
+import { RequestType } from '@/types/question'
+import { RequestTemplate, RequestTemplateField, RequestTemplateResult } from '@/types/request-template'
+
+/**
+ * 依頼種別のテンプレート（管理者が設定していない種別は既定のテンプレート）
+ */
+export async function getRequestTemplate(requestType: RequestType): Promise<RequestTemplate> {
+  const stored = await getCosmosService().getItem<RequestTemplate>('requestTemplates', requestType)
+  return stored ?? {
+    id: requestType,
+    requestType,
+    fields: DEFAULT_REQUEST_TEMPLATES[requestType]
+  }
+}
+
+/**
+ * 全種別のテンプレート
+ */
+export async function getRequestTemplates(): Promise<RequestTemplate[]> {
+  return Promise.all(Object.values(RequestType).map(getRequestTemplate))
+}
+
+/**
+ * 種別のテンプレートを設定（管理者のみ）
+ * 変更前に投稿された質問は投稿時の項目名で保存しているため、そのまま表示できる
+ */
+export async function updateRequestTemplate(
+  requestType: RequestType,
+  fields: RequestTemplateField[],
+  updatedBy: User
+): Promise<RequestTemplateResult> {
+  try {
+    const validation = validateTemplateFields(fields)
+    if (!validation.valid) {
+      return {
+        success: false,
+        error: validation.errors.join(', ')
+      }
+    }
+
+    const cosmosService = getCosmosService()
+    const template: RequestTemplate = {
+      id: requestType,
+      requestType,
+      fields: fields.map(field => ({
+        key: field.key,
+        label: field.label.trim(),
+        type: field.type,
+        required: field.required,
+        ...(field.placeholder?.trim() && { placeholder: field.placeholder.trim() })
+      })),
+      updatedAt: new Date(),
+      updatedBy: updatedBy.id
+    }
+
+    const existing = await cosmosService.getItem<RequestTemplate>('requestTemplates', requestType)
+    const saved = existing
+      ? await cosmosService.updateItem<RequestTemplate>('requestTemplates', requestType, template)
+      : await cosmosService.createItem<RequestTemplate>('requestTemplates', template)
+
+    return {
+      success: true,
+      template: saved
+    }
+  } catch (error) {
+    console.error('Error updating request template:', error)
+    return {
+      success: false,
+      error: 'Failed to update request template'
+    }
+  }
+}
+
+/**
+ * 種別のテンプレートを既定に戻す
+ */
+export async function resetRequestTemplate(requestType: RequestType): Promise<RequestTemplateResult> {
+  try {
+    const cosmosService = getCosmosService()
+    if (await cosmosService.getItem<RequestTemplate>('requestTemplates', requestType)) {
+      await cosmosService.deleteItem('requestTemplates', requestType)
+    }
+
+    return {
+      success: true,
+      template: await getRequestTemplate(requestType)
+    }
+  } catch (error) {
+    console.error('Error resetting request template:', error)
+    return {
+      success: false,
+      error: 'Failed to reset request template'
+    }
+  }
+}
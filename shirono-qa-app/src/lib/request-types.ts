@@ -0,0 +1,178 @@
+import { RequestFieldValue, RequestType } from '@/types/question'
+import { RequestFieldType, RequestTemplateField } from '@/types/request-template'
+
+/**
+ * 依頼種別とテンプレートの入力項目の検証（クライアント・サーバー共用）
+ */
+
+export const REQUEST_TYPE_LABELS: Record<RequestType, string> = {
+  [RequestType.QUESTION]: '質問',
+  [RequestType.VERIFICATION]: '検証依頼',
+  [RequestType.INVESTIGATION]: '調査依頼'
+}
+
+export const REQUEST_TEMPLATE_LIMITS = {
+  MAX_FIELDS: 20,
+  KEY_MAX_LENGTH: 50,
+  LABEL_MAX_LENGTH: 50,
+  PLACEHOLDER_MAX_LENGTH: 200,
+  VALUE_MAX_LENGTH: 2000
+} as const
+
+const FIELD_TYPES: RequestFieldType[] = ['text', 'textarea', 'date']
+const FIELD_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// 既定のテンプレート（管理者が設定していない種別に適用）
+export const DEFAULT_REQUEST_TEMPLATES: Record<RequestType, RequestTemplateField[]> = {
+  [RequestType.QUESTION]: [
+    { key: 'environment', label: '環境', type: 'textarea', required: false, placeholder: 'OS・ツールのバージョン、利用しているサービスなど' }
+  ],
+  [RequestType.VERIFICATION]: [
+    { key: 'environment', label: '検証環境', type: 'textarea', required: true, placeholder: 'OS・リージョン・SKU・バージョンなど' },
+    { key: 'azureResources', label: '対象の Azure リソース', type: 'textarea', required: false, placeholder: '例：App Service、Azure OpenAI（gpt-4o）' },
+    { key: 'expectedResult', label: '期待する結果', type: 'textarea', required: true },
+    { key: 'actualResult', label: '実際の結果', type: 'textarea', required: false, placeholder: 'すでに試した場合の結果・エラーメッセージ' },
+    { key: 'deadline', label: '希望期限', type: 'date', required: false }
+  ],
+  [RequestType.INVESTIGATION]: [
+    { key: 'scope', label: '調査してほしい内容', type: 'textarea', required: true, placeholder: '知りたいこと・判断に使いたいことなど' },
+    { key: 'azureResources', label: '対象の Azure リソース', type: 'textarea', required: false },
+    { key: 'deadline', label: '希望期限', type: 'date', required: false }
+  ]
+}
+
+export function isRequestType(value: unknown): value is RequestType {
+  return Object.values(RequestType).includes(value as RequestType)
+}
+
+/**
+ * 種別の表示名（未設定は種別導入前の質問）
+ */
+export function getRequestTypeLabel(requestType?: RequestType): string {
+  return REQUEST_TYPE_LABELS[requestType ?? RequestType.QUESTION] ?? REQUEST_TYPE_LABELS[RequestType.QUESTION]
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false
+  }
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+/**
+ * 管理者が設定するテンプレートの入力項目を検証
+ */
+export function validateTemplateFields(fields: unknown): { valid: boolean; errors: string[] } {
+  if (!Array.isArray(fields)) {
+    return { valid: false, errors: ['Template fields must be an array'] }
+  }
+
+  const errors: string[] = []
+  if (fields.length > REQUEST_TEMPLATE_LIMITS.MAX_FIELDS) {
+    errors.push(`Maximum ${REQUEST_TEMPLATE_LIMITS.MAX_FIELDS} fields allowed`)
+  }
+
+  const keys = new Set<string>()
+  fields.forEach((field: Partial<RequestTemplateField> | null, index) => {
+    const position = `Field ${index + 1}`
+    if (!field || typeof field !== 'object') {
+      errors.push(`${position} must be an object`)
+      return
+    }
+
+    if (typeof field.key !== 'string' || !FIELD_KEY_PATTERN.test(field.key) || field.key.length > REQUEST_TEMPLATE_LIMITS.KEY_MAX_LENGTH) {
+      errors.push(`${position}: key must start with a letter and contain only letters, digits and underscores`)
+    } else if (keys.has(field.key)) {
+      errors.push(`${position}: duplicate key ${field.key}`)
+    } else {
+      keys.add(field.key)
+    }
+
+    if (typeof field.label !== 'string' || field.label.trim() === '') {
+      errors.push(`${position}: label is required`)
+    } else if (field.label.length > REQUEST_TEMPLATE_LIMITS.LABEL_MAX_LENGTH) {
+      errors.push(`${position}: label must be ${REQUEST_TEMPLATE_LIMITS.LABEL_MAX_LENGTH} characters or less`)
+    }
+
+    if (!FIELD_TYPES.includes(field.type as RequestFieldType)) {
+      errors.push(`${position}: invalid field type`)
+    }
+
+    if (typeof field.required !== 'boolean') {
+      errors.push(`${position}: required must be a boolean`)
+    }
+
+    if (field.placeholder !== undefined && (typeof field.placeholder !== 'string' || field.placeholder.length > REQUEST_TEMPLATE_LIMITS.PLACEHOLDER_MAX_LENGTH)) {
+      errors.push(`${position}: placeholder must be ${REQUEST_TEMPLATE_LIMITS.PLACEHOLDER_MAX_LENGTH} characters or less`)
+    }
+  })
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * 入力値の形式（項目キーごとの文字列）か
+ */
+export function isRequestFieldValues(values: unknown): values is Record<string, string> {
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    return false
+  }
+
+  const entries = Object.entries(values as Record<string, unknown>)
+  return entries.length <= REQUEST_TEMPLATE_LIMITS.MAX_FIELDS &&
+    entries.every(([, value]) => typeof value === 'string' && value.length <= REQUEST_TEMPLATE_LIMITS.VALUE_MAX_LENGTH)
+}
+
+/**
+ * テンプレートに沿って入力値を検証（テンプレートにない項目は無視する）
+ */
+export function validateRequestFields(
+  fields: RequestTemplateField[],
+  values: unknown
+): { valid: boolean; errors: string[] } {
+  if (values !== undefined && !isRequestFieldValues(values)) {
+    return {
+      valid: false,
+      errors: [`Request fields must be strings of ${REQUEST_TEMPLATE_LIMITS.VALUE_MAX_LENGTH} characters or less`]
+    }
+  }
+
+  const errors: string[] = []
+  for (const field of fields) {
+    const value = values?.[field.key]?.trim() ?? ''
+
+    if (value === '') {
+      if (field.required) {
+        errors.push(`${field.label} is required`)
+      }
+      continue
+    }
+
+    if (field.type === 'date' && !isValidDate(value)) {
+      errors.push(`${field.label} must be a date (YYYY-MM-DD)`)
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * 質問に保存する入力値（テンプレートの順に、入力された項目のみ）
+ */
+export function buildRequestFields(
+  fields: RequestTemplateField[],
+  values?: Record<string, string>
+): RequestFieldValue[] {
+  return fields
+    .map(field => ({ key: field.key, label: field.label, value: values?.[field.key]?.trim() ?? '' }))
+    .filter(field => field.value !== '')
+}
+
+/**
+ * 保存済みの入力値をフォームの初期値に戻す
+ */
+export function toRequestFieldValues(requestFields?: RequestFieldValue[]): Record<string, string> {
+  return Object.fromEntries((requestFields ?? []).map(field => [field.key, field.value]))
+}
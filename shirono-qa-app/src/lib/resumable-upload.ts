@@ -0,0 +1,128 @@
+import { Attachment, Question } from '@/types/question'
+import { Answer, Comment } from '@/types/answer'
+import { UploadPlan, UploadTarget } from '@/types/upload'
+
+// ブロックごとの再試行回数
+const MAX_BLOCK_RETRIES = 3
+// 再試行の初回待機時間（ミリ秒、以降は倍々で増加）
+const RETRY_BASE_DELAY_MS = 1000
+
+export interface ResumableUploadOptions {
+  sessionId?: string                                           // 指定時は既存セッションを再開
+  onSessionCreated?: (sessionId: string) => void
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void
+}
+
+export interface ResumableUploadResult {
+  sessionId: string
+  attachment: Attachment
+  question?: Question
+  answer?: Answer
+  comment?: Comment
+}
+
+async function requestJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, { credentials: 'include', ...init })
+  const data = await response.json().catch(() => ({}))
+
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed: ${response.status}`)
+  }
+
+  return data as T
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+function fetchPlan(sessionId: string): Promise<UploadPlan> {
+  return requestJson<UploadPlan>(`/api/files/upload-sessions/${sessionId}`)
+}
+
+/**
+ * 1ブロックをストレージへ直接アップロード（失敗時は再試行）
+ * 書き込み用URLの期限切れ（403）の場合はURLを再取得する
+ */
+async function putBlock(plan: UploadPlan, blockId: string, chunk: Blob): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetch(
+        `${plan.uploadUrl}&comp=block&blockid=${encodeURIComponent(blockId)}`,
+        { method: 'PUT', body: chunk }
+      )
+
+      if (response.ok) {
+        return
+      }
+
+      if (response.status === 403) {
+        plan.uploadUrl = (await fetchPlan(plan.sessionId)).uploadUrl
+      }
+
+      throw new Error(`Block upload failed: ${response.status}`)
+    } catch (error) {
+      if (attempt >= MAX_BLOCK_RETRIES) {
+        throw error
+      }
+      await wait(RETRY_BASE_DELAY_MS * 2 ** attempt)
+    }
+  }
+}
+
+/**
+ * ファイルをブロック単位でストレージへ直接アップロードし、添付ファイルとして確定
+ * 途中で失敗した場合は sessionId を指定して再度呼び出すと未送信のブロックから再開する
+ */
+export async function uploadFileResumable(
+  file: File,
+  target: UploadTarget,
+  options: ResumableUploadOptions = {}
+): Promise<ResumableUploadResult> {
+  const plan = options.sessionId
+    ? await fetchPlan(options.sessionId)
+    : await requestJson<UploadPlan>('/api/files/upload-sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        fileName: file.name,
+        fileSize: file.size,
+        contentType: file.type || 'application/octet-stream',
+        target
+      })
+    })
+
+  options.onSessionCreated?.(plan.sessionId)
+
+  const uploaded = new Set(plan.uploadedBlockIds)
+  const blockRange = (index: number) => [
+    index * plan.blockSize,
+    Math.min((index + 1) * plan.blockSize, file.size)
+  ] as const
+
+  let uploadedBytes = plan.blockIds.reduce((total, blockId, index) => {
+    const [start, end] = blockRange(index)
+    return uploaded.has(blockId) ? total + (end - start) : total
+  }, 0)
+  options.onProgress?.(uploadedBytes, file.size)
+
+  for (let index = 0; index < plan.blockIds.length; index++) {
+    const blockId = plan.blockIds[index]
+    if (uploaded.has(blockId)) {
+      continue
+    }
+
+    const [start, end] = blockRange(index)
+    await putBlock(plan, blockId, file.slice(start, end))
+
+    uploadedBytes += end - start
+    options.onProgress?.(uploadedBytes, file.size)
+  }
+
+  const committed = await requestJson<Omit<ResumableUploadResult, 'sessionId'>>(
+    `/api/files/upload-sessions/${plan.sessionId}/commit`,
+    { method: 'POST' }
+  )
+
+  return { ...committed, sessionId: plan.sessionId }
+}
@@ -0,0 +1,71 @@
+import { validateSession } from './auth'
+import { getQuestion } from './questions'
+import { getAnswerById, getCommentById } from './answers'
+import { canAccessQuestion } from './access-control'
+import { AppError, ErrorCodes } from './errors'
+import { User } from '@/types/auth'
+import { RevisionTargetType } from '@/types/revision'
+
+export interface AuthorizeRevisionAccessResult {
+  success: boolean
+  user?: User
+  error?: AppError
+}
+
+const TARGET_LABELS: Record<RevisionTargetType, string> = {
+  question: 'Question',
+  answer: 'Answer',
+  comment: 'Comment'
+}
+
+/**
+ * 投稿が属する質問のIDを取得（投稿が存在しない場合は null）
+ */
+async function resolveQuestionId(targetType: RevisionTargetType, targetId: string): Promise<string | null> {
+  if (targetType === 'answer') {
+    const result = await getAnswerById(targetId)
+    return result.answer?.questionId ?? null
+  }
+
+  if (targetType === 'comment') {
+    // 削除済み（返信が残っているため「削除されました」として表示中）のコメントも存在しないものとして扱う
+    const result = await getCommentById(targetId)
+    return result.comment && !result.comment.deletedAt ? result.comment.questionId : null
+  }
+
+  return targetId
+}
+
+/**
+ * 編集履歴APIの認証と、投稿が属する質問の閲覧権限を確認
+ */
+export async function authorizeRevisionAccess(
+  sessionToken: string | undefined,
+  targetType: RevisionTargetType,
+  targetId: string
+): Promise<AuthorizeRevisionAccessResult> {
+  if (!sessionToken) {
+    return { success: false, error: { code: ErrorCodes.UNAUTHORIZED, message: 'Authentication required' } }
+  }
+
+  const authResult = await validateSession(sessionToken)
+  if (!authResult.valid || !authResult.user) {
+    return { success: false, error: { code: ErrorCodes.UNAUTHORIZED, message: 'Invalid session' } }
+  }
+
+  const questionId = await resolveQuestionId(targetType, targetId)
+  if (!questionId) {
+    return { success: false, error: { code: ErrorCodes.NOT_FOUND, message: `${TARGET_LABELS[targetType]} not found` } }
+  }
+
+  const questionResult = await getQuestion(questionId)
+  if (!questionResult.success || !questionResult.question) {
+    return { success: false, error: { code: ErrorCodes.NOT_FOUND, message: 'Question not found' } }
+  }
+
+  if (!canAccessQuestion(authResult.user, questionResult.question)) {
+    return { success: false, error: { code: ErrorCodes.FORBIDDEN, message: 'Access denied' } }
+  }
+
+  return { success: true, user: authResult.user }
+}
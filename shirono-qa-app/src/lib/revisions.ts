@@ -0,0 +1,144 @@
+import crypto from 'crypto'
+import { getCosmosService } from './cosmos'
+import { User } from '@/types/auth'
+import { Revision, RevisionTargetType, GetRevisionsResult } from '@/types/revision'
+
+interface RevisionTarget {
+  targetType: RevisionTargetType
+  targetId: string
+  questionId: string
+}
+
+interface RevisionSnapshot {
+  title?: string
+  content: string
+}
+
+// 編集前の内容（最初の編集時に元の版として記録する）
+interface OriginalSnapshot extends RevisionSnapshot {
+  authorId: string
+  createdAt: Date
+  editedAt?: Date
+}
+
+/**
+ * タイトル・本文が変わったか
+ */
+export function hasContentChanged(before: RevisionSnapshot, after: RevisionSnapshot): boolean {
+  return before.content !== after.content || (before.title ?? '') !== (after.title ?? '')
+}
+
+/**
+ * 編集内容をリビジョンとして記録
+ * まだ履歴がない場合は編集前の内容も元の版として記録する
+ */
+export async function recordRevision(
+  target: RevisionTarget,
+  before: OriginalSnapshot,
+  after: RevisionSnapshot,
+  editor?: Pick<User, 'id' | 'username'>,
+  rollbackOf?: string
+): Promise<Revision> {
+  const cosmosService = getCosmosService()
+
+  const existing = await getRevisions(target.targetType, target.targetId)
+  if (!existing.success) {
+    throw new Error(existing.error)
+  }
+
+  if (existing.revisions!.length === 0) {
+    await cosmosService.createItem<Revision>('revisions', {
+      id: crypto.randomUUID(),
+      ...target,
+      ...(before.title !== undefined && { title: before.title }),
+      content: before.content,
+      editedBy: before.authorId,
+      createdAt: before.editedAt ?? before.createdAt
+    })
+  }
+
+  return cosmosService.createItem<Revision>('revisions', {
+    id: crypto.randomUUID(),
+    ...target,
+    ...(after.title !== undefined && { title: after.title }),
+    content: after.content,
+    editedBy: editor?.id ?? 'system',
+    ...(editor && { editedByName: editor.username }),
+    createdAt: new Date(),
+    ...(rollbackOf && { rollbackOf })
+  })
+}
+
+/**
+ * 投稿のリビジョン一覧（古い順）
+ */
+export async function getRevisions(targetType: RevisionTargetType, targetId: string): Promise<GetRevisionsResult> {
+  try {
+    const cosmosService = getCosmosService()
+
+    const revisions = await cosmosService.queryItems<Revision>(
+      'revisions',
+      'SELECT * FROM c WHERE c.targetType = @targetType AND c.targetId = @targetId ORDER BY c.createdAt ASC',
+      [
+        { name: '@targetType', value: targetType },
+        { name: '@targetId', value: targetId }
+      ]
+    )
+
+    return {
+      success: true,
+      revisions
+    }
+  } catch (error) {
+    console.error('Error getting revisions:', error)
+    return {
+      success: false,
+      error: 'Failed to get revisions'
+    }
+  }
+}
+
+/**
+ * 投稿の特定のリビジョン
+ */
+export async function getRevision(
+  targetType: RevisionTargetType,
+  targetId: string,
+  revisionId: string
+): Promise<Revision | null> {
+  const result = await getRevisions(targetType, targetId)
+  return result.revisions?.find(revision => revision.id === revisionId) ?? null
+}
+
+/**
+ * 質問とその回答・コメントのリビジョンをすべて削除（質問の削除時）
+ */
+export async function deleteRevisionsByQuestion(questionId: string): Promise<void> {
+  const cosmosService = getCosmosService()
+
+  const revisions = await cosmosService.queryItems<Revision>(
+    'revisions',
+    'SELECT * FROM c WHERE c.questionId = @questionId',
+    [{ name: '@questionId', value: questionId }]
+  )
+
+  for (const revision of revisions) {
+    await cosmosService.deleteItem('revisions', revision.id, questionId)
+  }
+}
+
+/**
+ * 投稿のリビジョンをすべて削除（コメントの削除時）
+ */
+export async function deleteRevisions(target: RevisionTarget): Promise<void> {
+  const cosmosService = getCosmosService()
+
+  const result = await getRevisions(target.targetType, target.targetId)
+  if (!result.success) {
+    throw new Error(result.error)
+  }
+
+  for (const revision of result.revisions!) {
+    await cosmosService.deleteItem('revisions', revision.id, target.questionId)
+  }
+}
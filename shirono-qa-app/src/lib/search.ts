@@ -2,14 +2,39 @@ import {
   SearchQuery,
   SearchResponse,
   SearchResult,
+  SearchResultQuestion,
   SimilarQuestionsResult,
   AutoTagResult,
   SearchSuggestionsResult,
-  SearchSortField
+  SimilarQuestionCandidate,
+  SearchSortField,
+  VectorSearchQuery,
+  VectorSearchResult
 } from '../types/search'
 import { Question } from '../types/question'
 import { embedText, generateTags } from './openai'
-import { getCosmosService } from './cosmos'
+import { getCosmosService, QUESTION_VECTOR_FIELD } from './cosmos'
+
+// 類似質問とみなす類似度の閾値
+const SIMILARITY_THRESHOLD = 0.7
+
+// 「役に立った」の多い回答がある質問を優先する際の加点（1票あたり、上限の票数）
+const HELPFUL_VOTE_BOOST = 0.02
+const HELPFUL_VOTE_BOOST_MAX_VOTES = 5
+
+// 並べ替えのためにベクター検索で多めに取得する倍率
+const SIMILAR_CANDIDATE_FACTOR = 3
+
+// 検索結果に返す質問のフィールド（埋め込みベクターや本文の HTML は読み込まない）
+const SEARCH_RESULT_FIELDS: (keyof SearchResultQuestion)[] = [
+  'id', 'title', 'content', 'authorId', 'groupId', 'status', 'priority', 'requestType',
+  'tags', 'attachments', 'createdAt', 'updatedAt', 'resolvedAt', 'assigneeId'
+]
+
+// 類似質問の候補として読み込む質問のフィールド（閲覧権限の確認と結果の表示に使うもののみ）
+const SIMILAR_QUESTION_FIELDS: (keyof SimilarQuestionCandidate)[] = [
+  'id', 'title', 'content', 'authorId', 'groupId', 'status', 'createdAt'
+]
 
 export async function searchQuestions(query: SearchQuery): Promise<SearchResponse> {
   try {
@@ -24,7 +49,7 @@ export async function searchQuestions(query: SearchQuery): Promise<SearchRespons
     const cosmosService = getCosmosService()
 
     // Build SQL query for Cosmos DB
-    let sqlQuery = 'SELECT * FROM c'
+    let sqlQuery = `SELECT ${SEARCH_RESULT_FIELDS.map(field => `c.${field}`).join(', ')} FROM c`
     const parameters: { name: string; value: unknown }[] = []
     const searchTerm = query.q.toLowerCase()
 
@@ -46,6 +71,11 @@ export async function searchQuestions(query: SearchQuery): Promise<SearchRespons
       parameters.push({ name: '@priority', value: query.priority })
     }
 
+    if (query.tags && query.tags.length > 0) {
+      whereConditions.push('EXISTS(SELECT VALUE t FROM t IN c.tags WHERE ARRAY_CONTAINS(@tags, LOWER(t)))')
+      parameters.push({ name: '@tags', value: query.tags.map(tag => tag.toLowerCase()) })
+    }
+
     if (query.authorId) {
       whereConditions.push('c.authorId = @authorId')
       parameters.push({ name: '@authorId', value: query.authorId })
@@ -93,7 +123,7 @@ export async function searchQuestions(query: SearchQuery): Promise<SearchRespons
     }
 
     // Execute query
-    const questions = await cosmosService.queryItems<Question>('questions', sqlQuery, parameters)
+    const questions = await cosmosService.queryItems<SearchResultQuestion>('questions', sqlQuery, parameters)
 
     // Calculate relevance scores and create search results
     const searchResults: SearchResult[] = questions.map(question => {
@@ -164,77 +194,67 @@ export async function searchQuestions(query: SearchQuery): Promise<SearchRespons
 export async function findSimilarQuestions(
   queryText: string,
   excludeQuestionId?: string,
-  limit = 5
+  limit = 5,
+  groupId?: string,
+  accessFilter?: (question: SimilarQuestionCandidate) => boolean
 ): Promise<SimilarQuestionsResult> {
   try {
     // Generate embedding for the query
     const queryVector = await embedText(queryText)
     const cosmosService = getCosmosService()
 
-    // Get all questions except the excluded one
-    let sqlQuery = 'SELECT * FROM c'
-    const parameters: { name: string; value: unknown }[] = []
-
-    if (excludeQuestionId) {
-      sqlQuery += ' WHERE c.id != @excludeId'
-      parameters.push({ name: '@excludeId', value: excludeQuestionId })
+    // Run vector search against stored question embeddings
+    const vectorSearchQuery: VectorSearchQuery = {
+      vector: queryVector,
+      threshold: SIMILARITY_THRESHOLD,
+      limit: limit * SIMILAR_CANDIDATE_FACTOR,
+      excludeIds: excludeQuestionId ? [excludeQuestionId] : undefined,
+      groupId
     }
 
-    const questions = await cosmosService.queryItems<Question>('questions', sqlQuery, parameters)
-
-    // Calculate similarity for each question
-    const similarQuestions = await Promise.all(
-      questions.map(async (question) => {
-        try {
-          // Generate embedding for the question
-          const questionText = question.title + ' ' + question.content
-          const questionVector = await embedText(questionText)
-
-          // Calculate similarity
-          const similarity = calculateSimilarity(queryVector, questionVector)
-
-          // Get answer count from answers collection
-          const answerQuery = 'SELECT VALUE COUNT(1) FROM c WHERE c.questionId = @questionId'
-          const answerParams = [{ name: '@questionId', value: question.id }]
-          const answerCountResult = await cosmosService.queryItems<number>('answers', answerQuery, answerParams)
-          const answersCount = answerCountResult[0] || 0
-
-          return {
-            id: question.id,
-            title: question.title,
-            content: question.content,
-            similarity,
-            snippet: generateSnippet(question.content),
-            status: question.status,
-            answersCount,
-            createdAt: question.createdAt
-          }
-        } catch (error) {
-          console.error('Error processing question for similarity:', error)
-          // Return with low similarity if processing fails
-          return {
-            id: question.id,
-            title: question.title,
-            content: question.content,
-            similarity: 0,
-            snippet: generateSnippet(question.content),
-            status: question.status,
-            answersCount: 0,
-            createdAt: question.createdAt
-          }
-        }
-      })
+    const matches = await cosmosService.vectorQuery<SimilarQuestionCandidate>(
+      'questions',
+      QUESTION_VECTOR_FIELD,
+      vectorSearchQuery,
+      SIMILAR_QUESTION_FIELDS
     )
 
-    // Filter by threshold and sort by similarity
-    const filteredQuestions = similarQuestions
-      .filter(q => q.similarity >= 0.7) // Filter by threshold
-      .sort((a, b) => b.similarity - a.similarity) // Sort by similarity descending
+    const vectorResults: VectorSearchResult[] = matches.map(({ item, similarity }) => ({
+      id: item.id,
+      distance: 1 - similarity,
+      similarity,
+      question: item
+    }))
+
+    const candidates = vectorResults
+      .filter(result => !accessFilter || accessFilter(result.question)) // Drop questions the caller cannot see
+
+    // Count answers and their helpful votes for all matched questions in a single query
+    const answerStats = await getAnswerStatsByQuestion(candidates.map(result => result.id))
+
+    // 類似度に「役に立った」の多い回答の票数を加点して並べる
+    const rankingScore = (result: VectorSearchResult) =>
+      result.similarity +
+      Math.min(answerStats.get(result.id)?.topAnswerHelpfulCount || 0, HELPFUL_VOTE_BOOST_MAX_VOTES) * HELPFUL_VOTE_BOOST
+
+    const similarQuestions = candidates
+      .sort((a, b) => rankingScore(b) - rankingScore(a) || b.similarity - a.similarity)
       .slice(0, limit)
+      .map(({ question, similarity }) => ({
+        id: question.id,
+        title: question.title,
+        content: question.content,
+        similarity,
+        snippet: generateSnippet(question.content),
+        status: question.status,
+        answersCount: answerStats.get(question.id)?.answersCount || 0,
+        topAnswerHelpfulCount: answerStats.get(question.id)?.topAnswerHelpfulCount || 0,
+        createdAt: question.createdAt
+      }))
 
     return {
       success: true,
-      questions: filteredQuestions
+      questions: similarQuestions
     }
   } catch (error) {
     console.error('Error finding similar questions:', error)
@@ -245,6 +265,21 @@ export async function findSimilarQuestions(
   }
 }
 
+/**
+ * 質問のタイトルと本文から埋め込みベクターを生成
+ */
+export async function embedQuestion(question: Pick<Question, 'title' | 'content'>): Promise<number[]> {
+  return embedText(`${question.title}\n${question.content}`)
+}
+
+/**
+ * APIレスポンス用に埋め込みベクターを除外
+ */
+export function omitContentVector(question: Question): Question {
+  const { contentVector: _contentVector, ...rest } = question
+  return rest
+}
+
 export async function generateAutoTags(title: string, content: string): Promise<AutoTagResult> {
   try {
     if (!title.trim() || !content.trim()) {
@@ -273,7 +308,7 @@ export async function generateAutoTags(title: string, content: string): Promise<
   }
 }
 
-export async function getSearchSuggestions(query: string): Promise<SearchSuggestionsResult> {
+export async function getSearchSuggestions(query: string, groupId?: string): Promise<SearchSuggestionsResult> {
   try {
     if (!query.trim()) {
       return {
@@ -285,13 +320,21 @@ export async function getSearchSuggestions(query: string): Promise<SearchSuggest
     const cosmosService = getCosmosService()
 
     // Get suggestions from existing question titles and tags
+    let whereClause = '(CONTAINS(LOWER(c.title), @query) OR ARRAY_CONTAINS(c.tags, @query, true))'
+    const parameters: { name: string; value: unknown }[] = [{ name: '@query', value: query.toLowerCase() }]
+
+    // Restrict suggestions to the caller's group
+    if (groupId) {
+      whereClause += ' AND c.groupId = @groupId'
+      parameters.push({ name: '@groupId', value: groupId })
+    }
+
     const sqlQuery = `
       SELECT DISTINCT c.title, c.tags 
       FROM c 
-      WHERE CONTAINS(LOWER(c.title), @query) OR ARRAY_CONTAINS(c.tags, @query, true)
+      WHERE ${whereClause}
       ORDER BY c.createdAt DESC
     `
-    const parameters = [{ name: '@query', value: query.toLowerCase() }]
 
     const results = await cosmosService.queryItems<{ title: string; tags: string[] }>('questions', sqlQuery, parameters)
 
@@ -357,23 +400,65 @@ export function calculateSimilarity(vector1: number[], vector2: number[]): numbe
   return dotProduct / magnitude
 }
 
+/**
+ * 検索語を <mark> で囲んだ HTML を返す（タイトル・本文はエスケープしてから囲む）
+ * 日本語は単語の区切りがないため、語の境界は見ずに大文字・小文字を区別せず一致させる
+ */
 export function highlightSearchTerms(text: string, terms: string[]): string {
-  let highlightedText = text
+  const ranges: { start: number; end: number }[] = []
 
-  // Sort terms by length (longest first) to avoid partial matches
-  const sortedTerms = [...new Set(terms)].sort((a, b) => b.length - a.length)
-
-  // Replace longer terms first to avoid overlapping highlights
+  // 長い語から順に一致させ、既に囲んだ範囲と重なる一致は無視する
+  const sortedTerms = [...new Set(terms.filter(term => term.length > 0))].sort((a, b) => b.length - a.length)
   for (const term of sortedTerms) {
-    // Only highlight if the term isn't already highlighted
-    const regex = new RegExp(`(?!<mark>)\\b(${escapeRegExp(term)})\\b(?![^<]*</mark>)`, 'gi')
-    highlightedText = highlightedText.replace(regex, '<mark>$1</mark>')
+    const regex = new RegExp(escapeRegExp(term), 'gi')
+    for (const match of text.matchAll(regex)) {
+      const start = match.index!
+      const end = start + match[0].length
+      if (!ranges.some(range => start < range.end && end > range.start)) {
+        ranges.push({ start, end })
+      }
+    }
   }
 
-  return highlightedText
+  ranges.sort((a, b) => a.start - b.start)
+
+  let html = ''
+  let last = 0
+  for (const { start, end } of ranges) {
+    html += escapeHtml(text.slice(last, start)) + `<mark>${escapeHtml(text.slice(start, end))}</mark>`
+    last = end
+  }
+
+  return html + escapeHtml(text.slice(last))
 }
 
-function generateHighlights(question: Question, terms: string[]) {
+async function getAnswerStatsByQuestion(
+  questionIds: string[]
+): Promise<Map<string, { answersCount: number; topAnswerHelpfulCount: number }>> {
+  const stats = new Map<string, { answersCount: number; topAnswerHelpfulCount: number }>()
+  if (questionIds.length === 0) {
+    return stats
+  }
+
+  const cosmosService = getCosmosService()
+  const answers = await cosmosService.queryItems<{ questionId: string; helpfulCount?: number }>(
+    'answers',
+    'SELECT c.questionId, c.helpfulCount FROM c WHERE ARRAY_CONTAINS(@questionIds, c.questionId)',
+    [{ name: '@questionIds', value: questionIds }]
+  )
+
+  answers.forEach(answer => {
+    const current = stats.get(answer.questionId) || { answersCount: 0, topAnswerHelpfulCount: 0 }
+    stats.set(answer.questionId, {
+      answersCount: current.answersCount + 1,
+      topAnswerHelpfulCount: Math.max(current.topAnswerHelpfulCount, answer.helpfulCount || 0)
+    })
+  })
+
+  return stats
+}
+
+function generateHighlights(question: Pick<Question, 'title' | 'content'>, terms: string[]) {
   const highlights = []
 
   // Check title for highlights
@@ -454,6 +539,15 @@ function generateSearchSuggestions(query: string): string[] {
   return suggestions
 }
 
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
 function escapeRegExp(string: string): string {
   return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { getCosmosService } from './cosmos'
+import { getUsers } from './admin'
+import { sendNotificationEmail, EmailType } from './email'
+import { computeSlaDueDates, getActiveSlaDueAt } from './sla'
+import { Question, QuestionStatus, SlaKind, SlaPolicy } from '@/types/question'
+import { Group } from '@/types/group'
+import { User } from '@/types/auth'
+
+export interface SlaEscalationResult {
+  checked: number
+  backfilled: number       // 期限が未設定だった質問（SLA導入前の質問）
+  escalated: number        // 送信したエスカレーションの件数（期限の種類ごと）
+}
+
+/**
+ * グループのSLA設定（未設定の場合は既定値を使う）
+ */
+export async function getGroupSlaPolicy(groupId: string): Promise<Partial<SlaPolicy> | undefined> {
+  const cosmosService = getCosmosService()
+  const group = await cosmosService.getItem<Group>('groups', groupId)
+  return group?.slaPolicy
+}
+
+/**
+ * 期限を超過した未回答・回答済みの質問を担当者と管理者にエスカレーション（定期実行用）
+ * 同じ期限のエスカレーションは一度だけ送信する
+ */
+export async function escalateOverdueQuestions(now: Date = new Date()): Promise<SlaEscalationResult> {
+  const cosmosService = getCosmosService()
+  const result: SlaEscalationResult = { checked: 0, backfilled: 0, escalated: 0 }
+
+  const questions = await cosmosService.queryItems<Question>(
+    'questions',
+    'SELECT * FROM c WHERE ARRAY_CONTAINS(@statuses, c.status)',
+    [{ name: '@statuses', value: [QuestionStatus.UNANSWERED, QuestionStatus.ANSWERED] }]
+  )
+
+  const policies = new Map<string, Partial<SlaPolicy> | undefined>()
+  let admins: User[] | null = null
+
+  for (const question of questions) {
+    result.checked++
+    let updated: Question = question
+
+    // SLA導入前の質問は投稿日時から期限を計算
+    if (!question.firstResponseDueAt || !question.resolutionDueAt) {
+      if (!policies.has(question.groupId)) {
+        policies.set(question.groupId, await getGroupSlaPolicy(question.groupId))
+      }
+      const dueDates = computeSlaDueDates(question.createdAt, question.priority, policies.get(question.groupId))
+      updated = { ...updated, ...dueDates, slaDueAt: getActiveSlaDueAt({ ...updated, ...dueDates }) }
+      result.backfilled++
+    }
+
+    // 未回答は初回回答・解決の両方、回答済みは解決の期限を確認
+    const kinds: SlaKind[] = question.status === QuestionStatus.UNANSWERED
+      ? ['firstResponse', 'resolution']
+      : ['resolution']
+    const overdue = kinds.filter(kind => {
+      const dueAt = kind === 'firstResponse' ? updated.firstResponseDueAt : updated.resolutionDueAt
+      return dueAt && new Date(dueAt).getTime() <= now.getTime() && !updated.slaEscalations?.[kind]
+    })
+
+    if (overdue.length > 0) {
+      if (admins === null) {
+        const adminsResult = await getUsers({ isAdmin: true })
+        admins = adminsResult.success && adminsResult.users ? adminsResult.users : []
+      }
+
+      const author = await cosmosService.getItem<User>('users', question.authorId)
+      const assignee = admins.find(admin => admin.id === question.assigneeId)
+
+      for (const kind of overdue) {
+        for (const recipient of admins) {
+          try {
+            await sendNotificationEmail(
+              EmailType.SLA_ESCALATION,
+              recipient.email,
+              {
+                question: updated,
+                author: author ?? undefined,
+                assignee,
+                escalation: {
+                  kind,
+                  dueAt: new Date(kind === 'firstResponse' ? updated.firstResponseDueAt! : updated.resolutionDueAt!)
+                },
+                recipient
+              }
+            )
+          } catch (emailError) {
+            console.error(`Failed to send SLA escalation email to ${recipient.email}:`, emailError)
+          }
+        }
+        result.escalated++
+      }
+
+      updated = {
+        ...updated,
+        slaEscalations: {
+          ...updated.slaEscalations,
+          ...Object.fromEntries(overdue.map(kind => [kind, now]))
+        }
+      }
+    }
+
+    // 更新日時は変えずにSLAの項目のみ更新
+    if (updated !== question) {
+      await cosmosService.updateItem('questions', question.id, updated, question.groupId)
+    }
+  }
+
+  return result
+}
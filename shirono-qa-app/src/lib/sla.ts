@@ -0,0 +1,151 @@
+import {
+  Question,
+  QuestionPriority,
+  QuestionStatus,
+  SlaKind,
+  SlaPolicy,
+  SlaTarget
+} from '@/types/question'
+
+/**
+ * 優先度別の対応期限（SLA）の計算（クライアント・サーバー共用）
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+
+// 既定のSLA（グループで未設定の優先度に適用）
+export const DEFAULT_SLA_POLICY: SlaPolicy = {
+  [QuestionPriority.HIGH]: { firstResponseHours: 4, resolutionHours: 24 },
+  [QuestionPriority.MEDIUM]: { firstResponseHours: 24, resolutionHours: 72 },
+  [QuestionPriority.LOW]: { firstResponseHours: 72, resolutionHours: 168 }
+}
+
+// 目標時間の上限（1年）
+export const SLA_MAX_HOURS = 24 * 365
+
+// 残り時間が目標時間のこの割合を切ったら「期限間近」
+const DUE_SOON_RATIO = 0.25
+
+export type SlaState = 'on_track' | 'due_soon' | 'overdue'
+
+// API から取得した質問は日時が文字列のため両方を受け付ける
+type SlaDateFields = {
+  status: QuestionStatus
+  createdAt: Date | string
+  firstResponseDueAt?: Date | string
+  resolutionDueAt?: Date | string
+}
+
+export interface SlaStatus {
+  kind: SlaKind
+  dueAt: Date
+  state: SlaState
+}
+
+/**
+ * グループの設定と既定値を合わせたSLA
+ */
+export function resolveSlaPolicy(policy?: Partial<SlaPolicy>): SlaPolicy {
+  return {
+    [QuestionPriority.HIGH]: policy?.[QuestionPriority.HIGH] ?? DEFAULT_SLA_POLICY[QuestionPriority.HIGH],
+    [QuestionPriority.MEDIUM]: policy?.[QuestionPriority.MEDIUM] ?? DEFAULT_SLA_POLICY[QuestionPriority.MEDIUM],
+    [QuestionPriority.LOW]: policy?.[QuestionPriority.LOW] ?? DEFAULT_SLA_POLICY[QuestionPriority.LOW]
+  }
+}
+
+/**
+ * グループのSLA設定を検証
+ */
+export function validateSlaPolicy(policy: unknown): { valid: boolean; errors: string[] } {
+  const errors: string[] = []
+
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    return { valid: false, errors: ['SLA policy must be an object'] }
+  }
+
+  for (const [priority, target] of Object.entries(policy as Record<string, unknown>)) {
+    if (!Object.values(QuestionPriority).includes(priority as QuestionPriority)) {
+      errors.push(`Invalid priority: ${priority}`)
+      continue
+    }
+
+    const { firstResponseHours, resolutionHours } = (target ?? {}) as Partial<SlaTarget>
+    const isValidHours = (hours: unknown) =>
+      typeof hours === 'number' && Number.isFinite(hours) && hours > 0 && hours <= SLA_MAX_HOURS
+
+    if (!isValidHours(firstResponseHours) || !isValidHours(resolutionHours)) {
+      errors.push(`SLA hours for ${priority} must be between 0 and ${SLA_MAX_HOURS}`)
+    } else if (firstResponseHours! > resolutionHours!) {
+      errors.push(`First response target for ${priority} must not exceed the resolution target`)
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * 投稿日時と優先度から初回回答・解決の期限を計算
+ */
+export function computeSlaDueDates(
+  createdAt: Date,
+  priority: QuestionPriority,
+  policy?: Partial<SlaPolicy>
+): Pick<Question, 'firstResponseDueAt' | 'resolutionDueAt'> {
+  const target = resolveSlaPolicy(policy)[priority]
+  const created = new Date(createdAt).getTime()
+
+  return {
+    firstResponseDueAt: new Date(created + target.firstResponseHours * HOUR_MS),
+    resolutionDueAt: new Date(created + target.resolutionHours * HOUR_MS)
+  }
+}
+
+/**
+ * 現在のステータスで有効な期限の種類（未回答は初回回答、回答済みは解決、それ以外は対象外）
+ */
+export function getActiveSlaKind(status: QuestionStatus): SlaKind | null {
+  switch (status) {
+    case QuestionStatus.UNANSWERED:
+      return 'firstResponse'
+    case QuestionStatus.ANSWERED:
+      return 'resolution'
+    default:
+      return null
+  }
+}
+
+/**
+ * 現在のステータスで有効な期限
+ */
+export function getActiveSlaDueAt(
+  question: Pick<Question, 'status' | 'firstResponseDueAt' | 'resolutionDueAt'>
+): Date | undefined {
+  const kind = getActiveSlaKind(question.status)
+  if (kind === 'firstResponse') return question.firstResponseDueAt
+  if (kind === 'resolution') return question.resolutionDueAt
+  return undefined
+}
+
+/**
+ * 一覧のバッジ表示用のSLAの状態（対応中でない、または期限未設定の場合は null）
+ */
+export function getSlaStatus(question: SlaDateFields, now: Date = new Date()): SlaStatus | null {
+  const kind = getActiveSlaKind(question.status)
+  const due = kind === 'firstResponse' ? question.firstResponseDueAt : kind === 'resolution' ? question.resolutionDueAt : undefined
+  if (!kind || !due) {
+    return null
+  }
+
+  const dueAt = new Date(due)
+  const remaining = dueAt.getTime() - now.getTime()
+  const window = dueAt.getTime() - new Date(question.createdAt).getTime()
+
+  let state: SlaState = 'on_track'
+  if (remaining <= 0) {
+    state = 'overdue'
+  } else if (remaining <= window * DUE_SOON_RATIO) {
+    state = 'due_soon'
+  }
+
+  return { kind, dueAt, state }
+}
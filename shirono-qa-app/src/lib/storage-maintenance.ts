@@ -0,0 +1,181 @@
+import { getCosmosService } from './cosmos'
+import { getBlobStorageService } from './blob-storage'
+import { ErrorHandler } from './errors'
+import { Attachment, Question } from '@/types/question'
+import { Group } from '@/types/group'
+import { Draft } from '@/types/draft'
+import { isDraftExpired } from './drafts'
+import {
+  UploadSession,
+  UploadSessionStatus,
+  PendingUpload,
+  StorageCleanupResult,
+  GroupStorageUsage
+} from '@/types/upload'
+
+// 未参照のファイルを削除するまでの猶予時間（アップロード直後で未添付のファイルを守る）
+export const DEFAULT_ORPHAN_MAX_AGE_HOURS = 24
+
+// 添付ファイルを保存するルートパス
+const ATTACHMENT_ROOT = 'questions/'
+
+/**
+ * 質問・回答・コメントから参照されている Blob パスと、進行中のアップロード先・下書きに貼り付けた画像を収集
+ */
+async function collectReferencedBlobPaths(): Promise<Set<string>> {
+  const cosmosService = getCosmosService()
+  const blobService = getBlobStorageService()
+  const referenced = new Set<string>()
+
+  for (const containerId of ['questions', 'answers', 'comments']) {
+    const items = await cosmosService.queryItems<{ attachments?: Attachment[] }>(
+      containerId,
+      'SELECT c.attachments FROM c'
+    )
+
+    for (const item of items) {
+      for (const attachment of item.attachments || []) {
+        try {
+          referenced.add(blobService.extractFileNameFromUrl(attachment.blobUrl))
+        } catch {
+          // 不正なURLは参照として扱わない
+        }
+      }
+    }
+  }
+
+  const sessions = await cosmosService.queryItems<UploadSession>('uploadSessions', 'SELECT * FROM c')
+  const now = Date.now()
+  sessions
+    .filter(session => session.status === UploadSessionStatus.PENDING && new Date(session.expiresAt).getTime() > now)
+    .forEach(session => {
+      referenced.add(session.blobPath)
+      referenced.add(session.stagingPath)
+    })
+
+  const drafts = await cosmosService.queryItems<Draft>('drafts', 'SELECT * FROM c')
+  drafts
+    .filter(draft => !isDraftExpired(draft))
+    .forEach(draft => {
+      draft.attachments.forEach(attachment => referenced.add(attachment.blobPath))
+      draft.files?.forEach(file => referenced.add(file.blobPath))
+    })
+
+  return referenced
+}
+
+/**
+ * 期限切れのアップロードセッション・下書きと、古い添付前ファイルの記録を削除
+ * （下書きから参照されている添付前ファイルの記録は残す）
+ */
+async function purgeStaleUploadRecords(cutoff: Date, referenced: Set<string>): Promise<void> {
+  const cosmosService = getCosmosService()
+  const now = Date.now()
+
+  const sessions = await cosmosService.queryItems<UploadSession>('uploadSessions', 'SELECT * FROM c')
+  for (const session of sessions) {
+    const expired = new Date(session.expiresAt).getTime() < now
+    if (session.status !== UploadSessionStatus.PENDING || expired) {
+      await cosmosService.deleteItem('uploadSessions', session.id, session.userId)
+    }
+  }
+
+  const drafts = await cosmosService.queryItems<Draft>('drafts', 'SELECT * FROM c')
+  for (const draft of drafts) {
+    if (isDraftExpired(draft)) {
+      await cosmosService.deleteItem('drafts', draft.id, draft.userId)
+    }
+  }
+
+  const pendingUploads = await cosmosService.queryItems<PendingUpload>('pendingUploads', 'SELECT * FROM c')
+  for (const pendingUpload of pendingUploads) {
+    if (new Date(pendingUpload.createdAt).getTime() < cutoff.getTime() && !referenced.has(pendingUpload.blobPath)) {
+      await cosmosService.deleteItem('pendingUploads', pendingUpload.id, pendingUpload.userId)
+    }
+  }
+}
+
+/**
+ * どこからも参照されていない古いファイルを削除
+ * 一時パスに残った未添付ファイルや、削除済みの投稿に紐付いていたファイルが対象
+ */
+export async function cleanupOrphanedUploads(
+  options: { olderThanHours?: number; dryRun?: boolean } = {}
+): Promise<StorageCleanupResult> {
+  const { olderThanHours = DEFAULT_ORPHAN_MAX_AGE_HOURS, dryRun = false } = options
+  const blobService = getBlobStorageService()
+  const cutoff = new Date(Date.now() - olderThanHours * 60 * 60 * 1000)
+
+  const [files, referenced] = await Promise.all([
+    blobService.listFiles(ATTACHMENT_ROOT),
+    collectReferencedBlobPaths()
+  ])
+
+  const result: StorageCleanupResult = {
+    scanned: files.length,
+    deleted: [],
+    failed: [],
+    freedBytes: 0,
+    dryRun
+  }
+
+  for (const file of files) {
+    if (referenced.has(file.name) || new Date(file.lastModified).getTime() >= cutoff.getTime()) {
+      continue
+    }
+
+    if (!dryRun && !(await blobService.deleteFile(file.name))) {
+      result.failed.push(file.name)
+      continue
+    }
+
+    result.deleted.push(file.name)
+    result.freedBytes += file.size
+  }
+
+  if (!dryRun) {
+    try {
+      await purgeStaleUploadRecords(cutoff, referenced)
+    } catch (error) {
+      // 記録の削除に失敗してもファイル削除の結果は返す
+      ErrorHandler.logError(error, 'purgeStaleUploadRecords')
+    }
+  }
+
+  return result
+}
+
+/**
+ * グループごとのストレージ使用量を集計（Blob の実サイズで計算）
+ */
+export async function getStorageUsageByGroup(): Promise<GroupStorageUsage[]> {
+  const cosmosService = getCosmosService()
+  const blobService = getBlobStorageService()
+
+  const [files, questions, groups] = await Promise.all([
+    blobService.listFiles(ATTACHMENT_ROOT),
+    cosmosService.queryItems<Pick<Question, 'id' | 'groupId'>>('questions', 'SELECT c.id, c.groupId FROM c'),
+    cosmosService.queryItems<Group>('groups', 'SELECT * FROM c')
+  ])
+
+  const groupByQuestion = new Map(questions.map(question => [question.id, question.groupId]))
+  const groupNames = new Map(groups.map(group => [group.id, group.name]))
+  const usage = new Map<string | null, GroupStorageUsage>()
+
+  for (const file of files) {
+    const parsed = blobService.parseBlobPath(file.name)
+    const groupId = (parsed && groupByQuestion.get(parsed.questionId)) || null
+
+    const entry = usage.get(groupId) || {
+      groupId,
+      groupName: groupId ? groupNames.get(groupId) || groupId : '未割り当て',
+      fileCount: 0,
+      totalBytes: 0
+    }
+    entry.fileCount++
+    entry.totalBytes += file.size
+    usage.set(groupId, entry)
+  }
+
+  return Array.from(usage.values()).sort((a, b) => b.totalBytes - a.totalBytes)
+}
@@ -0,0 +1,98 @@
+import { Tag } from '@/types/tag'
+
+/**
+ * タグ名の正規化とカタログによる同義語の置き換え（クライアント・サーバー共用）
+ */
+
+export const TAG_LIMITS = {
+  NAME_MAX_LENGTH: 30,
+  MAX_TAGS_PER_QUESTION: 10,
+  MAX_SYNONYMS: 20,
+  DESCRIPTION_MAX_LENGTH: 500
+} as const
+
+/**
+ * 前後の空白を除き、連続する空白を1つにまとめる
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ')
+}
+
+// 大文字・小文字を区別せずに比較するためのキー
+export function getTagKey(name: string): string {
+  return normalizeTagName(name).toLowerCase()
+}
+
+export function validateTagName(name: unknown): string | null {
+  if (typeof name !== 'string' || normalizeTagName(name) === '') {
+    return 'Tag name is required'
+  }
+  if (normalizeTagName(name).length > TAG_LIMITS.NAME_MAX_LENGTH) {
+    return `Tag name must be ${TAG_LIMITS.NAME_MAX_LENGTH} characters or less`
+  }
+  return null
+}
+
+/**
+ * 質問のタグを検証
+ */
+export function validateQuestionTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) {
+    return ['Tags must be an array']
+  }
+
+  const errors: string[] = []
+  if (tags.length > TAG_LIMITS.MAX_TAGS_PER_QUESTION) {
+    errors.push(`Maximum ${TAG_LIMITS.MAX_TAGS_PER_QUESTION} tags allowed`)
+  }
+  for (const tag of tags) {
+    const error = validateTagName(tag)
+    if (error) {
+      errors.push(`${error}: ${String(tag)}`)
+    }
+  }
+  return errors
+}
+
+/**
+ * カタログの正式名・同義語から正式名を引く索引
+ */
+export function buildTagIndex(catalog: Pick<Tag, 'name' | 'synonyms'>[]): Map<string, string> {
+  const index = new Map<string, string>()
+  for (const tag of catalog) {
+    index.set(getTagKey(tag.name), tag.name)
+    for (const synonym of tag.synonyms) {
+      index.set(getTagKey(synonym), tag.name)
+    }
+  }
+  return index
+}
+
+/**
+ * タグを正式名に置き換え、重複（大文字・小文字の違いを含む）を除く
+ * カタログにないタグはそのまま残す
+ */
+export function resolveTagNames(names: string[], catalog: Pick<Tag, 'name' | 'synonyms'>[]): string[] {
+  const index = buildTagIndex(catalog)
+  const resolved = new Map<string, string>()
+
+  for (const name of names) {
+    if (validateTagName(name)) {
+      continue
+    }
+    const normalized = normalizeTagName(name)
+    const canonical = index.get(getTagKey(normalized)) ?? normalized
+    if (!resolved.has(getTagKey(canonical))) {
+      resolved.set(getTagKey(canonical), canonical)
+    }
+  }
+
+  return Array.from(resolved.values()).slice(0, TAG_LIMITS.MAX_TAGS_PER_QUESTION)
+}
+
+/**
+ * タグ一覧ページのパス
+ */
+export function getTagPath(name: string): string {
+  return `/tags/${encodeURIComponent(name)}`
+}
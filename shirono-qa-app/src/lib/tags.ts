@@ -0,0 +1,316 @@
+import { getCosmosService } from './cosmos'
+import {
+  getTagKey,
+  normalizeTagName,
+  resolveTagNames,
+  TAG_LIMITS,
+  validateTagName
+} from './tag-names'
+import { User } from '@/types/auth'
+import { Question } from '@/types/question'
+import { Tag, TagInput, TagResult, TagUsage } from '@/types/tag'
+
+/**
+ * タグのカタログ（正式名順）
+ */
+export async function getTags(): Promise<Tag[]> {
+  const tags = await getCosmosService().queryItems<Tag>('tags', 'SELECT * FROM c')
+  return tags.sort((a, b) => a.name.localeCompare(b.name, 'ja'))
+}
+
+/**
+ * 質問に保存するタグ（同義語を正式名に置き換え、不正なタグ・重複を除く）
+ */
+export async function normalizeQuestionTags(names: string[]): Promise<string[]> {
+  if (names.length === 0) {
+    return []
+  }
+  return resolveTagNames(names, await getTags())
+}
+
+/**
+ * 質問で使われているタグと件数（カタログにないタグも含む、件数の多い順）
+ */
+export async function getTagUsage(): Promise<TagUsage[]> {
+  const questions = await getCosmosService().queryItems<Pick<Question, 'tags'>>('questions', 'SELECT c.tags FROM c')
+  const counts = new Map<string, number>()
+  for (const question of questions) {
+    for (const tag of question.tags || []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1)
+    }
+  }
+
+  return Array.from(counts.entries())
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name, 'ja'))
+}
+
+/**
+ * カタログの入力を検証・正規化（正式名・同義語は他のタグと重複できない）
+ */
+function prepareTagInput(
+  input: TagInput,
+  catalog: Tag[],
+  excludeId?: string
+): { errors: string[]; name: string; synonyms: string[]; description?: string } {
+  const errors: string[] = []
+
+  const nameError = validateTagName(input.name)
+  if (nameError) {
+    errors.push(nameError)
+  }
+  const name = typeof input.name === 'string' ? normalizeTagName(input.name) : ''
+
+  const synonyms = new Map<string, string>()
+  if (input.synonyms !== undefined && !Array.isArray(input.synonyms)) {
+    errors.push('Synonyms must be an array')
+  } else {
+    for (const synonym of input.synonyms ?? []) {
+      const synonymError = validateTagName(synonym)
+      if (synonymError) {
+        errors.push(`${synonymError}: ${String(synonym)}`)
+      } else if (getTagKey(synonym) !== getTagKey(name) && !synonyms.has(getTagKey(synonym))) {
+        synonyms.set(getTagKey(synonym), normalizeTagName(synonym))
+      }
+    }
+  }
+  if (synonyms.size > TAG_LIMITS.MAX_SYNONYMS) {
+    errors.push(`Maximum ${TAG_LIMITS.MAX_SYNONYMS} synonyms allowed`)
+  }
+
+  if (input.description !== undefined && (typeof input.description !== 'string' || input.description.length > TAG_LIMITS.DESCRIPTION_MAX_LENGTH)) {
+    errors.push(`Description must be ${TAG_LIMITS.DESCRIPTION_MAX_LENGTH} characters or less`)
+  }
+
+  const usedKeys = new Map<string, string>()
+  for (const tag of catalog) {
+    if (tag.id === excludeId) {
+      continue
+    }
+    for (const alias of [tag.name, ...tag.synonyms]) {
+      usedKeys.set(getTagKey(alias), tag.name)
+    }
+  }
+  for (const alias of [name, ...synonyms.values()]) {
+    const owner = usedKeys.get(getTagKey(alias))
+    if (alias && owner) {
+      errors.push(`${alias} is already used by tag ${owner}`)
+    }
+  }
+
+  return {
+    errors,
+    name,
+    synonyms: Array.from(synonyms.values()),
+    ...(input.description?.trim() && { description: input.description.trim() })
+  }
+}
+
+/**
+ * 別名（大文字・小文字の違いを含む）で付けられたタグを正式名に書き換え、書き換えた質問の件数を返す
+ */
+async function rewriteQuestionTags(aliases: string[], canonical: string): Promise<number> {
+  const cosmosService = getCosmosService()
+  const aliasKeys = new Set(aliases.map(getTagKey))
+
+  const questions = await cosmosService.queryItems<Pick<Question, 'id' | 'groupId'>>(
+    'questions',
+    'SELECT c.id, c.groupId FROM c WHERE EXISTS(SELECT VALUE t FROM t IN c.tags WHERE ARRAY_CONTAINS(@tags, LOWER(t)))',
+    [{ name: '@tags', value: Array.from(aliasKeys) }]
+  )
+
+  let updated = 0
+  for (const { id, groupId } of questions) {
+    // 同時の編集と競合した場合は読み直して tags のみ書き換える（利用者の編集ではないため更新日時は変えない）
+    let changed = false
+    await cosmosService.modifyItem<Question>('questions', id, groupId, question => {
+      const currentTags = question.tags || []
+      const tags = resolveTagNames(currentTags.map(tag => aliasKeys.has(getTagKey(tag)) ? canonical : tag), [])
+      changed = tags.length !== currentTags.length || tags.some((tag, i) => tag !== currentTags[i])
+      return changed ? { ...question, tags } : null
+    })
+
+    if (changed) {
+      updated++
+    }
+  }
+
+  return updated
+}
+
+/**
+ * カタログにタグを追加し、同義語で付けられた既存の質問のタグを正式名に揃える
+ */
+export async function createTag(input: TagInput, createdBy: User): Promise<TagResult> {
+  try {
+    const prepared = prepareTagInput(input, await getTags())
+    if (prepared.errors.length > 0) {
+      return {
+        success: false,
+        error: prepared.errors.join(', ')
+      }
+    }
+
+    const now = new Date()
+    const tag: Tag = {
+      id: `tag-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name: prepared.name,
+      synonyms: prepared.synonyms,
+      ...(prepared.description && { description: prepared.description }),
+      createdAt: now,
+      updatedAt: now,
+      updatedBy: createdBy.id
+    }
+
+    const created = await getCosmosService().createItem<Tag>('tags', tag)
+    const updatedQuestions = await rewriteQuestionTags([tag.name, ...tag.synonyms], tag.name)
+
+    return {
+      success: true,
+      tag: created,
+      updatedQuestions
+    }
+  } catch (error) {
+    console.error('Error creating tag:', error)
+    return {
+      success: false,
+      error: 'Failed to create tag'
+    }
+  }
+}
+
+/**
+ * タグを更新（正式名を変更した場合は質問のタグも新しい名前に書き換える）
+ */
+export async function updateTag(tagId: string, input: TagInput, updatedBy: User): Promise<TagResult> {
+  try {
+    const cosmosService = getCosmosService()
+    const existing = await cosmosService.getItem<Tag>('tags', tagId)
+    if (!existing) {
+      return {
+        success: false,
+        error: 'Tag not found'
+      }
+    }
+
+    const prepared = prepareTagInput(input, await getTags(), tagId)
+    if (prepared.errors.length > 0) {
+      return {
+        success: false,
+        error: prepared.errors.join(', ')
+      }
+    }
+
+    const tag: Tag = {
+      id: existing.id,
+      name: prepared.name,
+      synonyms: prepared.synonyms,
+      ...(prepared.description && { description: prepared.description }),
+      createdAt: existing.createdAt,
+      updatedAt: new Date(),
+      updatedBy: updatedBy.id
+    }
+
+    const updated = await cosmosService.updateItem<Tag>('tags', tagId, tag)
+    const updatedQuestions = await rewriteQuestionTags([existing.name, tag.name, ...tag.synonyms], tag.name)
+
+    return {
+      success: true,
+      tag: updated,
+      updatedQuestions
+    }
+  } catch (error) {
+    console.error('Error updating tag:', error)
+    return {
+      success: false,
+      error: 'Failed to update tag'
+    }
+  }
+}
+
+/**
+ * タグを別のタグに統合（統合元の名前・同義語は統合先の同義語になる）
+ */
+export async function mergeTags(sourceId: string, targetId: string, mergedBy: User): Promise<TagResult> {
+  try {
+    if (sourceId === targetId) {
+      return {
+        success: false,
+        error: 'Cannot merge a tag into itself'
+      }
+    }
+
+    const cosmosService = getCosmosService()
+    const [source, target] = await Promise.all([
+      cosmosService.getItem<Tag>('tags', sourceId),
+      cosmosService.getItem<Tag>('tags', targetId)
+    ])
+    if (!source || !target) {
+      return {
+        success: false,
+        error: 'Tag not found'
+      }
+    }
+
+    const synonyms = new Map<string, string>()
+    for (const synonym of [...target.synonyms, source.name, ...source.synonyms]) {
+      if (getTagKey(synonym) !== getTagKey(target.name) && !synonyms.has(getTagKey(synonym))) {
+        synonyms.set(getTagKey(synonym), synonym)
+      }
+    }
+    if (synonyms.size > TAG_LIMITS.MAX_SYNONYMS) {
+      return {
+        success: false,
+        error: `Maximum ${TAG_LIMITS.MAX_SYNONYMS} synonyms allowed`
+      }
+    }
+
+    const merged: Tag = {
+      ...target,
+      synonyms: Array.from(synonyms.values()),
+      updatedAt: new Date(),
+      updatedBy: mergedBy.id
+    }
+
+    // 途中で失敗しても統合元の名前が失われないよう、統合先の更新・質問の書き換えの後に統合元を削除する
+    const updated = await cosmosService.updateItem<Tag>('tags', targetId, merged)
+    const updatedQuestions = await rewriteQuestionTags([target.name, ...merged.synonyms], target.name)
+    await cosmosService.deleteItem('tags', sourceId)
+
+    return {
+      success: true,
+      tag: updated,
+      updatedQuestions
+    }
+  } catch (error) {
+    console.error('Error merging tags:', error)
+    return {
+      success: false,
+      error: 'Failed to merge tags'
+    }
+  }
+}
+
+/**
+ * カタログからタグを削除（質問に付いているタグはそのまま残す）
+ */
+export async function deleteTag(tagId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const cosmosService = getCosmosService()
+    if (!await cosmosService.getItem<Tag>('tags', tagId)) {
+      return {
+        success: false,
+        error: 'Tag not found'
+      }
+    }
+
+    await cosmosService.deleteItem('tags', tagId)
+    return { success: true }
+  } catch (error) {
+    console.error('Error deleting tag:', error)
+    return {
+      success: false,
+      error: 'Failed to delete tag'
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * 行単位のテキスト差分（リビジョン比較用、クライアント・サーバー共用）
+ */
+
+export type DiffRowType = 'equal' | 'removed' | 'added' | 'changed'
+
+export interface DiffCell {
+  lineNumber: number
+  text: string
+}
+
+// 左右並べて表示する1行分（追加・削除の場合は片側のみ）
+export interface DiffRow {
+  type: DiffRowType
+  left?: DiffCell
+  right?: DiffCell
+}
+
+// 比較する行数の上限（LCS の計算量を抑える）
+const MAX_DIFF_LINES = 2000
+
+/**
+ * 変更前後のテキストを左右並びの差分に変換
+ * 連続する削除と追加は同じ行に並べて「変更」として扱う
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+
+  // 共通の先頭・末尾を除いて LCS の対象を減らす
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++
+  }
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const rows: DiffRow[] = []
+  for (let i = 0; i < start; i++) {
+    rows.push({ type: 'equal', left: { lineNumber: i + 1, text: a[i] }, right: { lineNumber: i + 1, text: b[i] } })
+  }
+
+  const middle = diffMiddle(a.slice(start, endA), b.slice(start, endB), start)
+  rows.push(...pairChanges(middle))
+
+  for (let i = 0; i < a.length - endA; i++) {
+    rows.push({
+      type: 'equal',
+      left: { lineNumber: endA + i + 1, text: a[endA + i] },
+      right: { lineNumber: endB + i + 1, text: b[endB + i] }
+    })
+  }
+
+  return rows
+}
+
+function diffMiddle(a: string[], b: string[], offset: number): DiffRow[] {
+  // 大きすぎる場合は全体を削除・追加として扱う
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map((text, i) => ({ type: 'removed' as const, left: { lineNumber: offset + i + 1, text } })),
+      ...b.map((text, i) => ({ type: 'added' as const, right: { lineNumber: offset + i + 1, text } }))
+    ]
+  }
+
+  // lcs[i][j] = a[i..], b[j..] の最長共通部分列の長さ
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const rows: DiffRow[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      rows.push({ type: 'equal', left: { lineNumber: offset + i + 1, text: a[i] }, right: { lineNumber: offset + j + 1, text: b[j] } })
+      i++
+      j++
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      rows.push({ type: 'added', right: { lineNumber: offset + j + 1, text: b[j] } })
+      j++
+    } else {
+      rows.push({ type: 'removed', left: { lineNumber: offset + i + 1, text: a[i] } })
+      i++
+    }
+  }
+
+  return rows
+}
+
+/**
+ * 連続する削除・追加のブロックを左右に並べる
+ */
+function pairChanges(rows: DiffRow[]): DiffRow[] {
+  const result: DiffRow[] = []
+  let index = 0
+
+  while (index < rows.length) {
+    if (rows[index].type === 'equal') {
+      result.push(rows[index++])
+      continue
+    }
+
+    const removed: DiffCell[] = []
+    const added: DiffCell[] = []
+    while (index < rows.length && rows[index].type !== 'equal') {
+      if (rows[index].left) removed.push(rows[index].left!)
+      if (rows[index].right) added.push(rows[index].right!)
+      index++
+    }
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k]
+      const right = added[k]
+      result.push({
+        type: left && right ? 'changed' : left ? 'removed' : 'added',
+        ...(left && { left }),
+        ...(right && { right })
+      })
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,99 @@
+import path from 'path'
+import sharp from 'sharp'
+import { PreviewKind } from './attachment-preview'
+
+export interface ThumbnailResult {
+  success: boolean
+  data?: Buffer
+  contentType?: string
+  error?: string
+}
+
+// PDF の1ページ目を描画する際の最大幅（px）
+const PDF_RENDER_MAX_WIDTH = 2000
+
+// 埋め込まれていない標準フォント・CMap（日本語 PDF 用）の読み込み先
+const PDFJS_DIR = path.join(process.cwd(), 'node_modules', 'pdfjs-dist')
+
+type PdfJs = typeof import('pdfjs-dist/legacy/build/pdf.mjs')
+
+let pdfjsPromise: Promise<PdfJs> | null = null
+
+/**
+ * pdf.js を読み込む（サーバーではワーカーを同一スレッドで動かす）
+ */
+function loadPdfJs(): Promise<PdfJs> {
+  if (!pdfjsPromise) {
+    pdfjsPromise = (async () => {
+      const worker = await import('pdfjs-dist/legacy/build/pdf.worker.mjs')
+      ;(globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = worker
+      return import('pdfjs-dist/legacy/build/pdf.mjs')
+    })()
+    pdfjsPromise.catch(() => {
+      pdfjsPromise = null
+    })
+  }
+  return pdfjsPromise
+}
+
+/**
+ * PDF の1ページ目を PNG に描画
+ */
+async function renderPdfFirstPage(data: Uint8Array, maxWidth: number): Promise<Buffer> {
+  const pdfjs = await loadPdfJs()
+  const document = await pdfjs.getDocument({
+    data,
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    standardFontDataUrl: path.join(PDFJS_DIR, 'standard_fonts') + path.sep,
+    cMapUrl: path.join(PDFJS_DIR, 'cmaps') + path.sep,
+    cMapPacked: true,
+    verbosity: pdfjs.VerbosityLevel.ERRORS
+  }).promise
+
+  try {
+    const page = await document.getPage(1)
+    const baseViewport = page.getViewport({ scale: 1 })
+    const scale = Math.min(maxWidth / baseViewport.width, PDF_RENDER_MAX_WIDTH / baseViewport.width, 4)
+    const viewport = page.getViewport({ scale })
+
+    const canvasFactory = document.canvasFactory as {
+      create(width: number, height: number): { canvas: { toBuffer(mime: 'image/png'): Buffer }; context: CanvasRenderingContext2D }
+    }
+    const { canvas, context } = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height))
+
+    // 透過部分が黒くならないよう背景を白で塗る
+    context.fillStyle = '#ffffff'
+    context.fillRect(0, 0, Math.ceil(viewport.width), Math.ceil(viewport.height))
+
+    await page.render({ canvasContext: context, viewport }).promise
+    return canvas.toBuffer('image/png')
+  } finally {
+    await document.destroy()
+  }
+}
+
+/**
+ * 画像・PDF のサムネイルを WebP で生成
+ * width は縦横の最大値（元画像より大きくはしない）
+ */
+export async function createThumbnail(source: Buffer, kind: Exclude<PreviewKind, 'text'>, width: number): Promise<ThumbnailResult> {
+  try {
+    const image = kind === 'pdf'
+      ? await renderPdfFirstPage(new Uint8Array(source), width)
+      : source
+
+    // rotate() で EXIF の向きを反映（メタデータは出力しない）
+    const data = await sharp(image, { animated: false, limitInputPixels: 100_000_000 })
+      .rotate()
+      .resize({ width, height: width, fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer()
+
+    return { success: true, data, contentType: 'image/webp' }
+  } catch (error) {
+    console.error('Thumbnail generation failed:', error)
+    return { success: false, error: 'Failed to generate preview' }
+  }
+}
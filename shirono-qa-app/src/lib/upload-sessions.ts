@@ -0,0 +1,435 @@
+import { getCosmosService } from './cosmos'
+import { getBlobStorageService } from './blob-storage'
+import { getQuestion } from './questions'
+import { VALIDATION_LIMITS } from './validation'
+import { verifyFileContent, getContentTypeForFileName, isAllowedFileType, FILE_SIGNATURE_LENGTH } from './file-type'
+import { scanAttachment, AttachmentHolder } from './attachment-scan'
+import { createAttachmentId } from './attachment-id'
+import { AppError, ErrorCodes, ErrorHandler } from './errors'
+import { User } from '@/types/auth'
+import { Attachment, AttachmentScanStatus, Question } from '@/types/question'
+import { Answer, Comment } from '@/types/answer'
+import {
+  UploadSession,
+  UploadSessionStatus,
+  UploadTarget,
+  UploadPlan,
+  CreateUploadSessionRequest
+} from '@/types/upload'
+
+// ブロックサイズ（1GB で 128 ブロック。Azure の上限は 1 Blob あたり 50,000 ブロック）
+export const UPLOAD_BLOCK_SIZE = 8 * 1024 * 1024
+// セッションの有効期間（この間は中断したアップロードを再開できる）
+const UPLOAD_SESSION_TTL_HOURS = 24
+// 書き込み用 SAS URL の有効期間（期限切れ時は再取得する）
+const UPLOAD_URL_TTL_MINUTES = 15
+// ブロックのアップロード先（questions/{id}/uploads/{セッションID}。未コミットのまま残ったファイルは未参照ファイルとして削除される）
+const UPLOAD_STAGING_DIR = 'uploads'
+
+const UPLOAD_TARGET_TYPES = ['question', 'answer', 'comment']
+
+export interface UploadPlanResult {
+  success: boolean
+  plan?: UploadPlan
+  error?: AppError
+}
+
+export interface CommitUploadResult {
+  success: boolean
+  attachment?: Attachment
+  question?: Question
+  answer?: Answer
+  comment?: Comment
+  scanTarget?: AttachmentHolder   // コミット後にスキャン結果を書き込む投稿
+  error?: AppError
+}
+
+interface ResolvedUploadTarget {
+  question: Question
+  answer?: Answer
+  comment?: Comment
+}
+
+/**
+ * ブロックIDを生成（Azure の制約により同一 Blob 内では同じ長さの Base64 文字列にする）
+ */
+export function createBlockIds(fileSize: number, blockSize = UPLOAD_BLOCK_SIZE): string[] {
+  const blockCount = Math.max(1, Math.ceil(fileSize / blockSize))
+
+  return Array.from({ length: blockCount }, (_, index) =>
+    Buffer.from(`block-${index.toString().padStart(6, '0')}`).toString('base64')
+  )
+}
+
+function forbidden(message: string): AppError {
+  return { code: ErrorCodes.FORBIDDEN, message }
+}
+
+/**
+ * 投稿にさらに添付できるか（上限はフォームと同じ。本文に貼り付けた画像は数えない）
+ */
+function canAddAttachment(item: Question | Answer | Comment): boolean {
+  return (item.attachments || []).filter(attachment => !attachment.inline).length < VALIDATION_LIMITS.MAX_ATTACHMENTS
+}
+
+function tooManyAttachments(): AppError {
+  return ErrorHandler.createValidationError(`Maximum ${VALIDATION_LIMITS.MAX_ATTACHMENTS} attachments allowed`)
+}
+
+/**
+ * アップロード先を取得し、ユーザーが添付できるか確認
+ * 質問は作成者、回答・コメントは投稿者のみ（管理者は全て可）
+ */
+async function resolveUploadTarget(
+  user: User,
+  target: UploadTarget
+): Promise<{ success: boolean; resolved?: ResolvedUploadTarget; error?: AppError }> {
+  const questionResult = await getQuestion(target.questionId)
+  if (!questionResult.success || !questionResult.question) {
+    return { success: false, error: ErrorHandler.createNotFoundError('Question') }
+  }
+
+  const question = questionResult.question
+
+  if (target.type === 'question') {
+    if (!user.isAdmin && question.authorId !== user.id) {
+      return { success: false, error: forbidden('Only the question author or admin can attach files') }
+    }
+    return { success: true, resolved: { question } }
+  }
+
+  if (!target.itemId) {
+    return { success: false, error: ErrorHandler.createValidationError('itemId is required for answer or comment uploads') }
+  }
+
+  const containerId = target.type === 'answer' ? 'answers' : 'comments'
+  const item = await getCosmosService().getItem<Answer | Comment>(containerId, target.itemId, target.questionId)
+
+  if (!item || item.questionId !== target.questionId || (item as Comment).deletedAt) {
+    return { success: false, error: ErrorHandler.createNotFoundError(target.type === 'answer' ? 'Answer' : 'Comment') }
+  }
+
+  if (!user.isAdmin && item.authorId !== user.id) {
+    return { success: false, error: forbidden('Only the author or admin can attach files') }
+  }
+
+  return {
+    success: true,
+    resolved: target.type === 'answer'
+      ? { question, answer: item as Answer }
+      : { question, comment: item as Comment }
+  }
+}
+
+/**
+ * 有効な（未コミット・期限内の）セッションを取得
+ */
+async function getActiveSession(user: User, sessionId: string): Promise<{ success: boolean; session?: UploadSession; error?: AppError }> {
+  const session = await getCosmosService().getItem<UploadSession>('uploadSessions', sessionId, user.id)
+
+  if (!session || session.userId !== user.id) {
+    return { success: false, error: ErrorHandler.createNotFoundError('Upload session') }
+  }
+
+  if (session.status !== UploadSessionStatus.PENDING) {
+    return { success: false, error: ErrorHandler.createValidationError('Upload session is already committed') }
+  }
+
+  if (new Date(session.expiresAt).getTime() < Date.now()) {
+    return { success: false, error: ErrorHandler.createValidationError('Upload session has expired') }
+  }
+
+  return { success: true, session }
+}
+
+/**
+ * 保存済みファイルの先頭バイトを読み出す（形式の検証用）
+ */
+async function readFileHeader(blobPath: string, fileSize: number): Promise<Uint8Array> {
+  if (fileSize === 0) {
+    return new Uint8Array()
+  }
+
+  const stream = await getBlobStorageService().downloadFileStream(blobPath, {
+    offset: 0,
+    count: Math.min(fileSize, FILE_SIGNATURE_LENGTH)
+  })
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      chunks.push(value)
+    }
+  } finally {
+    reader.releaseLock()
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * アップロード済みブロックと新しい書き込み用URLを含むアップロード計画を作成
+ */
+async function buildUploadPlan(session: UploadSession): Promise<UploadPlan> {
+  const blobService = getBlobStorageService()
+  const [uploadUrl, uploadedBlockIds] = await Promise.all([
+    blobService.generateUploadUrl(session.stagingPath, UPLOAD_URL_TTL_MINUTES),
+    blobService.getUncommittedBlockIds(session.stagingPath)
+  ])
+
+  return {
+    sessionId: session.id,
+    uploadUrl,
+    blockSize: session.blockSize,
+    blockIds: session.blockIds,
+    uploadedBlockIds: uploadedBlockIds.filter(blockId => session.blockIds.includes(blockId)),
+    expiresAt: session.expiresAt
+  }
+}
+
+/**
+ * アップロードセッションを作成
+ */
+export async function createUploadSession(user: User, data: CreateUploadSessionRequest): Promise<UploadPlanResult> {
+  try {
+    const { fileName, fileSize, target } = data
+
+    // 入力検証
+    if (!fileName || typeof fileName !== 'string' || !fileName.trim()) {
+      return { success: false, error: ErrorHandler.createValidationError('fileName is required') }
+    }
+
+    if (typeof fileSize !== 'number' || !Number.isInteger(fileSize) || fileSize <= 0) {
+      return { success: false, error: ErrorHandler.createValidationError('fileSize must be a positive integer') }
+    }
+
+    if (fileSize > VALIDATION_LIMITS.MAX_FILE_SIZE) {
+      return {
+        success: false,
+        error: { code: ErrorCodes.FILE_TOO_LARGE, message: 'File exceeds maximum size of 1GB' }
+      }
+    }
+
+    if (!isAllowedFileType(fileName.trim())) {
+      return {
+        success: false,
+        error: { code: ErrorCodes.INVALID_FILE_TYPE, message: 'File type is not allowed' }
+      }
+    }
+
+    if (!target || !UPLOAD_TARGET_TYPES.includes(target.type) || !target.questionId) {
+      return { success: false, error: ErrorHandler.createValidationError('Valid upload target is required') }
+    }
+
+    const targetResult = await resolveUploadTarget(user, target)
+    if (!targetResult.success || !targetResult.resolved) {
+      return { success: false, error: targetResult.error }
+    }
+
+    // 上限に達している場合はアップロード前に断る（同時のアップロードはコミット時に改めて確認）
+    const { question, answer, comment } = targetResult.resolved
+    if (!canAddAttachment(target.type === 'question' ? question : (answer ?? comment)!)) {
+      return { success: false, error: tooManyAttachments() }
+    }
+
+    // 保存先パスを生成（ファイル名のパス区切りは置換）
+    const blobService = getBlobStorageService()
+    const filePath = blobService.generateBlobPath(target.type, target.questionId, target.itemId)
+    const safeFileName = fileName.trim().replace(/[\\/]/g, '_')
+    const uniqueFileName = await blobService.generateUniqueFileNameInPath(filePath, safeFileName)
+
+    const now = new Date()
+    const sessionId = `upload-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    const session: UploadSession = {
+      id: sessionId,
+      userId: user.id,
+      target: {
+        type: target.type,
+        questionId: target.questionId,
+        ...(target.type !== 'question' && { itemId: target.itemId })
+      },
+      blobPath: `${filePath}/${uniqueFileName}`,
+      // 書き込み用URLは一時パスにのみ発行し、保存先には検証後のファイルだけを置く
+      stagingPath: `questions/${target.questionId}/${UPLOAD_STAGING_DIR}/${sessionId}`,
+      fileName: fileName.trim(),
+      fileSize,
+      // 保存時の Content-Type はブラウザ申告ではなく拡張子から決定（内容はコミット時に検証）
+      contentType: getContentTypeForFileName(fileName.trim()),
+      declaredContentType: data.contentType,
+      blockSize: UPLOAD_BLOCK_SIZE,
+      blockIds: createBlockIds(fileSize),
+      status: UploadSessionStatus.PENDING,
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + UPLOAD_SESSION_TTL_HOURS * 60 * 60 * 1000)
+    }
+
+    await getCosmosService().createItem<UploadSession>('uploadSessions', session)
+
+    return { success: true, plan: await buildUploadPlan(session) }
+  } catch (error) {
+    ErrorHandler.logError(error, 'createUploadSession')
+    return { success: false, error: ErrorHandler.createInternalError('Failed to create upload session') }
+  }
+}
+
+/**
+ * 中断したアップロードの再開用に計画を再取得
+ */
+export async function getUploadSessionPlan(user: User, sessionId: string): Promise<UploadPlanResult> {
+  try {
+    const sessionResult = await getActiveSession(user, sessionId)
+    if (!sessionResult.success || !sessionResult.session) {
+      return { success: false, error: sessionResult.error }
+    }
+
+    return { success: true, plan: await buildUploadPlan(sessionResult.session) }
+  } catch (error) {
+    ErrorHandler.logError(error, 'getUploadSessionPlan')
+    return { success: false, error: ErrorHandler.createInternalError('Failed to get upload session') }
+  }
+}
+
+/**
+ * ブロックをコミットし、添付ファイルとして質問・回答・コメントに関連付け
+ */
+export async function commitUploadSession(user: User, sessionId: string): Promise<CommitUploadResult> {
+  try {
+    const sessionResult = await getActiveSession(user, sessionId)
+    if (!sessionResult.success || !sessionResult.session) {
+      return { success: false, error: sessionResult.error }
+    }
+
+    const session = sessionResult.session
+
+    // コミット時点で改めて権限を確認
+    const targetResult = await resolveUploadTarget(user, session.target)
+    if (!targetResult.success || !targetResult.resolved) {
+      return { success: false, error: targetResult.error }
+    }
+
+    // 全ブロックがアップロード済みか確認
+    const blobService = getBlobStorageService()
+    const uploadedBlockIds = await blobService.getUncommittedBlockIds(session.stagingPath)
+    const missingBlockIds = session.blockIds.filter(blockId => !uploadedBlockIds.includes(blockId))
+
+    if (missingBlockIds.length > 0) {
+      return {
+        success: false,
+        error: ErrorHandler.createValidationError('Upload is incomplete', { missingBlockIds })
+      }
+    }
+
+    const { type, questionId, itemId } = session.target
+    await blobService.commitBlocks(session.stagingPath, session.blockIds, session.contentType, {
+      originalName: session.fileName,
+      uploadedBy: user.id,
+      uploadedAt: new Date().toISOString(),
+      questionId,
+      ...(type === 'answer' && { answerId: itemId }),
+      ...(type === 'comment' && { commentId: itemId })
+    })
+
+    // 保存先へコピーしてから検証する（一時パスへの書き込み用URLが有効な間に書き換えられても保存先には影響しない）
+    const { blobUrl } = await blobService.moveFile(session.stagingPath, session.blobPath)
+    const fileInfo = await blobService.getFileInfo(session.blobPath)
+    const fileSize = fileInfo.size ?? 0
+
+    if (fileSize !== session.fileSize) {
+      await blobService.deleteFile(session.blobPath)
+      return {
+        success: false,
+        error: ErrorHandler.createValidationError('Uploaded size does not match the declared file size')
+      }
+    }
+
+    // 先頭バイトで形式を検証（一致しない場合は破棄）
+    const fileType = verifyFileContent(
+      session.fileName,
+      await readFileHeader(session.blobPath, fileSize),
+      session.declaredContentType
+    )
+    if (!fileType.valid) {
+      await blobService.deleteFile(session.blobPath)
+      return {
+        success: false,
+        error: { code: ErrorCodes.INVALID_FILE_TYPE, message: fileType.error || 'File content is not allowed' }
+      }
+    }
+
+    // マルウェアスキャンはコミット後に行う（スキャンが終わるまではダウンロードできない）
+    const attachment: Attachment = {
+      id: createAttachmentId(),
+      fileName: session.fileName,
+      fileSize,
+      blobUrl,
+      contentType: session.contentType,
+      scanStatus: AttachmentScanStatus.PENDING
+    }
+
+    // 添付ファイルを関連付け（同時にコミットされた他の添付ファイルを消さないよう ETag で競合を検出）
+    const { question, answer, comment } = targetResult.resolved
+    const scanTarget: AttachmentHolder = type === 'question'
+      ? { containerId: 'questions', id: questionId, partitionKey: question.groupId }
+      : { containerId: type === 'answer' ? 'answers' : 'comments', id: (answer ?? comment)!.id, partitionKey: questionId }
+
+    // 上限の確認も読み直した最新の投稿に対して行う（同時にコミットされた添付ファイルも数える）
+    let limitReached = false
+    const updated = await getCosmosService().modifyItem<Question | Answer | Comment>(
+      scanTarget.containerId,
+      scanTarget.id,
+      scanTarget.partitionKey,
+      item => {
+        limitReached = !canAddAttachment(item)
+        return limitReached ? null : {
+          ...item,
+          attachments: [...(item.attachments || []), attachment],
+          updatedAt: new Date()
+        }
+      }
+    )
+    if (!updated) {
+      throw new Error(`Failed to attach file to ${type}`)
+    }
+
+    if (limitReached) {
+      await blobService.deleteFile(session.blobPath)
+      return { success: false, error: tooManyAttachments() }
+    }
+
+    const result: CommitUploadResult = { success: true, attachment, scanTarget }
+    if (type === 'question') {
+      result.question = updated as Question
+    } else if (type === 'answer') {
+      result.answer = updated as Answer
+    } else {
+      result.comment = updated as Comment
+    }
+
+    await getCosmosService().updateItem<UploadSession>('uploadSessions', session.id, {
+      ...session,
+      status: UploadSessionStatus.COMMITTED,
+      committedAt: new Date()
+    }, session.userId)
+
+    return result
+  } catch (error) {
+    ErrorHandler.logError(error, 'commitUploadSession')
+    return { success: false, error: ErrorHandler.createInternalError('Failed to commit upload') }
+  }
+}
+
+/**
+ * コミットした添付ファイルをスキャン（レスポンス後に実行し、失敗した場合はスキャン待ちのまま定期実行で再スキャン）
+ */
+export async function scanCommittedUpload(result: CommitUploadResult): Promise<void> {
+  if (!result.success || !result.attachment || !result.scanTarget) {
+    return
+  }
+
+  try {
+    await scanAttachment(result.scanTarget, result.attachment.blobUrl)
+  } catch (error) {
+    ErrorHandler.logError(error, 'scanCommittedUpload')
+  }
+}
@@ -1,3 +1,5 @@
+import sanitize from 'sanitize-html'
+
 interface ValidationResult {
   valid: boolean
   errors: string[]
@@ -133,6 +135,12 @@ export const ALLOWED_FILE_TYPES = [
   'application/json',
   'application/xml',
   'text/xml',
+  'application/yaml',
+  'application/x-yaml',
+  'text/yaml',
+  'text/x-yaml',
+  'text/x-log',
+  'application/toml',
   // Programming files
   'text/javascript',
   'application/javascript',
@@ -186,14 +194,51 @@ export function sanitizeInput(input: string): string {
     .trim()
 }
 
+// 投稿本文（Markdown のレンダリング結果）で許可するタグ・属性
+const ALLOWED_HTML: sanitize.IOptions = {
+  allowedTags: [
+    'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+    'strong', 'em', 'del', 's', 'code', 'pre', 'blockquote',
+    'ul', 'ol', 'li', 'input', 'a', 'img', 'span',
+    'table', 'thead', 'tbody', 'tr', 'th', 'td'
+  ],
+  allowedAttributes: {
+    a: ['href', 'title', 'target', 'rel'],
+    img: ['src', 'alt', 'title'],
+    ol: ['start'],
+    input: ['type', 'checked', 'disabled'],
+    th: ['style'],
+    td: ['style'],
+    '*': ['class']
+  },
+  allowedClasses: {
+    a: ['mention'],
+    code: [/^language-[\w-]+$/, 'hljs'],
+    span: [/^hljs-[\w-]+$/],
+    ul: ['contains-task-list'],
+    ol: ['contains-task-list'],
+    li: ['task-list-item'],
+    input: ['task-list-item-checkbox']
+  },
+  allowedStyles: {
+    th: { 'text-align': [/^(?:left|right|center)$/] },
+    td: { 'text-align': [/^(?:left|right|center)$/] }
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedSchemesByTag: { img: ['http', 'https'] },
+  // チェックボックス以外の input は除去
+  exclusiveFilter: (frame) => frame.tag === 'input' && frame.attribs.type !== 'checkbox',
+  transformTags: {
+    a: sanitize.simpleTransform('a', { target: '_blank', rel: 'noopener noreferrer nofollow' }),
+    input: sanitize.simpleTransform('input', { disabled: 'disabled' })
+  }
+}
+
+/**
+ * 許可リストに含まれないタグ・属性・URLスキームを除去（script 等は中身ごと削除）
+ */
 export function sanitizeHtml(input: string): string {
-  // Basic HTML sanitization - remove script tags and potentially dangerous attributes
-  return input
-    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-    .replace(/on\w+="[^"]*"/gi, '')
-    .replace(/javascript:/gi, '')
-    .replace(/vbscript:/gi, '')
-    .replace(/data:/gi, '')
+  return sanitize(input, ALLOWED_HTML)
 }
 
 // Password validation with security requirements
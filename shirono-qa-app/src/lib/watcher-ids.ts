@@ -0,0 +1,20 @@
+import { Question } from '@/types/question'
+
+/**
+ * 質問のウォッチャーID（クライアント・サーバー共用）
+ */
+
+/**
+ * 質問のウォッチャー（未設定は導入前の質問として投稿者のみ）
+ */
+export function getWatcherIds(question: Pick<Question, 'authorId' | 'watcherIds'>): string[] {
+  return question.watcherIds ?? [question.authorId]
+}
+
+/**
+ * ウォッチャーを追加した一覧（既に含まれている場合はそのまま）
+ */
+export function addWatcherIds(question: Pick<Question, 'authorId' | 'watcherIds'>, userIds: string[]): string[] {
+  const watcherIds = getWatcherIds(question)
+  return [...watcherIds, ...userIds.filter((userId, i) => !watcherIds.includes(userId) && userIds.indexOf(userId) === i)]
+}
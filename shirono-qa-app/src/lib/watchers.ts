@@ -0,0 +1,26 @@
+import { getCosmosService } from './cosmos'
+import { canAccessQuestion } from './access-control'
+import { getWatcherIds } from './watcher-ids'
+import { User } from '@/types/auth'
+import { Question } from '@/types/question'
+
+/**
+ * 通知を送るウォッチャー
+ * 質問を閲覧できなくなったユーザー（グループの移動など）と、excludeUserId（操作した本人）は除く
+ */
+export async function getWatcherRecipients(question: Question, excludeUserId?: string): Promise<User[]> {
+  const cosmosService = getCosmosService()
+  const recipients: User[] = []
+
+  for (const userId of getWatcherIds(question)) {
+    if (userId === excludeUserId) {
+      continue
+    }
+    const user = await cosmosService.getItem<User>('users', userId)
+    if (user && canAccessQuestion(user, question)) {
+      recipients.push(user)
+    }
+  }
+
+  return recipients
+}
@@ -0,0 +1,4 @@
+// pdf.js のワーカーは型定義が同梱されていない（サーバーでのサムネイル生成で読み込む）
+declare module 'pdfjs-dist/legacy/build/pdf.worker.mjs' {
+  export const WorkerMessageHandler: unknown
+}
@@ -1,24 +1,36 @@
-import { Attachment } from './question'
+import { Attachment, Question } from './question'
 
 export interface Answer {
   id: string
   questionId: string
   content: string
+  contentHtml?: string  // 本文の Markdown を変換・無害化した HTML
+  mentions?: string[]   // 本文で @メンションしたユーザーのID
   authorId: string
   attachments: Attachment[]
   createdAt: Date
   updatedAt: Date
+  editedAt?: Date    // 本文を最後に編集した日時（履歴あり）
+  helpfulCount?: number       // 「役に立った」の件数
+  helpfulVoterIds?: string[]  // 「役に立った」を付けたユーザーのID
 }
 
 export interface Comment {
   id: string
   questionId: string
   answerId?: string  // Optional: if commenting on an answer
+  parentCommentId?: string  // 返信先のコメントID
   content: string
+  contentHtml?: string
+  mentions?: string[]
   authorId: string
   attachments: Attachment[]
   createdAt: Date
   updatedAt?: Date
+  editedAt?: Date
+  helpfulCount?: number
+  helpfulVoterIds?: string[]
+  deletedAt?: Date   // 返信が残っているため本文だけ削除した日時
 }
 
 export interface CreateAnswerRequest {
@@ -32,9 +44,23 @@ export interface CreateAnswerResult {
   error?: string
 }
 
+export interface AcceptAnswerResult {
+  success: boolean
+  question?: Question
+  answer?: Answer
+  error?: string
+}
+
 export interface UpdateAnswerRequest {
   content?: string
   attachments?: Attachment[]
+  rollbackOf?: string   // ロールバック元のリビジョンID
+}
+
+export interface UpdateCommentResult {
+  success: boolean
+  comment?: Comment
+  error?: string
 }
 
 export interface UpdateAnswerResult {
@@ -46,6 +72,7 @@ export interface UpdateAnswerResult {
 export interface CreateCommentRequest {
   content: string
   answerId?: string  // Optional: if commenting on an answer vs question
+  parentCommentId?: string
   attachments?: File[]
 }
 
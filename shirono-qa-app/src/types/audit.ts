@@ -0,0 +1,13 @@
+// 管理者による操作の記録
+export type AuditAction = 'question.moved'
+
+export interface AuditLog {
+  id: string
+  action: AuditAction
+  targetType: 'question'
+  targetId: string            // パーティションキー
+  actorId: string
+  actorName?: string
+  details: Record<string, string>   // 操作ごとの変更内容（移動元・移動先のグループなど）
+  createdAt: Date
+}
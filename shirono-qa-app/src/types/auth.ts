@@ -1,3 +1,5 @@
+import { SlaPolicy } from './question'
+
 export interface User {
   id: string
   username: string
@@ -10,6 +12,9 @@ export interface User {
   lastLoginAt: Date | null
 }
 
+// メンションの入力補完の候補
+export type MentionableUser = Pick<User, 'id' | 'username'>
+
 export interface Session {
   id: string
   userId: string
@@ -23,6 +28,8 @@ export interface Group {
   id: string
   name: string
   description: string
+  defaultAssigneeId?: string
+  slaPolicy?: Partial<SlaPolicy>
   createdAt: Date
 }
 
@@ -0,0 +1,45 @@
+import { QuestionPriority, RequestType } from './question'
+import { PendingUpload } from './upload'
+
+// 新規質問・回答（管理者）の下書き
+export type DraftKind = 'question' | 'answer'
+
+// 下書きの本文から参照している添付前ファイル（貼り付けた画像）
+export type DraftAttachment = Pick<PendingUpload, 'blobPath' | 'fileName' | 'fileSize' | 'contentType'>
+
+// 添付ファイル欄で先にアップロードした添付前ファイル（再開時に添付ファイル欄へ戻す）
+export type DraftFile = DraftAttachment & { blobUrl: string }
+
+// ユーザー・種類・対象の質問ごとに1件（自動保存で上書きする）
+export interface Draft {
+  id: string
+  userId: string                   // パーティションキー
+  kind: DraftKind
+  questionId?: string              // 回答の下書きの対象の質問
+  title?: string                   // 質問のみ
+  content: string
+  priority?: QuestionPriority      // 質問のみ
+  requestType?: RequestType        // 質問のみ
+  requestFields?: Record<string, string>  // 質問のみ（必須項目が未入力でも保存する）
+  attachments: DraftAttachment[]   // 下書きが残っている間は未使用ファイルの定期削除の対象外
+  files?: DraftFile[]              // 質問のみ（attachments と同じく定期削除の対象外）
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface SaveDraftRequest {
+  kind: DraftKind
+  questionId?: string
+  title?: string
+  content: string
+  priority?: QuestionPriority
+  requestType?: RequestType
+  requestFields?: Record<string, string>
+  fileUrls?: string[]              // 添付ファイル欄でアップロード済みのファイルの Blob URL
+}
+
+export interface DraftResult {
+  success: boolean
+  draft?: Draft | null
+  error?: string
+}
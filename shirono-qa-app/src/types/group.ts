@@ -1,6 +1,10 @@
+import { SlaPolicy } from './question'
+
 export interface Group {
   id: string
   name: string
   description: string
+  defaultAssigneeId?: string   // 新しい質問を自動で割り当てる管理者（未設定はラウンドロビン）
+  slaPolicy?: Partial<SlaPolicy>   // 優先度別のSLA（未設定の優先度は既定値）
   createdAt: Date
-}
\ No newline at end of file
+}
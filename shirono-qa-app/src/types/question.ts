@@ -1,26 +1,45 @@
+import { User } from './auth'
+
 export interface Question {
   id: string
   title: string
   content: string
+  contentHtml?: string        // 本文の Markdown を変換・無害化した HTML
   authorId: string
   groupId: string
   status: QuestionStatus
   priority: QuestionPriority
+  requestType?: RequestType   // 未設定は種別導入前の質問（「質問」として扱う）
+  requestFields?: RequestFieldValue[]  // 種別のテンプレートで入力した項目
   tags: string[]
   attachments: Attachment[]
   createdAt: Date
   updatedAt: Date
+  editedAt?: Date             // タイトル・本文を最後に編集した日時（履歴あり）
   resolvedAt?: Date
+  acceptedAnswerId?: string   // ベストアンサーとして採用された回答
+  duplicateOfId?: string      // 重複としてクローズした場合の元の質問
+  watcherIds?: string[]       // 通知を受け取るユーザー（未設定は導入前の質問として投稿者のみ）
+  assigneeId?: string         // 対応を担当する管理者
+  assignedAt?: Date
+  firstResponseDueAt?: Date   // 初回回答の期限（優先度別のSLA）
+  resolutionDueAt?: Date      // 解決の期限
+  slaDueAt?: Date             // 現在のステータスで有効な期限（期限順の並び替え用、対応中以外は未設定）
+  slaEscalations?: SlaEscalations
+  statusHistory?: StatusHistoryEntry[]
+  contentVector?: number[]    // タイトル・本文の埋め込みベクター（類似質問検索用）
 }
 
 export interface Answer {
   id: string
   questionId: string
   content: string
+  contentHtml?: string
   authorId: string
   attachments: Attachment[]
   createdAt: Date
   updatedAt?: Date
+  editedAt?: Date
 }
 
 export interface Comment {
@@ -28,19 +47,60 @@ export interface Comment {
   questionId: string
   answerId?: string
   content: string
+  contentHtml?: string
   authorId: string
   attachments: Attachment[]
   createdAt: Date
   updatedAt?: Date
+  editedAt?: Date
 }
 
 export interface Attachment {
+  id?: string                         // 共有リンク用のID（未設定は共有リンク導入前に添付されたファイル）
   fileName: string
   fileSize: number
   blobUrl: string
   contentType: string
+  scanStatus?: AttachmentScanStatus   // 未設定はスキャン導入前に添付されたファイル
+  scanDetail?: string                 // 隔離時に検出されたマルウェア名
+  scannedAt?: Date
+  inline?: boolean                    // 本文に貼り付けた画像（添付ファイル一覧には表示しない）
+}
+
+export enum AttachmentScanStatus {
+  PENDING = 'pending',          // スキャン待ち（スキャナー障害時は定期実行で再スキャン）
+  CLEAN = 'clean',
+  QUARANTINED = 'quarantined'   // マルウェア検出によりダウンロード不可
+}
+
+// テンプレートの入力値（テンプレート変更後も表示できるよう投稿時の項目名を保存）
+export interface RequestFieldValue {
+  key: string
+  label: string
+  value: string
+}
+
+export interface StatusHistoryEntry {
+  from: QuestionStatus
+  to: QuestionStatus
+  changedBy: string           // 変更したユーザーID（自動変更は 'system'）
+  changedByName?: string      // 変更時点のユーザー名
+  changedAt: Date
+  reason?: string
 }
 
+export type SlaKind = 'firstResponse' | 'resolution'
+
+// 期限超過のエスカレーション送信日時（同じ期限で二重に送信しない）
+export type SlaEscalations = Partial<Record<SlaKind, Date>>
+
+export interface SlaTarget {
+  firstResponseHours: number
+  resolutionHours: number
+}
+
+export type SlaPolicy = Record<QuestionPriority, SlaTarget>
+
 export enum QuestionStatus {
   UNANSWERED = 'unanswered',
   ANSWERED = 'answered',
@@ -55,11 +115,21 @@ export enum QuestionPriority {
   HIGH = 'high'
 }
 
+export enum RequestType {
+  QUESTION = 'question',
+  VERIFICATION = 'verification',     // 検証依頼
+  INVESTIGATION = 'investigation'    // 調査依頼
+}
+
 export interface CreateQuestionRequest {
   title: string
   content: string
   priority: QuestionPriority
+  requestType?: RequestType             // 省略時は質問
+  requestFields?: Record<string, string>
+  tags?: string[]                       // 自動タグ付けの結果（カタログの正式名に揃えて保存）
   attachments?: File[]
+  assigneeId?: string
 }
 
 export interface CreateQuestionResult {
@@ -72,8 +142,13 @@ export interface UpdateQuestionRequest {
   title?: string
   content?: string
   priority?: QuestionPriority
+  requestType?: RequestType
+  requestFields?: Record<string, string>
+  tags?: string[]
   status?: QuestionStatus
+  statusReason?: string
   attachments?: Attachment[]
+  rollbackOf?: string         // ロールバック元のリビジョンID
 }
 
 export interface UpdateQuestionResult {
@@ -82,14 +157,37 @@ export interface UpdateQuestionResult {
   error?: string
 }
 
+export interface MarkDuplicateResult {
+  success: boolean
+  question?: Question
+  original?: Question
+  error?: string
+}
+
+export interface MoveQuestionResult {
+  success: boolean
+  question?: Question
+  error?: string
+}
+
+export interface AssignQuestionResult {
+  success: boolean
+  question?: Question
+  assignee?: User
+  error?: string
+}
+
 export interface GetQuestionsQuery {
   page?: number
   limit?: number
   status?: QuestionStatus
   statusArray?: QuestionStatus[]
   priority?: QuestionPriority
+  requestType?: RequestType
+  tag?: string
   authorId?: string
   groupId?: string
+  assigneeId?: string
   search?: string
   startDate?: Date
   endDate?: Date
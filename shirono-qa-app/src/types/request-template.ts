@@ -0,0 +1,27 @@
+import { RequestType } from './question'
+
+export type RequestFieldType = 'text' | 'textarea' | 'date'
+
+// 依頼種別のテンプレートの入力項目
+export interface RequestTemplateField {
+  key: string                 // 質問に保存する項目のキー（英数字）
+  label: string
+  type: RequestFieldType
+  required: boolean
+  placeholder?: string
+}
+
+// 種別ごとに1件（管理者が設定していない種別は既定のテンプレートを使う）
+export interface RequestTemplate {
+  id: RequestType             // パーティションキー
+  requestType: RequestType
+  fields: RequestTemplateField[]
+  updatedAt?: Date
+  updatedBy?: string          // 最後に変更した管理者のユーザーID
+}
+
+export interface RequestTemplateResult {
+  success: boolean
+  template?: RequestTemplate
+  error?: string
+}
@@ -0,0 +1,21 @@
+export type RevisionTargetType = 'question' | 'answer' | 'comment'
+
+// 編集ごとの内容のスナップショット（最初の編集時に元の内容も記録する）
+export interface Revision {
+  id: string
+  targetType: RevisionTargetType
+  targetId: string
+  questionId: string          // パーティションキー
+  title?: string              // 質問のみ
+  content: string
+  editedBy: string            // この内容にしたユーザーID
+  editedByName?: string
+  createdAt: Date
+  rollbackOf?: string         // ロールバックで作成された場合の元のリビジョンID
+}
+
+export interface GetRevisionsResult {
+  success: boolean
+  revisions?: Revision[]
+  error?: string
+}
@@ -23,8 +23,15 @@ export enum SearchSortField {
   STATUS = 'status'             // ステータス
 }
 
+// 検索結果に含める質問のフィールド
+export type SearchResultQuestion = Pick<
+  Question,
+  'id' | 'title' | 'content' | 'authorId' | 'groupId' | 'status' | 'priority' | 'requestType' |
+  'tags' | 'attachments' | 'createdAt' | 'updatedAt' | 'resolvedAt' | 'assigneeId'
+>
+
 export interface SearchResult {
-  question: Question
+  question: SearchResultQuestion
   score: number                 // 検索スコア（0-1）
   highlights: SearchHighlight[] // ハイライト情報
   snippet: string               // 検索結果スニペット
@@ -54,6 +61,7 @@ export interface SimilarQuestion {
   snippet: string               // 質問の要約
   status: string
   answersCount: number
+  topAnswerHelpfulCount: number // 最も「役に立った」が多い回答の件数
   createdAt: Date
 }
 
@@ -85,9 +93,15 @@ export interface VectorSearchQuery {
   groupId?: string              // グループ制限
 }
 
+// 類似質問の候補として読み込む質問のフィールド
+export type SimilarQuestionCandidate = Pick<
+  Question,
+  'id' | 'title' | 'content' | 'authorId' | 'groupId' | 'status' | 'createdAt'
+>
+
 export interface VectorSearchResult {
   id: string
   distance: number              // ベクター距離
   similarity: number            // 類似度スコア（1 - distance）
-  question: Question
+  question: SimilarQuestionCandidate
 }
\ No newline at end of file
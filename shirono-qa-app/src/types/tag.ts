@@ -0,0 +1,29 @@
+// 管理者が整備するタグのカタログ（質問には正式名で保存する）
+export interface Tag {
+  id: string
+  name: string                // 正式名
+  synonyms: string[]          // 同義語（投稿・編集時に正式名へ置き換える）
+  description?: string
+  createdAt: Date
+  updatedAt: Date
+  updatedBy?: string          // 最後に変更した管理者のユーザーID
+}
+
+export interface TagInput {
+  name: string
+  synonyms?: string[]
+  description?: string
+}
+
+export interface TagResult {
+  success: boolean
+  tag?: Tag
+  updatedQuestions?: number   // タグを書き換えた質問の件数
+  error?: string
+}
+
+// 質問で使われているタグの件数（カタログにないタグも含む）
+export interface TagUsage {
+  name: string
+  count: number
+}
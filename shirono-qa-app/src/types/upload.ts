@@ -0,0 +1,73 @@
+export type UploadTargetType = 'question' | 'answer' | 'comment'
+
+export interface UploadTarget {
+  type: UploadTargetType
+  questionId: string
+  itemId?: string              // 回答ID・コメントID（type が answer / comment の場合）
+}
+
+export enum UploadSessionStatus {
+  PENDING = 'pending',         // ブロックアップロード中
+  COMMITTED = 'committed'      // コミット済み（添付ファイルとして登録済み）
+}
+
+export interface UploadSession {
+  id: string
+  userId: string
+  target: UploadTarget
+  blobPath: string             // questions/{id}/… 形式の保存先
+  stagingPath: string          // ブロックのアップロード先（コミット時に検証してから保存先へコピー）
+  fileName: string             // 元のファイル名
+  fileSize: number
+  contentType: string          // 拡張子から決定した保存時の Content-Type
+  declaredContentType?: string // ブラウザが申告した Content-Type（コミット時の検証用）
+  blockSize: number
+  blockIds: string[]           // コミット順のブロックID
+  status: UploadSessionStatus
+  createdAt: Date
+  expiresAt: Date              // この時刻以降は再開・コミット不可
+  committedAt?: Date
+}
+
+export interface CreateUploadSessionRequest {
+  fileName: string
+  fileSize: number
+  contentType?: string
+  target: UploadTarget
+}
+
+// クライアントに返すアップロード計画
+export interface UploadPlan {
+  sessionId: string
+  uploadUrl: string            // 書き込み専用の短期 SAS URL
+  blockSize: number
+  blockIds: string[]
+  uploadedBlockIds: string[]   // 再開時にスキップできるブロック
+  expiresAt: Date
+}
+
+// 添付前のアップロード（/api/files/upload で保存され、質問に未関連付けのファイル）
+export interface PendingUpload {
+  id: string
+  userId: string
+  blobPath: string
+  fileName: string
+  fileSize: number
+  contentType: string
+  createdAt: Date
+}
+
+export interface StorageCleanupResult {
+  scanned: number              // 検査したファイル数
+  deleted: string[]            // 削除した（dryRun の場合は削除対象の）パス
+  failed: string[]             // 削除に失敗したパス
+  freedBytes: number
+  dryRun: boolean
+}
+
+export interface GroupStorageUsage {
+  groupId: string | null       // null は質問に紐付かないファイル（一時ファイル等）
+  groupName: string
+  fileCount: number
+  totalBytes: number
+}